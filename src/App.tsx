@@ -8,6 +8,9 @@ import { ToastProvider } from './contexts/ToastContext'
 import { ErrorBoundary } from './components/ui/ErrorBoundary'
 import { OfflineBanner } from './components/ui/OfflineBanner'
 import { RootNavigator } from './navigation'
+import { configureRestNotifications } from './lib/restTimer'
+
+configureRestNotifications()
 
 export default function App() {
   return (
@@ -0,0 +1,246 @@
+// src/components/analytics/LineChart.tsx
+// View-based line chart shared by the progress tab and exercise detail
+import React from 'react'
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native'
+import { colors } from '../../theme'
+
+export const Y_AXIS_WIDTH = 40
+
+export interface LineChartPoint {
+  key: string
+  label: string   // x-axis label
+  value: number   // already in the display unit
+}
+
+interface LineChartProps {
+  points: LineChartPoint[]
+  width: number   // plot width, excluding the y-axis
+  height: number
+  unitLabel: string
+  selectedKey?: string | null
+  onPointPress?: (point: LineChartPoint) => void
+  trend?: number[]  // optional smoothed line, one value per point, drawn without dots
+}
+
+// Returns up to 5 evenly spaced indices for X axis labels
+function getXLabelIndices(count: number): number[] {
+  if (count === 0) return []
+  if (count <= 5) return Array.from({ length: count }, (_, i) => i)
+  const indices = new Set([0, count - 1])
+  const step = (count - 1) / 4
+  for (let i = 1; i <= 3; i++) indices.add(Math.round(step * i))
+  return Array.from(indices).sort((a, b) => a - b)
+}
+
+export default function LineChart({
+  points,
+  width,
+  height,
+  unitLabel,
+  selectedKey,
+  onPointPress,
+  trend,
+}: LineChartProps) {
+  if (points.length === 0) return null
+
+  // Axis bounds padded so the labels land on round numbers
+  const values = points.map(p => p.value).concat(trend ?? [])
+  const rawMin = Math.min(...values)
+  const rawMax = Math.max(...values)
+  const padding = Math.max(rawMax - rawMin, 5) * 0.15
+  const minValue = Math.floor(rawMin - padding)
+  const maxValue = Math.ceil(rawMax + padding)
+  const valueRange = maxValue - minValue
+
+  function getXY(index: number, value = points[index].value) {
+    const x = points.length > 1 ? index * (width / (points.length - 1)) : width / 2
+    const yPercent = valueRange > 0 ? (value - minValue) / valueRange : 0.5
+    // 10px top/bottom padding keeps dots away from grid edges
+    const y = height - yPercent * (height - 20) - 10
+    return { x, y }
+  }
+
+  // Line segments — positioned at the midpoint between each pair of dots.
+  // Default transform-origin is the element's center, so rotating around
+  // the midpoint produces the correct line between the two points.
+  function renderSegments(series: number[], keyPrefix: string, segmentStyle: object) {
+    return series.slice(0, -1).map((value, index) => {
+      const { x, y } = getXY(index, value)
+      const { x: nx, y: ny } = getXY(index + 1, series[index + 1])
+      const dx = nx - x
+      const dy = ny - y
+      const length = Math.sqrt(dx * dx + dy * dy)
+      const angle = Math.atan2(dy, dx)
+      return (
+        <View
+          key={`${keyPrefix}-${index}`}
+          style={[
+            segmentStyle,
+            {
+              left: (x + nx) / 2 - length / 2,
+              top: (y + ny) / 2 - 1,
+              width: length,
+              transform: [{ rotate: `${angle}rad` }],
+            },
+          ]}
+        />
+      )
+    })
+  }
+
+  const xLabelIndices = getXLabelIndices(points.length)
+
+  return (
+    <View style={styles.chartContainer}>
+      {/* Y-Axis Labels */}
+      <View style={[styles.yAxis, { height }]}>
+        <Text style={styles.axisLabel}>{maxValue}{unitLabel}</Text>
+        <Text style={styles.axisLabel}>{Math.round((maxValue + minValue) / 2)}{unitLabel}</Text>
+        <Text style={styles.axisLabel}>{minValue}{unitLabel}</Text>
+      </View>
+
+      {/* Plot + X axis stacked vertically */}
+      <View style={styles.chartAndXAxis}>
+        {/* Plot area */}
+        <View style={[styles.chartPlot, { height }]}>
+          {/* Horizontal grid lines */}
+          <View style={[styles.gridLine, { top: 0 }]} />
+          <View style={[styles.gridLine, { top: height / 2 }]} />
+          <View style={[styles.gridLine, { top: height - 1 }]} />
+
+          {/* Absolute layer: lines rendered first, dots on top */}
+          <View style={StyleSheet.absoluteFillObject}>
+            {renderSegments(values.slice(0, points.length), 'line', styles.lineSegment)}
+            {trend && trend.length === points.length &&
+              renderSegments(trend, 'trend', styles.trendSegment)}
+
+            {/* Data points — left: x-6, top: y-6 centers the 12×12 dot exactly on (x,y).
+                No margin offset in the style, avoiding the double-offset bug. */}
+            {points.map((point, index) => {
+              const { x, y } = getXY(index)
+              const isSelected = selectedKey === point.key
+              return (
+                <TouchableOpacity
+                  key={`dot-${point.key}`}
+                  onPress={onPointPress ? () => onPointPress(point) : undefined}
+                  disabled={!onPointPress}
+                  hitSlop={{ top: 12, right: 12, bottom: 12, left: 12 }}
+                  style={[
+                    styles.dataPoint,
+                    { left: x - 6, top: y - 6 },
+                    isSelected && styles.dataPointSelected,
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.dataPointInner,
+                      isSelected && styles.dataPointInnerSelected,
+                    ]}
+                  />
+                </TouchableOpacity>
+              )
+            })}
+          </View>
+        </View>
+
+        {/* X Axis labels */}
+        <View style={styles.xAxis}>
+          {xLabelIndices.map(i => {
+            const { x } = getXY(i)
+            return (
+              <Text
+                key={`xlabel-${i}`}
+                style={[styles.xAxisLabel, { left: x - 25 }]}
+                numberOfLines={1}
+              >
+                {points[i].label}
+              </Text>
+            )
+          })}
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  // ── Chart layout ──────────────────────────────────────────────────────────
+  chartContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  yAxis: {
+    width: Y_AXIS_WIDTH,
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    paddingRight: 8,
+  },
+  axisLabel: {
+    fontSize: 10,
+    color: colors.text.muted,
+  },
+  chartAndXAxis: {
+    flex: 1,
+  },
+  chartPlot: {
+    position: 'relative',
+  },
+  gridLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: colors.borderLight,
+  },
+  // ── Line segments ─────────────────────────────────────────────────────────
+  lineSegment: {
+    position: 'absolute',
+    height: 2,
+    backgroundColor: colors.primary,
+  },
+  trendSegment: {
+    position: 'absolute',
+    height: 2,
+    backgroundColor: colors.accent,
+    opacity: 0.8,
+  },
+  // ── Data points ───────────────────────────────────────────────────────────
+  dataPoint: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.surface,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dataPointSelected: {
+    borderColor: colors.accent,
+    transform: [{ scale: 1.3 }],
+  },
+  dataPointInner: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
+  dataPointInnerSelected: {
+    backgroundColor: colors.accent,
+  },
+  // ── X axis labels ─────────────────────────────────────────────────────────
+  xAxis: {
+    height: 24,
+    position: 'relative',
+    marginTop: 4,
+  },
+  xAxisLabel: {
+    position: 'absolute',
+    width: 50,
+    textAlign: 'center',
+    fontSize: 10,
+    color: colors.text.muted,
+    top: 0,
+  },
+})
@@ -0,0 +1,137 @@
+// src/components/analytics/MuscleExerciseList.tsx
+// The exercises behind a heatmap muscle, shown under the diagram once one is tapped
+import React from 'react'
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { MuscleGroup, WeightUnit } from '../../types/workout'
+import { MuscleExerciseContribution, formatSetCount } from '../../utils/muscleVolume'
+import { formatMuscleGroup, getMuscleColor } from '../../utils/formatting'
+import { toDisplayVolume } from '../../utils/units'
+import { colors } from '../../theme'
+
+interface MuscleExerciseListProps {
+  muscle: MuscleGroup
+  exercises: MuscleExerciseContribution[]
+  unit: WeightUnit
+  loading?: boolean
+  onClose: () => void
+}
+
+export default function MuscleExerciseList({
+  muscle,
+  exercises,
+  unit,
+  loading = false,
+  onClose,
+}: MuscleExerciseListProps) {
+  const label = formatMuscleGroup(muscle)
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={[styles.swatch, { backgroundColor: getMuscleColor(muscle) }]} />
+        <Text style={styles.title}>{label}</Text>
+        <TouchableOpacity
+          onPress={onClose}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={`Close ${label} exercises`}
+        >
+          <Ionicons name="close" size={18} color={colors.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={colors.primary} />
+      ) : exercises.length === 0 ? (
+        <Text style={styles.empty}>No exercises hit this muscle</Text>
+      ) : (
+        exercises.map(ex => (
+          <View key={ex.exercise_id} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.exerciseName} numberOfLines={1}>
+                {ex.exercise_name}
+              </Text>
+              {ex.role === 'secondary' && <Text style={styles.role}>Secondary</Text>}
+            </View>
+            <Text style={styles.sets}>
+              {formatSetCount(ex.sets)} set{ex.sets !== 1 ? 's' : ''}
+            </Text>
+            <Text style={styles.volume}>
+              {toDisplayVolume(ex.volume_kg, unit).toLocaleString()} {unit}
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  loading: {
+    marginVertical: 12,
+  },
+  empty: {
+    fontSize: 13,
+    color: colors.text.muted,
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  rowInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  exerciseName: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  role: {
+    fontSize: 11,
+    color: colors.text.muted,
+  },
+  sets: {
+    width: 64,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.primary,
+    textAlign: 'right',
+  },
+  volume: {
+    width: 80,
+    fontSize: 13,
+    color: colors.text.secondary,
+    textAlign: 'right',
+  },
+})
@@ -0,0 +1,216 @@
+// src/components/analytics/MuscleHeatmap.tsx
+// Front and back body outlines built from rounded Views, each muscle shaded in
+// its palette colour by how much work it got relative to the busiest one.
+import React from 'react'
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native'
+import { MuscleGroup } from '../../types/workout'
+import { formatMuscleGroup, getMuscleColor } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+interface MuscleHeatmapProps {
+  values: Partial<Record<MuscleGroup, number>>
+  formatValue: (value: number) => string   // e.g. "4.5 sets", used in labels
+  selectedMuscle?: MuscleGroup | null
+  onMusclePress?: (muscle: MuscleGroup) => void
+}
+
+// Outlines are drawn on a 60 x 120 grid and scaled up
+const GRID_WIDTH = 60
+const GRID_HEIGHT = 120
+const SCALE = 2
+const MIN_OPACITY = 0.25
+
+interface Piece {
+  x: number
+  y: number
+  w: number
+  h: number
+  r: number
+}
+
+interface MusclePieces {
+  muscle: MuscleGroup
+  pieces: Piece[]
+}
+
+// Left-hand piece plus its mirror across the centre line
+function pair(x: number, y: number, w: number, h: number, r: number): Piece[] {
+  return [
+    { x, y, w, h, r },
+    { x: GRID_WIDTH - x - w, y, w, h, r },
+  ]
+}
+
+// Head, hips and shins: drawn for shape, not tied to a muscle group
+const FRONT_OUTLINE: Piece[] = [
+  { x: 24, y: 0, w: 12, h: 13, r: 6 },
+  { x: 21, y: 52, w: 18, h: 5, r: 2 },
+  ...pair(20, 88, 8, 24, 4),
+]
+
+const BACK_OUTLINE: Piece[] = [
+  { x: 24, y: 0, w: 12, h: 13, r: 6 },
+  { x: 24, y: 43, w: 12, h: 8, r: 2 },
+]
+
+const FRONT_MUSCLES: MusclePieces[] = [
+  { muscle: 'traps', pieces: pair(21, 13, 7, 5, 2) },
+  { muscle: 'side_delt', pieces: pair(9, 18, 5, 9, 3) },
+  { muscle: 'front_delt', pieces: pair(14, 17, 7, 9, 4) },
+  { muscle: 'chest', pieces: pair(21, 18, 9, 11, 3) },
+  { muscle: 'biceps', pieces: pair(11, 28, 7, 14, 4) },
+  { muscle: 'forearms', pieces: pair(8, 43, 7, 16, 4) },
+  { muscle: 'core', pieces: [{ x: 22, y: 30, w: 16, h: 21, r: 4 }] },
+  { muscle: 'quadriceps', pieces: pair(19, 58, 10, 28, 5) },
+]
+
+const BACK_MUSCLES: MusclePieces[] = [
+  { muscle: 'traps', pieces: [{ x: 20, y: 13, w: 20, h: 11, r: 4 }] },
+  { muscle: 'side_delt', pieces: pair(9, 18, 5, 9, 3) },
+  { muscle: 'rear_delt', pieces: pair(14, 17, 7, 9, 4) },
+  { muscle: 'back', pieces: [{ x: 25, y: 25, w: 10, h: 17, r: 3 }] },
+  { muscle: 'lats', pieces: pair(18, 26, 7, 17, 3) },
+  { muscle: 'triceps', pieces: pair(11, 28, 7, 14, 4) },
+  { muscle: 'forearms', pieces: pair(8, 43, 7, 16, 4) },
+  { muscle: 'glutes', pieces: pair(20, 52, 10, 11, 5) },
+  { muscle: 'hamstrings', pieces: pair(19, 64, 10, 23, 5) },
+  { muscle: 'calves', pieces: pair(20, 88, 8, 22, 4) },
+]
+
+// Muscles drawn in both views are only announced in the front one
+const FRONT_MUSCLE_SET = new Set(FRONT_MUSCLES.map(m => m.muscle))
+const NO_MUSCLES = new Set<MuscleGroup>()
+
+function withAlpha(hex: string, alpha: number): string {
+  const channel = Math.round(Math.min(1, Math.max(0, alpha)) * 255)
+  return `${hex}${channel.toString(16).padStart(2, '0')}`
+}
+
+function pieceFrame(piece: Piece) {
+  return {
+    left: piece.x * SCALE,
+    top: piece.y * SCALE,
+    width: piece.w * SCALE,
+    height: piece.h * SCALE,
+    borderRadius: piece.r * SCALE,
+  }
+}
+
+export default function MuscleHeatmap({
+  values,
+  formatValue,
+  selectedMuscle,
+  onMusclePress,
+}: MuscleHeatmapProps) {
+  const max = Math.max(0, ...Object.values(values).map(v => v ?? 0))
+
+  function fillFor(muscle: MuscleGroup): string {
+    const value = values[muscle] ?? 0
+    if (value <= 0 || max === 0) return colors.surfaceAlt
+    return withAlpha(getMuscleColor(muscle), MIN_OPACITY + (1 - MIN_OPACITY) * (value / max))
+  }
+
+  function renderFigure(title: string, outline: Piece[], muscles: MusclePieces[], announced: Set<MuscleGroup>) {
+    return (
+      <View style={styles.figureColumn}>
+        <View style={styles.figure}>
+          {outline.map((piece, i) => (
+            <View key={`outline-${i}`} style={[styles.piece, styles.outline, pieceFrame(piece)]} />
+          ))}
+          {muscles.map(({ muscle, pieces }) => {
+            const label = `${formatMuscleGroup(muscle)}, ${formatValue(values[muscle] ?? 0)}`
+            const selected = selectedMuscle === muscle
+            return pieces.map((piece, i) => {
+              // The mirrored side is the same target, so only one piece is announced
+              const labelled = i === 0 && !announced.has(muscle)
+              return (
+                <TouchableOpacity
+                  key={`${muscle}-${i}`}
+                  style={[
+                    styles.piece,
+                    pieceFrame(piece),
+                    { backgroundColor: fillFor(muscle) },
+                    selected && styles.pieceSelected,
+                  ]}
+                  onPress={() => onMusclePress?.(muscle)}
+                  disabled={!onMusclePress}
+                  accessible={labelled}
+                  accessibilityRole="button"
+                  accessibilityLabel={labelled ? label : undefined}
+                  accessibilityState={{ selected }}
+                  importantForAccessibility={labelled ? 'auto' : 'no-hide-descendants'}
+                />
+              )
+            })
+          })}
+        </View>
+        <Text style={styles.figureTitle}>{title}</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View>
+      <View style={styles.figures}>
+        {renderFigure('Front', FRONT_OUTLINE, FRONT_MUSCLES, NO_MUSCLES)}
+        {renderFigure('Back', BACK_OUTLINE, BACK_MUSCLES, FRONT_MUSCLE_SET)}
+      </View>
+      <View style={styles.scale}>
+        <Text style={styles.scaleLabel}>Less</Text>
+        {/* Each muscle keeps its own colour, so the scale shows intensity only */}
+        {[MIN_OPACITY, 0.5, 0.75, 1].map(step => (
+          <View key={step} style={[styles.scaleSwatch, { opacity: step }]} />
+        ))}
+        <Text style={styles.scaleLabel}>More</Text>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  figures: {
+    flexDirection: 'row',
+    justifyContent: 'space-evenly',
+  },
+  figureColumn: {
+    alignItems: 'center',
+  },
+  figure: {
+    width: GRID_WIDTH * SCALE,
+    height: GRID_HEIGHT * SCALE,
+  },
+  figureTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+    marginTop: 6,
+  },
+  piece: {
+    position: 'absolute',
+  },
+  outline: {
+    backgroundColor: colors.border,
+  },
+  pieceSelected: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  scale: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 10,
+  },
+  scaleLabel: {
+    fontSize: 11,
+    color: colors.text.muted,
+    marginHorizontal: 4,
+  },
+  scaleSwatch: {
+    width: 16,
+    height: 8,
+    borderRadius: 2,
+    backgroundColor: colors.text.secondary,
+  },
+})
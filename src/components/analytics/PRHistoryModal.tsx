@@ -0,0 +1,231 @@
+// src/components/analytics/PRHistoryModal.tsx
+// PR timeline for one exercise: every record broken, newest first
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useAnalytics } from '../../hooks/useAnalytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { PRHistoryEntry } from '../../types/analytics'
+import { PR_TYPE_LABELS } from '../../utils/personalRecords'
+import { formatWeight, formatVolume } from '../../utils/units'
+import { formatShortDate } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+interface PRHistoryModalProps {
+  visible: boolean
+  exerciseId: string | null
+  exerciseName: string
+  onClose: () => void
+  onViewExercise?: (exerciseId: string) => void
+}
+
+export default function PRHistoryModal({
+  visible,
+  exerciseId,
+  exerciseName,
+  onClose,
+  onViewExercise,
+}: PRHistoryModalProps) {
+  const { fetchPRHistory } = useAnalytics()
+  const unit = useWeightUnit()
+  const [entries, setEntries] = useState<PRHistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!visible || !exerciseId) return
+
+    setLoading(true)
+    fetchPRHistory(exerciseId)
+      .then(setEntries)
+      .finally(() => setLoading(false))
+  }, [visible, exerciseId, fetchPRHistory])
+
+  function describeEntry(entry: PRHistoryEntry): string {
+    switch (entry.pr_type) {
+      case 'e1rm':
+        return `${formatWeight(entry.estimated_1rm ?? entry.weight_kg, unit)} (${formatWeight(entry.weight_kg, unit)} × ${entry.reps})`
+      case 'volume':
+        return `${formatVolume(entry.volume, unit)} ${unit} in one session`
+      default:
+        return `${formatWeight(entry.weight_kg, unit)} × ${entry.reps}`
+    }
+  }
+
+  function renderEntry({ item, index }: { item: PRHistoryEntry; index: number }) {
+    const isLast = index === entries.length - 1
+
+    return (
+      <View style={styles.entryRow}>
+        <View style={styles.timelineColumn}>
+          <View style={[styles.timelineDot, item.is_manual && styles.timelineDotManual]} />
+          {!isLast && <View style={styles.timelineLine} />}
+        </View>
+        <View style={styles.entryContent}>
+          <Text style={styles.entryDate}>{formatShortDate(item.achieved_at)}</Text>
+          <Text style={styles.entryType}>
+            {PR_TYPE_LABELS[item.pr_type]}
+            {item.is_manual && ' · manual'}
+          </Text>
+          <Text style={styles.entryValue}>{describeEntry(item)}</Text>
+        </View>
+      </View>
+    )
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{exerciseName}</Text>
+            <Text style={styles.subtitle}>PR history</Text>
+          </View>
+          {onViewExercise && exerciseId && (
+            <TouchableOpacity
+              onPress={() => onViewExercise(exerciseId)}
+              style={styles.detailsButton}
+              accessibilityRole="button"
+              accessibilityLabel={`${exerciseName} details`}
+            >
+              <Text style={styles.detailsButtonText}>Details</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close PR history">
+            <Ionicons name="close" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            renderItem={renderEntry}
+            keyExtractor={item => item.id}
+            contentContainerStyle={styles.list}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons name="trophy-outline" size={48} color="#ccc" />
+                <Text style={styles.emptyText}>No records yet</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  detailsButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 12,
+  },
+  detailsButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  list: {
+    padding: 16,
+  },
+  entryRow: {
+    flexDirection: 'row',
+  },
+  timelineColumn: {
+    width: 20,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#f59e0b',
+    marginTop: 4,
+  },
+  timelineDotManual: {
+    backgroundColor: colors.text.muted,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: colors.border,
+    marginVertical: 2,
+  },
+  entryContent: {
+    flex: 1,
+    paddingLeft: 12,
+    paddingBottom: 20,
+  },
+  entryDate: {
+    fontSize: 12,
+    color: colors.text.muted,
+  },
+  entryType: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginTop: 2,
+  },
+  entryValue: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginTop: 12,
+  },
+})
@@ -1,5 +1,5 @@
 // src/components/analytics/PRsTab.tsx
-import React, { useEffect, useState, useCallback } from 'react'
+import React, { useEffect, useState, useCallback, useMemo } from 'react'
 import {
   View,
   Text,
@@ -14,10 +14,25 @@ import {
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { useAnalytics } from '../../hooks/useAnalytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useE1RMFormula } from '../../hooks/useE1RMFormula'
 import { useToast } from '../../contexts/ToastContext'
+import { useAuthContext } from '../../contexts/AuthContext'
 import { GroupedPRsData, PRRecord, ExerciseForPR } from '../../types/analytics'
 import { MuscleGroup } from '../../types/workout'
+import { BigThreeBests, BigThreeLift } from '../../types/strength'
+import { toDisplayWeight, toStorageWeight, formatWeight } from '../../utils/units'
+import { calcRelativeStrength } from '../../utils/strengthStandards'
+import {
+  E1RM_FORMULA_LABELS,
+  LOW_CONFIDENCE_REPS,
+  estimateOneRepMax,
+  isLowConfidenceE1RM,
+} from '../../utils/oneRepMax'
+import { fetchLatestBodyweightKg } from '../../lib/measurements'
 import { colors } from '../../theme'
+import PRHistoryModal from './PRHistoryModal'
+import RelativeStrengthCard from './RelativeStrengthCard'
 
 // Muscle group display config
 const MUSCLE_LABELS: Record<MuscleGroup, string> = {
@@ -45,34 +60,59 @@ const BIG_THREE_EXERCISES = {
   deadlift: 'Deadlift',
 }
 
-type BigThreeType = 'squat' | 'bench' | 'deadlift'
+interface PRsTabProps {
+  onOpenExercise?: (exerciseId: string) => void
+}
 
-export default function PRsTab() {
+export default function PRsTab({ onOpenExercise }: PRsTabProps) {
   const { fetchGroupedPRs, addManualPR, fetchExercisesForPR, loading } = useAnalytics()
   const { showError } = useToast()
+  const { user, profile } = useAuthContext()
+  const unit = useWeightUnit()
+  const formula = useE1RMFormula()
   const [prsData, setPrsData] = useState<GroupedPRsData | null>(null)
+  const [loggedBodyweightKg, setLoggedBodyweightKg] = useState<number | null>(null)
   const [refreshing, setRefreshing] = useState(false)
   const [showAddModal, setShowAddModal] = useState(false)
   const [expandedMuscle, setExpandedMuscle] = useState<MuscleGroup | null>(null)
+  const [historyFor, setHistoryFor] = useState<PRRecord | null>(null)
   
   // Manual PR form state
   const [exercises, setExercises] = useState<ExerciseForPR[]>([])
   const [selectedExercise, setSelectedExercise] = useState<ExerciseForPR | null>(null)
-  const [preSelectedType, setPreSelectedType] = useState<BigThreeType | null>(null)
+  const [preSelectedType, setPreSelectedType] = useState<BigThreeLift | null>(null)
   const [showExercisePicker, setShowExercisePicker] = useState(false)
   const [weight, setWeight] = useState('')
   const [reps, setReps] = useState('1')
   const [submitting, setSubmitting] = useState(false)
 
+  const profileBodyweightKg = profile?.bodyweight_kg ?? null
+
   const loadPRs = useCallback(async () => {
     const data = await fetchGroupedPRs()
     setPrsData(data)
-  }, [fetchGroupedPRs])
+    // Fall back to the latest weigh-in when the profile has no bodyweight
+    if (user && profileBodyweightKg === null) {
+      setLoggedBodyweightKg(await fetchLatestBodyweightKg(user.id))
+    }
+  }, [fetchGroupedPRs, user, profileBodyweightKg])
 
   useEffect(() => {
     loadPRs()
   }, [loadPRs])
 
+  const bodyweightKg = profileBodyweightKg ?? loggedBodyweightKg
+
+  const relativeStrength = useMemo(() => {
+    if (!prsData || !profile?.sex || !bodyweightKg) return null
+    const bests: BigThreeBests = {}
+    ;(Object.keys(prsData.big_three) as BigThreeLift[]).forEach(lift => {
+      const pr = prsData.big_three[lift]
+      if (pr) bests[lift] = { one_rep_max_kg: pr.estimated_1rm, estimated: pr.reps > 1 }
+    })
+    return calcRelativeStrength(bests, bodyweightKg, profile.sex)
+  }, [prsData, profile?.sex, bodyweightKg])
+
   const onRefresh = async () => {
     setRefreshing(true)
     await loadPRs()
@@ -91,7 +131,7 @@ export default function PRsTab() {
   }
 
   // Open modal pre-selected for a Big 3 lift
-  async function openAddModalForBigThree(type: BigThreeType) {
+  async function openAddModalForBigThree(type: BigThreeLift) {
     const exerciseList = await fetchExercisesForPR()
     setExercises(exerciseList)
     
@@ -130,7 +170,7 @@ export default function PRsTab() {
     setSubmitting(true)
     const { success, error } = await addManualPR({
       exercise_id: selectedExercise.id,
-      weight_kg: weightNum,
+      weight_kg: toStorageWeight(weightNum, unit),
       reps: repsNum,
     })
     setSubmitting(false)
@@ -150,7 +190,7 @@ export default function PRsTab() {
 
   function renderBigThreeCard(
     title: string,
-    type: BigThreeType,
+    type: BigThreeLift,
     pr: PRRecord | null
   ) {
     // Only show e1RM if reps > 1 (for 1 rep, e1RM = weight, which is pointless)
@@ -160,19 +200,31 @@ export default function PRsTab() {
       <View style={styles.bigThreeCard}>
         <Text style={styles.bigThreeTitle}>{title}</Text>
         {pr ? (
-          <>
+          <TouchableOpacity
+            onPress={() => setHistoryFor(pr)}
+            accessibilityRole="button"
+            accessibilityLabel={`${pr.exercise_name} PR history`}
+          >
             <View style={styles.bigThreeMain}>
-              <Text style={styles.bigThreeWeight}>{pr.weight_kg}</Text>
-              <Text style={styles.bigThreeUnit}>kg</Text>
+              <Text style={styles.bigThreeWeight}>{toDisplayWeight(pr.weight_kg, unit)}</Text>
+              <Text style={styles.bigThreeUnit}>{unit}</Text>
             </View>
             <Text style={styles.bigThreeReps}>× {pr.reps} rep{pr.reps > 1 ? 's' : ''}</Text>
             {showE1rm && (
               <View style={styles.bigThreeE1rm}>
                 <Text style={styles.bigThreeE1rmLabel}>e1RM:</Text>
-                <Text style={styles.bigThreeE1rmValue}>{pr.estimated_1rm}kg</Text>
+                <Text style={styles.bigThreeE1rmValue}>{formatWeight(pr.estimated_1rm, unit)}</Text>
+                {isLowConfidenceE1RM(pr.reps) && (
+                  <Ionicons
+                    name="alert-circle-outline"
+                    size={13}
+                    color={colors.warning}
+                    accessibilityLabel="Low confidence estimate"
+                  />
+                )}
               </View>
             )}
-          </>
+          </TouchableOpacity>
         ) : (
           <TouchableOpacity style={styles.bigThreeEmpty} onPress={() => openAddModalForBigThree(type)}>
             <Ionicons name="add-circle-outline" size={32} color="#ccc" />
@@ -185,14 +237,28 @@ export default function PRsTab() {
 
   function renderCompoundPR(pr: PRRecord) {
     return (
-      <View key={pr.id} style={styles.compoundRow}>
+      <TouchableOpacity
+        key={pr.id}
+        style={styles.compoundRow}
+        onPress={() => setHistoryFor(pr)}
+        accessibilityRole="button"
+        accessibilityLabel={`${pr.exercise_name} PR history`}
+      >
         <View style={styles.compoundInfo}>
           <Text style={styles.compoundName}>{pr.exercise_name}</Text>
         </View>
         <View style={styles.compoundStats}>
-          <Text style={styles.compoundWeight}>{pr.weight_kg}kg × {pr.reps}</Text>
+          <Text style={styles.compoundWeight}>{formatWeight(pr.weight_kg, unit)} × {pr.reps}</Text>
+          {pr.reps > 1 && (
+            <Text
+              style={[styles.compoundE1rm, isLowConfidenceE1RM(pr.reps) && styles.lowConfidenceText]}
+            >
+              e1RM {formatWeight(pr.estimated_1rm, unit)}
+              {isLowConfidenceE1RM(pr.reps) ? ' (low confidence)' : ''}
+            </Text>
+          )}
         </View>
-      </View>
+      </TouchableOpacity>
     )
   }
 
@@ -235,12 +301,18 @@ export default function PRsTab() {
         {expandedMuscle && prsData.isolation_by_muscle[expandedMuscle] && (
           <View style={styles.isolationList}>
             {prsData.isolation_by_muscle[expandedMuscle]!.map(pr => (
-              <View key={pr.id} style={styles.isolationRow}>
+              <TouchableOpacity
+                key={pr.id}
+                style={styles.isolationRow}
+                onPress={() => setHistoryFor(pr)}
+                accessibilityRole="button"
+                accessibilityLabel={`${pr.exercise_name} PR history`}
+              >
                 <Text style={styles.isolationName}>{pr.exercise_name}</Text>
                 <Text style={styles.isolationValue}>
-                  {pr.weight_kg}kg × {pr.reps}
+                  {formatWeight(pr.weight_kg, unit)} × {pr.reps}
                 </Text>
-              </View>
+              </TouchableOpacity>
             ))}
           </View>
         )}
@@ -278,11 +350,19 @@ export default function PRsTab() {
                 <Ionicons name="add-circle" size={28} color="#1E3A5F" />
               </TouchableOpacity>
             </View>
+            <Text style={styles.formulaNote}>
+              e1RM by {E1RM_FORMULA_LABELS[formula]}. Above {LOW_CONFIDENCE_REPS} reps estimates are marked low confidence.
+            </Text>
             <View style={styles.bigThreeGrid}>
               {renderBigThreeCard('SQUAT', 'squat', prsData?.big_three.squat ?? null)}
               {renderBigThreeCard('BENCH', 'bench', prsData?.big_three.bench ?? null)}
               {renderBigThreeCard('DEADLIFT', 'deadlift', prsData?.big_three.deadlift ?? null)}
             </View>
+            <RelativeStrengthCard
+              strength={relativeStrength}
+              bodyweightFromLog={profileBodyweightKg === null}
+              unit={unit}
+            />
           </View>
 
           {/* Compound Lifts Section */}
@@ -389,7 +469,7 @@ export default function PRsTab() {
             )}
 
             {/* Weight Input */}
-            <Text style={styles.modalLabel}>Weight (kg)</Text>
+            <Text style={styles.modalLabel}>Weight ({unit})</Text>
             <TextInput
               style={styles.modalInput}
               value={weight}
@@ -413,10 +493,13 @@ export default function PRsTab() {
             {/* Estimated 1RM Preview - only show for 2+ reps */}
             {weight && reps && parseInt(reps) > 1 && (
               <View style={styles.e1rmPreview}>
-                <Text style={styles.e1rmPreviewLabel}>Estimated 1RM:</Text>
+                <Text style={styles.e1rmPreviewLabel}>Estimated 1RM ({E1RM_FORMULA_LABELS[formula]}):</Text>
                 <Text style={styles.e1rmPreviewValue}>
-                  {(parseFloat(weight) * (1 + 0.0333 * parseInt(reps))).toFixed(1)} kg
+                  {estimateOneRepMax(parseFloat(weight), parseInt(reps), formula).toFixed(1)} {unit}
                 </Text>
+                {isLowConfidenceE1RM(parseInt(reps)) && (
+                  <Ionicons name="alert-circle-outline" size={16} color={colors.warning} />
+                )}
               </View>
             )}
 
@@ -426,6 +509,21 @@ export default function PRsTab() {
           </ScrollView>
         </View>
       </Modal>
+
+      <PRHistoryModal
+        visible={historyFor !== null}
+        exerciseId={historyFor?.exercise_id ?? null}
+        exerciseName={historyFor?.exercise_name ?? ''}
+        onClose={() => setHistoryFor(null)}
+        onViewExercise={
+          onOpenExercise
+            ? exerciseId => {
+                setHistoryFor(null)
+                onOpenExercise(exerciseId)
+              }
+            : undefined
+        }
+      />
     </ScrollView>
   )
 }
@@ -559,6 +657,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.primary,
   },
+  compoundE1rm: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  lowConfidenceText: {
+    color: colors.warning,
+  },
+  formulaNote: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: -4,
+    marginBottom: 10,
+  },
   isolationSection: {
     marginBottom: 20,
   },
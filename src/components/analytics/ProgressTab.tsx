@@ -11,21 +11,31 @@ import {
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { useAnalytics } from '../../hooks/useAnalytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useE1RMFormula } from '../../hooks/useE1RMFormula'
 import { ExerciseProgressData, ProgressDataPoint } from '../../types/analytics'
 import { Exercise } from '../../types/workout'
 import { supabase } from '../../lib/supabase'
+import { toDisplayWeight, formatWeight } from '../../utils/units'
+import { E1RM_FORMULA_LABELS, isLowConfidenceE1RM } from '../../utils/oneRepMax'
 import { colors } from '../../theme'
+import LineChart, { Y_AXIS_WIDTH } from './LineChart'
 
 const SCREEN_WIDTH = Dimensions.get('window').width
 const CHART_HEIGHT = 200
-const Y_AXIS_WIDTH = 40
 // card padding (16) × 2 sides + scroll padding (16) × 2 sides + y-axis width
 const CHART_WIDTH = SCREEN_WIDTH - 64 - Y_AXIS_WIDTH
 
 type PeriodType = '1M' | '3M' | '6M' | 'ALL'
 
+// Top set weight, or the day's best estimated 1RM
+type MetricType = 'weight' | 'e1rm'
+
 export default function ProgressTab() {
   const { fetchExerciseProgress, loading } = useAnalytics()
+  const unit = useWeightUnit()
+  const formula = useE1RMFormula()
+  const [metric, setMetric] = useState<MetricType>('weight')
   const [exercises, setExercises] = useState<Exercise[]>([])
   const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null)
   const [showExercisePicker, setShowExercisePicker] = useState(false)
@@ -78,37 +88,8 @@ export default function ProgressTab() {
     return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
   }
 
-  // Returns up to 5 evenly spaced indices for X axis labels
-  function getXLabelIndices(count: number): number[] {
-    if (count === 0) return []
-    if (count <= 5) return Array.from({ length: count }, (_, i) => i)
-    const indices = new Set([0, count - 1])
-    const step = (count - 1) / 4
-    for (let i = 1; i <= 3; i++) indices.add(Math.round(step * i))
-    return Array.from(indices).sort((a, b) => a - b)
-  }
-
-  function getChartData() {
-    if (!progressData?.data_points.length) return null
-
-    const points = progressData.data_points
-    const weights = points.map(p => p.weight_kg)
-    const minWeight = Math.min(...weights)
-    const maxWeight = Math.max(...weights)
-
-    const range = Math.max(maxWeight - minWeight, 5)
-    const padding = range * 0.15
-
-    return {
-      points,
-      minWeight: Math.floor(minWeight - padding),
-      maxWeight: Math.ceil(maxWeight + padding),
-    }
-  }
-
   function renderChart() {
-    const chartData = getChartData()
-    if (!chartData) {
+    if (!progressData?.data_points.length) {
       return (
         <View style={styles.emptyChart}>
           <Ionicons name="analytics-outline" size={48} color={colors.text.faint} />
@@ -120,111 +101,25 @@ export default function ProgressTab() {
       )
     }
 
-    const { points, minWeight, maxWeight } = chartData
-    const weightRange = maxWeight - minWeight
-
-    function getXY(index: number) {
-      const x = points.length > 1 ? index * (CHART_WIDTH / (points.length - 1)) : CHART_WIDTH / 2
-      const yPercent = weightRange > 0 ? (points[index].weight_kg - minWeight) / weightRange : 0.5
-      // 10px top/bottom padding keeps dots away from grid edges
-      const y = CHART_HEIGHT - yPercent * (CHART_HEIGHT - 20) - 10
-      return { x, y }
-    }
-
-    const xLabelIndices = getXLabelIndices(points.length)
+    const points = progressData.data_points.map(p => ({
+      key: p.date,
+      label: formatDate(p.date),
+      value: toDisplayWeight(metric === 'e1rm' ? p.estimated_1rm : p.weight_kg, unit),
+    }))
 
     return (
       <View>
-        <View style={styles.chartContainer}>
-          {/* Y-Axis Labels */}
-          <View style={styles.yAxis}>
-            <Text style={styles.axisLabel}>{maxWeight}kg</Text>
-            <Text style={styles.axisLabel}>{Math.round((maxWeight + minWeight) / 2)}kg</Text>
-            <Text style={styles.axisLabel}>{minWeight}kg</Text>
-          </View>
-
-          {/* Plot + X axis stacked vertically */}
-          <View style={styles.chartAndXAxis}>
-            {/* Plot area */}
-            <View style={[styles.chartPlot, { height: CHART_HEIGHT }]}>
-              {/* Horizontal grid lines */}
-              <View style={[styles.gridLine, { top: 0 }]} />
-              <View style={[styles.gridLine, { top: CHART_HEIGHT / 2 }]} />
-              <View style={[styles.gridLine, { top: CHART_HEIGHT - 1 }]} />
-
-              {/* Absolute layer: lines rendered first, dots on top */}
-              <View style={StyleSheet.absoluteFillObject}>
-                {/* Line segments — positioned at the midpoint between each pair of dots.
-                    Default transform-origin is the element's center, so rotating around
-                    the midpoint produces the correct line between the two points. */}
-                {points.slice(0, -1).map((_, index) => {
-                  const { x, y } = getXY(index)
-                  const { x: nx, y: ny } = getXY(index + 1)
-                  const dx = nx - x
-                  const dy = ny - y
-                  const length = Math.sqrt(dx * dx + dy * dy)
-                  const angle = Math.atan2(dy, dx)
-                  return (
-                    <View
-                      key={`line-${index}`}
-                      style={[
-                        styles.lineSegment,
-                        {
-                          left: (x + nx) / 2 - length / 2,
-                          top: (y + ny) / 2 - 1,
-                          width: length,
-                          transform: [{ rotate: `${angle}rad` }],
-                        },
-                      ]}
-                    />
-                  )
-                })}
-
-                {/* Data points — left: x-6, top: y-6 centers the 12×12 dot exactly on (x,y).
-                    No margin offset in the style, avoiding the double-offset bug. */}
-                {points.map((point, index) => {
-                  const { x, y } = getXY(index)
-                  const isSelected = selectedPoint?.date === point.date
-                  return (
-                    <TouchableOpacity
-                      key={`dot-${index}`}
-                      onPress={() => setSelectedPoint(isSelected ? null : point)}
-                      hitSlop={{ top: 12, right: 12, bottom: 12, left: 12 }}
-                      style={[
-                        styles.dataPoint,
-                        { left: x - 6, top: y - 6 },
-                        isSelected && styles.dataPointSelected,
-                      ]}
-                    >
-                      <View
-                        style={[
-                          styles.dataPointInner,
-                          isSelected && styles.dataPointInnerSelected,
-                        ]}
-                      />
-                    </TouchableOpacity>
-                  )
-                })}
-              </View>
-            </View>
-
-            {/* X Axis date labels */}
-            <View style={styles.xAxis}>
-              {xLabelIndices.map(i => {
-                const { x } = getXY(i)
-                return (
-                  <Text
-                    key={`xlabel-${i}`}
-                    style={[styles.xAxisLabel, { left: x - 25 }]}
-                    numberOfLines={1}
-                  >
-                    {formatDate(points[i].date)}
-                  </Text>
-                )
-              })}
-            </View>
-          </View>
-        </View>
+        <LineChart
+          points={points}
+          width={CHART_WIDTH}
+          height={CHART_HEIGHT}
+          unitLabel={unit}
+          selectedKey={selectedPoint?.date ?? null}
+          onPointPress={point => {
+            const tapped = progressData.data_points.find(p => p.date === point.key) ?? null
+            setSelectedPoint(selectedPoint?.date === point.key ? null : tapped)
+          }}
+        />
 
         {/* Tapped-point detail card */}
         {selectedPoint ? (
@@ -233,9 +128,21 @@ export default function ProgressTab() {
             <Text style={styles.tooltipDate}>{formatDateLong(selectedPoint.date)}</Text>
             <Text style={styles.tooltipSep}>·</Text>
             <Ionicons name="barbell-outline" size={14} color={colors.text.secondary} />
-            <Text style={styles.tooltipValue}>
-              {selectedPoint.weight_kg}kg × {selectedPoint.reps} reps
-            </Text>
+            {metric === 'e1rm' ? (
+              <Text
+                style={[
+                  styles.tooltipValue,
+                  isLowConfidenceE1RM(selectedPoint.estimated_1rm_reps) && styles.lowConfidenceText,
+                ]}
+              >
+                {formatWeight(selectedPoint.estimated_1rm, unit)} from {selectedPoint.estimated_1rm_reps} reps
+                {isLowConfidenceE1RM(selectedPoint.estimated_1rm_reps) ? ' (low confidence)' : ''}
+              </Text>
+            ) : (
+              <Text style={styles.tooltipValue}>
+                {formatWeight(selectedPoint.weight_kg, unit)} × {selectedPoint.reps} reps
+              </Text>
+            )}
           </View>
         ) : (
           <Text style={styles.tapHint}>Tap a point to see details</Text>
@@ -315,7 +222,29 @@ export default function ProgressTab() {
 
       {/* Chart Card */}
       <View style={styles.chartCard}>
-        <Text style={styles.chartTitle}>Weight Progression</Text>
+        <View style={styles.chartHeader}>
+          <Text style={styles.chartTitle}>
+            {metric === 'e1rm' ? `e1RM (${E1RM_FORMULA_LABELS[formula]})` : 'Weight Progression'}
+          </Text>
+          <View style={styles.metricToggle}>
+            {(['weight', 'e1rm'] as MetricType[]).map(m => (
+              <TouchableOpacity
+                key={m}
+                style={[styles.metricButton, metric === m && styles.metricButtonActive]}
+                onPress={() => {
+                  setMetric(m)
+                  setSelectedPoint(null)
+                }}
+                accessibilityRole="button"
+                accessibilityState={{ selected: metric === m }}
+              >
+                <Text style={[styles.metricButtonText, metric === m && styles.metricButtonTextActive]}>
+                  {m === 'e1rm' ? 'e1RM' : 'Weight'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color={colors.primary} />
@@ -334,8 +263,10 @@ export default function ProgressTab() {
           </View>
           <View style={styles.prContent}>
             <View style={styles.prMainStat}>
-              <Text style={styles.prWeight}>{progressData.current_pr.weight_kg}</Text>
-              <Text style={styles.prUnit}>kg</Text>
+              <Text style={styles.prWeight}>
+                {toDisplayWeight(progressData.current_pr.weight_kg, unit)}
+              </Text>
+              <Text style={styles.prUnit}>{unit}</Text>
             </View>
             <View style={styles.prDetails}>
               <Text style={styles.prReps}>× {progressData.current_pr.reps} reps</Text>
@@ -362,7 +293,15 @@ export default function ProgressTab() {
               <View key={point.date} style={styles.recentRow}>
                 <Text style={styles.recentDate}>{formatDate(point.date)}</Text>
                 <Text style={styles.recentValue}>
-                  {point.weight_kg}kg × {point.reps}
+                  {formatWeight(point.weight_kg, unit)} × {point.reps}
+                  <Text
+                    style={[
+                      styles.recentE1rm,
+                      isLowConfidenceE1RM(point.estimated_1rm_reps) && styles.lowConfidenceText,
+                    ]}
+                  >
+                    {'  '}e1RM {formatWeight(point.estimated_1rm, unit)}
+                  </Text>
                 </Text>
               </View>
             ))}
@@ -458,11 +397,38 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 16,
   },
+  chartHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
   chartTitle: {
     fontSize: 16,
     fontWeight: '600',
     color: colors.text.primary,
-    marginBottom: 16,
+  },
+  metricToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    padding: 2,
+  },
+  metricButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  metricButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  metricButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  metricButtonTextActive: {
+    color: colors.surface,
   },
   loadingContainer: {
     height: CHART_HEIGHT + 32,
@@ -485,80 +451,6 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginTop: 4,
   },
-  // ── Chart layout ──────────────────────────────────────────────────────────
-  chartContainer: {
-    flexDirection: 'row',
-    alignItems: 'flex-start',
-  },
-  yAxis: {
-    width: Y_AXIS_WIDTH,
-    height: CHART_HEIGHT,
-    justifyContent: 'space-between',
-    alignItems: 'flex-end',
-    paddingRight: 8,
-  },
-  axisLabel: {
-    fontSize: 10,
-    color: colors.text.muted,
-  },
-  chartAndXAxis: {
-    flex: 1,
-  },
-  chartPlot: {
-    position: 'relative',
-  },
-  gridLine: {
-    position: 'absolute',
-    left: 0,
-    right: 0,
-    height: 1,
-    backgroundColor: colors.borderLight,
-  },
-  // ── Line segments ─────────────────────────────────────────────────────────
-  lineSegment: {
-    position: 'absolute',
-    height: 2,
-    backgroundColor: colors.primary,
-  },
-  // ── Data points ───────────────────────────────────────────────────────────
-  dataPoint: {
-    position: 'absolute',
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    backgroundColor: colors.surface,
-    borderWidth: 2,
-    borderColor: colors.primary,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  dataPointSelected: {
-    borderColor: colors.accent,
-    transform: [{ scale: 1.3 }],
-  },
-  dataPointInner: {
-    width: 5,
-    height: 5,
-    borderRadius: 3,
-    backgroundColor: colors.primary,
-  },
-  dataPointInnerSelected: {
-    backgroundColor: colors.accent,
-  },
-  // ── X axis labels ─────────────────────────────────────────────────────────
-  xAxis: {
-    height: 24,
-    position: 'relative',
-    marginTop: 4,
-  },
-  xAxisLabel: {
-    position: 'absolute',
-    width: 50,
-    textAlign: 'center',
-    fontSize: 10,
-    color: colors.text.muted,
-    top: 0,
-  },
   // ── Tooltip / tap hint ────────────────────────────────────────────────────
   tooltipCard: {
     flexDirection: 'row',
@@ -668,4 +560,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.text.primary,
   },
+  recentE1rm: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: colors.text.secondary,
+  },
+  lowConfidenceText: {
+    color: colors.warning,
+  },
 })
@@ -0,0 +1,216 @@
+// src/components/analytics/RelativeStrengthCard.tsx
+// Powerlifting total, Wilks/DOTS/IPF GL and per-lift strength levels.
+// Needs sex and bodyweight; without them it asks for them instead.
+import React from 'react'
+import { View, Text, StyleSheet } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { RelativeStrength, StrengthLevel } from '../../types/strength'
+import { WeightUnit } from '../../types/workout'
+import { BIG_THREE_LABELS, STRENGTH_LEVEL_LABELS } from '../../utils/strengthStandards'
+import { formatWeight } from '../../utils/units'
+import { colors } from '../../theme'
+
+const LEVEL_COLORS: Record<StrengthLevel, string> = {
+  beginner: colors.text.muted,
+  novice: colors.muscles.back,
+  intermediate: colors.success,
+  advanced: colors.warning,
+  elite: colors.error,
+}
+
+interface RelativeStrengthCardProps {
+  strength: RelativeStrength | null   // null when sex or bodyweight is unknown
+  bodyweightFromLog: boolean          // bodyweight came from the latest weigh-in, not the profile
+  unit: WeightUnit
+}
+
+export default function RelativeStrengthCard({ strength, bodyweightFromLog, unit }: RelativeStrengthCardProps) {
+  if (!strength) {
+    return (
+      <View style={[styles.card, styles.promptCard]}>
+        <Ionicons name="body-outline" size={22} color={colors.text.muted} />
+        <Text style={styles.promptText}>
+          Add your sex and bodyweight in Profile to see Wilks, DOTS and how your lifts compare.
+        </Text>
+      </View>
+    )
+  }
+
+  if (strength.lifts.length === 0) return null
+
+  const scores = [
+    { label: 'Wilks', value: strength.wilks },
+    { label: 'DOTS', value: strength.dots },
+    { label: 'IPF GL', value: strength.ipf_gl },
+  ]
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.totalRow}>
+        <View>
+          <Text style={styles.label}>Total{strength.total_is_estimated ? ' (est.)' : ''}</Text>
+          <Text style={styles.totalValue}>
+            {strength.total_kg !== null ? formatWeight(strength.total_kg, unit) : '—'}
+          </Text>
+        </View>
+        <Text style={styles.bodyweight}>
+          @ {formatWeight(strength.bodyweight_kg, unit)}
+          {bodyweightFromLog ? ' (last weigh-in)' : ''}
+        </Text>
+      </View>
+
+      {strength.total_kg !== null ? (
+        <View style={styles.scoreRow}>
+          {scores.map(score => (
+            <View key={score.label} style={styles.score}>
+              <Text style={styles.scoreValue}>{score.value?.toFixed(1)}</Text>
+              <Text style={styles.label}>{score.label}</Text>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.hint}>Log all three lifts to get a total and scores.</Text>
+      )}
+
+      {strength.lifts.map(standing => (
+        <View key={standing.lift} style={styles.liftRow}>
+          <View style={styles.liftHeader}>
+            <Text style={styles.liftName}>{BIG_THREE_LABELS[standing.lift]}</Text>
+            <Text style={styles.multiple}>{standing.bodyweight_multiple.toFixed(2)}× BW</Text>
+            <View style={[styles.levelBadge, { backgroundColor: LEVEL_COLORS[standing.level] }]}>
+              <Text style={styles.levelText}>{STRENGTH_LEVEL_LABELS[standing.level]}</Text>
+            </View>
+          </View>
+          {standing.next ? (
+            <>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      width: `${Math.round(standing.next.progress * 100)}%`,
+                      backgroundColor: LEVEL_COLORS[standing.next.level],
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.nextText}>
+                {`${formatWeight(standing.next.remaining_kg, unit)} to ${STRENGTH_LEVEL_LABELS[standing.next.level]}`}
+                {` (${formatWeight(standing.next.target_kg, unit)})`}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.nextText}>Top tier reached</Text>
+          )}
+        </View>
+      ))}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 12,
+  },
+  promptCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  promptText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text.secondary,
+    lineHeight: 18,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+  },
+  totalValue: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 2,
+  },
+  bodyweight: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.background,
+  },
+  score: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  scoreValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: 8,
+  },
+  liftRow: {
+    marginTop: 14,
+  },
+  liftHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  liftName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  multiple: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  levelBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  levelText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.borderLight,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  nextText: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 4,
+  },
+})
@@ -0,0 +1,275 @@
+// src/components/analytics/VolumeLandmarksModal.tsx
+// Per-muscle MEV/MAV/MRV editor. Each row saves when a field loses focus;
+// customised rows can be reset to the defaults.
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { MuscleGroup } from '../../types/workout'
+import { VolumeLandmarks } from '../../types/analytics'
+import { DEFAULT_VOLUME_LANDMARKS, validateLandmarks } from '../../utils/volumeLandmarks'
+import { formatMuscleGroup } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+type SaveResult = { success: boolean; error: string | null }
+
+interface VolumeLandmarksModalProps {
+  visible: boolean
+  landmarks: Record<MuscleGroup, VolumeLandmarks>
+  customised: Partial<Record<MuscleGroup, VolumeLandmarks>>
+  onSave: (muscle: MuscleGroup, values: VolumeLandmarks) => Promise<SaveResult>
+  onReset: (muscle: MuscleGroup) => Promise<SaveResult>
+  onClose: () => void
+}
+
+const FIELDS: (keyof VolumeLandmarks)[] = ['mev', 'mav', 'mrv']
+
+// ─── Row ────────────────────────────────────────────────────────────────────
+
+interface LandmarkRowProps {
+  muscle: MuscleGroup
+  values: VolumeLandmarks
+  isCustom: boolean
+  onSave: (values: VolumeLandmarks) => Promise<SaveResult>
+  onReset: () => Promise<SaveResult>
+}
+
+function LandmarkRow({ muscle, values, isCustom, onSave, onReset }: LandmarkRowProps) {
+  const [text, setText] = useState<Record<keyof VolumeLandmarks, string>>({
+    mev: String(values.mev),
+    mav: String(values.mav),
+    mrv: String(values.mrv),
+  })
+  const [rowError, setRowError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setText({ mev: String(values.mev), mav: String(values.mav), mrv: String(values.mrv) })
+  }, [values.mev, values.mav, values.mrv])
+
+  async function commit() {
+    const next = {
+      mev: parseInt(text.mev, 10),
+      mav: parseInt(text.mav, 10),
+      mrv: parseInt(text.mrv, 10),
+    }
+    if (next.mev === values.mev && next.mav === values.mav && next.mrv === values.mrv) {
+      setRowError(null)
+      return
+    }
+
+    const invalid = validateLandmarks(next)
+    if (invalid) {
+      setRowError(invalid)
+      return
+    }
+
+    const result = await onSave(next)
+    setRowError(result.success ? null : result.error)
+  }
+
+  async function reset() {
+    const result = await onReset()
+    setRowError(result.success ? null : result.error)
+  }
+
+  const label = formatMuscleGroup(muscle)
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowMain}>
+        <Text style={styles.muscleName} numberOfLines={1}>
+          {label}
+        </Text>
+        {FIELDS.map(field => (
+          <TextInput
+            key={field}
+            style={styles.input}
+            value={text[field]}
+            onChangeText={value => setText(prev => ({ ...prev, [field]: value }))}
+            onBlur={commit}
+            keyboardType="number-pad"
+            maxLength={2}
+            selectTextOnFocus
+            accessibilityLabel={`${label} ${field.toUpperCase()}`}
+          />
+        ))}
+        <View style={styles.resetSlot}>
+          {isCustom && (
+            <TouchableOpacity
+              onPress={reset}
+              hitSlop={6}
+              accessibilityRole="button"
+              accessibilityLabel={`Reset ${label} to defaults`}
+            >
+              <Ionicons name="refresh" size={18} color={colors.text.secondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+      {rowError && <Text style={styles.rowError}>{rowError}</Text>}
+    </View>
+  )
+}
+
+// ─── Modal ──────────────────────────────────────────────────────────────────
+
+export default function VolumeLandmarksModal({
+  visible,
+  landmarks,
+  customised,
+  onSave,
+  onReset,
+  onClose,
+}: VolumeLandmarksModalProps) {
+  const muscles = Object.keys(DEFAULT_VOLUME_LANDMARKS) as MuscleGroup[]
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Volume Targets</Text>
+            <Text style={styles.subtitle}>Working sets per week</Text>
+          </View>
+          <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close volume targets">
+            <Ionicons name="close" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list} keyboardShouldPersistTaps="handled">
+          <Text style={styles.explainer}>
+            MEV is the least that still drives progress, MAV the top of the productive range and MRV
+            the most you can recover from.
+          </Text>
+
+          <View style={styles.columnHeaderRow}>
+            <Text style={[styles.columnHeader, styles.columnHeaderMuscle]}>MUSCLE</Text>
+            {FIELDS.map(field => (
+              <Text key={field} style={[styles.columnHeader, styles.columnHeaderValue]}>
+                {field.toUpperCase()}
+              </Text>
+            ))}
+            <View style={styles.resetSlot} />
+          </View>
+
+          {muscles.map(muscle => (
+            <LandmarkRow
+              key={muscle}
+              muscle={muscle}
+              values={landmarks[muscle]}
+              isCustom={customised[muscle] !== undefined}
+              onSave={values => onSave(muscle, values)}
+              onReset={() => onReset(muscle)}
+            />
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  list: {
+    padding: 16,
+  },
+  explainer: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  columnHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    marginBottom: 6,
+  },
+  columnHeader: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    letterSpacing: 0.4,
+  },
+  columnHeaderMuscle: {
+    flex: 1,
+  },
+  columnHeaderValue: {
+    width: 48,
+    marginLeft: 8,
+    textAlign: 'center',
+  },
+  row: {
+    backgroundColor: colors.surface,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  rowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  muscleName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  input: {
+    width: 48,
+    marginLeft: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: colors.surfaceAlt,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+    textAlign: 'center',
+  },
+  resetSlot: {
+    width: 28,
+    alignItems: 'flex-end',
+  },
+  rowError: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 6,
+  },
+})
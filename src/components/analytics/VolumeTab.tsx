@@ -1,4 +1,8 @@
 // src/components/analytics/VolumeTab.tsx
+// Set counts are banded against the user's MEV/MAV/MRV, with a weekly report
+// of muscles below or above their targets
+// Direct counts credit the primary muscle only; weighted adds a fraction of
+// each set to the exercise's secondary muscles
 import React, { useEffect, useState, useCallback } from 'react'
 import {
   View,
@@ -11,8 +15,27 @@ import {
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { useAnalytics } from '../../hooks/useAnalytics'
-import { WeeklyVolumeData, MuscleVolumeData } from '../../types/analytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useVolumeLandmarks } from '../../hooks/useVolumeLandmarks'
+import { WeeklyVolumeData, MuscleVolumeData, VolumeReportEntry, VolumeZone } from '../../types/analytics'
 import { MuscleGroup } from '../../types/workout'
+import { toDisplayVolume } from '../../utils/units'
+import {
+  VOLUME_ZONE_COLORS,
+  VOLUME_ZONE_LABELS,
+  buildVolumeReport,
+  classifyVolume,
+} from '../../utils/volumeLandmarks'
+import {
+  DEFAULT_SECONDARY_FRACTION,
+  MuscleExerciseContribution,
+  VOLUME_ATTRIBUTION_LABELS,
+  VolumeAttribution,
+  formatSetCount,
+} from '../../utils/muscleVolume'
+import VolumeLandmarksModal from './VolumeLandmarksModal'
+import MuscleHeatmap from './MuscleHeatmap'
+import MuscleExerciseList from './MuscleExerciseList'
 import { colors } from '../../theme'
 
 // Muscle group display names and colors
@@ -36,24 +59,65 @@ const MUSCLE_CONFIG: Record<MuscleGroup, { label: string; color: string }> = {
 
 type MetricType = 'sets' | 'volume'
 
+const ZONES: VolumeZone[] = ['below_mev', 'productive', 'high', 'over_mrv']
+
+const ATTRIBUTIONS: VolumeAttribution[] = ['direct', 'weighted']
+const SECONDARY_FRACTIONS = [0.25, 0.5, 0.75, 1]
+
+// Faint fill for the landmark bands behind a bar (8-digit hex alpha)
+function bandColor(zone: VolumeZone): string {
+  return `${VOLUME_ZONE_COLORS[zone]}26`
+}
+
 export default function VolumeTab() {
-  const { fetchWeeklyVolume, loading } = useAnalytics()
+  const { fetchWeeklyVolume, fetchMuscleExercises, loading } = useAnalytics()
+  const unit = useWeightUnit()
   const [data, setData] = useState<WeeklyVolumeData | null>(null)
   const [metric, setMetric] = useState<MetricType>('sets')
   const [weekOffset, setWeekOffset] = useState(0) // 0 = current week, -1 = last week, etc.
   const [refreshing, setRefreshing] = useState(false)
+  const [attribution, setAttribution] = useState<VolumeAttribution>('direct')
+  const [secondaryFraction, setSecondaryFraction] = useState(DEFAULT_SECONDARY_FRACTION)
+  const [landmarksVisible, setLandmarksVisible] = useState(false)
+  const { landmarks, customised, saveLandmarks, resetLandmarks } = useVolumeLandmarks()
+  const [selectedMuscle, setSelectedMuscle] = useState<MuscleGroup | null>(null)
+  const [muscleExercises, setMuscleExercises] = useState<MuscleExerciseContribution[]>([])
+  const [muscleExercisesLoading, setMuscleExercisesLoading] = useState(false)
 
-  const loadData = useCallback(async () => {
+  const getWeekStart = useCallback(() => {
     const weekStart = new Date()
     weekStart.setDate(weekStart.getDate() + weekOffset * 7)
-    const result = await fetchWeeklyVolume(weekStart)
+    return weekStart
+  }, [weekOffset])
+
+  const loadData = useCallback(async () => {
+    const result = await fetchWeeklyVolume(getWeekStart(), { attribution, secondaryFraction })
     setData(result)
-  }, [fetchWeeklyVolume, weekOffset])
+  }, [fetchWeeklyVolume, getWeekStart, attribution, secondaryFraction])
 
   useEffect(() => {
     loadData()
   }, [loadData])
 
+  // Keep the drill-down in step with the week and attribution shown
+  useEffect(() => {
+    if (!selectedMuscle) return
+    let cancelled = false
+    setMuscleExercisesLoading(true)
+    fetchMuscleExercises(selectedMuscle, getWeekStart(), { attribution, secondaryFraction }).then(result => {
+      if (cancelled) return
+      setMuscleExercises(result)
+      setMuscleExercisesLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedMuscle, fetchMuscleExercises, getWeekStart, attribution, secondaryFraction])
+
+  function handleMusclePress(muscle: MuscleGroup) {
+    setSelectedMuscle(prev => (prev === muscle ? null : muscle))
+  }
+
   const onRefresh = async () => {
     setRefreshing(true)
     await loadData()
@@ -70,11 +134,29 @@ export default function VolumeTab() {
   function getMaxValue(): number {
     if (!data?.muscle_groups.length) return 10
     if (metric === 'sets') {
-      return Math.max(...data.muscle_groups.map(mg => mg.total_sets), 1)
+      // Leave room for each shown muscle's MRV band
+      return Math.max(
+        ...data.muscle_groups.map(mg => Math.max(mg.total_sets, landmarks[mg.muscle_group].mrv)),
+        1
+      )
     }
     return Math.max(...data.muscle_groups.map(mg => mg.total_volume_kg), 1)
   }
 
+  // Bar widths are ratios so they stay in kg; only the printed numbers convert
+  function displayValue(value: number): number {
+    return metric === 'sets' ? value : toDisplayVolume(value, unit)
+  }
+
+  function formatValue(value: number): string {
+    return metric === 'sets' ? formatSetCount(value) : String(displayValue(value))
+  }
+
+  function formatHeatmapValue(value: number): string {
+    if (metric === 'volume') return `${formatValue(value)} ${unit}`
+    return `${formatSetCount(value)} set${value !== 1 ? 's' : ''}`
+  }
+
   function renderMuscleBar(muscleData: MuscleVolumeData) {
     const config = MUSCLE_CONFIG[muscleData.muscle_group]
     const maxValue = getMaxValue()
@@ -86,8 +168,27 @@ export default function VolumeTab() {
     const totalWidthPercent = (totalValue / maxValue) * 100
     const compoundWidthPercent = totalValue > 0 ? (compoundValue / totalValue) * 100 : 0
 
+    const muscleLandmarks = landmarks[muscleData.muscle_group]
+    const zone = metric === 'sets' ? classifyVolume(muscleData.total_sets, muscleLandmarks) : null
+    const barColor = zone ? VOLUME_ZONE_COLORS[zone] : config.color
+
+    // Widths of the below-MEV / productive / near-MRV / over-MRV bands
+    const bandWidths = [
+      muscleLandmarks.mev,
+      muscleLandmarks.mav - muscleLandmarks.mev,
+      muscleLandmarks.mrv - muscleLandmarks.mav,
+      Math.max(maxValue - muscleLandmarks.mrv, 0),
+    ].map(value => `${(value / maxValue) * 100}%` as const)
+
     return (
-      <View key={muscleData.muscle_group} style={styles.muscleRow}>
+      <View
+        key={muscleData.muscle_group}
+        style={styles.muscleRow}
+        accessible={zone !== null}
+        accessibilityLabel={
+          zone ? `${config.label}: ${formatSetCount(muscleData.total_sets)} sets, ${VOLUME_ZONE_LABELS[zone]}` : undefined
+        }
+      >
         <View style={styles.muscleLabel}>
           <Text style={styles.muscleName}>{config.label}</Text>
           {muscleData.change_vs_last_week !== undefined && (
@@ -112,13 +213,21 @@ export default function VolumeTab() {
         
         <View style={styles.barContainer}>
           <View style={styles.barBackground}>
+            {/* Landmark bands, behind the bar (sets only) */}
+            {zone && (
+              <View style={styles.bands}>
+                {ZONES.map((bandZone, i) => (
+                  <View key={bandZone} style={{ width: bandWidths[i], backgroundColor: bandColor(bandZone) }} />
+                ))}
+              </View>
+            )}
             {/* Compound portion (darker) */}
             <View
               style={[
                 styles.barCompound,
                 { 
                   width: `${(compoundValue / maxValue) * 100}%`, 
-                  backgroundColor: config.color,
+                  backgroundColor: barColor,
                 },
               ]}
             />
@@ -128,7 +237,7 @@ export default function VolumeTab() {
                 styles.barIsolation,
                 {
                   width: `${(isolationValue / maxValue) * 100}%`,
-                  backgroundColor: config.color,
+                  backgroundColor: barColor,
                   opacity: 0.4,
                 },
               ]}
@@ -138,16 +247,34 @@ export default function VolumeTab() {
         
         <View style={styles.valueContainer}>
           <Text style={styles.totalValue}>
-            {metric === 'sets' ? totalValue : `${(totalValue / 1000).toFixed(1)}k`}
+            {metric === 'sets' ? formatSetCount(totalValue) : `${(displayValue(totalValue) / 1000).toFixed(1)}k`}
           </Text>
           <Text style={styles.splitValue}>
-            {compoundValue}/{isolationValue}
+            {formatValue(compoundValue)}/{formatValue(isolationValue)}
           </Text>
         </View>
       </View>
     )
   }
 
+  function renderReportEntry(entry: VolumeReportEntry, kind: 'under' | 'over') {
+    const target = kind === 'under' ? entry.landmarks.mev : entry.landmarks.mrv
+    return (
+      <View key={entry.muscle_group} style={styles.reportEntry}>
+        <Text style={styles.reportMuscle}>{MUSCLE_CONFIG[entry.muscle_group].label}</Text>
+        <Text style={[styles.reportValue, { color: VOLUME_ZONE_COLORS[kind === 'under' ? 'below_mev' : 'over_mrv'] }]}>
+          {formatSetCount(entry.sets)} / {kind === 'under' ? 'MEV' : 'MRV'} {target}
+        </Text>
+      </View>
+    )
+  }
+
+  const report = data ? buildVolumeReport(data.muscle_groups, landmarks) : null
+  const heatmapValues: Partial<Record<MuscleGroup, number>> = {}
+  data?.muscle_groups.forEach(mg => {
+    heatmapValues[mg.muscle_group] = metric === 'sets' ? mg.total_sets : mg.total_volume_kg
+  })
+
   return (
     <ScrollView
       style={styles.container}
@@ -202,11 +329,70 @@ export default function VolumeTab() {
           onPress={() => setMetric('volume')}
         >
           <Text style={[styles.metricButtonText, metric === 'volume' && styles.metricButtonTextActive]}>
-            Volume (kg)
+            Volume ({unit})
           </Text>
         </TouchableOpacity>
       </View>
 
+      {/* Attribution Toggle */}
+      <View style={styles.metricToggle}>
+        {ATTRIBUTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.metricButton, attribution === option && styles.metricButtonActive]}
+            onPress={() => setAttribution(option)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: attribution === option }}
+          >
+            <Text style={[styles.metricButtonText, attribution === option && styles.metricButtonTextActive]}>
+              {VOLUME_ATTRIBUTION_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {attribution === 'weighted' && (
+        <View style={styles.fractionRow}>
+          <Text style={styles.fractionLabel}>Secondary muscles count</Text>
+          {SECONDARY_FRACTIONS.map(fraction => (
+            <TouchableOpacity
+              key={fraction}
+              style={[styles.fractionChip, secondaryFraction === fraction && styles.fractionChipActive]}
+              onPress={() => setSecondaryFraction(fraction)}
+              accessibilityRole="button"
+              accessibilityLabel={`Secondary muscles count ${fraction} of a set`}
+              accessibilityState={{ selected: secondaryFraction === fraction }}
+            >
+              <Text
+                style={[styles.fractionChipText, secondaryFraction === fraction && styles.fractionChipTextActive]}
+              >
+                ×{fraction}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Muscle Heatmap */}
+      {!loading && data && data.muscle_groups.length > 0 && (
+        <View style={styles.reportCard}>
+          <MuscleHeatmap
+            values={heatmapValues}
+            formatValue={formatHeatmapValue}
+            selectedMuscle={selectedMuscle}
+            onMusclePress={handleMusclePress}
+          />
+          {selectedMuscle && (
+            <MuscleExerciseList
+              muscle={selectedMuscle}
+              exercises={muscleExercises}
+              unit={unit}
+              loading={muscleExercisesLoading}
+              onClose={() => setSelectedMuscle(null)}
+            />
+          )}
+        </View>
+      )}
+
       {/* Legend */}
       <View style={styles.legend}>
         <View style={styles.legendItem}>
@@ -218,6 +404,16 @@ export default function VolumeTab() {
           <Text style={styles.legendText}>Isolation</Text>
         </View>
       </View>
+      {metric === 'sets' && (
+        <View style={styles.legend}>
+          {ZONES.map(zone => (
+            <View key={zone} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: VOLUME_ZONE_COLORS[zone] }]} />
+              <Text style={styles.legendText}>{VOLUME_ZONE_LABELS[zone]}</Text>
+            </View>
+          ))}
+        </View>
+      )}
 
       {/* Loading State */}
       {loading && !refreshing && (
@@ -243,15 +439,52 @@ export default function VolumeTab() {
         </View>
       )}
 
+      {/* Weekly Report — against MEV/MRV, whatever the metric shown */}
+      {!loading && report && (
+        <View style={styles.reportCard}>
+          <View style={styles.reportHeader}>
+            <Text style={styles.reportTitle}>Weekly Report</Text>
+            <TouchableOpacity
+              style={styles.targetsButton}
+              onPress={() => setLandmarksVisible(true)}
+              accessibilityRole="button"
+              accessibilityLabel="Edit volume targets"
+            >
+              <Ionicons name="options-outline" size={16} color={colors.primary} />
+              <Text style={styles.targetsButtonText}>Targets</Text>
+            </TouchableOpacity>
+          </View>
+          {report.under.length === 0 && report.over.length === 0 ? (
+            <Text style={styles.reportOk}>Every muscle is between its MEV and MRV</Text>
+          ) : (
+            <>
+              {report.under.length > 0 && (
+                <>
+                  <Text style={styles.reportSection}>Under-trained</Text>
+                  {report.under.map(entry => renderReportEntry(entry, 'under'))}
+                </>
+              )}
+              {report.over.length > 0 && (
+                <>
+                  <Text style={styles.reportSection}>Over-trained</Text>
+                  {report.over.map(entry => renderReportEntry(entry, 'over'))}
+                </>
+              )}
+            </>
+          )}
+        </View>
+      )}
+
       {/* Totals Card */}
       {data && data.muscle_groups.length > 0 && (
         <View style={styles.totalsCard}>
           <View style={styles.totalRow}>
             <Text style={styles.totalLabel}>Total Sets</Text>
             <View style={styles.totalValueRow}>
-              <Text style={styles.totalMainValue}>{data.totals.total_sets}</Text>
+              <Text style={styles.totalMainValue}>{formatSetCount(data.totals.total_sets)}</Text>
               <Text style={styles.totalSplitValue}>
-                ({data.totals.compound_sets} compound / {data.totals.isolation_sets} isolation)
+                ({formatSetCount(data.totals.compound_sets)} compound /{' '}
+                {formatSetCount(data.totals.isolation_sets)} isolation)
               </Text>
             </View>
           </View>
@@ -260,7 +493,7 @@ export default function VolumeTab() {
             <Text style={styles.totalLabel}>Total Volume</Text>
             <View style={styles.totalValueRow}>
               <Text style={styles.totalMainValue}>
-                {data.totals.total_volume_kg.toLocaleString()} kg
+                {toDisplayVolume(data.totals.total_volume_kg, unit).toLocaleString()} {unit}
               </Text>
               {data.totals.change_vs_last_week !== undefined && (
                 <View style={styles.totalChange}>
@@ -286,6 +519,15 @@ export default function VolumeTab() {
           </View>
         </View>
       )}
+
+      <VolumeLandmarksModal
+        visible={landmarksVisible}
+        landmarks={landmarks}
+        customised={customised}
+        onSave={saveLandmarks}
+        onReset={resetLandmarks}
+        onClose={() => setLandmarksVisible(false)}
+      />
     </ScrollView>
   )
 }
@@ -350,11 +592,44 @@ const styles = StyleSheet.create({
   metricButtonTextActive: {
     color: colors.surface,
   },
+  fractionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  fractionLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginRight: 2,
+  },
+  fractionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  fractionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  fractionChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  fractionChipTextActive: {
+    color: colors.surface,
+  },
   legend: {
     flexDirection: 'row',
     justifyContent: 'center',
+    flexWrap: 'wrap',
     gap: 20,
-    marginBottom: 16,
+    marginBottom: 12,
   },
   legendItem: {
     flexDirection: 'row',
@@ -421,6 +696,10 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     flexDirection: 'row',
   },
+  bands: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+  },
   barCompound: {
     height: '100%',
     borderRadius: 4,
@@ -457,6 +736,59 @@ const styles = StyleSheet.create({
     marginTop: 4,
     textAlign: 'center',
   },
+  reportCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  reportHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  reportTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  targetsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+  },
+  targetsButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  reportOk: {
+    fontSize: 13,
+    color: colors.success,
+  },
+  reportSection: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  reportEntry: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  reportMuscle: {
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  reportValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   totalsCard: {
     backgroundColor: colors.surface,
     borderRadius: 12,
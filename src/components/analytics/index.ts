@@ -2,3 +2,9 @@
 export { default as VolumeTab } from './VolumeTab'
 export { default as ProgressTab } from './ProgressTab'
 export { default as PRsTab } from './PRsTab'
+export { default as PRHistoryModal } from './PRHistoryModal'
+export { default as LineChart } from './LineChart'
+export { default as RelativeStrengthCard } from './RelativeStrengthCard'
+export { default as VolumeLandmarksModal } from './VolumeLandmarksModal'
+export { default as MuscleHeatmap } from './MuscleHeatmap'
+export { default as MuscleExerciseList } from './MuscleExerciseList'
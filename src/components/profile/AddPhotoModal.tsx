@@ -0,0 +1,276 @@
+// src/components/profile/AddPhotoModal.tsx
+// Date, optional workout link and notes for a freshly picked photo
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  Image,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { LinkableWorkout, PickedPhoto } from '../../hooks/useProgressPhotos'
+import { PhotoFormData } from '../../types/photos'
+import { shiftDateKey, toLocalDateKey } from '../../utils/dateHelpers'
+import { formatShortDate, formatTime } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+interface AddPhotoModalProps {
+  photo: PickedPhoto | null
+  saving: boolean
+  fetchWorkoutsOn: (dateKey: string) => Promise<LinkableWorkout[]>
+  onClose: () => void
+  onSubmit: (form: PhotoFormData) => void
+}
+
+export default function AddPhotoModal({
+  photo,
+  saving,
+  fetchWorkoutsOn,
+  onClose,
+  onSubmit,
+}: AddPhotoModalProps) {
+  const today = toLocalDateKey(new Date())
+  const [takenOn, setTakenOn] = useState(today)
+  const [workouts, setWorkouts] = useState<LinkableWorkout[]>([])
+  const [workoutId, setWorkoutId] = useState<string | null>(null)
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (photo) {
+      setTakenOn(toLocalDateKey(new Date()))
+      setNotes('')
+    }
+  }, [photo])
+
+  // A link only makes sense to a workout on the photo's day
+  useEffect(() => {
+    if (!photo) return
+    let cancelled = false
+    setWorkoutId(null)
+    fetchWorkoutsOn(takenOn).then(found => {
+      if (!cancelled) setWorkouts(found)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [photo, takenOn, fetchWorkoutsOn])
+
+  const linkOptions = [
+    { id: null, label: 'None' },
+    ...workouts.map(w => ({ id: w.id, label: `${w.name} · ${formatTime(w.started_at)}` })),
+  ]
+
+  function handleSave() {
+    if (!photo) return
+    onSubmit({ uri: photo.uri, width: photo.width, taken_on: takenOn, workout_id: workoutId, notes })
+  }
+
+  return (
+    <Modal
+      visible={photo !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Cancel">
+            <Ionicons name="close" size={24} color={colors.text.secondary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Add Photo</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={styles.headerButton}
+            disabled={saving}
+            accessibilityRole="button"
+            accessibilityLabel="Save photo"
+          >
+            {saving ? (
+              <ActivityIndicator color={colors.primary} size="small" />
+            ) : (
+              <Text style={styles.saveText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {photo && <Image source={{ uri: photo.uri }} style={styles.preview} resizeMode="contain" />}
+
+          <Text style={styles.label}>Date</Text>
+          <View style={styles.dateRow}>
+            <TouchableOpacity
+              onPress={() => setTakenOn(shiftDateKey(takenOn, -1))}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Previous day"
+            >
+              <Ionicons name="chevron-back" size={22} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.dateText}>
+              {takenOn === today ? 'Today' : formatShortDate(`${takenOn}T00:00:00`)}
+            </Text>
+            <TouchableOpacity
+              onPress={() => setTakenOn(shiftDateKey(takenOn, 1))}
+              disabled={takenOn >= today}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Next day"
+            >
+              <Ionicons
+                name="chevron-forward"
+                size={22}
+                color={takenOn >= today ? colors.text.faint : colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Workout</Text>
+          {workouts.length === 0 ? (
+            <Text style={styles.hint}>No workouts logged that day</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {linkOptions.map(option => {
+                const selected = workoutId === option.id
+                return (
+                  <TouchableOpacity
+                    key={option.id ?? 'none'}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setWorkoutId(option.id)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                  </TouchableOpacity>
+                )
+              })}
+            </View>
+          )}
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Front, relaxed, morning…"
+            placeholderTextColor={colors.text.muted}
+            multiline
+          />
+        </ScrollView>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  preview: {
+    width: '100%',
+    height: 280,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceAlt,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  dateText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  notesInput: {
+    minHeight: 72,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    fontSize: 15,
+    color: colors.text.primary,
+    textAlignVertical: 'top',
+  },
+})
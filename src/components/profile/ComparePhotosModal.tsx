@@ -0,0 +1,174 @@
+// src/components/profile/ComparePhotosModal.tsx
+// Two days side by side. Each side steps through the days that have photos,
+// and tapping a photo cycles through that day's shots.
+import React, { useEffect, useState } from 'react'
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Image } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { PhotoDay, getDefaultComparison } from '../../utils/photos'
+import { formatMediumDate } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+interface ComparePhotosModalProps {
+  visible: boolean
+  days: PhotoDay[]   // newest first, as groupPhotosByDay returns them
+  onClose: () => void
+}
+
+interface SideState {
+  dayIndex: number
+  photoIndex: number
+}
+
+export default function ComparePhotosModal({ visible, days, onClose }: ComparePhotosModalProps) {
+  const [sides, setSides] = useState<[SideState, SideState]>([
+    { dayIndex: 0, photoIndex: 0 },
+    { dayIndex: 0, photoIndex: 0 },
+  ])
+
+  // Open on oldest vs newest
+  useEffect(() => {
+    if (!visible) return
+    const pair = getDefaultComparison(days)
+    if (!pair) return
+    setSides([
+      { dayIndex: days.findIndex(d => d.taken_on === pair[0]), photoIndex: 0 },
+      { dayIndex: days.findIndex(d => d.taken_on === pair[1]), photoIndex: 0 },
+    ])
+  }, [visible, days])
+
+  function update(side: 0 | 1, next: SideState) {
+    setSides(prev => (side === 0 ? [next, prev[1]] : [prev[0], next]))
+  }
+
+  function renderSide(side: 0 | 1) {
+    const { dayIndex, photoIndex } = sides[side]
+    const day = days[dayIndex]
+    if (!day) return <View style={styles.side} />
+    const photo = day.photos[photoIndex % day.photos.length]
+
+    // Index 0 is the newest day, so "earlier" moves up the list
+    const canGoEarlier = dayIndex < days.length - 1
+    const canGoLater = dayIndex > 0
+
+    return (
+      <View style={styles.side}>
+        <TouchableOpacity
+          style={styles.photoFrame}
+          onPress={() => update(side, { dayIndex, photoIndex: photoIndex + 1 })}
+          disabled={day.photos.length < 2}
+          accessibilityRole="button"
+          accessibilityLabel={`Photo from ${formatMediumDate(`${day.taken_on}T00:00:00`)}`}
+        >
+          <Image source={{ uri: photo.url }} style={styles.photo} resizeMode="cover" />
+          {day.photos.length > 1 && (
+            <View style={styles.counter}>
+              <Text style={styles.counterText}>
+                {(photoIndex % day.photos.length) + 1}/{day.photos.length}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+        <View style={styles.dayRow}>
+          <TouchableOpacity
+            onPress={() => update(side, { dayIndex: dayIndex + 1, photoIndex: 0 })}
+            disabled={!canGoEarlier}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Earlier day"
+          >
+            <Ionicons name="chevron-back" size={20} color={canGoEarlier ? colors.text.inverse : colors.text.secondary} />
+          </TouchableOpacity>
+          <Text style={styles.dayText}>{formatMediumDate(`${day.taken_on}T00:00:00`)}</Text>
+          <TouchableOpacity
+            onPress={() => update(side, { dayIndex: dayIndex - 1, photoIndex: 0 })}
+            disabled={!canGoLater}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Later day"
+          >
+            <Ionicons name="chevron-forward" size={20} color={canGoLater ? colors.text.inverse : colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    )
+  }
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} hitSlop={8} accessibilityRole="button" accessibilityLabel="Close">
+            <Ionicons name="close" size={26} color={colors.text.inverse} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Compare</Text>
+          <View style={{ width: 26 }} />
+        </View>
+        <View style={styles.sides}>
+          {renderSide(0)}
+          {renderSide(1)}
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  },
+  sides: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  side: {
+    flex: 1,
+  },
+  photoFrame: {
+    flex: 1,
+    backgroundColor: '#111',
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  counter: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  counterText: {
+    fontSize: 11,
+    color: colors.text.inverse,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 16,
+  },
+  dayText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  },
+})
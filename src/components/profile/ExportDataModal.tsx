@@ -0,0 +1,264 @@
+// src/components/profile/ExportDataModal.tsx
+// Pick a format, date range and unit, then share the export file
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useDataExport } from '../../hooks/useDataExport'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useToast } from '../../contexts/ToastContext'
+import { ExportFileType, ExportRange } from '../../types/export'
+import { WeightUnit } from '../../types/workout'
+import { EXPORT_RANGE_LABELS } from '../../utils/exportFormat'
+import { colors } from '../../theme'
+
+interface ExportDataModalProps {
+  visible: boolean
+  onClose: () => void
+}
+
+const FILE_TYPES: { value: ExportFileType; label: string; hint: string }[] = [
+  { value: 'csv', label: 'CSV', hint: 'One row per set, for spreadsheets' },
+  { value: 'json', label: 'JSON', hint: 'Complete archive that can be re-imported' },
+]
+
+const RANGES: ExportRange[] = ['ALL', '1Y', '3M', '1M']
+
+export default function ExportDataModal({ visible, onClose }: ExportDataModalProps) {
+  const { exporting, exportHistory } = useDataExport()
+  const { showSuccess, showError } = useToast()
+  const profileUnit = useWeightUnit()
+  const [fileType, setFileType] = useState<ExportFileType>('csv')
+  const [range, setRange] = useState<ExportRange>('ALL')
+  const [unit, setUnit] = useState<WeightUnit>(profileUnit)
+
+  useEffect(() => {
+    if (visible) setUnit(profileUnit)
+  }, [visible, profileUnit])
+
+  async function handleExport() {
+    const result = await exportHistory({ fileType, range, unit })
+    if (result.success) {
+      showSuccess(`Exported ${result.setCount} set${result.setCount !== 1 ? 's' : ''}`)
+      onClose()
+    } else {
+      showError(result.error ?? 'Failed to export data')
+    }
+  }
+
+  function renderChip(label: string, selected: boolean, onPress: () => void) {
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.chip, selected && styles.chipSelected]}
+        onPress={onPress}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Cancel">
+            <Ionicons name="close" size={24} color={colors.text.secondary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Export Data</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.label}>Format</Text>
+          {FILE_TYPES.map(option => {
+            const selected = fileType === option.value
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.formatOption, selected && styles.formatOptionSelected]}
+                onPress={() => setFileType(option.value)}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                accessibilityLabel={`${option.label} format`}
+              >
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? colors.primary : colors.text.muted}
+                />
+                <View style={styles.formatText}>
+                  <Text style={styles.formatLabel}>{option.label}</Text>
+                  <Text style={styles.formatHint}>{option.hint}</Text>
+                </View>
+              </TouchableOpacity>
+            )
+          })}
+
+          <Text style={styles.label}>Date range</Text>
+          <View style={styles.chipRow}>
+            {RANGES.map(r => renderChip(EXPORT_RANGE_LABELS[r], range === r, () => setRange(r)))}
+          </View>
+
+          <Text style={styles.label}>Weight unit</Text>
+          <View style={styles.chipRow}>
+            {(['kg', 'lbs'] as WeightUnit[]).map(u => renderChip(u, unit === u, () => setUnit(u)))}
+          </View>
+          {fileType === 'json' && (
+            <Text style={styles.note}>
+              The JSON archive always stores kilograms so nothing is lost to rounding; the unit is
+              recorded as your display preference.
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.exportButton, exporting && styles.exportButtonDisabled]}
+            onPress={handleExport}
+            disabled={exporting}
+            accessibilityRole="button"
+            accessibilityLabel="Export and share"
+          >
+            {exporting ? (
+              <ActivityIndicator color={colors.surface} size="small" />
+            ) : (
+              <>
+                <Ionicons name="share-outline" size={18} color={colors.surface} />
+                <Text style={styles.exportButtonText}>Export and share</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  formatOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  formatOptionSelected: {
+    borderColor: colors.primary,
+  },
+  formatText: {
+    flex: 1,
+  },
+  formatLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  formatHint: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+  },
+  note: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 8,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 28,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+})
@@ -0,0 +1,616 @@
+// src/components/profile/ImportHistoryModal.tsx
+// Strong / Hevy import: choose a file, resolve exercise names, preview, import
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useHistoryImport } from '../../hooks/useHistoryImport'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useToast } from '../../contexts/ToastContext'
+import { ExerciseMatch, ImportPreview, ParsedImport } from '../../types/import'
+import { Exercise, WeightUnit } from '../../types/workout'
+import { IMPORT_SOURCE_LABELS, parseImportFile } from '../../utils/historyImport'
+import { formatMediumDate } from '../../utils/formatting'
+import { colors } from '../../theme'
+import ExercisePickerModal from '../workout/ExercisePickerModal'
+
+interface ImportHistoryModalProps {
+  visible: boolean
+  onClose: () => void
+  onImported?: () => void
+}
+
+type Step = 'pick' | 'resolve' | 'preview'
+
+const DUPLICATES_SHOWN = 5
+
+export default function ImportHistoryModal({ visible, onClose, onImported }: ImportHistoryModalProps) {
+  const { working, pickImportFile, matchExercises, previewImport, importHistory, recomputeRecords } =
+    useHistoryImport()
+  const { showSuccess, showError } = useToast()
+  const profileUnit = useWeightUnit()
+  const [step, setStep] = useState<Step>('pick')
+  const [contents, setContents] = useState<string | null>(null)
+  const [unit, setUnit] = useState<WeightUnit>(profileUnit)
+  const [matches, setMatches] = useState<ExerciseMatch[]>([])
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [pickingFor, setPickingFor] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!visible) return
+    setStep('pick')
+    setContents(null)
+    setUnit(profileUnit)
+    setMatches([])
+    setPreview(null)
+  }, [visible, profileUnit])
+
+  // Re-parsed when the user corrects the unit; matches are keyed by name so they survive
+  const parsed = useMemo<ParsedImport | null>(() => {
+    if (!contents) return null
+    try {
+      return parseImportFile(contents, unit)
+    } catch {
+      return null
+    }
+  }, [contents, unit])
+
+  const unresolved = matches.filter(m => m.status === 'unmatched').length
+
+  async function handlePickFile() {
+    const picked = await pickImportFile()
+    if (!picked.success) {
+      showError(picked.error ?? 'Failed to read file')
+      return
+    }
+    if (!picked.contents) return
+
+    let result: ParsedImport
+    try {
+      result = parseImportFile(picked.contents, unit)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Could not read this file')
+      return
+    }
+
+    const matched = await matchExercises(result.exercise_names)
+    if (!matched.success) {
+      showError(matched.error ?? 'Failed to load exercises')
+      return
+    }
+    setContents(picked.contents)
+    setMatches(matched.matches)
+    setStep('resolve')
+  }
+
+  function updateMatch(sourceName: string, changes: Partial<ExerciseMatch>) {
+    setMatches(prev => prev.map(m => (m.source_name === sourceName ? { ...m, ...changes } : m)))
+  }
+
+  function handleSelectExercise(exercise: Exercise) {
+    if (pickingFor) {
+      updateMatch(pickingFor, {
+        exercise_id: exercise.id,
+        exercise_name: exercise.name,
+        status: 'manual',
+      })
+    }
+    setPickingFor(null)
+  }
+
+  async function handlePreview() {
+    if (!parsed) return
+    const result = await previewImport(parsed, matches)
+    if (!result.success || !result.preview) {
+      showError(result.error ?? 'Failed to preview import')
+      return
+    }
+    setPreview(result.preview)
+    setStep('preview')
+  }
+
+  async function handleImport() {
+    if (!parsed) return
+    const outcome = await importHistory(parsed, matches)
+    if (!outcome.success || !outcome.result) {
+      showError(outcome.error ?? 'Failed to import workouts')
+      return
+    }
+    const { workouts, exercise_ids, records_error } = outcome.result
+    const imported = `Imported ${workouts} workout${workouts !== 1 ? 's' : ''}`
+    onImported?.()
+    onClose()
+    if (records_error) {
+      offerRecordsRetry(imported, exercise_ids, records_error)
+    } else {
+      showSuccess(imported)
+    }
+  }
+
+  // The workouts are saved; only the PR replay is retried
+  function offerRecordsRetry(imported: string, exerciseIds: string[], error: string) {
+    Alert.alert(
+      imported,
+      `Personal records could not be recalculated (${error}).`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            const retry = await recomputeRecords(exerciseIds)
+            if (retry.success) {
+              showSuccess('Personal records updated')
+              onImported?.()
+            } else {
+              offerRecordsRetry(imported, exerciseIds, retry.error ?? 'Unknown error')
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  function renderMatch(match: ExerciseMatch) {
+    const sets = parsed?.set_counts[match.source_name] ?? 0
+    const skipped = match.status === 'skipped'
+    const unmatched = match.status === 'unmatched'
+
+    return (
+      <View key={match.source_name} style={[styles.matchRow, unmatched && styles.matchRowUnmatched]}>
+        <View style={styles.matchHeader}>
+          <View style={styles.matchText}>
+            <Text style={styles.matchSource} numberOfLines={1}>{match.source_name}</Text>
+            <Text style={styles.matchTarget} numberOfLines={1}>
+              {skipped
+                ? `Skipped · ${sets} set${sets !== 1 ? 's' : ''}`
+                : unmatched
+                  ? `No match · ${sets} set${sets !== 1 ? 's' : ''}`
+                  : `→ ${match.exercise_name} · ${sets} set${sets !== 1 ? 's' : ''}`}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => setPickingFor(match.source_name)}
+            style={styles.linkButton}
+            accessibilityRole="button"
+            accessibilityLabel={`Choose exercise for ${match.source_name}`}
+          >
+            <Text style={styles.linkText}>{unmatched || skipped ? 'Choose' : 'Change'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {unmatched && (
+          <View style={styles.matchActions}>
+            {match.suggestion && (
+              <TouchableOpacity
+                style={styles.suggestionChip}
+                onPress={() =>
+                  updateMatch(match.source_name, {
+                    exercise_id: match.suggestion!.exercise_id,
+                    exercise_name: match.suggestion!.exercise_name,
+                    status: 'manual',
+                  })
+                }
+                accessibilityRole="button"
+                accessibilityLabel={`Use ${match.suggestion.exercise_name}`}
+              >
+                <Ionicons name="sparkles-outline" size={14} color={colors.primary} />
+                <Text style={styles.suggestionText} numberOfLines={1}>
+                  {match.suggestion.exercise_name}?
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.skipChip}
+              onPress={() => updateMatch(match.source_name, { status: 'skipped' })}
+              accessibilityRole="button"
+              accessibilityLabel={`Skip ${match.source_name}`}
+            >
+              <Text style={styles.skipText}>Skip</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    )
+  }
+
+  function renderPick() {
+    return (
+      <>
+        <Text style={styles.intro}>
+          Bring your history over from Strong or Hevy. Export a CSV from the other app
+          (Strong: Settings → Export data; Hevy: Settings → Export & import data), then choose
+          the file here. Nothing is saved until you confirm the preview.
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, working && styles.primaryButtonDisabled]}
+          onPress={handlePickFile}
+          disabled={working}
+          accessibilityRole="button"
+          accessibilityLabel="Choose CSV file"
+        >
+          {working ? (
+            <ActivityIndicator color={colors.surface} size="small" />
+          ) : (
+            <>
+              <Ionicons name="document-text-outline" size={18} color={colors.surface} />
+              <Text style={styles.primaryButtonText}>Choose CSV file</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </>
+    )
+  }
+
+  function renderResolve() {
+    if (!parsed) return null
+    return (
+      <>
+        <Text style={styles.summary}>
+          {IMPORT_SOURCE_LABELS[parsed.source]} export · {parsed.workouts.length} workout
+          {parsed.workouts.length !== 1 ? 's' : ''} · {parsed.exercise_names.length} exercises
+          {parsed.skipped_rows > 0 ? ` · ${parsed.skipped_rows} cardio/timed rows ignored` : ''}
+        </Text>
+
+        {!parsed.unit_in_file && (
+          <>
+            <Text style={styles.label}>Weights in this file are in</Text>
+            <View style={styles.chipRow}>
+              {(['kg', 'lbs'] as WeightUnit[]).map(u => (
+                <TouchableOpacity
+                  key={u}
+                  style={[styles.chip, unit === u && styles.chipSelected]}
+                  onPress={() => setUnit(u)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: unit === u }}
+                >
+                  <Text style={[styles.chipText, unit === u && styles.chipTextSelected]}>{u}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>
+          Exercises{unresolved > 0 ? ` · ${unresolved} need${unresolved === 1 ? 's' : ''} a match` : ''}
+        </Text>
+        {matches.map(renderMatch)}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (working || unresolved > 0) && styles.primaryButtonDisabled]}
+          onPress={handlePreview}
+          disabled={working || unresolved > 0}
+          accessibilityRole="button"
+          accessibilityLabel="Preview import"
+        >
+          {working ? (
+            <ActivityIndicator color={colors.surface} size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Preview import</Text>
+          )}
+        </TouchableOpacity>
+      </>
+    )
+  }
+
+  function renderPreview() {
+    if (!preview) return null
+    const stats = [
+      { label: 'Workouts', value: preview.workout_count },
+      { label: 'Exercises', value: preview.exercise_count },
+      { label: 'Sets', value: preview.set_count },
+    ]
+
+    return (
+      <>
+        <View style={styles.statsRow}>
+          {stats.map(s => (
+            <View key={s.label} style={styles.stat}>
+              <Text style={styles.statValue}>{s.value}</Text>
+              <Text style={styles.statLabel}>{s.label}</Text>
+            </View>
+          ))}
+        </View>
+        {preview.first_date && preview.last_date && (
+          <Text style={styles.summary}>
+            {formatMediumDate(preview.first_date)} – {formatMediumDate(preview.last_date)}
+          </Text>
+        )}
+        {preview.skipped_set_count > 0 && (
+          <Text style={styles.note}>
+            {preview.skipped_set_count} set{preview.skipped_set_count !== 1 ? 's' : ''} from skipped
+            exercises won't be imported.
+          </Text>
+        )}
+
+        {preview.duplicate_count > 0 && (
+          <>
+            <Text style={styles.label}>
+              Already in your history · {preview.duplicate_count} skipped
+            </Text>
+            {preview.duplicates.slice(0, DUPLICATES_SHOWN).map(d => (
+              <Text key={d.started_at} style={styles.duplicate}>
+                {d.name} · {formatMediumDate(d.started_at)}
+              </Text>
+            ))}
+            {preview.duplicate_count > DUPLICATES_SHOWN && (
+              <Text style={styles.duplicate}>
+                and {preview.duplicate_count - DUPLICATES_SHOWN} more
+              </Text>
+            )}
+          </>
+        )}
+
+        <Text style={styles.note}>
+          Personal records for these exercises are recalculated afterwards. Manual PRs are kept.
+        </Text>
+
+        <TouchableOpacity
+          style={[
+            styles.primaryButton,
+            (working || preview.workout_count === 0) && styles.primaryButtonDisabled,
+          ]}
+          onPress={handleImport}
+          disabled={working || preview.workout_count === 0}
+          accessibilityRole="button"
+          accessibilityLabel="Import workouts"
+        >
+          {working ? (
+            <ActivityIndicator color={colors.surface} size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {preview.workout_count === 0
+                ? 'Nothing new to import'
+                : `Import ${preview.workout_count} workout${preview.workout_count !== 1 ? 's' : ''}`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </>
+    )
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          {step === 'pick' ? (
+            <TouchableOpacity onPress={onClose} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Cancel">
+              <Ionicons name="close" size={24} color={colors.text.secondary} />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={() => setStep(step === 'preview' ? 'resolve' : 'pick')}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel="Back"
+            >
+              <Ionicons name="chevron-back" size={24} color={colors.text.secondary} />
+            </TouchableOpacity>
+          )}
+          <Text style={styles.title}>
+            {step === 'pick' ? 'Import History' : step === 'resolve' ? 'Match Exercises' : 'Preview'}
+          </Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {step === 'pick' && renderPick()}
+          {step === 'resolve' && renderResolve()}
+          {step === 'preview' && renderPreview()}
+        </ScrollView>
+      </View>
+
+      <ExercisePickerModal
+        visible={pickingFor !== null}
+        onClose={() => setPickingFor(null)}
+        onSelect={handleSelectExercise}
+      />
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.text.secondary,
+  },
+  summary: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  note: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+  },
+  matchRow: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  matchRowUnmatched: {
+    borderColor: colors.warning,
+  },
+  matchHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  matchText: {
+    flex: 1,
+  },
+  matchSource: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  matchTarget: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  linkButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  matchActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  suggestionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 1,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceAlt,
+  },
+  suggestionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.primary,
+    flexShrink: 1,
+  },
+  skipChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  skipText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: colors.surface,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  duplicate: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    paddingVertical: 2,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+})
@@ -0,0 +1,216 @@
+// src/components/profile/MeasurementFormModal.tsx
+// Log a check-in. Every field is optional; blanks are simply not recorded.
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { MeasurementField, MeasurementFormData } from '../../types/measurements'
+import { WeightUnit } from '../../types/workout'
+import { MEASUREMENT_FIELDS, getMeasurementUnitLabel } from '../../utils/measurements'
+import { colors } from '../../theme'
+
+interface MeasurementFormModalProps {
+  visible: boolean
+  unit: WeightUnit
+  saving: boolean
+  onClose: () => void
+  onSubmit: (form: MeasurementFormData) => void
+}
+
+type FieldValues = Partial<Record<MeasurementField, string>>
+
+export default function MeasurementFormModal({
+  visible,
+  unit,
+  saving,
+  onClose,
+  onSubmit,
+}: MeasurementFormModalProps) {
+  const [values, setValues] = useState<FieldValues>({})
+  const [notes, setNotes] = useState('')
+  const [invalid, setInvalid] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (visible) {
+      setValues({})
+      setNotes('')
+      setInvalid(null)
+    }
+  }, [visible])
+
+  function handleSave() {
+    const form: MeasurementFormData = { measured_at: new Date().toISOString(), notes }
+    for (const { field, label } of MEASUREMENT_FIELDS) {
+      const text = values[field]?.trim().replace(',', '.')
+      if (!text) continue
+      const value = parseFloat(text)
+      if (isNaN(value) || value <= 0) {
+        setInvalid(`Enter a valid ${label.toLowerCase()}`)
+        return
+      }
+      form[field] = value
+    }
+    setInvalid(null)
+    onSubmit(form)
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Cancel">
+            <Ionicons name="close" size={24} color={colors.text.secondary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Log Measurement</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            style={styles.headerButton}
+            disabled={saving}
+            accessibilityRole="button"
+            accessibilityLabel="Save measurement"
+          >
+            {saving ? (
+              <ActivityIndicator color={colors.primary} size="small" />
+            ) : (
+              <Text style={styles.saveText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {MEASUREMENT_FIELDS.map(({ field, label }) => (
+            <View key={field} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{label}</Text>
+              <TextInput
+                style={styles.input}
+                value={values[field] ?? ''}
+                onChangeText={text => setValues(prev => ({ ...prev, [field]: text }))}
+                keyboardType="decimal-pad"
+                placeholder="—"
+                placeholderTextColor={colors.text.muted}
+                accessibilityLabel={`${label} (${getMeasurementUnitLabel(field, unit)})`}
+              />
+              <Text style={styles.unitLabel}>{getMeasurementUnitLabel(field, unit)}</Text>
+            </View>
+          ))}
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Morning, fasted…"
+            placeholderTextColor={colors.text.muted}
+            multiline
+          />
+
+          {invalid && <Text style={styles.errorText}>{invalid}</Text>}
+          <Text style={styles.hint}>Leave anything you didn't measure blank.</Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 10,
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  input: {
+    width: 100,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    fontSize: 15,
+    color: colors.text.primary,
+    textAlign: 'right',
+  },
+  unitLabel: {
+    width: 28,
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  notesInput: {
+    width: '100%',
+    minHeight: 72,
+    textAlign: 'left',
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 12,
+  },
+})
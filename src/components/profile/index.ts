@@ -0,0 +1,6 @@
+// src/components/profile/index.ts
+export { default as ExportDataModal } from './ExportDataModal'
+export { default as ImportHistoryModal } from './ImportHistoryModal'
+export { default as MeasurementFormModal } from './MeasurementFormModal'
+export { default as AddPhotoModal } from './AddPhotoModal'
+export { default as ComparePhotosModal } from './ComparePhotosModal'
@@ -1,10 +1,12 @@
 import React, { useEffect, useRef } from 'react'
 import { Animated, StyleSheet, Text, View } from 'react-native'
 import { useNetworkStatus } from '../../hooks/useNetworkStatus'
+import { useWorkoutContext } from '../../contexts/WorkoutContext'
 import { colors } from '../../theme'
 
 export function OfflineBanner() {
   const { isConnected } = useNetworkStatus()
+  const { pendingSyncCount } = useWorkoutContext()
   const translateY = useRef(new Animated.Value(-60)).current
 
   useEffect(() => {
@@ -15,15 +17,20 @@ export function OfflineBanner() {
     }).start()
   }, [isConnected, translateY])
 
+  const message =
+    pendingSyncCount > 0
+      ? `Offline. ${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'} saved on this device — will sync when you reconnect.`
+      : 'Offline. Changes are saved on this device and will sync when you reconnect.'
+
   return (
     <Animated.View
       style={[styles.banner, { transform: [{ translateY }] }]}
       accessibilityLiveRegion="polite"
-      accessibilityLabel={isConnected ? '' : 'No internet connection. Changes will not be saved.'}
+      accessibilityLabel={isConnected ? '' : message}
     >
       <View style={styles.row}>
         <Text style={styles.icon}>⚠</Text>
-        <Text style={styles.text}>No internet connection. Changes won't be saved.</Text>
+        <Text style={styles.text}>{message}</Text>
       </View>
     </Animated.View>
   )
@@ -0,0 +1,363 @@
+// src/components/workout/ExerciseFormModal.tsx
+// Create or edit a custom exercise
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useExerciseLibrary } from '../../hooks/useExerciseLibrary'
+import { useToast } from '../../contexts/ToastContext'
+import { Exercise, ExerciseFormData, MuscleGroup, EquipmentType } from '../../types/workout'
+import { formatMuscleGroup, formatEquipment } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+interface ExerciseFormModalProps {
+  visible: boolean
+  exercise?: Exercise | null   // edit when set, create otherwise
+  initialName?: string         // e.g. the picker's search text
+  onClose: () => void
+  onSaved: (exercise: Exercise) => void
+}
+
+const MUSCLE_OPTIONS: MuscleGroup[] = [
+  'chest',
+  'back',
+  'lats',
+  'traps',
+  'front_delt',
+  'side_delt',
+  'rear_delt',
+  'biceps',
+  'triceps',
+  'forearms',
+  'quadriceps',
+  'hamstrings',
+  'glutes',
+  'calves',
+  'core',
+]
+
+const EQUIPMENT_OPTIONS: EquipmentType[] = [
+  'barbell',
+  'dumbbell',
+  'cable',
+  'machine',
+  'bodyweight',
+  'kettlebell',
+  'resistance_band',
+  'other',
+]
+
+function emptyForm(name = ''): ExerciseFormData {
+  return {
+    name,
+    description: null,
+    primary_muscle_group: 'chest',
+    secondary_muscle_groups: [],
+    equipment: 'barbell',
+    is_compound: false,
+  }
+}
+
+export default function ExerciseFormModal({
+  visible,
+  exercise,
+  initialName,
+  onClose,
+  onSaved,
+}: ExerciseFormModalProps) {
+  const { createExercise, updateExercise } = useExerciseLibrary()
+  const { showError } = useToast()
+  const [form, setForm] = useState<ExerciseFormData>(emptyForm())
+  const [saving, setSaving] = useState(false)
+
+  const isEdit = !!exercise
+
+  // Reset whenever the modal opens
+  useEffect(() => {
+    if (!visible) return
+    setForm(
+      exercise
+        ? {
+            name: exercise.name,
+            description: exercise.description,
+            primary_muscle_group: exercise.primary_muscle_group,
+            secondary_muscle_groups: exercise.secondary_muscle_groups ?? [],
+            equipment: exercise.equipment,
+            is_compound: exercise.is_compound,
+          }
+        : emptyForm(initialName?.trim() ?? '')
+    )
+  }, [visible, exercise, initialName])
+
+  function setPrimary(muscle: MuscleGroup) {
+    setForm(prev => ({
+      ...prev,
+      primary_muscle_group: muscle,
+      secondary_muscle_groups: prev.secondary_muscle_groups.filter(m => m !== muscle),
+    }))
+  }
+
+  function toggleSecondary(muscle: MuscleGroup) {
+    setForm(prev => ({
+      ...prev,
+      secondary_muscle_groups: prev.secondary_muscle_groups.includes(muscle)
+        ? prev.secondary_muscle_groups.filter(m => m !== muscle)
+        : [...prev.secondary_muscle_groups, muscle],
+    }))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    const result = exercise
+      ? await updateExercise(exercise.id, form)
+      : await createExercise(form)
+    setSaving(false)
+
+    if (result.success && result.exercise) {
+      onSaved(result.exercise)
+      onClose()
+    } else {
+      showError(result.error ?? 'Failed to save exercise')
+    }
+  }
+
+  function renderChip(label: string, selected: boolean, onPress: () => void, a11yLabel: string) {
+    return (
+      <TouchableOpacity
+        key={a11yLabel}
+        style={[styles.chip, selected && styles.chipSelected]}
+        onPress={onPress}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+        accessibilityLabel={a11yLabel}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    )
+  }
+
+  const canSave = form.name.trim().length > 0 && !saving
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} accessibilityRole="button" accessibilityLabel="Cancel">
+            <Ionicons name="close" size={24} color={colors.text.secondary} />
+          </TouchableOpacity>
+          <Text style={styles.title}>{isEdit ? 'Edit Exercise' : 'New Exercise'}</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={!canSave}
+            style={styles.headerButton}
+            accessibilityRole="button"
+            accessibilityLabel="Save exercise"
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text style={[styles.saveText, !canSave && styles.saveTextDisabled]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Name *</Text>
+          <TextInput
+            style={styles.input}
+            value={form.name}
+            onChangeText={name => setForm(prev => ({ ...prev, name }))}
+            placeholder="e.g. Landmine Press"
+            placeholderTextColor={colors.text.faint}
+            maxLength={80}
+            accessibilityLabel="Exercise name"
+          />
+
+          <Text style={styles.label}>Primary muscle</Text>
+          <View style={styles.chipRow}>
+            {MUSCLE_OPTIONS.map(muscle =>
+              renderChip(
+                formatMuscleGroup(muscle),
+                form.primary_muscle_group === muscle,
+                () => setPrimary(muscle),
+                `Primary ${formatMuscleGroup(muscle)}`
+              )
+            )}
+          </View>
+
+          <Text style={styles.label}>Secondary muscles</Text>
+          <View style={styles.chipRow}>
+            {MUSCLE_OPTIONS.filter(m => m !== form.primary_muscle_group).map(muscle =>
+              renderChip(
+                formatMuscleGroup(muscle),
+                form.secondary_muscle_groups.includes(muscle),
+                () => toggleSecondary(muscle),
+                `Secondary ${formatMuscleGroup(muscle)}`
+              )
+            )}
+          </View>
+
+          <Text style={styles.label}>Equipment</Text>
+          <View style={styles.chipRow}>
+            {EQUIPMENT_OPTIONS.map(equipment =>
+              renderChip(
+                formatEquipment(equipment),
+                form.equipment === equipment,
+                () => setForm(prev => ({ ...prev, equipment })),
+                `Equipment ${formatEquipment(equipment)}`
+              )
+            )}
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Compound movement</Text>
+              <Text style={styles.switchHint}>Works several joints, e.g. squats and presses</Text>
+            </View>
+            <Switch
+              value={form.is_compound}
+              onValueChange={is_compound => setForm(prev => ({ ...prev, is_compound }))}
+              trackColor={{ true: colors.accent, false: colors.border }}
+              accessibilityLabel="Compound movement"
+            />
+          </View>
+
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.descriptionInput]}
+            value={form.description ?? ''}
+            onChangeText={description => setForm(prev => ({ ...prev, description }))}
+            placeholder="Setup and cues (optional)"
+            placeholderTextColor={colors.text.faint}
+            multiline
+            maxLength={500}
+            accessibilityLabel="Exercise description"
+          />
+        </ScrollView>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  saveTextDisabled: {
+    color: colors.text.faint,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  descriptionInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: colors.surface,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+})
@@ -1,5 +1,6 @@
 // src/components/workout/ExercisePickerModal.tsx
 // SEDP-70: Exercise search and add for template creation
+// Create a custom exercise when the library doesn't have it
 import React, { useState, useEffect } from 'react'
 import {
   View,
@@ -17,6 +18,7 @@ import { Exercise, MuscleGroup } from '../../types/workout'
 import { formatMuscleGroup } from '../../utils/formatting'
 import { useToast } from '../../contexts/ToastContext'
 import { colors } from '../../theme'
+import ExerciseFormModal from './ExerciseFormModal'
 
 interface ExercisePickerModalProps {
   visible: boolean
@@ -46,6 +48,7 @@ export default function ExercisePickerModal({
   const [loading, setLoading] = useState(true)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedFilter, setSelectedFilter] = useState<string | null>(null)
+  const [showCreateForm, setShowCreateForm] = useState(false)
 
   useEffect(() => {
     if (visible) {
@@ -143,7 +146,14 @@ export default function ExercisePickerModal({
             <Ionicons name="close" size={24} color="#666" />
           </TouchableOpacity>
           <Text style={styles.title}>Add Exercise</Text>
-          <View style={styles.headerButton} />
+          <TouchableOpacity
+            onPress={() => setShowCreateForm(true)}
+            style={styles.headerButton}
+            accessibilityRole="button"
+            accessibilityLabel="Create exercise"
+          >
+            <Ionicons name="create-outline" size={22} color={colors.primary} />
+          </TouchableOpacity>
         </View>
 
         {/* Search */}
@@ -212,11 +222,31 @@ export default function ExercisePickerModal({
                 <Ionicons name="search-outline" size={48} color="#ccc" />
                 <Text style={styles.emptyText}>No exercises found</Text>
                 <Text style={styles.emptySubtext}>Try adjusting your search or filters</Text>
+                <TouchableOpacity
+                  style={styles.createButton}
+                  onPress={() => setShowCreateForm(true)}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="add" size={18} color={colors.surface} />
+                  <Text style={styles.createButtonText}>
+                    {searchQuery.trim() ? `Create "${searchQuery.trim()}"` : 'Create exercise'}
+                  </Text>
+                </TouchableOpacity>
               </View>
             }
           />
         )}
       </View>
+
+      <ExerciseFormModal
+        visible={showCreateForm}
+        initialName={searchQuery}
+        onClose={() => setShowCreateForm(false)}
+        onSaved={exercise => {
+          setExercises(prev => [...prev, exercise])
+          handleSelect(exercise)
+        }}
+      />
     </Modal>
   )
 }
@@ -365,4 +395,19 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginTop: 4,
   },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.primary,
+  },
+  createButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.surface,
+  },
 })
@@ -124,7 +124,7 @@ export default function ExerciseSwapModal({
     if (!workoutExerciseId) return
 
     setSwapping(true)
-    const { success, error } = await swapExercise(workoutExerciseId, newExercise.id)
+    const { success, error } = await swapExercise(workoutExerciseId, newExercise)
     setSwapping(false)
 
     if (success) {
@@ -0,0 +1,466 @@
+// src/components/workout/PlateCalculatorModal.tsx
+// Plate-loading breakdown per side for barbell and plate-loaded machine sets,
+// with the bar / plate inventory / starting resistance setup
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { usePlateSettings } from '../../hooks/usePlateSettings'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useToast } from '../../contexts/ToastContext'
+import { Exercise, WeightUnit } from '../../types/workout'
+import { PlateSettings } from '../../types/plates'
+import { calculatePlates, getBaseWeight, DEFAULT_PLATE_SETTINGS } from '../../utils/plateCalculator'
+import { formatWeight, toDisplayWeight } from '../../utils/units'
+import { colors } from '../../theme'
+
+interface PlateCalculatorModalProps {
+  visible: boolean
+  exercise: Pick<Exercise, 'id' | 'name' | 'equipment'>
+  targetKg: number
+  onClose: () => void
+  onApply: (weightKg: number) => void
+}
+
+export default function PlateCalculatorModal({
+  visible,
+  exercise,
+  targetKg,
+  onClose,
+  onApply,
+}: PlateCalculatorModalProps) {
+  const { settings, saveSettings } = usePlateSettings()
+  const { showError } = useToast()
+  const unit = useWeightUnit()
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState<PlateSettings>(settings)
+  const [baseText, setBaseText] = useState('')
+
+  const isMachine = exercise.equipment === 'machine'
+  const baseWeight = getBaseWeight(settings, exercise.id, exercise.equipment)
+  const load = calculatePlates(targetKg, { unit: settings.unit, baseWeight, plates: settings.plates })
+  const belowBase = toDisplayWeight(targetKg, settings.unit) < baseWeight
+
+  useEffect(() => {
+    if (!visible) return
+    setEditing(false)
+    setDraft(settings)
+    setBaseText(String(baseWeight))
+  }, [visible, settings, baseWeight])
+
+  function changeDraftUnit(next: WeightUnit) {
+    if (next === draft.unit) return
+    // Plate sets differ between systems, so start from that unit's standard gym
+    const defaults = DEFAULT_PLATE_SETTINGS[next]
+    setDraft({ ...defaults, machineStartWeights: {} })
+    setBaseText(String(isMachine ? 0 : defaults.barWeight))
+  }
+
+  function changePairs(index: number, delta: number) {
+    setDraft(prev => ({
+      ...prev,
+      plates: prev.plates.map((plate, i) =>
+        i === index ? { ...plate, pairs: Math.max(0, Math.min(10, plate.pairs + delta)) } : plate
+      ),
+    }))
+  }
+
+  async function handleSaveSetup() {
+    const base = parseFloat(baseText)
+    if (isNaN(base) || base < 0) {
+      showError(isMachine ? 'Enter a starting resistance' : 'Enter a bar weight')
+      return
+    }
+
+    const next: PlateSettings = isMachine
+      ? { ...draft, machineStartWeights: { ...draft.machineStartWeights, [exercise.id]: base } }
+      : { ...draft, barWeight: base }
+
+    const result = await saveSettings(next)
+    if (result.success) {
+      setEditing(false)
+    } else {
+      showError(result.error ?? 'Failed to save plate settings')
+    }
+  }
+
+  function handleApply(weightKg: number) {
+    onApply(weightKg)
+    onClose()
+  }
+
+  const baseLabel = isMachine ? 'Starting resistance' : 'Bar'
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Plate Calculator</Text>
+              <Text style={styles.subtitle}>{exercise.name}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close plate calculator">
+              <Ionicons name="close" size={24} color={colors.text.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.targetText}>{formatWeight(targetKg, unit)}</Text>
+            <Text style={styles.baseText}>
+              {baseLabel}: {baseWeight}
+              {settings.unit}
+            </Text>
+
+            {/* Per-side breakdown */}
+            <Text style={styles.sectionLabel}>Each side</Text>
+            {load.perSide.length > 0 ? (
+              <View style={styles.plateRow}>
+                {load.perSide.map((plate, i) => (
+                  <View key={i} style={[styles.plate, { height: 28 + plate * (settings.unit === 'kg' ? 1.6 : 0.7) }]}>
+                    <Text style={styles.plateText}>{plate}</Text>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.emptyText}>No plates</Text>
+            )}
+
+            {!load.exact && (
+              <View style={styles.warning}>
+                <Ionicons name="warning-outline" size={16} color={colors.warning} />
+                <Text style={styles.warningText}>
+                  {belowBase
+                    ? `Lighter than the ${isMachine ? 'starting resistance' : 'empty bar'}`
+                    : `${formatWeight(targetKg, unit)} can't be loaded exactly with your plates`}
+                </Text>
+              </View>
+            )}
+
+            {!load.exact && (
+              <View style={styles.nearestRow}>
+                {load.nearestBelowKg !== null && (
+                  <TouchableOpacity
+                    style={styles.nearestButton}
+                    onPress={() => handleApply(load.nearestBelowKg!)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Use ${formatWeight(load.nearestBelowKg, unit)}`}
+                  >
+                    <Text style={styles.nearestButtonText}>Use {formatWeight(load.nearestBelowKg, unit)}</Text>
+                  </TouchableOpacity>
+                )}
+                {load.nearestAboveKg !== null && (
+                  <TouchableOpacity
+                    style={styles.nearestButton}
+                    onPress={() => handleApply(load.nearestAboveKg!)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Use ${formatWeight(load.nearestAboveKg, unit)}`}
+                  >
+                    <Text style={styles.nearestButtonText}>Use {formatWeight(load.nearestAboveKg, unit)}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {/* Equipment setup */}
+            <TouchableOpacity
+              style={styles.setupToggle}
+              onPress={() => setEditing(prev => !prev)}
+              accessibilityRole="button"
+              accessibilityLabel="Edit plate setup"
+            >
+              <Ionicons name="settings-outline" size={16} color={colors.primary} />
+              <Text style={styles.setupToggleText}>{editing ? 'Hide setup' : 'Edit setup'}</Text>
+            </TouchableOpacity>
+
+            {editing && (
+              <View style={styles.setup}>
+                <View style={styles.unitSelector}>
+                  {(['kg', 'lbs'] as WeightUnit[]).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.unitOption, draft.unit === option && styles.unitOptionSelected]}
+                      onPress={() => changeDraftUnit(option)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Plates in ${option}`}
+                    >
+                      <Text style={[styles.unitOptionText, draft.unit === option && styles.unitOptionTextSelected]}>
+                        {option}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.setupRow}>
+                  <Text style={styles.setupLabel}>
+                    {baseLabel} ({draft.unit})
+                  </Text>
+                  <TextInput
+                    style={styles.setupInput}
+                    value={baseText}
+                    onChangeText={text => setBaseText(text.replace(/[^0-9.]/g, ''))}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel={baseLabel}
+                    selectTextOnFocus
+                  />
+                </View>
+
+                <Text style={styles.sectionLabel}>Pairs available</Text>
+                {draft.plates.map((plate, index) => (
+                  <View key={plate.weight} style={styles.setupRow}>
+                    <Text style={styles.setupLabel}>
+                      {plate.weight}
+                      {draft.unit}
+                    </Text>
+                    <View style={styles.stepper}>
+                      <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => changePairs(index, -1)}
+                        accessibilityLabel={`Fewer ${plate.weight}${draft.unit} plates`}
+                      >
+                        <Text style={styles.stepperButtonText}>-</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.stepperValue}>{plate.pairs}</Text>
+                      <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => changePairs(index, 1)}
+                        accessibilityLabel={`More ${plate.weight}${draft.unit} plates`}
+                      >
+                        <Text style={styles.stepperButtonText}>+</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+
+                <TouchableOpacity
+                  style={styles.saveButton}
+                  onPress={handleSaveSetup}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save plate setup"
+                >
+                  <Text style={styles.saveButtonText}>Save Setup</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  targetText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: colors.primary,
+    textAlign: 'center',
+  },
+  baseText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  plateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  plate: {
+    minWidth: 30,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  plateText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.surface,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#fef5e7',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text.primary,
+  },
+  nearestRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  nearestButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    alignItems: 'center',
+  },
+  nearestButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  setupToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 20,
+  },
+  setupToggleText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+  setup: {
+    marginTop: 8,
+  },
+  unitSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  unitOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
+  unitOptionSelected: {
+    borderColor: colors.primary,
+    backgroundColor: '#e8f4f8',
+  },
+  unitOptionText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  unitOptionTextSelected: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  setupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  setupLabel: {
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  setupInput: {
+    width: 72,
+    height: 36,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 6,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  stepperValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  saveButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+})
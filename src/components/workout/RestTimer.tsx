@@ -1,83 +1,48 @@
 // src/components/workout/RestTimer.tsx
 // Part of SEDP-40: Implement workout timer (rest timer between sets)
-import React, { useState, useEffect, useRef } from 'react'
+// Driven by a persisted end time so it survives backgrounding and restarts
+import React from 'react'
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   Modal,
-  Vibration,
-  Platform,
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { colors } from '../../theme'
 
+// Countdown state lives in useRestTimer (persisted end time); this is the
+// full-screen view of it. Closing only hides it, the timer keeps running.
 interface RestTimerProps {
   visible: boolean
+  remainingSeconds: number
   duration: number // in seconds
+  isPaused: boolean
+  onAdjust: (deltaSeconds: number) => void
+  onTogglePause: () => void
   onClose: () => void
   onSkip: () => void
 }
 
+export function formatRestTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
 export default function RestTimer({
   visible,
+  remainingSeconds,
   duration,
+  isPaused,
+  onAdjust,
+  onTogglePause,
   onClose,
   onSkip,
 }: RestTimerProps) {
-  const [remainingSeconds, setRemainingSeconds] = useState(duration)
-  const [isPaused, setIsPaused] = useState(false)
-  const timerRef = useRef<NodeJS.Timeout | null>(null)
-
-  // Reset timer when opened with new duration
-  useEffect(() => {
-    if (visible) {
-      setRemainingSeconds(duration)
-      setIsPaused(false)
-    }
-  }, [visible, duration])
-
-  // Countdown logic
-  useEffect(() => {
-    if (!visible || isPaused) {
-      if (timerRef.current) {
-        clearInterval(timerRef.current)
-      }
-      return
-    }
-
-    timerRef.current = setInterval(() => {
-      setRemainingSeconds(prev => {
-        if (prev <= 1) {
-          // Timer complete
-          Vibration.vibrate(Platform.OS === 'ios' ? [0, 500, 200, 500] : 1000)
-          onClose()
-          return 0
-        }
-        return prev - 1
-      })
-    }, 1000)
-
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current)
-      }
-    }
-  }, [visible, isPaused])
-
-  function formatTime(seconds: number): string {
-    const mins = Math.floor(seconds / 60)
-    const secs = seconds % 60
-    return `${mins}:${secs.toString().padStart(2, '0')}`
-  }
-
-  function adjustTime(delta: number) {
-    setRemainingSeconds(prev => Math.max(0, prev + delta))
-  }
-
   // Calculate progress (inverse - starts full, empties as time passes)
-  const progress = remainingSeconds / duration
+  const progress = duration > 0 ? remainingSeconds / duration : 0
   const progressDegrees = progress * 360
 
   return (
@@ -85,15 +50,20 @@ export default function RestTimer({
       visible={visible}
       transparent
       animationType="fade"
-      onRequestClose={onSkip}
+      onRequestClose={onClose}
     >
       <View style={styles.overlay}>
         <View style={styles.container}>
           {/* Header */}
           <View style={styles.header}>
             <Text style={styles.title}>Rest Timer</Text>
-            <TouchableOpacity onPress={onSkip} style={styles.closeButton}>
-              <Ionicons name="close" size={24} color="#666" />
+            <TouchableOpacity
+              onPress={onClose}
+              style={styles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel="Hide rest timer"
+            >
+              <Ionicons name="chevron-down" size={24} color="#666" />
             </TouchableOpacity>
           </View>
 
@@ -102,7 +72,7 @@ export default function RestTimer({
             {/* Progress Ring Background */}
             <View style={styles.progressRing}>
               <View style={styles.progressRingInner}>
-                <Text style={styles.timerText}>{formatTime(remainingSeconds)}</Text>
+                <Text style={styles.timerText}>{formatRestTime(remainingSeconds)}</Text>
                 <Text style={styles.timerLabel}>
                   {isPaused ? 'PAUSED' : 'remaining'}
                 </Text>
@@ -127,13 +97,13 @@ export default function RestTimer({
           <View style={styles.adjustRow}>
             <TouchableOpacity
               style={styles.adjustButton}
-              onPress={() => adjustTime(-15)}
+              onPress={() => onAdjust(-15)}
             >
               <Text style={styles.adjustButtonText}>-15s</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.pauseButton}
-              onPress={() => setIsPaused(!isPaused)}
+              onPress={onTogglePause}
             >
               <Ionicons
                 name={isPaused ? 'play' : 'pause'}
@@ -143,7 +113,7 @@ export default function RestTimer({
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.adjustButton}
-              onPress={() => adjustTime(15)}
+              onPress={() => onAdjust(15)}
             >
               <Text style={styles.adjustButtonText}>+15s</Text>
             </TouchableOpacity>
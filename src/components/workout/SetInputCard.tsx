@@ -4,6 +4,11 @@
 // SEDP-44: Quick +/- buttons for weight/reps
 // SEDP-45: Save set to workout_sets table
 // SEDP-46: Mark set as completed (visual feedback)
+// Per-set RPE, failure and drop-set markers
+// Progressive-overload suggestion pre-fills the next load
+// Generated warm-up ramp for barbell compounds
+// Plate calculator for barbell and plate-loaded machine sets
+// Percentage-based template loads pre-fill resolved weights
 import React, { useState, useEffect } from 'react'
 import {
   View,
@@ -16,7 +21,18 @@ import {
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { useWorkoutContext } from '../../contexts/WorkoutContext'
-import { WorkoutExercise, WorkoutSet, PreviousSetData } from '../../types/workout'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { usePlateSettings } from '../../hooks/usePlateSettings'
+import { WorkoutExercise, WorkoutSet, PreviousSetData, WeightUnit } from '../../types/workout'
+import { toDisplayWeight, toStorageWeight, getWeightIncrement, formatWeight } from '../../utils/units'
+import {
+  suggestProgression,
+  ProgressionSuggestion,
+  canGenerateWarmups,
+  generateWarmupSets,
+} from '../../utils/workoutCalculations'
+import { PercentageTargets, describePercentages, LOAD_BASIS_LABELS } from '../../utils/percentageTargets'
+import PlateCalculatorModal from './PlateCalculatorModal'
 import { colors } from '../../theme'
 
 interface SetInputCardProps {
@@ -25,38 +41,82 @@ interface SetInputCardProps {
     targetReps?: number | null
     targetRpe?: number | null
     restSeconds?: number
+    warmupEnabled?: boolean
+    percentageTargets?: PercentageTargets | null
   }
-  onSetComplete: (restSeconds: number) => void
+  // setsRemaining counts working sets still to log on this card
+  onSetComplete: (restSeconds: number, progress: { isWarmup: boolean; setsRemaining: number }) => void
   onSwapPress: () => void
+  onExercisePress?: () => void
 }
 
 interface SetRowData {
   setNumber: number
-  weight: string
+  weight: string // in the display unit
   reps: string
+  rpe: number | null
   isWarmup: boolean
+  isFailure: boolean
+  isDropset: boolean
   isCompleted: boolean
   setId?: string
+  targetPercentage?: number
   previousWeight?: number
   previousReps?: number
 }
 
+// RPE in half-point steps, 6 (4 reps in reserve) to 10 (max effort)
+const RPE_VALUES = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10]
+
+// Row toggles and the workout_sets column each one persists to
+const FLAG_COLUMNS = {
+  isWarmup: 'is_warmup',
+  isFailure: 'is_failure',
+  isDropset: 'is_dropset',
+} as const
+
+type SetFlag = keyof typeof FLAG_COLUMNS
+
+// "+2.5 kg: hit 3×8 last time"
+function describeSuggestion(suggestion: ProgressionSuggestion, unit: WeightUnit): string {
+  const delta = toDisplayWeight(Math.abs(suggestion.deltaKg), unit)
+  if (suggestion.deltaKg > 0) return `+${delta} ${unit}: ${suggestion.reason}`
+  if (suggestion.deltaKg < 0) return `−${delta} ${unit}: ${suggestion.reason}`
+  return `Same weight: ${suggestion.reason}`
+}
+
 export default function SetInputCard({
   workoutExercise,
   onSetComplete,
   onSwapPress,
+  onExercisePress,
 }: SetInputCardProps) {
   const { logSet, updateSet, deleteSet, getPreviousSets } = useWorkoutContext()
+  const unit = useWeightUnit()
+  const { settings: plateSettings } = usePlateSettings()
+  const weightStep = getWeightIncrement(unit)
   
   const [sets, setSets] = useState<SetRowData[]>([])
   const [previousSets, setPreviousSets] = useState<PreviousSetData[]>([])
   const [loading, setLoading] = useState(true)
   const [savingSet, setSavingSet] = useState<number | null>(null)
+  const [rpePickerIndex, setRpePickerIndex] = useState<number | null>(null)
+  const [suggestion, setSuggestion] = useState<ProgressionSuggestion | null>(null)
+  const [plateRowIndex, setPlateRowIndex] = useState<number | null>(null)
 
   const exercise = workoutExercise.exercise
   const targetSets = workoutExercise.targetSets ?? 3
   const targetReps = workoutExercise.targetReps
+  const targetRpe = workoutExercise.targetRpe
   const restSeconds = workoutExercise.restSeconds ?? 90
+  const percentageTargets = workoutExercise.percentageTargets ?? null
+  const showWarmupAction =
+    !!exercise &&
+    canGenerateWarmups(exercise) &&
+    workoutExercise.warmupEnabled !== false &&
+    !sets.some(set => set.isWarmup)
+  const hasPlateCalculator = exercise?.equipment === 'barbell' || exercise?.equipment === 'machine'
+  const plateRow = plateRowIndex !== null ? sets[plateRowIndex] : undefined
   const completedSets = workoutExercise.sets?.filter(s => !s.is_warmup) ?? []
 
   // Load previous sets and initialize set rows
@@ -68,33 +128,60 @@ export default function SetInputCard({
       const prevSets = await getPreviousSets(workoutExercise.exercise_id)
       setPreviousSets(prevSets)
 
+      const nextLoad = exercise && !percentageTargets
+        ? suggestProgression({
+            previousSets: prevSets,
+            targetReps: targetReps ?? null,
+            targetRpe: targetRpe ?? null,
+            equipment: exercise.equipment,
+            isCompound: exercise.is_compound,
+            unit,
+          })
+        : null
+      setSuggestion(nextLoad)
+
       // Initialize set rows from existing sets or create empty ones
       const existingSets = workoutExercise.sets ?? []
 
       const initialSets: SetRowData[] = []
+      // Last session is matched by working-set position, so warm-ups don't shift it
+      let workingIndex = 0
 
       for (let i = 1; i <= Math.max(targetSets, existingSets.length); i++) {
         const existingSet = existingSets.find(s => s.set_number === i)
-        const prevSet = prevSets.find(p => p.set_number === i)
+        const targetIndex = workingIndex
+        const prevSet = existingSet?.is_warmup ? undefined : prevSets[workingIndex++]
+        // Template percentages take precedence over the progression suggestion
+        const targetKg = percentageTargets?.weightsKg[targetIndex]
         
         if (existingSet) {
           initialSets.push({
             setNumber: i,
-            weight: existingSet.weight_kg?.toString() ?? '',
+            weight: formatInputWeight(existingSet.weight_kg),
             reps: existingSet.reps?.toString() ?? '',
+            rpe: existingSet.rpe ?? null,
             isWarmup: existingSet.is_warmup ?? false,
+            isFailure: existingSet.is_failure ?? false,
+            isDropset: existingSet.is_dropset ?? false,
             isCompleted: true,
             setId: existingSet.id,
+            targetPercentage: percentageTargets?.percentages[targetIndex],
             previousWeight: prevSet?.weight_kg,
             previousReps: prevSet?.reps,
           })
         } else {
           initialSets.push({
             setNumber: i,
-            weight: prevSet?.weight_kg?.toString() ?? '',
-            reps: prevSet?.reps?.toString() ?? targetReps?.toString() ?? '',
+            weight: formatInputWeight(targetKg ?? nextLoad?.weightKg ?? prevSet?.weight_kg),
+            reps:
+              (targetKg !== undefined ? targetReps?.toString() : undefined) ??
+              nextLoad?.reps.toString() ?? prevSet?.reps?.toString() ?? targetReps?.toString() ?? '',
+            rpe: null,
             isWarmup: false,
+            isFailure: false,
+            isDropset: false,
             isCompleted: false,
+            targetPercentage: percentageTargets?.percentages[targetIndex],
             previousWeight: prevSet?.weight_kg,
             previousReps: prevSet?.reps,
           })
@@ -108,19 +195,32 @@ export default function SetInputCard({
     loadData()
   }, [workoutExercise.id, workoutExercise.exercise_id])
 
+  function formatInputWeight(kg: number | null | undefined): string {
+    return kg == null ? '' : toDisplayWeight(kg, unit).toString()
+  }
+
   function adjustWeight(index: number, delta: number) {
     setSets(prev =>
       prev.map((set, i) =>
         i === index
           ? {
               ...set,
-              weight: Math.max(0, parseFloat(set.weight || '0') + delta).toString(),
+              // Round away float noise (e.g. 0.1 lb steps typed by hand, then +5)
+              weight: Math.max(0, Math.round((parseFloat(set.weight || '0') + delta) * 100) / 100).toString(),
             }
           : set
       )
     )
   }
 
+  function applyPlateWeight(index: number, weightKg: number) {
+    setSets(prev =>
+      prev.map((set, i) =>
+        i === index ? { ...set, weight: formatInputWeight(weightKg) } : set
+      )
+    )
+  }
+
   function adjustReps(index: number, delta: number) {
     setSets(prev =>
       prev.map((set, i) =>
@@ -144,22 +244,44 @@ export default function SetInputCard({
     )
   }
 
-  async function toggleWarmup(index: number) {
+  async function toggleFlag(index: number, flag: SetFlag) {
     const current = sets[index]
-    const nextWarmup = !current.isWarmup
+    const nextValue = !current[flag]
 
     setSets(prev =>
       prev.map((set, i) =>
-        i === index ? { ...set, isWarmup: nextWarmup } : set
+        i === index ? { ...set, [flag]: nextValue } : set
       )
     )
 
     if (current.isCompleted && current.setId) {
-      const result = await updateSet(current.setId, { is_warmup: nextWarmup })
+      const result = await updateSet(current.setId, { [FLAG_COLUMNS[flag]]: nextValue })
       if (!result.success) {
         setSets(prev =>
           prev.map((set, i) =>
-            i === index ? { ...set, isWarmup: current.isWarmup } : set
+            i === index ? { ...set, [flag]: current[flag] } : set
+          )
+        )
+      }
+    }
+  }
+
+  async function selectRpe(index: number, rpe: number | null) {
+    const current = sets[index]
+    setRpePickerIndex(null)
+
+    setSets(prev =>
+      prev.map((set, i) =>
+        i === index ? { ...set, rpe } : set
+      )
+    )
+
+    if (current.isCompleted && current.setId) {
+      const result = await updateSet(current.setId, { rpe })
+      if (!result.success) {
+        setSets(prev =>
+          prev.map((set, i) =>
+            i === index ? { ...set, rpe: current.rpe } : set
           )
         )
       }
@@ -168,13 +290,15 @@ export default function SetInputCard({
 
   async function handleSaveSet(index: number) {
     const set = sets[index]
-    const weight = parseFloat(set.weight)
+    const displayWeight = parseFloat(set.weight)
     const reps = parseInt(set.reps)
 
-    if (isNaN(weight) || isNaN(reps) || weight <= 0 || reps <= 0) {
+    if (isNaN(displayWeight) || isNaN(reps) || displayWeight <= 0 || reps <= 0) {
       return
     }
 
+    const weight = toStorageWeight(displayWeight, unit)
+
     setSavingSet(index)
 
     if (set.isCompleted && set.setId) {
@@ -182,7 +306,10 @@ export default function SetInputCard({
       await updateSet(set.setId, {
         weight_kg: weight,
         reps: reps,
+        rpe: set.rpe,
         is_warmup: set.isWarmup,
+        is_failure: set.isFailure,
+        is_dropset: set.isDropset,
       })
     } else {
       // Create new set
@@ -190,7 +317,10 @@ export default function SetInputCard({
         set_number: set.setNumber,
         weight_kg: weight,
         reps: reps,
+        rpe: set.rpe,
         is_warmup: set.isWarmup,
+        is_failure: set.isFailure,
+        is_dropset: set.isDropset,
         target_reps: targetReps ?? undefined,
       })
 
@@ -201,8 +331,11 @@ export default function SetInputCard({
           )
         )
         
-        // Trigger rest timer
-        onSetComplete(restSeconds)
+        // Trigger rest timer (or the next exercise in a superset)
+        onSetComplete(restSeconds, {
+          isWarmup: set.isWarmup,
+          setsRemaining: sets.filter((s, i) => i !== index && !s.isCompleted && !s.isWarmup).length,
+        })
       }
     }
 
@@ -211,22 +344,68 @@ export default function SetInputCard({
 
   function addSet() {
     const nextSetNumber = sets.reduce((max, set) => Math.max(max, set.setNumber), 0) + 1
-    const prevSet = previousSets.find(p => p.set_number === nextSetNumber) ?? previousSets[previousSets.length - 1]
+    const workingCount = sets.filter(set => !set.isWarmup).length
+    const prevSet = previousSets[workingCount] ?? previousSets[previousSets.length - 1]
+    // Extra sets past the template's scheme repeat its last percentage
+    const targetIndex = percentageTargets
+      ? Math.min(workingCount, percentageTargets.weightsKg.length - 1)
+      : -1
+    const targetKg = percentageTargets?.weightsKg[targetIndex]
     
     setSets(prev => [
       ...prev,
       {
         setNumber: nextSetNumber,
-        weight: prevSet?.weight_kg?.toString() ?? prev[prev.length - 1]?.weight ?? '',
-        reps: prevSet?.reps?.toString() ?? targetReps?.toString() ?? '',
+        weight: targetKg !== undefined
+          ? formatInputWeight(targetKg)
+          : suggestion
+          ? formatInputWeight(suggestion.weightKg)
+          : prevSet ? formatInputWeight(prevSet.weight_kg) : prev[prev.length - 1]?.weight ?? '',
+        reps: suggestion?.reps.toString() ?? prevSet?.reps?.toString() ?? targetReps?.toString() ?? '',
+        rpe: null,
         isWarmup: false,
+        isFailure: false,
+        isDropset: false,
         isCompleted: false,
+        targetPercentage: percentageTargets?.percentages[targetIndex],
         previousWeight: prevSet?.weight_kg,
         previousReps: prevSet?.reps,
       },
     ])
   }
 
+  // Prepend a warm-up ramp built from the first working set's weight and
+  // renumber everything after it, including sets already logged
+  async function handleGenerateWarmups() {
+    const firstWorking = sets.find(set => !set.isWarmup)
+    const displayWeight = parseFloat(firstWorking?.weight ?? '')
+    if (isNaN(displayWeight) || displayWeight <= 0) return
+
+    const barWeightKg = toStorageWeight(plateSettings.barWeight, plateSettings.unit)
+    const ramp = generateWarmupSets(toStorageWeight(displayWeight, unit), unit, barWeightKg)
+    if (ramp.length === 0) return
+
+    const warmupRows: SetRowData[] = ramp.map((warmup, i) => ({
+      setNumber: i + 1,
+      weight: formatInputWeight(warmup.weightKg),
+      reps: warmup.reps.toString(),
+      rpe: null,
+      isWarmup: true,
+      isFailure: false,
+      isDropset: false,
+      isCompleted: false,
+    }))
+    const shifted = sets.map(set => ({ ...set, setNumber: set.setNumber + ramp.length }))
+
+    setSets([...warmupRows, ...shifted])
+
+    for (const set of shifted) {
+      if (set.isCompleted && set.setId) {
+        await updateSet(set.setId, { set_number: set.setNumber })
+      }
+    }
+  }
+
   async function handleDeleteSet(index: number) {
     const set = sets[index]
     
@@ -256,10 +435,24 @@ export default function SetInputCard({
       {/* Exercise Header */}
       <View style={styles.header}>
         <View style={styles.headerLeft}>
-          <Text style={styles.exerciseName}>{exercise?.name}</Text>
+          <TouchableOpacity
+            onPress={onExercisePress}
+            disabled={!onExercisePress}
+            style={styles.exerciseNameRow}
+            accessibilityRole="button"
+            accessibilityLabel={`${exercise?.name} details`}
+          >
+            <Text style={styles.exerciseName}>{exercise?.name}</Text>
+            {onExercisePress && (
+              <Ionicons name="information-circle-outline" size={18} color={colors.text.muted} />
+            )}
+          </TouchableOpacity>
           <Text style={styles.targetInfo}>
             Target: {targetSets} sets
             {targetReps && ` × ${targetReps} reps`}
+            {targetRpe && ` @ RPE ${targetRpe}`}
+            {percentageTargets &&
+              ` @ ${describePercentages(percentageTargets.percentages, percentageTargets.basis)}`}
           </Text>
         </View>
         <TouchableOpacity style={styles.swapButton} onPress={onSwapPress}>
@@ -273,18 +466,49 @@ export default function SetInputCard({
         <View style={styles.previousInfo}>
           <Ionicons name="time-outline" size={14} color="#666" />
           <Text style={styles.previousText}>
-            Last session: {previousSets.map(p => `${p.weight_kg}×${p.reps}`).join(', ')}
+            Last session:{' '}
+            {previousSets.map(p => `${toDisplayWeight(p.weight_kg, unit)}×${p.reps}`).join(', ')}
           </Text>
         </View>
       )}
 
+      {/* Progression suggestion (already applied to the pre-filled rows) */}
+      {suggestion && (
+        <View style={styles.suggestionInfo}>
+          <Ionicons name="trending-up" size={14} color={colors.accent} />
+          <Text style={styles.suggestionText}>{describeSuggestion(suggestion, unit)}</Text>
+        </View>
+      )}
+
+      {/* Percentage-based loads (already applied to the pre-filled rows) */}
+      {percentageTargets && (
+        <View style={styles.suggestionInfo}>
+          <Ionicons name="calculator-outline" size={14} color={colors.accent} />
+          <Text style={styles.suggestionText}>
+            {`${LOAD_BASIS_LABELS[percentageTargets.basis]} ${formatWeight(percentageTargets.basisKg, unit)}, rounded to loadable weights`}
+          </Text>
+        </View>
+      )}
+
+      {showWarmupAction && (
+        <TouchableOpacity
+          style={styles.warmupAction}
+          onPress={handleGenerateWarmups}
+          accessibilityRole="button"
+          accessibilityLabel="Generate warm-ups"
+        >
+          <Ionicons name="flame-outline" size={16} color={colors.primary} />
+          <Text style={styles.warmupActionText}>Generate warm-ups</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Sets List */}
       <ScrollView style={styles.setsList} showsVerticalScrollIndicator={false}>
         {/* Table Header */}
         <View style={styles.tableHeader}>
           <Text style={[styles.tableHeaderText, styles.setColumn]}>SET</Text>
           <Text style={[styles.tableHeaderText, styles.prevColumn]}>PREV</Text>
-          <Text style={[styles.tableHeaderText, styles.inputColumn]}>KG</Text>
+          <Text style={[styles.tableHeaderText, styles.inputColumn]}>{unit.toUpperCase()}</Text>
           <Text style={[styles.tableHeaderText, styles.inputColumn]}>REPS</Text>
           <Text style={[styles.tableHeaderText, styles.actionColumn]}></Text>
         </View>
@@ -298,119 +522,206 @@ export default function SetInputCard({
               set.isWarmup && styles.setRowWarmup,
             ]}
           >
-            {/* Set Number */}
-            <View style={styles.setColumn}>
-              <View style={[styles.setNumber, set.isCompleted && styles.setNumberCompleted]}>
-                {set.isCompleted ? (
-                  <Ionicons name="checkmark" size={14} color="#fff" />
+            <View style={styles.setRowMain}>
+              {/* Set Number */}
+              <View style={styles.setColumn}>
+                <View style={[styles.setNumber, set.isCompleted && styles.setNumberCompleted]}>
+                  {set.isCompleted ? (
+                    <Ionicons name="checkmark" size={14} color="#fff" />
+                  ) : (
+                    <Text style={styles.setNumberText}>{set.setNumber}</Text>
+                  )}
+                </View>
+                <TouchableOpacity
+                  style={[styles.warmupToggle, set.isWarmup && styles.warmupToggleActive]}
+                  onPress={() => toggleFlag(index, 'isWarmup')}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Toggle warmup for set ${set.setNumber}`}
+                  accessibilityState={{ selected: set.isWarmup }}
+                >
+                  <Text
+                    style={[styles.warmupToggleText, set.isWarmup && styles.warmupToggleTextActive]}
+                  >
+                    W
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {/* Previous */}
+              <View style={styles.prevColumn}>
+                {set.previousWeight && set.previousReps ? (
+                  <Text style={styles.prevText}>
+                    {toDisplayWeight(set.previousWeight, unit)}×{set.previousReps}
+                  </Text>
+                ) : (
+                  <Text style={styles.prevTextEmpty}>-</Text>
+                )}
+                {set.targetPercentage !== undefined && !set.isWarmup && (
+                  <Text style={styles.targetPctText}>{set.targetPercentage}%</Text>
+                )}
+              </View>
+
+              {/* Weight Input */}
+              <View style={styles.inputColumn}>
+                <View style={styles.inputGroup}>
+                  <TouchableOpacity
+                    style={styles.adjustButton}
+                    onPress={() => adjustWeight(index, -weightStep)}
+                  >
+                    <Text style={styles.adjustButtonText}>-</Text>
+                  </TouchableOpacity>
+                  <TextInput
+                    style={[styles.input, set.isCompleted && styles.inputCompleted]}
+                    value={set.weight}
+                    onChangeText={v => updateSetValue(index, 'weight', v)}
+                    keyboardType="decimal-pad"
+                    selectTextOnFocus
+                  />
+                  <TouchableOpacity
+                    style={styles.adjustButton}
+                    onPress={() => adjustWeight(index, weightStep)}
+                  >
+                    <Text style={styles.adjustButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {/* Reps Input */}
+              <View style={styles.inputColumn}>
+                <View style={styles.inputGroup}>
+                  <TouchableOpacity
+                    style={styles.adjustButton}
+                    onPress={() => adjustReps(index, -1)}
+                  >
+                    <Text style={styles.adjustButtonText}>-</Text>
+                  </TouchableOpacity>
+                  <TextInput
+                    style={[styles.input, set.isCompleted && styles.inputCompleted]}
+                    value={set.reps}
+                    onChangeText={v => updateSetValue(index, 'reps', v)}
+                    keyboardType="number-pad"
+                    selectTextOnFocus
+                  />
+                  <TouchableOpacity
+                    style={styles.adjustButton}
+                    onPress={() => adjustReps(index, 1)}
+                  >
+                    <Text style={styles.adjustButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {/* Action Button */}
+              <View style={styles.actionColumn}>
+                {savingSet === index ? (
+                  <ActivityIndicator size="small" color="#1E3A5F" />
+                ) : set.isCompleted ? (
+                  <TouchableOpacity
+                    style={styles.deleteButton}
+                    onPress={() => handleDeleteSet(index)}
+                  >
+                    <Ionicons name="trash-outline" size={18} color="#dc3545" />
+                  </TouchableOpacity>
                 ) : (
-                  <Text style={styles.setNumberText}>{set.setNumber}</Text>
+                  <TouchableOpacity
+                    style={[
+                      styles.saveButton,
+                      (!set.weight || !set.reps) && styles.saveButtonDisabled,
+                    ]}
+                    onPress={() => handleSaveSet(index)}
+                    disabled={!set.weight || !set.reps}
+                    accessibilityLabel={`Save set ${set.setNumber}`}
+                  >
+                    <Ionicons
+                      name="checkmark"
+                      size={20}
+                      color={!set.weight || !set.reps ? colors.text.faint : colors.surface}
+                    />
+                  </TouchableOpacity>
                 )}
               </View>
+            </View>
+
+            {/* Effort markers: RPE, failure, drop set */}
+            <View style={styles.modifierRow}>
               <TouchableOpacity
-                style={[styles.warmupToggle, set.isWarmup && styles.warmupToggleActive]}
-                onPress={() => toggleWarmup(index)}
+                style={[styles.modifierChip, set.rpe !== null && styles.modifierChipActive]}
+                onPress={() => setRpePickerIndex(rpePickerIndex === index ? null : index)}
                 accessibilityRole="button"
-                accessibilityLabel={`Toggle warmup for set ${set.setNumber}`}
-                accessibilityState={{ selected: set.isWarmup }}
+                accessibilityLabel={`Set RPE for set ${set.setNumber}`}
               >
                 <Text
-                  style={[styles.warmupToggleText, set.isWarmup && styles.warmupToggleTextActive]}
+                  style={[styles.modifierChipText, set.rpe !== null && styles.modifierChipTextActive]}
                 >
-                  W
+                  {set.rpe !== null ? `RPE ${set.rpe}` : 'RPE'}
                 </Text>
               </TouchableOpacity>
-            </View>
-
-            {/* Previous */}
-            <View style={styles.prevColumn}>
-              {set.previousWeight && set.previousReps ? (
-                <Text style={styles.prevText}>
-                  {set.previousWeight}×{set.previousReps}
-                </Text>
-              ) : (
-                <Text style={styles.prevTextEmpty}>-</Text>
-              )}
-            </View>
-
-            {/* Weight Input */}
-            <View style={styles.inputColumn}>
-              <View style={styles.inputGroup}>
-                <TouchableOpacity
-                  style={styles.adjustButton}
-                  onPress={() => adjustWeight(index, -2.5)}
-                >
-                  <Text style={styles.adjustButtonText}>-</Text>
-                </TouchableOpacity>
-                <TextInput
-                  style={[styles.input, set.isCompleted && styles.inputCompleted]}
-                  value={set.weight}
-                  onChangeText={v => updateSetValue(index, 'weight', v)}
-                  keyboardType="decimal-pad"
-                  selectTextOnFocus
-                />
-                <TouchableOpacity
-                  style={styles.adjustButton}
-                  onPress={() => adjustWeight(index, 2.5)}
+              <TouchableOpacity
+                style={[styles.modifierChip, set.isFailure && styles.modifierChipActive]}
+                onPress={() => toggleFlag(index, 'isFailure')}
+                accessibilityRole="button"
+                accessibilityLabel={`Toggle failure for set ${set.setNumber}`}
+                accessibilityState={{ selected: set.isFailure }}
+              >
+                <Text
+                  style={[styles.modifierChipText, set.isFailure && styles.modifierChipTextActive]}
                 >
-                  <Text style={styles.adjustButtonText}>+</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-
-            {/* Reps Input */}
-            <View style={styles.inputColumn}>
-              <View style={styles.inputGroup}>
-                <TouchableOpacity
-                  style={styles.adjustButton}
-                  onPress={() => adjustReps(index, -1)}
+                  Failure
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modifierChip, set.isDropset && styles.modifierChipActive]}
+                onPress={() => toggleFlag(index, 'isDropset')}
+                accessibilityRole="button"
+                accessibilityLabel={`Toggle drop set for set ${set.setNumber}`}
+                accessibilityState={{ selected: set.isDropset }}
+              >
+                <Text
+                  style={[styles.modifierChipText, set.isDropset && styles.modifierChipTextActive]}
                 >
-                  <Text style={styles.adjustButtonText}>-</Text>
-                </TouchableOpacity>
-                <TextInput
-                  style={[styles.input, set.isCompleted && styles.inputCompleted]}
-                  value={set.reps}
-                  onChangeText={v => updateSetValue(index, 'reps', v)}
-                  keyboardType="number-pad"
-                  selectTextOnFocus
-                />
+                  Drop set
+                </Text>
+              </TouchableOpacity>
+              {hasPlateCalculator && (
                 <TouchableOpacity
-                  style={styles.adjustButton}
-                  onPress={() => adjustReps(index, 1)}
+                  style={styles.modifierChip}
+                  onPress={() => setPlateRowIndex(index)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Plate calculator for set ${set.setNumber}`}
                 >
-                  <Text style={styles.adjustButtonText}>+</Text>
+                  <Text style={styles.modifierChipText}>Plates</Text>
                 </TouchableOpacity>
-              </View>
+              )}
             </View>
 
-            {/* Action Button */}
-            <View style={styles.actionColumn}>
-              {savingSet === index ? (
-                <ActivityIndicator size="small" color="#1E3A5F" />
-              ) : set.isCompleted ? (
-                <TouchableOpacity
-                  style={styles.deleteButton}
-                  onPress={() => handleDeleteSet(index)}
-                >
-                  <Ionicons name="trash-outline" size={18} color="#dc3545" />
-                </TouchableOpacity>
-              ) : (
+            {rpePickerIndex === index && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.rpePicker}
+              >
                 <TouchableOpacity
-                  style={[
-                    styles.saveButton,
-                    (!set.weight || !set.reps) && styles.saveButtonDisabled,
-                  ]}
-                  onPress={() => handleSaveSet(index)}
-                  disabled={!set.weight || !set.reps}
+                  style={styles.rpeOption}
+                  onPress={() => selectRpe(index, null)}
+                  accessibilityLabel="Clear RPE"
                 >
-                  <Ionicons
-                    name="checkmark"
-                    size={20}
-                    color={!set.weight || !set.reps ? colors.text.faint : colors.surface}
-                  />
+                  <Text style={styles.rpeOptionText}>–</Text>
                 </TouchableOpacity>
-              )}
-            </View>
+                {RPE_VALUES.map(value => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.rpeOption, set.rpe === value && styles.rpeOptionActive]}
+                    onPress={() => selectRpe(index, value)}
+                  >
+                    <Text
+                      style={[styles.rpeOptionText, set.rpe === value && styles.rpeOptionTextActive]}
+                    >
+                      {value}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
           </View>
         ))}
 
@@ -420,6 +731,16 @@ export default function SetInputCard({
           <Text style={styles.addSetButtonText}>Add Set</Text>
         </TouchableOpacity>
       </ScrollView>
+
+      {exercise && plateRow && (
+        <PlateCalculatorModal
+          visible
+          exercise={exercise}
+          targetKg={toStorageWeight(parseFloat(plateRow.weight) || 0, unit)}
+          onClose={() => setPlateRowIndex(null)}
+          onApply={weightKg => applyPlateWeight(plateRowIndex!, weightKg)}
+        />
+      )}
     </View>
   )
 }
@@ -446,7 +767,13 @@ const styles = StyleSheet.create({
   headerLeft: {
     flex: 1,
   },
+  exerciseNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   exerciseName: {
+    flexShrink: 1,
     fontSize: 20,
     fontWeight: 'bold',
     color: colors.text.primary,
@@ -482,6 +809,37 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: colors.text.secondary,
   },
+  suggestionInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.accent,
+  },
+  warmupAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  warmupActionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.primary,
+  },
   setsList: {
     flex: 1,
     paddingHorizontal: 12,
@@ -515,14 +873,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   setRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
     paddingVertical: 8,
     paddingHorizontal: 4,
     borderRadius: 8,
     marginBottom: 6,
     backgroundColor: colors.surface,
   },
+  setRowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   setRowWarmup: {
     borderWidth: 1,
     borderColor: colors.border,
@@ -568,6 +928,60 @@ const styles = StyleSheet.create({
   warmupToggleTextActive: {
     color: colors.text.muted,
   },
+  modifierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+    paddingLeft: 40,
+  },
+  modifierChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  modifierChipActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  modifierChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  modifierChipTextActive: {
+    color: colors.surface,
+  },
+  rpePicker: {
+    gap: 6,
+    paddingTop: 8,
+    paddingLeft: 40,
+  },
+  rpeOption: {
+    minWidth: 36,
+    height: 32,
+    paddingHorizontal: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rpeOptionActive: {
+    borderColor: colors.accent,
+    backgroundColor: colors.accent,
+  },
+  rpeOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  rpeOptionTextActive: {
+    color: colors.surface,
+  },
   prevText: {
     fontSize: 12,
     color: colors.text.muted,
@@ -576,6 +990,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.text.faint,
   },
+  targetPctText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.accent,
+  },
   inputGroup: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,603 @@
+// src/components/workout/WorkoutEditor.tsx
+// Edit form for a completed workout: date and times, notes, exercises and
+// sets. Works on a draft copy; the screen decides when to save it.
+import React, { useEffect, useState } from 'react'
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { WorkoutDetail } from '../../hooks/useWorkoutHistory'
+import { Exercise, WeightUnit } from '../../types/workout'
+import { toDisplayWeight, toStorageWeight } from '../../utils/units'
+import { normalizeGroups } from '../../utils/exerciseGroups'
+import { generateUUID } from '../../utils/uuid'
+import { formatMediumDate, formatMuscleGroup } from '../../utils/formatting'
+import { setLocalTime, shiftIsoDays, toLocalTimeKey } from '../../utils/dateHelpers'
+import ExercisePickerModal from './ExercisePickerModal'
+import { colors } from '../../theme'
+
+type DraftExercise = WorkoutDetail['exercises'][number]
+type DraftSet = DraftExercise['sets'][number]
+
+interface WorkoutEditorProps {
+  draft: WorkoutDetail
+  unit: WeightUnit
+  onChange: (draft: WorkoutDetail) => void
+  // 'duration' asks for minutes instead of an end time, for logging from scratch
+  timeMode?: 'end' | 'duration'
+}
+
+// ─── Set row ────────────────────────────────────────────────────────────────
+
+interface EditableSetRowProps {
+  set: DraftSet
+  label: string
+  unit: WeightUnit
+  onChange: (changes: Partial<DraftSet>) => void
+  onDelete: () => void
+}
+
+// Local text state so values can be typed freely; they commit on blur
+function EditableSetRow({ set, label, unit, onChange, onDelete }: EditableSetRowProps) {
+  const [weightText, setWeightText] = useState(
+    set.weight_kg != null ? String(toDisplayWeight(set.weight_kg, unit)) : ''
+  )
+  const [repsText, setRepsText] = useState(set.reps != null ? String(set.reps) : '')
+  const [rpeText, setRpeText] = useState(set.rpe != null ? String(set.rpe) : '')
+
+  function commitWeight() {
+    const val = parseFloat(weightText)
+    const weightKg = isNaN(val) ? null : toStorageWeight(Math.max(0, val), unit)
+    setWeightText(weightKg != null ? String(toDisplayWeight(weightKg, unit)) : '')
+    onChange({ weight_kg: weightKg })
+  }
+
+  function commitReps() {
+    const val = parseInt(repsText, 10)
+    const reps = isNaN(val) ? null : Math.min(200, Math.max(0, val))
+    setRepsText(reps != null ? String(reps) : '')
+    onChange({ reps })
+  }
+
+  function commitRpe() {
+    const val = parseFloat(rpeText)
+    const rpe = isNaN(val) ? null : Math.min(10, Math.max(1, Math.round(val * 2) / 2))
+    setRpeText(rpe != null ? String(rpe) : '')
+    onChange({ rpe })
+  }
+
+  return (
+    <View style={[styles.setRow, set.is_warmup && styles.setRowWarmup]}>
+      <TouchableOpacity
+        style={[styles.warmupToggle, set.is_warmup && styles.warmupToggleActive]}
+        onPress={() => onChange({ is_warmup: !set.is_warmup })}
+        accessibilityRole="button"
+        accessibilityLabel={`Toggle warmup for set ${label}`}
+        accessibilityState={{ selected: set.is_warmup }}
+      >
+        <Text style={[styles.warmupToggleText, set.is_warmup && styles.warmupToggleTextActive]}>
+          {set.is_warmup ? 'W' : label}
+        </Text>
+      </TouchableOpacity>
+      <TextInput
+        style={styles.setInput}
+        value={weightText}
+        onChangeText={setWeightText}
+        onBlur={commitWeight}
+        keyboardType="decimal-pad"
+        placeholder="—"
+        placeholderTextColor={colors.text.faint}
+        selectTextOnFocus
+        accessibilityLabel={`Set ${label} weight`}
+      />
+      <TextInput
+        style={styles.setInput}
+        value={repsText}
+        onChangeText={setRepsText}
+        onBlur={commitReps}
+        keyboardType="number-pad"
+        placeholder="—"
+        placeholderTextColor={colors.text.faint}
+        selectTextOnFocus
+        accessibilityLabel={`Set ${label} reps`}
+      />
+      <TextInput
+        style={[styles.setInput, styles.setInputRpe]}
+        value={rpeText}
+        onChangeText={setRpeText}
+        onBlur={commitRpe}
+        keyboardType="decimal-pad"
+        placeholder="—"
+        placeholderTextColor={colors.text.faint}
+        selectTextOnFocus
+        accessibilityLabel={`Set ${label} RPE`}
+      />
+      <TouchableOpacity
+        onPress={onDelete}
+        hitSlop={6}
+        style={styles.deleteSetButton}
+        accessibilityRole="button"
+        accessibilityLabel={`Delete set ${label}`}
+      >
+        <Ionicons name="close-circle-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  )
+}
+
+// ─── Time field ─────────────────────────────────────────────────────────────
+
+interface TimeFieldProps {
+  label: string
+  value: string
+  onCommit: (time: string) => boolean   // false when the text didn't parse
+}
+
+function TimeField({ label, value, onCommit }: TimeFieldProps) {
+  const [text, setText] = useState(toLocalTimeKey(value))
+
+  useEffect(() => {
+    setText(toLocalTimeKey(value))
+  }, [value])
+
+  return (
+    <View style={styles.timeField}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.timeInput}
+        value={text}
+        onChangeText={setText}
+        onBlur={() => {
+          if (!onCommit(text)) setText(toLocalTimeKey(value))
+        }}
+        keyboardType="numbers-and-punctuation"
+        maxLength={5}
+        selectTextOnFocus
+        accessibilityLabel={`${label} time`}
+      />
+    </View>
+  )
+}
+
+// ─── Duration field ─────────────────────────────────────────────────────────
+
+interface DurationFieldProps {
+  minutes: number
+  onCommit: (minutes: number) => void
+}
+
+function DurationField({ minutes, onCommit }: DurationFieldProps) {
+  const [text, setText] = useState(String(minutes))
+
+  useEffect(() => {
+    setText(String(minutes))
+  }, [minutes])
+
+  return (
+    <View style={styles.timeField}>
+      <Text style={styles.fieldLabel}>Duration (min)</Text>
+      <TextInput
+        style={styles.timeInput}
+        value={text}
+        onChangeText={setText}
+        onBlur={() => {
+          const val = parseInt(text, 10)
+          if (isNaN(val) || val <= 0) setText(String(minutes))
+          else onCommit(Math.min(val, 24 * 60))
+        }}
+        keyboardType="number-pad"
+        maxLength={4}
+        selectTextOnFocus
+        accessibilityLabel="Duration in minutes"
+      />
+    </View>
+  )
+}
+
+// ─── Editor ─────────────────────────────────────────────────────────────────
+
+export default function WorkoutEditor({ draft, unit, onChange, timeMode = 'end' }: WorkoutEditorProps) {
+  const [pickerVisible, setPickerVisible] = useState(false)
+  const durationMs = draft.completed_at
+    ? new Date(draft.completed_at).getTime() - new Date(draft.started_at).getTime()
+    : 0
+
+  function updateExercises(exercises: DraftExercise[]) {
+    onChange({
+      ...draft,
+      exercises: normalizeGroups(exercises).map((ex, i) => ({ ...ex, order_index: i })),
+    })
+  }
+
+  function updateSets(exerciseId: string, update: (sets: DraftSet[]) => DraftSet[]) {
+    updateExercises(
+      draft.exercises.map(ex =>
+        ex.id === exerciseId
+          ? { ...ex, sets: update(ex.sets).map((s, i) => ({ ...s, set_number: i + 1 })) }
+          : ex
+      )
+    )
+  }
+
+  // Moving the day keeps the times and the length of the session
+  function shiftDay(days: number) {
+    onChange({
+      ...draft,
+      started_at: shiftIsoDays(draft.started_at, days),
+      completed_at: draft.completed_at ? shiftIsoDays(draft.completed_at, days) : null,
+    })
+  }
+
+  // With a duration the end follows the start; otherwise the end stays put
+  function commitStart(time: string): boolean {
+    const started = setLocalTime(draft.started_at, time)
+    if (!started) return false
+    const completed =
+      timeMode === 'duration' && draft.completed_at
+        ? new Date(new Date(started).getTime() + durationMs).toISOString()
+        : draft.completed_at
+    onChange({ ...draft, started_at: started, completed_at: completed })
+    return true
+  }
+
+  function commitDuration(minutes: number) {
+    const completed = new Date(new Date(draft.started_at).getTime() + minutes * 60000)
+    onChange({ ...draft, completed_at: completed.toISOString() })
+  }
+
+  // An end time earlier than the start means the session ran past midnight
+  function commitEnd(time: string): boolean {
+    let completed = setLocalTime(draft.started_at, time)
+    if (!completed) return false
+    if (completed <= draft.started_at) completed = shiftIsoDays(completed, 1)
+    onChange({ ...draft, completed_at: completed })
+    return true
+  }
+
+  function addSet(exercise: DraftExercise) {
+    const last = exercise.sets[exercise.sets.length - 1]
+    updateSets(exercise.id, sets => [
+      ...sets,
+      {
+        id: generateUUID(),
+        set_number: sets.length + 1,
+        weight_kg: last?.weight_kg ?? null,
+        reps: last?.reps ?? null,
+        rpe: null,
+        is_warmup: false,
+        is_failure: false,
+        is_dropset: false,
+        completed_at: draft.completed_at ?? draft.started_at,
+      },
+    ])
+  }
+
+  function addExercise(exercise: Exercise) {
+    updateExercises([
+      ...draft.exercises,
+      {
+        id: generateUUID(),
+        order_index: draft.exercises.length,
+        is_substitution: false,
+        group_id: null,
+        group_type: null,
+        exercise: {
+          id: exercise.id,
+          name: exercise.name,
+          primary_muscle_group: exercise.primary_muscle_group,
+          equipment: exercise.equipment,
+          is_compound: exercise.is_compound,
+        },
+        sets: [],
+      },
+    ])
+  }
+
+  return (
+    <>
+      {/* When */}
+      <View style={styles.card}>
+        <Text style={styles.fieldLabel}>Date</Text>
+        <View style={styles.dateRow}>
+          <TouchableOpacity
+            onPress={() => shiftDay(-1)}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Previous day"
+          >
+            <Ionicons name="chevron-back" size={22} color={colors.primary} />
+          </TouchableOpacity>
+          <Text style={styles.dateText}>{formatMediumDate(draft.started_at)}</Text>
+          <TouchableOpacity
+            onPress={() => shiftDay(1)}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Next day"
+          >
+            <Ionicons name="chevron-forward" size={22} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.timeRow}>
+          <TimeField label="Start" value={draft.started_at} onCommit={commitStart} />
+          {timeMode === 'duration' ? (
+            <DurationField minutes={Math.round(durationMs / 60000)} onCommit={commitDuration} />
+          ) : (
+            draft.completed_at && (
+              <TimeField label="End" value={draft.completed_at} onCommit={commitEnd} />
+            )
+          )}
+        </View>
+
+        <Text style={[styles.fieldLabel, styles.notesLabel]}>Notes</Text>
+        <TextInput
+          style={styles.notesInput}
+          value={draft.notes ?? ''}
+          onChangeText={text => onChange({ ...draft, notes: text.length > 0 ? text : null })}
+          placeholder="How did it go?"
+          placeholderTextColor={colors.text.faint}
+          multiline
+          maxLength={500}
+          accessibilityLabel="Workout notes"
+        />
+      </View>
+
+      {/* Exercises */}
+      {draft.exercises.map(ex => {
+        let workingNumber = 0
+        return (
+          <View key={ex.id} style={styles.card}>
+            <View style={styles.exerciseHeader}>
+              <View style={styles.exerciseInfo}>
+                <Text style={styles.exerciseName}>{ex.exercise.name}</Text>
+                <Text style={styles.exerciseMuscle}>
+                  {formatMuscleGroup(ex.exercise.primary_muscle_group)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => updateExercises(draft.exercises.filter(e => e.id !== ex.id))}
+                hitSlop={6}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${ex.exercise.name}`}
+              >
+                <Ionicons name="trash-outline" size={18} color={colors.error} />
+              </TouchableOpacity>
+            </View>
+
+            {ex.sets.length > 0 && (
+              <View style={styles.setHeaderRow}>
+                <Text style={[styles.setHeaderText, styles.setHeaderSet]}>SET</Text>
+                <Text style={[styles.setHeaderText, styles.setHeaderInput]}>{unit.toUpperCase()}</Text>
+                <Text style={[styles.setHeaderText, styles.setHeaderInput]}>REPS</Text>
+                <Text style={[styles.setHeaderText, styles.setHeaderRpe]}>RPE</Text>
+                <View style={styles.deleteSetButton} />
+              </View>
+            )}
+
+            {ex.sets.map(set => {
+              if (!set.is_warmup) workingNumber += 1
+              return (
+                <EditableSetRow
+                  key={set.id}
+                  set={set}
+                  label={set.is_warmup ? 'W' : String(workingNumber)}
+                  unit={unit}
+                  onChange={changes =>
+                    updateSets(ex.id, sets => sets.map(s => (s.id === set.id ? { ...s, ...changes } : s)))
+                  }
+                  onDelete={() => updateSets(ex.id, sets => sets.filter(s => s.id !== set.id))}
+                />
+              )
+            })}
+
+            <TouchableOpacity
+              style={styles.addSetButton}
+              onPress={() => addSet(ex)}
+              accessibilityRole="button"
+              accessibilityLabel={`Add set to ${ex.exercise.name}`}
+            >
+              <Ionicons name="add" size={18} color={colors.primary} />
+              <Text style={styles.addSetText}>Add set</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      })}
+
+      <TouchableOpacity
+        style={styles.addExerciseButton}
+        onPress={() => setPickerVisible(true)}
+        accessibilityRole="button"
+      >
+        <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+        <Text style={styles.addExerciseText}>Add Exercise</Text>
+      </TouchableOpacity>
+
+      <ExercisePickerModal
+        visible={pickerVisible}
+        onClose={() => setPickerVisible(false)}
+        onSelect={addExercise}
+        excludeExerciseIds={draft.exercises.map(ex => ex.exercise.id)}
+      />
+    </>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    padding: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.06,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  fieldLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginBottom: 6,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  dateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+  },
+  timeField: {
+    flex: 1,
+  },
+  timeInput: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+    paddingVertical: 4,
+    borderBottomWidth: 1.5,
+    borderBottomColor: colors.border,
+  },
+  notesLabel: {
+    marginTop: 16,
+  },
+  notesInput: {
+    fontSize: 15,
+    color: colors.text.primary,
+    minHeight: 56,
+    textAlignVertical: 'top',
+    paddingVertical: 4,
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  exerciseInfo: {
+    flex: 1,
+  },
+  exerciseName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  exerciseMuscle: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  setHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+    marginBottom: 4,
+  },
+  setHeaderText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.text.muted,
+    letterSpacing: 0.5,
+    textAlign: 'center',
+  },
+  setHeaderSet: {
+    width: 32,
+  },
+  setHeaderInput: {
+    flex: 1,
+  },
+  setHeaderRpe: {
+    width: 48,
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+    borderRadius: 6,
+  },
+  setRowWarmup: {
+    backgroundColor: colors.surfaceAlt,
+  },
+  warmupToggle: {
+    width: 32,
+    height: 28,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  warmupToggleActive: {
+    backgroundColor: colors.warning,
+    borderColor: colors.warning,
+  },
+  warmupToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  warmupToggleTextActive: {
+    color: colors.text.inverse,
+  },
+  setInput: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+    textAlign: 'center',
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: colors.background,
+  },
+  setInputRpe: {
+    flex: 0,
+    width: 48,
+  },
+  deleteSetButton: {
+    width: 22,
+    alignItems: 'center',
+  },
+  addSetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 8,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.background,
+  },
+  addSetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  addExerciseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+  },
+  addExerciseText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+})
@@ -4,10 +4,14 @@ import { renderWithProviders } from '../../../test-utils/render'
 import ExercisePickerModal from '../ExercisePickerModal'
 
 jest.mock('../../../lib/supabase')
+jest.mock('../../../contexts/AuthContext')
 
 const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
   jest.requireMock('../../../lib/supabase') as typeof import('../../../lib/__mocks__/supabase')
 
+import * as AuthContextModule from '../../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
 const EXERCISES = [
   {
     id: 'ex-1', name: 'Bench Press', primary_muscle_group: 'chest',
@@ -38,6 +42,7 @@ beforeEach(() => {
   resetMockQueue()
   setupChain()
   mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: { id: 'user-123' } })
 })
 
 describe('ExercisePickerModal', () => {
@@ -113,4 +118,17 @@ describe('ExercisePickerModal', () => {
     expect(onSelect).toHaveBeenCalledWith(EXERCISES[0])
     expect(onClose).toHaveBeenCalled()
   })
+
+  it('offers to create an exercise named after an unmatched search', async () => {
+    mockSupabaseResponse(EXERCISES)
+    const { getByText, getByPlaceholderText, getByLabelText } = renderWithProviders(
+      <ExercisePickerModal {...defaultProps} />
+    )
+
+    await waitFor(() => expect(getByText('Bench Press')).toBeTruthy())
+    fireEvent.changeText(getByPlaceholderText('Search exercises...'), 'Landmine Press')
+    fireEvent.press(getByText('Create "Landmine Press"'))
+
+    expect(getByLabelText('Exercise name').props.value).toBe('Landmine Press')
+  })
 })
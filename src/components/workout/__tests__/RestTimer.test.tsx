@@ -1,92 +1,50 @@
 import React from 'react'
-import { Vibration } from 'react-native'
-import { render, fireEvent, act } from '@testing-library/react-native'
+import { render, fireEvent } from '@testing-library/react-native'
 import RestTimer from '../RestTimer'
 
-// ── Setup ─────────────────────────────────────────────────────────────────────
-
-jest.spyOn(Vibration, 'vibrate').mockImplementation(() => {})
-
-beforeEach(() => {
-  jest.useFakeTimers()
-  jest.clearAllMocks()
-})
-
-afterEach(() => {
-  jest.runOnlyPendingTimers()
-  jest.useRealTimers()
-})
+// Countdown, persistence and notifications are covered in useRestTimer.test
 
 function renderTimer(props: Partial<React.ComponentProps<typeof RestTimer>> = {}) {
-  const onClose = jest.fn()
-  const onSkip = jest.fn()
+  const handlers = {
+    onAdjust: jest.fn(),
+    onTogglePause: jest.fn(),
+    onClose: jest.fn(),
+    onSkip: jest.fn(),
+  }
   const utils = render(
     <RestTimer
       visible={true}
+      remainingSeconds={props.remainingSeconds ?? 60}
       duration={props.duration ?? 60}
-      onClose={props.onClose ?? onClose}
-      onSkip={props.onSkip ?? onSkip}
+      isPaused={props.isPaused ?? false}
+      {...handlers}
       {...props}
     />
   )
-  return { ...utils, onClose, onSkip }
+  return { ...utils, ...handlers }
 }
 
 // ── Display ───────────────────────────────────────────────────────────────────
 
 describe('display', () => {
-  it('renders the initial duration as a formatted MM:SS string', () => {
-    const { getByText } = renderTimer({ duration: 90 })
+  it('renders the remaining time as a formatted MM:SS string', () => {
+    const { getByText } = renderTimer({ remainingSeconds: 90, duration: 90 })
     expect(getByText('1:30')).toBeTruthy()
   })
 
   it('renders a sub-minute duration correctly', () => {
-    const { getByText } = renderTimer({ duration: 45 })
+    const { getByText } = renderTimer({ remainingSeconds: 45 })
     expect(getByText('0:45')).toBeTruthy()
   })
 
   it('pads single-digit seconds with a leading zero', () => {
-    const { getByText } = renderTimer({ duration: 65 })
+    const { getByText } = renderTimer({ remainingSeconds: 65, duration: 90 })
     expect(getByText('1:05')).toBeTruthy()
   })
-})
-
-// ── Countdown ─────────────────────────────────────────────────────────────────
-
-describe('countdown', () => {
-  it('decrements the display by 1 second after 1000ms', () => {
-    const { getByText } = renderTimer({ duration: 5 })
-    expect(getByText('0:05')).toBeTruthy()
-
-    act(() => { jest.advanceTimersByTime(1000) })
-
-    expect(getByText('0:04')).toBeTruthy()
-  })
-
-  it('calls onClose once when the full duration has elapsed', () => {
-    const onClose = jest.fn()
-    renderTimer({ duration: 3, onClose })
-
-    act(() => { jest.advanceTimersByTime(3000) })
-
-    expect(onClose).toHaveBeenCalledTimes(1)
-  })
 
-  it('does not call onClose before the duration has elapsed', () => {
-    const onClose = jest.fn()
-    renderTimer({ duration: 5, onClose })
-
-    act(() => { jest.advanceTimersByTime(4000) })
-
-    expect(onClose).not.toHaveBeenCalled()
-  })
-
-  it('vibrates when the countdown reaches zero', () => {
-    renderTimer({ duration: 1 })
-
-    act(() => { jest.advanceTimersByTime(1000) })
-
-    expect(Vibration.vibrate).toHaveBeenCalledTimes(1)
+  it('shows when the timer is paused', () => {
+    const { getByText } = renderTimer({ isPaused: true })
+    expect(getByText('PAUSED')).toBeTruthy()
   })
 })
 
@@ -99,25 +57,17 @@ describe('controls', () => {
     expect(onSkip).toHaveBeenCalledTimes(1)
   })
 
-  it('+15s button increases the displayed time by 15 seconds', () => {
-    const { getByText } = renderTimer({ duration: 30 })
-    expect(getByText('0:30')).toBeTruthy()
-
-    fireEvent.press(getByText('+15s'))
-
-    expect(getByText('0:45')).toBeTruthy()
-  })
-
-  it('-15s button decreases the displayed time by 15 seconds', () => {
-    const { getByText } = renderTimer({ duration: 60 })
-    fireEvent.press(getByText('-15s'))
-    expect(getByText('0:45')).toBeTruthy()
+  it('hiding the timer calls onClose, not onSkip', () => {
+    const { getByLabelText, onClose, onSkip } = renderTimer()
+    fireEvent.press(getByLabelText('Hide rest timer'))
+    expect(onClose).toHaveBeenCalledTimes(1)
+    expect(onSkip).not.toHaveBeenCalled()
   })
 
-  it('-15s button floors at 0:00 and does not go negative', () => {
-    const { getByText } = renderTimer({ duration: 10 })
-    // 10s - 15s would be negative; Math.max(0, ...) floors it
+  it('+15s and -15s adjust by 15 seconds', () => {
+    const { getByText, onAdjust } = renderTimer()
+    fireEvent.press(getByText('+15s'))
     fireEvent.press(getByText('-15s'))
-    expect(getByText('0:00')).toBeTruthy()
+    expect(onAdjust.mock.calls).toEqual([[15], [-15]])
   })
 })
@@ -0,0 +1,257 @@
+import React from 'react'
+import { render, fireEvent, waitFor } from '@testing-library/react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import SetInputCard from '../SetInputCard'
+import { PLATE_SETTINGS_STORAGE_KEY } from '../../../hooks/usePlateSettings'
+import { DEFAULT_PLATE_SETTINGS } from '../../../utils/plateCalculator'
+
+jest.mock('../../../lib/supabase')
+jest.mock('../../../contexts/WorkoutContext')
+jest.mock('../../../contexts/AuthContext')
+jest.mock('../../../contexts/ToastContext')
+
+import * as WorkoutContextModule from '../../../contexts/WorkoutContext'
+import * as AuthContextModule from '../../../contexts/AuthContext'
+import * as ToastContextModule from '../../../contexts/ToastContext'
+const mockUseWorkoutContext = WorkoutContextModule.useWorkoutContext as jest.Mock
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const mockLogSet = jest.fn()
+const mockUpdateSet = jest.fn()
+
+function makeWorkoutExercise(sets: any[] = []): any {
+  return {
+    id: 'we-1',
+    workout_id: 'w-1',
+    exercise_id: 'ex-1',
+    order_index: 0,
+    exercise: { id: 'ex-1', name: 'Bench Press', equipment: 'barbell', is_compound: true },
+    targetSets: 1,
+    targetReps: 5,
+    targetRpe: 8,
+    restSeconds: 90,
+    sets,
+  }
+}
+
+function renderCard(workoutExercise = makeWorkoutExercise()) {
+  const onSetComplete = jest.fn()
+  const utils = render(
+    <SetInputCard
+      workoutExercise={workoutExercise}
+      onSetComplete={onSetComplete}
+      onSwapPress={jest.fn()}
+    />
+  )
+  return { ...utils, onSetComplete }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  mockLogSet.mockResolvedValue({ success: true, error: null, set: { id: 's-new' } })
+  mockUpdateSet.mockResolvedValue({ success: true, error: null })
+  mockUseWorkoutContext.mockReturnValue({
+    logSet: mockLogSet,
+    updateSet: mockUpdateSet,
+    deleteSet: jest.fn(),
+    // One rep short of the 5-rep target, so the suggestion holds the weight at 100
+    getPreviousSets: jest.fn().mockResolvedValue([
+      { exercise_id: 'ex-1', set_number: 1, weight_kg: 100, reps: 4, rpe: null },
+    ]),
+  })
+  mockUseAuthContext.mockReturnValue({ profile: { default_weight_unit: 'kg' } })
+  ;(ToastContextModule.useToast as jest.Mock).mockReturnValue({ showError: jest.fn() })
+})
+
+describe('effort markers', () => {
+  it('shows the template RPE target', async () => {
+    const { getByText } = renderCard()
+    await waitFor(() => expect(getByText(/@ RPE 8/)).toBeTruthy())
+  })
+
+  it('logs RPE, failure and drop-set flags with the set', async () => {
+    const { getByLabelText, getByText } = renderCard()
+    await waitFor(() => expect(getByLabelText('Set RPE for set 1')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Set RPE for set 1'))
+    fireEvent.press(getByText('8.5'))
+    fireEvent.press(getByLabelText('Toggle failure for set 1'))
+    fireEvent.press(getByLabelText('Toggle drop set for set 1'))
+    fireEvent.press(getByLabelText('Save set 1'))
+
+    await waitFor(() => {
+      expect(mockLogSet).toHaveBeenCalledWith(
+        'we-1',
+        expect.objectContaining({
+          weight_kg: 100,
+          reps: 5,
+          rpe: 8.5,
+          is_failure: true,
+          is_dropset: true,
+        })
+      )
+    })
+  })
+
+  it('persists a flag change on an already-logged set via updateSet', async () => {
+    const logged = {
+      id: 's-1',
+      set_number: 1,
+      weight_kg: 100,
+      reps: 5,
+      rpe: 9,
+      is_warmup: false,
+      is_failure: false,
+      is_dropset: false,
+    }
+    const { getByLabelText, getByText } = renderCard(makeWorkoutExercise([logged]))
+    await waitFor(() => expect(getByText('RPE 9')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Toggle failure for set 1'))
+
+    await waitFor(() => {
+      expect(mockUpdateSet).toHaveBeenCalledWith('s-1', { is_failure: true })
+    })
+  })
+})
+
+describe('weight unit', () => {
+  it('shows weights in lbs and stores kg', async () => {
+    mockUseAuthContext.mockReturnValue({ profile: { default_weight_unit: 'lbs' } })
+    const { getByLabelText, getByDisplayValue, getByText } = renderCard()
+
+    await waitFor(() => expect(getByDisplayValue('220.5')).toBeTruthy())
+    expect(getByText('LBS')).toBeTruthy()
+
+    fireEvent.changeText(getByDisplayValue('220.5'), '225')
+    fireEvent.press(getByLabelText('Save set 1'))
+
+    await waitFor(() => {
+      expect(mockLogSet).toHaveBeenCalledWith('we-1', expect.objectContaining({ weight_kg: 102.06 }))
+    })
+  })
+})
+
+describe('progression suggestion', () => {
+  it('pre-fills the next load and explains why', async () => {
+    mockUseWorkoutContext.mockReturnValue({
+      logSet: mockLogSet,
+      updateSet: mockUpdateSet,
+      deleteSet: jest.fn(),
+      getPreviousSets: jest.fn().mockResolvedValue([
+        { exercise_id: 'ex-1', set_number: 1, weight_kg: 100, reps: 5, rpe: null },
+      ]),
+    })
+    const { getByText, getByDisplayValue } = renderCard()
+
+    await waitFor(() => expect(getByText('+2.5 kg: hit 1×5 last time')).toBeTruthy())
+    expect(getByDisplayValue('102.5')).toBeTruthy()
+  })
+
+  it('holds the weight after a missed target', async () => {
+    const { getByText, getByDisplayValue } = renderCard()
+
+    await waitFor(() => expect(getByText('Same weight: 1×4 last time, target 1×5')).toBeTruthy())
+    expect(getByDisplayValue('100')).toBeTruthy()
+  })
+})
+
+describe('warm-up generator', () => {
+  afterEach(() => AsyncStorage.clear())
+
+  it('prepends a warm-up ramp from the first working weight and renumbers', async () => {
+    const { getByLabelText, queryByLabelText } = renderCard()
+    await waitFor(() => expect(getByLabelText('Generate warm-ups')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Generate warm-ups'))
+
+    // 100kg working set → 20×10, 40×5, 60×3, 80×1, then the working set as set 5
+    await waitFor(() => expect(getByLabelText('Save set 5')).toBeTruthy())
+    expect(queryByLabelText('Generate warm-ups')).toBeNull()
+
+    fireEvent.press(getByLabelText('Save set 2'))
+    await waitFor(() => {
+      expect(mockLogSet).toHaveBeenCalledWith(
+        'we-1',
+        expect.objectContaining({ set_number: 2, weight_kg: 40, reps: 5, is_warmup: true })
+      )
+    })
+  })
+
+  it('starts the ramp from the bar in the plate settings', async () => {
+    await AsyncStorage.setItem(
+      PLATE_SETTINGS_STORAGE_KEY,
+      JSON.stringify({ ...DEFAULT_PLATE_SETTINGS.kg, barWeight: 15 })
+    )
+    const { getByLabelText } = renderCard()
+    await waitFor(() => expect(getByLabelText('Generate warm-ups')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Generate warm-ups'))
+    await waitFor(() => expect(getByLabelText('Save set 5')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Save set 1'))
+    await waitFor(() => {
+      expect(mockLogSet).toHaveBeenCalledWith(
+        'we-1',
+        expect.objectContaining({ set_number: 1, weight_kg: 15, reps: 10, is_warmup: true })
+      )
+    })
+  })
+
+  it('moves already-logged working sets behind the warm-ups', async () => {
+    const logged = {
+      id: 's-1',
+      set_number: 1,
+      weight_kg: 100,
+      reps: 5,
+      rpe: null,
+      is_warmup: false,
+      is_failure: false,
+      is_dropset: false,
+    }
+    const { getByLabelText } = renderCard(makeWorkoutExercise([logged]))
+    await waitFor(() => expect(getByLabelText('Generate warm-ups')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Generate warm-ups'))
+
+    await waitFor(() => {
+      expect(mockUpdateSet).toHaveBeenCalledWith('s-1', { set_number: 5 })
+    })
+  })
+
+  it('is hidden when the template turns warm-ups off', async () => {
+    const { getByText, queryByLabelText } = renderCard({
+      ...makeWorkoutExercise(),
+      warmupEnabled: false,
+    })
+    await waitFor(() => expect(getByText('Bench Press')).toBeTruthy())
+    expect(queryByLabelText('Generate warm-ups')).toBeNull()
+  })
+})
+
+describe('plate calculator', () => {
+  it('shows the per-side breakdown for the row weight', async () => {
+    const { getByLabelText, getByText } = renderCard()
+    await waitFor(() => expect(getByLabelText('Plate calculator for set 1')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Plate calculator for set 1'))
+
+    // 100kg on a 20kg bar: 25 + 15 per side
+    await waitFor(() => expect(getByText('Plate Calculator')).toBeTruthy())
+    expect(getByText('25')).toBeTruthy()
+    expect(getByText('15')).toBeTruthy()
+  })
+
+  it('applies the nearest loadable weight when the target is not exact', async () => {
+    const { getByLabelText, getByDisplayValue } = renderCard()
+    await waitFor(() => expect(getByDisplayValue('100')).toBeTruthy())
+
+    fireEvent.changeText(getByDisplayValue('100'), '101')
+    fireEvent.press(getByLabelText('Plate calculator for set 1'))
+    await waitFor(() => expect(getByLabelText('Use 102.5kg')).toBeTruthy())
+
+    fireEvent.press(getByLabelText('Use 102.5kg'))
+
+    await waitFor(() => expect(getByDisplayValue('102.5')).toBeTruthy())
+  })
+})
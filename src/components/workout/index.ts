@@ -2,3 +2,6 @@
 export { default as SetInputCard } from './SetInputCard'
 export { default as RestTimer } from './RestTimer'
 export { default as ExerciseSwapModal } from './ExerciseSwapModal'
+export { default as PlateCalculatorModal } from './PlateCalculatorModal'
+export { default as ExerciseFormModal } from './ExerciseFormModal'
+export { default as WorkoutEditor } from './WorkoutEditor'
@@ -1,11 +1,16 @@
 import React, { createContext, useContext, ReactNode } from 'react'
 import { Session, User } from '@supabase/supabase-js'
 import { useAuth } from '../hooks/useAuth'
+import { Sex } from '../types/strength'
+import { E1RMFormula } from '../types/workout'
 
 interface Profile {
   id: string
   username: string
   default_weight_unit: 'kg' | 'lbs'
+  e1rm_formula: E1RMFormula
+  sex: Sex | null
+  bodyweight_kg: number | null   // used for strength standards; kg like every stored weight
   created_at: string
   updated_at: string
 }
@@ -19,7 +24,7 @@ interface AuthContextType {
   isAuthenticated: boolean
   signIn: (email: string, password: string) => Promise<{ success: boolean; error: string | null }>
   signUp: (email: string, password: string, username: string) => Promise<{ success: boolean; error: string | null; needsVerification: boolean }>
-  signOut: () => Promise<void>
+  signOut: (options?: { discardPending?: boolean }) => Promise<{ success: boolean; error: string | null; pendingChanges: number }>
   updateProfile: (updates: Partial<Profile>) => Promise<{ success: boolean; error: string | null }>
   refreshProfile: () => void
 }
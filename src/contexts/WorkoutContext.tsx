@@ -1,14 +1,19 @@
 // src/contexts/WorkoutContext.tsx
 import React, { createContext, useContext, ReactNode } from 'react'
 import { useWorkout } from '../hooks/useWorkout'
+import { useToast } from './ToastContext'
+import { SyncIssue } from '../lib/mutationQueue'
 import {
+  Exercise,
   Workout,
   WorkoutExercise,
   WorkoutSet,
   WorkoutTemplateWithExercises,
   NewWorkoutSet,
   PreviousSetData,
+  PRType,
 } from '../types/workout'
+import { PR_TYPE_LABELS } from '../utils/personalRecords'
 
 interface WorkoutContextType {
   workout: Workout | null
@@ -16,23 +21,36 @@ interface WorkoutContextType {
   loading: boolean
   error: string | null
   isActive: boolean
-  startWorkout: (template: WorkoutTemplateWithExercises) => Promise<{ success: boolean; error: string | null; workoutId?: string }>
+  pendingSyncCount: number
+  startWorkout: (template: WorkoutTemplateWithExercises, options?: { programDayId?: string }) => Promise<{ success: boolean; error: string | null; workoutId?: string }>
+  startEmptyWorkout: (name?: string) => Promise<{ success: boolean; error: string | null; workoutId?: string }>
   resumeWorkout: (workoutId: string) => Promise<{ success: boolean; error: string | null }>
-  logSet: (workoutExerciseId: string, setData: Omit<NewWorkoutSet, 'workout_exercise_id'>) => Promise<{ success: boolean; error: string | null; set?: WorkoutSet }>
+  logSet: (workoutExerciseId: string, setData: Omit<NewWorkoutSet, 'workout_exercise_id'>) => Promise<{ success: boolean; error: string | null; set?: WorkoutSet; prs?: PRType[] }>
   updateSet: (setId: string, updates: Partial<WorkoutSet>) => Promise<{ success: boolean; error: string | null }>
   deleteSet: (setId: string, workoutExerciseId: string) => Promise<{ success: boolean; error: string | null }>
-  swapExercise: (workoutExerciseId: string, newExerciseId: string) => Promise<{ success: boolean; error: string | null }>
+  swapExercise: (workoutExerciseId: string, newExercise: Exercise) => Promise<{ success: boolean; error: string | null }>
+  addExercise: (exercise: Exercise) => Promise<{ success: boolean; error: string | null; workoutExercise?: WorkoutExercise }>
+  removeExercise: (workoutExerciseId: string) => Promise<{ success: boolean; error: string | null }>
   reorderExercise: (fromIndex: number, toIndex: number) => Promise<void>
-  completeWorkout: (notes?: string) => Promise<{ success: boolean; error: string | null; workout?: Workout }>
+  completeWorkout: (notes?: string) => Promise<{ success: boolean; error: string | null; workout?: Workout; warning?: string | null }>
   abandonWorkout: () => Promise<{ success: boolean; error: string | null }>
   getPreviousSets: (exerciseId: string) => Promise<PreviousSetData[]>
   getWorkoutStats: () => { totalSets: number; totalVolume: number; exerciseCount: number; completedExercises: number }
+  syncPendingChanges: () => Promise<{ remaining: number; issues: SyncIssue[] }>
 }
 
 const WorkoutContext = createContext<WorkoutContextType | undefined>(undefined)
 
 export function WorkoutProvider({ children }: { children: ReactNode }) {
-  const workout = useWorkout()
+  const { showError, showInfo, showSuccess } = useToast()
+  const workout = useWorkout({
+    onSyncIssue: issue =>
+      issue.kind === 'conflict'
+        ? showInfo(`${issue.mutation.description} was skipped: ${issue.message}`)
+        : showError(`${issue.mutation.description} couldn't be saved: ${issue.message}`),
+    onPersonalRecord: ({ exerciseName, types }) =>
+      showSuccess(`New PR! ${exerciseName}: ${types.map(t => PR_TYPE_LABELS[t]).join(', ')}`),
+  })
 
   return (
     <WorkoutContext.Provider value={workout}>
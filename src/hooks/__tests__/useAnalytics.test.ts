@@ -84,9 +84,134 @@ describe('fetchWeeklyVolume', () => {
 
     expect(data).toBeNull()
   })
+  it('credits secondary muscles with a fraction of each set when weighted', async () => {
+    const benchSet = {
+      weight_kg: 100,
+      reps: 5,
+      workout_exercise: {
+        exercise: { primary_muscle_group: 'chest', secondary_muscle_groups: ['triceps'], is_compound: true, equipment: 'barbell' },
+      },
+    }
+    mockSupabaseResponse([benchSet, benchSet, benchSet])   // current week sets
+    mockSupabaseResponse([benchSet])                       // prev week sets
+
+    const { result } = renderHook(() => useAnalytics())
+    let data: any
+    await act(async () => {
+      data = await result.current.fetchWeeklyVolume(undefined, { attribution: 'weighted' })
+    })
+
+    expect(mockFrom).toHaveBeenCalledWith('workout_sets')
+    expect(mockFrom).not.toHaveBeenCalledWith('exercise_volume_by_muscle')
+    const triceps = data.muscle_groups.find((m: any) => m.muscle_group === 'triceps')
+    expect(triceps.total_sets).toBe(1.5)
+    expect(triceps.total_volume_kg).toBe(750)
+    expect(triceps.change_vs_last_week).toBe(200)
+    expect(data.totals.total_sets).toBe(4.5)
+  })
+
+  it('honours a custom secondary fraction', async () => {
+    mockSupabaseResponse([
+      {
+        weight_kg: 60,
+        reps: 8,
+        workout_exercise: [
+          { exercise: [{ primary_muscle_group: 'lats', secondary_muscle_groups: ['biceps'], is_compound: true, equipment: 'cable' }] },
+        ],
+      },
+    ])
+    mockSupabaseResponse([])
+
+    const { result } = renderHook(() => useAnalytics())
+    let data: any
+    await act(async () => {
+      data = await result.current.fetchWeeklyVolume(undefined, { attribution: 'weighted', secondaryFraction: 0.25 })
+    })
+
+    const biceps = data.muscle_groups.find((m: any) => m.muscle_group === 'biceps')
+    expect(biceps.total_sets).toBe(0.25)
+  })
+})
+
+describe('fetchMuscleExercises', () => {
+  const benchSet = {
+    weight_kg: 100,
+    reps: 5,
+    workout_exercise: {
+      exercise: {
+        id: 'ex-bench', name: 'Bench Press',
+        primary_muscle_group: 'chest', secondary_muscle_groups: ['triceps'], is_compound: true, equipment: 'barbell',
+      },
+    },
+  }
+
+  it('lists the exercises that credited a muscle this week', async () => {
+    mockSupabaseResponse([benchSet, benchSet])
+
+    const { result } = renderHook(() => useAnalytics())
+    let exercises: any
+    await act(async () => {
+      exercises = await result.current.fetchMuscleExercises('triceps', undefined, { attribution: 'weighted' })
+    })
+
+    expect(mockFrom).toHaveBeenCalledWith('workout_sets')
+    expect(exercises).toEqual([
+      { exercise_id: 'ex-bench', exercise_name: 'Bench Press', role: 'secondary', sets: 1, volume_kg: 500 },
+    ])
+  })
+
+  it('counts only primary work under direct attribution', async () => {
+    mockSupabaseResponse([benchSet])
+
+    const { result } = renderHook(() => useAnalytics())
+    let exercises: any
+    await act(async () => {
+      exercises = await result.current.fetchMuscleExercises('triceps')
+    })
+
+    expect(exercises).toEqual([])
+  })
 })
 
 describe('fetchGroupedPRs', () => {
+  it('re-estimates e1RM with the profile formula and sorts compounds by it', async () => {
+    mockUseAuthContext.mockReturnValue({ user: { id: 'user-123' }, profile: { e1rm_formula: 'lombardi' } })
+    mockSupabaseResponse([
+      { exercise_id: 'ex-a', exercise_name: 'Front Squat', pr_tier: 'compound', weight_kg: 100, reps: 5, estimated_1rm: 116.7 },
+      { exercise_id: 'ex-b', exercise_name: 'Pendlay Row', pr_tier: 'compound', weight_kg: 85, reps: 12, estimated_1rm: 119 },
+    ])
+
+    const { result } = renderHook(() => useAnalytics())
+    let data: any
+    await act(async () => {
+      data = await result.current.fetchGroupedPRs()
+    })
+
+    // Epley would rank the row first (119 vs 116.7); Lombardi flips it
+    expect(data.compounds.map((pr: any) => pr.exercise_id)).toEqual(['ex-a', 'ex-b'])
+    expect(data.compounds[0].estimated_1rm).toBe(117.5)
+    expect(data.compounds[1].estimated_1rm).toBe(109)
+  })
+
+  it("takes the best e1RM from any of the exercise's records, not just the heaviest", async () => {
+    mockUseAuthContext.mockReturnValue({ user: { id: 'user-123' }, profile: { e1rm_formula: 'epley' } })
+    mockSupabaseResponse([
+      { exercise_id: 'ex-a', exercise_name: 'Front Squat', pr_tier: 'compound', weight_kg: 100, reps: 1, estimated_1rm: 100 },
+    ])
+    mockSupabaseResponse([
+      { exercise_id: 'ex-a', weight_kg: 100, reps: 1 },
+      { exercise_id: 'ex-a', weight_kg: 90, reps: 6 },
+    ])
+
+    const { result } = renderHook(() => useAnalytics())
+    let data: any
+    await act(async () => {
+      data = await result.current.fetchGroupedPRs()
+    })
+
+    expect(data.compounds[0].estimated_1rm).toBe(108)
+  })
+
   it('places squat in big_three.squat', async () => {
     mockSupabaseResponse([
       {
@@ -164,10 +289,15 @@ describe('fetchGroupedPRs', () => {
 
 describe('fetchHomeStats', () => {
   it('returns correct counts from three parallel queries', async () => {
-    // workouts count, volume rows, PRs count
+    // The paged PR read is awaited first, then workouts count and volume rows
+    mockSupabaseResponse([                                         // prsThisMonth = 2
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: null, workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: 's-2', workout_id: 'w-1', exercise_id: 'ex-1' },
+    ])
     mockSupabaseResponse(null, null, 3)                            // thisWeekWorkouts = 3
     mockSupabaseResponse([{ total_volume_kg: 2500 }, { total_volume_kg: 1800 }]) // thisWeekVolumeKg = 4300
-    mockSupabaseResponse(null, null, 2)                            // prsThisMonth = 2
 
     const { result } = renderHook(() => useAnalytics())
     let stats: any
@@ -209,8 +339,13 @@ describe('fetchHomeStats', () => {
 
 describe('fetchProfileStats', () => {
   it('returns aggregated profile stats', async () => {
+    // The paged PR read is awaited first
+    mockSupabaseResponse([                                         // prsAchieved = 2
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: null, workout_id: null, exercise_id: 'ex-2' },
+    ])
     mockSupabaseResponse(null, null, 25)                           // totalWorkouts = 25
-    mockSupabaseResponse(null, null, 12)                           // prsAchieved = 12
     mockSupabaseResponse([{ total_volume_kg: 50000 }, { total_volume_kg: 30000 }]) // totalVolumeKg = 80000
 
     const { result } = renderHook(() => useAnalytics())
@@ -220,7 +355,7 @@ describe('fetchProfileStats', () => {
     })
 
     expect(stats.totalWorkouts).toBe(25)
-    expect(stats.prsAchieved).toBe(12)
+    expect(stats.prsAchieved).toBe(2)
     expect(stats.totalVolumeKg).toBe(80000)
   })
 
@@ -266,6 +401,39 @@ describe('fetchExerciseProgress', () => {
     expect(data.data_points[0].weight_kg).toBe(105)
   })
 
+  it('tracks the best e1RM per day even from a lighter set', async () => {
+    mockSupabaseResponse([
+      {
+        weight_kg: 105,
+        reps: 1,
+        rpe: null,
+        completed_at: '2026-04-18T10:00:00Z',
+        workout_exercise: { exercise: { name: 'Bench Press' }, workout: {} },
+      },
+      {
+        weight_kg: 100,
+        reps: 5,
+        rpe: null,
+        completed_at: '2026-04-18T11:00:00Z',
+        workout_exercise: { exercise: { name: 'Bench Press' }, workout: {} },
+      },
+    ])
+    mockSupabaseResponse(null)
+
+    const { result } = renderHook(() => useAnalytics())
+    let data: any
+    await act(async () => {
+      data = await result.current.fetchExerciseProgress('ex-1')
+    })
+
+    expect(data.data_points[0]).toMatchObject({
+      weight_kg: 105,
+      reps: 1,
+      estimated_1rm: 116.7,
+      estimated_1rm_reps: 5,
+    })
+  })
+
   it('groups progress data by date key', async () => {
     mockSupabaseResponse([
       {
@@ -1,7 +1,17 @@
 import { renderHook, act } from '@testing-library/react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
 import { useAuth } from '../useAuth'
+import { clearMutationQueue, enqueueMutation, getPendingMutations } from '../../lib/mutationQueue'
+import { enqueuePhotoUpload, getPendingPhotoUploads } from '../../lib/progressPhotos'
+import { PendingPhotoUpload } from '../../types/photos'
 
 jest.mock('../../lib/supabase')
+jest.mock('expo-image-manipulator', () => ({ SaveFormat: { JPEG: 'jpeg' }, ImageManipulator: {} }))
+jest.mock('expo-file-system', () => ({
+  File: jest.fn().mockImplementation((uri: string) => ({ uri, exists: true, delete: jest.fn() })),
+  Directory: jest.fn(),
+  Paths: { document: 'documents' },
+}))
 
 const {
   mockSupabaseResponse,
@@ -19,12 +29,14 @@ const MOCK_USER = { id: 'u-1', email: 'test@example.com' }
 const MOCK_SESSION = { user: MOCK_USER }
 const MOCK_PROFILE = { id: 'u-1', username: 'daniel', default_weight_unit: 'kg' as const, created_at: '', updated_at: '' }
 
-beforeEach(() => {
+beforeEach(async () => {
   jest.clearAllMocks()
   resetMockQueue()
   setupChain()
   setupAuth()
   mockFrom.mockReturnValue(mockChain)
+  await clearMutationQueue()
+  await AsyncStorage.clear()
 })
 
 // ── Initial state ─────────────────────────────────────────────────────────────
@@ -247,3 +259,63 @@ describe('lifecycle', () => {
     expect(mockUnsubscribe).toHaveBeenCalledTimes(1)
   })
 })
+
+// ── signOut ───────────────────────────────────────────────────────────────────
+
+describe('signOut', () => {
+  const queueSet = () =>
+    enqueueMutation({
+      table: 'workout_sets',
+      operation: 'insert',
+      rowId: 's-1',
+      values: { reps: 5 },
+      description: 'Bench Press set 1',
+    })
+
+  const PHOTO: PendingPhotoUpload = {
+    id: 'p-1',
+    user_id: 'u-1',
+    taken_on: '2026-04-10',
+    workout_id: null,
+    notes: null,
+    local_uri: 'file:///p-1.jpg',
+    local_thumbnail_uri: 'file:///p-1-thumb.jpg',
+    queued_at: '2026-04-10T08:00:00Z',
+  }
+
+  it('keeps unsynced writes and stays signed in until the user agrees to lose them', async () => {
+    await queueSet()
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' })
+
+    const { result } = renderHook(() => useAuth())
+    await act(async () => {})
+    let outcome: any
+    await act(async () => {
+      outcome = await result.current.signOut()
+    })
+
+    expect(outcome).toMatchObject({ success: false, pendingChanges: 1 })
+    expect(await getPendingMutations()).toHaveLength(1)
+    expect(mockAuth.signOut).not.toHaveBeenCalled()
+    expect(result.current.loading).toBe(false)
+  })
+
+  it('drops queued writes and photos when told to, so the next account never replays them', async () => {
+    await queueSet()
+    await enqueuePhotoUpload(PHOTO)
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' })
+
+    const { result } = renderHook(() => useAuth())
+    await act(async () => {})
+    let outcome: any
+    await act(async () => {
+      outcome = await result.current.signOut({ discardPending: true })
+    })
+
+    expect(outcome).toEqual({ success: true, error: null, pendingChanges: 0 })
+    expect(await getPendingMutations()).toEqual([])
+    expect(await getPendingPhotoUploads()).toEqual([])
+    expect(mockAuth.signOut).toHaveBeenCalled()
+    expect(result.current.user).toBeNull()
+  })
+})
@@ -0,0 +1,118 @@
+import { renderHook, act } from '@testing-library/react-native'
+import { useDataExport } from '../useDataExport'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+
+const mockWrite = jest.fn()
+jest.mock('expo-file-system', () => ({
+  File: jest.fn().mockImplementation(() => ({
+    exists: false,
+    create: jest.fn(),
+    delete: jest.fn(),
+    write: mockWrite,
+    uri: 'file:///cache/export',
+  })),
+  Paths: { cache: 'cache' },
+}))
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn().mockResolvedValue(true),
+  shareAsync: jest.fn().mockResolvedValue(undefined),
+}))
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+const Sharing = jest.requireMock('expo-sharing') as { shareAsync: jest.Mock; isAvailableAsync: jest.Mock }
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const WORKOUT = { id: 'w-1', name: 'Push', started_at: '2026-04-01T10:00:00Z', completed_at: null, notes: null }
+const WORKOUT_EXERCISE = { id: 'we-1', workout_id: 'w-1', exercise_id: 'ex-1', order_index: 0, group_id: null, group_type: null }
+const SETS = [
+  { id: 's-1', workout_exercise_id: 'we-1', set_number: 1, weight_kg: 100, reps: 5, rpe: null, is_warmup: false, is_failure: false, is_dropset: false, completed_at: null },
+  { id: 's-2', workout_exercise_id: 'we-1', set_number: 2, weight_kg: 100, reps: 5, rpe: null, is_warmup: false, is_failure: false, is_dropset: false, completed_at: null },
+]
+const EXERCISE = { id: 'ex-1', name: 'Bench Press', primary_muscle_group: 'chest', equipment: 'barbell' }
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: { id: 'user-123' } })
+})
+
+describe('exportHistory', () => {
+  it('pages through every table and shares the CSV', async () => {
+    mockSupabaseResponse([WORKOUT])          // workouts
+    mockSupabaseResponse([WORKOUT_EXERCISE]) // workout_exercises
+    mockSupabaseResponse(SETS)               // workout_sets
+    mockSupabaseResponse([])                 // personal_records
+    mockSupabaseResponse([EXERCISE])         // exercises
+
+    const { result } = renderHook(() => useDataExport())
+    let res: any
+    await act(async () => {
+      res = await result.current.exportHistory({ fileType: 'csv', range: 'ALL', unit: 'kg' })
+    })
+
+    expect(res).toEqual({ success: true, error: null, setCount: 2 })
+    expect(mockChain.range).toHaveBeenCalledWith(0, 999)
+    expect(mockChain.in).toHaveBeenCalledWith('workout_id', ['w-1'])
+    expect(mockChain.in).toHaveBeenCalledWith('workout_exercise_id', ['we-1'])
+    expect(mockChain.gte).not.toHaveBeenCalled()
+
+    const csv: string = mockWrite.mock.calls[0][0]
+    expect(csv.trim().split('\n')).toHaveLength(4)
+    expect(Sharing.shareAsync).toHaveBeenCalledWith(
+      'file:///cache/export',
+      expect.objectContaining({ mimeType: 'text/csv' })
+    )
+  })
+
+  it('filters by the range start and writes a kg JSON archive', async () => {
+    mockSupabaseResponse([WORKOUT])
+    mockSupabaseResponse([WORKOUT_EXERCISE])
+    mockSupabaseResponse(SETS)
+    mockSupabaseResponse([])
+    mockSupabaseResponse([EXERCISE])
+
+    const { result } = renderHook(() => useDataExport())
+    await act(async () => {
+      await result.current.exportHistory({ fileType: 'json', range: '3M', unit: 'lbs' })
+    })
+
+    expect(mockChain.gte).toHaveBeenCalledWith('started_at', expect.any(String))
+    const archive = JSON.parse(mockWrite.mock.calls[0][0])
+    expect(archive.version).toBe(1)
+    expect(archive.unit).toBe('lbs')
+    expect(archive.tables.workout_sets[0].weight_kg).toBe(100)
+  })
+
+  it('reports an empty range without sharing', async () => {
+    mockSupabaseResponse([]) // workouts
+    mockSupabaseResponse([]) // personal_records
+
+    const { result } = renderHook(() => useDataExport())
+    let res: any
+    await act(async () => {
+      res = await result.current.exportHistory({ fileType: 'csv', range: '1M', unit: 'kg' })
+    })
+
+    expect(res.success).toBe(false)
+    expect(res.error).toBe('Nothing to export in this date range')
+    expect(Sharing.shareAsync).not.toHaveBeenCalled()
+  })
+
+  it('fails when the user is signed out', async () => {
+    mockUseAuthContext.mockReturnValue({ user: null })
+    const { result } = renderHook(() => useDataExport())
+    let res: any
+    await act(async () => {
+      res = await result.current.exportHistory({ fileType: 'csv', range: 'ALL', unit: 'kg' })
+    })
+    expect(res.error).toBe('Not authenticated')
+  })
+})
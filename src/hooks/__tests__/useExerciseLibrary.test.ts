@@ -0,0 +1,142 @@
+import { renderHook, act } from '@testing-library/react-native'
+import { useExerciseLibrary, describeUsage } from '../useExerciseLibrary'
+import { ExerciseFormData } from '../../types/workout'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const MOCK_USER = { id: 'user-123' }
+
+const makeForm = (overrides: Partial<ExerciseFormData> = {}): ExerciseFormData => ({
+  name: '  Landmine Press ',
+  description: '',
+  primary_muscle_group: 'front_delt',
+  secondary_muscle_groups: ['triceps', 'front_delt'],
+  equipment: 'barbell',
+  is_compound: true,
+  ...overrides,
+})
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: MOCK_USER })
+})
+
+describe('createExercise', () => {
+  it('inserts a trimmed row owned by the user', async () => {
+    mockSupabaseResponse([])                                       // name clash check
+    mockSupabaseResponse({ id: 'ex-new', name: 'Landmine Press' }) // insert → single()
+
+    const { result } = renderHook(() => useExerciseLibrary())
+    let res: any
+    await act(async () => {
+      res = await result.current.createExercise(makeForm())
+    })
+
+    expect(res.success).toBe(true)
+    expect(res.exercise.id).toBe('ex-new')
+    expect(mockChain.insert).toHaveBeenCalledWith({
+      name: 'Landmine Press',
+      description: null,
+      primary_muscle_group: 'front_delt',
+      secondary_muscle_groups: ['triceps'],
+      equipment: 'barbell',
+      is_compound: true,
+      created_by: 'user-123',
+    })
+    expect(result.current.exercises).toHaveLength(1)
+  })
+
+  it('rejects a name that already exists', async () => {
+    mockSupabaseResponse([{ id: 'ex-system' }])
+
+    const { result } = renderHook(() => useExerciseLibrary())
+    let res: any
+    await act(async () => {
+      res = await result.current.createExercise(makeForm())
+    })
+
+    expect(res.success).toBe(false)
+    expect(res.error).toBe('An exercise named "Landmine Press" already exists')
+    expect(mockChain.insert).not.toHaveBeenCalled()
+  })
+
+  it('requires a name', async () => {
+    const { result } = renderHook(() => useExerciseLibrary())
+    let res: any
+    await act(async () => {
+      res = await result.current.createExercise(makeForm({ name: '   ' }))
+    })
+
+    expect(res).toEqual({ success: false, error: 'Name is required', exercise: null })
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+})
+
+describe('updateExercise', () => {
+  it('ignores a name match on the exercise being edited', async () => {
+    mockSupabaseResponse([{ id: 'ex-1' }])
+    mockSupabaseResponse({ id: 'ex-1', name: 'Landmine Press' })
+
+    const { result } = renderHook(() => useExerciseLibrary())
+    let res: any
+    await act(async () => {
+      res = await result.current.updateExercise('ex-1', makeForm())
+    })
+
+    expect(res.success).toBe(true)
+    expect(mockChain.eq).toHaveBeenCalledWith('created_by', 'user-123')
+  })
+})
+
+describe('deleteExercise', () => {
+  it('refuses while templates or history reference the exercise', async () => {
+    mockSupabaseResponse(null, null, 2)  // template_exercises
+    mockSupabaseResponse(null, null, 1)  // workout_exercises
+    mockSupabaseResponse(null, null, 0)  // personal_records
+
+    const { result } = renderHook(() => useExerciseLibrary())
+    let res: any
+    await act(async () => {
+      res = await result.current.deleteExercise('ex-1')
+    })
+
+    expect(res.success).toBe(false)
+    expect(res.error).toBe("Used in 2 templates and 1 logged workout, so it can't be deleted.")
+    expect(mockChain.delete).not.toHaveBeenCalled()
+  })
+
+  it('deletes an unused exercise', async () => {
+    mockSupabaseResponse(null, null, 0)
+    mockSupabaseResponse(null, null, 0)
+    mockSupabaseResponse(null, null, 0)
+    mockSupabaseResponse(null)  // delete
+
+    const { result } = renderHook(() => useExerciseLibrary())
+    let res: any
+    await act(async () => {
+      res = await result.current.deleteExercise('ex-1')
+    })
+
+    expect(res).toEqual({ success: true, error: null })
+    expect(mockFrom).toHaveBeenLastCalledWith('exercises')
+    expect(mockChain.delete).toHaveBeenCalled()
+  })
+})
+
+describe('describeUsage', () => {
+  it('lists every kind of reference', () => {
+    expect(describeUsage({ templates: 1, workouts: 3, records: 2 })).toBe(
+      "Used in 1 template, 3 logged workouts and 2 personal records, so it can't be deleted."
+    )
+  })
+})
@@ -0,0 +1,205 @@
+import { renderHook, act } from '@testing-library/react-native'
+import { useHistoryImport } from '../useHistoryImport'
+import { ExerciseMatch } from '../../types/import'
+import { parseImportFile } from '../../utils/historyImport'
+import { getAnalyticsVersion } from '../../lib/analyticsCache'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+jest.mock('expo-document-picker', () => ({ getDocumentAsync: jest.fn() }))
+jest.mock('expo-file-system', () => ({ File: jest.fn() }))
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const CSV = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+  '2024-01-08 18:00:00,Legs,45m,Squat (Barbell),1,140,3,0,0,,,',
+  '2024-01-15 08:30:00,Push,1h,Bench Press (Barbell),1,100,5,0,0,,,',
+  '2024-01-15 08:30:00,Push,1h,Bench Press (Barbell),2,100,5,0,0,,,',
+].join('\n')
+
+const MATCHES: ExerciseMatch[] = [
+  { source_name: 'Bench Press (Barbell)', exercise_id: 'ex-bench', exercise_name: 'Barbell Bench Press', score: 1, status: 'auto', suggestion: null },
+  { source_name: 'Squat (Barbell)', exercise_id: 'ex-squat', exercise_name: 'Barbell Back Squat', score: 0.8, status: 'manual', suggestion: null },
+]
+
+const parsed = parseImportFile(CSV, 'kg')
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: { id: 'user-123' } })
+})
+
+describe('matchExercises', () => {
+  it('matches source names against the library', async () => {
+    mockSupabaseResponse([
+      { id: 'ex-bench', name: 'Barbell Bench Press' },
+      { id: 'ex-curl', name: 'Dumbbell Curl' },
+    ])
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.matchExercises(['Bench Press (Barbell)', 'Zercher Squat'])
+    })
+
+    expect(res.matches[0]).toMatchObject({ status: 'auto', exercise_id: 'ex-bench' })
+    expect(res.matches[1].status).toBe('unmatched')
+  })
+})
+
+describe('previewImport', () => {
+  it('reports workouts already in the history as duplicates', async () => {
+    mockSupabaseResponse([{ started_at: parsed.workouts[0].started_at }])
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.previewImport(parsed, MATCHES)
+    })
+
+    expect(mockFrom).toHaveBeenCalledWith('workouts')
+    expect(mockChain.insert).not.toHaveBeenCalled()
+    expect(res.preview).toMatchObject({ workout_count: 1, duplicate_count: 1, set_count: 2 })
+  })
+})
+
+describe('importHistory', () => {
+  it('inserts each table in batches, then replays PRs for the imported exercises', async () => {
+    mockSupabaseResponse([])   // existing workouts
+    mockSupabaseResponse(null) // workouts insert
+    mockSupabaseResponse(null) // workout_exercises insert
+    mockSupabaseResponse(null) // workout_sets insert
+    mockSupabaseResponse([     // replay: working sets
+      {
+        id: 'set-1', weight_kg: 100, reps: 5, set_number: 1, completed_at: '2024-01-15T08:30:00Z',
+        workout_exercise: { workout_id: 'w-1', exercise_id: 'ex-bench', order_index: 0, workout: { started_at: '2024-01-15T08:30:00Z' } },
+      },
+    ])
+    mockSupabaseResponse([])   // replay: manual records
+    mockSupabaseResponse([{ id: 'pr-old' }]) // replay: detected records being replaced
+    mockSupabaseResponse(null) // replay: insert records
+    mockSupabaseResponse(null) // replay: delete the replaced records
+    const versionBefore = getAnalyticsVersion()
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.importHistory(parsed, MATCHES)
+    })
+
+    expect(res).toEqual({
+      success: true,
+      error: null,
+      result: { workouts: 2, sets: 3, records: 3, exercise_ids: ['ex-squat', 'ex-bench'], records_error: null },
+    })
+
+    const [workoutRows] = mockChain.insert.mock.calls[0]
+    expect(workoutRows).toHaveLength(2)
+    expect(workoutRows[0]).toMatchObject({ user_id: 'user-123', name: 'Legs', status: 'completed' })
+
+    const [exerciseRows] = mockChain.insert.mock.calls[1]
+    expect(exerciseRows.map((r: any) => r.workout_id)).toEqual(workoutRows.map((r: any) => r.id))
+
+    const [setRows] = mockChain.insert.mock.calls[2]
+    expect(setRows).toHaveLength(3)
+    expect(setRows[1]).toMatchObject({ workout_exercise_id: exerciseRows[1].id, set_number: 1, weight_kg: 100 })
+
+    expect(mockChain.in).toHaveBeenCalledWith('workout_exercise.exercise_id', ['ex-squat', 'ex-bench'])
+    expect(mockChain.eq).toHaveBeenCalledWith('is_manual', false)
+    const [recordRows] = mockChain.insert.mock.calls[3]
+    expect(recordRows.map((r: any) => r.pr_type)).toEqual(['weight', 'e1rm', 'volume'])
+    expect(mockChain.in).toHaveBeenLastCalledWith('id', ['pr-old'])
+    expect(mockChain.insert.mock.invocationCallOrder[3])
+      .toBeLessThan(mockChain.delete.mock.invocationCallOrder[0])
+    expect(getAnalyticsVersion()).toBe(versionBefore + 1)
+  })
+
+  it('keeps the previous records when the replayed ones fail to write', async () => {
+    mockSupabaseResponse([])
+    mockSupabaseResponse(null)
+    mockSupabaseResponse(null)
+    mockSupabaseResponse(null)
+    mockSupabaseResponse([
+      {
+        id: 'set-1', weight_kg: 100, reps: 5, set_number: 1, completed_at: '2024-01-15T08:30:00Z',
+        workout_exercise: { workout_id: 'w-1', exercise_id: 'ex-bench', order_index: 0, workout: { started_at: '2024-01-15T08:30:00Z' } },
+      },
+    ])
+    mockSupabaseResponse([])
+    mockSupabaseResponse([{ id: 'pr-old' }])
+    mockSupabaseResponse(null, { message: 'insert failed' })
+
+    const versionBefore = getAnalyticsVersion()
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.importHistory(parsed, MATCHES)
+    })
+
+    const [recordRows] = mockChain.insert.mock.calls[3]
+    expect(mockChain.in).toHaveBeenLastCalledWith('id', recordRows.map((r: any) => r.id))
+    expect(mockChain.in).not.toHaveBeenCalledWith('id', ['pr-old'])
+
+    // The workouts still landed, so that is what gets reported
+    expect(res.success).toBe(true)
+    expect(res.result).toMatchObject({ workouts: 2, records: 0, records_error: expect.any(String) })
+    expect(getAnalyticsVersion()).toBe(versionBefore + 1)
+  })
+
+  it('retries only the PR replay', async () => {
+    mockSupabaseResponse([]) // replay: working sets
+    mockSupabaseResponse([]) // replay: manual records
+    mockSupabaseResponse([]) // replay: detected records being replaced
+    const versionBefore = getAnalyticsVersion()
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.recomputeRecords(['ex-bench'])
+    })
+
+    expect(res).toEqual({ success: true, error: null, records: 0 })
+    expect(mockChain.insert).not.toHaveBeenCalled()
+    expect(mockChain.in).toHaveBeenCalledWith('workout_exercise.exercise_id', ['ex-bench'])
+    expect(getAnalyticsVersion()).toBe(versionBefore + 1)
+  })
+
+  it('removes partially written rows when a batch fails', async () => {
+    mockSupabaseResponse([])
+    mockSupabaseResponse(null)
+    mockSupabaseResponse(null, { message: 'insert failed' })
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.importHistory(parsed, MATCHES)
+    })
+
+    expect(res.success).toBe(false)
+    expect(res.error).toBeTruthy()
+    expect(mockChain.delete).toHaveBeenCalledTimes(3)
+    expect(mockFrom).toHaveBeenLastCalledWith('workouts')
+  })
+
+  it('refuses when every workout is already imported', async () => {
+    mockSupabaseResponse(parsed.workouts.map(w => ({ started_at: w.started_at })))
+
+    const { result } = renderHook(() => useHistoryImport())
+    let res: any
+    await act(async () => {
+      res = await result.current.importHistory(parsed, MATCHES)
+    })
+
+    expect(res.error).toBe('Nothing new to import')
+    expect(mockChain.insert).not.toHaveBeenCalled()
+  })
+})
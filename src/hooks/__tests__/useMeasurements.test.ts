@@ -0,0 +1,105 @@
+import { renderHook, act } from '@testing-library/react-native'
+import { useMeasurements } from '../useMeasurements'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const MOCK_USER = { id: 'user-123' }
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: MOCK_USER })
+})
+
+describe('fetchMeasurements', () => {
+  it('loads the user\'s entries newest first', async () => {
+    mockSupabaseResponse([{ id: 'm-2' }, { id: 'm-1' }])
+
+    const { result } = renderHook(() => useMeasurements())
+    await act(async () => {
+      await result.current.fetchMeasurements()
+    })
+
+    expect(mockFrom).toHaveBeenCalledWith('body_measurements')
+    expect(mockChain.eq).toHaveBeenCalledWith('user_id', 'user-123')
+    expect(mockChain.order).toHaveBeenCalledWith('measured_at', { ascending: false })
+    expect(result.current.measurements).toHaveLength(2)
+  })
+
+  it('surfaces a query error', async () => {
+    mockSupabaseResponse(null, { message: 'boom' })
+
+    const { result } = renderHook(() => useMeasurements())
+    await act(async () => {
+      await result.current.fetchMeasurements()
+    })
+
+    expect(result.current.error).toBeTruthy()
+    expect(result.current.measurements).toEqual([])
+  })
+})
+
+describe('addMeasurement', () => {
+  it('stores only filled fields, converted to kg and cm', async () => {
+    mockSupabaseResponse({ id: 'm-new', measured_at: '2024-03-01T08:00:00Z' })
+
+    const { result } = renderHook(() => useMeasurements())
+    let res: any
+    await act(async () => {
+      res = await result.current.addMeasurement(
+        { measured_at: '2024-03-01T08:00:00Z', notes: ' ', bodyweight_kg: 176.4, waist_cm: 32 },
+        'lbs'
+      )
+    })
+
+    expect(res.success).toBe(true)
+    expect(mockChain.insert).toHaveBeenCalledWith({
+      user_id: 'user-123',
+      measured_at: '2024-03-01T08:00:00Z',
+      notes: null,
+      bodyweight_kg: 80.01,
+      waist_cm: 81.28,
+    })
+    expect(result.current.measurements).toHaveLength(1)
+  })
+
+  it('refuses an empty check-in without touching the database', async () => {
+    const { result } = renderHook(() => useMeasurements())
+    let res: any
+    await act(async () => {
+      res = await result.current.addMeasurement({ measured_at: '2024-03-01T08:00:00Z', notes: '' }, 'kg')
+    })
+
+    expect(res.success).toBe(false)
+    expect(mockChain.insert).not.toHaveBeenCalled()
+  })
+})
+
+describe('deleteMeasurement', () => {
+  it('removes the entry scoped to the user', async () => {
+    mockSupabaseResponse([{ id: 'm-1' }, { id: 'm-2' }])
+    mockSupabaseResponse(null)
+
+    const { result } = renderHook(() => useMeasurements())
+    await act(async () => {
+      await result.current.fetchMeasurements()
+    })
+    let res: any
+    await act(async () => {
+      res = await result.current.deleteMeasurement('m-1')
+    })
+
+    expect(res.success).toBe(true)
+    expect(mockChain.eq).toHaveBeenCalledWith('id', 'm-1')
+    expect(result.current.measurements.map(m => m.id)).toEqual(['m-2'])
+  })
+})
@@ -0,0 +1,117 @@
+import { renderHook, act } from '@testing-library/react-native'
+import { usePrograms } from '../usePrograms'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const MOCK_USER = { id: 'user-123' }
+
+// Push, Rest, Pull across one week of a two-week program
+const makeEnrollment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'enr-1',
+  user_id: MOCK_USER.id,
+  program_id: 'prog-1',
+  status: 'active',
+  current_day_index: 1,
+  last_advanced_at: new Date().toISOString(),
+  started_at: '2026-04-01T00:00:00Z',
+  completed_at: null,
+  program: {
+    id: 'prog-1',
+    name: 'Test Block',
+    weeks: 2,
+    program_days: [
+      { id: 'd3', week_number: 1, day_number: 3, template_id: 'tpl-pull' },
+      { id: 'd1', week_number: 1, day_number: 1, template_id: 'tpl-push' },
+      { id: 'd2', week_number: 1, day_number: 2, template_id: null },
+    ],
+  },
+  ...overrides,
+})
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: MOCK_USER })
+})
+
+describe('fetchTodaySession', () => {
+  it('returns null when the user has no active program', async () => {
+    mockSupabaseResponse([])
+
+    const { result } = renderHook(() => usePrograms())
+    let session: any
+    await act(async () => { session = await result.current.fetchTodaySession() })
+
+    expect(session).toBeNull()
+  })
+
+  it('shows a rest day reached today as the current slot', async () => {
+    mockSupabaseResponse([makeEnrollment()])
+
+    const { result } = renderHook(() => usePrograms())
+    let session: any
+    await act(async () => { session = await result.current.fetchTodaySession() })
+
+    expect(session.isRestDay).toBe(true)
+    expect(session.day.id).toBe('d2')
+    expect(session.weekNumber).toBe(1)
+    expect(session.totalWeeks).toBe(2)
+    expect(session.template).toBeNull()
+  })
+
+  it('moves past a rest day from a previous calendar day and loads the template', async () => {
+    const yesterday = new Date()
+    yesterday.setDate(yesterday.getDate() - 1)
+    mockSupabaseResponse([makeEnrollment({ last_advanced_at: yesterday.toISOString() })])
+    mockSupabaseResponse({
+      id: 'tpl-pull',
+      name: 'Pull A',
+      template_exercises: [{ id: 'te-2', order_index: 1 }, { id: 'te-1', order_index: 0 }],
+    })
+
+    const { result } = renderHook(() => usePrograms())
+    let session: any
+    await act(async () => { session = await result.current.fetchTodaySession() })
+
+    expect(session.isRestDay).toBe(false)
+    expect(session.dayIndex).toBe(2)
+    expect(session.template.name).toBe('Pull A')
+    expect(session.template.template_exercises.map((te: any) => te.id)).toEqual(['te-1', 'te-2'])
+  })
+})
+
+describe('enrol', () => {
+  it('abandons the current enrollment before inserting the new one', async () => {
+    mockSupabaseResponse(null)
+    mockSupabaseResponse(null)
+
+    const { result } = renderHook(() => usePrograms())
+    let res: any
+    await act(async () => { res = await result.current.enrol('prog-2') })
+
+    expect(res.success).toBe(true)
+    expect(mockChain.update).toHaveBeenCalledWith({ status: 'abandoned' })
+    expect(mockChain.insert).toHaveBeenCalledWith({ user_id: MOCK_USER.id, program_id: 'prog-2' })
+  })
+
+  it('surfaces insert errors', async () => {
+    mockSupabaseResponse(null)
+    mockSupabaseResponse(null, { message: 'duplicate key' })
+
+    const { result } = renderHook(() => usePrograms())
+    let res: any
+    await act(async () => { res = await result.current.enrol('prog-2') })
+
+    expect(res.success).toBe(false)
+    expect(result.current.error).toBeTruthy()
+  })
+})
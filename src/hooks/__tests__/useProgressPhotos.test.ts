@@ -0,0 +1,235 @@
+import { renderHook, act } from '@testing-library/react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import NetInfo from '@react-native-community/netinfo'
+import { useProgressPhotos } from '../useProgressPhotos'
+import { PHOTO_QUEUE_STORAGE_KEY } from '../../lib/progressPhotos'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+
+jest.mock('expo-image-picker', () => ({
+  requestCameraPermissionsAsync: jest.fn(),
+  requestMediaLibraryPermissionsAsync: jest.fn(),
+  launchCameraAsync: jest.fn(),
+  launchImageLibraryAsync: jest.fn(),
+}))
+
+jest.mock('expo-image-manipulator', () => {
+  let rendered = 0
+  return {
+    SaveFormat: { JPEG: 'jpeg' },
+    ImageManipulator: {
+      manipulate: jest.fn(() => ({
+        resize: jest.fn(),
+        renderAsync: jest.fn(() =>
+          Promise.resolve({ saveAsync: jest.fn(() => Promise.resolve({ uri: `file:///cache/render-${++rendered}.jpg` })) })
+        ),
+      })),
+    },
+  }
+})
+
+jest.mock('expo-file-system', () => ({
+  File: jest.fn().mockImplementation((dirOrUri: any, name?: string) => ({
+    uri: name ? `file:///documents/progress-photos/${name}` : dirOrUri,
+    exists: true,
+    move: jest.fn(),
+    delete: jest.fn(),
+    bytes: jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+  })),
+  Directory: jest.fn().mockImplementation(() => ({ create: jest.fn() })),
+  Paths: { document: 'documents' },
+}))
+
+const {
+  mockSupabaseResponse,
+  resetMockQueue,
+  mockFrom,
+  mockChain,
+  setupChain,
+  mockStorageBucket,
+  mockStorageFrom,
+  setupStorage,
+} = jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+const ImagePicker = jest.requireMock('expo-image-picker') as Record<string, jest.Mock>
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const MOCK_USER = { id: 'user-123' }
+
+const PHOTO_ROW = {
+  id: 'p-1',
+  user_id: 'user-123',
+  taken_on: '2026-04-01',
+  workout_id: null,
+  storage_path: 'user-123/p-1.jpg',
+  thumbnail_path: 'user-123/p-1_thumb.jpg',
+  notes: null,
+  created_at: '2026-04-01T08:00:00Z',
+}
+
+function goOffline() {
+  const listeners = (NetInfo.addEventListener as jest.Mock).mock.calls.map(c => c[0])
+  listeners.forEach(cb => cb({ isConnected: false }))
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  setupStorage()
+  mockFrom.mockReturnValue(mockChain)
+  mockStorageFrom.mockReturnValue(mockStorageBucket)
+  mockUseAuthContext.mockReturnValue({ user: MOCK_USER })
+  await AsyncStorage.clear()
+})
+
+describe('fetchPhotos', () => {
+  it('signs both paths of each uploaded photo', async () => {
+    mockSupabaseResponse([PHOTO_ROW])
+
+    const { result } = renderHook(() => useProgressPhotos())
+    await act(async () => {
+      await result.current.fetchPhotos()
+    })
+
+    expect(mockStorageFrom).toHaveBeenCalledWith('progress-photos')
+    expect(mockStorageBucket.createSignedUrls).toHaveBeenCalledWith(
+      ['user-123/p-1.jpg', 'user-123/p-1_thumb.jpg'],
+      3600
+    )
+    expect(result.current.photos[0]).toMatchObject({
+      id: 'p-1',
+      pending: false,
+      url: 'https://signed/user-123/p-1.jpg',
+      thumbnail_url: 'https://signed/user-123/p-1_thumb.jpg',
+    })
+  })
+})
+
+describe('addPhoto', () => {
+  it('uploads the photo and thumbnail under the user folder, then records it', async () => {
+    const { result } = renderHook(() => useProgressPhotos())
+    mockSupabaseResponse(null)          // progress_photos upsert
+    mockSupabaseResponse([PHOTO_ROW])   // gallery refresh
+
+    let res: any
+    await act(async () => {
+      res = await result.current.addPhoto({
+        uri: 'file:///picked.jpg',
+        width: 4032,
+        taken_on: '2026-04-01',
+        workout_id: 'w-1',
+        notes: '  front ',
+      })
+    })
+
+    expect(res).toEqual({ success: true, error: null, queued: false })
+    const uploadedPaths = mockStorageBucket.upload.mock.calls.map((c: any[]) => c[0])
+    expect(uploadedPaths).toHaveLength(2)
+    expect(uploadedPaths.every((p: string) => p.startsWith('user-123/'))).toBe(true)
+    expect(uploadedPaths[1]).toMatch(/_thumb\.jpg$/)
+    expect(mockChain.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'user-123', workout_id: 'w-1', notes: 'front', taken_on: '2026-04-01' }),
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+    expect(await AsyncStorage.getItem(PHOTO_QUEUE_STORAGE_KEY)).toBe('[]')
+  })
+
+  it('keeps the photo queued and visible while offline', async () => {
+    const { result } = renderHook(() => useProgressPhotos())
+    await act(async () => {
+      goOffline()
+    })
+    mockSupabaseResponse(null, { message: 'Network request failed' })   // gallery refresh fails
+
+    let res: any
+    await act(async () => {
+      res = await result.current.addPhoto({
+        uri: 'file:///picked.jpg',
+        width: 800,
+        taken_on: '2026-04-02',
+        workout_id: null,
+        notes: '',
+      })
+    })
+
+    expect(res.queued).toBe(true)
+    expect(mockStorageBucket.upload).not.toHaveBeenCalled()
+    expect(result.current.pendingCount).toBe(1)
+    expect(result.current.photos).toHaveLength(1)
+    expect(result.current.photos[0]).toMatchObject({ pending: true, taken_on: '2026-04-02' })
+  })
+
+  it('leaves the photo queued when the upload fails in transit', async () => {
+    mockStorageBucket.upload.mockResolvedValue({ data: null, error: { message: 'fetch failed' } })
+    const { result } = renderHook(() => useProgressPhotos())
+    mockSupabaseResponse([])   // gallery refresh
+
+    let res: any
+    await act(async () => {
+      res = await result.current.addPhoto({
+        uri: 'file:///picked.jpg',
+        width: 800,
+        taken_on: '2026-04-02',
+        workout_id: null,
+        notes: '',
+      })
+    })
+
+    expect(res.queued).toBe(true)
+    expect(mockChain.upsert).not.toHaveBeenCalled()
+    expect(JSON.parse((await AsyncStorage.getItem(PHOTO_QUEUE_STORAGE_KEY))!)).toHaveLength(1)
+  })
+})
+
+describe('pickPhoto', () => {
+  it('explains a denied permission', async () => {
+    ImagePicker.requestCameraPermissionsAsync.mockResolvedValue({ granted: false })
+
+    const { result } = renderHook(() => useProgressPhotos())
+    let res: any
+    await act(async () => {
+      res = await result.current.pickPhoto('camera')
+    })
+
+    expect(res.success).toBe(false)
+    expect(res.error).toMatch(/camera/)
+    expect(ImagePicker.launchCameraAsync).not.toHaveBeenCalled()
+  })
+
+  it('returns null when the picker is cancelled', async () => {
+    ImagePicker.requestMediaLibraryPermissionsAsync.mockResolvedValue({ granted: true })
+    ImagePicker.launchImageLibraryAsync.mockResolvedValue({ canceled: true, assets: null })
+
+    const { result } = renderHook(() => useProgressPhotos())
+    let res: any
+    await act(async () => {
+      res = await result.current.pickPhoto('library')
+    })
+
+    expect(res).toEqual({ success: true, error: null, photo: null })
+  })
+})
+
+describe('deletePhoto', () => {
+  it('deletes the row, then both stored files', async () => {
+    mockSupabaseResponse([PHOTO_ROW])
+    mockSupabaseResponse(null)
+
+    const { result } = renderHook(() => useProgressPhotos())
+    await act(async () => {
+      await result.current.fetchPhotos()
+    })
+    let res: any
+    await act(async () => {
+      res = await result.current.deletePhoto(result.current.photos[0])
+    })
+
+    expect(res.success).toBe(true)
+    expect(mockChain.delete).toHaveBeenCalled()
+    expect(mockStorageBucket.remove).toHaveBeenCalledWith(['user-123/p-1.jpg', 'user-123/p-1_thumb.jpg'])
+    expect(result.current.photos).toHaveLength(0)
+  })
+})
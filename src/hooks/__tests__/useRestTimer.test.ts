@@ -0,0 +1,135 @@
+import { renderHook, act, waitFor } from '@testing-library/react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as Notifications from 'expo-notifications'
+import { AppState, Vibration } from 'react-native'
+import { useRestTimer } from '../useRestTimer'
+import { REST_TIMER_STORAGE_KEY } from '../../lib/restTimer'
+
+jest.mock('expo-notifications')
+
+const NOW = new Date('2026-01-01T10:00:00Z').getTime()
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: NOW })
+  jest.clearAllMocks()
+  await AsyncStorage.clear()
+  ;(Notifications.getPermissionsAsync as jest.Mock).mockResolvedValue({ granted: true, canAskAgain: true })
+  ;(Notifications.scheduleNotificationAsync as jest.Mock).mockResolvedValue('n-1')
+  ;(Notifications.cancelScheduledNotificationAsync as jest.Mock).mockResolvedValue(undefined)
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+async function storedTimer() {
+  const raw = await AsyncStorage.getItem(REST_TIMER_STORAGE_KEY)
+  return raw ? JSON.parse(raw) : null
+}
+
+describe('useRestTimer', () => {
+  it('persists the end time and schedules a notification on start', async () => {
+    const { result } = renderHook(() => useRestTimer())
+
+    await act(async () => { await result.current.start(90) })
+
+    expect(result.current.isActive).toBe(true)
+    expect(result.current.remainingSeconds).toBe(90)
+    expect(await storedTimer()).toEqual({
+      endsAt: NOW + 90_000,
+      pausedRemaining: null,
+      duration: 90,
+      notificationId: 'n-1',
+    })
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1)
+  })
+
+  it('derives the remaining time from the clock rather than counting ticks', async () => {
+    const { result } = renderHook(() => useRestTimer())
+    await act(async () => { await result.current.start(60) })
+
+    // Simulate the JS thread being suspended: the clock moves, no ticks run
+    jest.setSystemTime(NOW + 42_000)
+    act(() => { jest.advanceTimersByTime(1000) })
+
+    expect(result.current.remainingSeconds).toBe(17)
+  })
+
+  it('restores a running timer from storage on mount', async () => {
+    await AsyncStorage.setItem(
+      REST_TIMER_STORAGE_KEY,
+      JSON.stringify({ endsAt: NOW + 30_000, pausedRemaining: null, duration: 120, notificationId: 'n-9' })
+    )
+
+    const { result } = renderHook(() => useRestTimer())
+
+    await waitFor(() => expect(result.current.isActive).toBe(true))
+    expect(result.current.remainingSeconds).toBe(30)
+    expect(result.current.duration).toBe(120)
+  })
+
+  it('drops a stored timer that already ran out', async () => {
+    await AsyncStorage.setItem(
+      REST_TIMER_STORAGE_KEY,
+      JSON.stringify({ endsAt: NOW - 5_000, pausedRemaining: null, duration: 60, notificationId: null })
+    )
+
+    const { result } = renderHook(() => useRestTimer())
+
+    await waitFor(async () => expect(await storedTimer()).toBeNull())
+    expect(result.current.isActive).toBe(false)
+  })
+
+  it('pausing freezes the remaining time and cancels the notification', async () => {
+    const { result } = renderHook(() => useRestTimer())
+    await act(async () => { await result.current.start(60) })
+
+    jest.setSystemTime(NOW + 20_000)
+    await act(async () => { await result.current.togglePause() })
+
+    expect(result.current.isPaused).toBe(true)
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('n-1')
+
+    jest.setSystemTime(NOW + 50_000)
+    act(() => { jest.advanceTimersByTime(1000) })
+    expect(result.current.remainingSeconds).toBe(40)
+  })
+
+  it('adjust moves the end time and reschedules the notification', async () => {
+    const { result } = renderHook(() => useRestTimer())
+    await act(async () => { await result.current.start(60) })
+
+    await act(async () => { await result.current.adjust(15) })
+
+    expect(result.current.remainingSeconds).toBe(75)
+    expect(result.current.duration).toBe(75)
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(2)
+    expect((await storedTimer()).endsAt).toBe(NOW + 75_000)
+  })
+
+  it('vibrates and clears itself when the rest is over', async () => {
+    const vibrate = jest.spyOn(Vibration, 'vibrate').mockImplementation(() => {})
+    // The react-native jest preset stubs currentState out
+    Object.defineProperty(AppState, 'currentState', { value: 'active', configurable: true })
+    const { result } = renderHook(() => useRestTimer())
+    await act(async () => { await result.current.start(2) })
+
+    jest.setSystemTime(NOW + 2_000)
+    await act(async () => { jest.advanceTimersByTime(1000) })
+
+    expect(vibrate).toHaveBeenCalled()
+    expect(result.current.isActive).toBe(false)
+    expect(await storedTimer()).toBeNull()
+  })
+
+  it('stop cancels the notification and clears storage', async () => {
+    const { result } = renderHook(() => useRestTimer())
+    await act(async () => { await result.current.start(60) })
+
+    await act(async () => { await result.current.stop() })
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('n-1')
+    expect(result.current.isActive).toBe(false)
+    expect(await storedTimer()).toBeNull()
+  })
+})
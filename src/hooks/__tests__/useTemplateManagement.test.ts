@@ -22,6 +22,11 @@ const makeExercise = (overrides = {}): TemplateExerciseFormData => ({
   target_reps: 10,
   target_rpe: null,
   rest_seconds: 90,
+  warmup_enabled: true,
+  load_basis: null,
+  set_percentages: null,
+  group_id: null,
+  group_type: null,
   notes: null,
   ...overrides,
 })
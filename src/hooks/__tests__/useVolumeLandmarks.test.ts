@@ -0,0 +1,82 @@
+import { renderHook, act, waitFor } from '@testing-library/react-native'
+import { useVolumeLandmarks } from '../useVolumeLandmarks'
+import { DEFAULT_VOLUME_LANDMARKS } from '../../utils/volumeLandmarks'
+
+jest.mock('../../lib/supabase')
+jest.mock('../../contexts/AuthContext')
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
+
+import * as AuthContextModule from '../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: { id: 'user-123' } })
+})
+
+describe('useVolumeLandmarks', () => {
+  it('overlays stored rows on the defaults', async () => {
+    mockSupabaseResponse([{ muscle_group: 'chest', mev: 10, mav: 18, mrv: 24 }])
+
+    const { result } = renderHook(() => useVolumeLandmarks())
+    await waitFor(() => expect(result.current.landmarks.chest).toEqual({ mev: 10, mav: 18, mrv: 24 }))
+
+    expect(mockFrom).toHaveBeenCalledWith('volume_landmarks')
+    expect(mockChain.eq).toHaveBeenCalledWith('user_id', 'user-123')
+    expect(result.current.landmarks.biceps).toEqual(DEFAULT_VOLUME_LANDMARKS.biceps)
+    expect(Object.keys(result.current.customised)).toEqual(['chest'])
+  })
+
+  it('upserts one row per muscle', async () => {
+    mockSupabaseResponse([])
+    const { result } = renderHook(() => useVolumeLandmarks())
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    mockSupabaseResponse(null)
+    let res: any
+    await act(async () => {
+      res = await result.current.saveLandmarks('lats', { mev: 10, mav: 16, mrv: 22 })
+    })
+
+    expect(res).toEqual({ success: true, error: null })
+    expect(mockChain.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'user-123', muscle_group: 'lats', mev: 10, mav: 16, mrv: 22 }),
+      { onConflict: 'user_id,muscle_group' }
+    )
+    expect(result.current.landmarks.lats).toEqual({ mev: 10, mav: 16, mrv: 22 })
+  })
+
+  it('rejects out-of-order values without writing', async () => {
+    mockSupabaseResponse([])
+    const { result } = renderHook(() => useVolumeLandmarks())
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    let res: any
+    await act(async () => {
+      res = await result.current.saveLandmarks('lats', { mev: 20, mav: 16, mrv: 22 })
+    })
+
+    expect(res.success).toBe(false)
+    expect(mockChain.upsert).not.toHaveBeenCalled()
+  })
+
+  it('resets a muscle back to the defaults', async () => {
+    mockSupabaseResponse([{ muscle_group: 'chest', mev: 10, mav: 18, mrv: 24 }])
+    const { result } = renderHook(() => useVolumeLandmarks())
+    await waitFor(() => expect(result.current.customised.chest).toBeDefined())
+
+    mockSupabaseResponse(null)
+    await act(async () => {
+      await result.current.resetLandmarks('chest')
+    })
+
+    expect(mockChain.delete).toHaveBeenCalled()
+    expect(mockChain.eq).toHaveBeenCalledWith('muscle_group', 'chest')
+    expect(result.current.landmarks.chest).toEqual(DEFAULT_VOLUME_LANDMARKS.chest)
+  })
+})
@@ -1,14 +1,20 @@
-import { renderHook, act } from '@testing-library/react-native'
+import { renderHook, act, waitFor } from '@testing-library/react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
 import { useWorkout } from '../useWorkout'
+import { clearMutationQueue, getPendingMutations } from '../../lib/mutationQueue'
+import { PROGRAM_ADVANCE_STORAGE_KEY } from '../usePrograms'
 
 jest.mock('../../lib/supabase')
 jest.mock('../../contexts/AuthContext')
+jest.mock('../useNetworkStatus')
 
 const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
   jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
 
 import * as AuthContextModule from '../../contexts/AuthContext'
+import * as NetworkStatusModule from '../useNetworkStatus'
 const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+const mockUseNetworkStatus = NetworkStatusModule.useNetworkStatus as jest.Mock
 
 const MOCK_USER = { id: 'user-123' }
 
@@ -37,22 +43,33 @@ const makeTemplate = (): any => ({
   ],
 })
 
-beforeEach(() => {
+const makeTwoExerciseTemplate = (): any => ({
+  id: 'tpl-2',
+  name: 'Full Body',
+  description: null,
+  created_by: MOCK_USER.id,
+  estimated_duration_minutes: 60,
+  created_at: '2026-01-01',
+  updated_at: '2026-01-01',
+  template_exercises: [
+    { id: 'te-1', template_id: 'tpl-2', exercise_id: 'ex-1', order_index: 0, target_sets: 3, target_reps: 8, target_rpe: null, rest_seconds: 90, notes: null, created_at: '2026-01-01', exercise: { id: 'ex-1', name: 'Bench Press' } },
+    { id: 'te-2', template_id: 'tpl-2', exercise_id: 'ex-2', order_index: 1, target_sets: 3, target_reps: 8, target_rpe: null, rest_seconds: 90, notes: null, created_at: '2026-01-01', exercise: { id: 'ex-2', name: 'Squat' } },
+  ],
+})
+
+beforeEach(async () => {
   jest.clearAllMocks()
   resetMockQueue()
   setupChain()
   mockFrom.mockReturnValue(mockChain)
   mockUseAuthContext.mockReturnValue({ user: MOCK_USER })
+  mockUseNetworkStatus.mockReturnValue({ isConnected: true })
+  await clearMutationQueue()
+  await AsyncStorage.clear()
 })
 
 describe('startWorkout', () => {
-  it('creates workout then inserts exercises and returns workoutId', async () => {
-    const workout = { id: 'w-1', user_id: MOCK_USER.id, name: 'Push Day', status: 'in_progress' }
-    const exercises = [{ id: 'we-1', exercise_id: 'ex-1', order_index: 0, exercise: {} }]
-
-    mockSupabaseResponse(workout)    // workouts insert → single()
-    mockSupabaseResponse(exercises)  // workout_exercises insert → single() (select returns array)
-
+  it('creates the workout and its exercises locally and queues their inserts', async () => {
     const { result } = renderHook(() => useWorkout())
     let res: any
     await act(async () => {
@@ -60,9 +77,20 @@ describe('startWorkout', () => {
     })
 
     expect(res.success).toBe(true)
-    expect(res.workoutId).toBe('w-1')
+    expect(res.workoutId).toBe(result.current.workout?.id)
+    expect(result.current.exercises[0]).toMatchObject({
+      workout_id: res.workoutId,
+      exercise_id: 'ex-1',
+      template_exercise_id: 'te-1',
+      exercise: { name: 'Bench Press' },
+    })
     expect(mockFrom).toHaveBeenNthCalledWith(1, 'workouts')
     expect(mockFrom).toHaveBeenNthCalledWith(2, 'workout_exercises')
+    expect(mockChain.upsert.mock.calls[0][0]).toMatchObject({
+      id: res.workoutId,
+      template_id: 'tpl-1',
+      status: 'in_progress',
+    })
   })
 
   it('returns success: false when not authenticated', async () => {
@@ -78,17 +106,73 @@ describe('startWorkout', () => {
     expect(mockFrom).not.toHaveBeenCalled()
   })
 
-  it('surfaces workout insert error', async () => {
-    mockSupabaseResponse(null, { message: 'Insert failed' })
-
-    const { result } = renderHook(() => useWorkout())
+  it('starts without signal and syncs the workout before its exercises on reconnect', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result, rerender } = renderHook(() => useWorkout())
     let res: any
     await act(async () => {
       res = await result.current.startWorkout(makeTemplate())
     })
 
-    expect(res.success).toBe(false)
-    expect(res.error).toBeTruthy()
+    expect(res.success).toBe(true)
+    expect(result.current.isActive).toBe(true)
+    expect(mockFrom).not.toHaveBeenCalled()
+    expect((await getPendingMutations()).map(m => [m.table, m.operation])).toEqual([
+      ['workouts', 'insert'],
+      ['workout_exercises', 'insert'],
+    ])
+
+    mockUseNetworkStatus.mockReturnValue({ isConnected: true })
+    rerender({})
+
+    await waitFor(() => expect(result.current.pendingSyncCount).toBe(0))
+    expect(mockFrom.mock.calls.map((c: any[]) => c[0])).toEqual(['workouts', 'workout_exercises'])
+  })
+
+  it('links the workout to a program day when started from a program', async () => {
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.startWorkout(makeTemplate(), { programDayId: 'day-1' })
+    })
+
+    expect(mockChain.upsert.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ template_id: 'tpl-1', program_day_id: 'day-1' })
+    )
+  })
+
+  it('resolves percentage targets to plate-rounded weights', async () => {
+    const template = makeTemplate()
+    template.template_exercises[0].load_basis = 'training_max'
+    template.template_exercises[0].set_percentages = [65, 80, 85]
+    template.template_exercises[0].exercise.equipment = 'barbell'
+
+    mockSupabaseResponse(null)                                         // workouts upsert
+    mockSupabaseResponse(null)                                         // workout_exercises upsert
+    mockSupabaseResponse([])                                           // exercise_maxes
+    mockSupabaseResponse([{ exercise_id: 'ex-1', weight_kg: 150, reps: 1 }])  // personal_records
+
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.startWorkout(template)
+    })
+
+    // No stored maxes: TM is 90% of the 150kg PR
+    expect((result.current.exercises[0] as any).percentageTargets).toEqual({
+      basis: 'training_max',
+      basisKg: 135,
+      percentages: [65, 80, 85],
+      weightsKg: [87.5, 107.5, 115],
+    })
+  })
+
+  it('skips the max lookup for templates without percentages', async () => {
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.startWorkout(makeTemplate())
+    })
+
+    expect(mockFrom).not.toHaveBeenCalledWith('exercise_maxes')
+    expect((result.current.exercises[0] as any).percentageTargets).toBeNull()
   })
 })
 
@@ -107,28 +191,260 @@ describe('logSet', () => {
 
   it('inserts set and returns it after workout is started', async () => {
     // Start workout first
-    const workout = { id: 'w-1', user_id: MOCK_USER.id, name: 'Push Day', status: 'in_progress' }
-    const exercises = [{ id: 'we-1', exercise_id: 'ex-1', order_index: 0, exercise: {} }]
-    mockSupabaseResponse(workout)
-    mockSupabaseResponse(exercises)
-
     const { result } = renderHook(() => useWorkout())
     await act(async () => {
       await result.current.startWorkout(makeTemplate())
     })
+    const workoutExerciseId = result.current.exercises[0].id
 
     // Now log a set
-    const newSet = { id: 's-1', workout_exercise_id: 'we-1', set_number: 1, weight_kg: 100, reps: 5 }
-    mockSupabaseResponse(newSet)
-
     let logRes: any
     await act(async () => {
-      logRes = await result.current.logSet('we-1', { set_number: 1, weight_kg: 100, reps: 5 })
+      logRes = await result.current.logSet(workoutExerciseId, { set_number: 1, weight_kg: 100, reps: 5 })
     })
 
     expect(logRes.success).toBe(true)
-    expect(logRes.set.id).toBe('s-1')
+    expect(logRes.set.id).toEqual(expect.any(String))
     expect(mockFrom).toHaveBeenCalledWith('workout_sets')
+    // The client-generated id is what gets written to the server
+    const setRow = mockChain.upsert.mock.calls
+      .map((c: any[]) => c[0])
+      .find((row: any) => row.workout_exercise_id === workoutExerciseId)
+    expect(setRow.id).toBe(logRes.set.id)
+  })
+
+  it('detects PRs against history, queues a record per type and announces them', async () => {
+    const onPersonalRecord = jest.fn()
+    const { result } = renderHook(() => useWorkout({ onPersonalRecord }))
+    await act(async () => {
+      await result.current.startWorkout(makeTemplate())
+    })
+
+    mockSupabaseResponse(null)  // workout_sets upsert
+    mockSupabaseResponse([      // history: best was 90kg × 5 in one session
+      { weight_kg: 90, reps: 5, workout_exercise: { workout_id: 'w-0' } },
+    ])
+    mockSupabaseResponse([])    // personal_records baseline
+
+    let logRes: any
+    await act(async () => {
+      logRes = await result.current.logSet(result.current.exercises[0].id, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+
+    // 100kg was never lifted before, so no reps-at-weight record
+    expect(logRes.prs).toEqual(['weight', 'e1rm', 'volume'])
+    expect(mockFrom).toHaveBeenCalledWith('personal_records')
+    const prRows = mockChain.upsert.mock.calls.map((c: any[]) => c[0]).filter((row: any) => row.pr_type)
+    expect(prRows.map((row: any) => row.pr_type)).toEqual(['weight', 'e1rm', 'volume'])
+    expect(prRows[0]).toMatchObject({
+      workout_id: result.current.workout?.id,
+      workout_set_id: logRes.set.id,
+      weight_kg: 100,
+    })
+    expect(prRows[2]).toMatchObject({ volume: 500, workout_set_id: null })
+    expect(onPersonalRecord).toHaveBeenCalledWith(
+      expect.objectContaining({ exerciseName: 'Bench Press', types: ['weight', 'e1rm', 'volume'] })
+    )
+  })
+})
+
+describe('updateSet', () => {
+  it('drops the records a corrected set no longer earns', async () => {
+    const history = [{ weight_kg: 120, reps: 5, workout_exercise: { workout_id: 'w-0' } }]
+    const onPersonalRecord = jest.fn()
+    const { result } = renderHook(() => useWorkout({ onPersonalRecord }))
+    await act(async () => { await result.current.startWorkout(makeTemplate()) })
+
+    mockSupabaseResponse(null)     // workout_sets upsert
+    mockSupabaseResponse(history)  // PR baseline: sets
+    mockSupabaseResponse([])       // PR baseline: records
+    let logged: any
+    await act(async () => {
+      logged = await result.current.logSet(result.current.exercises[0].id, { set_number: 1, weight_kg: 1000, reps: 5 })
+    })
+    expect(logged.prs).toEqual(['weight', 'e1rm', 'volume'])
+
+    mockChain.eq.mockClear()
+    mockChain.upsert.mockClear()
+    mockSupabaseResponse([{ id: logged.set.id }])  // workout_sets update
+    mockSupabaseResponse(null)                     // the set's PR rows
+    mockSupabaseResponse(null)                     // the session-volume PR row
+    mockSupabaseResponse(history)
+    mockSupabaseResponse([])
+    await act(async () => {
+      await result.current.updateSet(logged.set.id, { weight_kg: 100 })
+    })
+
+    expect(mockChain.eq).toHaveBeenCalledWith('workout_set_id', logged.set.id)
+    expect(mockChain.eq).toHaveBeenCalledWith('pr_type', 'volume')
+    // 100kg × 5 is below the 120kg history, so nothing is recorded again
+    expect(mockChain.upsert).not.toHaveBeenCalled()
+    expect(onPersonalRecord).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('offline queue', () => {
+  // Returns the workout_exercise id of the template's only exercise
+  async function startOffline(hook: any): Promise<string> {
+    await act(async () => { await hook.current.startWorkout(makeTemplate()) })
+    return hook.current.exercises[0].id
+  }
+
+  it('applies the set locally and persists it without calling supabase when offline', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result } = renderHook(() => useWorkout())
+    const workoutExerciseId = await startOffline(result)
+    mockFrom.mockClear()
+
+    let res: any
+    await act(async () => {
+      res = await result.current.logSet(workoutExerciseId, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+
+    expect(res.success).toBe(true)
+    expect(result.current.exercises[0].sets).toHaveLength(1)
+    expect(result.current.pendingSyncCount).toBe(3) // workout, exercise, set
+    expect(mockFrom).not.toHaveBeenCalled()
+
+    const pending = await getPendingMutations()
+    expect(pending.map(m => m.table)).toEqual(['workouts', 'workout_exercises', 'workout_sets'])
+    expect(pending[2]).toMatchObject({ table: 'workout_sets', operation: 'insert', rowId: res.set.id })
+  })
+
+  it('replays queued mutations in order when connectivity returns', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result, rerender } = renderHook(() => useWorkout())
+    const workoutExerciseId = await startOffline(result)
+
+    let logged: any
+    await act(async () => {
+      logged = await result.current.logSet(workoutExerciseId, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+    await act(async () => {
+      await result.current.updateSet(logged.set.id, { reps: 6 })
+    })
+    mockFrom.mockClear()
+
+    mockUseNetworkStatus.mockReturnValue({ isConnected: true })
+    rerender({})
+
+    await waitFor(() => expect(result.current.pendingSyncCount).toBe(0))
+    expect(mockChain.upsert).toHaveBeenCalledTimes(3)
+    expect(mockChain.update).toHaveBeenCalledWith({ reps: 6 })
+    expect(mockChain.upsert.mock.invocationCallOrder[0])
+      .toBeLessThan(mockChain.update.mock.invocationCallOrder[0])
+  })
+
+  it('keeps the mutation queued on a network error', async () => {
+    const { result } = renderHook(() => useWorkout())
+    const workoutExerciseId = await startOffline(result)
+
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' })
+    // PR baseline lookups fail the same way
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' })
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' })
+    await act(async () => {
+      await result.current.logSet(workoutExerciseId, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+
+    expect(result.current.pendingSyncCount).toBe(1)
+    expect(await getPendingMutations()).toHaveLength(1)
+  })
+
+  it('reports and drops a mutation the server rejects', async () => {
+    const onSyncIssue = jest.fn()
+    const { result } = renderHook(() => useWorkout({ onSyncIssue }))
+    const workoutExerciseId = await startOffline(result)
+
+    mockSupabaseResponse(null, { code: '23503', message: 'violates foreign key constraint' })
+    await act(async () => {
+      await result.current.logSet(workoutExerciseId, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+
+    expect(onSyncIssue).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'failed', message: 'violates foreign key constraint' })
+    )
+    expect(onSyncIssue.mock.calls[0][0].mutation.description).toBe('Bench Press set 1')
+    expect(result.current.pendingSyncCount).toBe(0)
+  })
+
+  it('reports a conflict when the updated row no longer exists', async () => {
+    const onSyncIssue = jest.fn()
+    const { result } = renderHook(() => useWorkout({ onSyncIssue }))
+
+    mockSupabaseResponse([])
+    await act(async () => {
+      await result.current.updateSet('s-gone', { reps: 8 })
+    })
+
+    expect(onSyncIssue).toHaveBeenCalledWith(expect.objectContaining({ kind: 'conflict' }))
+  })
+})
+
+describe('resumeWorkout', () => {
+  // Starts a session offline, adds an exercise and logs a set on it
+  async function buildOfflineSession(hook: any) {
+    await act(async () => { await hook.current.startWorkout(makeTemplate()) })
+    let added: any
+    await act(async () => {
+      added = await hook.current.addExercise({ id: 'ex-3', name: 'Cable Fly' } as any)
+    })
+    await act(async () => {
+      await hook.current.logSet(added.workoutExercise.id, { set_number: 1, weight_kg: 20, reps: 12 })
+    })
+    return { workoutId: hook.current.workout.id, addedId: added.workoutExercise.id }
+  }
+
+  it('rebuilds a workout started offline from the queue', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const first = renderHook(() => useWorkout())
+    const { workoutId, addedId } = await buildOfflineSession(first.result)
+
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' }) // workout
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' }) // exercises
+
+    const { result } = renderHook(() => useWorkout())
+    let res: any
+    await act(async () => {
+      res = await result.current.resumeWorkout(workoutId)
+    })
+
+    expect(res.success).toBe(true)
+    expect(result.current.workout).toMatchObject({ id: workoutId, name: 'Push Day', status: 'in_progress' })
+    expect(result.current.exercises.map(ex => ex.exercise?.name)).toEqual(['Bench Press', 'Cable Fly'])
+    expect(result.current.exercises[1]).toMatchObject({ id: addedId, order_index: 1 })
+    expect(result.current.exercises[1].sets).toEqual([expect.objectContaining({ weight_kg: 20, reps: 12 })])
+  })
+
+  it('adds exercises queued since the server last saw the workout', async () => {
+    // Started with signal, so the workout and its first exercise synced
+    const first = renderHook(() => useWorkout())
+    await act(async () => { await first.result.current.startWorkout(makeTemplate()) })
+    const workoutId = first.result.current.workout!.id
+    const serverExercise = { ...first.result.current.exercises[0], sets: [] }
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    first.rerender({})
+
+    let added: any
+    await act(async () => {
+      added = await first.result.current.addExercise({ id: 'ex-3', name: 'Cable Fly' } as any)
+    })
+    await act(async () => {
+      await first.result.current.logSet(added.workoutExercise.id, { set_number: 1, weight_kg: 20, reps: 12 })
+    })
+    const addedId = added.workoutExercise.id
+
+    mockSupabaseResponse({ ...first.result.current.workout })
+    mockSupabaseResponse([serverExercise])
+
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.resumeWorkout(workoutId)
+    })
+
+    expect(result.current.exercises.map(ex => ex.id)).toEqual([serverExercise.id, addedId])
+    expect(result.current.exercises[1].exercise?.name).toBe('Cable Fly')
+    expect(result.current.exercises[1].sets).toHaveLength(1)
   })
 })
 
@@ -140,7 +456,7 @@ describe('swapExercise', () => {
     const { result } = renderHook(() => useWorkout())
     let res: any
     await act(async () => {
-      res = await result.current.swapExercise('we-1', 'ex-2')
+      res = await result.current.swapExercise('we-1', { id: 'ex-2', name: 'Incline Press' } as any)
     })
 
     expect(res.success).toBe(true)
@@ -150,6 +466,80 @@ describe('swapExercise', () => {
   })
 })
 
+describe('startEmptyWorkout', () => {
+  it('creates a workout with no template and no exercises', async () => {
+    const { result } = renderHook(() => useWorkout())
+    let res: any
+    await act(async () => {
+      res = await result.current.startEmptyWorkout()
+    })
+
+    expect(res.success).toBe(true)
+    expect(res.workoutId).toBe(result.current.workout?.id)
+    expect(mockFrom).toHaveBeenCalledTimes(1)
+    expect(mockChain.upsert.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ id: res.workoutId, template_id: null, name: 'Quick Workout' })
+    )
+    expect(result.current.isActive).toBe(true)
+    expect(result.current.exercises).toEqual([])
+  })
+})
+
+describe('addExercise / removeExercise', () => {
+  // Returns the two workout_exercise ids in order
+  async function startWithTwoExercises(hook: any): Promise<string[]> {
+    await act(async () => { await hook.current.startWorkout(makeTwoExerciseTemplate()) })
+    return hook.current.exercises.map((ex: any) => ex.id)
+  }
+
+  it('appends the exercise with the next order_index and queues the insert', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result } = renderHook(() => useWorkout())
+    await startWithTwoExercises(result)
+
+    let res: any
+    await act(async () => {
+      res = await result.current.addExercise({ id: 'ex-3', name: 'Cable Fly' } as any)
+    })
+
+    expect(res.success).toBe(true)
+    expect(result.current.exercises).toHaveLength(3)
+    expect(result.current.exercises[2]).toMatchObject({ exercise_id: 'ex-3', order_index: 2, sets: [] })
+
+    const pending = await getPendingMutations()
+    expect(pending[pending.length - 1]).toMatchObject({
+      table: 'workout_exercises',
+      operation: 'insert',
+      rowId: res.workoutExercise.id,
+      values: expect.objectContaining({ workout_id: result.current.workout?.id, exercise_id: 'ex-3', order_index: 2 }),
+    })
+  })
+
+  it('removes the exercise with its sets and closes the order_index gap', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result } = renderHook(() => useWorkout())
+    const [first, second] = await startWithTwoExercises(result)
+
+    let logged: any
+    await act(async () => {
+      logged = await result.current.logSet(first, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+    await act(async () => {
+      await result.current.removeExercise(first)
+    })
+
+    expect(result.current.exercises.map(ex => [ex.id, ex.order_index])).toEqual([[second, 0]])
+
+    const pending = (await getPendingMutations()).slice(4) // skip the start and the set insert
+    expect(pending.map(m => [m.table, m.operation, m.rowId])).toEqual([
+      ['workout_sets', 'delete', logged.set.id],
+      ['workout_exercises', 'delete', first],
+      ['workout_exercises', 'update', second],
+    ])
+    expect(pending[2].values).toEqual({ order_index: 0 })
+  })
+})
+
 describe('completeWorkout', () => {
   it('returns error when no active workout', async () => {
     const { result } = renderHook(() => useWorkout())
@@ -163,40 +553,55 @@ describe('completeWorkout', () => {
   })
 
   it('sets status to completed after workout is started', async () => {
-    const workout = { id: 'w-1', user_id: MOCK_USER.id, name: 'Push Day', status: 'in_progress' }
-    const exercises = [{ id: 'we-1', exercise_id: 'ex-1', order_index: 0, exercise: {} }]
-    mockSupabaseResponse(workout)
-    mockSupabaseResponse(exercises)
-
     const { result } = renderHook(() => useWorkout())
     await act(async () => {
       await result.current.startWorkout(makeTemplate())
     })
 
-    const completed = { ...workout, status: 'completed', completed_at: new Date().toISOString() }
-    mockSupabaseResponse(completed)
-
     let res: any
     await act(async () => {
       res = await result.current.completeWorkout()
     })
 
     expect(res.success).toBe(true)
+    expect(res.workout.status).toBe('completed')
     const updateCall = mockChain.update.mock.calls[0][0]
     expect(updateCall.status).toBe('completed')
     expect(updateCall.completed_at).toBeTruthy()
   })
 
-  it('includes notes string in the update payload', async () => {
-    const workout = { id: 'w-1', user_id: MOCK_USER.id, name: 'Push Day', status: 'in_progress' }
-    const exercises = [{ id: 'we-1', exercise_id: 'ex-1', order_index: 0, exercise: {} }]
-    mockSupabaseResponse(workout)
-    mockSupabaseResponse(exercises)
+  it('finishes without signal and syncs the completion after the sets', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.startWorkout(makeTemplate())
+    })
+    await act(async () => {
+      await result.current.logSet(result.current.exercises[0].id, { set_number: 1, weight_kg: 100, reps: 5 })
+    })
+
+    let res: any
+    await act(async () => {
+      res = await result.current.completeWorkout()
+    })
+
+    expect(res.success).toBe(true)
+    expect(result.current.isActive).toBe(false)
+    expect(mockFrom).not.toHaveBeenCalled()
+    const pending = await getPendingMutations()
+    expect(pending[pending.length - 1]).toMatchObject({
+      table: 'workouts',
+      operation: 'update',
+      rowId: res.workout.id,
+      values: expect.objectContaining({ status: 'completed' }),
+    })
+    expect(pending[pending.length - 2].table).toBe('workout_sets')
+  })
 
+  it('includes notes string in the update payload', async () => {
     const { result } = renderHook(() => useWorkout())
     await act(async () => { await result.current.startWorkout(makeTemplate()) })
 
-    mockSupabaseResponse({ ...workout, status: 'completed', notes: 'Great session' })
     await act(async () => { await result.current.completeWorkout('Great session') })
 
     const updateCall = mockChain.update.mock.calls[0][0]
@@ -204,57 +609,118 @@ describe('completeWorkout', () => {
   })
 
   it('stores null notes when called without notes argument', async () => {
-    const workout = { id: 'w-1', user_id: MOCK_USER.id, name: 'Push Day', status: 'in_progress' }
-    const exercises = [{ id: 'we-1', exercise_id: 'ex-1', order_index: 0, exercise: {} }]
-    mockSupabaseResponse(workout)
-    mockSupabaseResponse(exercises)
-
     const { result } = renderHook(() => useWorkout())
     await act(async () => { await result.current.startWorkout(makeTemplate()) })
 
-    mockSupabaseResponse({ ...workout, status: 'completed', notes: null })
     await act(async () => { await result.current.completeWorkout() })
 
     const updateCall = mockChain.update.mock.calls[0][0]
     expect(updateCall.notes).toBeNull()
   })
+
+  it('advances the program enrollment when a scheduled session is completed', async () => {
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.startWorkout(makeTemplate(), { programDayId: 'day-2' })
+    })
+
+    mockSupabaseResponse(null)  // workouts update
+    // Active enrollment with a three-day program, currently on day 2
+    mockSupabaseResponse([{
+      id: 'enr-1',
+      current_day_index: 1,
+      program: {
+        program_days: [
+          { id: 'day-3', week_number: 1, day_number: 3, template_id: 'tpl-3' },
+          { id: 'day-1', week_number: 1, day_number: 1, template_id: 'tpl-1' },
+          { id: 'day-2', week_number: 1, day_number: 2, template_id: 'tpl-1' },
+        ],
+      },
+    }])
+    mockSupabaseResponse(null)
+
+    let res: any
+    await act(async () => { res = await result.current.completeWorkout() })
+
+    expect(res.success).toBe(true)
+    expect(mockFrom).toHaveBeenCalledWith('program_enrollments')
+    expect(mockChain.update.mock.calls[1][0]).toEqual(
+      expect.objectContaining({ current_day_index: 2 })
+    )
+  })
+
+  it('advances the program once a session finished offline has synced', async () => {
+    mockUseNetworkStatus.mockReturnValue({ isConnected: false })
+    const { result, rerender } = renderHook(() => useWorkout())
+    await act(async () => {
+      await result.current.startWorkout(makeTemplate(), { programDayId: 'day-2' })
+    })
+
+    let res: any
+    await act(async () => { res = await result.current.completeWorkout() })
+
+    expect(res).toMatchObject({ success: true, warning: expect.any(String) })
+    expect(mockFrom).not.toHaveBeenCalledWith('program_enrollments')
+
+    mockSupabaseResponse(null) // workouts insert
+    mockSupabaseResponse(null) // workout_exercises insert
+    mockSupabaseResponse(null) // workouts update
+    mockSupabaseResponse([{
+      id: 'enr-1',
+      current_day_index: 1,
+      program: {
+        program_days: [
+          { id: 'day-1', week_number: 1, day_number: 1, template_id: 'tpl-1' },
+          { id: 'day-2', week_number: 1, day_number: 2, template_id: 'tpl-1' },
+          { id: 'day-3', week_number: 1, day_number: 3, template_id: 'tpl-3' },
+        ],
+      },
+    }])
+    mockSupabaseResponse(null) // enrollment update
+    mockUseNetworkStatus.mockReturnValue({ isConnected: true })
+    rerender({})
+
+    await waitFor(() =>
+      expect(mockChain.update).toHaveBeenCalledWith(expect.objectContaining({ current_day_index: 2 }))
+    )
+    expect(await AsyncStorage.getItem(PROGRAM_ADVANCE_STORAGE_KEY)).toBe('[]')
+  })
+})
+
+describe('abandonWorkout', () => {
+  it('removes the PRs the session recorded before marking it abandoned', async () => {
+    const { result } = renderHook(() => useWorkout())
+    await act(async () => { await result.current.startWorkout(makeTemplate()) })
+    const workoutId = result.current.workout?.id
+    mockChain.eq.mockClear()
+
+    let res: any
+    await act(async () => { res = await result.current.abandonWorkout() })
+
+    expect(res.success).toBe(true)
+    expect(result.current.isActive).toBe(false)
+    expect(mockFrom).toHaveBeenCalledWith('personal_records')
+    expect(mockChain.delete).toHaveBeenCalled()
+    expect(mockChain.eq).toHaveBeenCalledWith('workout_id', workoutId)
+    expect(mockChain.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'abandoned' }))
+  })
 })
 
 describe('reorderExercise', () => {
-  const makeTemplate2 = (): any => ({
-    id: 'tpl-2',
-    name: 'Full Body',
-    description: null,
-    created_by: MOCK_USER.id,
-    estimated_duration_minutes: 60,
-    created_at: '2026-01-01',
-    updated_at: '2026-01-01',
-    template_exercises: [
-      { id: 'te-1', template_id: 'tpl-2', exercise_id: 'ex-1', order_index: 0, target_sets: 3, target_reps: 8, target_rpe: null, rest_seconds: 90, notes: null, created_at: '2026-01-01', exercise: { id: 'ex-1', name: 'Bench Press' } },
-      { id: 'te-2', template_id: 'tpl-2', exercise_id: 'ex-2', order_index: 1, target_sets: 3, target_reps: 8, target_rpe: null, rest_seconds: 90, notes: null, created_at: '2026-01-01', exercise: { id: 'ex-2', name: 'Squat' } },
-    ],
-  })
-
-  const exercises2 = [
-    { id: 'we-1', exercise_id: 'ex-1', order_index: 0, exercise: { id: 'ex-1', name: 'Bench Press' }, sets: [] },
-    { id: 'we-2', exercise_id: 'ex-2', order_index: 1, exercise: { id: 'ex-2', name: 'Squat' }, sets: [] },
-  ]
-
-  async function startWith2Exercises(hook: any) {
-    const workout = { id: 'w-1', user_id: MOCK_USER.id, name: 'Full Body', status: 'in_progress' }
-    mockSupabaseResponse(workout)
-    mockSupabaseResponse(exercises2)
-    await act(async () => { await hook.current.startWorkout(makeTemplate2()) })
+  // Returns the two workout_exercise ids in their starting order
+  async function startWith2Exercises(hook: any): Promise<string[]> {
+    await act(async () => { await hook.current.startWorkout(makeTwoExerciseTemplate()) })
+    return hook.current.exercises.map((ex: any) => ex.id)
   }
 
   it('moves exercise from fromIndex to toIndex in local state', async () => {
     const { result } = renderHook(() => useWorkout())
-    await startWith2Exercises(result)
+    const [first, second] = await startWith2Exercises(result)
 
     await act(async () => { await result.current.reorderExercise(1, 0) })
 
-    expect(result.current.exercises[0].id).toBe('we-2')
-    expect(result.current.exercises[1].id).toBe('we-1')
+    expect(result.current.exercises[0].id).toBe(second)
+    expect(result.current.exercises[1].id).toBe(first)
   })
 
   it('reindexes order_index values to match new positions', async () => {
@@ -279,14 +745,14 @@ describe('reorderExercise', () => {
 
   it('scopes each update to the correct exercise id', async () => {
     const { result } = renderHook(() => useWorkout())
-    await startWith2Exercises(result)
+    const [first, second] = await startWith2Exercises(result)
     mockChain.eq.mockClear()
 
     await act(async () => { await result.current.reorderExercise(1, 0) })
 
     const eqIds = mockChain.eq.mock.calls.map((c: any[]) => c[1])
-    expect(eqIds).toContain('we-1')
-    expect(eqIds).toContain('we-2')
+    expect(eqIds).toContain(first)
+    expect(eqIds).toContain(second)
   })
 
   it('does not call supabase when no workout is active', async () => {
@@ -300,12 +766,12 @@ describe('reorderExercise', () => {
 
   it('handles move from last index to second-to-last correctly', async () => {
     const { result } = renderHook(() => useWorkout())
-    await startWith2Exercises(result)
+    const [first, second] = await startWith2Exercises(result)
 
     await act(async () => { await result.current.reorderExercise(0, 1) })
 
-    expect(result.current.exercises[0].id).toBe('we-2')
-    expect(result.current.exercises[1].id).toBe('we-1')
+    expect(result.current.exercises[0].id).toBe(second)
+    expect(result.current.exercises[1].id).toBe(first)
   })
 })
 
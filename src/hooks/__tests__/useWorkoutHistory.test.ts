@@ -1,8 +1,13 @@
 import { renderHook, act } from '@testing-library/react-native'
-import { useWorkoutHistory } from '../useWorkoutHistory'
+import { useWorkoutHistory, WorkoutDetail } from '../useWorkoutHistory'
+import { recomputePersonalRecords } from '../../lib/personalRecords'
+import { getAnalyticsVersion } from '../../lib/analyticsCache'
 
 jest.mock('../../lib/supabase')
 jest.mock('../../contexts/AuthContext')
+jest.mock('../../lib/personalRecords', () => ({ recomputePersonalRecords: jest.fn() }))
+
+const mockRecompute = recomputePersonalRecords as jest.Mock
 
 const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
   jest.requireMock('../../lib/supabase') as typeof import('../../lib/__mocks__/supabase')
@@ -99,6 +104,33 @@ describe('fetchWorkoutSummaries', () => {
     expect(summaries[0].total_sets).toBe(2)
   })
 
+  it('counts unloaded bodyweight sets at the latest logged bodyweight', async () => {
+    mockSupabaseResponse([
+      makeWorkoutRow({
+        workout_exercises: [
+          {
+            id: 'we-1',
+            exercise: { equipment: 'bodyweight' },
+            sets: [
+              { id: 's-1', weight_kg: null, reps: 10, is_warmup: false },
+              { id: 's-2', weight_kg: 10, reps: 5, is_warmup: false },  // belt load wins
+            ],
+          },
+        ],
+      }),
+    ])
+    mockSupabaseResponse([{ bodyweight_kg: 80 }])
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let summaries: any[] = []
+    await act(async () => {
+      summaries = await result.current.fetchWorkoutSummaries(new Date('2026-04-01'))
+    })
+
+    expect(mockFrom).toHaveBeenCalledWith('body_measurements')
+    expect(summaries[0].total_volume_kg).toBe(850)
+  })
+
   it('marks calendar dates with dotColor #00D9C4', async () => {
     mockSupabaseResponse([makeWorkoutRow({ started_at: '2026-04-18T10:00:00Z' })])
 
@@ -169,3 +201,244 @@ describe('fetchWorkoutDetail', () => {
     expect(detail.exercises[0].sets[1].set_number).toBe(2)
   })
 })
+
+describe('saveWorkoutEdits', () => {
+  const makeDetail = (): WorkoutDetail => ({
+    id: 'w-1',
+    name: 'Push',
+    started_at: '2026-04-18T10:00:00.000Z',
+    completed_at: '2026-04-18T11:00:00.000Z',
+    status: 'completed',
+    notes: null,
+    duration_minutes: 60,
+    total_sets: 1,
+    total_volume_kg: 500,
+    exercises: [
+      {
+        id: 'we-1',
+        order_index: 0,
+        is_substitution: false,
+        group_id: null,
+        group_type: null,
+        exercise: { id: 'ex-1', name: 'Bench', primary_muscle_group: 'chest', equipment: 'barbell', is_compound: true },
+        sets: [
+          { id: 's-1', set_number: 1, weight_kg: 100, reps: 5, rpe: null, is_warmup: false, is_failure: false, is_dropset: false, completed_at: '2026-04-18T10:10:00.000Z' },
+        ],
+      },
+    ],
+  })
+
+  it('writes the changed set, replays PRs and invalidates analytics', async () => {
+    mockRecompute.mockResolvedValue(1)
+    mockSupabaseResponse(null)
+    const original = makeDetail()
+    const edited = makeDetail()
+    edited.exercises[0].sets[0].weight_kg = 110
+    const versionBefore = getAnalyticsVersion()
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.saveWorkoutEdits(original, edited)
+    })
+
+    expect(saved).toEqual({ success: true, error: null, recordsUpdated: 1 })
+    expect(mockFrom).toHaveBeenCalledWith('workout_sets')
+    expect(mockChain.update).toHaveBeenCalledWith({ weight_kg: 110 })
+    expect(mockChain.eq).toHaveBeenCalledWith('id', 's-1')
+    expect(mockRecompute).toHaveBeenCalledWith('user-123', ['ex-1'], 'epley')
+    expect(getAnalyticsVersion()).toBe(versionBefore + 1)
+  })
+
+  it('rejects invalid edits without writing', async () => {
+    const edited = makeDetail()
+    edited.exercises[0].sets[0].reps = 0
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.saveWorkoutEdits(makeDetail(), edited)
+    })
+
+    expect(saved.success).toBe(false)
+    expect(mockFrom).not.toHaveBeenCalled()
+    expect(mockRecompute).not.toHaveBeenCalled()
+  })
+
+  it('returns the error when a write fails', async () => {
+    mockSupabaseResponse(null, { message: 'update failed' })
+    const edited = makeDetail()
+    edited.notes = 'Shoulder felt off'
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.saveWorkoutEdits(makeDetail(), edited)
+    })
+
+    expect(saved.success).toBe(false)
+    expect(mockRecompute).not.toHaveBeenCalled()
+  })
+})
+
+describe('logPastWorkout', () => {
+  const makeDraft = (): WorkoutDetail => ({
+    id: 'w-past',
+    name: 'Legs',
+    started_at: '2026-04-10T17:00:00.000Z',
+    completed_at: '2026-04-10T18:00:00.000Z',
+    status: 'completed',
+    notes: null,
+    duration_minutes: null,
+    total_sets: 0,
+    total_volume_kg: 0,
+    exercises: [
+      {
+        id: 'we-past',
+        order_index: 0,
+        is_substitution: false,
+        group_id: null,
+        group_type: null,
+        exercise: { id: 'ex-squat', name: 'Squat', primary_muscle_group: 'quads', equipment: 'barbell', is_compound: true },
+        sets: [
+          { id: 's-past', set_number: 1, weight_kg: 140, reps: 3, rpe: null, is_warmup: false, is_failure: false, is_dropset: false, completed_at: '' },
+        ],
+      },
+    ],
+  })
+
+  it('inserts a completed workout with its exercises and sets, then replays PRs', async () => {
+    mockRecompute.mockResolvedValue(1)
+    const versionBefore = getAnalyticsVersion()
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.logPastWorkout(makeDraft(), 'tpl-1')
+    })
+
+    expect(saved).toEqual({ success: true, error: null, workoutId: 'w-past', recordsUpdated: 1, warning: null })
+    expect(mockChain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'w-past',
+        user_id: 'user-123',
+        template_id: 'tpl-1',
+        status: 'completed',
+        started_at: '2026-04-10T17:00:00.000Z',
+        completed_at: '2026-04-10T18:00:00.000Z',
+      })
+    )
+    expect(mockChain.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'we-past', workout_id: 'w-past', exercise_id: 'ex-squat' }),
+    ])
+    expect(mockChain.insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        id: 's-past',
+        workout_exercise_id: 'we-past',
+        weight_kg: 140,
+        completed_at: '2026-04-10T18:00:00.000Z',
+      }),
+    ])
+    expect(mockRecompute).toHaveBeenCalledWith('user-123', ['ex-squat'], 'epley')
+    expect(getAnalyticsVersion()).toBe(versionBefore + 1)
+  })
+
+  it('removes the workout again when its sets fail to write', async () => {
+    mockSupabaseResponse(null)                              // workouts insert
+    mockSupabaseResponse(null)                              // workout_exercises insert
+    mockSupabaseResponse(null, { message: 'insert failed' }) // workout_sets insert
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.logPastWorkout(makeDraft(), null)
+    })
+
+    expect(saved).toMatchObject({ success: false, workoutId: null })
+    expect(mockChain.delete).toHaveBeenCalledTimes(3)
+    expect(mockChain.in).toHaveBeenCalledWith('workout_exercise_id', ['we-past'])
+    expect(mockChain.eq).toHaveBeenCalledWith('workout_id', 'w-past')
+    expect(mockChain.eq).toHaveBeenCalledWith('id', 'w-past')
+    expect(mockFrom).toHaveBeenLastCalledWith('workouts')
+    expect(mockRecompute).not.toHaveBeenCalled()
+  })
+
+  it('keeps the logged workout and warns when PRs fail to recalculate', async () => {
+    mockRecompute.mockRejectedValueOnce(new Error('replay failed'))
+    const versionBefore = getAnalyticsVersion()
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.logPastWorkout(makeDraft(), null)
+    })
+
+    expect(saved).toMatchObject({ success: true, workoutId: 'w-past', recordsUpdated: 0, warning: expect.any(String) })
+    expect(mockChain.delete).not.toHaveBeenCalled()
+    expect(getAnalyticsVersion()).toBe(versionBefore + 1)
+  })
+
+  it('refuses a workout without sets', async () => {
+    const draft = makeDraft()
+    draft.exercises[0].sets = []
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let saved: any
+    await act(async () => {
+      saved = await result.current.logPastWorkout(draft, null)
+    })
+
+    expect(saved).toMatchObject({ success: false, error: 'Log at least one set' })
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+})
+
+describe('fetchExerciseHistory', () => {
+  const makeSet = (id: string, set_number: number, weight_kg: number) => ({
+    id, set_number, weight_kg, reps: 5, rpe: null, is_warmup: false, is_failure: false, is_dropset: false,
+  })
+
+  it('groups sets by workout, newest session first', async () => {
+    mockSupabaseResponse([
+      {
+        id: 'we-1',
+        workout: { id: 'w-1', name: 'Push A', started_at: '2026-04-01T10:00:00Z' },
+        sets: [makeSet('s-2', 2, 100), makeSet('s-1', 1, 95)],
+      },
+      {
+        id: 'we-2',
+        workout: [{ id: 'w-2', name: 'Push B', started_at: '2026-04-08T10:00:00Z' }],
+        sets: [makeSet('s-3', 1, 102.5)],
+      },
+      {
+        id: 'we-3',
+        workout: { id: 'w-1', name: 'Push A', started_at: '2026-04-01T10:00:00Z' },
+        sets: [makeSet('s-4', 3, 90)],
+      },
+    ])
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let sessions: any
+    await act(async () => {
+      sessions = await result.current.fetchExerciseHistory('ex-1')
+    })
+
+    expect(mockFrom).toHaveBeenCalledWith('workout_exercises')
+    expect(mockChain.eq).toHaveBeenCalledWith('workout.user_id', 'user-123')
+    expect(sessions.map((s: any) => s.workout_id)).toEqual(['w-2', 'w-1'])
+    expect(sessions[1].sets.map((s: any) => s.id)).toEqual(['s-1', 's-2', 's-4'])
+  })
+
+  it('returns [] and sets error on failure', async () => {
+    mockSupabaseResponse(null, { message: 'boom' })
+
+    const { result } = renderHook(() => useWorkoutHistory())
+    let sessions: any
+    await act(async () => {
+      sessions = await result.current.fetchExerciseHistory('ex-1')
+    })
+
+    expect(sessions).toEqual([])
+    expect(result.current.error).toBeTruthy()
+  })
+})
@@ -4,3 +4,15 @@ export { useWorkout } from './useWorkout'
 export { useAnalytics } from './useAnalytics'
 export { useWorkoutHistory } from './useWorkoutHistory'
 export { useTemplateManagement } from './useTemplateManagement'
+export { useWeightUnit } from './useWeightUnit'
+export { useE1RMFormula } from './useE1RMFormula'
+export { usePrograms } from './usePrograms'
+export { usePlateSettings } from './usePlateSettings'
+export { useRestTimer } from './useRestTimer'
+export { useExerciseLibrary } from './useExerciseLibrary'
+export { useDataExport } from './useDataExport'
+export { useHistoryImport } from './useHistoryImport'
+export { useMeasurements } from './useMeasurements'
+export { useProgressPhotos } from './useProgressPhotos'
+export { useExerciseMaxes } from './useExerciseMaxes'
+export { useVolumeLandmarks } from './useVolumeLandmarks'
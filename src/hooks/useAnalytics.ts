@@ -1,5 +1,5 @@
 // src/hooks/useAnalytics.ts
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuthContext } from '../contexts/AuthContext'
 import {
@@ -11,11 +11,27 @@ import {
   PRRecord,
   ManualPRInput,
   ExerciseForPR,
+  PRHistoryEntry,
 } from '../types/analytics'
 import { MuscleGroup } from '../types/workout'
-import { VolumeViewRow, ProgressSetRow } from '../types/supabase'
+import { VolumeViewRow, ProgressSetRow, VolumeSetRow } from '../types/supabase'
 import { getWeekBoundaries, getMonthBoundaries, toDateKey } from '../utils/dateHelpers'
 import { calcPctChange } from '../utils/workoutCalculations'
+import { estimateOneRepMax } from '../utils/oneRepMax'
+import { useE1RMFormula } from './useE1RMFormula'
+import { getAnalyticsVersion, subscribeToAnalytics } from '../lib/analyticsCache'
+import { fetchAllPages } from '../lib/pagedQuery'
+import { fetchLatestBodyweightKg } from '../lib/measurements'
+import {
+  DEFAULT_SECONDARY_FRACTION,
+  MuscleExerciseContribution,
+  NamedVolumeSetInput,
+  VolumeAttribution,
+  VolumeContribution,
+  creditMuscleVolume,
+  summarizeMuscleExercises,
+} from '../utils/muscleVolume'
+import { RecordCountRow, countPersonalRecords } from '../utils/personalRecords'
 
 export interface HomeStats {
   thisWeekWorkouts: number
@@ -29,18 +45,65 @@ export interface ProfileStats {
   prsAchieved: number
 }
 
+export interface WeeklyVolumeOptions {
+  attribution?: VolumeAttribution
+  secondaryFraction?: number   // share of a set credited to each secondary muscle
+}
+
 function formatDate(date: Date): string {
   return date.toISOString()
 }
 
+function first<T>(value: T | T[]): T | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+// Working sets with their exercise's muscles, for crediting secondary muscles
+// on the client (the volume view only knows the primary)
+async function fetchVolumeSets(userId: string, start: Date, end: Date): Promise<NamedVolumeSetInput[]> {
+  const rows = await fetchAllPages<VolumeSetRow>(() =>
+    supabase
+      .from('workout_sets')
+      .select(`
+        weight_kg,
+        reps,
+        workout_exercise:workout_exercises!inner(
+          exercise:exercises!inner(id, name, primary_muscle_group, secondary_muscle_groups, is_compound, equipment),
+          workout:workouts!inner(user_id, status, started_at)
+        )
+      `)
+      .eq('workout_exercise.workout.user_id', userId)
+      .eq('workout_exercise.workout.status', 'completed')
+      .gte('workout_exercise.workout.started_at', formatDate(start))
+      .lte('workout_exercise.workout.started_at', formatDate(end))
+      .eq('is_warmup', false)
+  )
+
+  return rows.flatMap(row => {
+    const we = first(row.workout_exercise)
+    const exercise = we && first(we.exercise)
+    return exercise ? [{ weight_kg: row.weight_kg, reps: row.reps, exercise }] : []
+  })
+}
+
 export function useAnalytics() {
   const { user } = useAuthContext()
+  const formula = useE1RMFormula()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // A new version (past workouts edited) re-creates the tab fetchers, so
+  // mounted tabs reload through their own effects
+  const [dataVersion, setDataVersion] = useState(getAnalyticsVersion)
+
+  useEffect(() => subscribeToAnalytics(setDataVersion), [])
 
   // Fetch volume data for a specific week
+  // Weighted attribution counts fractional sets for secondary muscles
   const fetchWeeklyVolume = useCallback(
-    async (weekStartDate?: Date): Promise<WeeklyVolumeData | null> => {
+    async (
+      weekStartDate?: Date,
+      { attribution = 'direct', secondaryFraction = DEFAULT_SECONDARY_FRACTION }: WeeklyVolumeOptions = {}
+    ): Promise<WeeklyVolumeData | null> => {
       if (!user) return null
 
       setLoading(true)
@@ -50,30 +113,49 @@ export function useAnalytics() {
         const { start, end } = getWeekBoundaries(weekStartDate)
         const prevWeek = getWeekBoundaries(new Date(start.getTime() - 7 * 24 * 60 * 60 * 1000))
 
-        // Fetch current week data
-        const { data: currentData, error: currentError } = await supabase
-          .from('exercise_volume_by_muscle')
-          .select('*')
-          .eq('user_id', user.id)
-          .gte('workout_date', formatDate(start))
-          .lte('workout_date', formatDate(end))
+        let currentData: VolumeContribution[] | VolumeViewRow[] | null
+        let prevData: VolumeContribution[] | VolumeViewRow[] | null
 
-        if (currentError) throw currentError
-
-        // Fetch previous week data for comparison
-        const { data: prevData, error: prevError } = await supabase
-          .from('exercise_volume_by_muscle')
-          .select('*')
-          .eq('user_id', user.id)
-          .gte('workout_date', formatDate(prevWeek.start))
-          .lte('workout_date', formatDate(prevWeek.end))
+        if (attribution === 'weighted') {
+          const currentSets = await fetchVolumeSets(user.id, start, end)
+          const prevSets = await fetchVolumeSets(user.id, prevWeek.start, prevWeek.end)
+          const bodyweightKg = [...currentSets, ...prevSets].some(
+            set => set.weight_kg === null && set.exercise.equipment === 'bodyweight'
+          )
+            ? await fetchLatestBodyweightKg(user.id)
+            : null
 
-        if (prevError) throw prevError
+          currentData = creditMuscleVolume(currentSets, secondaryFraction, bodyweightKg)
+          prevData = creditMuscleVolume(prevSets, secondaryFraction, bodyweightKg)
+        } else {
+          // Fetch current week data
+          const { data: currentRows, error: currentError } = await supabase
+            .from('exercise_volume_by_muscle')
+            .select('*')
+            .eq('user_id', user.id)
+            .gte('workout_date', formatDate(start))
+            .lte('workout_date', formatDate(end))
+
+          if (currentError) throw currentError
+
+          // Fetch previous week data for comparison
+          const { data: prevRows, error: prevError } = await supabase
+            .from('exercise_volume_by_muscle')
+            .select('*')
+            .eq('user_id', user.id)
+            .gte('workout_date', formatDate(prevWeek.start))
+            .lte('workout_date', formatDate(prevWeek.end))
+
+          if (prevError) throw prevError
+
+          currentData = currentRows
+          prevData = prevRows
+        }
 
         // Aggregate by muscle group
         const muscleMap = new Map<MuscleGroup, MuscleVolumeData>()
         
-        currentData?.forEach((row: VolumeViewRow) => {
+        currentData?.forEach((row: VolumeContribution | VolumeViewRow) => {
           const muscle = row.muscle_group as MuscleGroup
           const existing = muscleMap.get(muscle) || {
             muscle_group: muscle,
@@ -100,7 +182,7 @@ export function useAnalytics() {
 
         // Calculate previous week totals per muscle for comparison
         const prevMuscleMap = new Map<MuscleGroup, number>()
-        prevData?.forEach((row: VolumeViewRow) => {
+        prevData?.forEach((row: VolumeContribution | VolumeViewRow) => {
           const muscle = row.muscle_group as MuscleGroup
           const existing = prevMuscleMap.get(muscle) || 0
           prevMuscleMap.set(muscle, existing + row.total_sets)
@@ -149,7 +231,38 @@ export function useAnalytics() {
         setLoading(false)
       }
     },
-    [user]
+    [user, dataVersion]
+  )
+
+  // Exercises behind one muscle's count for a week, for the heatmap drill-down.
+  // Leaves the shared loading flag alone so the tab behind it keeps its bars.
+  const fetchMuscleExercises = useCallback(
+    async (
+      muscle: MuscleGroup,
+      weekStartDate?: Date,
+      { attribution = 'direct', secondaryFraction = DEFAULT_SECONDARY_FRACTION }: WeeklyVolumeOptions = {}
+    ): Promise<MuscleExerciseContribution[]> => {
+      if (!user) return []
+
+      try {
+        const { start, end } = getWeekBoundaries(weekStartDate)
+        const sets = await fetchVolumeSets(user.id, start, end)
+        const bodyweightKg = sets.some(set => set.weight_kg === null && set.exercise.equipment === 'bodyweight')
+          ? await fetchLatestBodyweightKg(user.id)
+          : null
+
+        return summarizeMuscleExercises(
+          sets,
+          muscle,
+          attribution === 'weighted' ? secondaryFraction : 0,
+          bodyweightKg
+        )
+      } catch (err) {
+        console.error('Error fetching muscle exercises:', err)
+        return []
+      }
+    },
+    [user, dataVersion]
   )
 
   // Fetch progress data for a specific exercise
@@ -187,6 +300,7 @@ export function useAnalytics() {
           .select(`
             weight_kg,
             reps,
+            rpe,
             completed_at,
             workout_exercise:workout_exercises!inner(
               exercise_id,
@@ -220,6 +334,7 @@ export function useAnalytics() {
           exerciseName = ex?.name || ''
           const dateKey = toDateKey(row.completed_at)
           const volume = row.weight_kg * row.reps
+          const e1rm = Math.round(estimateOneRepMax(row.weight_kg, row.reps, formula, row.rpe) * 10) / 10
           
           const existing = dateMap.get(dateKey)
           // Keep the heaviest weight for each day
@@ -229,7 +344,14 @@ export function useAnalytics() {
               weight_kg: row.weight_kg,
               reps: row.reps,
               volume,
+              estimated_1rm: Math.max(e1rm, existing?.estimated_1rm ?? 0),
+              estimated_1rm_reps:
+                existing && existing.estimated_1rm > e1rm ? existing.estimated_1rm_reps : row.reps,
             })
+          } else if (e1rm > existing.estimated_1rm) {
+            // A lighter set can still carry the day's best e1RM
+            existing.estimated_1rm = e1rm
+            existing.estimated_1rm_reps = row.reps
           }
         })
 
@@ -237,12 +359,15 @@ export function useAnalytics() {
           (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
         )
 
-        // Get current PR
+        // Get current PR (heaviest weight record)
         const { data: prData } = await supabase
           .from('personal_records')
           .select('weight_kg, reps, achieved_at')
           .eq('user_id', user.id)
           .eq('exercise_id', exerciseId)
+          .eq('pr_type', 'weight')
+          .order('weight_kg', { ascending: false })
+          .limit(1)
           .single()
 
         return {
@@ -266,7 +391,7 @@ export function useAnalytics() {
         setLoading(false)
       }
     },
-    [user]
+    [user, formula, dataVersion]
   )
 
   // Fetch all PRs grouped by tier
@@ -296,8 +421,33 @@ export function useAnalytics() {
         isolation_by_muscle: {},
       }
 
+      // The view only carries each exercise's heaviest lift, and the best e1RM
+      // may come from a lighter set for more reps, so every record is scored
+      // with the user's formula. PR rows carry no RPE; the RPE chart reads
+      // them as RPE 10.
+      const records = await fetchAllPages<{ exercise_id: string; weight_kg: number; reps: number }>(() =>
+        supabase
+          .from('personal_records')
+          .select('exercise_id, weight_kg, reps')
+          .eq('user_id', user.id)
+          .order('id')
+      )
+      const bestE1rm = new Map<string, number>()
+      records.forEach(r => {
+        const e1rm = Math.round(estimateOneRepMax(r.weight_kg, r.reps, formula) * 10) / 10
+        bestE1rm.set(r.exercise_id, Math.max(bestE1rm.get(r.exercise_id) ?? 0, e1rm))
+      })
+
+      const prs = ((data ?? []) as PRRecord[]).map(pr => ({
+        ...pr,
+        estimated_1rm: Math.max(
+          bestE1rm.get(pr.exercise_id) ?? 0,
+          Math.round(estimateOneRepMax(pr.weight_kg, pr.reps, formula) * 10) / 10
+        ),
+      }))
+
       // Categorize PRs
-      data?.forEach((pr: PRRecord) => {
+      prs.forEach(pr => {
         const nameLower = pr.exercise_name.toLowerCase()
 
         if (pr.pr_tier === 'big_three') {
@@ -332,9 +482,9 @@ export function useAnalytics() {
     } finally {
       setLoading(false)
     }
-  }, [user])
+  }, [user, formula, dataVersion])
 
-  // Add a manual PR
+  // Add a manual PR. Appended to the exercise's history like detected PRs.
   const addManualPR = useCallback(
     async (input: ManualPRInput): Promise<{ success: boolean; error: string | null }> => {
       if (!user) return { success: false, error: 'Not authenticated' }
@@ -343,21 +493,20 @@ export function useAnalytics() {
       setError(null)
 
       try {
-        const { error: insertError } = await supabase.from('personal_records').upsert(
-          {
-            user_id: user.id,
-            exercise_id: input.exercise_id,
-            weight_kg: input.weight_kg,
-            reps: input.reps,
-            achieved_at: input.achieved_at || new Date().toISOString(),
-            is_manual: true,
-            notes: input.notes || null,
-            workout_set_id: null,
-          },
-          {
-            onConflict: 'user_id,exercise_id',
-          }
-        )
+        const { error: insertError } = await supabase.from('personal_records').insert({
+          user_id: user.id,
+          exercise_id: input.exercise_id,
+          pr_type: 'weight',
+          weight_kg: input.weight_kg,
+          reps: input.reps,
+          volume: input.weight_kg * input.reps,
+          estimated_1rm: Math.round(estimateOneRepMax(input.weight_kg, input.reps, formula) * 10) / 10,
+          achieved_at: input.achieved_at || new Date().toISOString(),
+          is_manual: true,
+          notes: input.notes || null,
+          workout_set_id: null,
+          workout_id: null,
+        })
 
         if (insertError) throw insertError
 
@@ -370,6 +519,30 @@ export function useAnalytics() {
         setLoading(false)
       }
     },
+    [user, formula]
+  )
+
+  // Every PR event for one exercise, newest first, for the history timeline
+  const fetchPRHistory = useCallback(
+    async (exerciseId: string): Promise<PRHistoryEntry[]> => {
+      if (!user) return []
+
+      try {
+        const { data, error: queryError } = await supabase
+          .from('personal_records')
+          .select('id, pr_type, weight_kg, reps, volume, estimated_1rm, is_manual, achieved_at')
+          .eq('user_id', user.id)
+          .eq('exercise_id', exerciseId)
+          .order('achieved_at', { ascending: false })
+
+        if (queryError) throw queryError
+        return (data ?? []) as PRHistoryEntry[]
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch PR history'
+        setError(message)
+        return []
+      }
+    },
     [user]
   )
 
@@ -381,7 +554,7 @@ export function useAnalytics() {
       const { start, end } = getWeekBoundaries()
       const { start: monthStart, end: monthEnd } = getMonthBoundaries(new Date())
 
-      const [workoutsRes, volumeRes, prsRes] = await Promise.all([
+      const [workoutsRes, volumeRes, prs] = await Promise.all([
         supabase
           .from('workouts')
           .select('id', { count: 'exact', head: true })
@@ -395,12 +568,15 @@ export function useAnalytics() {
           .eq('user_id', user.id)
           .gte('workout_date', start.toISOString())
           .lte('workout_date', end.toISOString()),
-        supabase
-          .from('personal_records')
-          .select('id', { count: 'exact', head: true })
-          .eq('user_id', user.id)
-          .gte('achieved_at', monthStart)
-          .lte('achieved_at', monthEnd),
+        fetchAllPages<RecordCountRow>(() =>
+          supabase
+            .from('personal_records')
+            .select('workout_set_id, workout_id, exercise_id')
+            .eq('user_id', user.id)
+            .gte('achieved_at', monthStart)
+            .lte('achieved_at', monthEnd)
+            .order('id')
+        ),
       ])
 
       const thisWeekVolumeKg = (volumeRes.data ?? []).reduce(
@@ -411,7 +587,7 @@ export function useAnalytics() {
       return {
         thisWeekWorkouts: workoutsRes.count ?? 0,
         thisWeekVolumeKg: Math.round(thisWeekVolumeKg),
-        prsThisMonth: prsRes.count ?? 0,
+        prsThisMonth: countPersonalRecords(prs),
       }
     } catch {
       return empty
@@ -423,16 +599,19 @@ export function useAnalytics() {
     if (!user) return empty
 
     try {
-      const [workoutsRes, prsRes, volumeRes] = await Promise.all([
+      const [workoutsRes, prs, volumeRes] = await Promise.all([
         supabase
           .from('workouts')
           .select('id', { count: 'exact', head: true })
           .eq('user_id', user.id)
           .eq('status', 'completed'),
-        supabase
-          .from('personal_records')
-          .select('id', { count: 'exact', head: true })
-          .eq('user_id', user.id),
+        fetchAllPages<RecordCountRow>(() =>
+          supabase
+            .from('personal_records')
+            .select('workout_set_id, workout_id, exercise_id')
+            .eq('user_id', user.id)
+            .order('id')
+        ),
         supabase
           .from('exercise_volume_by_muscle')
           .select('total_volume_kg')
@@ -447,7 +626,7 @@ export function useAnalytics() {
       return {
         totalWorkouts: workoutsRes.count ?? 0,
         totalVolumeKg: Math.round(totalVolumeKg),
-        prsAchieved: prsRes.count ?? 0,
+        prsAchieved: countPersonalRecords(prs),
       }
     } catch {
       return empty
@@ -474,9 +653,11 @@ export function useAnalytics() {
     loading,
     error,
     fetchWeeklyVolume,
+    fetchMuscleExercises,
     fetchExerciseProgress,
     fetchGroupedPRs,
     addManualPR,
+    fetchPRHistory,
     fetchExercisesForPR,
     fetchHomeStats,
     fetchProfileStats,
@@ -1,11 +1,18 @@
 import { useState, useEffect } from 'react'
 import { Session, User } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import { clearMutationQueue, flushMutationQueue } from '../lib/mutationQueue'
+import { clearPhotoUploads, flushPhotoUploads } from '../lib/progressPhotos'
+import { Sex } from '../types/strength'
+import { E1RMFormula } from '../types/workout'
 
 interface Profile {
   id: string
   username: string
   default_weight_unit: 'kg' | 'lbs'
+  e1rm_formula: E1RMFormula
+  sex: Sex | null
+  bodyweight_kg: number | null   // used for strength standards; kg like every stored weight
   created_at: string
   updated_at: string
 }
@@ -122,8 +129,21 @@ export function useAuth() {
     return { success: true, error: null, needsVerification }
   }
 
-  async function signOut() {
+  async function signOut({ discardPending = false }: { discardPending?: boolean } = {}) {
     setState(prev => ({ ...prev, loading: true }))
+    // Push what we can while this session's token is still valid
+    const [mutations, photos] = await Promise.all([flushMutationQueue(), flushPhotoUploads()])
+    const pendingChanges = mutations.remaining + photos.remaining
+
+    // Unsynced writes only go with the user's say-so
+    if (pendingChanges > 0 && !discardPending) {
+      setState(prev => ({ ...prev, loading: false }))
+      return { success: false, error: 'Some changes have not synced yet', pendingChanges }
+    }
+
+    // Whatever is left must never replay under the next account to sign in
+    await clearMutationQueue()
+    await clearPhotoUploads()
     await supabase.auth.signOut()
     setState(prev => ({
       ...prev,
@@ -132,6 +152,7 @@ export function useAuth() {
       profile: null,
       loading: false,
     }))
+    return { success: true, error: null, pendingChanges: 0 }
   }
 
   async function updateProfile(updates: Partial<Profile>) {
@@ -0,0 +1,62 @@
+// src/hooks/useDataExport.ts
+// Export the user's training history as CSV or a versioned JSON archive
+import { useState, useCallback } from 'react'
+import { useAuthContext } from '../contexts/AuthContext'
+import { fetchExportTables, shareExportFile } from '../lib/dataExport'
+import { ExportOptions } from '../types/export'
+import {
+  buildExportArchive,
+  buildExportCsv,
+  getExportFileName,
+  getExportRangeStart,
+} from '../utils/exportFormat'
+
+export function useDataExport() {
+  const { user } = useAuthContext()
+  const [exporting, setExporting] = useState(false)
+
+  const exportHistory = useCallback(
+    async (
+      options: ExportOptions
+    ): Promise<{ success: boolean; error: string | null; setCount: number }> => {
+      if (!user) return { success: false, error: 'Not authenticated', setCount: 0 }
+
+      setExporting(true)
+
+      try {
+        const exportedAt = new Date().toISOString()
+        const from = getExportRangeStart(options.range)
+        const tables = await fetchExportTables(user.id, from)
+
+        if (tables.workouts.length === 0 && tables.personal_records.length === 0) {
+          return { success: false, error: 'Nothing to export in this date range', setCount: 0 }
+        }
+
+        const contents =
+          options.fileType === 'csv'
+            ? buildExportCsv(tables, options.unit, exportedAt)
+            : JSON.stringify(
+                buildExportArchive(tables, { unit: options.unit, from, to: exportedAt }, exportedAt),
+                null,
+                2
+              )
+
+        await shareExportFile(
+          getExportFileName(options.fileType, exportedAt),
+          contents,
+          options.fileType
+        )
+
+        return { success: true, error: null, setCount: tables.workout_sets.length }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to export data'
+        return { success: false, error: message, setCount: 0 }
+      } finally {
+        setExporting(false)
+      }
+    },
+    [user]
+  )
+
+  return { exporting, exportHistory }
+}
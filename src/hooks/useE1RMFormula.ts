@@ -0,0 +1,10 @@
+// src/hooks/useE1RMFormula.ts
+// The signed-in user's preferred 1RM estimator (profiles.e1rm_formula)
+import { useAuthContext } from '../contexts/AuthContext'
+import { E1RMFormula } from '../types/workout'
+import { DEFAULT_E1RM_FORMULA } from '../utils/oneRepMax'
+
+export function useE1RMFormula(): E1RMFormula {
+  const { profile } = useAuthContext()
+  return profile?.e1rm_formula ?? DEFAULT_E1RM_FORMULA
+}
@@ -0,0 +1,241 @@
+// src/hooks/useExerciseLibrary.ts
+// Custom exercise CRUD. System exercises (created_by IS NULL) are read-only;
+// RLS limits writes to the user's own rows.
+import { useState, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuthContext } from '../contexts/AuthContext'
+import { Exercise, ExerciseFormData } from '../types/workout'
+
+export interface ExerciseUsage {
+  templates: number
+  workouts: number
+  records: number   // manual PRs can exist without any logged workout
+}
+
+function toRow(data: ExerciseFormData) {
+  return {
+    name: data.name.trim(),
+    description: data.description?.trim() || null,
+    primary_muscle_group: data.primary_muscle_group,
+    secondary_muscle_groups: data.secondary_muscle_groups.filter(
+      m => m !== data.primary_muscle_group
+    ),
+    equipment: data.equipment,
+    is_compound: data.is_compound,
+  }
+}
+
+function byName(a: Exercise, b: Exercise): number {
+  return a.name.localeCompare(b.name)
+}
+
+export function useExerciseLibrary() {
+  const { user } = useAuthContext()
+  const [exercises, setExercises] = useState<Exercise[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchExercises = useCallback(async (): Promise<Exercise[]> => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('exercises')
+        .select('*')
+        .order('name')
+
+      if (queryError) throw queryError
+
+      setExercises(data ?? [])
+      return data ?? []
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load exercises'
+      setError(message)
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchExercise = useCallback(async (exerciseId: string): Promise<Exercise | null> => {
+    try {
+      const { data, error: queryError } = await supabase
+        .from('exercises')
+        .select('*')
+        .eq('id', exerciseId)
+        .single()
+
+      if (queryError) throw queryError
+      return data
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load exercise'
+      setError(message)
+      return null
+    }
+  }, [])
+
+  // Names are matched case-insensitively against everything the user can see,
+  // so a custom "bench press" can't shadow the system "Bench Press"
+  const findNameClash = useCallback(async (name: string, excludeId?: string) => {
+    const { data, error: queryError } = await supabase
+      .from('exercises')
+      .select('id')
+      .ilike('name', name.trim().replace(/[%_\\]/g, '\\$&'))
+
+    if (queryError) throw queryError
+    return (data ?? []).some((row: { id: string }) => row.id !== excludeId)
+  }, [])
+
+  const createExercise = useCallback(
+    async (
+      data: ExerciseFormData
+    ): Promise<{ success: boolean; error: string | null; exercise: Exercise | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated', exercise: null }
+
+      const row = toRow(data)
+      if (!row.name) return { success: false, error: 'Name is required', exercise: null }
+
+      try {
+        if (await findNameClash(row.name)) {
+          return { success: false, error: `An exercise named "${row.name}" already exists`, exercise: null }
+        }
+
+        const { data: created, error: insertError } = await supabase
+          .from('exercises')
+          .insert({ ...row, created_by: user.id })
+          .select()
+          .single()
+
+        if (insertError) throw insertError
+
+        setExercises(prev => [...prev, created].sort(byName))
+        return { success: true, error: null, exercise: created }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create exercise'
+        return { success: false, error: message, exercise: null }
+      }
+    },
+    [user, findNameClash]
+  )
+
+  const updateExercise = useCallback(
+    async (
+      exerciseId: string,
+      data: ExerciseFormData
+    ): Promise<{ success: boolean; error: string | null; exercise: Exercise | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated', exercise: null }
+
+      const row = toRow(data)
+      if (!row.name) return { success: false, error: 'Name is required', exercise: null }
+
+      try {
+        if (await findNameClash(row.name, exerciseId)) {
+          return { success: false, error: `An exercise named "${row.name}" already exists`, exercise: null }
+        }
+
+        const { data: updated, error: updateError } = await supabase
+          .from('exercises')
+          .update(row)
+          .eq('id', exerciseId)
+          .eq('created_by', user.id)
+          .select()
+          .single()
+
+        if (updateError) throw updateError
+
+        setExercises(prev => prev.map(e => (e.id === exerciseId ? updated : e)).sort(byName))
+        return { success: true, error: null, exercise: updated }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update exercise'
+        return { success: false, error: message, exercise: null }
+      }
+    },
+    [user, findNameClash]
+  )
+
+  // How many templates, logged workouts and PRs point at an exercise
+  const getExerciseUsage = useCallback(async (exerciseId: string): Promise<ExerciseUsage> => {
+    const [templatesRes, workoutsRes, recordsRes] = await Promise.all([
+      supabase
+        .from('template_exercises')
+        .select('id', { count: 'exact', head: true })
+        .eq('exercise_id', exerciseId),
+      supabase
+        .from('workout_exercises')
+        .select('id', { count: 'exact', head: true })
+        .eq('exercise_id', exerciseId),
+      supabase
+        .from('personal_records')
+        .select('id', { count: 'exact', head: true })
+        .eq('exercise_id', exerciseId),
+    ])
+
+    const failed = [templatesRes, workoutsRes, recordsRes].find(res => res.error)
+    if (failed) throw failed.error
+
+    return {
+      templates: templatesRes.count ?? 0,
+      workouts: workoutsRes.count ?? 0,
+      records: recordsRes.count ?? 0,
+    }
+  }, [])
+
+  // Refuses while the exercise is still referenced, so history never loses its sets
+  const deleteExercise = useCallback(
+    async (exerciseId: string): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      try {
+        const usage = await getExerciseUsage(exerciseId)
+        if (usage.templates > 0 || usage.workouts > 0 || usage.records > 0) {
+          return { success: false, error: describeUsage(usage) }
+        }
+
+        const { error: deleteError } = await supabase
+          .from('exercises')
+          .delete()
+          .eq('id', exerciseId)
+          .eq('created_by', user.id)
+
+        if (deleteError) throw deleteError
+
+        setExercises(prev => prev.filter(e => e.id !== exerciseId))
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete exercise'
+        return { success: false, error: message }
+      }
+    },
+    [user, getExerciseUsage]
+  )
+
+  return {
+    exercises,
+    loading,
+    error,
+    fetchExercises,
+    fetchExercise,
+    createExercise,
+    updateExercise,
+    deleteExercise,
+    getExerciseUsage,
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`
+}
+
+// "Used in 2 templates and 1 logged workout, so it can't be deleted."
+export function describeUsage(usage: ExerciseUsage): string {
+  const parts = [
+    usage.templates > 0 ? plural(usage.templates, 'template') : null,
+    usage.workouts > 0 ? plural(usage.workouts, 'logged workout') : null,
+    usage.records > 0 ? plural(usage.records, 'personal record') : null,
+  ].filter(Boolean)
+  const list = parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+    : parts[0]
+  return `Used in ${list}, so it can't be deleted.`
+}
@@ -0,0 +1,98 @@
+// src/hooks/useExerciseMaxes.ts
+// Per-exercise 1RM / training max that template percentages are taken of.
+// Values are in kg; the editor converts from the display unit.
+import { useState, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { fetchExerciseMaxes } from '../lib/exerciseMaxes'
+import { useAuthContext } from '../contexts/AuthContext'
+import { useE1RMFormula } from './useE1RMFormula'
+import { ExerciseMax, LoadBasis } from '../types/workout'
+import { LoadBases, resolveLoadBases } from '../utils/percentageTargets'
+
+const BASIS_COLUMNS: Record<LoadBasis, 'one_rep_max_kg' | 'training_max_kg'> = {
+  one_rep_max: 'one_rep_max_kg',
+  training_max: 'training_max_kg',
+}
+
+export function useExerciseMaxes() {
+  const { user } = useAuthContext()
+  const formula = useE1RMFormula()
+  const [maxes, setMaxes] = useState<Record<string, ExerciseMax>>({})
+  const [estimates, setEstimates] = useState<Record<string, number | null>>({})
+  const [bases, setBases] = useState<Record<string, LoadBases>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchMaxes = useCallback(
+    async (exerciseIds: string[]) => {
+      if (!user || exerciseIds.length === 0) return
+
+      setLoading(true)
+      setError(null)
+
+      try {
+        const lookup = await fetchExerciseMaxes(user.id, exerciseIds, formula)
+        setMaxes(prev => ({ ...prev, ...lookup.maxes }))
+        setEstimates(prev => ({ ...prev, ...lookup.estimates }))
+        setBases(prev => ({ ...prev, ...lookup.bases }))
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load maxes'
+        setError(message)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [user, formula]
+  )
+
+  // null clears the stored value so the estimate takes over again
+  const saveMax = useCallback(
+    async (
+      exerciseId: string,
+      basis: LoadBasis,
+      valueKg: number | null
+    ): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      const current = maxes[exerciseId]
+      const row = {
+        user_id: user.id,
+        exercise_id: exerciseId,
+        one_rep_max_kg: current?.one_rep_max_kg ?? null,
+        training_max_kg: current?.training_max_kg ?? null,
+        [BASIS_COLUMNS[basis]]: valueKg,
+        updated_at: new Date().toISOString(),
+      }
+
+      try {
+        const { data: saved, error: upsertError } = await supabase
+          .from('exercise_maxes')
+          .upsert(row, { onConflict: 'user_id,exercise_id' })
+          .select()
+          .single()
+
+        if (upsertError) throw upsertError
+
+        setMaxes(prev => ({ ...prev, [exerciseId]: saved }))
+        setBases(prev => ({
+          ...prev,
+          [exerciseId]: resolveLoadBases(saved, estimates[exerciseId] ?? null),
+        }))
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save max'
+        return { success: false, error: message }
+      }
+    },
+    [user, maxes, estimates]
+  )
+
+  return {
+    maxes,
+    bases,
+    loading,
+    error,
+    fetchMaxes,
+    saveMax,
+  }
+}
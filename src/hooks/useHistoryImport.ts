@@ -0,0 +1,181 @@
+// src/hooks/useHistoryImport.ts
+// Import workouts from a Strong or Hevy CSV export: pick the file, match
+// exercise names, dry-run for duplicates, then write and replay PRs.
+import { useState, useCallback } from 'react'
+import * as DocumentPicker from 'expo-document-picker'
+import { File } from 'expo-file-system'
+import { supabase } from '../lib/supabase'
+import { useAuthContext } from '../contexts/AuthContext'
+import { fetchExistingWorkoutStarts, insertImportedWorkouts } from '../lib/historyImport'
+import { recomputePersonalRecords } from '../lib/personalRecords'
+import { invalidateAnalytics } from '../lib/analyticsCache'
+import { useE1RMFormula } from './useE1RMFormula'
+import { ExerciseMatch, ImportPreview, ImportResult, ParsedImport } from '../types/import'
+import { matchExerciseNames } from '../utils/exerciseMatching'
+import { resolveImportWorkouts } from '../utils/historyImport'
+
+// Duplicate check window: the file's first and last start, padded a minute
+function importSpan(parsed: ParsedImport): { from: string; to: string } {
+  const first = new Date(parsed.workouts[0].started_at).getTime()
+  const last = new Date(parsed.workouts[parsed.workouts.length - 1].started_at).getTime()
+  return {
+    from: new Date(first - 60000).toISOString(),
+    to: new Date(last + 60000).toISOString(),
+  }
+}
+
+export function useHistoryImport() {
+  const { user } = useAuthContext()
+  const formula = useE1RMFormula()
+  const [working, setWorking] = useState(false)
+
+  // contents is null when the picker was cancelled
+  const pickImportFile = useCallback(async (): Promise<{
+    success: boolean
+    error: string | null
+    contents: string | null
+  }> => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/csv', 'text/plain'],
+        copyToCacheDirectory: true,
+      })
+      if (picked.canceled || !picked.assets[0]) return { success: true, error: null, contents: null }
+
+      setWorking(true)
+      const contents = await new File(picked.assets[0].uri).text()
+      return { success: true, error: null, contents }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to read file'
+      return { success: false, error: message, contents: null }
+    } finally {
+      setWorking(false)
+    }
+  }, [])
+
+  const matchExercises = useCallback(
+    async (names: string[]): Promise<{ success: boolean; error: string | null; matches: ExerciseMatch[] }> => {
+      setWorking(true)
+
+      try {
+        const { data, error: queryError } = await supabase
+          .from('exercises')
+          .select('id, name')
+          .order('name')
+
+        if (queryError) throw queryError
+        return { success: true, error: null, matches: matchExerciseNames(names, data ?? []) }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load exercises'
+        return { success: false, error: message, matches: [] }
+      } finally {
+        setWorking(false)
+      }
+    },
+    []
+  )
+
+  // Dry run: what would be written, and which workouts are already logged
+  const previewImport = useCallback(
+    async (
+      parsed: ParsedImport,
+      matches: ExerciseMatch[]
+    ): Promise<{ success: boolean; error: string | null; preview: ImportPreview | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated', preview: null }
+
+      setWorking(true)
+
+      try {
+        const { from, to } = importSpan(parsed)
+        const existing = await fetchExistingWorkoutStarts(user.id, from, to)
+        const { preview } = resolveImportWorkouts(parsed, matches, existing)
+        return { success: true, error: null, preview }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to preview import'
+        return { success: false, error: message, preview: null }
+      } finally {
+        setWorking(false)
+      }
+    },
+    [user]
+  )
+
+  const importHistory = useCallback(
+    async (
+      parsed: ParsedImport,
+      matches: ExerciseMatch[]
+    ): Promise<{ success: boolean; error: string | null; result: ImportResult | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated', result: null }
+
+      setWorking(true)
+
+      try {
+        // Re-checked here so a second tap can't import the same file twice
+        const { from, to } = importSpan(parsed)
+        const existing = await fetchExistingWorkoutStarts(user.id, from, to)
+        const { workouts } = resolveImportWorkouts(parsed, matches, existing)
+        if (workouts.length === 0) {
+          return { success: false, error: 'Nothing new to import', result: null }
+        }
+
+        const { workoutCount, setCount } = await insertImportedWorkouts(user.id, workouts)
+
+        // Older imported sessions change what counted as a PR afterwards
+        const exerciseIds = Array.from(
+          new Set(workouts.flatMap(w => w.exercises.map(e => e.exercise_id)))
+        )
+        // The workouts are in either way, so a failed replay is reported on
+        // its own rather than as a failed import a retry would skip as duplicates
+        let records = 0
+        let recordsError: string | null = null
+        try {
+          records = await recomputePersonalRecords(user.id, exerciseIds, formula)
+        } catch (err) {
+          recordsError = err instanceof Error ? err.message : 'Failed to recalculate personal records'
+        }
+        invalidateAnalytics()
+
+        return {
+          success: true,
+          error: null,
+          result: {
+            workouts: workoutCount,
+            sets: setCount,
+            records,
+            exercise_ids: exerciseIds,
+            records_error: recordsError,
+          },
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to import workouts'
+        return { success: false, error: message, result: null }
+      } finally {
+        setWorking(false)
+      }
+    },
+    [user, formula]
+  )
+
+  // Retries the PR replay after an import whose workouts landed without it
+  const recomputeRecords = useCallback(
+    async (exerciseIds: string[]): Promise<{ success: boolean; error: string | null; records: number }> => {
+      if (!user) return { success: false, error: 'Not authenticated', records: 0 }
+
+      setWorking(true)
+
+      try {
+        const records = await recomputePersonalRecords(user.id, exerciseIds, formula)
+        invalidateAnalytics()
+        return { success: true, error: null, records }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to recalculate personal records'
+        return { success: false, error: message, records: 0 }
+      } finally {
+        setWorking(false)
+      }
+    },
+    [user, formula]
+  )
+
+  return { working, pickImportFile, matchExercises, previewImport, importHistory, recomputeRecords }
+}
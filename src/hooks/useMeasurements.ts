@@ -0,0 +1,121 @@
+// src/hooks/useMeasurements.ts
+// Body measurement check-ins: bodyweight, body fat and tape measurements.
+// Values arrive in the user's display units and are stored in kg / cm.
+import { useState, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuthContext } from '../contexts/AuthContext'
+import { BodyMeasurement, MeasurementFormData } from '../types/measurements'
+import { WeightUnit } from '../types/workout'
+import { MEASUREMENT_FIELDS, toStorageMeasurement } from '../utils/measurements'
+
+// Newest first, the order the screen lists them in
+function byNewest(a: BodyMeasurement, b: BodyMeasurement): number {
+  return b.measured_at.localeCompare(a.measured_at)
+}
+
+export function useMeasurements() {
+  const { user } = useAuthContext()
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchMeasurements = useCallback(async (): Promise<BodyMeasurement[]> => {
+    if (!user) return []
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('body_measurements')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('measured_at', { ascending: false })
+
+      if (queryError) throw queryError
+
+      setMeasurements(data ?? [])
+      return data ?? []
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load measurements'
+      setError(message)
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  const addMeasurement = useCallback(
+    async (
+      form: MeasurementFormData,
+      unit: WeightUnit
+    ): Promise<{ success: boolean; error: string | null; measurement: BodyMeasurement | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated', measurement: null }
+
+      const row: Record<string, number | string | null> = {
+        user_id: user.id,
+        measured_at: form.measured_at,
+        notes: form.notes.trim() || null,
+      }
+      let filled = 0
+      MEASUREMENT_FIELDS.forEach(({ field }) => {
+        const value = form[field]
+        if (value === undefined || !Number.isFinite(value)) return
+        row[field] = toStorageMeasurement(value, field, unit)
+        filled++
+      })
+      if (filled === 0) {
+        return { success: false, error: 'Enter at least one measurement', measurement: null }
+      }
+
+      try {
+        const { data: created, error: insertError } = await supabase
+          .from('body_measurements')
+          .insert(row)
+          .select()
+          .single()
+
+        if (insertError) throw insertError
+
+        setMeasurements(prev => [...prev, created].sort(byNewest))
+        return { success: true, error: null, measurement: created }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save measurement'
+        return { success: false, error: message, measurement: null }
+      }
+    },
+    [user]
+  )
+
+  const deleteMeasurement = useCallback(
+    async (measurementId: string): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      try {
+        const { error: deleteError } = await supabase
+          .from('body_measurements')
+          .delete()
+          .eq('id', measurementId)
+          .eq('user_id', user.id)
+
+        if (deleteError) throw deleteError
+
+        setMeasurements(prev => prev.filter(m => m.id !== measurementId))
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete measurement'
+        return { success: false, error: message }
+      }
+    },
+    [user]
+  )
+
+  return {
+    measurements,
+    loading,
+    error,
+    fetchMeasurements,
+    addMeasurement,
+    deleteMeasurement,
+  }
+}
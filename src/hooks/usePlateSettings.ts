@@ -0,0 +1,70 @@
+// src/hooks/usePlateSettings.ts
+// Bar weight, plate inventory and machine starting resistances. Kept on the
+// device (AsyncStorage) since they describe the gym, not the account.
+import { useState, useEffect, useCallback } from 'react'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PlateSettings } from '../types/plates'
+import { WeightUnit } from '../types/workout'
+import { DEFAULT_PLATE_SETTINGS } from '../utils/plateCalculator'
+import { useWeightUnit } from './useWeightUnit'
+
+export const PLATE_SETTINGS_STORAGE_KEY = '@strengthflow/plate-settings'
+
+// One-off read for code outside the hook (e.g. resolving loads at workout start)
+export async function readPlateSettings(unit: WeightUnit): Promise<PlateSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(PLATE_SETTINGS_STORAGE_KEY)
+    if (raw) return JSON.parse(raw) as PlateSettings
+  } catch (err) {
+    console.error('Error reading plate settings:', err)
+  }
+  return DEFAULT_PLATE_SETTINGS[unit]
+}
+
+export function usePlateSettings() {
+  const unit = useWeightUnit()
+  const [stored, setStored] = useState<PlateSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    AsyncStorage.getItem(PLATE_SETTINGS_STORAGE_KEY)
+      .then(raw => {
+        if (raw) setStored(JSON.parse(raw) as PlateSettings)
+      })
+      .catch(err => console.error('Error reading plate settings:', err))
+      .finally(() => setLoading(false))
+  }, [])
+
+  // Until the user saves a setup, assume a standard gym in their display unit
+  const settings = stored ?? DEFAULT_PLATE_SETTINGS[unit]
+
+  const saveSettings = useCallback(
+    async (next: PlateSettings): Promise<{ success: boolean; error: string | null }> => {
+      try {
+        await AsyncStorage.setItem(PLATE_SETTINGS_STORAGE_KEY, JSON.stringify(next))
+        setStored(next)
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save plate settings'
+        return { success: false, error: message }
+      }
+    },
+    []
+  )
+
+  const setMachineStartWeight = useCallback(
+    (exerciseId: string, weight: number) =>
+      saveSettings({
+        ...settings,
+        machineStartWeights: { ...settings.machineStartWeights, [exerciseId]: weight },
+      }),
+    [settings, saveSettings]
+  )
+
+  return {
+    settings,
+    loading,
+    saveSettings,
+    setMachineStartWeight,
+  }
+}
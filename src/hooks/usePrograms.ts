@@ -0,0 +1,350 @@
+// src/hooks/usePrograms.ts
+// Multi-week programs: listing, enrolment and today's scheduled session
+import { useState, useCallback } from 'react'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { supabase } from '../lib/supabase'
+import { useAuthContext } from '../contexts/AuthContext'
+import { ProgramDay, ProgramEnrollment, ProgramWithDays, TodaySession } from '../types/program'
+import { TemplateExercise, WorkoutTemplateWithExercises } from '../types/workout'
+import {
+  sortProgramDays,
+  resolveCurrentDayIndex,
+  nextDayIndex,
+  isProgramFinished,
+} from '../utils/programSchedule'
+
+type EnrollmentWithProgram = ProgramEnrollment & { program: ProgramWithDays }
+
+async function fetchActiveEnrollment(userId: string): Promise<EnrollmentWithProgram | null> {
+  const { data, error } = await supabase
+    .from('program_enrollments')
+    .select(`
+      *,
+      program:programs(
+        *,
+        program_days(*, template:workout_templates(id, name))
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .limit(1)
+
+  if (error) throw error
+  return (data?.[0] as EnrollmentWithProgram | undefined) ?? null
+}
+
+async function markEnrollmentCompleted(enrollmentId: string, dayIndex: number) {
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('program_enrollments')
+    .update({
+      status: 'completed',
+      current_day_index: dayIndex,
+      last_advanced_at: now,
+      completed_at: now,
+    })
+    .eq('id', enrollmentId)
+
+  if (error) throw error
+}
+
+// Moves the user's active enrollment past the program day a workout was
+// started from. Not a hook so useWorkout can call it from completeWorkout.
+export async function advanceProgramAfterWorkout(
+  userId: string,
+  programDayId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const enrollment = await fetchActiveEnrollment(userId)
+    if (!enrollment) return { success: true, error: null }
+
+    const days = sortProgramDays(enrollment.program.program_days)
+    const completedIndex = days.findIndex(day => day.id === programDayId)
+    // Session belongs to a program the user has since left
+    if (completedIndex === -1) return { success: true, error: null }
+
+    const next = nextDayIndex(enrollment.current_day_index, completedIndex)
+
+    if (isProgramFinished(days, next)) {
+      await markEnrollmentCompleted(enrollment.id, days.length)
+      return { success: true, error: null }
+    }
+
+    const { error } = await supabase
+      .from('program_enrollments')
+      .update({ current_day_index: next, last_advanced_at: new Date().toISOString() })
+      .eq('id', enrollment.id)
+
+    if (error) throw error
+
+    return { success: true, error: null }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to advance program'
+    return { success: false, error: message }
+  }
+}
+
+export const PROGRAM_ADVANCE_STORAGE_KEY = '@strengthflow/program-advances'
+
+// A finished program session whose enrollment hasn't been moved on yet
+interface PendingProgramAdvance {
+  userId: string
+  programDayId: string
+}
+
+// Writes are serialised so a retry never races a new session being queued
+let advanceChain: Promise<unknown> = Promise.resolve()
+
+function serialiseAdvances<T>(task: () => Promise<T>): Promise<T> {
+  const run = advanceChain.then(task, task)
+  advanceChain = run.catch(() => undefined)
+  return run
+}
+
+async function readPendingAdvances(): Promise<PendingProgramAdvance[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PROGRAM_ADVANCE_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as PendingProgramAdvance[]) : []
+  } catch (err) {
+    console.error('Error reading program advances:', err)
+    return []
+  }
+}
+
+// Remembers a completed program session (AsyncStorage-backed, like the
+// mutation queue) until retryProgramAdvances gets it to the server
+export function queueProgramAdvance(userId: string, programDayId: string): Promise<void> {
+  return serialiseAdvances(async () => {
+    const current = await readPendingAdvances()
+    await AsyncStorage.setItem(
+      PROGRAM_ADVANCE_STORAGE_KEY,
+      JSON.stringify([...current, { userId, programDayId }])
+    )
+  })
+}
+
+// Advances the user's enrollment once per queued session, oldest first,
+// stopping at the first failure so sessions never apply out of order
+export function retryProgramAdvances(
+  userId: string
+): Promise<{ remaining: number; error: string | null }> {
+  return serialiseAdvances(async () => {
+    let pending = await readPendingAdvances()
+    let error: string | null = null
+
+    for (const advance of pending.filter(a => a.userId === userId)) {
+      const result = await advanceProgramAfterWorkout(userId, advance.programDayId)
+      if (!result.success) {
+        error = result.error
+        break
+      }
+      pending = pending.filter(a => a !== advance)
+      await AsyncStorage.setItem(PROGRAM_ADVANCE_STORAGE_KEY, JSON.stringify(pending))
+    }
+
+    return { remaining: pending.filter(a => a.userId === userId).length, error }
+  })
+}
+
+export function usePrograms() {
+  const { user } = useAuthContext()
+  const [programs, setPrograms] = useState<ProgramWithDays[]>([])
+  const [todaySession, setTodaySession] = useState<TodaySession | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPrograms = useCallback(async (): Promise<ProgramWithDays[]> => {
+    if (!user) return []
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('programs')
+        .select(`
+          *,
+          program_days(*, template:workout_templates(id, name))
+        `)
+        .order('name')
+
+      if (queryError) throw queryError
+
+      const result = ((data ?? []) as ProgramWithDays[]).map(program => ({
+        ...program,
+        program_days: sortProgramDays(program.program_days ?? []),
+      }))
+
+      setPrograms(result)
+      return result
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load programs'
+      setError(message)
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  // Resolve the active enrollment to today's slot (rest days elapse with the calendar)
+  const fetchTodaySession = useCallback(async (): Promise<TodaySession | null> => {
+    if (!user) return null
+
+    try {
+      const enrollment = await fetchActiveEnrollment(user.id)
+      if (!enrollment) {
+        setTodaySession(null)
+        return null
+      }
+
+      const { program: programWithDays, ...enrollmentRow } = enrollment
+      const { program_days, ...program } = programWithDays
+      const days = sortProgramDays(program_days ?? [])
+      const dayIndex = resolveCurrentDayIndex(
+        days,
+        enrollment.current_day_index,
+        enrollment.last_advanced_at
+      )
+
+      if (dayIndex >= days.length) {
+        await markEnrollmentCompleted(enrollment.id, days.length)
+        setTodaySession(null)
+        return null
+      }
+
+      const day: ProgramDay = days[dayIndex]
+      let template: WorkoutTemplateWithExercises | null = null
+
+      if (day.template_id) {
+        const { data, error: templateError } = await supabase
+          .from('workout_templates')
+          .select(`
+            *,
+            template_exercises(
+              *,
+              exercise:exercises(*)
+            )
+          `)
+          .eq('id', day.template_id)
+          .single()
+
+        if (templateError) throw templateError
+
+        data?.template_exercises?.sort((a: TemplateExercise, b: TemplateExercise) =>
+          a.order_index - b.order_index
+        )
+        template = data
+      }
+
+      const session: TodaySession = {
+        enrollment: enrollmentRow,
+        program,
+        day,
+        dayIndex,
+        weekNumber: day.week_number,
+        totalWeeks: program.weeks,
+        isRestDay: day.template_id === null,
+        template,
+      }
+
+      setTodaySession(session)
+      return session
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load today's session"
+      setError(message)
+      return null
+    }
+  }, [user])
+
+  // Only one active program at a time: any current enrollment is abandoned
+  const enrol = useCallback(
+    async (programId: string): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      setLoading(true)
+      setError(null)
+
+      try {
+        const { error: abandonError } = await supabase
+          .from('program_enrollments')
+          .update({ status: 'abandoned' })
+          .eq('user_id', user.id)
+          .eq('status', 'active')
+
+        if (abandonError) throw abandonError
+
+        const { error: insertError } = await supabase
+          .from('program_enrollments')
+          .insert({ user_id: user.id, program_id: programId })
+
+        if (insertError) throw insertError
+
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to start program'
+        setError(message)
+        return { success: false, error: message }
+      } finally {
+        setLoading(false)
+      }
+    },
+    [user]
+  )
+
+  const leaveProgram = useCallback(async (): Promise<{ success: boolean; error: string | null }> => {
+    if (!user) return { success: false, error: 'Not authenticated' }
+
+    try {
+      const { error: updateError } = await supabase
+        .from('program_enrollments')
+        .update({ status: 'abandoned' })
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+
+      if (updateError) throw updateError
+
+      setTodaySession(null)
+      return { success: true, error: null }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to leave program'
+      setError(message)
+      return { success: false, error: message }
+    }
+  }, [user])
+
+  // Move past today's slot without training (e.g. train on a scheduled rest day)
+  const skipDay = useCallback(
+    async (session: TodaySession): Promise<{ success: boolean; error: string | null }> => {
+      try {
+        const { error: updateError } = await supabase
+          .from('program_enrollments')
+          .update({
+            current_day_index: session.dayIndex + 1,
+            last_advanced_at: new Date().toISOString(),
+          })
+          .eq('id', session.enrollment.id)
+
+        if (updateError) throw updateError
+
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to skip day'
+        setError(message)
+        return { success: false, error: message }
+      }
+    },
+    []
+  )
+
+  return {
+    programs,
+    todaySession,
+    loading,
+    error,
+    fetchPrograms,
+    fetchTodaySession,
+    enrol,
+    leaveProgram,
+    skipDay,
+  }
+}
@@ -0,0 +1,250 @@
+// src/hooks/useProgressPhotos.ts
+// Progress photo gallery: pick or shoot a photo, queue its upload (works
+// offline), and list uploaded and still-queued photos together.
+import { useState, useCallback, useEffect } from 'react'
+import * as ImagePicker from 'expo-image-picker'
+import { supabase } from '../lib/supabase'
+import { useAuthContext } from '../contexts/AuthContext'
+import { useNetworkStatus } from './useNetworkStatus'
+import {
+  discardPhotoUpload,
+  enqueuePhotoUpload,
+  fetchSignedPhotoUrls,
+  flushPhotoUploads,
+  getPendingPhotoUploads,
+  preparePhotoFiles,
+  removePhotoObjects,
+} from '../lib/progressPhotos'
+import { GalleryPhoto, PhotoFormData, ProgressPhoto } from '../types/photos'
+import { generateUUID } from '../utils/uuid'
+import { getDayBoundaries } from '../utils/dateHelpers'
+
+export type PhotoSource = 'camera' | 'library'
+
+export interface PickedPhoto {
+  uri: string
+  width: number
+}
+
+export interface LinkableWorkout {
+  id: string
+  name: string
+  started_at: string
+}
+
+export function useProgressPhotos() {
+  const { user } = useAuthContext()
+  const { isConnected } = useNetworkStatus()
+  const [photos, setPhotos] = useState<GalleryPhoto[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingCount, setPendingCount] = useState(0)
+
+  const fetchPhotos = useCallback(async (): Promise<GalleryPhoto[]> => {
+    if (!user) return []
+
+    setLoading(true)
+    setError(null)
+
+    // Queued photos come from the device, so they show even when offline
+    const pending = (await getPendingPhotoUploads()).filter(u => u.user_id === user.id)
+    setPendingCount(pending.length)
+    const queued: GalleryPhoto[] = pending.map(u => ({
+      id: u.id,
+      taken_on: u.taken_on,
+      workout_id: u.workout_id,
+      notes: u.notes,
+      url: u.local_uri,
+      thumbnail_url: u.local_thumbnail_uri,
+      pending: true,
+      storage_path: null,
+      thumbnail_path: null,
+    }))
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('progress_photos')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('taken_on', { ascending: false })
+
+      if (queryError) throw queryError
+
+      const rows = (data as ProgressPhoto[]) ?? []
+      const urls = await fetchSignedPhotoUrls(
+        rows.flatMap(p => [p.storage_path, p.thumbnail_path])
+      )
+      const uploaded: GalleryPhoto[] = rows.map(p => ({
+        id: p.id,
+        taken_on: p.taken_on,
+        workout_id: p.workout_id,
+        notes: p.notes,
+        url: urls[p.storage_path] ?? '',
+        thumbnail_url: urls[p.thumbnail_path] ?? urls[p.storage_path] ?? '',
+        pending: false,
+        storage_path: p.storage_path,
+        thumbnail_path: p.thumbnail_path,
+      }))
+
+      // A photo can be in both lists if its upload finished mid-fetch
+      const uploadedIds = new Set(uploaded.map(p => p.id))
+      const merged = [...queued.filter(p => !uploadedIds.has(p.id)), ...uploaded]
+      setPhotos(merged)
+      return merged
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load photos'
+      setError(message)
+      // Keep what was already loaded alongside the fresh queue
+      setPhotos(prev => [...queued, ...prev.filter(p => !p.pending)])
+      return queued
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  const syncPendingUploads = useCallback(async () => {
+    const result = await flushPhotoUploads()
+    setPendingCount(result.remaining)
+    if (result.uploaded > 0 || result.issues.length > 0) await fetchPhotos()
+    return result
+  }, [fetchPhotos])
+
+  useEffect(() => {
+    if (isConnected) syncPendingUploads()
+  }, [isConnected, syncPendingUploads])
+
+  // photo is null when the user cancelled
+  const pickPhoto = useCallback(
+    async (source: PhotoSource): Promise<{ success: boolean; error: string | null; photo: PickedPhoto | null }> => {
+      try {
+        const permission =
+          source === 'camera'
+            ? await ImagePicker.requestCameraPermissionsAsync()
+            : await ImagePicker.requestMediaLibraryPermissionsAsync()
+        if (!permission.granted) {
+          const what = source === 'camera' ? 'camera' : 'photo library'
+          return { success: false, error: `Allow ${what} access in Settings to add photos`, photo: null }
+        }
+
+        const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 1 }
+        const picked =
+          source === 'camera'
+            ? await ImagePicker.launchCameraAsync(options)
+            : await ImagePicker.launchImageLibraryAsync(options)
+        if (picked.canceled || !picked.assets[0]) return { success: true, error: null, photo: null }
+
+        const { uri, width } = picked.assets[0]
+        return { success: true, error: null, photo: { uri, width } }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to open photos'
+        return { success: false, error: message, photo: null }
+      }
+    },
+    []
+  )
+
+  // Always queued first, so an offline save behaves exactly like an online one
+  const addPhoto = useCallback(
+    async (form: PhotoFormData): Promise<{ success: boolean; error: string | null; queued: boolean }> => {
+      if (!user) return { success: false, error: 'Not authenticated', queued: false }
+
+      try {
+        const id = generateUUID()
+        const files = await preparePhotoFiles(form.uri, form.width, id)
+        await enqueuePhotoUpload({
+          id,
+          user_id: user.id,
+          taken_on: form.taken_on,
+          workout_id: form.workout_id,
+          notes: form.notes.trim() || null,
+          ...files,
+          queued_at: new Date().toISOString(),
+        })
+
+        // A successful upload refreshes the gallery itself
+        if (isConnected) await syncPendingUploads()
+        const queued = (await getPendingPhotoUploads()).some(u => u.id === id)
+        if (queued) await fetchPhotos()
+        return { success: true, error: null, queued }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save photo'
+        return { success: false, error: message, queued: false }
+      }
+    },
+    [user, isConnected, syncPendingUploads, fetchPhotos]
+  )
+
+  const deletePhoto = useCallback(
+    async (photo: GalleryPhoto): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      try {
+        if (photo.pending) {
+          const upload = (await getPendingPhotoUploads()).find(u => u.id === photo.id)
+          if (upload) await discardPhotoUpload(upload)
+          setPendingCount(count => Math.max(0, count - 1))
+        } else {
+          const { error: deleteError } = await supabase
+            .from('progress_photos')
+            .delete()
+            .eq('id', photo.id)
+            .eq('user_id', user.id)
+
+          if (deleteError) throw deleteError
+
+          // The row is gone either way; a leftover object is only wasted space
+          const paths = [photo.storage_path, photo.thumbnail_path].filter((p): p is string => !!p)
+          await removePhotoObjects(paths).catch(err =>
+            console.error('Error removing photo files:', err)
+          )
+        }
+
+        setPhotos(prev => prev.filter(p => p.id !== photo.id))
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete photo'
+        return { success: false, error: message }
+      }
+    },
+    [user]
+  )
+
+  // Completed workouts on a day, for linking a photo to one
+  const fetchWorkoutsOn = useCallback(
+    async (dateKey: string): Promise<LinkableWorkout[]> => {
+      if (!user) return []
+
+      try {
+        const { start, end } = getDayBoundaries(dateKey)
+        const { data, error: queryError } = await supabase
+          .from('workouts')
+          .select('id, name, started_at')
+          .eq('user_id', user.id)
+          .eq('status', 'completed')
+          .gte('started_at', start)
+          .lte('started_at', end)
+          .order('started_at', { ascending: true })
+
+        if (queryError) throw queryError
+        return data ?? []
+      } catch (err) {
+        console.error('Error loading workouts for photo:', err)
+        return []
+      }
+    },
+    [user]
+  )
+
+  return {
+    photos,
+    loading,
+    error,
+    pendingCount,
+    fetchPhotos,
+    pickPhoto,
+    addPhoto,
+    deletePhoto,
+    syncPendingUploads,
+    fetchWorkoutsOn,
+  }
+}
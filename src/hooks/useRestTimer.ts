@@ -0,0 +1,153 @@
+// src/hooks/useRestTimer.ts
+// Rest countdown between sets, backed by the persisted end time in lib/restTimer
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { AppState, Vibration, Platform } from 'react-native'
+import {
+  RestTimerState,
+  loadRestTimer,
+  saveRestTimer,
+  getRemainingSeconds,
+  scheduleRestNotification,
+  cancelRestNotification,
+} from '../lib/restTimer'
+
+export function useRestTimer() {
+  const [timer, setTimer] = useState<RestTimerState | null>(null)
+  const [remainingSeconds, setRemainingSeconds] = useState(0)
+  const timerRef = useRef<RestTimerState | null>(null)
+
+  const update = useCallback(async (next: RestTimerState | null) => {
+    timerRef.current = next
+    setTimer(next)
+    await saveRestTimer(next)
+  }, [])
+
+  // Pick up a timer started before the app was closed; drop it if it already ran out
+  useEffect(() => {
+    loadRestTimer().then(stored => {
+      if (!stored) return
+      if (getRemainingSeconds(stored) > 0) {
+        timerRef.current = stored
+        setTimer(stored)
+      } else {
+        saveRestTimer(null)
+      }
+    })
+  }, [])
+
+  // Attach the end-of-rest notification, unless the timer was stopped or
+  // restarted while the OS was scheduling it
+  const armNotification = useCallback(
+    async (endsAt: number) => {
+      const notificationId = await scheduleRestNotification(endsAt)
+      if (timerRef.current?.endsAt === endsAt) {
+        await update({ ...timerRef.current, notificationId })
+      } else {
+        await cancelRestNotification(notificationId)
+      }
+    },
+    [update]
+  )
+
+  const stop = useCallback(async () => {
+    await cancelRestNotification(timerRef.current?.notificationId ?? null)
+    await update(null)
+  }, [update])
+
+  const start = useCallback(
+    async (duration: number) => {
+      await cancelRestNotification(timerRef.current?.notificationId ?? null)
+      const endsAt = Date.now() + duration * 1000
+      await update({ endsAt, pausedRemaining: null, duration, notificationId: null })
+      await armNotification(endsAt)
+    },
+    [update, armNotification]
+  )
+
+  const adjust = useCallback(
+    async (deltaSeconds: number) => {
+      const current = timerRef.current
+      if (!current) return
+
+      if (current.endsAt === null) {
+        const pausedRemaining = Math.max(0, (current.pausedRemaining ?? 0) + deltaSeconds)
+        await update({ ...current, pausedRemaining })
+        return
+      }
+
+      await cancelRestNotification(current.notificationId)
+      const endsAt = Math.max(Date.now(), current.endsAt + deltaSeconds * 1000)
+      const duration = Math.max(current.duration, Math.ceil((endsAt - Date.now()) / 1000))
+      await update({ ...current, endsAt, duration, notificationId: null })
+      await armNotification(endsAt)
+    },
+    [update, armNotification]
+  )
+
+  const togglePause = useCallback(async () => {
+    const current = timerRef.current
+    if (!current) return
+
+    if (current.endsAt !== null) {
+      await cancelRestNotification(current.notificationId)
+      await update({
+        ...current,
+        endsAt: null,
+        pausedRemaining: getRemainingSeconds(current),
+        notificationId: null,
+      })
+      return
+    }
+
+    const endsAt = Date.now() + (current.pausedRemaining ?? 0) * 1000
+    await update({ ...current, endsAt, pausedRemaining: null })
+    await armNotification(endsAt)
+  }, [update, armNotification])
+
+  // Recompute from the end time every second and whenever the app returns
+  // to the foreground
+  useEffect(() => {
+    if (!timer) {
+      setRemainingSeconds(0)
+      return
+    }
+
+    function tick() {
+      if (!timer) return
+      const remaining = getRemainingSeconds(timer)
+      setRemainingSeconds(remaining)
+
+      if (remaining <= 0 && timer.endsAt !== null) {
+        // In the background the notification has already alerted the user
+        if (AppState.currentState === 'active') {
+          Vibration.vibrate(Platform.OS === 'ios' ? [0, 500, 200, 500] : 1000)
+        }
+        update(null)
+      }
+    }
+
+    tick()
+    if (timer.endsAt === null) return
+
+    const interval = setInterval(tick, 1000)
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') tick()
+    })
+
+    return () => {
+      clearInterval(interval)
+      subscription.remove()
+    }
+  }, [timer, update])
+
+  return {
+    isActive: timer !== null,
+    isPaused: timer?.endsAt === null,
+    remainingSeconds,
+    duration: timer?.duration ?? 0,
+    start,
+    adjust,
+    togglePause,
+    stop,
+  }
+}
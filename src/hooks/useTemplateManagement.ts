@@ -48,6 +48,11 @@ export function useTemplateManagement() {
             target_reps: e.target_reps,
             target_rpe: e.target_rpe,
             rest_seconds: e.rest_seconds,
+            warmup_enabled: e.warmup_enabled,
+            load_basis: e.load_basis,
+            set_percentages: e.set_percentages,
+            group_id: e.group_id,
+            group_type: e.group_type,
             notes: e.notes || null,
           }))
 
@@ -115,6 +120,11 @@ export function useTemplateManagement() {
             target_reps: e.target_reps,
             target_rpe: e.target_rpe,
             rest_seconds: e.rest_seconds,
+            warmup_enabled: e.warmup_enabled,
+            load_basis: e.load_basis,
+            set_percentages: e.set_percentages,
+            group_id: e.group_id,
+            group_type: e.group_type,
             notes: e.notes || null,
           }))
 
@@ -0,0 +1,123 @@
+// src/hooks/useVolumeLandmarks.ts
+// The user's MEV/MAV/MRV per muscle group, with defaults filling any muscle
+// they haven't customised
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuthContext } from '../contexts/AuthContext'
+import { MuscleGroup } from '../types/workout'
+import { VolumeLandmarks } from '../types/analytics'
+import { DEFAULT_VOLUME_LANDMARKS, validateLandmarks } from '../utils/volumeLandmarks'
+
+type LandmarkRow = VolumeLandmarks & { muscle_group: MuscleGroup }
+
+export function useVolumeLandmarks() {
+  const { user } = useAuthContext()
+  const [custom, setCustom] = useState<Partial<Record<MuscleGroup, VolumeLandmarks>>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLandmarks = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('volume_landmarks')
+        .select('muscle_group, mev, mav, mrv')
+        .eq('user_id', user.id)
+
+      if (fetchError) throw fetchError
+
+      const rows = (data ?? []) as LandmarkRow[]
+      const next: Partial<Record<MuscleGroup, VolumeLandmarks>> = {}
+      rows.forEach(row => {
+        next[row.muscle_group] = { mev: row.mev, mav: row.mav, mrv: row.mrv }
+      })
+      setCustom(next)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load volume targets'
+      setError(message)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchLandmarks()
+  }, [fetchLandmarks])
+
+  const landmarks = useMemo<Record<MuscleGroup, VolumeLandmarks>>(
+    () => ({ ...DEFAULT_VOLUME_LANDMARKS, ...custom }),
+    [custom]
+  )
+
+  const saveLandmarks = useCallback(
+    async (
+      muscle: MuscleGroup,
+      values: VolumeLandmarks
+    ): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      const invalid = validateLandmarks(values)
+      if (invalid) return { success: false, error: invalid }
+
+      try {
+        const { error: upsertError } = await supabase
+          .from('volume_landmarks')
+          .upsert(
+            { user_id: user.id, muscle_group: muscle, ...values, updated_at: new Date().toISOString() },
+            { onConflict: 'user_id,muscle_group' }
+          )
+
+        if (upsertError) throw upsertError
+
+        setCustom(prev => ({ ...prev, [muscle]: values }))
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save volume targets'
+        return { success: false, error: message }
+      }
+    },
+    [user]
+  )
+
+  // Dropping the row puts the muscle back on the defaults
+  const resetLandmarks = useCallback(
+    async (muscle: MuscleGroup): Promise<{ success: boolean; error: string | null }> => {
+      if (!user) return { success: false, error: 'Not authenticated' }
+
+      try {
+        const { error: deleteError } = await supabase
+          .from('volume_landmarks')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('muscle_group', muscle)
+
+        if (deleteError) throw deleteError
+
+        setCustom(prev => {
+          const next = { ...prev }
+          delete next[muscle]
+          return next
+        })
+        return { success: true, error: null }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to reset volume targets'
+        return { success: false, error: message }
+      }
+    },
+    [user]
+  )
+
+  return {
+    landmarks,
+    customised: custom,
+    loading,
+    error,
+    fetchLandmarks,
+    saveLandmarks,
+    resetLandmarks,
+  }
+}
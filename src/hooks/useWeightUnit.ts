@@ -0,0 +1,9 @@
+// src/hooks/useWeightUnit.ts
+// The signed-in user's preferred display unit (profiles.default_weight_unit)
+import { useAuthContext } from '../contexts/AuthContext'
+import { WeightUnit } from '../types/workout'
+
+export function useWeightUnit(): WeightUnit {
+  const { profile } = useAuthContext()
+  return profile?.default_weight_unit ?? 'kg'
+}
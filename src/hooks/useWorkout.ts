@@ -1,6 +1,14 @@
 // src/hooks/useWorkout.ts
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { supabase } from '../lib/supabase'
+import {
+  enqueueMutation,
+  flushMutationQueue,
+  getPendingMutations,
+  NewQueuedMutation,
+  QueuedMutation,
+  SyncIssue,
+} from '../lib/mutationQueue'
 import {
   Workout,
   WorkoutExercise,
@@ -9,8 +17,33 @@ import {
   NewWorkoutSet,
   PreviousSetData,
   Exercise,
+  PRType,
+  WeightUnit,
+  E1RMFormula,
 } from '../types/workout'
+import { PRHistorySetRow } from '../types/supabase'
 import { useAuthContext } from '../contexts/AuthContext'
+import { useNetworkStatus } from './useNetworkStatus'
+import { generateUUID } from '../utils/uuid'
+import { queueProgramAdvance, retryProgramAdvances } from './usePrograms'
+import { fetchLatestBodyweightKg } from '../lib/measurements'
+import { fetchExerciseMaxes } from '../lib/exerciseMaxes'
+import { readPlateSettings } from './usePlateSettings'
+import { useWeightUnit } from './useWeightUnit'
+import { useE1RMFormula } from './useE1RMFormula'
+import { PercentageTargets, resolvePercentageTargets } from '../utils/percentageTargets'
+import { estimateOneRepMax } from '../utils/oneRepMax'
+import {
+  calcSetVolume,
+  calcWorkoutStats,
+  needsBodyweight,
+} from '../utils/workoutCalculations'
+import {
+  ExerciseBests,
+  buildExerciseBests,
+  detectSetPRs,
+  applySetToBests,
+} from '../utils/personalRecords'
 
 interface UseWorkoutState {
   workout: Workout | null
@@ -19,18 +52,225 @@ interface UseWorkoutState {
   error: string | null
 }
 
-export function useWorkout() {
+interface StartWorkoutOptions {
+  // Program slot this session fulfils; completing it advances the enrollment
+  programDayId?: string
+}
+
+export interface SetPersonalRecords {
+  exerciseName: string
+  types: PRType[]
+  set: WorkoutSet
+}
+
+interface UseWorkoutOptions {
+  // Called for queued writes the server rejected or that conflicted on replay
+  onSyncIssue?: (issue: SyncIssue) => void
+  // Called the moment a logged set beats one or more of the exercise's records
+  onPersonalRecord?: (records: SetPersonalRecords) => void
+}
+
+// PR baselines for the active workout, loaded lazily per exercise
+interface PRSessionCache {
+  workoutId: string | null
+  formula: E1RMFormula | null                 // the formula the bests' e1RMs were built with
+  bests: Record<string, ExerciseBests>        // by exercise_id
+  volumeRecordIds: Record<string, string>     // exercise_id → this session's 'volume' PR row
+}
+
+// "% of 1RM/TM" template loads as plate-rounded weights, by exercise_id. A
+// failed lookup leaves them unresolved rather than blocking the workout.
+async function resolveTemplateLoads(
+  userId: string,
+  template: WorkoutTemplateWithExercises,
+  exercises: WorkoutExercise[],
+  unit: WeightUnit,
+  formula: E1RMFormula
+): Promise<Record<string, PercentageTargets>> {
+  const withLoads = template.template_exercises.filter(
+    te => te.load_basis && te.set_percentages?.length
+  )
+  if (withLoads.length === 0) return {}
+
+  try {
+    const { bases } = await fetchExerciseMaxes(userId, withLoads.map(te => te.exercise_id), formula)
+    const plateSettings = await readPlateSettings(unit)
+
+    const resolved: Record<string, PercentageTargets> = {}
+    withLoads.forEach(te => {
+      const exercise = exercises.find(ex => ex.exercise_id === te.exercise_id)?.exercise
+      const targets = resolvePercentageTargets({
+        loadBasis: te.load_basis,
+        setPercentages: te.set_percentages,
+        targetSets: te.target_sets,
+        bases: bases[te.exercise_id],
+        exerciseId: te.exercise_id,
+        equipment: exercise?.equipment ?? 'other',
+        unit,
+        plateSettings,
+      })
+      if (targets) resolved[te.exercise_id] = targets
+    })
+    return resolved
+  } catch (error) {
+    console.error('Error resolving percentage targets:', error)
+    return {}
+  }
+}
+
+// A new in-progress workout with a client-generated id, so it exists locally
+// before the server has seen it
+function buildWorkout(fields: Pick<Workout, 'user_id' | 'template_id' | 'program_day_id' | 'name'>): Workout {
+  const now = new Date().toISOString()
+  return {
+    ...fields,
+    id: generateUUID(),
+    started_at: now,
+    completed_at: null,
+    status: 'in_progress',
+    notes: null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+// Re-applies not-yet-synced writes on top of freshly fetched exercises so a
+// resumed workout shows everything the user did while offline. Exercises the
+// server hasn't seen yet are rebuilt from their queued inserts.
+function applyPendingMutations(
+  workoutId: string,
+  exercises: WorkoutExercise[],
+  pending: QueuedMutation[]
+): WorkoutExercise[] {
+  const withExercises = pending
+    .filter(m => m.table === 'workout_exercises')
+    .reduce((acc, m) => {
+      if (m.operation === 'insert') {
+        if (m.values.workout_id !== workoutId || acc.some(ex => ex.id === m.rowId)) return acc
+        return [...acc, { ...m.values, ...m.local, id: m.rowId, sets: [] } as unknown as WorkoutExercise]
+      }
+      if (m.operation === 'update') {
+        return acc.map(ex => (ex.id === m.rowId ? { ...ex, ...m.values, ...m.local } : ex))
+      }
+      return acc.filter(ex => ex.id !== m.rowId)
+    }, exercises)
+
+  return pending
+    .filter(m => m.table === 'workout_sets')
+    .reduce((acc, m) => {
+      if (m.operation === 'insert') {
+        const set = { ...m.values, id: m.rowId } as unknown as WorkoutSet
+        return acc.map(ex =>
+          ex.id === set.workout_exercise_id && !ex.sets?.some(s => s.id === set.id)
+            ? { ...ex, sets: [...(ex.sets ?? []), set] }
+            : ex
+        )
+      }
+      if (m.operation === 'update') {
+        return acc.map(ex => ({
+          ...ex,
+          sets: ex.sets?.map(s => (s.id === m.rowId ? { ...s, ...m.values } : s)),
+        }))
+      }
+      return acc.map(ex => ({ ...ex, sets: ex.sets?.filter(s => s.id !== m.rowId) }))
+    }, withExercises)
+    .sort((a, b) => a.order_index - b.order_index)
+}
+
+export function useWorkout(options: UseWorkoutOptions = {}) {
   const { user } = useAuthContext()
+  const unit = useWeightUnit()
+  const formula = useE1RMFormula()
+  const { isConnected } = useNetworkStatus()
   const [state, setState] = useState<UseWorkoutState>({
     workout: null,
     exercises: [],
     loading: false,
     error: null,
   })
+  const [pendingSyncCount, setPendingSyncCount] = useState(0)
+  const [bodyweightKg, setBodyweightKg] = useState<number | null>(null)
+
+  // Keep the latest callback without re-creating every mutation on each render
+  const onSyncIssueRef = useRef(options.onSyncIssue)
+  onSyncIssueRef.current = options.onSyncIssue
+  const onPersonalRecordRef = useRef(options.onPersonalRecord)
+  onPersonalRecordRef.current = options.onPersonalRecord
+  const prCacheRef = useRef<PRSessionCache>({ workoutId: null, formula: null, bests: {}, volumeRecordIds: {} })
+
+  // Replay the persisted queue; safe to call at any time (concurrent calls share one flush)
+  const syncPendingChanges = useCallback(async () => {
+    const { remaining, issues } = await flushMutationQueue()
+    setPendingSyncCount(remaining)
+    issues.forEach(issue => onSyncIssueRef.current?.(issue))
+    // Program sessions finished offline move the enrollment on once they've synced
+    if (user && remaining === 0) {
+      await retryProgramAdvances(user.id)
+    }
+    return { remaining, issues }
+  }, [user])
+
+  // Persist a mutation, then try to push it straight away if we have signal
+  const queueMutation = useCallback(
+    async (mutation: NewQueuedMutation) => {
+      await enqueueMutation(mutation)
+      setPendingSyncCount(count => count + 1)
+      if (isConnected) {
+        await syncPendingChanges()
+      }
+    },
+    [isConnected, syncPendingChanges]
+  )
+
+  // Pick up anything left over from a previous session, and replay on reconnect
+  useEffect(() => {
+    getPendingMutations().then(pending => setPendingSyncCount(pending.length))
+  }, [])
+
+  useEffect(() => {
+    if (isConnected) {
+      syncPendingChanges()
+    }
+  }, [isConnected, syncPendingChanges])
+
+  // Looked up once an unloaded bodyweight set is logged, for the volume total
+  const wantsBodyweight = needsBodyweight(state.exercises)
+  useEffect(() => {
+    if (!user || !wantsBodyweight || bodyweightKg !== null) return
+    fetchLatestBodyweightKg(user.id).then(setBodyweightKg)
+  }, [user, wantsBodyweight, bodyweightKg])
+
+  // The workout row and its exercises go through the queue like every other
+  // write, so a session can start with no signal and reach the server on replay
+  const queueNewWorkout = useCallback(
+    async (workout: Workout, exercises: WorkoutExercise[]) => {
+      const { created_at: _createdAt, updated_at: _updatedAt, ...workoutRow } = workout
+      await queueMutation({
+        table: 'workouts',
+        operation: 'insert',
+        rowId: workout.id,
+        values: workoutRow,
+        description: `Start ${workout.name}`,
+      })
+
+      for (const ex of exercises) {
+        const { created_at: _exCreatedAt, exercise, sets: _sets, ...row } = ex
+        await queueMutation({
+          table: 'workout_exercises',
+          operation: 'insert',
+          rowId: ex.id,
+          values: row,
+          local: { exercise },
+          description: `Add ${exercise?.name ?? 'exercise'}`,
+        })
+      }
+    },
+    [queueMutation]
+  )
 
   // Start a new workout from a template
   const startWorkout = useCallback(
-    async (template: WorkoutTemplateWithExercises) => {
+    async (template: WorkoutTemplateWithExercises, startOptions: StartWorkoutOptions = {}) => {
       if (!user) {
         return { success: false, error: 'Not authenticated' }
       }
@@ -39,37 +279,31 @@ export function useWorkout() {
 
       try {
         // 1. Create the workout record
-        const { data: workout, error: workoutError } = await supabase
-          .from('workouts')
-          .insert({
-            user_id: user.id,
-            template_id: template.id,
-            name: template.name,
-            status: 'in_progress',
-          })
-          .select()
-          .single()
-
-        if (workoutError) throw workoutError
+        const workout = buildWorkout({
+          user_id: user.id,
+          template_id: template.id,
+          program_day_id: startOptions.programDayId ?? null,
+          name: template.name,
+        })
 
         // 2. Create workout_exercises from template_exercises
-        const workoutExercises = template.template_exercises.map((te, index) => ({
+        const exercises: WorkoutExercise[] = template.template_exercises.map(te => ({
+          id: generateUUID(),
           workout_id: workout.id,
           exercise_id: te.exercise_id,
           order_index: te.order_index,
           template_exercise_id: te.id,
           is_substitution: false,
+          group_id: te.group_id ?? null,
+          group_type: te.group_type ?? null,
+          notes: null,
+          created_at: workout.created_at,
+          exercise: te.exercise,
         }))
 
-        const { data: exercises, error: exercisesError } = await supabase
-          .from('workout_exercises')
-          .insert(workoutExercises)
-          .select(`
-            *,
-            exercise:exercises(*)
-          `)
+        await queueNewWorkout(workout, exercises)
 
-        if (exercisesError) throw exercisesError
+        const percentageTargets = await resolveTemplateLoads(user.id, template, exercises, unit, formula)
 
         // Add target sets info from template to each exercise
         const exercisesWithTargets = exercises.map(ex => {
@@ -82,6 +316,8 @@ export function useWorkout() {
             targetReps: templateEx?.target_reps ?? null,
             targetRpe: templateEx?.target_rpe ?? null,
             restSeconds: templateEx?.rest_seconds ?? 90,
+            warmupEnabled: templateEx?.warmup_enabled ?? true,
+            percentageTargets: percentageTargets[ex.exercise_id] ?? null,
             sets: [] as WorkoutSet[],
           }
         })
@@ -100,7 +336,37 @@ export function useWorkout() {
         return { success: false, error: message }
       }
     },
-    [user]
+    [user, unit, formula, queueNewWorkout]
+  )
+
+  // Start an empty ad-hoc workout (no template); exercises are added during the session
+  const startEmptyWorkout = useCallback(
+    async (name = 'Quick Workout') => {
+      if (!user) {
+        return { success: false, error: 'Not authenticated' }
+      }
+
+      setState(prev => ({ ...prev, loading: true, error: null }))
+
+      try {
+        const workout = buildWorkout({ user_id: user.id, template_id: null, program_day_id: null, name })
+        await queueNewWorkout(workout, [])
+
+        setState({
+          workout,
+          exercises: [],
+          loading: false,
+          error: null,
+        })
+
+        return { success: true, error: null, workoutId: workout.id }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to start workout'
+        setState(prev => ({ ...prev, loading: false, error: message }))
+        return { success: false, error: message }
+      }
+    },
+    [user, queueNewWorkout]
   )
 
   // Resume an existing in-progress workout
@@ -108,14 +374,20 @@ export function useWorkout() {
     setState(prev => ({ ...prev, loading: true, error: null }))
 
     try {
+      const pending = await getPendingMutations()
+      const queuedStart = pending.find(
+        m => m.table === 'workouts' && m.operation === 'insert' && m.rowId === workoutId
+      )
+
       // Fetch workout with exercises and sets
-      const { data: workout, error: workoutError } = await supabase
+      const { data: serverWorkout, error: workoutError } = await supabase
         .from('workouts')
         .select('*')
         .eq('id', workoutId)
         .single()
 
-      if (workoutError) throw workoutError
+      // A workout started offline isn't on the server until the queue replays
+      if (workoutError && !queuedStart) throw workoutError
 
       const { data: exercises, error: exercisesError } = await supabase
         .from('workout_exercises')
@@ -127,11 +399,23 @@ export function useWorkout() {
         .eq('workout_id', workoutId)
         .order('order_index')
 
-      if (exercisesError) throw exercisesError
+      if (exercisesError && !queuedStart) throw exercisesError
+
+      const workout = pending
+        .filter(m => m.table === 'workouts' && m.operation === 'update' && m.rowId === workoutId)
+        .reduce<Workout>(
+          (acc, m) => ({ ...acc, ...m.values }),
+          serverWorkout ?? ({
+            ...queuedStart?.values,
+            id: workoutId,
+            created_at: queuedStart?.enqueuedAt,
+            updated_at: queuedStart?.enqueuedAt,
+          } as Workout)
+        )
 
       setState({
         workout,
-        exercises: exercises ?? [],
+        exercises: applyPendingMutations(workoutId, exercises ?? [], pending),
         loading: false,
         error: null,
       })
@@ -144,7 +428,143 @@ export function useWorkout() {
     }
   }, [])
 
-  // Log a set
+  // PR baseline for one exercise: best weight / e1RM / reps-at-weight / session
+  // volume from completed workouts and recorded PRs. Returns null when offline
+  // so detection is simply skipped.
+  const loadExerciseBests = useCallback(
+    async (exerciseId: string): Promise<ExerciseBests | null> => {
+      if (!user) return null
+
+      try {
+        const [setsRes, recordsRes] = await Promise.all([
+          supabase
+            .from('workout_sets')
+            .select(`
+              weight_kg,
+              reps,
+              workout_exercise:workout_exercises!inner(
+                workout_id,
+                exercise_id,
+                workout:workouts!inner(user_id, status)
+              )
+            `)
+            .eq('workout_exercise.exercise_id', exerciseId)
+            .eq('workout_exercise.workout.user_id', user.id)
+            .eq('workout_exercise.workout.status', 'completed')
+            .eq('is_warmup', false),
+          supabase
+            .from('personal_records')
+            .select('pr_type, weight_kg, reps, volume')
+            .eq('user_id', user.id)
+            .eq('exercise_id', exerciseId),
+        ])
+
+        if (setsRes.error) throw setsRes.error
+        if (recordsRes.error) throw recordsRes.error
+
+        const sets = (setsRes.data ?? []).map((row: PRHistorySetRow) => {
+          const we = Array.isArray(row.workout_exercise) ? row.workout_exercise[0] : row.workout_exercise
+          return { workout_id: we?.workout_id ?? '', weight_kg: row.weight_kg, reps: row.reps }
+        })
+
+        return buildExerciseBests(sets, recordsRes.data ?? [], formula)
+      } catch (error) {
+        console.error('Error loading PR baseline:', error)
+        return null
+      }
+    },
+    [user, formula]
+  )
+
+  // Compare a freshly logged working set against the exercise's bests and
+  // queue a personal_records row per category it beats.
+  const recordPersonalRecords = useCallback(
+    async (workoutExercise: WorkoutExercise, set: WorkoutSet): Promise<PRType[]> => {
+      if (!user || !state.workout || set.is_warmup || !set.weight_kg || !set.reps) return []
+
+      // Bests hold e1RMs under one formula, so switching formula starts them afresh
+      if (prCacheRef.current.workoutId !== state.workout.id || prCacheRef.current.formula !== formula) {
+        prCacheRef.current = {
+          workoutId: state.workout.id,
+          formula,
+          bests: {},
+          volumeRecordIds: prCacheRef.current.workoutId === state.workout.id
+            ? prCacheRef.current.volumeRecordIds
+            : {},
+        }
+      }
+
+      const exerciseId = workoutExercise.exercise_id
+      // Offline without a cached baseline: skip rather than wait on a doomed request
+      const cached = prCacheRef.current.bests[exerciseId]
+      if (!cached && !isConnected) return []
+      const bests = cached ?? (await loadExerciseBests(exerciseId))
+      if (!bests) return []
+
+      const sessionVolumeKg = [...(workoutExercise.sets ?? []), set]
+        .filter(s => !s.is_warmup)
+        .reduce((sum, s) => sum + calcSetVolume(s.weight_kg, s.reps), 0)
+
+      const setValues = { weight_kg: set.weight_kg, reps: set.reps }
+      const types = detectSetPRs(bests, setValues, sessionVolumeKg, formula)
+      prCacheRef.current.bests[exerciseId] = applySetToBests(bests, setValues, formula)
+      if (types.length === 0) return []
+
+      const exerciseName = workoutExercise.exercise?.name ?? 'Exercise'
+      const baseRow = {
+        user_id: user.id,
+        exercise_id: exerciseId,
+        weight_kg: set.weight_kg,
+        reps: set.reps,
+        estimated_1rm: Math.round(estimateOneRepMax(set.weight_kg, set.reps, formula) * 10) / 10,
+        workout_set_id: set.id,
+        workout_id: state.workout.id,
+        is_manual: false,
+        achieved_at: set.completed_at,
+      }
+
+      const existingVolumeId = prCacheRef.current.volumeRecordIds[exerciseId]
+
+      for (const type of types) {
+        // One session-volume record per workout, raised as the session total grows
+        if (type === 'volume' && existingVolumeId) {
+          await queueMutation({
+            table: 'personal_records',
+            operation: 'update',
+            rowId: existingVolumeId,
+            values: { volume: sessionVolumeKg, achieved_at: set.completed_at },
+            description: `${exerciseName} volume PR`,
+          })
+          continue
+        }
+
+        const rowId = generateUUID()
+        if (type === 'volume') prCacheRef.current.volumeRecordIds[exerciseId] = rowId
+
+        await queueMutation({
+          table: 'personal_records',
+          operation: 'insert',
+          rowId,
+          // The volume record belongs to the session, not one set, so it
+          // survives deleting the set that happened to cross the line
+          values: type === 'volume'
+            ? { ...baseRow, pr_type: type, volume: sessionVolumeKg, workout_set_id: null }
+            : { ...baseRow, pr_type: type, volume: calcSetVolume(set.weight_kg, set.reps) },
+          description: `${exerciseName} PR`,
+        })
+      }
+
+      // Only announce the session-volume record the first time it's broken
+      const announced = existingVolumeId ? types.filter(t => t !== 'volume') : types
+      if (announced.length > 0) {
+        onPersonalRecordRef.current?.({ exerciseName, types: announced, set })
+      }
+      return types
+    },
+    [user, state.workout, isConnected, formula, loadExerciseBests, queueMutation]
+  )
+
+  // Log a set — applied locally at once, persisted via the offline queue
   const logSet = useCallback(
     async (workoutExerciseId: string, setData: Omit<NewWorkoutSet, 'workout_exercise_id'>) => {
       if (!state.workout) {
@@ -152,16 +572,21 @@ export function useWorkout() {
       }
 
       try {
-        const { data: newSet, error } = await supabase
-          .from('workout_sets')
-          .insert({
-            workout_exercise_id: workoutExerciseId,
-            ...setData,
-          })
-          .select()
-          .single()
-
-        if (error) throw error
+        const now = new Date().toISOString()
+        const newSet: WorkoutSet = {
+          id: generateUUID(),
+          workout_exercise_id: workoutExerciseId,
+          set_number: setData.set_number,
+          weight_kg: setData.weight_kg,
+          reps: setData.reps,
+          rpe: setData.rpe ?? null,
+          is_warmup: setData.is_warmup ?? false,
+          is_failure: setData.is_failure ?? false,
+          is_dropset: setData.is_dropset ?? false,
+          target_reps: setData.target_reps ?? null,
+          completed_at: now,
+          created_at: now,
+        }
 
         // Update local state
         setState(prev => ({
@@ -173,107 +598,279 @@ export function useWorkout() {
           ),
         }))
 
-        return { success: true, error: null, set: newSet }
+        const workoutExercise = state.exercises.find(ex => ex.id === workoutExerciseId)
+        const exerciseName = workoutExercise?.exercise?.name ?? 'Exercise'
+        const { created_at: _createdAt, ...row } = newSet
+
+        await queueMutation({
+          table: 'workout_sets',
+          operation: 'insert',
+          rowId: newSet.id,
+          values: row,
+          description: `${exerciseName} set ${newSet.set_number}`,
+        })
+
+        const prs = workoutExercise ? await recordPersonalRecords(workoutExercise, newSet) : []
+
+        return { success: true, error: null, set: newSet, prs }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to log set'
         return { success: false, error: message }
       }
     },
-    [state.workout]
+    [state.workout, state.exercises, queueMutation, recordPersonalRecords]
+  )
+
+  // Drop the records a logged set earned and detect again from its corrected
+  // numbers, so a fixed typo doesn't leave a PR behind
+  const reevaluateSetRecords = useCallback(
+    async (workoutExercise: WorkoutExercise, corrected: WorkoutSet) => {
+      if (!state.workout) return
+
+      const exerciseId = workoutExercise.exercise_id
+      const exerciseName = workoutExercise.exercise?.name ?? 'Exercise'
+
+      await queueMutation({
+        table: 'personal_records',
+        operation: 'delete',
+        rowId: corrected.id,
+        match: { workout_set_id: corrected.id },
+        values: {},
+        description: `${exerciseName} PR`,
+      })
+      // The session-volume record isn't tied to a set, so it's rebuilt from the new total
+      await queueMutation({
+        table: 'personal_records',
+        operation: 'delete',
+        rowId: state.workout.id,
+        match: { workout_id: state.workout.id, exercise_id: exerciseId, pr_type: 'volume' },
+        values: {},
+        description: `${exerciseName} volume PR`,
+      })
+      delete prCacheRef.current.volumeRecordIds[exerciseId]
+
+      // Offline there's no baseline to detect against, so the set simply loses its records
+      const otherSets = (workoutExercise.sets ?? []).filter(s => s.id !== corrected.id)
+      await recordPersonalRecords({ ...workoutExercise, sets: otherSets }, corrected)
+    },
+    [state.workout, queueMutation, recordPersonalRecords]
   )
 
   // Update an existing set
   const updateSet = useCallback(
     async (setId: string, updates: Partial<WorkoutSet>) => {
       try {
-        const { data: updatedSet, error } = await supabase
-          .from('workout_sets')
-          .update(updates)
-          .eq('id', setId)
-          .select()
-          .single()
+        const workoutExercise = state.exercises.find(ex => ex.sets?.some(s => s.id === setId))
+        const before = workoutExercise?.sets?.find(s => s.id === setId)
 
-        if (error) throw error
+        // Edited numbers make the cached PR baselines stale
+        prCacheRef.current.bests = {}
 
         // Update local state
         setState(prev => ({
           ...prev,
           exercises: prev.exercises.map(ex => ({
             ...ex,
-            sets: ex.sets?.map(s => (s.id === setId ? updatedSet : s)),
+            sets: ex.sets?.map(s => (s.id === setId ? { ...s, ...updates } : s)),
           })),
         }))
 
+        await queueMutation({
+          table: 'workout_sets',
+          operation: 'update',
+          rowId: setId,
+          values: updates,
+          description: 'Set update',
+        })
+
+        const affectsRecords = 'weight_kg' in updates || 'reps' in updates || 'is_warmup' in updates
+        if (workoutExercise && before && affectsRecords) {
+          await reevaluateSetRecords(workoutExercise, { ...before, ...updates })
+        }
+
         return { success: true, error: null }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to update set'
         return { success: false, error: message }
       }
     },
-    []
+    [state.exercises, queueMutation, reevaluateSetRecords]
   )
 
   // Delete a set
-  const deleteSet = useCallback(async (setId: string, workoutExerciseId: string) => {
-    try {
-      const { error } = await supabase
-        .from('workout_sets')
-        .delete()
-        .eq('id', setId)
-
-      if (error) throw error
-
-      // Update local state
-      setState(prev => ({
-        ...prev,
-        exercises: prev.exercises.map(ex =>
-          ex.id === workoutExerciseId
-            ? { ...ex, sets: ex.sets?.filter(s => s.id !== setId) }
-            : ex
-        ),
-      }))
+  const deleteSet = useCallback(
+    async (setId: string, workoutExerciseId: string) => {
+      try {
+        prCacheRef.current.bests = {}
 
-      return { success: true, error: null }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to delete set'
-      return { success: false, error: message }
-    }
-  }, [])
+        // Update local state
+        setState(prev => ({
+          ...prev,
+          exercises: prev.exercises.map(ex =>
+            ex.id === workoutExerciseId
+              ? { ...ex, sets: ex.sets?.filter(s => s.id !== setId) }
+              : ex
+          ),
+        }))
+
+        await queueMutation({
+          table: 'workout_sets',
+          operation: 'delete',
+          rowId: setId,
+          values: {},
+          description: 'Set deletion',
+        })
+
+        return { success: true, error: null }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete set'
+        return { success: false, error: message }
+      }
+    },
+    [queueMutation]
+  )
 
   // Swap an exercise
   const swapExercise = useCallback(
-    async (workoutExerciseId: string, newExerciseId: string) => {
+    async (workoutExerciseId: string, newExercise: Exercise) => {
       try {
-        const { data, error } = await supabase
-          .from('workout_exercises')
-          .update({
-            exercise_id: newExerciseId,
-            is_substitution: true,
-          })
-          .eq('id', workoutExerciseId)
-          .select(`
-            *,
-            exercise:exercises(*)
-          `)
-          .single()
-
-        if (error) throw error
-
         // Update local state
         setState(prev => ({
           ...prev,
           exercises: prev.exercises.map(ex =>
-            ex.id === workoutExerciseId ? { ...data, sets: [] } : ex
+            ex.id === workoutExerciseId
+              ? {
+                  ...ex,
+                  exercise_id: newExercise.id,
+                  exercise: newExercise,
+                  is_substitution: true,
+                  sets: [],
+                }
+              : ex
           ),
         }))
 
+        await queueMutation({
+          table: 'workout_exercises',
+          operation: 'update',
+          rowId: workoutExerciseId,
+          values: { exercise_id: newExercise.id, is_substitution: true },
+          local: { exercise: newExercise },
+          description: `Swap to ${newExercise.name}`,
+        })
+
         return { success: true, error: null }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to swap exercise'
         return { success: false, error: message }
       }
     },
-    []
+    [queueMutation]
+  )
+
+  // Append an exercise to the active workout
+  const addExercise = useCallback(
+    async (exercise: Exercise) => {
+      if (!state.workout) {
+        return { success: false, error: 'No active workout' }
+      }
+
+      try {
+        const workoutExercise: WorkoutExercise = {
+          id: generateUUID(),
+          workout_id: state.workout.id,
+          exercise_id: exercise.id,
+          order_index: state.exercises.reduce((next, ex) => Math.max(next, ex.order_index + 1), 0),
+          template_exercise_id: null,
+          is_substitution: false,
+          group_id: null,
+          group_type: null,
+          notes: null,
+          created_at: new Date().toISOString(),
+        }
+
+        // Update local state
+        setState(prev => ({
+          ...prev,
+          exercises: [...prev.exercises, { ...workoutExercise, exercise, sets: [] }],
+        }))
+
+        const { created_at: _createdAt, ...row } = workoutExercise
+
+        await queueMutation({
+          table: 'workout_exercises',
+          operation: 'insert',
+          rowId: workoutExercise.id,
+          values: row,
+          local: { exercise },
+          description: `Add ${exercise.name}`,
+        })
+
+        return { success: true, error: null, workoutExercise }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to add exercise'
+        return { success: false, error: message }
+      }
+    },
+    [state.workout, state.exercises, queueMutation]
+  )
+
+  // Remove an exercise (and its logged sets), closing the gap in order_index
+  const removeExercise = useCallback(
+    async (workoutExerciseId: string) => {
+      const target = state.exercises.find(ex => ex.id === workoutExerciseId)
+      if (!state.workout || !target) {
+        return { success: false, error: 'Exercise not found' }
+      }
+
+      try {
+        const reindexed = state.exercises
+          .filter(ex => ex.id !== workoutExerciseId)
+          .map((ex, i) => ({ ...ex, order_index: i }))
+
+        // Update local state
+        setState(prev => ({ ...prev, exercises: reindexed }))
+
+        const exerciseName = target.exercise?.name ?? 'Exercise'
+
+        // Sets first so nothing is left pointing at the removed row
+        for (const set of target.sets ?? []) {
+          await queueMutation({
+            table: 'workout_sets',
+            operation: 'delete',
+            rowId: set.id,
+            values: {},
+            description: `${exerciseName} set ${set.set_number}`,
+          })
+        }
+
+        await queueMutation({
+          table: 'workout_exercises',
+          operation: 'delete',
+          rowId: workoutExerciseId,
+          values: {},
+          description: `Remove ${exerciseName}`,
+        })
+
+        for (const ex of reindexed) {
+          const before = state.exercises.find(e => e.id === ex.id)
+          if (before?.order_index === ex.order_index) continue
+          await queueMutation({
+            table: 'workout_exercises',
+            operation: 'update',
+            rowId: ex.id,
+            values: { order_index: ex.order_index },
+            description: 'Exercise order',
+          })
+        }
+
+        return { success: true, error: null }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to remove exercise'
+        return { success: false, error: message }
+      }
+    },
+    [state.workout, state.exercises, queueMutation]
   )
 
   // Reorder exercises within the active workout
@@ -288,16 +885,18 @@ export function useWorkout() {
 
       setState(prev => ({ ...prev, exercises: reindexed }))
 
-      await Promise.all(
-        reindexed.map(e =>
-          supabase
-            .from('workout_exercises')
-            .update({ order_index: e.order_index })
-            .eq('id', e.id)
-        )
-      )
+      // Queue sequentially so replay order matches the order the user saw
+      for (const e of reindexed) {
+        await queueMutation({
+          table: 'workout_exercises',
+          operation: 'update',
+          rowId: e.id,
+          values: { order_index: e.order_index },
+          description: 'Exercise order',
+        })
+      }
     },
-    [state.workout, state.exercises]
+    [state.workout, state.exercises, queueMutation]
   )
 
   // Complete the workout
@@ -308,20 +907,34 @@ export function useWorkout() {
       }
 
       try {
-        const { data, error } = await supabase
-          .from('workouts')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            notes: notes || null,
-          })
-          .eq('id', state.workout.id)
-          .select()
-          .single()
+        // Queued behind the session's sets, so the server sees it complete
+        // only once everything logged before it has landed
+        const changes = {
+          status: 'completed' as const,
+          completed_at: new Date().toISOString(),
+          notes: notes || null,
+        }
+        const completedWorkout: Workout = { ...state.workout, ...changes }
 
-        if (error) throw error
+        await queueMutation({
+          table: 'workouts',
+          operation: 'update',
+          rowId: state.workout.id,
+          values: changes,
+          description: `Finish ${state.workout.name}`,
+        })
 
-        const completedWorkout = data
+        // Queued too, so a session finished offline still advances the program
+        let warning: string | null = null
+        if (user && state.workout.program_day_id) {
+          await queueProgramAdvance(user.id, state.workout.program_day_id)
+          const { remaining } = isConnected
+            ? await retryProgramAdvances(user.id)
+            : { remaining: 1 }
+          if (remaining > 0) {
+            warning = 'Your program will move to the next session once this workout syncs'
+          }
+        }
 
         // Clear state
         setState({
@@ -331,13 +944,13 @@ export function useWorkout() {
           error: null,
         })
 
-        return { success: true, error: null, workout: completedWorkout }
+        return { success: true, error: null, workout: completedWorkout, warning }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to complete workout'
         return { success: false, error: message }
       }
     },
-    [state.workout]
+    [user, isConnected, state.workout, queueMutation]
   )
 
   // Abandon the workout
@@ -347,15 +960,25 @@ export function useWorkout() {
     }
 
     try {
-      const { error } = await supabase
-        .from('workouts')
-        .update({
-          status: 'abandoned',
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', state.workout.id)
+      // Records set during a discarded session must not outlive it or become
+      // the baseline for the next one
+      await queueMutation({
+        table: 'personal_records',
+        operation: 'delete',
+        rowId: state.workout.id,
+        match: { workout_id: state.workout.id },
+        values: {},
+        description: 'Session PRs',
+      })
+      prCacheRef.current = { workoutId: null, formula: null, bests: {}, volumeRecordIds: {} }
 
-      if (error) throw error
+      await queueMutation({
+        table: 'workouts',
+        operation: 'update',
+        rowId: state.workout.id,
+        values: { status: 'abandoned', completed_at: new Date().toISOString() },
+        description: `Abandon ${state.workout.name}`,
+      })
 
       // Clear state
       setState({
@@ -370,7 +993,7 @@ export function useWorkout() {
       const message = error instanceof Error ? error.message : 'Failed to abandon workout'
       return { success: false, error: message }
     }
-  }, [state.workout])
+  }, [state.workout, queueMutation])
 
   // Get previous set data for an exercise (for pre-filling)
   const getPreviousSets = useCallback(
@@ -410,7 +1033,7 @@ export function useWorkout() {
         // Step 3: Fetch the sets for that workout_exercise
         const { data: sets, error: setsError } = await supabase
           .from('workout_sets')
-          .select('set_number, weight_kg, reps')
+          .select('set_number, weight_kg, reps, rpe')
           .eq('workout_exercise_id', workoutExercise.id)
           .eq('is_warmup', false)
           .order('set_number', { ascending: true })
@@ -425,6 +1048,7 @@ export function useWorkout() {
             set_number: s.set_number,
             weight_kg: s.weight_kg,
             reps: s.reps,
+            rpe: s.rpe ?? null,
           }))
       } catch (error) {
         console.error('Error fetching previous sets:', error)
@@ -436,20 +1060,7 @@ export function useWorkout() {
 
   // Calculate workout stats
   const getWorkoutStats = useCallback(() => {
-    const totalSets = state.exercises.reduce(
-      (acc, ex) => acc + (ex.sets?.filter(s => !s.is_warmup).length ?? 0),
-      0
-    )
-    const totalVolume = state.exercises.reduce(
-      (acc, ex) =>
-        acc +
-        (ex.sets?.reduce(
-          (setAcc, s) =>
-            setAcc + (!s.is_warmup && s.weight_kg && s.reps ? s.weight_kg * s.reps : 0),
-          0
-        ) ?? 0),
-      0
-    )
+    const { totalSets, totalVolumeKg } = calcWorkoutStats(state.exercises, bodyweightKg)
     const exerciseCount = state.exercises.length
     const completedExercises = state.exercises.filter(
       ex => (ex.sets?.filter(s => !s.is_warmup).length ?? 0) > 0
@@ -457,11 +1068,11 @@ export function useWorkout() {
 
     return {
       totalSets,
-      totalVolume: Math.round(totalVolume),
+      totalVolume: totalVolumeKg,
       exerciseCount,
       completedExercises,
     }
-  }, [state.exercises])
+  }, [state.exercises, bodyweightKg])
 
   return {
     workout: state.workout,
@@ -469,16 +1080,21 @@ export function useWorkout() {
     loading: state.loading,
     error: state.error,
     isActive: !!state.workout,
+    pendingSyncCount,
     startWorkout,
+    startEmptyWorkout,
     resumeWorkout,
     logSet,
     updateSet,
     deleteSet,
     swapExercise,
+    addExercise,
+    removeExercise,
     reorderExercise,
     completeWorkout,
     abandonWorkout,
     getPreviousSets,
     getWorkoutStats,
+    syncPendingChanges,
   }
 }
@@ -1,12 +1,24 @@
 // src/hooks/useWorkoutHistory.ts
 // SEDP-63/64/65/66: Workout history data fetching
+// Corrections to completed workouts, with PR replay for what they touch
+// Back-dated workouts logged after the fact go through the same replay
 import { useState, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuthContext } from '../contexts/AuthContext'
-import { WorkoutSummary } from '../types/workout'
-import { WorkoutWithExercisesRow, WorkoutExerciseRow, WorkoutSetRow } from '../types/supabase'
+import { ExerciseGroupType, WorkoutSummary } from '../types/workout'
+import {
+  WorkoutWithExercisesRow,
+  WorkoutExerciseRow,
+  WorkoutSetRow,
+  ExerciseHistoryRow,
+} from '../types/supabase'
 import { getMonthBoundaries, toDateKey } from '../utils/dateHelpers'
-import { calcSetVolume } from '../utils/workoutCalculations'
+import { fetchLatestBodyweightKg } from '../lib/measurements'
+import { recomputePersonalRecords } from '../lib/personalRecords'
+import { invalidateAnalytics } from '../lib/analyticsCache'
+import { useE1RMFormula } from './useE1RMFormula'
+import { isWorkoutEditEmpty, planWorkoutEdit, validateWorkoutEdit } from '../utils/workoutEdits'
+import { calcWorkoutStats, needsBodyweight } from '../utils/workoutCalculations'
 import { colors } from '../theme'
 
 export type MarkedDates = Record<string, { marked: boolean; dotColor: string; selected?: boolean }>
@@ -26,6 +38,8 @@ export interface WorkoutDetail {
     id: string
     order_index: number
     is_substitution: boolean
+    group_id: string | null
+    group_type: ExerciseGroupType | null
     exercise: {
       id: string
       name: string
@@ -42,12 +56,31 @@ export interface WorkoutDetail {
       is_warmup: boolean
       is_failure: boolean
       is_dropset: boolean
+      completed_at: string
     }[]
   }[]
 }
 
+// One completed workout's sets for a single exercise
+export interface ExerciseSession {
+  workout_id: string
+  workout_name: string
+  started_at: string
+  sets: WorkoutSetRow[]
+}
+
+// Undo a logged workout whose exercises or sets failed to write
+async function deletePastWorkout(workoutId: string, workoutExerciseIds: string[]): Promise<void> {
+  if (workoutExerciseIds.length > 0) {
+    await supabase.from('workout_sets').delete().in('workout_exercise_id', workoutExerciseIds)
+  }
+  await supabase.from('workout_exercises').delete().eq('workout_id', workoutId)
+  await supabase.from('workouts').delete().eq('id', workoutId)
+}
+
 export function useWorkoutHistory() {
   const { user } = useAuthContext()
+  const formula = useE1RMFormula()
   const [summaries, setSummaries] = useState<WorkoutSummary[]>([])
   const [markedDates, setMarkedDates] = useState<MarkedDates>({})
   const [loading, setLoading] = useState(false)
@@ -76,6 +109,7 @@ export function useWorkoutHistory() {
             notes,
             workout_exercises(
               id,
+              exercise:exercises(equipment),
               sets:workout_sets(id, weight_kg, reps, is_warmup)
             )
           `)
@@ -87,18 +121,14 @@ export function useWorkoutHistory() {
 
         if (queryError) throw queryError
 
-        const computed: WorkoutSummary[] = (data as WorkoutWithExercisesRow[] ?? []).map((w) => {
-          const exercises = w.workout_exercises ?? []
-          let totalSets = 0
-          let totalVolume = 0
+        const rows = (data ?? []) as unknown as WorkoutWithExercisesRow[]
+        const bodyweightKg = rows.some(w => needsBodyweight(w.workout_exercises ?? []))
+          ? await fetchLatestBodyweightKg(user.id)
+          : null
 
-          exercises.forEach((we: WorkoutExerciseRow) => {
-            const workingSets = (we.sets ?? []).filter((s: WorkoutSetRow) => !s.is_warmup)
-            totalSets += workingSets.length
-            workingSets.forEach((s: WorkoutSetRow) => {
-              totalVolume += calcSetVolume(s.weight_kg, s.reps)
-            })
-          })
+        const computed: WorkoutSummary[] = rows.map((w) => {
+          const exercises = w.workout_exercises ?? []
+          const { totalSets, totalVolumeKg } = calcWorkoutStats(exercises, bodyweightKg)
 
           const durationMinutes =
             w.completed_at && w.started_at
@@ -118,7 +148,7 @@ export function useWorkoutHistory() {
             duration_minutes: durationMinutes,
             exercise_count: exercises.length,
             total_sets: totalSets,
-            total_volume_kg: Math.round(totalVolume),
+            total_volume_kg: totalVolumeKg,
           }
         })
 
@@ -175,19 +205,17 @@ export function useWorkoutHistory() {
             id: we.id,
             order_index: we.order_index,
             is_substitution: (we as any).is_substitution as boolean,
+            group_id: we.group_id ?? null,
+            group_type: we.group_type ?? null,
             exercise: we.exercise as WorkoutDetail['exercises'][number]['exercise'],
-            sets: (we.sets ?? []).sort((a, b) => (a.set_number ?? 0) - (b.set_number ?? 0)),
+            // select(*) brings completed_at, which the shared row type leaves out
+            sets: ((we.sets ?? []) as WorkoutDetail['exercises'][number]['sets']).sort(
+              (a, b) => (a.set_number ?? 0) - (b.set_number ?? 0)
+            ),
           }))
 
-        let totalSets = 0
-        let totalVolume = 0
-        exercises.forEach((ex) => {
-          const workingSets = ex.sets.filter((s: WorkoutSetRow) => !s.is_warmup)
-          totalSets += workingSets.length
-          workingSets.forEach((s: WorkoutSetRow) => {
-            totalVolume += calcSetVolume(s.weight_kg, s.reps)
-          })
-        })
+        const bodyweightKg = needsBodyweight(exercises) ? await fetchLatestBodyweightKg(user.id) : null
+        const { totalSets, totalVolumeKg } = calcWorkoutStats(exercises, bodyweightKg)
 
         const durationMinutes =
           data.completed_at && data.started_at
@@ -206,7 +234,7 @@ export function useWorkoutHistory() {
           notes: data.notes,
           duration_minutes: durationMinutes,
           total_sets: totalSets,
-          total_volume_kg: Math.round(totalVolume),
+          total_volume_kg: totalVolumeKg,
           exercises,
         }
       } catch (err) {
@@ -221,6 +249,213 @@ export function useWorkoutHistory() {
     [user]
   )
 
+  // Every completed session of one exercise, newest first
+  const fetchExerciseHistory = useCallback(
+    async (exerciseId: string): Promise<ExerciseSession[]> => {
+      if (!user) return []
+
+      try {
+        const { data, error: queryError } = await supabase
+          .from('workout_exercises')
+          .select(`
+            id,
+            workout:workouts!inner(id, name, started_at, status, user_id),
+            sets:workout_sets(id, set_number, weight_kg, reps, rpe, is_warmup, is_failure, is_dropset)
+          `)
+          .eq('exercise_id', exerciseId)
+          .eq('workout.user_id', user.id)
+          .eq('workout.status', 'completed')
+
+        if (queryError) throw queryError
+
+        // An exercise can appear twice in one workout; merge those into one session
+        const sessions = new Map<string, ExerciseSession>()
+        ;((data as ExerciseHistoryRow[]) ?? []).forEach((row) => {
+          const workout = Array.isArray(row.workout) ? row.workout[0] : row.workout
+          if (!workout) return
+          const session = sessions.get(workout.id) ?? {
+            workout_id: workout.id,
+            workout_name: workout.name,
+            started_at: workout.started_at,
+            sets: [],
+          }
+          session.sets.push(...(row.sets ?? []))
+          sessions.set(workout.id, session)
+        })
+
+        return Array.from(sessions.values())
+          .map((s) => ({ ...s, sets: s.sets.sort((a, b) => a.set_number - b.set_number) }))
+          .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch exercise history'
+        setError(message)
+        console.error('Error fetching exercise history:', err)
+        return []
+      }
+    },
+    [user]
+  )
+
+  // Writes the difference between the loaded workout and its edited copy,
+  // then replays PRs for every exercise whose sets changed
+  const saveWorkoutEdits = useCallback(
+    async (
+      original: WorkoutDetail,
+      edited: WorkoutDetail
+    ): Promise<{ success: boolean; error: string | null; recordsUpdated: number }> => {
+      if (!user) return { success: false, error: 'Not authenticated', recordsUpdated: 0 }
+
+      const invalid = validateWorkoutEdit(edited)
+      if (invalid) return { success: false, error: invalid, recordsUpdated: 0 }
+
+      const plan = planWorkoutEdit(original, edited)
+      if (isWorkoutEditEmpty(plan)) return { success: true, error: null, recordsUpdated: 0 }
+
+      try {
+        if (plan.workout) {
+          const { error: workoutError } = await supabase
+            .from('workouts')
+            .update(plan.workout)
+            .eq('id', original.id)
+          if (workoutError) throw workoutError
+        }
+
+        // Sets before their exercise rows, so nothing is left pointing at a removed row
+        if (plan.deletedSetIds.length > 0) {
+          const { error: deleteError } = await supabase
+            .from('workout_sets')
+            .delete()
+            .in('id', plan.deletedSetIds)
+          if (deleteError) throw deleteError
+        }
+
+        if (plan.removedExerciseIds.length > 0) {
+          const { error: removeError } = await supabase
+            .from('workout_exercises')
+            .delete()
+            .in('id', plan.removedExerciseIds)
+          if (removeError) throw removeError
+        }
+
+        if (plan.addedExercises.length > 0) {
+          const { error: addError } = await supabase
+            .from('workout_exercises')
+            .insert(plan.addedExercises)
+          if (addError) throw addError
+        }
+
+        for (const { id, changes } of plan.updatedExercises) {
+          const { error: exerciseError } = await supabase
+            .from('workout_exercises')
+            .update(changes)
+            .eq('id', id)
+          if (exerciseError) throw exerciseError
+        }
+
+        if (plan.insertedSets.length > 0) {
+          const { error: insertError } = await supabase
+            .from('workout_sets')
+            .insert(plan.insertedSets)
+          if (insertError) throw insertError
+        }
+
+        for (const { id, changes } of plan.updatedSets) {
+          const { error: setError } = await supabase
+            .from('workout_sets')
+            .update(changes)
+            .eq('id', id)
+          if (setError) throw setError
+        }
+
+        const recordsUpdated =
+          plan.affectedExerciseIds.length > 0
+            ? await recomputePersonalRecords(user.id, plan.affectedExerciseIds, formula)
+            : 0
+
+        invalidateAnalytics()
+        return { success: true, error: null, recordsUpdated }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save workout'
+        console.error('Error saving workout edits:', err)
+        return { success: false, error: message, recordsUpdated: 0 }
+      }
+    },
+    [user, formula]
+  )
+
+  // Writes a finished workout in one go. The draft carries client ids, so the
+  // exercise and set rows come from the same plan an edit would produce.
+  const logPastWorkout = useCallback(
+    async (
+      draft: WorkoutDetail,
+      templateId: string | null
+    ): Promise<{
+      success: boolean
+      error: string | null
+      workoutId: string | null
+      recordsUpdated: number
+      warning: string | null
+    }> => {
+      if (!user) return { success: false, error: 'Not authenticated', workoutId: null, recordsUpdated: 0, warning: null }
+
+      const invalid =
+        (!draft.name.trim() && 'Give the workout a name') ||
+        (!draft.completed_at && 'Set how long the workout took') ||
+        (!draft.exercises.some(ex => ex.sets.length > 0) && 'Log at least one set') ||
+        validateWorkoutEdit(draft)
+      if (invalid) return { success: false, error: invalid, workoutId: null, recordsUpdated: 0, warning: null }
+
+      const plan = planWorkoutEdit({ ...draft, exercises: [] }, draft)
+
+      try {
+        const { error: workoutError } = await supabase.from('workouts').insert({
+          id: draft.id,
+          user_id: user.id,
+          template_id: templateId,
+          name: draft.name.trim(),
+          started_at: draft.started_at,
+          completed_at: draft.completed_at,
+          notes: draft.notes,
+          status: 'completed',
+        })
+        if (workoutError) throw workoutError
+
+        try {
+          const { error: exercisesError } = await supabase
+            .from('workout_exercises')
+            .insert(plan.addedExercises)
+          if (exercisesError) throw exercisesError
+
+          const { error: setsError } = await supabase.from('workout_sets').insert(plan.insertedSets)
+          if (setsError) throw setsError
+        } catch (err) {
+          // Leave nothing half-written behind, or a retry collides on draft.id
+          await deletePastWorkout(draft.id, plan.addedExercises.map(ex => ex.id)).catch(() => undefined)
+          throw err
+        }
+
+        // The workout is saved by now; a failed replay is a warning, since
+        // retrying the whole log would collide on draft.id
+        let recordsUpdated = 0
+        let warning: string | null = null
+        try {
+          recordsUpdated = await recomputePersonalRecords(user.id, plan.affectedExerciseIds, formula)
+        } catch (err) {
+          console.error('Error recalculating PRs for past workout:', err)
+          warning = 'Workout logged, but personal records could not be recalculated'
+        }
+
+        invalidateAnalytics()
+        return { success: true, error: null, workoutId: draft.id, recordsUpdated, warning }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to log workout'
+        console.error('Error logging past workout:', err)
+        return { success: false, error: message, workoutId: null, recordsUpdated: 0, warning: null }
+      }
+    },
+    [user, formula]
+  )
+
   return {
     summaries,
     markedDates,
@@ -228,5 +463,8 @@ export function useWorkoutHistory() {
     error,
     fetchWorkoutSummaries,
     fetchWorkoutDetail,
+    fetchExerciseHistory,
+    saveWorkoutEdits,
+    logPastWorkout,
   }
 }
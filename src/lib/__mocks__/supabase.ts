@@ -36,6 +36,9 @@ export const mockChain: any = {
   order: jest.fn().mockReturnThis(),
   limit: jest.fn().mockReturnThis(),
   in: jest.fn().mockReturnThis(),
+  ilike: jest.fn().mockReturnThis(),
+  range: jest.fn().mockReturnThis(),
+  not: jest.fn().mockReturnThis(),
   single: jest.fn().mockImplementation(() => Promise.resolve(dequeue())),
   // thenable: makes `await supabase.from(...).select(...)` work
   then(resolve: (v: MockResponse) => any, reject?: (e: any) => any) {
@@ -56,6 +59,9 @@ export function setupChain() {
   mockChain.order.mockReturnThis()
   mockChain.limit.mockReturnThis()
   mockChain.in.mockReturnThis()
+  mockChain.ilike.mockReturnThis()
+  mockChain.range.mockReturnThis()
+  mockChain.not.mockReturnThis()
   mockChain.single.mockImplementation(() => Promise.resolve(dequeue()))
 }
 
@@ -94,7 +100,32 @@ export function triggerAuthStateChange(event: string, session: any) {
   _authStateCallback?.(event, session)
 }
 
+// ── Storage mock ──────────────────────────────────────────────────────────────
+// One bucket object for every bucket; call setupStorage() in beforeEach.
+
+export const mockStorageBucket = {
+  upload: jest.fn(),
+  remove: jest.fn(),
+  createSignedUrls: jest.fn(),
+}
+
+export function setupStorage() {
+  mockStorageBucket.upload.mockImplementation((path: string) =>
+    Promise.resolve({ data: { path }, error: null })
+  )
+  mockStorageBucket.remove.mockResolvedValue({ data: [], error: null })
+  mockStorageBucket.createSignedUrls.mockImplementation((paths: string[]) =>
+    Promise.resolve({
+      data: paths.map(path => ({ path, signedUrl: `https://signed/${path}`, error: null })),
+      error: null,
+    })
+  )
+}
+
+export const mockStorageFrom = jest.fn().mockReturnValue(mockStorageBucket)
+
 export const supabase = {
   from: mockFrom,
   auth: mockAuth,
+  storage: { from: mockStorageFrom },
 }
@@ -0,0 +1,26 @@
+// src/lib/analyticsCache.ts
+// Analytics tabs hold on to what they fetched while mounted. Anything that
+// rewrites past workouts bumps this version so they reload instead of
+// showing stale volume, progress and PRs.
+
+type Listener = (version: number) => void
+
+let version = 0
+const listeners = new Set<Listener>()
+
+export function getAnalyticsVersion(): number {
+  return version
+}
+
+export function invalidateAnalytics(): void {
+  version += 1
+  listeners.forEach(listener => listener(version))
+}
+
+// Returns the unsubscribe function, for use as an effect cleanup
+export function subscribeToAnalytics(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
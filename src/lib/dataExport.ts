@@ -0,0 +1,83 @@
+// src/lib/dataExport.ts
+// Pulls a user's completed training history out of Supabase page by page and
+// hands the rendered file to the OS share sheet.
+import { File, Paths } from 'expo-file-system'
+import * as Sharing from 'expo-sharing'
+import { supabase } from './supabase'
+import { fetchAllPages, fetchByIds } from './pagedQuery'
+import { ExportFileType, ExportTables } from '../types/export'
+
+// Completed workouts started on or after `from` and every row hanging off them.
+// PRs are filtered on their own date so manual entries in the range are kept.
+export async function fetchExportTables(userId: string, from: string | null): Promise<ExportTables> {
+  const workouts = await fetchAllPages<ExportTables['workouts'][number]>(() => {
+    let query = supabase
+      .from('workouts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+    if (from) query = query.gte('started_at', from)
+    return query.order('started_at').order('id')
+  })
+
+  const workoutExercises = await fetchByIds<ExportTables['workout_exercises'][number]>(
+    workouts.map(w => w.id),
+    chunk => supabase.from('workout_exercises').select('*').in('workout_id', chunk).order('id')
+  )
+
+  const workoutSets = await fetchByIds<ExportTables['workout_sets'][number]>(
+    workoutExercises.map(we => we.id),
+    chunk => supabase.from('workout_sets').select('*').in('workout_exercise_id', chunk).order('id')
+  )
+
+  const personalRecords = await fetchAllPages<ExportTables['personal_records'][number]>(() => {
+    let query = supabase.from('personal_records').select('*').eq('user_id', userId)
+    if (from) query = query.gte('achieved_at', from)
+    return query.order('achieved_at').order('id')
+  })
+
+  const exerciseIds = Array.from(
+    new Set([
+      ...workoutExercises.map(we => we.exercise_id),
+      ...personalRecords.map(pr => pr.exercise_id),
+    ])
+  )
+  const exercises = await fetchByIds<ExportTables['exercises'][number]>(
+    exerciseIds,
+    chunk => supabase.from('exercises').select('*').in('id', chunk).order('id')
+  )
+
+  return {
+    workouts,
+    workout_exercises: workoutExercises,
+    workout_sets: workoutSets,
+    exercises,
+    personal_records: personalRecords,
+  }
+}
+
+const MIME_TYPES: Record<ExportFileType, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+}
+
+// Written to the cache directory; the OS is free to clear it after sharing
+export async function shareExportFile(
+  fileName: string,
+  contents: string,
+  fileType: ExportFileType
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device')
+  }
+
+  const file = new File(Paths.cache, fileName)
+  if (file.exists) file.delete()
+  file.create()
+  file.write(contents)
+
+  await Sharing.shareAsync(file.uri, {
+    ...MIME_TYPES[fileType],
+    dialogTitle: 'Export training history',
+  })
+}
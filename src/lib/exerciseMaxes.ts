@@ -0,0 +1,57 @@
+// src/lib/exerciseMaxes.ts
+// Stored 1RM / training max per exercise, plus the PR-based fallback that
+// percentage targets resolve against when nothing is stored
+import { supabase } from './supabase'
+import { E1RMFormula, ExerciseMax } from '../types/workout'
+import { estimateOneRepMax } from '../utils/oneRepMax'
+import { LoadBases, resolveLoadBases } from '../utils/percentageTargets'
+
+export interface ExerciseMaxLookup {
+  maxes: Record<string, ExerciseMax>
+  estimates: Record<string, number | null>   // best PR-based e1RM
+  bases: Record<string, LoadBases>
+}
+
+export async function fetchExerciseMaxes(
+  userId: string,
+  exerciseIds: string[],
+  formula: E1RMFormula
+): Promise<ExerciseMaxLookup> {
+  if (exerciseIds.length === 0) return { maxes: {}, estimates: {}, bases: {} }
+
+  const { data: maxRows, error: maxError } = await supabase
+    .from('exercise_maxes')
+    .select('*')
+    .eq('user_id', userId)
+    .in('exercise_id', exerciseIds)
+  if (maxError) throw maxError
+
+  const { data: prRows, error: prError } = await supabase
+    .from('personal_records')
+    .select('exercise_id, weight_kg, reps')
+    .eq('user_id', userId)
+    .in('exercise_id', exerciseIds)
+  if (prError) throw prError
+
+  const maxes: Record<string, ExerciseMax> = {}
+  ;((maxRows ?? []) as ExerciseMax[]).forEach(row => {
+    maxes[row.exercise_id] = row
+  })
+
+  // Best estimate across every PR row, re-estimated with the user's formula
+  const bestE1rm: Record<string, number> = {}
+  ;((prRows ?? []) as { exercise_id: string; weight_kg: number; reps: number }[]).forEach(row => {
+    if (!row.weight_kg || !row.reps) return
+    const e1rm = estimateOneRepMax(row.weight_kg, row.reps, formula)
+    if (e1rm > (bestE1rm[row.exercise_id] ?? 0)) bestE1rm[row.exercise_id] = e1rm
+  })
+
+  const estimates: Record<string, number | null> = {}
+  const bases: Record<string, LoadBases> = {}
+  exerciseIds.forEach(id => {
+    estimates[id] = bestE1rm[id] ?? null
+    bases[id] = resolveLoadBases(maxes[id], estimates[id])
+  })
+
+  return { maxes, estimates, bases }
+}
@@ -0,0 +1,114 @@
+// src/lib/historyImport.ts
+// Writes imported workouts in batches. Ids are generated client-side so child
+// rows can reference their parents without a round trip per workout.
+import { supabase } from './supabase'
+import { fetchAllPages, IN_FILTER_CHUNK, toBatches } from './pagedQuery'
+import { ResolvedImportWorkout } from '../types/import'
+import { generateUUID } from '../utils/uuid'
+
+const INSERT_BATCH_SIZE = 500
+
+// Start times of workouts already logged in the span the file covers
+export async function fetchExistingWorkoutStarts(
+  userId: string,
+  from: string,
+  to: string
+): Promise<string[]> {
+  const rows = await fetchAllPages<{ started_at: string }>(() =>
+    supabase
+      .from('workouts')
+      .select('started_at')
+      .eq('user_id', userId)
+      .neq('status', 'abandoned')
+      .gte('started_at', from)
+      .lte('started_at', to)
+      .order('started_at')
+  )
+  return rows.map(r => r.started_at)
+}
+
+async function insertInBatches(table: string, rows: object[]): Promise<void> {
+  for (const batch of toBatches(rows, INSERT_BATCH_SIZE)) {
+    const { error } = await supabase.from(table).insert(batch)
+    if (error) throw error
+  }
+}
+
+// The schema has no cascades, so children go first
+async function deleteImported(workoutIds: string[], workoutExerciseIds: string[]): Promise<void> {
+  for (const ids of toBatches(workoutExerciseIds, IN_FILTER_CHUNK)) {
+    await supabase.from('workout_sets').delete().in('workout_exercise_id', ids)
+  }
+  for (const ids of toBatches(workoutIds, IN_FILTER_CHUNK)) {
+    await supabase.from('workout_exercises').delete().in('workout_id', ids)
+  }
+  for (const ids of toBatches(workoutIds, IN_FILTER_CHUNK)) {
+    await supabase.from('workouts').delete().in('id', ids)
+  }
+}
+
+// All or nothing: a failed batch removes whatever was already written
+export async function insertImportedWorkouts(
+  userId: string,
+  workouts: ResolvedImportWorkout[]
+): Promise<{ workoutCount: number; setCount: number }> {
+  const workoutRows: object[] = []
+  const exerciseRows: object[] = []
+  const setRows: object[] = []
+  const workoutIds: string[] = []
+  const workoutExerciseIds: string[] = []
+
+  workouts.forEach(workout => {
+    const workoutId = generateUUID()
+    workoutIds.push(workoutId)
+    workoutRows.push({
+      id: workoutId,
+      user_id: userId,
+      name: workout.name,
+      started_at: workout.started_at,
+      completed_at: workout.completed_at,
+      status: 'completed',
+      notes: workout.notes,
+    })
+
+    // One group id per superset key within this workout
+    const groupIds = new Map<string, string>()
+    workout.exercises.forEach((exercise, index) => {
+      const workoutExerciseId = generateUUID()
+      workoutExerciseIds.push(workoutExerciseId)
+      let groupId: string | null = null
+      if (exercise.group_key) {
+        groupId = groupIds.get(exercise.group_key) ?? generateUUID()
+        groupIds.set(exercise.group_key, groupId)
+      }
+      exerciseRows.push({
+        id: workoutExerciseId,
+        workout_id: workoutId,
+        exercise_id: exercise.exercise_id,
+        order_index: index,
+        group_id: groupId,
+        group_type: groupId ? exercise.group_type : null,
+        notes: exercise.notes,
+      })
+      exercise.sets.forEach(set => {
+        setRows.push({
+          workout_exercise_id: workoutExerciseId,
+          ...set,
+          // No per-set times in either export; the session start keeps them in order
+          completed_at: workout.started_at,
+        })
+      })
+    })
+  })
+
+  try {
+    await insertInBatches('workouts', workoutRows)
+    await insertInBatches('workout_exercises', exerciseRows)
+    await insertInBatches('workout_sets', setRows)
+  } catch (err) {
+    await deleteImported(workoutIds, workoutExerciseIds).catch(() => undefined)
+    throw err
+  }
+
+  return { workoutCount: workoutRows.length, setCount: setRows.length }
+}
@@ -0,0 +1,23 @@
+// src/lib/measurements.ts
+// Latest bodyweight lookup, shared by every place that totals volume
+import { supabase } from './supabase'
+
+// null when nothing is logged or the lookup fails; bodyweight sets then
+// simply contribute no volume, as before measurements existed
+export async function fetchLatestBodyweightKg(userId: string): Promise<number | null> {
+  try {
+    const { data, error } = await supabase
+      .from('body_measurements')
+      .select('bodyweight_kg')
+      .eq('user_id', userId)
+      .not('bodyweight_kg', 'is', null)
+      .order('measured_at', { ascending: false })
+      .limit(1)
+
+    if (error) throw error
+    return (data?.[0]?.bodyweight_kg as number | undefined) ?? null
+  } catch (error) {
+    console.error('Error loading bodyweight:', error)
+    return null
+  }
+}
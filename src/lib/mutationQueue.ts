@@ -0,0 +1,201 @@
+// src/lib/mutationQueue.ts
+// Durable, ordered queue of workout writes. Every mutation made during an
+// active workout is appended here first (AsyncStorage-backed, so it survives
+// app restarts) and replayed against Supabase in order once we are online.
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { supabase } from './supabase'
+import { generateUUID } from '../utils/uuid'
+
+export const MUTATION_QUEUE_STORAGE_KEY = '@strengthflow/mutation-queue'
+
+export type QueuedTable = 'workouts' | 'workout_sets' | 'workout_exercises' | 'personal_records'
+export type QueuedOperation = 'insert' | 'update' | 'delete'
+
+export interface QueuedMutation {
+  id: string
+  table: QueuedTable
+  operation: QueuedOperation
+  rowId: string                      // client-generated for inserts
+  match?: Record<string, string>     // deletes only: rows to remove, instead of id = rowId
+  values: Record<string, unknown>    // full row for insert, patch for update, {} for delete
+  local?: Record<string, unknown>    // joined data (e.g. the exercise) for rebuilding the row on this device; never sent
+  description: string                // human-readable label for toasts
+  enqueuedAt: string
+}
+
+export type NewQueuedMutation = Omit<QueuedMutation, 'id' | 'enqueuedAt'>
+
+// 'conflict'  — the target row no longer exists on the server (e.g. removed elsewhere)
+// 'failed'    — the server rejected the write (constraint, RLS, bad data); will not retry
+export interface SyncIssue {
+  kind: 'conflict' | 'failed'
+  mutation: QueuedMutation
+  message: string
+}
+
+export interface FlushResult {
+  synced: number
+  remaining: number
+  issues: SyncIssue[]
+}
+
+// In-memory mirror of the persisted queue. Writes are serialised through
+// `writeChain` so an enqueue never races a flush removing the head item.
+let cache: QueuedMutation[] | null = null
+let writeChain: Promise<unknown> = Promise.resolve()
+let flushing: Promise<FlushResult> | null = null
+
+function serialise<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeChain.then(task, task)
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+async function readQueue(): Promise<QueuedMutation[]> {
+  if (cache) return cache
+  try {
+    const raw = await AsyncStorage.getItem(MUTATION_QUEUE_STORAGE_KEY)
+    cache = raw ? (JSON.parse(raw) as QueuedMutation[]) : []
+  } catch (err) {
+    console.error('Error reading mutation queue:', err)
+    cache = []
+  }
+  return cache
+}
+
+async function writeQueue(next: QueuedMutation[]): Promise<void> {
+  cache = next
+  await AsyncStorage.setItem(MUTATION_QUEUE_STORAGE_KEY, JSON.stringify(next))
+}
+
+export function getPendingMutations(): Promise<QueuedMutation[]> {
+  return serialise(async () => [...(await readQueue())])
+}
+
+export function enqueueMutation(mutation: NewQueuedMutation): Promise<QueuedMutation> {
+  return serialise(async () => {
+    const queued: QueuedMutation = {
+      ...mutation,
+      id: generateUUID(),
+      enqueuedAt: new Date().toISOString(),
+    }
+    const current = await readQueue()
+    await writeQueue([...current, queued])
+    return queued
+  })
+}
+
+function removeMutation(id: string): Promise<void> {
+  return serialise(async () => {
+    const current = await readQueue()
+    await writeQueue(current.filter(m => m.id !== id))
+  })
+}
+
+// Drops every pending mutation (used on sign-out and in tests)
+export function clearMutationQueue(): Promise<void> {
+  return serialise(async () => {
+    cache = []
+    await AsyncStorage.removeItem(MUTATION_QUEUE_STORAGE_KEY)
+  })
+}
+
+// Supabase/PostgREST errors carry a `code` when the server actually processed
+// the request. Anything without one (fetch TypeError, timeout) is a transport
+// failure and the mutation should stay queued.
+function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return true
+  return !('code' in error) || !(error as { code?: unknown }).code
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message)
+  }
+  return 'Unknown error'
+}
+
+type ApplyOutcome =
+  | { status: 'ok' }
+  | { status: 'transient' }
+  | { status: 'conflict'; message: string }
+  | { status: 'failed'; message: string }
+
+async function applyMutation(mutation: QueuedMutation): Promise<ApplyOutcome> {
+  try {
+    let result: { data: unknown; error: unknown }
+
+    switch (mutation.operation) {
+      case 'insert':
+        // Upsert on the client id so a replay after a lost response is a no-op
+        result = await supabase
+          .from(mutation.table)
+          .upsert({ ...mutation.values, id: mutation.rowId }, { onConflict: 'id', ignoreDuplicates: true })
+        break
+      case 'update':
+        result = await supabase
+          .from(mutation.table)
+          .update(mutation.values)
+          .eq('id', mutation.rowId)
+          .select('id')
+        break
+      case 'delete': {
+        let query = supabase.from(mutation.table).delete()
+        for (const [column, value] of Object.entries(mutation.match ?? { id: mutation.rowId })) {
+          query = query.eq(column, value)
+        }
+        result = await query
+        break
+      }
+    }
+
+    if (result.error) {
+      if (isTransientError(result.error)) return { status: 'transient' }
+      return { status: 'failed', message: errorMessage(result.error) }
+    }
+
+    if (mutation.operation === 'update' && Array.isArray(result.data) && result.data.length === 0) {
+      return { status: 'conflict', message: 'It was removed before this change could sync' }
+    }
+
+    return { status: 'ok' }
+  } catch {
+    return { status: 'transient' }
+  }
+}
+
+// Replays queued mutations oldest-first. Stops at the first transport failure
+// so later writes never overtake earlier ones; rejected writes are dropped and
+// reported so the caller can tell the user.
+export function flushMutationQueue(): Promise<FlushResult> {
+  if (flushing) return flushing
+
+  flushing = (async () => {
+    const issues: SyncIssue[] = []
+    let synced = 0
+
+    try {
+      while (true) {
+        const [head] = await getPendingMutations()
+        if (!head) break
+
+        const outcome = await applyMutation(head)
+        if (outcome.status === 'transient') break
+
+        await removeMutation(head.id)
+        if (outcome.status === 'ok') {
+          synced++
+        } else {
+          issues.push({ kind: outcome.status, mutation: head, message: outcome.message })
+        }
+      }
+    } finally {
+      flushing = null
+    }
+
+    const remaining = (await getPendingMutations()).length
+    return { synced, remaining, issues }
+  })()
+
+  return flushing
+}
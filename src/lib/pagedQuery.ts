@@ -0,0 +1,40 @@
+// src/lib/pagedQuery.ts
+// Helpers for reading more rows than PostgREST returns in one response,
+// and for writing them back in bounded batches.
+
+// PostgREST caps responses at 1000 rows by default
+export const PAGE_SIZE = 1000
+// Ids per .in() filter, keeps request URLs well under proxy limits
+export const IN_FILTER_CHUNK = 100
+
+export type PagedQuery<T> = {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: unknown }>
+}
+
+export async function fetchAllPages<T>(buildQuery: () => PagedQuery<T>): Promise<T[]> {
+  const rows: T[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+export async function fetchByIds<T>(
+  ids: string[],
+  buildQuery: (chunk: string[]) => PagedQuery<T>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let i = 0; i < ids.length; i += IN_FILTER_CHUNK) {
+    const chunk = ids.slice(i, i + IN_FILTER_CHUNK)
+    rows.push(...(await fetchAllPages(() => buildQuery(chunk))))
+  }
+  return rows
+}
+
+export function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size))
+  return batches
+}
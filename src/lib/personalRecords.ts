@@ -0,0 +1,154 @@
+// src/lib/personalRecords.ts
+// Server-side half of PR replay: reads an exercise's full working-set history,
+// swaps its detected records for freshly replayed ones and leaves manual
+// entries alone.
+import { supabase } from './supabase'
+import { fetchAllPages, fetchByIds, IN_FILTER_CHUNK, toBatches } from './pagedQuery'
+import { replayPersonalRecords, ReplaySession } from '../utils/personalRecords'
+import { PRReplaySetRow } from '../types/supabase'
+import { E1RMFormula, PRType } from '../types/workout'
+import { generateUUID } from '../utils/uuid'
+import { DEFAULT_E1RM_FORMULA } from '../utils/oneRepMax'
+
+const INSERT_BATCH_SIZE = 500
+
+interface ManualRecordRow {
+  exercise_id: string
+  pr_type: PRType
+  weight_kg: number
+  reps: number
+  volume: number
+  achieved_at: string
+}
+
+function first<T>(value: T | T[]): T | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+// Sessions per exercise, sets ordered as they were done
+function groupSessions(rows: PRReplaySetRow[]): Map<string, ReplaySession[]> {
+  const byExercise = new Map<string, Map<string, ReplaySession & { order: Map<string, number> }>>()
+
+  rows.forEach(row => {
+    const we = first(row.workout_exercise)
+    const workout = we ? first(we.workout) : undefined
+    if (!we || !workout) return
+
+    const sessions = byExercise.get(we.exercise_id) ?? new Map()
+    byExercise.set(we.exercise_id, sessions)
+    const session = sessions.get(we.workout_id) ?? {
+      workout_id: we.workout_id,
+      started_at: workout.started_at,
+      sets: [],
+      order: new Map<string, number>(),
+    }
+    sessions.set(we.workout_id, session)
+    session.sets.push(row)
+    session.order.set(row.id, we.order_index * 1000 + row.set_number)
+  })
+
+  const result = new Map<string, ReplaySession[]>()
+  byExercise.forEach((sessions, exerciseId) => {
+    result.set(
+      exerciseId,
+      Array.from(sessions.values()).map(({ order, ...session }) => ({
+        ...session,
+        sets: [...session.sets].sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0)),
+      }))
+    )
+  })
+  return result
+}
+
+async function deleteRecords(recordIds: string[]): Promise<void> {
+  for (const chunk of toBatches(recordIds, IN_FILTER_CHUNK)) {
+    const { error } = await supabase.from('personal_records').delete().in('id', chunk)
+    if (error) throw error
+  }
+}
+
+// Returns how many records were written
+export async function recomputePersonalRecords(
+  userId: string,
+  exerciseIds: string[],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): Promise<number> {
+  let written = 0
+
+  for (const ids of toBatches(exerciseIds, IN_FILTER_CHUNK)) {
+    const sets = await fetchAllPages<PRReplaySetRow>(() =>
+      supabase
+        .from('workout_sets')
+        .select(`
+          id,
+          weight_kg,
+          reps,
+          set_number,
+          completed_at,
+          workout_exercise:workout_exercises!inner(
+            workout_id,
+            exercise_id,
+            order_index,
+            workout:workouts!inner(user_id, status, started_at)
+          )
+        `)
+        .in('workout_exercise.exercise_id', ids)
+        .eq('workout_exercise.workout.user_id', userId)
+        .eq('workout_exercise.workout.status', 'completed')
+        .eq('is_warmup', false)
+        .order('id')
+    )
+
+    const manual = await fetchByIds<ManualRecordRow>(ids, chunk =>
+      supabase
+        .from('personal_records')
+        .select('exercise_id, pr_type, weight_kg, reps, volume, achieved_at')
+        .eq('user_id', userId)
+        .eq('is_manual', true)
+        .in('exercise_id', chunk)
+        .order('id')
+    )
+
+    // The detected records being replaced; they only go once the new ones have landed
+    const previous = await fetchByIds<{ id: string }>(ids, chunk =>
+      supabase
+        .from('personal_records')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('is_manual', false)
+        .in('exercise_id', chunk)
+        .order('id')
+    )
+
+    const sessionsByExercise = groupSessions(sets)
+    const rows = ids.flatMap(exerciseId =>
+      replayPersonalRecords(
+        sessionsByExercise.get(exerciseId) ?? [],
+        manual.filter(r => r.exercise_id === exerciseId),
+        formula
+      ).map(record => ({
+        ...record,
+        id: generateUUID(),
+        user_id: userId,
+        exercise_id: exerciseId,
+        is_manual: false,
+      }))
+    )
+
+    // A failed batch takes back what this run inserted, so the old history stands
+    try {
+      for (const batch of toBatches(rows, INSERT_BATCH_SIZE)) {
+        const { error: insertError } = await supabase.from('personal_records').insert(batch)
+        if (insertError) throw insertError
+      }
+    } catch (err) {
+      await deleteRecords(rows.map(r => r.id)).catch(() => undefined)
+      throw err
+    }
+
+    await deleteRecords(previous.map(r => r.id))
+    written += rows.length
+  }
+
+  return written
+}
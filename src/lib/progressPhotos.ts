@@ -0,0 +1,254 @@
+// src/lib/progressPhotos.ts
+// Progress photo files and uploads. A new photo is downscaled and
+// thumbnailed on the device, copied somewhere the OS won't purge, and queued
+// (AsyncStorage-backed) until it reaches Storage and progress_photos.
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Directory, File, Paths } from 'expo-file-system'
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator'
+import { supabase } from './supabase'
+import { PendingPhotoUpload } from '../types/photos'
+import {
+  PHOTO_JPEG_QUALITY,
+  PHOTO_MAX_WIDTH,
+  THUMBNAIL_JPEG_QUALITY,
+  THUMBNAIL_WIDTH,
+  getPhotoStoragePaths,
+} from '../utils/photos'
+
+export const PHOTO_BUCKET = 'progress-photos'
+export const PHOTO_QUEUE_STORAGE_KEY = '@strengthflow/photo-queue'
+const SIGNED_URL_SECONDS = 60 * 60
+
+export interface PhotoUploadIssue {
+  upload: PendingPhotoUpload
+  message: string
+}
+
+export interface PhotoFlushResult {
+  uploaded: number
+  remaining: number
+  issues: PhotoUploadIssue[]
+}
+
+// Writes are serialised so an enqueue never races a flush removing an item
+let writeChain: Promise<unknown> = Promise.resolve()
+let flushing: Promise<PhotoFlushResult> | null = null
+
+function serialise<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeChain.then(task, task)
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+async function readQueue(): Promise<PendingPhotoUpload[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PHOTO_QUEUE_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as PendingPhotoUpload[]) : []
+  } catch (err) {
+    console.error('Error reading photo queue:', err)
+    return []
+  }
+}
+
+export function getPendingPhotoUploads(): Promise<PendingPhotoUpload[]> {
+  return serialise(readQueue)
+}
+
+export function enqueuePhotoUpload(upload: PendingPhotoUpload): Promise<void> {
+  return serialise(async () => {
+    const current = await readQueue()
+    await AsyncStorage.setItem(PHOTO_QUEUE_STORAGE_KEY, JSON.stringify([...current, upload]))
+  })
+}
+
+function removePhotoUpload(id: string): Promise<void> {
+  return serialise(async () => {
+    const current = await readQueue()
+    await AsyncStorage.setItem(
+      PHOTO_QUEUE_STORAGE_KEY,
+      JSON.stringify(current.filter(u => u.id !== id))
+    )
+  })
+}
+
+async function renderJpeg(uri: string, width: number | null, compress: number): Promise<string> {
+  const context = ImageManipulator.manipulate(uri)
+  if (width !== null) context.resize({ width })
+  const image = await context.renderAsync()
+  const result = await image.saveAsync({ compress, format: SaveFormat.JPEG })
+  return result.uri
+}
+
+// Never upscales: a photo narrower than the limit keeps its size
+export async function preparePhotoFiles(
+  sourceUri: string,
+  sourceWidth: number,
+  photoId: string
+): Promise<{ local_uri: string; local_thumbnail_uri: string }> {
+  const [fullUri, thumbUri] = await Promise.all([
+    renderJpeg(sourceUri, sourceWidth > PHOTO_MAX_WIDTH ? PHOTO_MAX_WIDTH : null, PHOTO_JPEG_QUALITY),
+    renderJpeg(sourceUri, Math.min(sourceWidth, THUMBNAIL_WIDTH), THUMBNAIL_JPEG_QUALITY),
+  ])
+
+  // The manipulator writes to the cache, which the OS may clear before we're online
+  const dir = new Directory(Paths.document, 'progress-photos')
+  dir.create({ idempotent: true })
+  const full = new File(dir, `${photoId}.jpg`)
+  const thumb = new File(dir, `${photoId}_thumb.jpg`)
+  new File(fullUri).move(full)
+  new File(thumbUri).move(thumb)
+  return { local_uri: full.uri, local_thumbnail_uri: thumb.uri }
+}
+
+function deleteLocalFiles(upload: PendingPhotoUpload) {
+  ;[upload.local_uri, upload.local_thumbnail_uri].forEach(uri => {
+    const file = new File(uri)
+    if (file.exists) file.delete()
+  })
+}
+
+// HTTP 4xx from Storage, or a PostgREST error code, means the server refused
+// the write; anything else is a transport failure worth retrying
+function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return true
+  const { status, statusCode, code } = error as { status?: unknown; statusCode?: unknown; code?: unknown }
+  const httpStatus = Number(status ?? statusCode)
+  if (Number.isFinite(httpStatus) && httpStatus > 0) {
+    return httpStatus >= 500 || httpStatus === 408 || httpStatus === 429
+  }
+  return !code
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message)
+  }
+  return 'Unknown error'
+}
+
+type UploadOutcome = { status: 'ok' } | { status: 'transient' } | { status: 'failed'; message: string }
+
+async function uploadPhoto(upload: PendingPhotoUpload): Promise<UploadOutcome> {
+  const paths = getPhotoStoragePaths(upload.user_id, upload.id)
+
+  try {
+    const files = [
+      { path: paths.storage_path, uri: upload.local_uri },
+      { path: paths.thumbnail_path, uri: upload.local_thumbnail_uri },
+    ]
+    for (const { path, uri } of files) {
+      const file = new File(uri)
+      if (!file.exists) return { status: 'failed', message: 'The photo is no longer on this device' }
+
+      // upsert so a replay after a lost response overwrites rather than fails
+      const { error } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, await file.bytes(), { contentType: 'image/jpeg', upsert: true })
+      if (error) {
+        return isTransientError(error) ? { status: 'transient' } : { status: 'failed', message: errorMessage(error) }
+      }
+    }
+
+    const { error } = await supabase.from('progress_photos').upsert(
+      {
+        id: upload.id,
+        user_id: upload.user_id,
+        taken_on: upload.taken_on,
+        workout_id: upload.workout_id,
+        notes: upload.notes,
+        ...paths,
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+    if (error) {
+      return isTransientError(error) ? { status: 'transient' } : { status: 'failed', message: errorMessage(error) }
+    }
+
+    return { status: 'ok' }
+  } catch {
+    return { status: 'transient' }
+  }
+}
+
+// Uploads queued photos oldest-first, stopping at the first transport
+// failure. Refused uploads are dropped and reported, files and all.
+export function flushPhotoUploads(): Promise<PhotoFlushResult> {
+  if (flushing) return flushing
+
+  flushing = (async () => {
+    const issues: PhotoUploadIssue[] = []
+    let uploaded = 0
+
+    try {
+      while (true) {
+        const [head] = await getPendingPhotoUploads()
+        if (!head) break
+
+        const outcome = await uploadPhoto(head)
+        if (outcome.status === 'transient') break
+
+        await removePhotoUpload(head.id)
+        try {
+          deleteLocalFiles(head)
+        } catch (err) {
+          console.error('Error removing uploaded photo files:', err)
+        }
+        if (outcome.status === 'ok') {
+          uploaded++
+        } else {
+          issues.push({ upload: head, message: outcome.message })
+        }
+      }
+    } finally {
+      flushing = null
+    }
+
+    const remaining = (await getPendingPhotoUploads()).length
+    return { uploaded, remaining, issues }
+  })()
+
+  return flushing
+}
+
+// path → signed URL; paths that failed to sign are left out
+export async function fetchSignedPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {}
+
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS)
+  if (error) throw error
+
+  const urls: Record<string, string> = {}
+  ;(data ?? []).forEach(entry => {
+    if (entry.path && entry.signedUrl && !entry.error) urls[entry.path] = entry.signedUrl
+  })
+  return urls
+}
+
+export async function removePhotoObjects(paths: string[]): Promise<void> {
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths)
+  if (error) throw error
+}
+
+// Drops every queued photo, files and all, so a signed-out account's photos
+// never upload under the next one
+export function clearPhotoUploads(): Promise<void> {
+  return serialise(async () => {
+    const current = await readQueue()
+    await AsyncStorage.removeItem(PHOTO_QUEUE_STORAGE_KEY)
+    current.forEach(upload => {
+      try {
+        deleteLocalFiles(upload)
+      } catch (err) {
+        console.error('Error removing queued photo files:', err)
+      }
+    })
+  })
+}
+
+// Drops a queued photo before it was ever uploaded
+export async function discardPhotoUpload(upload: PendingPhotoUpload): Promise<void> {
+  await removePhotoUpload(upload.id)
+  deleteLocalFiles(upload)
+}
@@ -0,0 +1,103 @@
+// src/lib/restTimer.ts
+// Rest timer persisted as an absolute end time, so the countdown stays right
+// through backgrounding, screen lock and app restarts. The end is also handed
+// to the OS as a local notification, which fires while the app is suspended.
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as Notifications from 'expo-notifications'
+import { Platform } from 'react-native'
+
+export const REST_TIMER_STORAGE_KEY = '@strengthflow/rest-timer'
+
+const CHANNEL_ID = 'rest-timer'
+const NOTIFICATION_KIND = 'rest-timer'
+
+export interface RestTimerState {
+  endsAt: number | null            // epoch ms; null while paused
+  pausedRemaining: number | null   // seconds left when paused
+  duration: number                 // seconds, for the progress ring
+  notificationId: string | null
+}
+
+export async function loadRestTimer(): Promise<RestTimerState | null> {
+  try {
+    const raw = await AsyncStorage.getItem(REST_TIMER_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as RestTimerState) : null
+  } catch (err) {
+    console.error('Error reading rest timer:', err)
+    return null
+  }
+}
+
+export async function saveRestTimer(state: RestTimerState | null): Promise<void> {
+  if (state) {
+    await AsyncStorage.setItem(REST_TIMER_STORAGE_KEY, JSON.stringify(state))
+  } else {
+    await AsyncStorage.removeItem(REST_TIMER_STORAGE_KEY)
+  }
+}
+
+// Derived from the wall clock each time, never decremented, so it can't drift
+export function getRemainingSeconds(state: RestTimerState, now = Date.now()): number {
+  if (state.endsAt === null) return state.pausedRemaining ?? 0
+  return Math.max(0, Math.ceil((state.endsAt - now) / 1000))
+}
+
+// In the foreground the in-app timer vibrates instead of showing a banner
+export function configureRestNotifications() {
+  Notifications.setNotificationHandler({
+    handleNotification: async notification => {
+      const isRestTimer = notification.request.content.data?.kind === NOTIFICATION_KIND
+      return {
+        shouldShowBanner: !isRestTimer,
+        shouldShowList: !isRestTimer,
+        shouldPlaySound: !isRestTimer,
+        shouldSetBadge: false,
+      }
+    },
+  })
+
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Rest timer',
+      importance: Notifications.AndroidImportance.HIGH,
+      vibrationPattern: [0, 500, 200, 500],
+    }).catch(err => console.error('Error creating rest timer channel:', err))
+  }
+}
+
+// Returns null when notifications aren't permitted; the in-app timer still runs
+export async function scheduleRestNotification(endsAt: number): Promise<string | null> {
+  try {
+    const current = await Notifications.getPermissionsAsync()
+    const permission = current.granted || !current.canAskAgain
+      ? current
+      : await Notifications.requestPermissionsAsync()
+    if (!permission.granted) return null
+
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Rest over',
+        body: 'Time for your next set',
+        sound: true,
+        data: { kind: NOTIFICATION_KIND },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: endsAt,
+        channelId: CHANNEL_ID,
+      },
+    })
+  } catch (err) {
+    console.error('Error scheduling rest notification:', err)
+    return null
+  }
+}
+
+export async function cancelRestNotification(notificationId: string | null): Promise<void> {
+  if (!notificationId) return
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId)
+  } catch (err) {
+    console.error('Error cancelling rest notification:', err)
+  }
+}
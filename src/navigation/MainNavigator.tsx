@@ -10,10 +10,17 @@ import TemplateDetailScreen from '../screens/main/TemplateDetailScreen'
 import TemplateFormScreen from '../screens/main/TemplateFormScreen'
 import ActiveWorkoutScreen from '../screens/main/ActiveWorkoutScreen'
 import WorkoutSummaryScreen from '../screens/main/WorkoutSummaryScreen'
+import ProgramsScreen from '../screens/main/ProgramsScreen'
+import ExerciseLibraryScreen from '../screens/main/ExerciseLibraryScreen'
 import HistoryScreen from '../screens/main/HistoryScreen'
+import LogPastWorkoutScreen from '../screens/main/LogPastWorkoutScreen'
 import WorkoutDetailScreen from '../screens/main/WorkoutDetailScreen'
 import AnalyticsScreen from '../screens/main/AnalyticsScreen'
+import ExerciseDetailScreen from '../screens/main/ExerciseDetailScreen'
 import ProfileScreen from '../screens/main/ProfileScreen'
+import MeasurementsScreen from '../screens/main/MeasurementsScreen'
+import ProgressPhotosScreen from '../screens/main/ProgressPhotosScreen'
+import { WorkoutWithExercisesRow } from '../types/supabase'
 import { colors } from '../theme'
 
 // Types
@@ -24,22 +31,44 @@ export type MainTabParamList = {
   Profile: undefined
 }
 
+// Registered in every stack that links to an exercise, so back returns to the caller
+export type ExerciseDetailParams = { exerciseId: string }
+
 export type HomeStackParamList = {
   HomeMain: undefined
   TemplateDetail: { templateId: string }
   TemplateForm: { templateId?: string }
   ActiveWorkout: { workoutId: string }
-  WorkoutSummary: { workoutId: string }
+  // The finished session, summarised locally while it can't reach the server
+  WorkoutSummary: { workoutId: string; session?: WorkoutWithExercisesRow }
+  Programs: undefined
+  ExerciseLibrary: undefined
+  ExerciseDetail: ExerciseDetailParams
 }
 
 export type HistoryStackParamList = {
   HistoryMain: undefined
   WorkoutDetail: { workoutId: string }
+  LogPastWorkout: { date?: string }   // YYYY-MM-DD; defaults to today
+  ExerciseDetail: ExerciseDetailParams
+}
+
+export type AnalyticsStackParamList = {
+  AnalyticsMain: undefined
+  ExerciseDetail: ExerciseDetailParams
+}
+
+export type ProfileStackParamList = {
+  ProfileMain: undefined
+  Measurements: undefined
+  ProgressPhotos: undefined
 }
 
 const Tab = createBottomTabNavigator<MainTabParamList>()
 const HomeStack = createNativeStackNavigator<HomeStackParamList>()
 const HistoryStack = createNativeStackNavigator<HistoryStackParamList>()
+const AnalyticsStack = createNativeStackNavigator<AnalyticsStackParamList>()
+const ProfileStack = createNativeStackNavigator<ProfileStackParamList>()
 
 // Home Stack Navigator (for nested navigation within Home tab)
 function HomeStackNavigator() {
@@ -52,6 +81,9 @@ function HomeStackNavigator() {
       <HomeStack.Screen name="HomeMain" component={HomeScreen} />
       <HomeStack.Screen name="TemplateDetail" component={TemplateDetailScreen} />
       <HomeStack.Screen name="TemplateForm" component={TemplateFormScreen} />
+      <HomeStack.Screen name="Programs" component={ProgramsScreen} />
+      <HomeStack.Screen name="ExerciseLibrary" component={ExerciseLibraryScreen} />
+      <HomeStack.Screen name="ExerciseDetail" component={ExerciseDetailScreen} />
       <HomeStack.Screen
         name="ActiveWorkout"
         component={ActiveWorkoutScreen}
@@ -80,10 +112,41 @@ function HistoryStackNavigator() {
     >
       <HistoryStack.Screen name="HistoryMain" component={HistoryScreen} />
       <HistoryStack.Screen name="WorkoutDetail" component={WorkoutDetailScreen} />
+      <HistoryStack.Screen name="LogPastWorkout" component={LogPastWorkoutScreen} />
+      <HistoryStack.Screen name="ExerciseDetail" component={ExerciseDetailScreen} />
     </HistoryStack.Navigator>
   )
 }
 
+// Analytics Stack Navigator (PRs link through to exercise detail)
+function AnalyticsStackNavigator() {
+  return (
+    <AnalyticsStack.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <AnalyticsStack.Screen name="AnalyticsMain" component={AnalyticsScreen} />
+      <AnalyticsStack.Screen name="ExerciseDetail" component={ExerciseDetailScreen} />
+    </AnalyticsStack.Navigator>
+  )
+}
+
+// Profile Stack Navigator (settings link through to measurements and photos)
+function ProfileStackNavigator() {
+  return (
+    <ProfileStack.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <ProfileStack.Screen name="ProfileMain" component={ProfileScreen} />
+      <ProfileStack.Screen name="Measurements" component={MeasurementsScreen} />
+      <ProfileStack.Screen name="ProgressPhotos" component={ProgressPhotosScreen} />
+    </ProfileStack.Navigator>
+  )
+}
+
 export default function MainNavigator() {
   return (
     <Tab.Navigator
@@ -132,8 +195,8 @@ export default function MainNavigator() {
         options={{ tabBarLabel: 'Home' }}
       />
       <Tab.Screen name="History" component={HistoryStackNavigator} />
-      <Tab.Screen name="Analytics" component={AnalyticsScreen} />
-      <Tab.Screen name="Profile" component={ProfileScreen} />
+      <Tab.Screen name="Analytics" component={AnalyticsStackNavigator} />
+      <Tab.Screen name="Profile" component={ProfileStackNavigator} />
     </Tab.Navigator>
   )
 }
@@ -3,6 +3,8 @@
 // SEDP-39: Display exercises from template
 // SEDP-40: Workout timer
 // SEDP-41: Create workout record in DB on start
+// Inline mini rest timer while the full timer is hidden
+// Supersets and circuits: alternate between grouped exercises, rest after each round
 import React, { useState, useEffect, useRef, useCallback } from 'react'
 import {
   View,
@@ -21,11 +23,16 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { RouteProp, useFocusEffect } from '@react-navigation/native'
 import { useWorkoutContext } from '../../contexts/WorkoutContext'
 import { useToast } from '../../contexts/ToastContext'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useRestTimer } from '../../hooks/useRestTimer'
 import { WorkoutExercise, Exercise } from '../../types/workout'
 import { HomeStackParamList } from '../../navigation/MainNavigator'
 import SetInputCard from '../../components/workout/SetInputCard'
-import RestTimer from '../../components/workout/RestTimer'
+import RestTimer, { formatRestTime } from '../../components/workout/RestTimer'
 import ExerciseSwapModal from '../../components/workout/ExerciseSwapModal'
+import ExercisePickerModal from '../../components/workout/ExercisePickerModal'
+import { toDisplayVolume } from '../../utils/units'
+import { GROUP_TYPE_LABELS, getGroupPositions, getNextGroupStep } from '../../utils/exerciseGroups'
 import { colors } from '../../theme'
 
 type ActiveWorkoutScreenProps = {
@@ -46,14 +53,18 @@ export default function ActiveWorkoutScreen({
     abandonWorkout,
     getWorkoutStats,
     reorderExercise,
+    addExercise,
+    removeExercise,
   } = useWorkoutContext()
-  const { showError } = useToast()
+  const { showError, showInfo } = useToast()
+  const unit = useWeightUnit()
+  const restTimer = useRestTimer()
 
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0)
   const [elapsedSeconds, setElapsedSeconds] = useState(0)
   const [showRestTimer, setShowRestTimer] = useState(false)
-  const [restDuration, setRestDuration] = useState(90)
   const [showSwapModal, setShowSwapModal] = useState(false)
+  const [showAddModal, setShowAddModal] = useState(false)
   const [showFinishModal, setShowFinishModal] = useState(false)
   const [workoutNotes, setWorkoutNotes] = useState('')
   const timerRef = useRef<NodeJS.Timeout | null>(null)
@@ -126,11 +137,26 @@ export default function ActiveWorkoutScreen({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  function handleSetComplete(restSeconds: number) {
-    setRestDuration(restSeconds)
+  function handleSetComplete(
+    restSeconds: number,
+    { isWarmup, setsRemaining }: { isWarmup: boolean; setsRemaining: number }
+  ) {
+    // Warm-ups are done before starting the superset, so they don't alternate
+    const step = isWarmup ? null : getNextGroupStep(exercises, currentExerciseIndex, setsRemaining)
+    if (step) setCurrentExerciseIndex(step.nextIndex)
+
+    // Mid-round: straight on to the next exercise without resting
+    if (step && !step.endsRound) return
+    if (restSeconds <= 0) return
+    restTimer.start(restSeconds)
     setShowRestTimer(true)
   }
 
+  function handleSkipRest() {
+    restTimer.stop()
+    setShowRestTimer(false)
+  }
+
   function handleNextExercise() {
     if (currentExerciseIndex < exercises.length - 1) {
       setCurrentExerciseIndex(prev => prev + 1)
@@ -151,6 +177,44 @@ export default function ActiveWorkoutScreen({
     setCurrentExerciseIndex(toIndex)
   }
 
+  async function handleAddExercise(exercise: Exercise) {
+    const { success, error } = await addExercise(exercise)
+    if (success) {
+      // New exercise is appended, so jump to the end
+      setCurrentExerciseIndex(exercises.length)
+    } else {
+      showError(error ?? 'Failed to add exercise')
+    }
+  }
+
+  function handleRemoveExercise() {
+    const target = exercises[currentExerciseIndex]
+    if (!target) return
+
+    const loggedSets = target.sets?.length ?? 0
+    Alert.alert(
+      'Remove Exercise?',
+      loggedSets > 0
+        ? `${target.exercise?.name ?? 'This exercise'} and its ${loggedSets} logged set${loggedSets !== 1 ? 's' : ''} will be removed from this workout.`
+        : `Remove ${target.exercise?.name ?? 'this exercise'} from this workout?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await removeExercise(target.id)
+            if (success) {
+              setCurrentExerciseIndex(prev => Math.max(0, Math.min(prev, exercises.length - 2)))
+            } else {
+              showError(error ?? 'Failed to remove exercise')
+            }
+          },
+        },
+      ]
+    )
+  }
+
   async function handleFinishWorkout() {
     const stats = getWorkoutStats()
     
@@ -165,6 +229,7 @@ export default function ActiveWorkoutScreen({
             style: 'destructive',
             onPress: async () => {
               await abandonWorkout()
+              restTimer.stop()
               navigation.popToTop()
             },
           },
@@ -178,21 +243,29 @@ export default function ActiveWorkoutScreen({
 
   async function confirmFinishWorkout() {
     const notes = workoutNotes.trim() || undefined
-    const { success, error, workout: completedWorkout } = await completeWorkout(notes)
+    // Completing clears the session, so keep it for an offline summary
+    const finishedExercises = exercises.map(ex => ({ ...ex, sets: ex.sets ?? [] }))
+    const { success, error, workout: completedWorkout, warning } = await completeWorkout(notes)
     setShowFinishModal(false)
     setWorkoutNotes('')
 
     if (success && completedWorkout) {
-      navigation.replace('WorkoutSummary', { workoutId: completedWorkout.id })
+      restTimer.stop()
+      if (warning) showInfo(warning)
+      navigation.replace('WorkoutSummary', {
+        workoutId: completedWorkout.id,
+        session: { ...completedWorkout, workout_exercises: finishedExercises },
+      })
     } else {
       showError(typeof error === 'string' ? error : 'Failed to complete workout')
     }
   }
 
   const currentExercise = exercises[currentExerciseIndex]
+  const currentGroup = getGroupPositions(exercises)[currentExerciseIndex]
   const stats = getWorkoutStats()
 
-  if (!workout || exercises.length === 0) {
+  if (!workout) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
         <View style={styles.loadingContainer}>
@@ -222,21 +295,23 @@ export default function ActiveWorkoutScreen({
       </View>
 
       {/* Progress Bar */}
-      <View style={styles.progressContainer}>
-        <View style={styles.progressBar}>
-          <View
-            style={[
-              styles.progressFill,
-              {
-                width: `${((currentExerciseIndex + 1) / exercises.length) * 100}%`,
-              },
-            ]}
-          />
+      {exercises.length > 0 && (
+        <View style={styles.progressContainer}>
+          <View style={styles.progressBar}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${((currentExerciseIndex + 1) / exercises.length) * 100}%`,
+                },
+              ]}
+            />
+          </View>
+          <Text style={styles.progressText}>
+            Exercise {currentExerciseIndex + 1} of {exercises.length}
+          </Text>
         </View>
-        <Text style={styles.progressText}>
-          Exercise {currentExerciseIndex + 1} of {exercises.length}
-        </Text>
-      </View>
+      )}
 
       {/* Quick Stats */}
       <View style={styles.statsBar}>
@@ -246,8 +321,10 @@ export default function ActiveWorkoutScreen({
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.totalVolume.toLocaleString()}</Text>
-          <Text style={styles.statLabel}>Volume (kg)</Text>
+          <Text style={styles.statValue}>
+            {toDisplayVolume(stats.totalVolume, unit).toLocaleString()}
+          </Text>
+          <Text style={styles.statLabel}>Volume ({unit})</Text>
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
@@ -289,83 +366,191 @@ export default function ActiveWorkoutScreen({
         </View>
       )}
 
+      {/* Add / Remove Exercise */}
+      <View style={styles.exerciseActions}>
+        <TouchableOpacity
+          style={styles.exerciseActionButton}
+          onPress={() => setShowAddModal(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Add exercise"
+        >
+          <Ionicons name="add-circle-outline" size={18} color={colors.primary} />
+          <Text style={styles.exerciseActionText}>Add Exercise</Text>
+        </TouchableOpacity>
+        {currentExercise && (
+          <TouchableOpacity
+            style={styles.exerciseActionButton}
+            onPress={handleRemoveExercise}
+            accessibilityRole="button"
+            accessibilityLabel="Remove exercise"
+          >
+            <Ionicons name="trash-outline" size={18} color={colors.error} />
+            <Text style={[styles.exerciseActionText, styles.exerciseActionTextDanger]}>Remove</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Mini rest timer: keeps counting after the full timer is hidden */}
+      {restTimer.isActive && !showRestTimer && (
+        <View style={styles.miniTimer}>
+          <TouchableOpacity
+            style={styles.miniTimerMain}
+            onPress={() => setShowRestTimer(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Show rest timer"
+          >
+            <Ionicons name={restTimer.isPaused ? 'pause' : 'hourglass-outline'} size={16} color={colors.surface} />
+            <Text style={styles.miniTimerText}>
+              Rest {formatRestTime(restTimer.remainingSeconds)}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => restTimer.adjust(15)}
+            style={styles.miniTimerAction}
+            accessibilityRole="button"
+            accessibilityLabel="Add 15 seconds"
+          >
+            <Text style={styles.miniTimerActionText}>+15s</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSkipRest}
+            style={styles.miniTimerAction}
+            accessibilityRole="button"
+            accessibilityLabel="Skip rest"
+          >
+            <Text style={styles.miniTimerActionText}>Skip</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Superset / circuit members, current one highlighted */}
+      {currentGroup && (
+        <View style={styles.groupBanner}>
+          <View style={styles.groupBannerHeader}>
+            <Ionicons name="link" size={14} color={colors.accent} />
+            <Text style={styles.groupBannerTitle}>
+              {GROUP_TYPE_LABELS[currentGroup.type]} · rest after {exercises[currentGroup.end]?.exercise?.name ?? 'the last exercise'}
+            </Text>
+          </View>
+          <View style={styles.groupBannerMembers}>
+            {exercises.slice(currentGroup.start, currentGroup.end + 1).map((ex, i) => {
+              const index = currentGroup.start + i
+              const isCurrent = index === currentExerciseIndex
+              return (
+                <TouchableOpacity
+                  key={ex.id}
+                  style={[styles.groupMember, isCurrent && styles.groupMemberCurrent]}
+                  onPress={() => setCurrentExerciseIndex(index)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isCurrent }}
+                  accessibilityLabel={`Go to ${ex.exercise?.name ?? 'exercise'}`}
+                >
+                  <Text style={[styles.groupMemberText, isCurrent && styles.groupMemberTextCurrent]} numberOfLines={1}>
+                    {currentGroup.label[0]}{i + 1} {ex.exercise?.name}
+                  </Text>
+                </TouchableOpacity>
+              )
+            })}
+          </View>
+        </View>
+      )}
+
       {/* Current Exercise */}
-      {currentExercise && (
+      {currentExercise ? (
         <SetInputCard
           workoutExercise={currentExercise}
           onSetComplete={handleSetComplete}
           onSwapPress={() => setShowSwapModal(true)}
+          onExercisePress={() =>
+            navigation.navigate('ExerciseDetail', { exerciseId: currentExercise.exercise_id })
+          }
         />
+      ) : (
+        <View style={styles.emptyState}>
+          <Ionicons name="barbell-outline" size={48} color={colors.text.faint} />
+          <Text style={styles.emptyTitle}>No exercises yet</Text>
+          <Text style={styles.emptySubtext}>Add an exercise to start logging sets</Text>
+          <TouchableOpacity style={styles.emptyAddButton} onPress={() => setShowAddModal(true)}>
+            <Ionicons name="add" size={20} color={colors.surface} />
+            <Text style={styles.emptyAddButtonText}>Add Exercise</Text>
+          </TouchableOpacity>
+        </View>
       )}
 
       {/* Exercise Navigation */}
-      <View style={styles.exerciseNav}>
-        <TouchableOpacity
-          style={[styles.navButton, currentExerciseIndex === 0 && styles.navButtonDisabled]}
-          onPress={handlePreviousExercise}
-          disabled={currentExerciseIndex === 0}
-        >
-          <Ionicons
-            name="chevron-back"
-            size={24}
-            color={currentExerciseIndex === 0 ? colors.text.faint : colors.primary}
-          />
-          <Text
-            style={[
-              styles.navButtonText,
-              currentExerciseIndex === 0 && styles.navButtonTextDisabled,
-            ]}
+      {exercises.length > 0 && (
+        <View style={styles.exerciseNav}>
+          <TouchableOpacity
+            style={[styles.navButton, currentExerciseIndex === 0 && styles.navButtonDisabled]}
+            onPress={handlePreviousExercise}
+            disabled={currentExerciseIndex === 0}
           >
-            Previous
-          </Text>
-        </TouchableOpacity>
-
-        <View style={styles.exerciseDots}>
-          {exercises.map((_, index) => (
-            <TouchableOpacity
-              key={index}
+            <Ionicons
+              name="chevron-back"
+              size={24}
+              color={currentExerciseIndex === 0 ? colors.text.faint : colors.primary}
+            />
+            <Text
               style={[
-                styles.dot,
-                index === currentExerciseIndex && styles.dotActive,
-                (exercises[index].sets?.filter(s => !s.is_warmup).length ?? 0) > 0 &&
-                  styles.dotCompleted,
+                styles.navButtonText,
+                currentExerciseIndex === 0 && styles.navButtonTextDisabled,
               ]}
-              onPress={() => setCurrentExerciseIndex(index)}
-            />
-          ))}
-        </View>
+            >
+              Previous
+            </Text>
+          </TouchableOpacity>
 
-        <TouchableOpacity
-          style={[
-            styles.navButton,
-            currentExerciseIndex === exercises.length - 1 && styles.navButtonDisabled,
-          ]}
-          onPress={handleNextExercise}
-          disabled={currentExerciseIndex === exercises.length - 1}
-        >
-          <Text
+          <View style={styles.exerciseDots}>
+            {exercises.map((_, index) => (
+              <TouchableOpacity
+                key={index}
+                style={[
+                  styles.dot,
+                  index === currentExerciseIndex && styles.dotActive,
+                  (exercises[index].sets?.filter(s => !s.is_warmup).length ?? 0) > 0 &&
+                    styles.dotCompleted,
+                ]}
+                onPress={() => setCurrentExerciseIndex(index)}
+              />
+            ))}
+          </View>
+
+          <TouchableOpacity
             style={[
-              styles.navButtonText,
-              currentExerciseIndex === exercises.length - 1 &&
-                styles.navButtonTextDisabled,
+              styles.navButton,
+              currentExerciseIndex === exercises.length - 1 && styles.navButtonDisabled,
             ]}
+            onPress={handleNextExercise}
+            disabled={currentExerciseIndex === exercises.length - 1}
           >
-            Next
-          </Text>
-          <Ionicons
-            name="chevron-forward"
-            size={24}
-            color={currentExerciseIndex === exercises.length - 1 ? colors.text.faint : colors.primary}
-          />
-        </TouchableOpacity>
-      </View>
+            <Text
+              style={[
+                styles.navButtonText,
+                currentExerciseIndex === exercises.length - 1 &&
+                  styles.navButtonTextDisabled,
+              ]}
+            >
+              Next
+            </Text>
+            <Ionicons
+              name="chevron-forward"
+              size={24}
+              color={currentExerciseIndex === exercises.length - 1 ? colors.text.faint : colors.primary}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
 
       {/* Rest Timer Modal */}
       <RestTimer
-        visible={showRestTimer}
-        duration={restDuration}
+        visible={showRestTimer && restTimer.isActive}
+        remainingSeconds={restTimer.remainingSeconds}
+        duration={restTimer.duration}
+        isPaused={restTimer.isPaused}
+        onAdjust={restTimer.adjust}
+        onTogglePause={restTimer.togglePause}
         onClose={() => setShowRestTimer(false)}
-        onSkip={() => setShowRestTimer(false)}
+        onSkip={handleSkipRest}
       />
 
       {/* Exercise Swap Modal */}
@@ -376,6 +561,14 @@ export default function ActiveWorkoutScreen({
         onClose={() => setShowSwapModal(false)}
       />
 
+      {/* Add Exercise Modal */}
+      <ExercisePickerModal
+        visible={showAddModal}
+        onClose={() => setShowAddModal(false)}
+        onSelect={handleAddExercise}
+        excludeExerciseIds={exercises.map(ex => ex.exercise_id)}
+      />
+
       {/* Finish Workout Modal */}
       <Modal
         visible={showFinishModal}
@@ -391,7 +584,7 @@ export default function ActiveWorkoutScreen({
                 {stats.totalSets} sets completed
               </Text>
               <Text style={styles.modalStatText}>
-                {stats.totalVolume.toLocaleString()} kg total volume
+                {toDisplayVolume(stats.totalVolume, unit).toLocaleString()} {unit} total volume
               </Text>
               <Text style={styles.modalStatText}>
                 {formatTime(elapsedSeconds)} duration
@@ -620,6 +813,140 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.text.muted,
   },
+  miniTimer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    gap: 8,
+  },
+  miniTimerMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  miniTimerText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.surface,
+    fontVariant: ['tabular-nums'],
+  },
+  miniTimerAction: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  miniTimerActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  groupBanner: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.accent,
+    gap: 8,
+  },
+  groupBannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  groupBannerTitle: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.accent,
+  },
+  groupBannerMembers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  groupMember: {
+    maxWidth: '100%',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.background,
+  },
+  groupMemberCurrent: {
+    backgroundColor: colors.accent,
+  },
+  groupMemberText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  groupMemberTextCurrent: {
+    color: colors.surface,
+  },
+  exerciseActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  exerciseActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  exerciseActionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+  exerciseActionTextDanger: {
+    color: colors.error,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.text.muted,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  emptyAddButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.primary,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  emptyAddButtonText: {
+    color: colors.surface,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   notesInput: {
     backgroundColor: colors.background,
     borderWidth: 1,
@@ -2,15 +2,21 @@
 import React, { useState } from 'react'
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
 
 import VolumeTab from '../../components/analytics/VolumeTab'
 import ProgressTab from '../../components/analytics/ProgressTab'
 import PRsTab from '../../components/analytics/PRsTab'
+import { AnalyticsStackParamList } from '../../navigation/MainNavigator'
 import { colors } from '../../theme'
 
 type TabType = 'volume' | 'progress' | 'prs'
 
-export default function AnalyticsScreen() {
+type AnalyticsScreenProps = {
+  navigation: NativeStackNavigationProp<AnalyticsStackParamList, 'AnalyticsMain'>
+}
+
+export default function AnalyticsScreen({ navigation }: AnalyticsScreenProps) {
   const [activeTab, setActiveTab] = useState<TabType>('volume')
 
   return (
@@ -52,7 +58,9 @@ export default function AnalyticsScreen() {
       <View style={styles.content}>
         {activeTab === 'volume' && <VolumeTab />}
         {activeTab === 'progress' && <ProgressTab />}
-        {activeTab === 'prs' && <PRsTab />}
+        {activeTab === 'prs' && (
+          <PRsTab onOpenExercise={exerciseId => navigation.navigate('ExerciseDetail', { exerciseId })} />
+        )}
       </View>
     </SafeAreaView>
   )
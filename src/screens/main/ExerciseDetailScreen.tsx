@@ -0,0 +1,432 @@
+// src/screens/main/ExerciseDetailScreen.tsx
+// One exercise: description and muscles, best e1RM, 1–12RM table,
+// progress chart and every logged session
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { RouteProp } from '@react-navigation/native'
+import { ExerciseDetailParams } from '../../navigation/MainNavigator'
+import { useExerciseLibrary } from '../../hooks/useExerciseLibrary'
+import { useWorkoutHistory, ExerciseSession } from '../../hooks/useWorkoutHistory'
+import { useAnalytics } from '../../hooks/useAnalytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useE1RMFormula } from '../../hooks/useE1RMFormula'
+import { Exercise } from '../../types/workout'
+import { ProgressDataPoint } from '../../types/analytics'
+import LineChart, { Y_AXIS_WIDTH } from '../../components/analytics/LineChart'
+import { calcBestE1RM, buildRepMaxTable, REP_MAX_RANGE } from '../../utils/workoutCalculations'
+import { E1RM_FORMULA_LABELS } from '../../utils/oneRepMax'
+import { toDisplayWeight, formatWeight } from '../../utils/units'
+import {
+  formatMuscleGroup,
+  formatEquipment,
+  getMuscleColor,
+  formatShortDate,
+} from '../../utils/formatting'
+import { colors } from '../../theme'
+
+// The same screen is registered in the Home, History and Analytics stacks
+type ExerciseDetailStackParamList = { ExerciseDetail: ExerciseDetailParams }
+
+type ExerciseDetailScreenProps = {
+  navigation: NativeStackNavigationProp<ExerciseDetailStackParamList, 'ExerciseDetail'>
+  route: RouteProp<ExerciseDetailStackParamList, 'ExerciseDetail'>
+}
+
+const CHART_HEIGHT = 120
+// screen margins (16) × 2 + card padding (16) × 2 + y-axis width
+const CHART_WIDTH = Dimensions.get('window').width - 64 - Y_AXIS_WIDTH
+
+export default function ExerciseDetailScreen({ navigation, route }: ExerciseDetailScreenProps) {
+  const { exerciseId } = route.params
+  const { fetchExercise } = useExerciseLibrary()
+  const { fetchExerciseHistory } = useWorkoutHistory()
+  const { fetchExerciseProgress } = useAnalytics()
+  const unit = useWeightUnit()
+  const formula = useE1RMFormula()
+  const [exercise, setExercise] = useState<Exercise | null>(null)
+  const [sessions, setSessions] = useState<ExerciseSession[]>([])
+  const [progress, setProgress] = useState<ProgressDataPoint[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true)
+      const [exerciseData, history, progressData] = await Promise.all([
+        fetchExercise(exerciseId),
+        fetchExerciseHistory(exerciseId),
+        fetchExerciseProgress(exerciseId, 'ALL'),
+      ])
+      setExercise(exerciseData)
+      setSessions(history)
+      setProgress(progressData?.data_points ?? [])
+      setLoading(false)
+    }
+    load()
+  }, [exerciseId])
+
+  function renderHeader(title: string) {
+    return (
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={8} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {title}
+        </Text>
+        <View style={{ width: 24 }} />
+      </View>
+    )
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader('')}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  if (!exercise) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader('Exercise')}
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>Could not load exercise</Text>
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  const allSets = sessions.flatMap(s => s.sets)
+  const best = calcBestE1RM(allSets, formula)
+  const repMaxes = buildRepMaxTable(allSets, REP_MAX_RANGE, formula)
+  const primaryColor = getMuscleColor(exercise.primary_muscle_group)
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader(exercise.name)}
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* About */}
+        <View style={styles.card}>
+          <View style={styles.badgeRow}>
+            <View style={[styles.muscleBadge, { backgroundColor: primaryColor + '20' }]}>
+              <Text style={[styles.muscleBadgeText, { color: primaryColor }]}>
+                {formatMuscleGroup(exercise.primary_muscle_group)}
+              </Text>
+            </View>
+            {(exercise.secondary_muscle_groups ?? []).map(muscle => (
+              <View key={muscle} style={[styles.muscleBadge, styles.secondaryBadge]}>
+                <Text style={[styles.muscleBadgeText, styles.secondaryBadgeText]}>
+                  {formatMuscleGroup(muscle)}
+                </Text>
+              </View>
+            ))}
+          </View>
+          <Text style={styles.metaText}>
+            {formatEquipment(exercise.equipment)} · {exercise.is_compound ? 'Compound' : 'Isolation'}
+          </Text>
+          {exercise.description ? (
+            <Text style={styles.description}>{exercise.description}</Text>
+          ) : null}
+        </View>
+
+        {/* Best e1RM */}
+        <View style={styles.statsRow}>
+          <View style={[styles.card, styles.statCard]}>
+            <Text style={styles.statLabel}>Best e1RM · {E1RM_FORMULA_LABELS[formula]}</Text>
+            <Text style={styles.statValue}>{best ? formatWeight(best.e1rmKg, unit) : '-'}</Text>
+            {best && (
+              <Text style={[styles.statSub, best.lowConfidence && styles.lowConfidenceText]}>
+                from {formatWeight(best.weightKg, unit)} × {best.reps}
+                {best.lowConfidence ? ' (low confidence)' : ''}
+              </Text>
+            )}
+          </View>
+          <View style={[styles.card, styles.statCard]}>
+            <Text style={styles.statLabel}>Sessions</Text>
+            <Text style={styles.statValue}>{sessions.length}</Text>
+            {sessions.length > 0 && (
+              <Text style={styles.statSub}>last {formatShortDate(sessions[0].started_at)}</Text>
+            )}
+          </View>
+        </View>
+
+        {/* Progress */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Heaviest set per session</Text>
+          {progress.length > 0 ? (
+            <LineChart
+              points={progress.map(p => ({
+                key: p.date,
+                label: new Date(p.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+                value: toDisplayWeight(p.weight_kg, unit),
+              }))}
+              width={CHART_WIDTH}
+              height={CHART_HEIGHT}
+              unitLabel={unit}
+            />
+          ) : (
+            <Text style={styles.emptyText}>No completed sessions yet</Text>
+          )}
+        </View>
+
+        {/* Rep maxes */}
+        {repMaxes.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Rep maxes</Text>
+            <View style={styles.rmRow}>
+              <Text style={[styles.rmCell, styles.rmHeader]}>REPS</Text>
+              <Text style={[styles.rmCell, styles.rmHeader]}>BEST</Text>
+              <Text style={[styles.rmCell, styles.rmHeader]}>ESTIMATED</Text>
+            </View>
+            {repMaxes.map(row => (
+              <View key={row.reps} style={styles.rmRow}>
+                <Text style={[styles.rmCell, styles.rmReps]}>{row.reps}RM</Text>
+                <Text style={styles.rmCell}>
+                  {row.actualKg !== null ? formatWeight(row.actualKg, unit) : '-'}
+                </Text>
+                <Text style={[styles.rmCell, styles.rmEstimate]}>
+                  {formatWeight(row.estimatedKg, unit)}
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.footnote}>
+              Best is the heaviest load lifted for at least that many reps. Estimates use the Epley formula.
+            </Text>
+          </View>
+        )}
+
+        {/* History */}
+        <Text style={styles.sectionTitle}>History</Text>
+        {sessions.length === 0 ? (
+          <Text style={[styles.emptyText, styles.historyEmpty]}>
+            Sets you log for this exercise will show up here
+          </Text>
+        ) : (
+          sessions.map(session => {
+            const workingSets = session.sets.filter(s => !s.is_warmup)
+            return (
+              <View key={session.workout_id} style={styles.card}>
+                <View style={styles.sessionHeader}>
+                  <Text style={styles.sessionDate}>{formatShortDate(session.started_at)}</Text>
+                  <Text style={styles.sessionName} numberOfLines={1}>{session.workout_name}</Text>
+                </View>
+                {session.sets.map(set => (
+                  <View key={set.id} style={styles.setRow}>
+                    <Text style={[styles.setIndex, set.is_warmup && styles.setWarmup]}>
+                      {set.is_warmup ? 'W' : workingSets.indexOf(set) + 1}
+                    </Text>
+                    <Text style={[styles.setValue, set.is_warmup && styles.setWarmup]}>
+                      {set.weight_kg != null ? formatWeight(set.weight_kg, unit) : '-'} × {set.reps ?? '-'}
+                      {set.rpe != null && ` @ ${set.rpe}`}
+                      {set.is_failure && ' · F'}
+                      {set.is_dropset && ' · D'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: 15,
+    color: colors.text.secondary,
+  },
+  scrollContent: {
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    padding: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: 12,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  muscleBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 4,
+  },
+  muscleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  secondaryBadge: {
+    backgroundColor: colors.borderLight,
+  },
+  secondaryBadgeText: {
+    color: colors.text.secondary,
+  },
+  metaText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 10,
+  },
+  description: {
+    fontSize: 14,
+    color: colors.text.primary,
+    lineHeight: 20,
+    marginTop: 10,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    gap: 12,
+  },
+  statCard: {
+    flex: 1,
+    marginHorizontal: 0,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.primary,
+    marginTop: 4,
+  },
+  statSub: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  lowConfidenceText: {
+    color: colors.warning,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  rmRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  rmCell: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  rmHeader: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  rmReps: {
+    fontWeight: '600',
+  },
+  rmEstimate: {
+    color: colors.text.secondary,
+  },
+  footnote: {
+    fontSize: 11,
+    color: colors.text.faint,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+    paddingHorizontal: 16,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  historyEmpty: {
+    paddingHorizontal: 16,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sessionDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  sessionName: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  setRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  setIndex: {
+    width: 28,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  setValue: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  setWarmup: {
+    color: colors.text.muted,
+  },
+})
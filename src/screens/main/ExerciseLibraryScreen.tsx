@@ -0,0 +1,353 @@
+// src/screens/main/ExerciseLibraryScreen.tsx
+// Browse all exercises; create, edit and delete the user's own
+import React, { useCallback, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { useFocusEffect } from '@react-navigation/native'
+import { useExerciseLibrary } from '../../hooks/useExerciseLibrary'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { useToast } from '../../contexts/ToastContext'
+import { Exercise } from '../../types/workout'
+import { HomeStackParamList } from '../../navigation/MainNavigator'
+import ExerciseFormModal from '../../components/workout/ExerciseFormModal'
+import { formatMuscleGroup, formatEquipment } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+type ExerciseLibraryScreenProps = {
+  navigation: NativeStackNavigationProp<HomeStackParamList, 'ExerciseLibrary'>
+}
+
+export default function ExerciseLibraryScreen({ navigation }: ExerciseLibraryScreenProps) {
+  const { user } = useAuthContext()
+  const { exercises, loading, fetchExercises, deleteExercise } = useExerciseLibrary()
+  const { showError, showSuccess } = useToast()
+  const [searchQuery, setSearchQuery] = useState('')
+  const [mineOnly, setMineOnly] = useState(false)
+  const [formVisible, setFormVisible] = useState(false)
+  const [editing, setEditing] = useState<Exercise | null>(null)
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchExercises()
+    }, [fetchExercises])
+  )
+
+  const query = searchQuery.trim().toLowerCase()
+  const visibleExercises = exercises.filter(
+    e =>
+      (!mineOnly || e.created_by === user?.id) &&
+      (!query || e.name.toLowerCase().includes(query))
+  )
+
+  function openCreate() {
+    setEditing(null)
+    setFormVisible(true)
+  }
+
+  function openEdit(exercise: Exercise) {
+    setEditing(exercise)
+    setFormVisible(true)
+  }
+
+  function handleDelete(exercise: Exercise) {
+    Alert.alert('Delete Exercise', `Delete "${exercise.name}"? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteExercise(exercise.id)
+          if (result.success) {
+            showSuccess(`Deleted ${exercise.name}`)
+          } else {
+            showError(result.error ?? 'Failed to delete exercise')
+          }
+        },
+      },
+    ])
+  }
+
+  function renderExercise({ item }: { item: Exercise }) {
+    const isOwn = item.created_by !== null && item.created_by === user?.id
+
+    return (
+      <View style={styles.exerciseItem}>
+        <View style={styles.exerciseInfo}>
+          <View style={styles.exerciseNameRow}>
+            <Text style={styles.exerciseName}>{item.name}</Text>
+            {isOwn && (
+              <View style={styles.customBadge}>
+                <Text style={styles.customBadgeText}>Custom</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.exerciseMeta}>
+            {formatMuscleGroup(item.primary_muscle_group)} • {formatEquipment(item.equipment)}
+            {item.is_compound ? ' • Compound' : ''}
+          </Text>
+        </View>
+        {isOwn && (
+          <View style={styles.exerciseActions}>
+            <TouchableOpacity
+              onPress={() => openEdit(item)}
+              hitSlop={6}
+              style={styles.actionButton}
+              accessibilityRole="button"
+              accessibilityLabel={`Edit ${item.name}`}
+            >
+              <Ionicons name="create-outline" size={20} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDelete(item)}
+              hitSlop={6}
+              style={styles.actionButton}
+              accessibilityRole="button"
+              accessibilityLabel={`Delete ${item.name}`}
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Exercises</Text>
+        <TouchableOpacity
+          style={styles.createButton}
+          onPress={openCreate}
+          accessibilityRole="button"
+          accessibilityLabel="Create exercise"
+        >
+          <Ionicons name="add" size={18} color={colors.surface} />
+          <Text style={styles.createButtonText}>New</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={20} color={colors.text.muted} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search exercises..."
+          placeholderTextColor={colors.text.muted}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.filterRow}>
+        {[false, true].map(mine => (
+          <TouchableOpacity
+            key={String(mine)}
+            style={[styles.filterChip, mineOnly === mine && styles.filterChipActive]}
+            onPress={() => setMineOnly(mine)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: mineOnly === mine }}
+          >
+            <Text style={[styles.filterChipText, mineOnly === mine && styles.filterChipTextActive]}>
+              {mine ? 'My exercises' : 'All'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && exercises.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={visibleExercises}
+          renderItem={renderExercise}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="barbell-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>
+                {mineOnly ? 'No custom exercises yet' : 'No exercises found'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <ExerciseFormModal
+        visible={formVisible}
+        exercise={editing}
+        initialName={editing ? undefined : searchQuery}
+        onClose={() => setFormVisible(false)}
+        onSaved={exercise => {
+          showSuccess(editing ? `Updated ${exercise.name}` : `Created ${exercise.name}`)
+          fetchExercises()
+        }}
+      />
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+  },
+  createButtonText: {
+    color: colors.surface,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    marginHorizontal: 20,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterChipText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    fontWeight: '500',
+  },
+  filterChipTextActive: {
+    color: colors.surface,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+  },
+  exerciseItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  exerciseInfo: {
+    flex: 1,
+  },
+  exerciseNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  exerciseName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+    flexShrink: 1,
+  },
+  customBadge: {
+    backgroundColor: '#e8f4f8',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  customBadgeText: {
+    fontSize: 10,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  exerciseMeta: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+  exerciseActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginTop: 12,
+  },
+})
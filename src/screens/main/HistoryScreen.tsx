@@ -2,6 +2,7 @@
 // SEDP-63: History screen with calendar view
 // SEDP-64: Highlight workout days on calendar
 // SEDP-65: Recent workouts list below calendar
+// Log past workouts for the selected day (or today)
 import React, { useEffect, useState, useCallback } from 'react'
 import {
   View,
@@ -18,8 +19,11 @@ import { Calendar, DateData } from 'react-native-calendars'
 import { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { HistoryStackParamList } from '../../navigation/MainNavigator'
 import { useWorkoutHistory, MarkedDates } from '../../hooks/useWorkoutHistory'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { subscribeToAnalytics } from '../../lib/analyticsCache'
 import { WorkoutSummary } from '../../types/workout'
 import { formatDuration, formatShortDate, formatTime } from '../../utils/formatting'
+import { toDisplayVolume } from '../../utils/units'
 import { colors } from '../../theme'
 
 type HistoryScreenProps = {
@@ -28,6 +32,7 @@ type HistoryScreenProps = {
 
 export default function HistoryScreen({ navigation }: HistoryScreenProps) {
   const { summaries, markedDates, loading, fetchWorkoutSummaries } = useWorkoutHistory()
+  const unit = useWeightUnit()
   const [currentMonth, setCurrentMonth] = useState(new Date())
   const [selectedDate, setSelectedDate] = useState<string | null>(null)
   const [refreshing, setRefreshing] = useState(false)
@@ -43,6 +48,12 @@ export default function HistoryScreen({ navigation }: HistoryScreenProps) {
     loadMonth(currentMonth)
   }, [])
 
+  // Edited or back-dated workouts change the list and the calendar dots
+  useEffect(
+    () => subscribeToAnalytics(() => loadMonth(currentMonth)),
+    [loadMonth, currentMonth]
+  )
+
   const onRefresh = async () => {
     setRefreshing(true)
     await loadMonth(currentMonth)
@@ -109,7 +120,9 @@ export default function HistoryScreen({ navigation }: HistoryScreenProps) {
           <View style={styles.statDivider} />
           <View style={styles.statItem}>
             <Ionicons name="barbell-outline" size={14} color="#666" />
-            <Text style={styles.statText}>{item.total_volume_kg.toLocaleString()} kg</Text>
+            <Text style={styles.statText}>
+              {toDisplayVolume(item.total_volume_kg, unit).toLocaleString()} {unit}
+            </Text>
           </View>
         </View>
       </TouchableOpacity>
@@ -137,6 +150,15 @@ export default function HistoryScreen({ navigation }: HistoryScreenProps) {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.title}>History</Text>
+        <TouchableOpacity
+          style={styles.logButton}
+          onPress={() => navigation.navigate('LogPastWorkout', { date: selectedDate ?? undefined })}
+          accessibilityRole="button"
+          accessibilityLabel="Log past workout"
+        >
+          <Ionicons name="add" size={18} color={colors.surface} />
+          <Text style={styles.logButtonText}>Log</Text>
+        </TouchableOpacity>
       </View>
 
       <FlatList
@@ -203,6 +225,9 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: 20,
     paddingTop: 10,
     paddingBottom: 16,
@@ -212,6 +237,20 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: colors.primary,
   },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: colors.primary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  logButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.surface,
+  },
   calendar: {
     marginHorizontal: 12,
     borderRadius: 12,
@@ -19,15 +19,13 @@ import { useWorkoutContext } from '../../contexts/WorkoutContext'
 import { useToast } from '../../contexts/ToastContext'
 import { useTemplateManagement } from '../../hooks/useTemplateManagement'
 import { useAnalytics, HomeStats } from '../../hooks/useAnalytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { usePrograms } from '../../hooks/usePrograms'
 import { supabase } from '../../lib/supabase'
 import { HomeStackParamList } from '../../navigation/MainNavigator'
+import { formatVolume } from '../../utils/units'
 import { colors } from '../../theme'
 
-function formatVolume(kg: number): string {
-  if (kg >= 1000) return `${(kg / 1000).toFixed(1)}k`
-  return kg.toString()
-}
-
 type HomeScreenProps = {
   navigation: NativeStackNavigationProp<HomeStackParamList, 'HomeMain'>
 }
@@ -43,13 +41,17 @@ interface WorkoutTemplate {
 
 export default function HomeScreen({ navigation }: HomeScreenProps) {
   const { profile } = useAuthContext()
-  const { isActive, workout } = useWorkoutContext()
+  const { isActive, workout, startWorkout, startEmptyWorkout } = useWorkoutContext()
   const { deleteTemplate } = useTemplateManagement()
   const { showError } = useToast()
   const { fetchHomeStats } = useAnalytics()
+  const { todaySession, fetchTodaySession, skipDay } = usePrograms()
+  const unit = useWeightUnit()
   const [templates, setTemplates] = useState<WorkoutTemplate[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
+  const [startingQuick, setStartingQuick] = useState(false)
+  const [startingToday, setStartingToday] = useState(false)
   const [stats, setStats] = useState<HomeStats>({ thisWeekWorkouts: 0, thisWeekVolumeKg: 0, prsThisMonth: 0 })
 
   // Refresh list and stats each time this screen comes into focus
@@ -57,7 +59,8 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     useCallback(() => {
       fetchTemplates()
       fetchHomeStats().then(setStats)
-    }, [fetchHomeStats])
+      fetchTodaySession()
+    }, [fetchHomeStats, fetchTodaySession])
   )
 
   async function fetchTemplates() {
@@ -94,6 +97,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     setRefreshing(true)
     fetchTemplates()
     fetchHomeStats().then(setStats)
+    fetchTodaySession()
   }
 
   function getGreeting() {
@@ -153,6 +157,147 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     }
   }
 
+  // Ad-hoc session with no template; exercises are added from ActiveWorkout
+  function handleQuickStart() {
+    if (isActive) {
+      Alert.alert(
+        'Workout in Progress',
+        'You have an active workout. Would you like to continue it or start a new one?',
+        [
+          { text: 'Continue Current', onPress: handleContinueWorkout },
+          {
+            text: 'Start New',
+            style: 'destructive',
+            onPress: () => doQuickStart(),
+          },
+        ]
+      )
+      return
+    }
+
+    doQuickStart()
+  }
+
+  async function doQuickStart() {
+    setStartingQuick(true)
+    const { success, error, workoutId } = await startEmptyWorkout()
+    setStartingQuick(false)
+
+    if (success && workoutId) {
+      navigation.navigate('ActiveWorkout', { workoutId })
+    } else {
+      showError(typeof error === 'string' ? error : 'Failed to start workout')
+    }
+  }
+
+  // One-tap start of the program's scheduled session
+  function handleStartToday() {
+    if (isActive) {
+      Alert.alert(
+        'Workout in Progress',
+        'You have an active workout. Would you like to continue it or start a new one?',
+        [
+          { text: 'Continue Current', onPress: handleContinueWorkout },
+          {
+            text: 'Start New',
+            style: 'destructive',
+            onPress: () => doStartToday(),
+          },
+        ]
+      )
+      return
+    }
+
+    doStartToday()
+  }
+
+  async function doStartToday() {
+    if (!todaySession?.template) return
+
+    setStartingToday(true)
+    const { success, error, workoutId } = await startWorkout(todaySession.template, {
+      programDayId: todaySession.day.id,
+    })
+    setStartingToday(false)
+
+    if (success && workoutId) {
+      navigation.navigate('ActiveWorkout', { workoutId })
+    } else {
+      showError(typeof error === 'string' ? error : 'Failed to start workout')
+    }
+  }
+
+  async function handleSkipRest() {
+    if (!todaySession) return
+
+    const result = await skipDay(todaySession)
+    if (result.success) {
+      fetchTodaySession()
+    } else {
+      showError(result.error ?? 'Failed to skip rest day')
+    }
+  }
+
+  function renderTodayCard() {
+    if (!todaySession) {
+      return (
+        <TouchableOpacity
+          style={styles.programsLink}
+          onPress={() => navigation.navigate('Programs')}
+          accessibilityRole="button"
+          accessibilityLabel="Browse programs"
+        >
+          <Ionicons name="calendar-outline" size={16} color={colors.primary} />
+          <Text style={styles.programsLinkText}>Follow a multi-week program</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.primary} />
+        </TouchableOpacity>
+      )
+    }
+
+    const sessionName = todaySession.isRestDay
+      ? 'Rest day'
+      : todaySession.template?.name ?? 'Workout'
+
+    return (
+      <TouchableOpacity
+        style={styles.todayCard}
+        onPress={() => navigation.navigate('Programs')}
+        activeOpacity={0.7}
+      >
+        <View style={styles.todayInfo}>
+          <Text style={styles.todayTitle}>
+            Today: {sessionName} (week {todaySession.weekNumber} of {todaySession.totalWeeks})
+          </Text>
+          <Text style={styles.todayProgram}>{todaySession.program.name}</Text>
+        </View>
+        {todaySession.isRestDay ? (
+          <TouchableOpacity
+            style={styles.todaySecondaryButton}
+            onPress={handleSkipRest}
+            accessibilityRole="button"
+            accessibilityLabel="Skip rest day"
+          >
+            <Text style={styles.todaySecondaryText}>Skip rest</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.todayStartButton}
+            onPress={handleStartToday}
+            disabled={startingToday}
+            accessibilityRole="button"
+            accessibilityLabel="Start today's session"
+          >
+            {startingToday ? (
+              <ActivityIndicator size="small" color={colors.surface} />
+            ) : (
+              <Text style={styles.todayStartText}>Start</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    )
+  }
+
   function renderTemplateCard({ item }: { item: WorkoutTemplate }) {
     const isSystemTemplate = item.created_by === null
 
@@ -191,12 +336,20 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
       <View style={styles.header}>
-        <View>
+        <View style={styles.headerText}>
           <Text style={styles.greeting}>
             {getGreeting()}, {profile?.username ?? 'Lifter'}
           </Text>
           <Text style={styles.subtitle}>Ready to train?</Text>
         </View>
+        <TouchableOpacity
+          style={styles.libraryButton}
+          onPress={() => navigation.navigate('ExerciseLibrary')}
+          accessibilityRole="button"
+          accessibilityLabel="Exercise library"
+        >
+          <Ionicons name="barbell-outline" size={22} color={colors.primary} />
+        </TouchableOpacity>
       </View>
 
       {/* Active Workout Banner */}
@@ -227,7 +380,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{formatVolume(stats.thisWeekVolumeKg)} kg</Text>
+          <Text style={styles.statNumber}>{formatVolume(stats.thisWeekVolumeKg, unit)} {unit}</Text>
           <Text style={styles.statLabel}>Week Volume</Text>
         </View>
         <View style={styles.statDivider} />
@@ -237,6 +390,32 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         </View>
       </View>
 
+      {/* Program: today's scheduled session */}
+      {renderTodayCard()}
+
+      {/* Quick Start */}
+      <TouchableOpacity
+        style={styles.quickStartButton}
+        onPress={handleQuickStart}
+        disabled={startingQuick}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel="Quick start empty workout"
+      >
+        <View style={styles.quickStartIcon}>
+          {startingQuick ? (
+            <ActivityIndicator size="small" color={colors.surface} />
+          ) : (
+            <Ionicons name="flash" size={20} color={colors.surface} />
+          )}
+        </View>
+        <View style={styles.quickStartInfo}>
+          <Text style={styles.quickStartTitle}>Quick Start</Text>
+          <Text style={styles.quickStartSubtitle}>Empty workout — add exercises as you go</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#999" />
+      </TouchableOpacity>
+
       {/* Templates Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Workout Templates</Text>
@@ -292,10 +471,20 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 20,
     paddingTop: 10,
     paddingBottom: 20,
   },
+  headerText: {
+    flex: 1,
+  },
+  libraryButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: colors.surface,
+  },
   greeting: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -381,6 +570,102 @@ const styles = StyleSheet.create({
     backgroundColor: colors.border,
     marginVertical: 5,
   },
+  todayCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    marginHorizontal: 20,
+    marginTop: 16,
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.primary,
+  },
+  todayInfo: {
+    flex: 1,
+  },
+  todayTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  todayProgram: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  todayStartButton: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  todayStartText: {
+    color: colors.surface,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  todaySecondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  todaySecondaryText: {
+    color: colors.text.secondary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  programsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  programsLinkText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+  quickStartButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    marginHorizontal: 20,
+    marginTop: 16,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.accent,
+  },
+  quickStartIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quickStartInfo: {
+    flex: 1,
+  },
+  quickStartTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  quickStartSubtitle: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
   section: {
     flex: 1,
     marginTop: 24,
@@ -0,0 +1,374 @@
+// src/screens/main/LogPastWorkoutScreen.tsx
+// Log a workout after the fact: pick a template (or start empty), then enter
+// the day, start time, duration and every set in one form. Saves straight to
+// a completed workout, so history, analytics and PRs pick it up.
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { RouteProp } from '@react-navigation/native'
+import { HistoryStackParamList } from '../../navigation/MainNavigator'
+import { supabase } from '../../lib/supabase'
+import { useWorkoutHistory, WorkoutDetail } from '../../hooks/useWorkoutHistory'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useToast } from '../../contexts/ToastContext'
+import WorkoutEditor from '../../components/workout/WorkoutEditor'
+import { WorkoutTemplateWithExercises } from '../../types/workout'
+import { generateUUID } from '../../utils/uuid'
+import { toLocalDateKey } from '../../utils/dateHelpers'
+import { colors } from '../../theme'
+
+type LogPastWorkoutScreenProps = {
+  navigation: NativeStackNavigationProp<HistoryStackParamList, 'LogPastWorkout'>
+  route: RouteProp<HistoryStackParamList, 'LogPastWorkout'>
+}
+
+const DEFAULT_DURATION_MINUTES = 60
+const DEFAULT_START_HOUR = 18
+
+// Evening of the chosen day, pulled back to end by now when that's still ahead
+function defaultTimes(dateKey: string, durationMinutes: number, now: Date) {
+  const start = new Date(`${dateKey}T00:00:00`)
+  start.setHours(DEFAULT_START_HOUR, 0, 0, 0)
+  const latestStart = now.getTime() - durationMinutes * 60000
+  if (start.getTime() > latestStart) {
+    start.setTime(latestStart)
+    start.setMinutes(start.getMinutes() - (start.getMinutes() % 5), 0, 0)
+  }
+  const end = new Date(start.getTime() + durationMinutes * 60000)
+  return { started_at: start.toISOString(), completed_at: end.toISOString() }
+}
+
+export function buildPastWorkoutDraft(
+  dateKey: string,
+  template: WorkoutTemplateWithExercises | null,
+  now = new Date()
+): WorkoutDetail {
+  const times = defaultTimes(dateKey, template?.estimated_duration_minutes ?? DEFAULT_DURATION_MINUTES, now)
+
+  const exercises: WorkoutDetail['exercises'] = (template?.template_exercises ?? []).map((te, index) => ({
+    id: generateUUID(),
+    order_index: index,
+    is_substitution: false,
+    group_id: te.group_id ?? null,
+    group_type: te.group_type ?? null,
+    exercise: {
+      id: te.exercise.id,
+      name: te.exercise.name,
+      primary_muscle_group: te.exercise.primary_muscle_group,
+      equipment: te.exercise.equipment,
+      is_compound: te.exercise.is_compound,
+    },
+    sets: Array.from({ length: te.target_sets }, (_, i) => ({
+      id: generateUUID(),
+      set_number: i + 1,
+      weight_kg: null,
+      reps: te.target_reps ?? null,
+      rpe: null,
+      is_warmup: false,
+      is_failure: false,
+      is_dropset: false,
+      completed_at: times.completed_at,
+    })),
+  }))
+
+  return {
+    id: generateUUID(),
+    name: template?.name ?? 'Workout',
+    ...times,
+    status: 'completed',
+    notes: null,
+    duration_minutes: null,
+    total_sets: 0,
+    total_volume_kg: 0,
+    exercises,
+  }
+}
+
+export default function LogPastWorkoutScreen({ navigation, route }: LogPastWorkoutScreenProps) {
+  const dateKey = route.params?.date ?? toLocalDateKey(new Date())
+  const { logPastWorkout } = useWorkoutHistory()
+  const unit = useWeightUnit()
+  const { showSuccess, showError, showInfo } = useToast()
+  const [templates, setTemplates] = useState<WorkoutTemplateWithExercises[]>([])
+  const [loadingTemplates, setLoadingTemplates] = useState(true)
+  // Null until a starting point is picked
+  const [draft, setDraft] = useState<WorkoutDetail | null>(null)
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    async function loadTemplates() {
+      try {
+        const { data, error } = await supabase
+          .from('workout_templates')
+          .select(`
+            *,
+            template_exercises(
+              *,
+              exercise:exercises(*)
+            )
+          `)
+          .order('name')
+
+        if (error) throw error
+
+        const sorted = (data ?? []).map((t: WorkoutTemplateWithExercises) => ({
+          ...t,
+          template_exercises: [...(t.template_exercises ?? [])].sort((a, b) => a.order_index - b.order_index),
+        }))
+        setTemplates(sorted)
+      } catch (error) {
+        showError('Failed to load templates')
+      } finally {
+        setLoadingTemplates(false)
+      }
+    }
+    loadTemplates()
+  }, [])
+
+  function startFrom(template: WorkoutTemplateWithExercises | null) {
+    setTemplateId(template?.id ?? null)
+    setDraft(buildPastWorkoutDraft(dateKey, template))
+  }
+
+  function handleCancel() {
+    if (!draft) {
+      navigation.goBack()
+      return
+    }
+    Alert.alert('Discard Workout', 'This workout has not been saved.', [
+      { text: 'Keep Editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => navigation.goBack() },
+    ])
+  }
+
+  async function handleSave() {
+    if (!draft) return
+    setSaving(true)
+    const result = await logPastWorkout(draft, templateId)
+    setSaving(false)
+
+    if (!result.success || !result.workoutId) {
+      showError(result.error ?? 'Failed to log workout')
+      return
+    }
+
+    if (result.warning) {
+      showInfo(result.warning)
+    } else {
+      showSuccess(result.recordsUpdated > 0 ? 'Workout logged, PRs recalculated' : 'Workout logged')
+    }
+    navigation.replace('WorkoutDetail', { workoutId: result.workoutId })
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleCancel} hitSlop={8} accessibilityRole="button" accessibilityLabel="Cancel">
+          <Text style={styles.headerAction}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          Log Past Workout
+        </Text>
+        {draft ? (
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={saving}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Save workout"
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text style={[styles.headerAction, styles.headerActionPrimary]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      {draft ? (
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+            <View style={styles.nameCard}>
+              <Text style={styles.fieldLabel}>Name</Text>
+              <TextInput
+                style={styles.nameInput}
+                value={draft.name}
+                onChangeText={name => setDraft({ ...draft, name })}
+                placeholder="Workout name"
+                placeholderTextColor={colors.text.faint}
+                maxLength={100}
+                accessibilityLabel="Workout name"
+              />
+            </View>
+            <WorkoutEditor draft={draft} unit={unit} onChange={setDraft} timeMode="duration" />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Text style={styles.sectionTitle}>Start from</Text>
+          <TouchableOpacity
+            style={styles.optionCard}
+            onPress={() => startFrom(null)}
+            accessibilityRole="button"
+            accessibilityLabel="Empty workout"
+          >
+            <Ionicons name="add-circle-outline" size={22} color={colors.primary} />
+            <View style={styles.optionInfo}>
+              <Text style={styles.optionName}>Empty workout</Text>
+              <Text style={styles.optionMeta}>Add exercises as you go</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+          </TouchableOpacity>
+
+          {loadingTemplates ? (
+            <ActivityIndicator style={styles.loading} color={colors.primary} />
+          ) : (
+            templates.map(template => (
+              <TouchableOpacity
+                key={template.id}
+                style={styles.optionCard}
+                onPress={() => startFrom(template)}
+                accessibilityRole="button"
+                accessibilityLabel={`Start from ${template.name}`}
+              >
+                <Ionicons name="clipboard-outline" size={22} color={colors.primary} />
+                <View style={styles.optionInfo}>
+                  <Text style={styles.optionName}>{template.name}</Text>
+                  <Text style={styles.optionMeta}>
+                    {template.template_exercises.length} exercise
+                    {template.template_exercises.length !== 1 ? 's' : ''}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+              </TouchableOpacity>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 12,
+  },
+  headerAction: {
+    fontSize: 16,
+    color: colors.text.secondary,
+  },
+  headerActionPrimary: {
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.primary,
+    flex: 1,
+    textAlign: 'center',
+    marginHorizontal: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollContent: {
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.primary,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 8,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginBottom: 10,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.06,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  optionMeta: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  nameCard: {
+    backgroundColor: colors.surface,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    padding: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.06,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  fieldLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+    marginBottom: 6,
+  },
+  nameInput: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+    paddingVertical: 4,
+    borderBottomWidth: 1.5,
+    borderBottomColor: colors.border,
+  },
+})
@@ -0,0 +1,389 @@
+// src/screens/main/MeasurementsScreen.tsx
+// Body measurement log: pick a metric, see its trend with a moving average,
+// log new check-ins and remove old ones
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { ProfileStackParamList } from '../../navigation/MainNavigator'
+import { useMeasurements } from '../../hooks/useMeasurements'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useToast } from '../../contexts/ToastContext'
+import { BodyMeasurement, MeasurementField, MeasurementFormData } from '../../types/measurements'
+import LineChart, { Y_AXIS_WIDTH } from '../../components/analytics/LineChart'
+import MeasurementFormModal from '../../components/profile/MeasurementFormModal'
+import {
+  MEASUREMENT_FIELDS,
+  MOVING_AVERAGE_DAYS,
+  buildMeasurementTrend,
+  getMeasurementUnitLabel,
+  toDisplayMeasurement,
+} from '../../utils/measurements'
+import { formatMediumDate } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+type MeasurementsScreenProps = {
+  navigation: NativeStackNavigationProp<ProfileStackParamList, 'Measurements'>
+}
+
+const CHART_HEIGHT = 140
+// screen margins (16) × 2 + card padding (16) × 2 + y-axis width
+const CHART_WIDTH = Dimensions.get('window').width - 64 - Y_AXIS_WIDTH
+
+export default function MeasurementsScreen({ navigation }: MeasurementsScreenProps) {
+  const { measurements, loading, fetchMeasurements, addMeasurement, deleteMeasurement } =
+    useMeasurements()
+  const unit = useWeightUnit()
+  const { showSuccess, showError } = useToast()
+  const [field, setField] = useState<MeasurementField>('bodyweight_kg')
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchMeasurements()
+  }, [fetchMeasurements])
+
+  async function handleSubmit(form: MeasurementFormData) {
+    setSaving(true)
+    const result = await addMeasurement(form, unit)
+    setSaving(false)
+
+    if (result.success) {
+      setShowForm(false)
+      showSuccess('Measurement logged')
+    } else {
+      showError(result.error ?? 'Failed to save measurement')
+    }
+  }
+
+  function handleDelete(measurement: BodyMeasurement) {
+    Alert.alert('Delete Entry', `Delete the check-in from ${formatMediumDate(measurement.measured_at)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteMeasurement(measurement.id)
+          if (!result.success) showError(result.error ?? 'Failed to delete measurement')
+        },
+      },
+    ])
+  }
+
+  const unitLabel = getMeasurementUnitLabel(field, unit)
+  const trend = buildMeasurementTrend(measurements, field)
+  const latest = trend[trend.length - 1]
+  const first = trend[0]
+
+  function display(value: number, f: MeasurementField = field): number {
+    return toDisplayMeasurement(value, f, unit)
+  }
+
+  function describeEntry(m: BodyMeasurement): string {
+    return MEASUREMENT_FIELDS.filter(f => m[f.field] !== null)
+      .map(f => `${f.label} ${display(m[f.field] as number, f.field)}${getMeasurementUnitLabel(f.field, unit)}`)
+      .join(' · ')
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={8} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Body Measurements</Text>
+        <TouchableOpacity
+          onPress={() => setShowForm(true)}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Log measurement"
+        >
+          <Ionicons name="add" size={26} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {loading && measurements.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {MEASUREMENT_FIELDS.map(f => {
+              const selected = f.field === field
+              return (
+                <TouchableOpacity
+                  key={f.field}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setField(f.field)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{f.label}</Text>
+                </TouchableOpacity>
+              )
+            })}
+          </ScrollView>
+
+          <View style={styles.card}>
+            {latest ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <View>
+                    <Text style={styles.statLabel}>Latest</Text>
+                    <Text style={styles.statValue}>
+                      {display(latest.value)}{unitLabel}
+                    </Text>
+                  </View>
+                  <View>
+                    <Text style={styles.statLabel}>{MOVING_AVERAGE_DAYS}-day average</Text>
+                    <Text style={styles.statValue}>
+                      {display(latest.average)}{unitLabel}
+                    </Text>
+                  </View>
+                  {trend.length > 1 && (
+                    <View>
+                      <Text style={styles.statLabel}>Change</Text>
+                      <Text style={styles.statValue}>
+                        {latest.value >= first.value ? '+' : ''}
+                        {Math.round((display(latest.value) - display(first.value)) * 10) / 10}
+                        {unitLabel}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+                <LineChart
+                  points={trend.map(p => ({
+                    key: p.measured_at,
+                    label: new Date(p.measured_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+                    value: display(p.value),
+                  }))}
+                  trend={trend.map(p => display(p.average))}
+                  width={CHART_WIDTH}
+                  height={CHART_HEIGHT}
+                  unitLabel={unitLabel}
+                />
+                <View style={styles.legendRow}>
+                  <View style={[styles.legendSwatch, { backgroundColor: colors.primary }]} />
+                  <Text style={styles.legendText}>Logged</Text>
+                  <View style={[styles.legendSwatch, { backgroundColor: colors.accent }]} />
+                  <Text style={styles.legendText}>{MOVING_AVERAGE_DAYS}-day average</Text>
+                </View>
+              </>
+            ) : (
+              <Text style={styles.emptyText}>
+                Nothing logged for {MEASUREMENT_FIELDS.find(f => f.field === field)?.label.toLowerCase()} yet
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={styles.logButton}
+            onPress={() => setShowForm(true)}
+            accessibilityRole="button"
+          >
+            <Ionicons name="add-circle-outline" size={20} color={colors.surface} />
+            <Text style={styles.logButtonText}>Log measurement</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Entries</Text>
+          {measurements.length === 0 ? (
+            <Text style={[styles.emptyText, styles.entriesEmpty]}>
+              Your check-ins will show up here
+            </Text>
+          ) : (
+            measurements.map(m => (
+              <View key={m.id} style={styles.entryCard}>
+                <View style={styles.entryText}>
+                  <Text style={styles.entryDate}>{formatMediumDate(m.measured_at)}</Text>
+                  <Text style={styles.entryValues}>{describeEntry(m)}</Text>
+                  {m.notes ? <Text style={styles.entryNotes}>{m.notes}</Text> : null}
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleDelete(m)}
+                  hitSlop={8}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Delete entry from ${formatMediumDate(m.measured_at)}`}
+                >
+                  <Ionicons name="trash-outline" size={18} color={colors.text.muted} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      <MeasurementFormModal
+        visible={showForm}
+        unit={unit}
+        saving={saving}
+        onClose={() => setShowForm(false)}
+        onSubmit={handleSubmit}
+      />
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    paddingBottom: 32,
+  },
+  chipRow: {
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    padding: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.primary,
+    marginTop: 4,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 2,
+    marginLeft: 6,
+  },
+  legendText: {
+    fontSize: 11,
+    color: colors.text.muted,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  logButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+  },
+  logButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  entriesEmpty: {
+    paddingHorizontal: 16,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 12,
+    padding: 14,
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  entryValues: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+  entryNotes: {
+    fontSize: 12,
+    color: colors.text.muted,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+})
@@ -11,32 +11,65 @@ import {
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { ProfileStackParamList } from '../../navigation/MainNavigator'
 import { useAuthContext } from '../../contexts/AuthContext'
 import { useToast } from '../../contexts/ToastContext'
 import { useAnalytics, ProfileStats } from '../../hooks/useAnalytics'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { formatVolume, formatWeight, toDisplayWeight, toStorageWeight } from '../../utils/units'
+import { Sex } from '../../types/strength'
+import { E1RMFormula } from '../../types/workout'
+import { DEFAULT_E1RM_FORMULA, E1RM_FORMULA_DESCRIPTIONS, E1RM_FORMULA_LABELS } from '../../utils/oneRepMax'
+import ExportDataModal from '../../components/profile/ExportDataModal'
+import ImportHistoryModal from '../../components/profile/ImportHistoryModal'
 import { colors } from '../../theme'
 
-function formatVolume(kg: number): string {
-  if (kg >= 1000) return `${(kg / 1000).toFixed(1)}k kg`
-  return `${kg} kg`
+interface ProfileScreenProps {
+  navigation: NativeStackNavigationProp<ProfileStackParamList, 'ProfileMain'>
 }
 
-export default function ProfileScreen() {
+export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   const { profile, user, signOut, updateProfile, loading } = useAuthContext()
   const { showError } = useToast()
   const { fetchProfileStats } = useAnalytics()
+  const unit = useWeightUnit()
   const [isEditing, setIsEditing] = useState(false)
   const [profileStats, setProfileStats] = useState<ProfileStats>({ totalWorkouts: 0, totalVolumeKg: 0, prsAchieved: 0 })
   const [username, setUsername] = useState(profile?.username ?? '')
   const [weightUnit, setWeightUnit] = useState<'kg' | 'lbs'>(
     profile?.default_weight_unit ?? 'kg'
   )
+  const [e1rmFormula, setE1rmFormula] = useState<E1RMFormula>(profile?.e1rm_formula ?? DEFAULT_E1RM_FORMULA)
+  const [sex, setSex] = useState<Sex | null>(profile?.sex ?? null)
+  const [bodyweight, setBodyweight] = useState(
+    profile?.bodyweight_kg ? String(toDisplayWeight(profile.bodyweight_kg, unit)) : ''
+  )
   const [isSaving, setIsSaving] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showImport, setShowImport] = useState(false)
 
   useEffect(() => {
     fetchProfileStats().then(setProfileStats)
   }, [fetchProfileStats])
 
+  function resetForm() {
+    setUsername(profile?.username ?? '')
+    setWeightUnit(profile?.default_weight_unit ?? 'kg')
+    setE1rmFormula(profile?.e1rm_formula ?? DEFAULT_E1RM_FORMULA)
+    setSex(profile?.sex ?? null)
+    setBodyweight(profile?.bodyweight_kg ? String(toDisplayWeight(profile.bodyweight_kg, unit)) : '')
+  }
+
+  // Keep a typed bodyweight meaning the same weight when the unit flips
+  function selectWeightUnit(next: 'kg' | 'lbs') {
+    const value = parseFloat(bodyweight)
+    if (next !== weightUnit && !isNaN(value)) {
+      setBodyweight(String(toDisplayWeight(toStorageWeight(value, weightUnit), next)))
+    }
+    setWeightUnit(next)
+  }
+
   async function handleSave() {
     if (!username.trim()) {
       Alert.alert('Error', 'Username cannot be empty')
@@ -48,10 +81,19 @@ export default function ProfileScreen() {
       return
     }
 
+    const bodyweightValue = bodyweight.trim() ? parseFloat(bodyweight) : null
+    if (bodyweightValue !== null && (isNaN(bodyweightValue) || bodyweightValue <= 0)) {
+      Alert.alert('Error', 'Please enter a valid bodyweight')
+      return
+    }
+
     setIsSaving(true)
     const { success, error } = await updateProfile({
       username: username.trim(),
       default_weight_unit: weightUnit,
+      e1rm_formula: e1rmFormula,
+      sex,
+      bodyweight_kg: bodyweightValue !== null ? toStorageWeight(bodyweightValue, weightUnit) : null,
     })
     setIsSaving(false)
 
@@ -69,7 +111,21 @@ export default function ProfileScreen() {
       'Are you sure you want to sign out?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Sign Out', style: 'destructive', onPress: signOut },
+        { text: 'Sign Out', style: 'destructive', onPress: confirmSignOut },
+      ]
+    )
+  }
+
+  async function confirmSignOut() {
+    const { pendingChanges } = await signOut()
+    if (pendingChanges === 0) return
+
+    Alert.alert(
+      'Unsynced Changes',
+      `${pendingChanges} change${pendingChanges === 1 ? '' : 's'} saved on this device ${pendingChanges === 1 ? 'has' : 'have'} not synced yet and will be lost if you sign out now. Reconnect to sync first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out Anyway', style: 'destructive', onPress: () => signOut({ discardPending: true }) },
       ]
     )
   }
@@ -82,7 +138,10 @@ export default function ProfileScreen() {
           {!isEditing && (
             <TouchableOpacity
               style={styles.editButton}
-              onPress={() => setIsEditing(true)}
+              onPress={() => {
+                resetForm()
+                setIsEditing(true)
+              }}
             >
               <Ionicons name="pencil" size={20} color="#1E3A5F" />
             </TouchableOpacity>
@@ -120,7 +179,7 @@ export default function ProfileScreen() {
                       styles.unitOption,
                       weightUnit === 'kg' && styles.unitOptionSelected,
                     ]}
-                    onPress={() => setWeightUnit('kg')}
+                    onPress={() => selectWeightUnit('kg')}
                   >
                     <Text
                       style={[
@@ -136,7 +195,7 @@ export default function ProfileScreen() {
                       styles.unitOption,
                       weightUnit === 'lbs' && styles.unitOptionSelected,
                     ]}
-                    onPress={() => setWeightUnit('lbs')}
+                    onPress={() => selectWeightUnit('lbs')}
                   >
                     <Text
                       style={[
@@ -150,13 +209,61 @@ export default function ProfileScreen() {
                 </View>
               </View>
 
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>1RM Estimate</Text>
+                <View style={styles.formulaSelector}>
+                  {(Object.keys(E1RM_FORMULA_LABELS) as E1RMFormula[]).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.formulaOption, e1rmFormula === option && styles.unitOptionSelected]}
+                      onPress={() => setE1rmFormula(option)}
+                    >
+                      <Text style={[styles.unitOptionText, e1rmFormula === option && styles.unitOptionTextSelected]}>
+                        {E1RM_FORMULA_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.hint}>{E1RM_FORMULA_DESCRIPTIONS[e1rmFormula]}</Text>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Sex</Text>
+                <View style={styles.unitSelector}>
+                  {(['male', 'female'] as Sex[]).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.unitOption, sex === option && styles.unitOptionSelected]}
+                      onPress={() => setSex(option)}
+                    >
+                      <Text style={[styles.unitOptionText, sex === option && styles.unitOptionTextSelected]}>
+                        {option === 'male' ? 'Male' : 'Female'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Bodyweight ({weightUnit})</Text>
+                <TextInput
+                  style={styles.input}
+                  value={bodyweight}
+                  onChangeText={setBodyweight}
+                  placeholder="Optional"
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.hint}>
+                  Used with sex for Wilks, DOTS and strength standards. Left blank, your latest weigh-in is used.
+                </Text>
+              </View>
+
               <View style={styles.editActions}>
                 <TouchableOpacity
                   style={styles.cancelButton}
                   onPress={() => {
                     setIsEditing(false)
-                    setUsername(profile?.username ?? '')
-                    setWeightUnit(profile?.default_weight_unit ?? 'kg')
+                    resetForm()
                   }}
                 >
                   <Text style={styles.cancelButtonText}>Cancel</Text>
@@ -178,10 +285,27 @@ export default function ProfileScreen() {
             <View style={styles.profileInfo}>
               <Text style={styles.username}>{profile?.username ?? 'Unknown'}</Text>
               <Text style={styles.email}>{user?.email}</Text>
-              <View style={styles.badge}>
-                <Text style={styles.badgeText}>
-                  Weight: {profile?.default_weight_unit?.toUpperCase() ?? 'KG'}
-                </Text>
+              <View style={styles.badgeRow}>
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>
+                    Weight: {profile?.default_weight_unit?.toUpperCase() ?? 'KG'}
+                  </Text>
+                </View>
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>
+                    e1RM: {E1RM_FORMULA_LABELS[profile?.e1rm_formula ?? DEFAULT_E1RM_FORMULA]}
+                  </Text>
+                </View>
+                {profile?.sex && (
+                  <View style={styles.badge}>
+                    <Text style={styles.badgeText}>{profile.sex === 'male' ? 'Male' : 'Female'}</Text>
+                  </View>
+                )}
+                {profile?.bodyweight_kg ? (
+                  <View style={styles.badge}>
+                    <Text style={styles.badgeText}>BW: {formatWeight(profile.bodyweight_kg, unit)}</Text>
+                  </View>
+                ) : null}
               </View>
             </View>
           )}
@@ -200,12 +324,76 @@ export default function ProfileScreen() {
               <Text style={styles.statLabel}>PRs Achieved</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{formatVolume(profileStats.totalVolumeKg)}</Text>
+              <Text style={styles.statNumber}>{formatVolume(profileStats.totalVolumeKg, unit)} {unit}</Text>
               <Text style={styles.statLabel}>Total Volume</Text>
             </View>
           </View>
         </View>
 
+        {/* Body */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Body</Text>
+          <TouchableOpacity
+            style={styles.dataRow}
+            onPress={() => navigation.navigate('Measurements')}
+            accessibilityRole="button"
+            accessibilityLabel="Body measurements"
+          >
+            <Ionicons name="body-outline" size={20} color={colors.primary} />
+            <View style={styles.dataRowText}>
+              <Text style={styles.dataRowTitle}>Body measurements</Text>
+              <Text style={styles.dataRowHint}>Bodyweight, body fat and tape measurements</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+          </TouchableOpacity>
+          <View style={styles.dataDivider} />
+          <TouchableOpacity
+            style={styles.dataRow}
+            onPress={() => navigation.navigate('ProgressPhotos')}
+            accessibilityRole="button"
+            accessibilityLabel="Progress photos"
+          >
+            <Ionicons name="images-outline" size={20} color={colors.primary} />
+            <View style={styles.dataRowText}>
+              <Text style={styles.dataRowTitle}>Progress photos</Text>
+              <Text style={styles.dataRowHint}>Private gallery with side-by-side comparison</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+          </TouchableOpacity>
+        </View>
+
+        {/* Data */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Your Data</Text>
+          <TouchableOpacity
+            style={styles.dataRow}
+            onPress={() => setShowExport(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Export training history"
+          >
+            <Ionicons name="download-outline" size={20} color={colors.primary} />
+            <View style={styles.dataRowText}>
+              <Text style={styles.dataRowTitle}>Export training history</Text>
+              <Text style={styles.dataRowHint}>CSV or JSON, shared from your device</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+          </TouchableOpacity>
+          <View style={styles.dataDivider} />
+          <TouchableOpacity
+            style={styles.dataRow}
+            onPress={() => setShowImport(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Import from Strong or Hevy"
+          >
+            <Ionicons name="cloud-upload-outline" size={20} color={colors.primary} />
+            <View style={styles.dataRowText}>
+              <Text style={styles.dataRowTitle}>Import from Strong or Hevy</Text>
+              <Text style={styles.dataRowHint}>Bring workouts over from a CSV export</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+          </TouchableOpacity>
+        </View>
+
         {/* Sign Out */}
         <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
           <Ionicons name="log-out-outline" size={20} color="#dc3545" />
@@ -215,6 +403,13 @@ export default function ProfileScreen() {
         {/* App Version */}
         <Text style={styles.version}>StrengthFlow v1.0.0</Text>
       </ScrollView>
+
+      <ExportDataModal visible={showExport} onClose={() => setShowExport(false)} />
+      <ImportHistoryModal
+        visible={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={() => fetchProfileStats().then(setProfileStats)}
+      />
     </SafeAreaView>
   )
 }
@@ -282,12 +477,18 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginTop: 4,
   },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
   badge: {
     backgroundColor: '#e8f4f8',
     paddingHorizontal: 12,
     paddingVertical: 4,
     borderRadius: 12,
-    marginTop: 12,
   },
   badgeText: {
     fontSize: 12,
@@ -315,6 +516,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.text.primary,
   },
+  hint: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 6,
+  },
   unitSelector: {
     flexDirection: 'row',
     gap: 12,
@@ -327,6 +533,19 @@ const styles = StyleSheet.create({
     borderColor: colors.border,
     alignItems: 'center',
   },
+  formulaSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  formulaOption: {
+    width: '48%',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
   unitOptionSelected: {
     borderColor: colors.primary,
     backgroundColor: '#e8f4f8',
@@ -397,6 +616,30 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginTop: 4,
   },
+  dataRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  dataDivider: {
+    height: 1,
+    backgroundColor: colors.borderLight,
+    marginVertical: 12,
+  },
+  dataRowText: {
+    flex: 1,
+  },
+  dataRowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  dataRowHint: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
   signOutButton: {
     flexDirection: 'row',
     alignItems: 'center',
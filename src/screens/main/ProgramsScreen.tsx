@@ -0,0 +1,316 @@
+// src/screens/main/ProgramsScreen.tsx
+// Browse multi-week programs and enrol in one
+import React, { useCallback } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { useFocusEffect } from '@react-navigation/native'
+import { usePrograms } from '../../hooks/usePrograms'
+import { useToast } from '../../contexts/ToastContext'
+import { ProgramWithDays } from '../../types/program'
+import { HomeStackParamList } from '../../navigation/MainNavigator'
+import { colors } from '../../theme'
+
+type ProgramsScreenProps = {
+  navigation: NativeStackNavigationProp<HomeStackParamList, 'Programs'>
+}
+
+export default function ProgramsScreen({ navigation }: ProgramsScreenProps) {
+  const {
+    programs,
+    todaySession,
+    loading,
+    fetchPrograms,
+    fetchTodaySession,
+    enrol,
+    leaveProgram,
+  } = usePrograms()
+  const { showError, showSuccess } = useToast()
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchPrograms()
+      fetchTodaySession()
+    }, [fetchPrograms, fetchTodaySession])
+  )
+
+  const activeProgramId = todaySession?.program.id ?? null
+
+  function handleEnrol(program: ProgramWithDays) {
+    if (activeProgramId) {
+      Alert.alert(
+        'Switch Program',
+        `Start "${program.name}"? Your progress in "${todaySession?.program.name}" will be ended.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Switch', style: 'destructive', onPress: () => doEnrol(program) },
+        ]
+      )
+      return
+    }
+
+    doEnrol(program)
+  }
+
+  async function doEnrol(program: ProgramWithDays) {
+    const result = await enrol(program.id)
+    if (result.success) {
+      showSuccess(`Started ${program.name}`)
+      navigation.goBack()
+    } else {
+      showError(result.error ?? 'Failed to start program')
+    }
+  }
+
+  function handleLeave() {
+    Alert.alert('Leave Program', 'Stop following this program? Logged workouts are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await leaveProgram()
+          if (!result.success) showError(result.error ?? 'Failed to leave program')
+        },
+      },
+    ])
+  }
+
+  function renderProgram({ item }: { item: ProgramWithDays }) {
+    const isActiveProgram = item.id === activeProgramId
+    const firstWeek = item.program_days.filter(day => day.week_number === 1)
+    const sessionsPerWeek = firstWeek.filter(day => day.template_id !== null).length
+
+    return (
+      <View style={[styles.programCard, isActiveProgram && styles.programCardActive]}>
+        <View style={styles.programHeader}>
+          <Text style={styles.programName}>{item.name}</Text>
+          {isActiveProgram && (
+            <View style={styles.activeBadge}>
+              <Text style={styles.activeBadgeText}>
+                Week {todaySession?.weekNumber} of {item.weeks}
+              </Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.programMeta}>
+          {item.weeks} weeks • {sessionsPerWeek} sessions/week
+        </Text>
+        {item.description && (
+          <Text style={styles.programDescription}>{item.description}</Text>
+        )}
+
+        {/* Week 1 at a glance */}
+        <View style={styles.weekPreview}>
+          {firstWeek.map(day => (
+            <View
+              key={day.id}
+              style={[styles.dayChip, day.template_id === null && styles.dayChipRest]}
+            >
+              <Text
+                style={[styles.dayChipText, day.template_id === null && styles.dayChipTextRest]}
+                numberOfLines={1}
+              >
+                {day.template?.name ?? 'Rest'}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {isActiveProgram ? (
+          <TouchableOpacity
+            style={styles.leaveButton}
+            onPress={handleLeave}
+            accessibilityRole="button"
+            accessibilityLabel={`Leave ${item.name}`}
+          >
+            <Text style={styles.leaveButtonText}>Leave Program</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.enrolButton}
+            onPress={() => handleEnrol(item)}
+            accessibilityRole="button"
+            accessibilityLabel={`Start ${item.name}`}
+          >
+            <Text style={styles.enrolButtonText}>Start Program</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Programs</Text>
+      </View>
+
+      {loading && programs.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={programs}
+          renderItem={renderProgram}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="calendar-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No programs available</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+  },
+  programCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  programCardActive: {
+    borderColor: colors.primary,
+  },
+  programHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  programName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  activeBadge: {
+    backgroundColor: '#e8f4f8',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  activeBadgeText: {
+    fontSize: 11,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  programMeta: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+  programDescription: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: 4,
+  },
+  weekPreview: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 12,
+  },
+  dayChip: {
+    backgroundColor: colors.background,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    maxWidth: 96,
+  },
+  dayChipRest: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dayChipText: {
+    fontSize: 12,
+    color: colors.text.primary,
+  },
+  dayChipTextRest: {
+    color: colors.text.muted,
+  },
+  enrolButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 14,
+  },
+  enrolButtonText: {
+    color: colors.surface,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  leaveButton: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 14,
+  },
+  leaveButtonText: {
+    color: colors.text.secondary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginTop: 12,
+  },
+})
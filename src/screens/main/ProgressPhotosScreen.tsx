@@ -0,0 +1,370 @@
+// src/screens/main/ProgressPhotosScreen.tsx
+// Progress photo gallery grouped by day, with side-by-side comparison.
+// Photos taken offline show straight away and upload once back online.
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  Dimensions,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { ProfileStackParamList } from '../../navigation/MainNavigator'
+import { PhotoSource, PickedPhoto, useProgressPhotos } from '../../hooks/useProgressPhotos'
+import { useToast } from '../../contexts/ToastContext'
+import { GalleryPhoto, PhotoFormData } from '../../types/photos'
+import AddPhotoModal from '../../components/profile/AddPhotoModal'
+import ComparePhotosModal from '../../components/profile/ComparePhotosModal'
+import { groupPhotosByDay } from '../../utils/photos'
+import { formatMediumDate } from '../../utils/formatting'
+import { colors } from '../../theme'
+
+type ProgressPhotosScreenProps = {
+  navigation: NativeStackNavigationProp<ProfileStackParamList, 'ProgressPhotos'>
+}
+
+const GRID_COLUMNS = 3
+const GRID_GAP = 4
+// screen margins (16) × 2 plus the gaps between columns
+const TILE_SIZE =
+  (Dimensions.get('window').width - 32 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS
+
+export default function ProgressPhotosScreen({ navigation }: ProgressPhotosScreenProps) {
+  const {
+    photos,
+    loading,
+    pendingCount,
+    fetchPhotos,
+    pickPhoto,
+    addPhoto,
+    deletePhoto,
+    syncPendingUploads,
+    fetchWorkoutsOn,
+  } = useProgressPhotos()
+  const { showSuccess, showError, showInfo } = useToast()
+  const [picked, setPicked] = useState<PickedPhoto | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [viewing, setViewing] = useState<GalleryPhoto | null>(null)
+  const [comparing, setComparing] = useState(false)
+
+  useEffect(() => {
+    fetchPhotos()
+  }, [fetchPhotos])
+
+  const days = groupPhotosByDay(photos)
+
+  async function handlePick(source: PhotoSource) {
+    const result = await pickPhoto(source)
+    if (!result.success) showError(result.error ?? 'Failed to open photos')
+    else if (result.photo) setPicked(result.photo)
+  }
+
+  function handleAdd() {
+    Alert.alert('Add Progress Photo', undefined, [
+      { text: 'Take Photo', onPress: () => handlePick('camera') },
+      { text: 'Choose from Library', onPress: () => handlePick('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ])
+  }
+
+  async function handleSubmit(form: PhotoFormData) {
+    setSaving(true)
+    const result = await addPhoto(form)
+    setSaving(false)
+
+    if (result.success) {
+      setPicked(null)
+      if (result.queued) showInfo('Saved on this device. It will upload when you are back online.')
+      else showSuccess('Photo added')
+    } else {
+      showError(result.error ?? 'Failed to save photo')
+    }
+  }
+
+  function handleDelete(photo: GalleryPhoto) {
+    Alert.alert('Delete Photo', 'This removes the photo permanently.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deletePhoto(photo)
+          if (result.success) setViewing(null)
+          else showError(result.error ?? 'Failed to delete photo')
+        },
+      },
+    ])
+  }
+
+  async function handleRetry() {
+    const result = await syncPendingUploads()
+    if (result.remaining > 0) showError('Still offline. Uploads will resume automatically.')
+    result.issues.forEach(issue => showError(`A photo could not be uploaded: ${issue.message}`))
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={8} accessibilityRole="button" accessibilityLabel="Go back">
+          <Ionicons name="arrow-back" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Progress Photos</Text>
+        <TouchableOpacity onPress={handleAdd} hitSlop={8} accessibilityRole="button" accessibilityLabel="Add photo">
+          <Ionicons name="camera-outline" size={24} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {pendingCount > 0 && (
+        <TouchableOpacity style={styles.pendingBanner} onPress={handleRetry} accessibilityRole="button">
+          <Ionicons name="cloud-offline-outline" size={18} color={colors.warning} />
+          <Text style={styles.pendingText}>
+            {pendingCount} photo{pendingCount !== 1 ? 's' : ''} waiting to upload · Tap to retry
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {loading && photos.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : photos.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="images-outline" size={48} color={colors.text.faint} />
+          <Text style={styles.emptyTitle}>No progress photos yet</Text>
+          <Text style={styles.emptyText}>Photos are private to you and can be compared side by side.</Text>
+          <TouchableOpacity style={styles.addButton} onPress={handleAdd} accessibilityRole="button">
+            <Text style={styles.addButtonText}>Add your first photo</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {days.length > 1 && (
+            <TouchableOpacity
+              style={styles.compareButton}
+              onPress={() => setComparing(true)}
+              accessibilityRole="button"
+            >
+              <Ionicons name="git-compare-outline" size={18} color={colors.primary} />
+              <Text style={styles.compareText}>Compare two dates</Text>
+            </TouchableOpacity>
+          )}
+
+          {days.map(day => (
+            <View key={day.taken_on} style={styles.daySection}>
+              <Text style={styles.dayTitle}>{formatMediumDate(`${day.taken_on}T00:00:00`)}</Text>
+              <View style={styles.grid}>
+                {day.photos.map(photo => (
+                  <TouchableOpacity
+                    key={photo.id}
+                    onPress={() => setViewing(photo)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Photo from ${formatMediumDate(`${day.taken_on}T00:00:00`)}`}
+                  >
+                    <Image source={{ uri: photo.thumbnail_url }} style={styles.tile} />
+                    {photo.pending && (
+                      <View style={styles.tileBadge}>
+                        <Ionicons name="cloud-upload-outline" size={14} color={colors.text.inverse} />
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal visible={viewing !== null} animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          <View style={styles.viewerHeader}>
+            <TouchableOpacity onPress={() => setViewing(null)} hitSlop={8} accessibilityRole="button" accessibilityLabel="Close">
+              <Ionicons name="close" size={26} color={colors.text.inverse} />
+            </TouchableOpacity>
+            {viewing && (
+              <TouchableOpacity onPress={() => handleDelete(viewing)} hitSlop={8} accessibilityRole="button" accessibilityLabel="Delete photo">
+                <Ionicons name="trash-outline" size={22} color={colors.text.inverse} />
+              </TouchableOpacity>
+            )}
+          </View>
+          {viewing && (
+            <>
+              <Image source={{ uri: viewing.url }} style={styles.viewerImage} resizeMode="contain" />
+              <View style={styles.viewerFooter}>
+                <Text style={styles.viewerDate}>{formatMediumDate(`${viewing.taken_on}T00:00:00`)}</Text>
+                {viewing.notes ? <Text style={styles.viewerNotes}>{viewing.notes}</Text> : null}
+              </View>
+            </>
+          )}
+        </View>
+      </Modal>
+
+      <AddPhotoModal
+        photo={picked}
+        saving={saving}
+        fetchWorkoutsOn={fetchWorkoutsOn}
+        onClose={() => setPicked(null)}
+        onSubmit={handleSubmit}
+      />
+      <ComparePhotosModal visible={comparing} days={days} onClose={() => setComparing(false)} />
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.warning,
+  },
+  pendingText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  addButton: {
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  compareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  compareText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  daySection: {
+    marginBottom: 16,
+  },
+  dayTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginBottom: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GRID_GAP,
+  },
+  tile: {
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+    borderRadius: 6,
+    backgroundColor: colors.surfaceAlt,
+  },
+  tileBadge: {
+    position: 'absolute',
+    right: 4,
+    bottom: 4,
+    padding: 3,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingTop: 48,
+  },
+  viewerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  viewerImage: {
+    flex: 1,
+  },
+  viewerFooter: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  viewerDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  },
+  viewerNotes: {
+    fontSize: 13,
+    color: colors.text.faint,
+    marginTop: 4,
+  },
+})
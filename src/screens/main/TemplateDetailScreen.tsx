@@ -23,6 +23,7 @@ import { useToast } from '../../contexts/ToastContext'
 import { WorkoutTemplateWithExercises, TemplateExercise, Exercise } from '../../types/workout'
 import { HomeStackParamList } from '../../navigation/MainNavigator'
 import { formatMuscleGroup, getMuscleColor } from '../../utils/formatting'
+import { describePercentages, expandSetPercentages } from '../../utils/percentageTargets'
 import { colors } from '../../theme'
 
 type TemplateDetailScreenProps = {
@@ -157,7 +158,12 @@ export default function TemplateDetailScreen({
     const exercise = item.exercise
 
     return (
-      <View style={styles.exerciseCard}>
+      <TouchableOpacity
+        style={styles.exerciseCard}
+        onPress={() => navigation.navigate('ExerciseDetail', { exerciseId: exercise.id })}
+        accessibilityRole="button"
+        accessibilityLabel={`${exercise.name} details`}
+      >
         <View style={styles.exerciseIndex}>
           <Text style={styles.exerciseIndexText}>{index + 1}</Text>
         </View>
@@ -188,6 +194,9 @@ export default function TemplateDetailScreen({
               {item.target_sets} sets
               {item.target_reps && ` × ${item.target_reps} reps`}
               {item.target_rpe && ` @ RPE ${item.target_rpe}`}
+              {item.load_basis && item.set_percentages?.length
+                ? ` @ ${describePercentages(expandSetPercentages(item.set_percentages, item.target_sets), item.load_basis)}`
+                : ''}
             </Text>
             {item.rest_seconds > 0 && (
               <Text style={styles.restText}>
@@ -199,7 +208,8 @@ export default function TemplateDetailScreen({
             <Text style={styles.exerciseNotes}>{item.notes}</Text>
           )}
         </View>
-      </View>
+        <Ionicons name="chevron-forward" size={18} color={colors.text.faint} style={styles.exerciseChevron} />
+      </TouchableOpacity>
     )
   }
 
@@ -439,6 +449,10 @@ const styles = StyleSheet.create({
   exerciseContent: {
     flex: 1,
   },
+  exerciseChevron: {
+    alignSelf: 'center',
+    marginLeft: 8,
+  },
   exerciseName: {
     fontSize: 16,
     fontWeight: '600',
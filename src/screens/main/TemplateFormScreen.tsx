@@ -4,6 +4,9 @@
 // SEDP-72: Save new template
 // SEDP-73: Load and update existing template
 // SEDP-75: Reorder exercises with up/down buttons
+// Per-exercise warm-up generation toggle for barbell compounds
+// Link adjacent exercises into supersets, giant sets and circuits
+// Per-set loads as a percentage of the exercise's 1RM or training max
 import React, { useState, useEffect } from 'react'
 import {
   View,
@@ -16,6 +19,7 @@ import {
   Platform,
   ActivityIndicator,
   Alert,
+  Switch,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
@@ -23,10 +27,38 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { RouteProp } from '@react-navigation/native'
 import { HomeStackParamList } from '../../navigation/MainNavigator'
 import { useTemplateManagement } from '../../hooks/useTemplateManagement'
+import { useExerciseMaxes } from '../../hooks/useExerciseMaxes'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
 import { useToast } from '../../contexts/ToastContext'
 import ExercisePickerModal from '../../components/workout/ExercisePickerModal'
-import { Exercise, TemplateExerciseFormData } from '../../types/workout'
+import {
+  Exercise,
+  ExerciseGroupType,
+  ExerciseMax,
+  LoadBasis,
+  TemplateExerciseFormData,
+  WeightUnit,
+} from '../../types/workout'
 import { formatMuscleGroup } from '../../utils/formatting'
+import { canGenerateWarmups } from '../../utils/workoutCalculations'
+import {
+  DEFAULT_SET_PERCENTAGE,
+  LOAD_BASIS_LABELS,
+  LOAD_BASIS_NAMES,
+  LoadBases,
+  expandSetPercentages,
+  getBasisKg,
+} from '../../utils/percentageTargets'
+import { formatWeight, toDisplayWeight, toStorageWeight } from '../../utils/units'
+import {
+  GROUP_TYPE_LABELS,
+  GroupPosition,
+  getGroupPositions,
+  normalizeGroups,
+  linkWithNext,
+  unlinkFromNext,
+  setGroupType,
+} from '../../utils/exerciseGroups'
 import { colors } from '../../theme'
 
 type TemplateFormScreenProps = {
@@ -44,20 +76,26 @@ interface ExerciseConfigCardProps {
   item: TemplateExerciseFormData
   index: number
   total: number
+  group: GroupPosition | null
   onMoveUp: () => void
   onMoveDown: () => void
   onRemove: () => void
   onChangeField: (field: 'target_sets' | 'target_reps' | 'target_rpe' | 'rest_seconds', value: number | null) => void
+  onToggleWarmup: (enabled: boolean) => void
+  loads: PercentageEditorProps
 }
 
 function ExerciseConfigCard({
   item,
   index,
   total,
+  group,
   onMoveUp,
   onMoveDown,
   onRemove,
   onChangeField,
+  onToggleWarmup,
+  loads,
 }: ExerciseConfigCardProps) {
   // Local string state lets the user type freely; values commit on blur
   const [setsText, setSetsText] = useState(String(item.target_sets))
@@ -114,11 +152,11 @@ function ExerciseConfigCard({
   }
 
   return (
-    <View style={styles.exerciseCard}>
+    <View style={[styles.exerciseCard, group && styles.exerciseCardGrouped]}>
       {/* Header row: index badge + name/muscle + reorder + remove */}
       <View style={styles.exerciseCardHeader}>
-        <View style={styles.exerciseOrderBadge}>
-          <Text style={styles.exerciseOrderText}>{index + 1}</Text>
+        <View style={[styles.exerciseOrderBadge, group && styles.exerciseOrderBadgeGrouped]}>
+          <Text style={styles.exerciseOrderText}>{group ? group.label : index + 1}</Text>
         </View>
         <View style={styles.exerciseCardInfo}>
           <Text style={styles.exerciseCardName} numberOfLines={1}>
@@ -205,7 +243,10 @@ function ExerciseConfigCard({
         </View>
         <View style={styles.configDivider} />
         <View style={styles.configField}>
-          <Text style={styles.configLabel}>Rest (s)</Text>
+          {/* Within a group only the last exercise's rest is used, after each round */}
+          <Text style={styles.configLabel}>
+            {group && group.position < group.size - 1 ? 'Rest (s)*' : 'Rest (s)'}
+          </Text>
           <TextInput
             style={styles.configInput}
             value={restText}
@@ -217,10 +258,233 @@ function ExerciseConfigCard({
           />
         </View>
       </View>
+
+      {canGenerateWarmups(item.exercise) && (
+        <View style={styles.warmupRow}>
+          <Text style={styles.warmupLabel}>Generate warm-up sets</Text>
+          <Switch
+            value={item.warmup_enabled}
+            onValueChange={onToggleWarmup}
+            trackColor={{ true: colors.accent, false: colors.border }}
+            accessibilityLabel={`Generate warm-up sets for ${item.exercise.name}`}
+          />
+        </View>
+      )}
+
+      <PercentageEditor {...loads} />
+
+      {group && group.position < group.size - 1 && (
+        <Text style={styles.groupRestHint}>* Rest comes after the last exercise in the round</Text>
+      )}
+    </View>
+  )
+}
+
+// ─── Percentage loads ───────────────────────────────────────────────────────
+
+interface PercentageEditorProps {
+  item: TemplateExerciseFormData
+  bases: LoadBases | undefined
+  stored: ExerciseMax | undefined
+  unit: WeightUnit
+  onChange: (loadBasis: LoadBasis | null, setPercentages: number[] | null) => void
+  onSaveMax: (basis: LoadBasis, valueKg: number | null) => void
+}
+
+const BASIS_OPTIONS: (LoadBasis | null)[] = [null, 'one_rep_max', 'training_max']
+
+// Percent inputs commit on blur like the fields above; the max saves to the
+// exercise, not the template, so every template using it picks it up
+function PercentageEditor({ item, bases, stored, unit, onChange, onSaveMax }: PercentageEditorProps) {
+  const percentages = item.set_percentages
+    ? expandSetPercentages(item.set_percentages, item.target_sets)
+    : []
+  const [pctTexts, setPctTexts] = useState(percentages.map(String))
+  const storedKg =
+    item.load_basis === 'training_max' ? stored?.training_max_kg : stored?.one_rep_max_kg
+  const [maxText, setMaxText] = useState(storedKg != null ? String(toDisplayWeight(storedKg, unit)) : '')
+  const basisKg = item.load_basis ? getBasisKg(bases, item.load_basis) : null
+
+  // Keep one input per set as the set count changes
+  useEffect(() => {
+    setPctTexts(percentages.map(String))
+  }, [item.target_sets, item.load_basis, item.set_percentages?.join(',')])
+
+  useEffect(() => {
+    setMaxText(storedKg != null ? String(toDisplayWeight(storedKg, unit)) : '')
+  }, [storedKg, unit])
+
+  function selectBasis(basis: LoadBasis | null) {
+    if (basis === item.load_basis) return
+    onChange(basis, basis ? item.set_percentages ?? [DEFAULT_SET_PERCENTAGE] : null)
+  }
+
+  function commitPercentage(index: number, text: string) {
+    const val = parseFloat(text)
+    const next = [...percentages]
+    if (!isNaN(val)) next[index] = Math.min(120, Math.max(1, Math.round(val * 2) / 2))
+    setPctTexts(next.map(String))
+    onChange(item.load_basis, next)
+  }
+
+  function commitMax(text: string) {
+    if (!item.load_basis) return
+    const val = parseFloat(text)
+    const valueKg = isNaN(val) || val <= 0 ? null : toStorageWeight(val, unit)
+    if (valueKg === (storedKg ?? null)) return
+    onSaveMax(item.load_basis, valueKg)
+  }
+
+  return (
+    <View style={styles.loadSection}>
+      <View style={styles.loadHeader}>
+        <Text style={styles.warmupLabel}>Load</Text>
+        <View style={styles.loadChips}>
+          {BASIS_OPTIONS.map(basis => {
+            const selected = basis === item.load_basis
+            return (
+              <TouchableOpacity
+                key={basis ?? 'none'}
+                style={[styles.groupTypeChip, selected && styles.groupTypeChipSelected]}
+                onPress={() => selectBasis(basis)}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                accessibilityLabel={
+                  basis
+                    ? `Load ${item.exercise.name} as a percentage of ${LOAD_BASIS_NAMES[basis].toLowerCase()}`
+                    : `No percentage loads for ${item.exercise.name}`
+                }
+              >
+                <Text style={[styles.groupTypeChipText, selected && styles.groupTypeChipTextSelected]}>
+                  {basis ? `% ${LOAD_BASIS_LABELS[basis]}` : 'None'}
+                </Text>
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+      </View>
+
+      {item.load_basis && (
+        <>
+          <View style={styles.maxRow}>
+            <Text style={styles.maxLabel}>
+              {LOAD_BASIS_NAMES[item.load_basis]} ({unit})
+            </Text>
+            <TextInput
+              style={styles.configInput}
+              value={maxText}
+              onChangeText={setMaxText}
+              onBlur={() => commitMax(maxText)}
+              keyboardType="decimal-pad"
+              maxLength={6}
+              // Without a stored value the estimate from PRs is used
+              placeholder={basisKg ? `≈${toDisplayWeight(basisKg, unit)}` : '—'}
+              placeholderTextColor="#bbb"
+              selectTextOnFocus
+              accessibilityLabel={`${LOAD_BASIS_NAMES[item.load_basis]} for ${item.exercise.name}`}
+            />
+          </View>
+
+          <View style={styles.pctRow}>
+            {percentages.map((pct, i) => (
+              <View key={i} style={styles.pctField}>
+                <Text style={styles.configLabel}>Set {i + 1}</Text>
+                <TextInput
+                  style={styles.configInput}
+                  value={pctTexts[i] ?? ''}
+                  onChangeText={text =>
+                    setPctTexts(prev => prev.map((t, j) => (j === i ? text : t)))
+                  }
+                  onBlur={() => commitPercentage(i, pctTexts[i] ?? '')}
+                  keyboardType="decimal-pad"
+                  maxLength={5}
+                  selectTextOnFocus
+                  accessibilityLabel={`Set ${i + 1} percentage`}
+                />
+                <Text style={styles.pctPreview}>
+                  {basisKg ? formatWeight((basisKg * pct) / 100, unit) : '—'}
+                </Text>
+              </View>
+            ))}
+          </View>
+          {!basisKg && (
+            <Text style={styles.groupRestHint}>
+              Enter a {LOAD_BASIS_NAMES[item.load_basis].toLowerCase()} or log this lift to resolve weights.
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  )
+}
+
+// ─── Group controls ─────────────────────────────────────────────────────────
+
+interface GroupHeaderProps {
+  group: GroupPosition
+  onChangeType: (type: ExerciseGroupType) => void
+}
+
+// Superset vs giant set follows the member count; circuit is an explicit choice
+function GroupHeader({ group, onChangeType }: GroupHeaderProps) {
+  const isCircuit = group.type === 'circuit'
+  const sizedType: ExerciseGroupType = group.size > 2 ? 'giant_set' : 'superset'
+
+  return (
+    <View style={styles.groupHeader}>
+      <Ionicons name="link" size={14} color={colors.accent} />
+      <Text style={styles.groupHeaderText}>
+        {GROUP_TYPE_LABELS[group.type]} · {group.size} exercises
+      </Text>
+      {([sizedType, 'circuit'] as ExerciseGroupType[]).map(type => {
+        const selected = type === 'circuit' ? isCircuit : !isCircuit
+        return (
+          <TouchableOpacity
+            key={type}
+            style={[styles.groupTypeChip, selected && styles.groupTypeChipSelected]}
+            onPress={() => onChangeType(type)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            accessibilityLabel={`Make group ${group.label[0]} a ${GROUP_TYPE_LABELS[type].toLowerCase()}`}
+          >
+            <Text style={[styles.groupTypeChipText, selected && styles.groupTypeChipTextSelected]}>
+              {GROUP_TYPE_LABELS[type]}
+            </Text>
+          </TouchableOpacity>
+        )
+      })}
     </View>
   )
 }
 
+interface LinkToggleProps {
+  linked: boolean
+  fromName: string
+  toName: string
+  onPress: () => void
+}
+
+function LinkToggle({ linked, fromName, toName, onPress }: LinkToggleProps) {
+  return (
+    <TouchableOpacity
+      style={styles.linkToggle}
+      onPress={onPress}
+      hitSlop={6}
+      accessibilityRole="button"
+      accessibilityLabel={linked ? `Unlink ${fromName} and ${toName}` : `Link ${fromName} and ${toName}`}
+    >
+      <Ionicons
+        name={linked ? 'unlink-outline' : 'link-outline'}
+        size={14}
+        color={linked ? colors.text.muted : colors.primary}
+      />
+      <Text style={[styles.linkToggleText, linked && styles.linkToggleTextLinked]}>
+        {linked ? 'Unlink' : 'Superset with next'}
+      </Text>
+    </TouchableOpacity>
+  )
+}
+
 // ─── Main screen ────────────────────────────────────────────────────────────
 
 export default function TemplateFormScreen({
@@ -233,6 +497,8 @@ export default function TemplateFormScreen({
   const { loading, createTemplate, updateTemplate, fetchTemplateForEdit } =
     useTemplateManagement()
   const { showError } = useToast()
+  const unit = useWeightUnit()
+  const { maxes, bases, fetchMaxes, saveMax } = useExerciseMaxes()
 
   const [initLoading, setInitLoading] = useState(isEditMode)
   const [name, setName] = useState('')
@@ -258,6 +524,11 @@ export default function TemplateFormScreen({
             target_reps: te.target_reps,
             target_rpe: te.target_rpe,
             rest_seconds: te.rest_seconds,
+            warmup_enabled: te.warmup_enabled ?? true,
+            load_basis: te.load_basis ?? null,
+            set_percentages: te.set_percentages ?? null,
+            group_id: te.group_id ?? null,
+            group_type: te.group_type ?? null,
             notes: te.notes,
           }))
         )
@@ -279,6 +550,11 @@ export default function TemplateFormScreen({
         target_reps: null,
         target_rpe: null,
         rest_seconds: 90,
+        warmup_enabled: true,
+        load_basis: null,
+        set_percentages: null,
+        group_id: null,
+        group_type: null,
         notes: null,
       },
     ])
@@ -286,7 +562,7 @@ export default function TemplateFormScreen({
 
   function handleRemoveExercise(tempId: string) {
     setExercises(prev =>
-      prev.filter(e => e.tempId !== tempId).map((e, i) => ({ ...e, order_index: i }))
+      normalizeGroups(prev.filter(e => e.tempId !== tempId)).map((e, i) => ({ ...e, order_index: i }))
     )
   }
 
@@ -296,7 +572,7 @@ export default function TemplateFormScreen({
     setExercises(prev => {
       const next = [...prev]
       ;[next[index - 1], next[index]] = [next[index], next[index - 1]]
-      return next.map((e, i) => ({ ...e, order_index: i }))
+      return normalizeGroups(next).map((e, i) => ({ ...e, order_index: i }))
     })
   }
 
@@ -305,7 +581,7 @@ export default function TemplateFormScreen({
       if (index === prev.length - 1) return prev
       const next = [...prev]
       ;[next[index], next[index + 1]] = [next[index + 1], next[index]]
-      return next.map((e, i) => ({ ...e, order_index: i }))
+      return normalizeGroups(next).map((e, i) => ({ ...e, order_index: i }))
     })
   }
 
@@ -319,6 +595,52 @@ export default function TemplateFormScreen({
     )
   }
 
+  function toggleExerciseWarmup(tempId: string, enabled: boolean) {
+    setExercises(prev =>
+      prev.map(e => (e.tempId === tempId ? { ...e, warmup_enabled: enabled } : e))
+    )
+  }
+
+  function updateExerciseLoads(
+    tempId: string,
+    loadBasis: LoadBasis | null,
+    setPercentages: number[] | null
+  ) {
+    setExercises(prev =>
+      prev.map(e =>
+        e.tempId === tempId ? { ...e, load_basis: loadBasis, set_percentages: setPercentages } : e
+      )
+    )
+  }
+
+  async function handleSaveMax(exerciseId: string, basis: LoadBasis, valueKg: number | null) {
+    const result = await saveMax(exerciseId, basis, valueKg)
+    if (!result.success) showError(result.error ?? 'Failed to save max')
+  }
+
+  // Maxes are only looked up for exercises that use percentage loads
+  const loadExerciseKey = exercises
+    .filter(e => e.load_basis)
+    .map(e => e.exercise_id)
+    .join(',')
+  useEffect(() => {
+    const missing = loadExerciseKey.split(',').filter(id => id && !bases[id])
+    if (missing.length > 0) fetchMaxes(missing)
+  }, [loadExerciseKey, fetchMaxes])
+
+  function toggleLinkWithNext(index: number) {
+    setExercises(prev => {
+      const linked = !!prev[index].group_id && prev[index].group_id === prev[index + 1]?.group_id
+      return linked ? unlinkFromNext(prev, index) : linkWithNext(prev, index)
+    })
+  }
+
+  function changeGroupType(groupId: string, type: ExerciseGroupType) {
+    setExercises(prev => setGroupType(prev, groupId, type))
+  }
+
+  const groupPositions = getGroupPositions(exercises)
+
   // SEDP-72: Save new / SEDP-73: Update existing
   async function handleSave() {
     const trimmedName = name.trim()
@@ -423,18 +745,47 @@ export default function TemplateFormScreen({
               Exercises{exercises.length > 0 ? ` (${exercises.length})` : ''}
             </Text>
 
-            {exercises.map((ex, index) => (
-              <ExerciseConfigCard
-                key={ex.tempId}
-                item={ex}
-                index={index}
-                total={exercises.length}
-                onMoveUp={() => handleMoveUp(index)}
-                onMoveDown={() => handleMoveDown(index)}
-                onRemove={() => handleRemoveExercise(ex.tempId)}
-                onChangeField={(field, value) => updateExerciseField(ex.tempId, field, value)}
-              />
-            ))}
+            {exercises.map((ex, index) => {
+              const group = groupPositions[index]
+              const next = exercises[index + 1]
+              return (
+                <React.Fragment key={ex.tempId}>
+                  {group?.position === 0 && (
+                    <GroupHeader
+                      group={group}
+                      onChangeType={type => changeGroupType(group.groupId, type)}
+                    />
+                  )}
+                  <ExerciseConfigCard
+                    item={ex}
+                    index={index}
+                    total={exercises.length}
+                    group={group}
+                    onMoveUp={() => handleMoveUp(index)}
+                    onMoveDown={() => handleMoveDown(index)}
+                    onRemove={() => handleRemoveExercise(ex.tempId)}
+                    onChangeField={(field, value) => updateExerciseField(ex.tempId, field, value)}
+                    onToggleWarmup={enabled => toggleExerciseWarmup(ex.tempId, enabled)}
+                    loads={{
+                      item: ex,
+                      bases: bases[ex.exercise_id],
+                      stored: maxes[ex.exercise_id],
+                      unit,
+                      onChange: (basis, pcts) => updateExerciseLoads(ex.tempId, basis, pcts),
+                      onSaveMax: (basis, valueKg) => handleSaveMax(ex.exercise_id, basis, valueKg),
+                    }}
+                  />
+                  {next && (
+                    <LinkToggle
+                      linked={!!group && groupPositions[index + 1]?.groupId === group.groupId}
+                      fromName={ex.exercise.name}
+                      toName={next.exercise.name}
+                      onPress={() => toggleLinkWithNext(index)}
+                    />
+                  )}
+                </React.Fragment>
+              )
+            })}
 
             {/* Add exercise */}
             <TouchableOpacity
@@ -569,6 +920,10 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  exerciseCardGrouped: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.accent,
+  },
   exerciseCardHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -583,6 +938,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: 10,
   },
+  exerciseOrderBadgeGrouped: {
+    backgroundColor: colors.accent,
+  },
   exerciseOrderText: {
     color: colors.surface,
     fontSize: 13,
@@ -656,6 +1014,116 @@ const styles = StyleSheet.create({
     height: 36,
     backgroundColor: colors.border,
   },
+  warmupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    paddingHorizontal: 4,
+  },
+  warmupLabel: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  loadSection: {
+    marginTop: 10,
+    paddingHorizontal: 4,
+  },
+  loadHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  loadChips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  maxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  maxLabel: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  pctRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+    backgroundColor: colors.borderLight,
+    borderRadius: 8,
+    padding: 10,
+  },
+  pctField: {
+    alignItems: 'center',
+    gap: 4,
+    minWidth: 52,
+  },
+  pctPreview: {
+    fontSize: 11,
+    color: colors.text.muted,
+  },
+  groupRestHint: {
+    fontSize: 11,
+    color: colors.text.muted,
+    marginTop: 8,
+    paddingHorizontal: 4,
+  },
+  // Groups
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginHorizontal: 16,
+    marginBottom: 6,
+  },
+  groupHeaderText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.accent,
+  },
+  groupTypeChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  groupTypeChipSelected: {
+    borderColor: colors.accent,
+    backgroundColor: colors.accent,
+  },
+  groupTypeChipText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  groupTypeChipTextSelected: {
+    color: colors.surface,
+  },
+  linkToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 4,
+    marginTop: -4,
+    marginBottom: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  linkToggleText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+  linkToggleTextLinked: {
+    color: colors.text.muted,
+  },
   // Add exercise button
   addExerciseButton: {
     flexDirection: 'row',
@@ -2,6 +2,8 @@
 // SEDP-66: Workout Detail screen
 // SEDP-67: Display all exercises and sets
 // SEDP-68: Show duration, volume, notes
+// Supersets and circuits are labelled A1/A2 under a group heading
+// Edit mode for correcting sets, exercises, times and notes after the fact
 import React, { useEffect, useState } from 'react'
 import {
   View,
@@ -10,6 +12,9 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
@@ -17,6 +22,12 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { RouteProp } from '@react-navigation/native'
 import { HistoryStackParamList } from '../../navigation/MainNavigator'
 import { useWorkoutHistory, WorkoutDetail } from '../../hooks/useWorkoutHistory'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { useToast } from '../../contexts/ToastContext'
+import WorkoutEditor from '../../components/workout/WorkoutEditor'
+import { isWorkoutEditEmpty, planWorkoutEdit } from '../../utils/workoutEdits'
+import { toDisplayWeight, toDisplayVolume } from '../../utils/units'
+import { GROUP_TYPE_LABELS, getGroupPositions } from '../../utils/exerciseGroups'
 import { colors } from '../../theme'
 import {
   formatMuscleGroup,
@@ -36,9 +47,14 @@ export default function WorkoutDetailScreen({
   route,
 }: WorkoutDetailScreenProps) {
   const { workoutId } = route.params
-  const { fetchWorkoutDetail } = useWorkoutHistory()
+  const { fetchWorkoutDetail, saveWorkoutEdits } = useWorkoutHistory()
+  const unit = useWeightUnit()
+  const { showSuccess, showError } = useToast()
   const [workout, setWorkout] = useState<WorkoutDetail | null>(null)
   const [loading, setLoading] = useState(true)
+  // Non-null while editing; the saved workout stays untouched until Save
+  const [draft, setDraft] = useState<WorkoutDetail | null>(null)
+  const [saving, setSaving] = useState(false)
 
   useEffect(() => {
     async function load() {
@@ -81,6 +97,70 @@ export default function WorkoutDetailScreen({
     )
   }
 
+  const groupPositions = getGroupPositions(workout.exercises)
+
+  function handleCancelEdit() {
+    if (!workout || !draft || isWorkoutEditEmpty(planWorkoutEdit(workout, draft))) {
+      setDraft(null)
+      return
+    }
+    Alert.alert('Discard Changes', 'Your edits to this workout will be lost.', [
+      { text: 'Keep Editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => setDraft(null) },
+    ])
+  }
+
+  async function handleSaveEdit() {
+    if (!workout || !draft) return
+    setSaving(true)
+    const result = await saveWorkoutEdits(workout, draft)
+    if (!result.success) {
+      setSaving(false)
+      showError(result.error ?? 'Failed to save workout')
+      return
+    }
+
+    // Totals and durations come from the server copy
+    const refreshed = await fetchWorkoutDetail(workoutId)
+    setWorkout(refreshed ?? workout)
+    setDraft(null)
+    setSaving(false)
+    showSuccess(result.recordsUpdated > 0 ? 'Workout updated, PRs recalculated' : 'Workout updated')
+  }
+
+  if (draft) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleCancelEdit} hitSlop={8} accessibilityRole="button" accessibilityLabel="Cancel editing">
+            <Text style={styles.headerAction}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            Edit Workout
+          </Text>
+          <TouchableOpacity
+            onPress={handleSaveEdit}
+            disabled={saving}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Save workout"
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text style={[styles.headerAction, styles.headerActionPrimary]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+            <WorkoutEditor draft={draft} unit={unit} onChange={setDraft} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    )
+  }
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
@@ -91,7 +171,14 @@ export default function WorkoutDetailScreen({
         <Text style={styles.headerTitle} numberOfLines={1}>
           {workout.name}
         </Text>
-        <View style={{ width: 24 }} />
+        <TouchableOpacity
+          onPress={() => setDraft(workout)}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Edit workout"
+        >
+          <Ionicons name="create-outline" size={22} color={colors.primary} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -125,8 +212,10 @@ export default function WorkoutDetailScreen({
             <View style={styles.statDivider} />
             <View style={styles.statItem}>
               <Ionicons name="barbell-outline" size={22} color="#1E3A5F" />
-              <Text style={styles.statValue}>{workout.total_volume_kg.toLocaleString()}</Text>
-              <Text style={styles.statLabel}>Vol (kg)</Text>
+              <Text style={styles.statValue}>
+                {toDisplayVolume(workout.total_volume_kg, unit).toLocaleString()}
+              </Text>
+              <Text style={styles.statLabel}>Vol ({unit})</Text>
             </View>
           </View>
         </View>
@@ -146,98 +235,118 @@ export default function WorkoutDetailScreen({
         <Text style={styles.sectionTitle}>Exercises</Text>
 
         {workout.exercises.map((ex, index) => {
+          const group = groupPositions[index]
           const workingSets = ex.sets.filter(s => !s.is_warmup)
           const warmupSets = ex.sets.filter(s => s.is_warmup)
+          const hasFlags = workingSets.some(s => s.is_dropset || s.is_failure)
           const muscleColor = getMuscleColor(ex.exercise.primary_muscle_group)
 
           return (
-            <View key={ex.id} style={styles.exerciseCard}>
-              {/* Exercise header */}
-              <View style={styles.exerciseHeader}>
-                <View style={styles.exerciseIndex}>
-                  <Text style={styles.exerciseIndexText}>{index + 1}</Text>
+            <React.Fragment key={ex.id}>
+              {group?.position === 0 && (
+                <View style={styles.groupHeading}>
+                  <Ionicons name="link" size={14} color={colors.accent} />
+                  <Text style={styles.groupHeadingText}>{GROUP_TYPE_LABELS[group.type]}</Text>
                 </View>
-                <View style={styles.exerciseInfo}>
-                  <Text style={styles.exerciseName}>{ex.exercise.name}</Text>
-                  <View style={styles.exerciseMeta}>
-                    <View
-                      style={[
-                        styles.muscleBadge,
-                        { backgroundColor: muscleColor + '20' },
-                      ]}
-                    >
-                      <Text style={[styles.muscleBadgeText, { color: muscleColor }]}>
-                        {formatMuscleGroup(ex.exercise.primary_muscle_group)}
-                      </Text>
-                    </View>
-                    {ex.is_substitution && (
-                      <View style={styles.subBadge}>
-                        <Text style={styles.subBadgeText}>Substituted</Text>
-                      </View>
-                    )}
+              )}
+              <View style={[styles.exerciseCard, group && styles.exerciseCardGrouped]}>
+                {/* Exercise header */}
+                <TouchableOpacity
+                  style={styles.exerciseHeader}
+                  onPress={() => navigation.navigate('ExerciseDetail', { exerciseId: ex.exercise.id })}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${ex.exercise.name} details`}
+                >
+                  <View style={[styles.exerciseIndex, group && styles.exerciseIndexGrouped]}>
+                    <Text style={styles.exerciseIndexText}>{group ? group.label : index + 1}</Text>
                   </View>
-                </View>
-              </View>
-
-              {/* Set table — SEDP-67 */}
-              {ex.sets.length > 0 ? (
-                <View style={styles.setTable}>
-                  {/* Table header */}
-                  <View style={styles.setRow}>
-                    <Text style={[styles.setCell, styles.setCellSet, styles.setHeaderText]}>SET</Text>
-                    <Text style={[styles.setCell, styles.setCellWeight, styles.setHeaderText]}>KG</Text>
-                    <Text style={[styles.setCell, styles.setCellReps, styles.setHeaderText]}>REPS</Text>
-                    <Text style={[styles.setCell, styles.setCellRpe, styles.setHeaderText]}>RPE</Text>
+                  <View style={styles.exerciseInfo}>
+                    <Text style={styles.exerciseName}>{ex.exercise.name}</Text>
+                    <View style={styles.exerciseMeta}>
+                      <View
+                        style={[
+                          styles.muscleBadge,
+                          { backgroundColor: muscleColor + '20' },
+                        ]}
+                      >
+                        <Text style={[styles.muscleBadgeText, { color: muscleColor }]}>
+                          {formatMuscleGroup(ex.exercise.primary_muscle_group)}
+                        </Text>
+                      </View>
+                      {ex.is_substitution && (
+                        <View style={styles.subBadge}>
+                          <Text style={styles.subBadgeText}>Substituted</Text>
+                        </View>
+                      )}
+                    </View>
                   </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.text.faint} />
+                </TouchableOpacity>
 
-                  {warmupSets.length > 0 && (
-                    <View style={styles.setSectionRow}>
-                      <Text style={styles.setSectionText}>Warmup sets</Text>
+                {/* Set table — SEDP-67 */}
+                {ex.sets.length > 0 ? (
+                  <View style={styles.setTable}>
+                    {/* Table header */}
+                    <View style={styles.setRow}>
+                      <Text style={[styles.setCell, styles.setCellSet, styles.setHeaderText]}>SET</Text>
+                      <Text style={[styles.setCell, styles.setCellWeight, styles.setHeaderText]}>{unit.toUpperCase()}</Text>
+                      <Text style={[styles.setCell, styles.setCellReps, styles.setHeaderText]}>REPS</Text>
+                      <Text style={[styles.setCell, styles.setCellRpe, styles.setHeaderText]}>RPE</Text>
                     </View>
-                  )}
 
-                  {/* Warmup sets */}
-                  {warmupSets.map(set => (
-                    <View key={set.id} style={[styles.setRow, styles.setRowWarmup]}>
-                      <Text style={[styles.setCell, styles.setCellSet, styles.setTextWarmup]}>
-                        W
-                      </Text>
-                      <Text style={[styles.setCell, styles.setCellWeight, styles.setTextWarmup]}>
-                        {set.weight_kg ?? '-'}
-                      </Text>
-                      <Text style={[styles.setCell, styles.setCellReps, styles.setTextWarmup]}>
-                        {set.reps ?? '-'}
-                      </Text>
-                      <Text style={[styles.setCell, styles.setCellRpe, styles.setTextWarmup]}>
-                        {set.rpe ?? '-'}
-                      </Text>
-                    </View>
-                  ))}
+                    {warmupSets.length > 0 && (
+                      <View style={styles.setSectionRow}>
+                        <Text style={styles.setSectionText}>Warmup sets</Text>
+                      </View>
+                    )}
 
-                  {/* Working sets */}
-                  {workingSets.map((set, setIdx) => (
-                    <View key={set.id} style={styles.setRow}>
-                      <Text style={[styles.setCell, styles.setCellSet, styles.setTextWorking]}>
-                        {setIdx + 1}
-                        {set.is_dropset ? ' D' : ''}
-                      </Text>
-                      <Text style={[styles.setCell, styles.setCellWeight, styles.setTextWorking]}>
-                        {set.weight_kg ?? '-'}
-                      </Text>
-                      <Text style={[styles.setCell, styles.setCellReps, styles.setTextWorking]}>
-                        {set.reps ?? '-'}
-                        {set.is_failure ? ' F' : ''}
-                      </Text>
-                      <Text style={[styles.setCell, styles.setCellRpe, styles.setTextWorking]}>
-                        {set.rpe ?? '-'}
-                      </Text>
-                    </View>
-                  ))}
-                </View>
-              ) : (
-                <Text style={styles.noSetsText}>No sets logged</Text>
-              )}
-            </View>
+                    {/* Warmup sets */}
+                    {warmupSets.map(set => (
+                      <View key={set.id} style={[styles.setRow, styles.setRowWarmup]}>
+                        <Text style={[styles.setCell, styles.setCellSet, styles.setTextWarmup]}>
+                          W
+                        </Text>
+                        <Text style={[styles.setCell, styles.setCellWeight, styles.setTextWarmup]}>
+                          {set.weight_kg != null ? toDisplayWeight(set.weight_kg, unit) : '-'}
+                        </Text>
+                        <Text style={[styles.setCell, styles.setCellReps, styles.setTextWarmup]}>
+                          {set.reps ?? '-'}
+                        </Text>
+                        <Text style={[styles.setCell, styles.setCellRpe, styles.setTextWarmup]}>
+                          {set.rpe ?? '-'}
+                        </Text>
+                      </View>
+                    ))}
+
+                    {/* Working sets */}
+                    {workingSets.map((set, setIdx) => (
+                      <View key={set.id} style={styles.setRow}>
+                        <Text style={[styles.setCell, styles.setCellSet, styles.setTextWorking]}>
+                          {setIdx + 1}
+                          {set.is_dropset && <Text style={styles.setFlag}> D</Text>}
+                        </Text>
+                        <Text style={[styles.setCell, styles.setCellWeight, styles.setTextWorking]}>
+                          {set.weight_kg != null ? toDisplayWeight(set.weight_kg, unit) : '-'}
+                        </Text>
+                        <Text style={[styles.setCell, styles.setCellReps, styles.setTextWorking]}>
+                          {set.reps ?? '-'}
+                          {set.is_failure && <Text style={styles.setFlag}> F</Text>}
+                        </Text>
+                        <Text style={[styles.setCell, styles.setCellRpe, styles.setTextWorking]}>
+                          {set.rpe ?? '-'}
+                        </Text>
+                      </View>
+                    ))}
+
+                    {hasFlags && (
+                      <Text style={styles.setLegend}>D = drop set · F = taken to failure</Text>
+                    )}
+                  </View>
+                ) : (
+                  <Text style={styles.noSetsText}>No sets logged</Text>
+                )}
+              </View>
+            </React.Fragment>
           )
         })}
       </ScrollView>
@@ -246,6 +355,9 @@ export default function WorkoutDetailScreen({
 }
 
 const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
   container: {
     flex: 1,
     backgroundColor: colors.background,
@@ -258,6 +370,14 @@ const styles = StyleSheet.create({
     paddingTop: 10,
     paddingBottom: 12,
   },
+  headerAction: {
+    fontSize: 16,
+    color: colors.text.secondary,
+  },
+  headerActionPrimary: {
+    fontWeight: '600',
+    color: colors.primary,
+  },
   headerTitle: {
     fontSize: 17,
     fontWeight: '600',
@@ -378,6 +498,24 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  exerciseCardGrouped: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.accent,
+  },
+  groupHeading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    marginBottom: 6,
+  },
+  groupHeadingText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.accent,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+  },
   exerciseHeader: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -393,6 +531,9 @@ const styles = StyleSheet.create({
     marginRight: 10,
     marginTop: 1,
   },
+  exerciseIndexGrouped: {
+    backgroundColor: colors.accent,
+  },
   exerciseIndexText: {
     color: colors.surface,
     fontSize: 13,
@@ -493,6 +634,16 @@ const styles = StyleSheet.create({
   setTextWarmup: {
     color: colors.text.muted,
   },
+  setFlag: {
+    color: colors.error,
+    fontWeight: '700',
+  },
+  setLegend: {
+    fontSize: 11,
+    color: colors.text.muted,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
   noSetsText: {
     fontSize: 13,
     color: colors.text.muted,
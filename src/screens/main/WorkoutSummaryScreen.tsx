@@ -2,6 +2,7 @@
 // SEDP-50: Complete workout (update status)
 // SEDP-51: Workout summary screen
 // SEDP-52: Calculate and display session stats
+// Grouped exercises (supersets, circuits) are shown together
 import React, { useEffect, useState } from 'react'
 import {
   View,
@@ -16,9 +17,28 @@ import { Ionicons } from '@expo/vector-icons'
 import { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { RouteProp } from '@react-navigation/native'
 import { supabase } from '../../lib/supabase'
+import { QueuedMutation, flushMutationQueue, getPendingMutations } from '../../lib/mutationQueue'
+import { fetchLatestBodyweightKg } from '../../lib/measurements'
 import { HomeStackParamList } from '../../navigation/MainNavigator'
-import { WorkoutExerciseRow, WorkoutSetRow, PRRow } from '../../types/supabase'
+import { WorkoutExerciseRow, WorkoutSetRow, WorkoutWithExercisesRow, PRRow } from '../../types/supabase'
 import { useToast } from '../../contexts/ToastContext'
+import { useWeightUnit } from '../../hooks/useWeightUnit'
+import { formatWeight, formatVolume, toDisplayVolume } from '../../utils/units'
+import { PR_TYPE_LABELS } from '../../utils/personalRecords'
+import { calcSetVolume, needsBodyweight, resolveLoadKg } from '../../utils/workoutCalculations'
+import { GROUP_TYPE_LABELS, getGroupPositions } from '../../utils/exerciseGroups'
+import {
+  DEFAULT_SECONDARY_FRACTION,
+  NamedVolumeSetInput,
+  VOLUME_ATTRIBUTION_LABELS,
+  creditMuscleVolume,
+  formatSetCount,
+  summarizeMuscleExercises,
+  totalByMuscle,
+} from '../../utils/muscleVolume'
+import MuscleHeatmap from '../../components/analytics/MuscleHeatmap'
+import MuscleExerciseList from '../../components/analytics/MuscleExerciseList'
+import { ExerciseGroupType, MuscleGroup, PRType } from '../../types/workout'
 import { colors } from '../../theme'
 
 type WorkoutSummaryScreenProps = {
@@ -37,24 +57,58 @@ interface WorkoutStats {
   notes: string | null
   exercises: {
     name: string
+    group_id: string | null
+    group_type: ExerciseGroupType | null
     sets: number
     bestSet: { weight: number; reps: number } | null
+    topRpe: number | null
+    failureSets: number
+    dropSets: number
   }[]
+  // Working sets with their exercise's muscles, for the heatmap
+  muscleSets: NamedVolumeSetInput[]
+  bodyweightKg: number | null
   newPRs: {
     exerciseName: string
+    type: PRType
     weight: number
     reps: number
+    volume: number
   }[]
 }
 
+type QueuedRecord = PRRow & { exercise_id: string }
+
+// Records this session queued that haven't reached the server, after any
+// later updates or removals in the queue
+function queuedRecords(pending: QueuedMutation[], workoutId: string): QueuedRecord[] {
+  return pending
+    .filter(m => m.table === 'personal_records')
+    .reduce<{ id: string; values: Record<string, unknown> }[]>((records, m) => {
+      if (m.operation === 'insert') {
+        return m.values.workout_id === workoutId ? [...records, { id: m.rowId, values: m.values }] : records
+      }
+      if (m.operation === 'update') {
+        return records.map(r => (r.id === m.rowId ? { ...r, values: { ...r.values, ...m.values } } : r))
+      }
+      const match = m.match ?? { id: m.rowId }
+      return records.filter(
+        r => !Object.entries(match).every(([column, value]) => (column === 'id' ? r.id : r.values[column]) === value)
+      )
+    }, [])
+    .map(r => r.values as unknown as QueuedRecord)
+}
+
 export default function WorkoutSummaryScreen({
   navigation,
   route,
 }: WorkoutSummaryScreenProps) {
-  const { workoutId } = route.params
+  const { workoutId, session } = route.params
   const { showError } = useToast()
+  const unit = useWeightUnit()
   const [stats, setStats] = useState<WorkoutStats | null>(null)
   const [loading, setLoading] = useState(true)
+  const [selectedMuscle, setSelectedMuscle] = useState<MuscleGroup | null>(null)
 
   useEffect(() => {
     fetchWorkoutStats()
@@ -62,87 +116,154 @@ export default function WorkoutSummaryScreen({
 
   async function fetchWorkoutStats() {
     try {
-      // Fetch workout with exercises and sets
-      const { data: workout, error: workoutError } = await supabase
-        .from('workouts')
-        .select(`
-          id,
-          name,
-          started_at,
-          completed_at,
-          notes,
-          workout_exercises(
-            *,
-            exercise:exercises(*),
-            sets:workout_sets(*)
-          )
-        `)
-        .eq('id', workoutId)
-        .single()
+      // Push anything still queued first, so the server copy is complete
+      const { remaining } = await flushMutationQueue()
+      const offline = remaining > 0 && !!session
 
-      if (workoutError) throw workoutError
+      let workout: WorkoutWithExercisesRow
+      if (offline) {
+        // Finished without signal: summarise what this device saw
+        workout = session
+      } else {
+        // Fetch workout with exercises and sets
+        const { data, error: workoutError } = await supabase
+          .from('workouts')
+          .select(`
+            id,
+            user_id,
+            name,
+            started_at,
+            completed_at,
+            status,
+            notes,
+            workout_exercises(
+              *,
+              exercise:exercises(*),
+              sets:workout_sets(*)
+            )
+          `)
+          .eq('id', workoutId)
+          .single()
+
+        if (workoutError) throw workoutError
+        workout = data
+      }
+
+      // Calculate stats, in the order performed so grouped exercises sit together
+      const exercises = [...(workout.workout_exercises ?? [])].sort(
+        (a: WorkoutExerciseRow, b: WorkoutExerciseRow) => a.order_index - b.order_index
+      )
+
+      // Unweighted bodyweight sets count at the lifter's latest logged bodyweight
+      const bodyweightKg = needsBodyweight(exercises)
+        ? await fetchLatestBodyweightKg(workout.user_id)
+        : null
 
-      // Calculate stats
-      const exercises = workout.workout_exercises ?? []
-      
       let totalSets = 0
       let totalVolume = 0
+      const muscleSets: NamedVolumeSetInput[] = []
       
       const exerciseStats = exercises.map((we: WorkoutExerciseRow) => {
         const workingSets = (we.sets ?? []).filter((s: WorkoutSetRow) => !s.is_warmup)
         totalSets += workingSets.length
+        if (we.exercise) {
+          const exercise = {
+            id: we.exercise_id,
+            name: we.exercise.name,
+            primary_muscle_group: we.exercise.primary_muscle_group,
+            secondary_muscle_groups: we.exercise.secondary_muscle_groups ?? null,
+            is_compound: we.exercise.is_compound ?? false,
+            equipment: we.exercise.equipment ?? '',
+          }
+          workingSets.forEach((s: WorkoutSetRow) => {
+            muscleSets.push({ weight_kg: s.weight_kg, reps: s.reps, exercise })
+          })
+        }
 
         let bestSet = null
         let bestVolume = 0
 
         workingSets.forEach((s: WorkoutSetRow) => {
-          const volume = (s.weight_kg ?? 0) * (s.reps ?? 0)
-          totalVolume += volume
+          totalVolume += calcSetVolume(resolveLoadKg(s.weight_kg, we.exercise?.equipment, bodyweightKg), s.reps)
+          const volume = calcSetVolume(s.weight_kg, s.reps)
           if (volume > bestVolume) {
             bestVolume = volume
             bestSet = { weight: s.weight_kg, reps: s.reps }
           }
         })
         
+        const rpes = workingSets
+          .map((s: WorkoutSetRow) => s.rpe)
+          .filter((rpe: number | null): rpe is number => rpe != null)
+
         return {
           name: we.exercise?.name ?? 'Unknown',
+          group_id: we.group_id ?? null,
+          group_type: we.group_type ?? null,
           sets: workingSets.length,
           bestSet,
+          topRpe: rpes.length > 0 ? Math.max(...rpes) : null,
+          failureSets: workingSets.filter((s: WorkoutSetRow) => s.is_failure).length,
+          dropSets: workingSets.filter((s: WorkoutSetRow) => s.is_dropset).length,
         }
       })
 
       // Calculate duration
       const startTime = new Date(workout.started_at).getTime()
-      const endTime = new Date(workout.completed_at).getTime()
+      const completedAt = workout.completed_at ?? new Date().toISOString()
+      const endTime = new Date(completedAt).getTime()
       const durationMinutes = Math.round((endTime - startTime) / 60000)
 
-      // Fetch any new PRs (simplified - just check personal_records for today)
-      const { data: prs } = await supabase
+      // PRs detected while logging this workout's sets
+      const { data: syncedPRs } = await supabase
         .from('personal_records')
         .select(`
+          pr_type,
           weight_kg,
           reps,
+          volume,
+          achieved_at,
           exercise:exercises(name)
         `)
-        .gte('achieved_at', workout.started_at)
-        .lte('achieved_at', workout.completed_at ?? new Date().toISOString())
+        .eq('workout_id', workoutId)
+        .order('achieved_at', { ascending: true })
 
-      const newPRs = (prs ?? []).map((pr) => ({
-        exerciseName: (pr.exercise as Array<{ name: string }>)?.[0]?.name ?? 'Unknown',
-        weight: pr.weight_kg,
-        reps: pr.reps,
-      }))
+      const exerciseNames = new Map(
+        workout.workout_exercises.map(we => [we.exercise_id, we.exercise?.name ?? 'Unknown'])
+      )
+      const prs: PRRow[] = offline
+        ? [
+            ...(syncedPRs ?? []),
+            ...queuedRecords(await getPendingMutations(), workoutId).map(pr => ({
+              ...pr,
+              exercise: { name: exerciseNames.get(pr.exercise_id) ?? 'Unknown' },
+            })),
+          ]
+        : syncedPRs ?? []
+
+      const newPRs = prs.map((pr: PRRow) => {
+        const exercise = Array.isArray(pr.exercise) ? pr.exercise[0] : pr.exercise
+        return {
+          exerciseName: exercise?.name ?? 'Unknown',
+          type: pr.pr_type,
+          weight: pr.weight_kg,
+          reps: pr.reps,
+          volume: pr.volume,
+        }
+      })
 
       setStats({
         name: workout.name,
         startedAt: workout.started_at,
-        completedAt: workout.completed_at,
+        completedAt,
         durationMinutes,
         totalSets,
         totalVolume: Math.round(totalVolume),
         exerciseCount: exercises.length,
         notes: workout.notes ?? null,
         exercises: exerciseStats,
+        muscleSets,
+        bodyweightKg,
         newPRs,
       })
     } catch (error) {
@@ -166,6 +287,14 @@ export default function WorkoutSummaryScreen({
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
 
+  function formatEffort(ex: WorkoutStats['exercises'][number]): string {
+    const parts = [`${ex.sets} sets`]
+    if (ex.topRpe !== null) parts.push(`top RPE ${ex.topRpe}`)
+    if (ex.failureSets > 0) parts.push(`${ex.failureSets} to failure`)
+    if (ex.dropSets > 0) parts.push(`${ex.dropSets} drop set${ex.dropSets !== 1 ? 's' : ''}`)
+    return parts.join(' · ')
+  }
+
   function handleDone() {
     navigation.popToTop()
   }
@@ -190,6 +319,13 @@ export default function WorkoutSummaryScreen({
     )
   }
 
+  const groupPositions = getGroupPositions(stats.exercises)
+  // Secondary muscles count for half a set, so a bench session lights up triceps
+  const muscleValues = totalByMuscle(
+    creditMuscleVolume(stats.muscleSets, DEFAULT_SECONDARY_FRACTION, stats.bodyweightKg),
+    'total_sets'
+  )
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -214,9 +350,14 @@ export default function WorkoutSummaryScreen({
             </View>
             {stats.newPRs.map((pr, index) => (
               <View key={index} style={styles.prItem}>
-                <Text style={styles.prExercise}>{pr.exerciseName}</Text>
+                <View style={styles.prInfo}>
+                  <Text style={styles.prExercise}>{pr.exerciseName}</Text>
+                  <Text style={styles.prType}>{PR_TYPE_LABELS[pr.type]}</Text>
+                </View>
                 <Text style={styles.prValue}>
-                  {pr.weight}kg × {pr.reps} reps
+                  {pr.type === 'volume'
+                    ? `${formatVolume(pr.volume, unit)} ${unit}`
+                    : `${formatWeight(pr.weight, unit)} × ${pr.reps} reps`}
                 </Text>
               </View>
             ))}
@@ -237,8 +378,10 @@ export default function WorkoutSummaryScreen({
           </View>
           <View style={styles.statCard}>
             <Ionicons name="barbell-outline" size={24} color="#1E3A5F" />
-            <Text style={styles.statValue}>{stats.totalVolume.toLocaleString()}</Text>
-            <Text style={styles.statLabel}>Volume (kg)</Text>
+            <Text style={styles.statValue}>
+              {toDisplayVolume(stats.totalVolume, unit).toLocaleString()}
+            </Text>
+            <Text style={styles.statLabel}>Volume ({unit})</Text>
           </View>
           <View style={styles.statCard}>
             <Ionicons name="fitness-outline" size={24} color="#1E3A5F" />
@@ -247,6 +390,36 @@ export default function WorkoutSummaryScreen({
           </View>
         </View>
 
+        {/* Muscles Worked */}
+        {stats.muscleSets.length > 0 && (
+          <View style={styles.notesCard}>
+            <Text style={styles.sectionTitle}>Muscles Worked</Text>
+            {/* The Volume tab defaults to direct counting, so name the one used here */}
+            <Text style={styles.attributionNote}>
+              {VOLUME_ATTRIBUTION_LABELS.weighted} · secondary muscles count ×{DEFAULT_SECONDARY_FRACTION}
+            </Text>
+            <MuscleHeatmap
+              values={muscleValues}
+              formatValue={value => `${formatSetCount(value)} set${value !== 1 ? 's' : ''}`}
+              selectedMuscle={selectedMuscle}
+              onMusclePress={muscle => setSelectedMuscle(prev => (prev === muscle ? null : muscle))}
+            />
+            {selectedMuscle && (
+              <MuscleExerciseList
+                muscle={selectedMuscle}
+                exercises={summarizeMuscleExercises(
+                  stats.muscleSets,
+                  selectedMuscle,
+                  DEFAULT_SECONDARY_FRACTION,
+                  stats.bodyweightKg
+                )}
+                unit={unit}
+                onClose={() => setSelectedMuscle(null)}
+              />
+            )}
+          </View>
+        )}
+
         {/* Workout Notes */}
         {stats.notes && (
           <View style={styles.notesCard}>
@@ -261,21 +434,35 @@ export default function WorkoutSummaryScreen({
         {/* Exercise Breakdown */}
         <View style={styles.exerciseSection}>
           <Text style={styles.sectionTitle}>Exercise Breakdown</Text>
-          {stats.exercises.map((ex, index) => (
-            <View key={index} style={styles.exerciseRow}>
-              <View style={styles.exerciseInfo}>
-                <Text style={styles.exerciseName}>{ex.name}</Text>
-                <Text style={styles.exerciseSets}>{ex.sets} sets</Text>
-              </View>
-              {ex.bestSet && (
-                <View style={styles.bestSetBadge}>
-                  <Text style={styles.bestSetText}>
-                    Best: {ex.bestSet.weight}kg × {ex.bestSet.reps}
-                  </Text>
+          {stats.exercises.map((ex, index) => {
+            const group = groupPositions[index]
+            return (
+              <React.Fragment key={index}>
+                {group?.position === 0 && (
+                  <View style={styles.groupHeading}>
+                    <Ionicons name="link" size={14} color={colors.accent} />
+                    <Text style={styles.groupHeadingText}>{GROUP_TYPE_LABELS[group.type]}</Text>
+                  </View>
+                )}
+                <View style={[styles.exerciseRow, group && styles.exerciseRowGrouped]}>
+                  <View style={styles.exerciseInfo}>
+                    <Text style={styles.exerciseName}>
+                      {group && <Text style={styles.groupLabel}>{group.label} </Text>}
+                      {ex.name}
+                    </Text>
+                    <Text style={styles.exerciseSets}>{formatEffort(ex)}</Text>
+                  </View>
+                  {ex.bestSet && (
+                    <View style={styles.bestSetBadge}>
+                      <Text style={styles.bestSetText}>
+                        Best: {formatWeight(ex.bestSet.weight, unit)} × {ex.bestSet.reps}
+                      </Text>
+                    </View>
+                  )}
                 </View>
-              )}
-            </View>
-          ))}
+              </React.Fragment>
+            )
+          })}
         </View>
 
         {/* Done Button */}
@@ -359,11 +546,19 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#fef3c7',
   },
+  prInfo: {
+    flex: 1,
+  },
   prExercise: {
     fontSize: 14,
     fontWeight: '500',
     color: colors.text.primary,
   },
+  prType: {
+    fontSize: 12,
+    color: '#92400e',
+    marginTop: 2,
+  },
   prValue: {
     fontSize: 14,
     color: '#92400e',
@@ -406,6 +601,12 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     marginBottom: 12,
   },
+  attributionNote: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginTop: -8,
+    marginBottom: 12,
+  },
   exerciseRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -415,6 +616,27 @@ const styles = StyleSheet.create({
     padding: 14,
     marginBottom: 8,
   },
+  exerciseRowGrouped: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.accent,
+  },
+  groupHeading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  groupHeadingText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.accent,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+  },
+  groupLabel: {
+    color: colors.accent,
+  },
   exerciseInfo: {
     flex: 1,
   },
@@ -1,4 +1,5 @@
 import React from 'react'
+import { Alert } from 'react-native'
 import { fireEvent, waitFor } from '@testing-library/react-native'
 import { renderWithProviders } from '../../../test-utils/render'
 import { createNavigationMock } from '../../../test-utils/mockNavigation'
@@ -9,6 +10,7 @@ import ActiveWorkoutScreen from '../ActiveWorkoutScreen'
 jest.mock('../../../lib/supabase')
 jest.mock('../../../contexts/WorkoutContext')
 jest.mock('../../../contexts/AuthContext')
+jest.mock('expo-notifications')
 
 jest.mock('@react-navigation/native', () => ({
   ...jest.requireActual('@react-navigation/native'),
@@ -20,11 +22,28 @@ jest.mock('@react-navigation/native', () => ({
 
 // Stub heavy child components so the test doesn't need their full deps
 jest.mock('../../../components/workout/SetInputCard', () => {
-  const { View, Text } = require('react-native')
-  return () => <View><Text>SetInputCard</Text></View>
+  const { View, Text, TouchableOpacity } = require('react-native')
+  return ({ workoutExercise, onSetComplete }: any) => (
+    <View>
+      <Text>SetInputCard</Text>
+      <Text>{`Logging ${workoutExercise.exercise?.name}`}</Text>
+      <TouchableOpacity onPress={() => onSetComplete(0, { isWarmup: false, setsRemaining: 2 })}>
+        <Text>Complete set</Text>
+      </TouchableOpacity>
+    </View>
+  )
 })
 jest.mock('../../../components/workout/RestTimer', () => () => null)
 jest.mock('../../../components/workout/ExerciseSwapModal', () => () => null)
+jest.mock('../../../components/workout/ExercisePickerModal', () => {
+  const { TouchableOpacity, Text } = require('react-native')
+  return ({ visible, onSelect }: any) =>
+    visible ? (
+      <TouchableOpacity onPress={() => onSelect({ id: 'ex-new', name: 'Cable Fly' })}>
+        <Text>Pick Cable Fly</Text>
+      </TouchableOpacity>
+    ) : null
+})
 
 import * as WorkoutContextModule from '../../../contexts/WorkoutContext'
 import * as AuthContextModule from '../../../contexts/AuthContext'
@@ -52,6 +71,8 @@ function makeExercises(count: number) {
 }
 
 const mockReorderExercise = jest.fn()
+const mockAddExercise = jest.fn()
+const mockRemoveExercise = jest.fn()
 const mockCompleteWorkout = jest.fn()
 const mockGetWorkoutStats = jest.fn(() => ({
   totalSets: 3,
@@ -59,21 +80,23 @@ const mockGetWorkoutStats = jest.fn(() => ({
   completedExercises: 1,
 }))
 
-function setupContext(exerciseCount = 2) {
+function setupContext(exerciseCount = 2, exercises: any[] = makeExercises(exerciseCount)) {
   mockUseWorkoutContext.mockReturnValue({
     workout: MOCK_WORKOUT,
-    exercises: makeExercises(exerciseCount),
+    exercises,
     resumeWorkout: jest.fn(),
     completeWorkout: mockCompleteWorkout,
     abandonWorkout: jest.fn(),
     getWorkoutStats: mockGetWorkoutStats,
     reorderExercise: mockReorderExercise,
+    addExercise: mockAddExercise,
+    removeExercise: mockRemoveExercise,
   })
   mockUseAuthContext.mockReturnValue({ user: { id: 'user-1' } })
 }
 
-function renderScreen(exerciseCount = 2) {
-  setupContext(exerciseCount)
+function renderScreen(exerciseCount = 2, exercises?: any[]) {
+  setupContext(exerciseCount, exercises)
   const navigation = {
     ...createNavigationMock(),
     replace: jest.fn(),
@@ -129,3 +152,69 @@ describe('exercise reordering', () => {
     })
   })
 })
+
+describe('adding and removing exercises', () => {
+  it('shows an empty state for a workout with no exercises', () => {
+    const { getByText, queryByText } = renderScreen(0)
+    expect(getByText('No exercises yet')).toBeTruthy()
+    expect(queryByText('SetInputCard')).toBeNull()
+  })
+
+  it('adds the exercise picked in ExercisePickerModal', async () => {
+    mockAddExercise.mockResolvedValue({ success: true, error: null })
+    const { getByLabelText, getByText } = renderScreen(0)
+
+    fireEvent.press(getByLabelText('Add exercise'))
+    fireEvent.press(getByText('Pick Cable Fly'))
+
+    await waitFor(() => {
+      expect(mockAddExercise).toHaveBeenCalledWith({ id: 'ex-new', name: 'Cable Fly' })
+    })
+  })
+
+  it('removes the current exercise after confirmation', async () => {
+    mockRemoveExercise.mockResolvedValue({ success: true, error: null })
+    const alertSpy = jest.spyOn(Alert, 'alert')
+    const { getByLabelText } = renderScreen(2)
+
+    fireEvent.press(getByLabelText('Remove exercise'))
+
+    const buttons = alertSpy.mock.calls[0][2] as { text: string; onPress?: () => void }[]
+    await buttons.find(b => b.text === 'Remove')?.onPress?.()
+
+    expect(mockRemoveExercise).toHaveBeenCalledWith('we-1')
+  })
+})
+
+describe('supersets', () => {
+  function supersetExercises() {
+    return makeExercises(3).map((ex, i) => ({
+      ...ex,
+      group_id: i < 2 ? 'g-1' : null,
+      group_type: i < 2 ? 'superset' : null,
+    }))
+  }
+
+  it('shows the grouped exercises with superset labels', () => {
+    const { getByText } = renderScreen(3, supersetExercises())
+    expect(getByText('A1 Exercise 1')).toBeTruthy()
+    expect(getByText('A2 Exercise 2')).toBeTruthy()
+  })
+
+  it('alternates between grouped exercises after each set', () => {
+    const { getByText } = renderScreen(3, supersetExercises())
+
+    fireEvent.press(getByText('Complete set'))
+    expect(getByText('Logging Exercise 2')).toBeTruthy()
+
+    // End of the round: back to the first exercise for the next round
+    fireEvent.press(getByText('Complete set'))
+    expect(getByText('Logging Exercise 1')).toBeTruthy()
+  })
+
+  it('stays on an ungrouped exercise after a set', () => {
+    const { getByText } = renderScreen(2)
+    fireEvent.press(getByText('Complete set'))
+    expect(getByText('Logging Exercise 1')).toBeTruthy()
+  })
+})
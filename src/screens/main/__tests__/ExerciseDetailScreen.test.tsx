@@ -0,0 +1,99 @@
+import React from 'react'
+import { fireEvent, waitFor } from '@testing-library/react-native'
+import { renderWithProviders } from '../../../test-utils/render'
+import { createNavigationMock } from '../../../test-utils/mockNavigation'
+import ExerciseDetailScreen from '../ExerciseDetailScreen'
+
+jest.mock('../../../lib/supabase')
+jest.mock('../../../contexts/AuthContext')
+
+import * as AuthContextModule from '../../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const { mockSupabaseResponse, resetMockQueue, setupChain, mockFrom, mockChain } =
+  jest.requireMock('../../../lib/supabase') as typeof import('../../../lib/__mocks__/supabase')
+
+const EXERCISE = {
+  id: 'ex-1',
+  name: 'Bench Press',
+  description: 'Touch the chest, press to lockout.',
+  primary_muscle_group: 'chest',
+  secondary_muscle_groups: ['triceps', 'front_delt'],
+  equipment: 'barbell',
+  is_compound: true,
+  created_by: null,
+  created_at: '2026-01-01',
+}
+
+const makeSet = (id: string, set_number: number, weight_kg: number, reps: number, is_warmup = false) => ({
+  id, set_number, weight_kg, reps, rpe: null, is_warmup, is_failure: false, is_dropset: false,
+})
+
+// Queue order follows the screen's Promise.all: exercise, history, progress sets, progress PR
+function queueResponses(history: any[] = []) {
+  mockSupabaseResponse(EXERCISE)
+  mockSupabaseResponse(history)
+  mockSupabaseResponse([])
+  mockSupabaseResponse(null)
+}
+
+function renderScreen() {
+  const navigation = createNavigationMock()
+  const route = { params: { exerciseId: 'ex-1' } }
+  const rendered = renderWithProviders(
+    <ExerciseDetailScreen navigation={navigation as any} route={route as any} />
+  )
+  return { ...rendered, navigation }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({
+    user: { id: 'user-123' },
+    profile: { id: 'user-123', default_weight_unit: 'kg' },
+  })
+})
+
+describe('ExerciseDetailScreen', () => {
+  it('shows the description and muscle groups', async () => {
+    queueResponses()
+    const { getByText } = renderScreen()
+
+    await waitFor(() => expect(getByText('Bench Press')).toBeTruthy())
+    expect(getByText('Touch the chest, press to lockout.')).toBeTruthy()
+    expect(getByText('Chest')).toBeTruthy()
+    expect(getByText('Triceps')).toBeTruthy()
+    expect(getByText('Front Delt')).toBeTruthy()
+    expect(getByText('Sets you log for this exercise will show up here')).toBeTruthy()
+  })
+
+  it('shows best e1RM, rep maxes and sessions from history', async () => {
+    queueResponses([
+      {
+        id: 'we-1',
+        workout: { id: 'w-1', name: 'Push Day', started_at: '2026-04-01T10:00:00Z' },
+        sets: [makeSet('s-0', 1, 60, 5, true), makeSet('s-1', 2, 100, 5)],
+      },
+    ])
+    const { getByText, getAllByText } = renderScreen()
+
+    await waitFor(() => expect(getByText('Push Day')).toBeTruthy())
+    // 100 × 5 → 116.65 e1RM
+    expect(getByText('from 100kg × 5')).toBeTruthy()
+    expect(getAllByText('116.7kg').length).toBeGreaterThan(0)
+    expect(getByText('12RM')).toBeTruthy()
+    expect(getByText('W')).toBeTruthy()
+  })
+
+  it('goes back from the header', async () => {
+    queueResponses()
+    const { getByText, getByLabelText, navigation } = renderScreen()
+
+    await waitFor(() => expect(getByText('Bench Press')).toBeTruthy())
+    fireEvent.press(getByLabelText('Go back'))
+    expect(navigation.goBack).toHaveBeenCalled()
+  })
+})
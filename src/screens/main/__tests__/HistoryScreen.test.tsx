@@ -30,7 +30,9 @@ jest.mock('react-native-calendars', () => {
 })
 
 import * as WorkoutHistoryModule from '../../../hooks/useWorkoutHistory'
+import * as AuthContextModule from '../../../contexts/AuthContext'
 const mockUseWorkoutHistory = WorkoutHistoryModule.useWorkoutHistory as jest.Mock
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
 
 const mockFetchWorkoutSummaries = jest.fn().mockResolvedValue([])
 
@@ -53,6 +55,7 @@ const SUMMARIES = [
 beforeEach(() => {
   jest.clearAllMocks()
   mockFetchWorkoutSummaries.mockResolvedValue(SUMMARIES)
+  mockUseAuthContext.mockReturnValue({ profile: { id: 'u-1', default_weight_unit: 'kg' } })
   mockUseWorkoutHistory.mockReturnValue({
     summaries: SUMMARIES,
     markedDates: { '2026-04-18': { marked: true, dotColor: '#00D9C4' } },
@@ -161,4 +164,15 @@ describe('HistoryScreen', () => {
     fireEvent.press(getByTestId('calendar-day-2026-04-18'))
     await waitFor(() => expect(getByText('Pull Day')).toBeTruthy())
   })
+
+  it('opens the past-workout logger for the selected day', async () => {
+    const { getByTestId, getByLabelText, navigation } = renderHistory()
+
+    fireEvent.press(getByLabelText('Log past workout'))
+    expect(navigation.navigate).toHaveBeenLastCalledWith('LogPastWorkout', { date: undefined })
+
+    fireEvent.press(getByTestId('calendar-day-2026-04-18'))
+    fireEvent.press(getByLabelText('Log past workout'))
+    expect(navigation.navigate).toHaveBeenLastCalledWith('LogPastWorkout', { date: '2026-04-18' })
+  })
 })
@@ -11,6 +11,7 @@ jest.mock('../../../lib/supabase')
 jest.mock('../../../contexts/AuthContext')
 jest.mock('../../../contexts/WorkoutContext')
 jest.mock('../../../hooks/useTemplateManagement')
+jest.mock('../../../hooks/usePrograms')
 
 // useFocusEffect: fire once on mount, like the real hook on a focused screen
 jest.mock('@react-navigation/native', () => ({
@@ -27,10 +28,12 @@ const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain }
 import * as AuthContextModule from '../../../contexts/AuthContext'
 import * as WorkoutContextModule from '../../../contexts/WorkoutContext'
 import * as TemplateManagementModule from '../../../hooks/useTemplateManagement'
+import * as ProgramsModule from '../../../hooks/usePrograms'
 
 const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
 const mockUseWorkoutContext = (WorkoutContextModule.useWorkoutContext as jest.Mock)
 const mockUseTemplateManagement = TemplateManagementModule.useTemplateManagement as jest.Mock
+const mockUsePrograms = ProgramsModule.usePrograms as jest.Mock
 
 const MOCK_USER_ID = 'user-123'
 const mockDeleteTemplate = jest.fn()
@@ -70,13 +73,34 @@ beforeEach(() => {
     loading: false,
     error: null,
   })
+  mockUsePrograms.mockReturnValue({
+    todaySession: null,
+    fetchTodaySession: jest.fn(),
+    skipDay: jest.fn(),
+  })
 })
 
+const pullB = { id: 'tpl-pull-b', name: 'Pull B', template_exercises: [] }
+
+function makeTodaySession(overrides: Record<string, unknown> = {}) {
+  return {
+    enrollment: { id: 'enr-1' },
+    program: { id: 'prog-1', name: 'PPL Block', weeks: 6 },
+    day: { id: 'day-20', week_number: 3, day_number: 6, template_id: pullB.id },
+    dayIndex: 19,
+    weekNumber: 3,
+    totalWeeks: 6,
+    isRestDay: false,
+    template: pullB,
+    ...overrides,
+  }
+}
+
 function renderHome() {
   const navigation = createNavigationMock()
-  const { getByText, queryByText, getByTestId, getAllByText } =
+  const { getByText, queryByText, getByTestId, getAllByText, getByLabelText } =
     renderWithProviders(<HomeScreen navigation={navigation as any} />)
-  return { navigation, getByText, queryByText, getByTestId, getAllByText }
+  return { navigation, getByText, queryByText, getByTestId, getAllByText, getByLabelText }
 }
 
 // ── Tests ─────────────────────────────────────────────────────────────────────
@@ -153,4 +177,84 @@ describe('HomeScreen', () => {
 
     expect(Alert.alert).not.toHaveBeenCalled()
   })
+
+  it('Quick Start creates an empty workout and opens it', async () => {
+    mockSupabaseResponse([])
+    const mockStartEmptyWorkout = jest.fn().mockResolvedValue({
+      success: true,
+      error: null,
+      workoutId: 'w-quick',
+    })
+    mockUseWorkoutContext.mockReturnValue({
+      isActive: false,
+      workout: null,
+      startEmptyWorkout: mockStartEmptyWorkout,
+    })
+
+    const { navigation, getByText } = renderHome()
+    fireEvent.press(getByText('Quick Start'))
+
+    await waitFor(() => {
+      expect(navigation.navigate).toHaveBeenCalledWith('ActiveWorkout', { workoutId: 'w-quick' })
+    })
+    expect(mockStartEmptyWorkout).toHaveBeenCalledTimes(1)
+  })
+
+  it("shows today's program session and starts it in one tap", async () => {
+    mockSupabaseResponse([])
+    mockUsePrograms.mockReturnValue({
+      todaySession: makeTodaySession(),
+      fetchTodaySession: jest.fn(),
+      skipDay: jest.fn(),
+    })
+    const mockStartWorkout = jest.fn().mockResolvedValue({
+      success: true,
+      error: null,
+      workoutId: 'w-prog',
+    })
+    mockUseWorkoutContext.mockReturnValue({
+      isActive: false,
+      workout: null,
+      startWorkout: mockStartWorkout,
+    })
+
+    const { navigation, getByText, getByLabelText } = renderHome()
+
+    expect(getByText('Today: Pull B (week 3 of 6)')).toBeTruthy()
+    fireEvent.press(getByLabelText("Start today's session"))
+
+    await waitFor(() => {
+      expect(navigation.navigate).toHaveBeenCalledWith('ActiveWorkout', { workoutId: 'w-prog' })
+    })
+    expect(mockStartWorkout).toHaveBeenCalledWith(pullB, { programDayId: 'day-20' })
+  })
+
+  it('offers to skip a scheduled rest day', async () => {
+    mockSupabaseResponse([])
+    const session = makeTodaySession({
+      day: { id: 'day-4', week_number: 1, day_number: 4, template_id: null },
+      dayIndex: 3,
+      weekNumber: 1,
+      isRestDay: true,
+      template: null,
+    })
+    const mockSkipDay = jest.fn().mockResolvedValue({ success: true, error: null })
+    const mockFetchTodaySession = jest.fn()
+    mockUsePrograms.mockReturnValue({
+      todaySession: session,
+      fetchTodaySession: mockFetchTodaySession,
+      skipDay: mockSkipDay,
+    })
+
+    const { getByText, getByLabelText, queryByText } = renderHome()
+
+    expect(getByText('Today: Rest day (week 1 of 6)')).toBeTruthy()
+    expect(queryByText('Start')).toBeNull()
+
+    fireEvent.press(getByLabelText('Skip rest day'))
+
+    await waitFor(() => expect(mockSkipDay).toHaveBeenCalledWith(session))
+    // Once on mount (focus) and once after the skip
+    await waitFor(() => expect(mockFetchTodaySession).toHaveBeenCalledTimes(2))
+  })
 })
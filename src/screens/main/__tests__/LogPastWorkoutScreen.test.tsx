@@ -0,0 +1,116 @@
+import React from 'react'
+import { fireEvent, waitFor } from '@testing-library/react-native'
+import { renderWithProviders } from '../../../test-utils/render'
+import { createNavigationMock } from '../../../test-utils/mockNavigation'
+import LogPastWorkoutScreen, { buildPastWorkoutDraft } from '../LogPastWorkoutScreen'
+
+// ── Module mocks ──────────────────────────────────────────────────────────────
+
+jest.mock('../../../lib/supabase')
+jest.mock('../../../hooks/useWorkoutHistory')
+jest.mock('../../../contexts/AuthContext')
+jest.mock('../../../components/workout/ExercisePickerModal', () => () => null)
+
+const { mockSupabaseResponse, resetMockQueue, mockFrom, mockChain, setupChain } =
+  jest.requireMock('../../../lib/supabase') as typeof import('../../../lib/__mocks__/supabase')
+
+import * as WorkoutHistoryModule from '../../../hooks/useWorkoutHistory'
+const mockUseWorkoutHistory = WorkoutHistoryModule.useWorkoutHistory as jest.Mock
+import * as AuthContextModule from '../../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
+
+const mockLogPastWorkout = jest.fn()
+
+const SQUAT = {
+  id: 'ex-squat', name: 'Back Squat', primary_muscle_group: 'quads',
+  secondary_muscle_groups: [], equipment: 'barbell', is_compound: true,
+  description: null, created_by: null, created_at: '2026-01-01',
+}
+
+const TEMPLATE = {
+  id: 'tpl-legs',
+  name: 'Leg Day',
+  description: null,
+  created_by: 'user-1',
+  estimated_duration_minutes: 45,
+  created_at: '2026-01-01',
+  updated_at: '2026-01-01',
+  template_exercises: [
+    {
+      id: 'te-1', template_id: 'tpl-legs', exercise_id: 'ex-squat', exercise: SQUAT, order_index: 0,
+      target_sets: 3, target_reps: 5, target_rpe: null, rest_seconds: 180, warmup_enabled: true,
+      load_basis: null, set_percentages: null, group_id: null, group_type: null, notes: null, created_at: '2026-01-01',
+    },
+  ],
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  resetMockQueue()
+  setupChain()
+  mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ user: { id: 'user-1' }, profile: null })
+  mockLogPastWorkout.mockResolvedValue({ success: true, error: null, workoutId: 'w-new', recordsUpdated: 0 })
+  mockUseWorkoutHistory.mockReturnValue({ logPastWorkout: mockLogPastWorkout })
+})
+
+function renderLogger(date?: string) {
+  const navigation = createNavigationMock()
+  const route = { params: { date } } as any
+  const utils = renderWithProviders(<LogPastWorkoutScreen navigation={navigation as any} route={route} />)
+  return { navigation, ...utils }
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('buildPastWorkoutDraft', () => {
+  it('prefills the template sets on the chosen day', () => {
+    const draft = buildPastWorkoutDraft('2026-04-10', TEMPLATE as any, new Date('2026-04-19T12:00:00'))
+
+    expect(draft.name).toBe('Leg Day')
+    expect(new Date(draft.started_at).getHours()).toBe(18)
+    expect(new Date(draft.started_at).getDate()).toBe(10)
+    expect(new Date(draft.completed_at!).getTime() - new Date(draft.started_at).getTime()).toBe(45 * 60000)
+    expect(draft.exercises[0].sets.map(s => s.reps)).toEqual([5, 5, 5])
+  })
+
+  it('never defaults to a time after now', () => {
+    const now = new Date('2026-04-19T12:32:00')
+    const draft = buildPastWorkoutDraft('2026-04-19', null, now)
+
+    expect(new Date(draft.completed_at!).getTime()).toBeLessThanOrEqual(now.getTime())
+    expect(draft.exercises).toEqual([])
+  })
+})
+
+describe('LogPastWorkoutScreen', () => {
+  it('starts from a template and saves the completed workout', async () => {
+    mockSupabaseResponse([TEMPLATE])
+    const { getByLabelText, navigation } = renderLogger('2026-04-10')
+
+    await waitFor(() => expect(getByLabelText('Start from Leg Day')).toBeTruthy())
+    fireEvent.press(getByLabelText('Start from Leg Day'))
+
+    fireEvent.changeText(getByLabelText('Set 1 weight'), '140')
+    fireEvent(getByLabelText('Set 1 weight'), 'blur')
+    fireEvent.press(getByLabelText('Save workout'))
+
+    await waitFor(() => expect(mockLogPastWorkout).toHaveBeenCalled())
+    const [draft, templateId] = mockLogPastWorkout.mock.calls[0]
+    expect(templateId).toBe('tpl-legs')
+    expect(draft.exercises[0].sets[0].weight_kg).toBe(140)
+    expect(navigation.replace).toHaveBeenCalledWith('WorkoutDetail', { workoutId: 'w-new' })
+  })
+
+  it('keeps the form open when saving fails', async () => {
+    mockSupabaseResponse([])
+    mockLogPastWorkout.mockResolvedValue({ success: false, error: 'Log at least one set', workoutId: null, recordsUpdated: 0 })
+    const { getByLabelText, findByText, navigation } = renderLogger()
+
+    fireEvent.press(getByLabelText('Empty workout'))
+    fireEvent.press(getByLabelText('Save workout'))
+
+    expect(await findByText('Log at least one set')).toBeTruthy()
+    expect(navigation.replace).not.toHaveBeenCalled()
+  })
+})
@@ -10,14 +10,22 @@ import TemplateFormScreen from '../TemplateFormScreen'
 // Prevents supabase.ts from being evaluated when Jest auto-mocks useTemplateManagement
 jest.mock('../../../lib/supabase')
 jest.mock('../../../hooks/useTemplateManagement')
+jest.mock('../../../hooks/useExerciseMaxes')
+jest.mock('../../../contexts/AuthContext')
 jest.mock('../../../components/workout/ExercisePickerModal', () => () => null)
 
 import * as TemplateManagementModule from '../../../hooks/useTemplateManagement'
 const mockUseTemplateManagement = TemplateManagementModule.useTemplateManagement as jest.Mock
+import * as ExerciseMaxesModule from '../../../hooks/useExerciseMaxes'
+const mockUseExerciseMaxes = ExerciseMaxesModule.useExerciseMaxes as jest.Mock
+import * as AuthContextModule from '../../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
 
 const mockCreateTemplate = jest.fn()
 const mockUpdateTemplate = jest.fn()
 const mockFetchTemplateForEdit = jest.fn()
+const mockFetchMaxes = jest.fn()
+const mockSaveMax = jest.fn()
 
 const EXERCISE_A = {
   id: 'ex-1', name: 'Bench Press', primary_muscle_group: 'chest',
@@ -53,6 +61,16 @@ beforeEach(() => {
     fetchTemplateForEdit: mockFetchTemplateForEdit,
     deleteTemplate: jest.fn(),
   })
+  mockUseAuthContext.mockReturnValue({ user: { id: 'user-1' }, profile: null })
+  mockSaveMax.mockResolvedValue({ success: true, error: null })
+  mockUseExerciseMaxes.mockReturnValue({
+    maxes: {},
+    bases: { 'ex-1': { one_rep_max_kg: 100, training_max_kg: 90 } },
+    loading: false,
+    error: null,
+    fetchMaxes: mockFetchMaxes,
+    saveMax: mockSaveMax,
+  })
 })
 
 function renderForm(templateId?: string) {
@@ -120,4 +138,24 @@ describe('TemplateFormScreen', () => {
       expect(ohpOccurrences.length).toBeGreaterThan(0)
     })
   })
+
+  it('saves per-set percentages of the training max', async () => {
+    const { getByText, getAllByText, getByLabelText } = renderForm('tpl-1')
+
+    await waitFor(() => expect(getByText('Update Template')).toBeTruthy())
+    fireEvent.press(getByLabelText('Load Bench Press as a percentage of training max'))
+
+    // Three sets default to 75% of the 90kg training max
+    await waitFor(() => expect(getByLabelText('Set 3 percentage')).toBeTruthy())
+    expect(getAllByText('67.5kg')).toHaveLength(3)
+
+    fireEvent.changeText(getByLabelText('Set 3 percentage'), '85')
+    fireEvent(getByLabelText('Set 3 percentage'), 'blur')
+    fireEvent.press(getByText('Update Template'))
+
+    await waitFor(() => expect(mockUpdateTemplate).toHaveBeenCalled())
+    const saved = mockUpdateTemplate.mock.calls[0][3]
+    expect(saved[0]).toMatchObject({ load_basis: 'training_max', set_percentages: [75, 75, 85] })
+    expect(saved[1]).toMatchObject({ load_basis: null, set_percentages: null })
+  })
 })
@@ -1,10 +1,15 @@
 import React from 'react'
-import { waitFor } from '@testing-library/react-native'
+import { fireEvent, waitFor } from '@testing-library/react-native'
 import { renderWithProviders } from '../../../test-utils/render'
 import { createNavigationMock } from '../../../test-utils/mockNavigation'
 import WorkoutSummaryScreen from '../WorkoutSummaryScreen'
+import { clearMutationQueue, enqueueMutation } from '../../../lib/mutationQueue'
 
 jest.mock('../../../lib/supabase')
+jest.mock('../../../contexts/AuthContext')
+
+import * as AuthContextModule from '../../../contexts/AuthContext'
+const mockUseAuthContext = AuthContextModule.useAuthContext as jest.Mock
 
 const { mockSupabaseResponse, resetMockQueue, setupChain, mockFrom, mockChain } =
   jest.requireMock('../../../lib/supabase') as typeof import('../../../lib/__mocks__/supabase')
@@ -32,20 +37,22 @@ function makeWorkout(overrides: Record<string, any> = {}) {
   }
 }
 
-function renderScreen() {
+function renderScreen(params: Record<string, any> = {}) {
   const navigation = { ...createNavigationMock(), popToTop: jest.fn(), replace: jest.fn() }
-  const route = { params: { workoutId: WORKOUT_ID } }
+  const route = { params: { workoutId: WORKOUT_ID, ...params } }
   const rendered = renderWithProviders(
     <WorkoutSummaryScreen navigation={navigation as any} route={route as any} />
   )
   return { ...rendered, navigation }
 }
 
-beforeEach(() => {
+beforeEach(async () => {
   jest.clearAllMocks()
   resetMockQueue()
   setupChain()
   mockFrom.mockReturnValue(mockChain)
+  mockUseAuthContext.mockReturnValue({ profile: { id: 'user-1', default_weight_unit: 'kg' } })
+  await clearMutationQueue()
 })
 
 describe('WorkoutSummaryScreen notes', () => {
@@ -106,3 +113,99 @@ describe('WorkoutSummaryScreen notes', () => {
     })
   })
 })
+
+describe('WorkoutSummaryScreen effort markers', () => {
+  it('summarises top RPE, failure and drop sets per exercise', async () => {
+    mockSupabaseResponse(
+      makeWorkout({
+        workout_exercises: [
+          {
+            id: 'we-1',
+            exercise: { id: 'ex-1', name: 'Bench Press' },
+            sets: [
+              { id: 's-1', is_warmup: false, weight_kg: 100, reps: 5, rpe: 8, is_failure: false, is_dropset: false },
+              { id: 's-2', is_warmup: false, weight_kg: 100, reps: 5, rpe: 9.5, is_failure: true, is_dropset: false },
+              { id: 's-3', is_warmup: false, weight_kg: 70, reps: 10, rpe: null, is_failure: false, is_dropset: true },
+            ],
+          },
+        ],
+      })
+    )
+    mockSupabaseResponse([])
+
+    const { getByText } = renderScreen()
+
+    await waitFor(() => {
+      expect(getByText('3 sets · top RPE 9.5 · 1 to failure · 1 drop set')).toBeTruthy()
+    })
+  })
+})
+
+describe('WorkoutSummaryScreen muscle heatmap', () => {
+  it('shades worked muscles and lists the exercises behind one', async () => {
+    mockSupabaseResponse(
+      makeWorkout({
+        workout_exercises: [
+          {
+            id: 'we-1',
+            exercise_id: 'ex-1',
+            exercise: {
+              id: 'ex-1', name: 'Bench Press', primary_muscle_group: 'chest',
+              secondary_muscle_groups: ['triceps'], is_compound: true, equipment: 'barbell',
+            },
+            sets: [
+              { id: 's-1', is_warmup: true, weight_kg: 60, reps: 10 },
+              { id: 's-2', is_warmup: false, weight_kg: 100, reps: 5 },
+              { id: 's-3', is_warmup: false, weight_kg: 100, reps: 5 },
+            ],
+          },
+        ],
+      })
+    )
+    mockSupabaseResponse([])
+
+    const { getByLabelText, findByLabelText, getByText } = renderScreen()
+
+    expect(await findByLabelText('Chest, 2 sets')).toBeTruthy()
+    expect(getByText('Weighted · secondary muscles count ×0.5')).toBeTruthy()
+    fireEvent.press(getByLabelText('Triceps, 1 set'))
+
+    expect(getByLabelText('Close Triceps exercises')).toBeTruthy()
+    expect(getByText('Secondary')).toBeTruthy()
+    expect(getByText('1 set')).toBeTruthy()
+  })
+})
+
+describe('WorkoutSummaryScreen offline', () => {
+  it('summarises the finished session while it is still waiting to sync', async () => {
+    await enqueueMutation({
+      table: 'workouts',
+      operation: 'update',
+      rowId: WORKOUT_ID,
+      values: { status: 'completed' },
+      description: 'Finish Push Day',
+    })
+    await enqueueMutation({
+      table: 'personal_records',
+      operation: 'insert',
+      rowId: 'pr-1',
+      values: { workout_id: WORKOUT_ID, exercise_id: 'ex-1', pr_type: 'weight', weight_kg: 100, reps: 5, volume: 500 },
+      description: 'Bench Press PR',
+    })
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' }) // flush
+    mockSupabaseResponse(null, { message: 'TypeError: Network request failed' }) // personal_records
+
+    const session = {
+      ...makeWorkout(),
+      user_id: 'user-1',
+      status: 'completed',
+      workout_exercises: makeWorkout().workout_exercises.map(we => ({ ...we, exercise_id: 'ex-1', order_index: 0 })),
+    }
+    const { findByText, getByText } = renderScreen({ session })
+
+    expect(await findByText('Workout Complete!')).toBeTruthy()
+    expect(getByText('Push Day')).toBeTruthy()
+    expect(getByText('New Personal Records!')).toBeTruthy()
+    expect(mockChain.single).not.toHaveBeenCalled()
+  })
+})
@@ -3,6 +3,7 @@
 export function createNavigationMock() {
   return {
     navigate: jest.fn(),
+    replace: jest.fn(),
     goBack: jest.fn(),
     setOptions: jest.fn(),
     addListener: jest.fn(() => jest.fn()),
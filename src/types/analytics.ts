@@ -1,6 +1,6 @@
 // src/types/analytics.ts
 
-import { MuscleGroup } from './workout'
+import { MuscleGroup, PRType } from './workout'
 
 // Volume data for a single muscle group
 export interface MuscleVolumeData {
@@ -34,6 +34,8 @@ export interface ProgressDataPoint {
   weight_kg: number
   reps: number
   volume: number // weight × reps
+  estimated_1rm: number       // best e1RM that day, by the user's formula
+  estimated_1rm_reps: number  // reps of the set behind it
 }
 
 // Progress response for an exercise
@@ -81,6 +83,18 @@ export interface GroupedPRsData {
   }
 }
 
+// One entry in an exercise's PR timeline
+export interface PRHistoryEntry {
+  id: string
+  pr_type: PRType
+  weight_kg: number
+  reps: number
+  volume: number
+  estimated_1rm: number | null
+  is_manual: boolean
+  achieved_at: string
+}
+
 // For manual PR entry
 export interface ManualPRInput {
   exercise_id: string
@@ -97,3 +111,25 @@ export interface ExerciseForPR {
   primary_muscle_group: MuscleGroup
   is_compound: boolean
 }
+
+// Weekly working-set targets for one muscle group
+export interface VolumeLandmarks {
+  mev: number   // minimum effective volume
+  mav: number   // upper end of maximum adaptive volume
+  mrv: number   // maximum recoverable volume
+}
+
+// Where a week's sets fall against the landmarks
+export type VolumeZone = 'below_mev' | 'productive' | 'high' | 'over_mrv'
+
+// Under- and over-trained muscles for the weekly report
+export interface VolumeReportEntry {
+  muscle_group: MuscleGroup
+  sets: number
+  landmarks: VolumeLandmarks
+}
+
+export interface VolumeReport {
+  under: VolumeReportEntry[]
+  over: VolumeReportEntry[]
+}
@@ -0,0 +1,33 @@
+// src/types/export.ts
+// Training history export: raw table rows plus the options they were fetched with
+
+import { Exercise, PersonalRecord, WeightUnit, Workout, WorkoutExercise, WorkoutSet } from './workout'
+
+export type ExportFileType = 'csv' | 'json'
+
+// How far back to export; 'ALL' has no lower bound
+export type ExportRange = 'ALL' | '1M' | '3M' | '1Y'
+
+export interface ExportOptions {
+  fileType: ExportFileType
+  range: ExportRange
+  unit: WeightUnit   // CSV weights are written in this unit; JSON always keeps kg
+}
+
+// Rows exactly as stored, minus client-side joins
+export interface ExportTables {
+  workouts: Workout[]
+  workout_exercises: Omit<WorkoutExercise, 'exercise' | 'sets'>[]
+  workout_sets: WorkoutSet[]
+  exercises: Exercise[]   // every exercise referenced, so custom ones can be recreated
+  personal_records: Omit<PersonalRecord, 'exercise'>[]
+}
+
+export interface ExportArchive {
+  format: string
+  version: number
+  exported_at: string
+  range: { from: string | null; to: string | null }
+  unit: WeightUnit
+  tables: ExportTables
+}
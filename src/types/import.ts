@@ -0,0 +1,79 @@
+// src/types/import.ts
+// Training history imported from other apps' CSV exports
+
+import { ExerciseGroupType } from './workout'
+
+export type ImportSource = 'strong' | 'hevy'
+
+// One set as read from the file, weights already converted to kg
+export interface ImportedSet {
+  set_number: number
+  weight_kg: number | null
+  reps: number | null
+  rpe: number | null
+  is_warmup: boolean
+  is_failure: boolean
+  is_dropset: boolean
+}
+
+export interface ImportedExercise {
+  source_name: string          // exercise name exactly as the other app wrote it
+  group_key: string | null     // Hevy superset id, shared within one workout
+  group_type: ExerciseGroupType | null
+  notes: string | null
+  sets: ImportedSet[]
+}
+
+export interface ImportedWorkout {
+  name: string
+  started_at: string
+  completed_at: string
+  notes: string | null
+  exercises: ImportedExercise[]
+}
+
+export interface ParsedImport {
+  source: ImportSource
+  workouts: ImportedWorkout[]   // oldest first
+  exercise_names: string[]      // distinct source names, most sets first
+  set_counts: Record<string, number>
+  unit_in_file: boolean         // false when the user had to say what unit weights are in
+  skipped_rows: number          // cardio, timed and blank rows we can't store
+}
+
+// 'auto' = fuzzy match above the threshold, 'manual' = picked by the user
+export type ExerciseMatchStatus = 'auto' | 'manual' | 'unmatched' | 'skipped'
+
+export interface ExerciseMatch {
+  source_name: string
+  exercise_id: string | null
+  exercise_name: string | null
+  score: number
+  status: ExerciseMatchStatus
+  // Best guess below the threshold, offered as a one-tap fix
+  suggestion: { exercise_id: string; exercise_name: string; score: number } | null
+}
+
+// A workout ready to insert: duplicates dropped, exercises mapped to our ids
+export interface ResolvedImportWorkout extends Omit<ImportedWorkout, 'exercises'> {
+  exercises: (ImportedExercise & { exercise_id: string })[]
+}
+
+export interface ImportPreview {
+  workout_count: number
+  duplicate_count: number
+  exercise_count: number
+  set_count: number
+  skipped_set_count: number    // sets of exercises the user chose to skip
+  first_date: string | null
+  last_date: string | null
+  duplicates: { name: string; started_at: string }[]
+}
+
+export interface ImportResult {
+  workouts: number
+  sets: number
+  records: number
+  exercise_ids: string[]          // whose PRs the import replays
+  records_error: string | null    // workouts landed but PRs weren't recalculated; retry with recomputeRecords
+}
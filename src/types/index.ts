@@ -1,3 +1,10 @@
 // src/types/index.ts
 export * from './workout'
 export * from './analytics'
+export * from './program'
+export * from './plates'
+export * from './export'
+export * from './import'
+export * from './measurements'
+export * from './photos'
+export * from './strength'
@@ -0,0 +1,39 @@
+// src/types/measurements.ts
+// Body measurement check-ins. Weights in kg, lengths in cm, as stored.
+
+export type LengthUnit = 'cm' | 'in'
+
+export type MeasurementField =
+  | 'bodyweight_kg'
+  | 'body_fat_pct'
+  | 'waist_cm'
+  | 'chest_cm'
+  | 'arm_cm'
+  | 'thigh_cm'
+
+export interface BodyMeasurement {
+  id: string
+  user_id: string
+  measured_at: string
+  bodyweight_kg: number | null
+  body_fat_pct: number | null
+  waist_cm: number | null
+  chest_cm: number | null
+  arm_cm: number | null
+  thigh_cm: number | null
+  notes: string | null
+  created_at: string
+}
+
+// Form values are in the display units; only filled fields are saved
+export type MeasurementFormData = Partial<Record<MeasurementField, number>> & {
+  measured_at: string
+  notes: string
+}
+
+// One point on the trend chart
+export interface MeasurementTrendPoint {
+  measured_at: string
+  value: number            // stored unit
+  average: number          // trailing moving average, stored unit
+}
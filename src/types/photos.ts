@@ -0,0 +1,48 @@
+// src/types/photos.ts
+// Progress photos. Metadata lives in progress_photos; the images in the
+// private progress-photos Storage bucket.
+
+export interface ProgressPhoto {
+  id: string
+  user_id: string
+  taken_on: string          // YYYY-MM-DD
+  workout_id: string | null
+  storage_path: string      // <user_id>/<id>.jpg
+  thumbnail_path: string    // <user_id>/<id>_thumb.jpg
+  notes: string | null
+  created_at: string
+}
+
+// A photo ready to show: uploaded ones carry signed URLs, queued ones
+// point at the copies kept on the device until the upload goes through
+export interface GalleryPhoto {
+  id: string
+  taken_on: string
+  workout_id: string | null
+  notes: string | null
+  url: string
+  thumbnail_url: string
+  pending: boolean
+  storage_path: string | null   // null while still queued
+  thumbnail_path: string | null
+}
+
+// Persisted while offline, replayed by flushPhotoUploads
+export interface PendingPhotoUpload {
+  id: string                // becomes the progress_photos id
+  user_id: string
+  taken_on: string
+  workout_id: string | null
+  notes: string | null
+  local_uri: string
+  local_thumbnail_uri: string
+  queued_at: string
+}
+
+export interface PhotoFormData {
+  uri: string               // straight from the picker
+  width: number             // source width in px, so we never upscale
+  taken_on: string
+  workout_id: string | null
+  notes: string
+}
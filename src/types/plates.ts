@@ -0,0 +1,28 @@
+// src/types/plates.ts
+import { WeightUnit } from './workout'
+
+// Plates of one weight available in the gym, counted in pairs (one per side)
+export interface PlateInventoryItem {
+  weight: number
+  pairs: number
+}
+
+// Device-local equipment setup. Weights are in `unit`, which may differ from
+// the profile's display unit (e.g. logging in lbs in a kg-plate gym).
+export interface PlateSettings {
+  unit: WeightUnit
+  barWeight: number
+  plates: PlateInventoryItem[]
+  machineStartWeights: Record<string, number>   // exercise_id → sled/carriage weight
+}
+
+// What to put on the bar for a target weight
+export interface PlateLoad {
+  baseWeight: number        // bar or machine starting resistance, in the settings unit
+  perSide: number[]         // plates per side, heaviest first
+  loadedWeight: number      // base + both sides, in the settings unit
+  loadedKg: number
+  exact: boolean
+  nearestBelowKg: number | null   // only set when the target isn't loadable
+  nearestAboveKg: number | null
+}
@@ -0,0 +1,53 @@
+// src/types/program.ts
+import { WorkoutTemplate, WorkoutTemplateWithExercises } from './workout'
+
+export type EnrollmentStatus = 'active' | 'completed' | 'abandoned'
+
+// Multi-week training block
+export interface Program {
+  id: string
+  name: string
+  description: string | null
+  weeks: number
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// One slot in a program's schedule. template_id null = rest day.
+export interface ProgramDay {
+  id: string
+  program_id: string
+  week_number: number
+  day_number: number
+  template_id: string | null
+  // Joined data
+  template?: Pick<WorkoutTemplate, 'id' | 'name'> | null
+}
+
+export interface ProgramWithDays extends Program {
+  program_days: ProgramDay[]
+}
+
+export interface ProgramEnrollment {
+  id: string
+  user_id: string
+  program_id: string
+  status: EnrollmentStatus
+  current_day_index: number   // index into program_days ordered by week, day
+  last_advanced_at: string
+  started_at: string
+  completed_at: string | null
+}
+
+// What HomeScreen shows for an active enrollment
+export interface TodaySession {
+  enrollment: ProgramEnrollment
+  program: Program
+  day: ProgramDay
+  dayIndex: number
+  weekNumber: number
+  totalWeeks: number
+  isRestDay: boolean
+  template: WorkoutTemplateWithExercises | null
+}
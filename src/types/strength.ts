@@ -0,0 +1,32 @@
+// src/types/strength.ts
+// Relative strength: scoring formulas and strength-level standards
+
+export type Sex = 'male' | 'female'
+
+export type BigThreeLift = 'squat' | 'bench' | 'deadlift'
+
+export type StrengthLevel = 'beginner' | 'novice' | 'intermediate' | 'advanced' | 'elite'
+
+// Best 1RM per lift; estimated when it came from a multi-rep set
+export type BigThreeBests = Partial<Record<BigThreeLift, { one_rep_max_kg: number; estimated: boolean }>>
+
+export interface LiftStanding {
+  lift: BigThreeLift
+  one_rep_max_kg: number
+  bodyweight_multiple: number
+  level: StrengthLevel
+  // null once elite
+  next: { level: StrengthLevel; target_kg: number; remaining_kg: number; progress: number } | null
+}
+
+// Scores need all three lifts; they are null until the total exists
+export interface RelativeStrength {
+  bodyweight_kg: number
+  sex: Sex
+  total_kg: number | null
+  total_is_estimated: boolean   // true when any lift's best came from a multi-rep set
+  wilks: number | null
+  dots: number | null
+  ipf_gl: number | null
+  lifts: LiftStanding[]
+}
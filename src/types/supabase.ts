@@ -2,6 +2,8 @@
 // These are NOT auto-generated — they reflect the specific select() shapes used
 // in hooks to eliminate `any` in the data pipeline.
 
+import { ExerciseGroupType, PRType } from './workout'
+
 // ── useWorkoutHistory ────────────────────────────────────────────────────────
 
 export interface WorkoutSetRow {
@@ -19,7 +21,16 @@ export interface WorkoutExerciseRow {
   id: string
   exercise_id: string
   order_index: number
-  exercise?: { name: string; primary_muscle_group: string }
+  group_id?: string | null
+  group_type?: ExerciseGroupType | null
+  exercise?: {
+    id?: string
+    name: string
+    primary_muscle_group: string
+    secondary_muscle_groups?: string[] | null
+    is_compound?: boolean
+    equipment?: string
+  }
   sets: WorkoutSetRow[]
 }
 
@@ -34,6 +45,12 @@ export interface WorkoutWithExercisesRow {
   workout_exercises: WorkoutExerciseRow[]
 }
 
+export interface ExerciseHistoryRow {
+  id: string
+  workout: { id: string; name: string; started_at: string } | Array<{ id: string; name: string; started_at: string }>
+  sets: WorkoutSetRow[]
+}
+
 // ── useAnalytics: exercise_volume_by_muscle view ─────────────────────────────
 
 export interface VolumeViewRow {
@@ -45,12 +62,32 @@ export interface VolumeViewRow {
   user_id: string
 }
 
+// ── useAnalytics: per-set volume query (secondary muscle credit) ─────────────
+
+export interface VolumeSetExercise {
+  id: string
+  name: string
+  primary_muscle_group: string
+  secondary_muscle_groups: string[] | null
+  is_compound: boolean
+  equipment: string
+}
+
+export interface VolumeSetRow {
+  weight_kg: number | null
+  reps: number | null
+  workout_exercise:
+    | { exercise: VolumeSetExercise | VolumeSetExercise[] }
+    | Array<{ exercise: VolumeSetExercise | VolumeSetExercise[] }>
+}
+
 // ── useAnalytics: workout_sets progress query ────────────────────────────────
 // Supabase JS infers nested !inner joins as arrays even for to-one relations.
 
 export interface ProgressSetRow {
   weight_kg: number | null
   reps: number | null
+  rpe: number | null
   completed_at: string
   workout_exercise: Array<{
     exercise_id: string
@@ -59,12 +96,34 @@ export interface ProgressSetRow {
   }>
 }
 
+// ── useWorkout: PR baseline query ───────────────────────────────────────────
+
+export interface PRHistorySetRow {
+  weight_kg: number | null
+  reps: number | null
+  workout_exercise: Array<{ workout_id: string }> | { workout_id: string }
+}
+
 // ── WorkoutSummaryScreen / useWorkout ────────────────────────────────────────
 
 export interface PRRow {
-  exercise_id: string
+  pr_type: PRType
   weight_kg: number
   reps: number
+  volume: number
   achieved_at: string
-  exercise?: { name: string }
+  exercise?: { name: string } | Array<{ name: string }>
+}
+
+// ── lib/personalRecords: PR replay query ────────────────────────────────────
+
+export interface PRReplaySetRow {
+  id: string
+  weight_kg: number | null
+  reps: number | null
+  set_number: number
+  completed_at: string
+  workout_exercise:
+    | { workout_id: string; exercise_id: string; order_index: number; workout: { started_at: string } | Array<{ started_at: string }> }
+    | Array<{ workout_id: string; exercise_id: string; order_index: number; workout: { started_at: string } | Array<{ started_at: string }> }>
 }
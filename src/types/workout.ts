@@ -30,6 +30,20 @@ export type EquipmentType =
 
 export type WorkoutStatus = 'in_progress' | 'completed' | 'abandoned'
 
+export type WeightUnit = 'kg' | 'lbs'
+
+// How an estimated 1RM is derived from a set's load and reps
+export type E1RMFormula = 'epley' | 'brzycki' | 'lombardi' | 'rpe'
+
+// What a template's percentage targets are a percentage of
+export type LoadBasis = 'one_rep_max' | 'training_max'
+
+// PR categories tracked per exercise
+export type PRType = 'weight' | 'e1rm' | 'reps' | 'volume'
+
+// Exercises performed back to back, resting only after the last one in a round
+export type ExerciseGroupType = 'superset' | 'giant_set' | 'circuit'
+
 // Exercise from the exercises table
 export interface Exercise {
   id: string
@@ -64,6 +78,11 @@ export interface TemplateExercise {
   target_reps: number | null
   target_rpe: number | null
   rest_seconds: number
+  warmup_enabled: boolean   // offer generated warm-ups (barbell compounds only)
+  load_basis: LoadBasis | null
+  set_percentages: number[] | null   // per working set; the last value repeats
+  group_id: string | null   // shared by adjacent exercises in a superset/circuit
+  group_type: ExerciseGroupType | null
   notes: string | null
   created_at: string
   // Joined data
@@ -80,6 +99,7 @@ export interface Workout {
   id: string
   user_id: string
   template_id: string | null
+  program_day_id: string | null   // set when started from a program's schedule
   name: string
   started_at: string
   completed_at: string | null
@@ -97,6 +117,8 @@ export interface WorkoutExercise {
   order_index: number
   template_exercise_id: string | null
   is_substitution: boolean
+  group_id: string | null   // copied from the template when the workout starts
+  group_type: ExerciseGroupType | null
   notes: string | null
   created_at: string
   // Joined data
@@ -120,15 +142,20 @@ export interface WorkoutSet {
   created_at: string
 }
 
-// Personal record
+// Personal record. One row per PR event, so the table doubles as PR history.
 export interface PersonalRecord {
   id: string
   user_id: string
   exercise_id: string
+  pr_type: PRType
   weight_kg: number
   reps: number
-  volume: number
+  volume: number            // weight × reps, or the session total for 'volume'
+  estimated_1rm: number | null
   workout_set_id: string | null
+  workout_id: string | null
+  is_manual: boolean
+  notes: string | null
   achieved_at: string
   created_at: string
   // Joined data
@@ -148,11 +175,22 @@ export interface NewWorkoutSet {
   target_reps?: number | null
 }
 
+// Stored maxes that percentage targets resolve against
+export interface ExerciseMax {
+  id: string
+  user_id: string
+  exercise_id: string
+  one_rep_max_kg: number | null
+  training_max_kg: number | null
+  updated_at: string
+}
+
 // Previous set data for pre-filling
 export interface PreviousSetData {
   exercise_id: string
   weight_kg: number
   reps: number
+  rpe: number | null
   set_number: number
 }
 
@@ -171,6 +209,16 @@ export interface WorkoutSummary {
   total_volume_kg: number
 }
 
+// Create/edit form for a user's own exercise
+export interface ExerciseFormData {
+  name: string
+  description: string | null
+  primary_muscle_group: MuscleGroup
+  secondary_muscle_groups: MuscleGroup[]
+  equipment: EquipmentType
+  is_compound: boolean
+}
+
 // Local form state for template exercises (before persisting to DB)
 export interface TemplateExerciseFormData {
   tempId: string            // client-side key (not persisted)
@@ -181,5 +229,10 @@ export interface TemplateExerciseFormData {
   target_reps: number | null
   target_rpe: number | null // range 1-10
   rest_seconds: number      // default 90, range 0-600
+  warmup_enabled: boolean   // default true
+  load_basis: LoadBasis | null        // null = no percentage targets
+  set_percentages: number[] | null    // e.g. [65, 75, 85] of the basis
+  group_id: string | null
+  group_type: ExerciseGroupType | null
   notes: string | null
 }
@@ -1,4 +1,11 @@
-import { getWeekBoundaries, getMonthBoundaries, toDateKey } from '../dateHelpers'
+import {
+  getWeekBoundaries,
+  getMonthBoundaries,
+  toDateKey,
+  toLocalDateKey,
+  shiftDateKey,
+  getDayBoundaries,
+} from '../dateHelpers'
 
 describe('getWeekBoundaries', () => {
   it('returns Monday as start when given a Wednesday', () => {
@@ -78,3 +85,24 @@ describe('toDateKey', () => {
     expect(toDateKey('2026-01-05T00:00:00')).toBe('2026-01-05')
   })
 })
+
+describe('toLocalDateKey', () => {
+  it('uses the local calendar day', () => {
+    expect(toLocalDateKey(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05')
+  })
+})
+
+describe('shiftDateKey', () => {
+  it('crosses month and year boundaries', () => {
+    expect(shiftDateKey('2026-03-01', -1)).toBe('2026-02-28')
+    expect(shiftDateKey('2025-12-31', 1)).toBe('2026-01-01')
+  })
+})
+
+describe('getDayBoundaries', () => {
+  it('spans the whole local day', () => {
+    const { start, end } = getDayBoundaries('2026-04-18')
+    expect(new Date(start).getTime()).toBe(new Date(2026, 3, 18).getTime())
+    expect(new Date(end).getTime() - new Date(start).getTime()).toBe(24 * 60 * 60 * 1000 - 1)
+  })
+})
@@ -0,0 +1,144 @@
+import {
+  getGroupPositions,
+  normalizeGroups,
+  linkWithNext,
+  unlinkFromNext,
+  setGroupType,
+  getNextGroupStep,
+} from '../exerciseGroups'
+import { ExerciseGroupType, WorkoutSet } from '../../types/workout'
+
+interface Item {
+  name: string
+  group_id: string | null
+  group_type: ExerciseGroupType | null
+  targetSets?: number
+  sets?: WorkoutSet[]
+}
+
+function item(name: string, group_id: string | null = null, group_type: ExerciseGroupType | null = null): Item {
+  return { name, group_id, group_type }
+}
+
+function workingSets(count: number): WorkoutSet[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `s-${i}`, is_warmup: false }) as WorkoutSet)
+}
+
+// ── getGroupPositions ─────────────────────────────────────────────────────────
+
+describe('getGroupPositions', () => {
+  it('labels grouped runs A1/A2, B1/B2 and leaves the rest ungrouped', () => {
+    const positions = getGroupPositions([
+      item('Squat'),
+      item('Bench', 'g1', 'superset'),
+      item('Row', 'g1', 'superset'),
+      item('Curl', 'g2', 'circuit'),
+      item('Pushdown', 'g2', 'circuit'),
+    ])
+
+    expect(positions[0]).toBeNull()
+    expect(positions.slice(1).map(p => p?.label)).toEqual(['A1', 'A2', 'B1', 'B2'])
+    expect(positions[3]).toMatchObject({ type: 'circuit', start: 3, end: 4, size: 2 })
+  })
+
+  it('treats a lone exercise with a group_id as ungrouped', () => {
+    expect(getGroupPositions([item('Bench', 'g1', 'superset'), item('Row')])).toEqual([null, null])
+  })
+
+  it('calls three or more exercises a giant set', () => {
+    const positions = getGroupPositions([
+      item('A', 'g1', 'superset'),
+      item('B', 'g1', 'superset'),
+      item('C', 'g1', 'superset'),
+    ])
+    expect(positions[0]?.type).toBe('giant_set')
+  })
+})
+
+// ── Editing groups ────────────────────────────────────────────────────────────
+
+describe('linkWithNext / unlinkFromNext', () => {
+  it('links two exercises into a superset', () => {
+    const linked = linkWithNext([item('Bench'), item('Row'), item('Squat')], 0)
+
+    expect(linked[0].group_id).toBeTruthy()
+    expect(linked[1].group_id).toBe(linked[0].group_id)
+    expect(linked[0].group_type).toBe('superset')
+    expect(linked[2].group_id).toBeNull()
+  })
+
+  it('grows a superset into a giant set', () => {
+    const linked = linkWithNext([item('A', 'g1', 'superset'), item('B', 'g1', 'superset'), item('C')], 1)
+
+    expect(linked.map(e => e.group_id)).toEqual(['g1', 'g1', 'g1'])
+    expect(linked.every(e => e.group_type === 'giant_set')).toBe(true)
+  })
+
+  it('splits a group and ungroups a single leftover', () => {
+    const split = unlinkFromNext(
+      [item('A', 'g1', 'giant_set'), item('B', 'g1', 'giant_set'), item('C', 'g1', 'giant_set')],
+      1
+    )
+
+    expect(split[0].group_id).toBe('g1')
+    expect(split[1].group_id).toBe('g1')
+    expect(split[0].group_type).toBe('superset')
+    expect(split[2]).toMatchObject({ group_id: null, group_type: null })
+  })
+
+  it('keeps circuits as circuits when the size changes', () => {
+    const grouped = setGroupType([item('A', 'g1', 'superset'), item('B', 'g1', 'superset')], 'g1', 'circuit')
+    const linked = linkWithNext([...grouped, item('C')], 1)
+
+    expect(linked.every(e => e.group_type === 'circuit')).toBe(true)
+  })
+})
+
+describe('normalizeGroups', () => {
+  it('gives a group split by a reorder separate ids', () => {
+    const normalized = normalizeGroups([
+      item('A', 'g1', 'superset'),
+      item('B', 'g1', 'superset'),
+      item('X'),
+      item('C', 'g1', 'superset'),
+      item('D', 'g1', 'superset'),
+    ])
+
+    expect(normalized[0].group_id).toBe('g1')
+    expect(normalized[3].group_id).not.toBe('g1')
+    expect(normalized[4].group_id).toBe(normalized[3].group_id)
+  })
+})
+
+// ── getNextGroupStep ──────────────────────────────────────────────────────────
+
+describe('getNextGroupStep', () => {
+  function superset(setsDone: [number, number]): Item[] {
+    return [
+      { ...item('Bench', 'g1', 'superset'), targetSets: 3, sets: workingSets(setsDone[0]) },
+      { ...item('Row', 'g1', 'superset'), targetSets: 3, sets: workingSets(setsDone[1]) },
+      { ...item('Curl'), targetSets: 3, sets: [] },
+    ]
+  }
+
+  it('returns null for an ungrouped exercise', () => {
+    expect(getNextGroupStep(superset([0, 0]), 2, 2)).toBeNull()
+  })
+
+  it('moves to the next member without resting mid-round', () => {
+    expect(getNextGroupStep(superset([1, 0]), 0, 2)).toEqual({ nextIndex: 1, endsRound: false })
+  })
+
+  it('rests and returns to the first member at the end of a round', () => {
+    expect(getNextGroupStep(superset([1, 1]), 1, 2)).toEqual({ nextIndex: 0, endsRound: true })
+  })
+
+  it('skips members that have finished their sets', () => {
+    const exercises = superset([3, 2])
+    expect(getNextGroupStep(exercises, 1, 1)).toEqual({ nextIndex: 1, endsRound: true })
+  })
+
+  it('moves past the group once every member is done', () => {
+    expect(getNextGroupStep(superset([3, 3]), 1, 0)).toEqual({ nextIndex: 2, endsRound: true })
+  })
+})
@@ -0,0 +1,52 @@
+import {
+  tokenizeExerciseName,
+  scoreExerciseName,
+  matchExerciseNames,
+  AUTO_MATCH_SCORE,
+} from '../exerciseMatching'
+
+const LIBRARY = [
+  { id: 'bench', name: 'Barbell Bench Press' },
+  { id: 'db-bench', name: 'Dumbbell Bench Press' },
+  { id: 'back-squat', name: 'Barbell Back Squat' },
+  { id: 'front-squat', name: 'Barbell Front Squat' },
+  { id: 'pullup', name: 'Pull-Up' },
+  { id: 'curl', name: 'Dumbbell Curl' },
+]
+
+describe('tokenizeExerciseName', () => {
+  it('ignores order, brackets, plurals and common abbreviations', () => {
+    expect(tokenizeExerciseName('Bench Press (Barbell)')).toEqual(['barbell', 'bench', 'press'])
+    expect(tokenizeExerciseName('DB Curls')).toEqual(['curl', 'dumbbell'])
+  })
+})
+
+describe('scoreExerciseName', () => {
+  it('scores reordered names as identical', () => {
+    expect(scoreExerciseName('Bench Press (Barbell)', 'Barbell Bench Press')).toBe(1)
+  })
+
+  it('tolerates hyphenation differences', () => {
+    expect(scoreExerciseName('Pullup', 'Pull-Up')).toBeGreaterThanOrEqual(AUTO_MATCH_SCORE)
+  })
+})
+
+describe('matchExerciseNames', () => {
+  it('auto-matches confident names', () => {
+    const [bench, curl] = matchExerciseNames(['Bench Press (Barbell)', 'Bicep Curl (Dumbbell)'], LIBRARY)
+    expect(bench).toMatchObject({ status: 'auto', exercise_id: 'bench' })
+    expect(curl).toMatchObject({ status: 'auto', exercise_id: 'curl' })
+  })
+
+  it('never auto-picks between equally good candidates', () => {
+    const [squat] = matchExerciseNames(['Squat (Barbell)'], LIBRARY)
+    expect(squat.status).toBe('unmatched')
+    expect(squat.exercise_id).toBeNull()
+    expect(squat.suggestion?.exercise_id).toMatch(/squat/)
+  })
+
+  it('leaves unknown names unmatched without a suggestion', () => {
+    const [row] = matchExerciseNames(['Rowing Machine'], LIBRARY)
+    expect(row).toMatchObject({ status: 'unmatched', suggestion: null })
+  })
+})
@@ -0,0 +1,146 @@
+import {
+  buildExportCsv,
+  buildExportArchive,
+  escapeCsvValue,
+  csvHeader,
+  getExportRangeStart,
+  getExportFileName,
+  EXPORT_FORMAT,
+  EXPORT_FORMAT_VERSION,
+} from '../exportFormat'
+import { ExportTables } from '../../types/export'
+
+const EXPORTED_AT = '2026-10-19T09:30:00.000Z'
+
+function makeTables(): ExportTables {
+  return {
+    workouts: [
+      {
+        id: 'w-2', user_id: 'u-1', template_id: null, program_day_id: null, name: 'Legs',
+        started_at: '2026-04-08T10:00:00Z', completed_at: '2026-04-08T11:00:00Z',
+        status: 'completed', notes: null, created_at: '', updated_at: '',
+      },
+      {
+        id: 'w-1', user_id: 'u-1', template_id: null, program_day_id: null, name: 'Push, heavy',
+        started_at: '2026-04-01T10:00:00Z', completed_at: '2026-04-01T11:00:00Z',
+        status: 'completed', notes: 'Felt "great"', created_at: '', updated_at: '',
+      },
+    ],
+    workout_exercises: [
+      {
+        id: 'we-1', workout_id: 'w-1', exercise_id: 'ex-1', order_index: 0,
+        template_exercise_id: null, is_substitution: false, group_id: null, group_type: null,
+        notes: null, created_at: '',
+      },
+      {
+        id: 'we-2', workout_id: 'w-2', exercise_id: 'ex-2', order_index: 0,
+        template_exercise_id: null, is_substitution: false, group_id: null, group_type: null,
+        notes: null, created_at: '',
+      },
+    ],
+    workout_sets: [
+      {
+        id: 's-3', workout_exercise_id: 'we-2', set_number: 1, weight_kg: 140, reps: 3, rpe: 9,
+        is_warmup: false, is_failure: false, is_dropset: false, target_reps: null,
+        completed_at: '2026-04-08T10:10:00Z', created_at: '',
+      },
+      {
+        id: 's-2', workout_exercise_id: 'we-1', set_number: 2, weight_kg: 100, reps: 5, rpe: null,
+        is_warmup: false, is_failure: true, is_dropset: false, target_reps: null,
+        completed_at: '2026-04-01T10:10:00Z', created_at: '',
+      },
+      {
+        id: 's-1', workout_exercise_id: 'we-1', set_number: 1, weight_kg: 60, reps: 8, rpe: null,
+        is_warmup: true, is_failure: false, is_dropset: false, target_reps: null,
+        completed_at: '2026-04-01T10:05:00Z', created_at: '',
+      },
+    ],
+    exercises: [
+      {
+        id: 'ex-1', name: 'Bench Press', description: null, primary_muscle_group: 'chest',
+        secondary_muscle_groups: [], equipment: 'barbell', is_compound: true, created_by: null, created_at: '',
+      },
+      {
+        id: 'ex-2', name: 'Squat', description: null, primary_muscle_group: 'quadriceps',
+        secondary_muscle_groups: [], equipment: 'barbell', is_compound: true, created_by: null, created_at: '',
+      },
+    ],
+    personal_records: [],
+  }
+}
+
+describe('escapeCsvValue', () => {
+  it('leaves plain values alone and blanks nulls', () => {
+    expect(escapeCsvValue('Bench')).toBe('Bench')
+    expect(escapeCsvValue(100)).toBe('100')
+    expect(escapeCsvValue(false)).toBe('false')
+    expect(escapeCsvValue(null)).toBe('')
+  })
+
+  it('quotes delimiters, quotes and line breaks', () => {
+    expect(escapeCsvValue('a,b')).toBe('"a,b"')
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsvValue('one\ntwo')).toBe('"one\ntwo"')
+  })
+})
+
+describe('buildExportCsv', () => {
+  it('starts with the versioned preamble and a unit-suffixed header', () => {
+    const lines = buildExportCsv(makeTables(), 'kg', EXPORTED_AT).split('\n')
+    expect(lines[0]).toBe(`# ${EXPORT_FORMAT} v${EXPORT_FORMAT_VERSION}; unit=kg; exported_at=${EXPORTED_AT}`)
+    expect(lines[1]).toBe(csvHeader('kg').join(','))
+    expect(lines[1]).toContain('weight_kg')
+    expect(lines[1]).toContain('estimated_1rm_kg')
+  })
+
+  it('writes one row per set in workout, exercise and set order', () => {
+    const lines = buildExportCsv(makeTables(), 'kg', EXPORTED_AT).trim().split('\n')
+    const rows = lines.slice(2)
+    expect(rows).toHaveLength(3)
+    expect(rows[0]).toMatch(/^w-1,"Push, heavy",.*,"Felt ""great""",1,ex-1,Bench Press,chest,barbell,,,1,true,60,8,/)
+    expect(rows[1]).toContain(',2,false,100,5,,true,false,500,116.65,')
+    expect(rows[2]).toMatch(/^w-2,Legs,/)
+  })
+
+  it('converts weights to pounds', () => {
+    const lines = buildExportCsv(makeTables(), 'lbs', EXPORTED_AT).split('\n')
+    expect(lines[1]).toContain('weight_lbs')
+    expect(lines[3]).toContain(',220.5,5,')
+  })
+})
+
+describe('buildExportArchive', () => {
+  it('wraps the raw tables with format metadata', () => {
+    const tables = makeTables()
+    const archive = buildExportArchive(tables, { unit: 'lbs', from: null, to: EXPORTED_AT }, EXPORTED_AT)
+    expect(archive).toEqual({
+      format: EXPORT_FORMAT,
+      version: EXPORT_FORMAT_VERSION,
+      exported_at: EXPORTED_AT,
+      range: { from: null, to: EXPORTED_AT },
+      unit: 'lbs',
+      tables,
+    })
+    // Stored kg values are untouched
+    expect(archive.tables.workout_sets[1].weight_kg).toBe(100)
+  })
+})
+
+describe('getExportRangeStart', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  it('has no lower bound for all time', () => {
+    expect(getExportRangeStart('ALL', now)).toBeNull()
+  })
+
+  it('steps back by the preset', () => {
+    expect(getExportRangeStart('3M', now)?.slice(0, 10)).toBe('2026-07-19')
+    expect(getExportRangeStart('1Y', now)?.slice(0, 10)).toBe('2025-10-19')
+  })
+})
+
+describe('getExportFileName', () => {
+  it('dates the file', () => {
+    expect(getExportFileName('json', EXPORTED_AT)).toBe('strengthflow-2026-10-19.json')
+  })
+})
@@ -0,0 +1,149 @@
+import {
+  parseCsv,
+  parseImportFile,
+  parseImportDate,
+  parseDurationSeconds,
+  resolveImportWorkouts,
+} from '../historyImport'
+import { ExerciseMatch } from '../../types/import'
+
+const STRONG_CSV = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+  '2024-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),W,40,10,0,0,,Felt good,',
+  '2024-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),1,100,5,0,0,Paused,Felt good,8',
+  '2024-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),Rest Timer,0,0,0,90,,Felt good,',
+  '2024-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),2,100,5,0,0,,Felt good,',
+  '2024-01-15 08:30:00,"Push, heavy",1h 5m,Rowing (Machine),1,0,0,2000,480,,Felt good,',
+  '2024-01-15 08:30:00,"Push, heavy",1h 5m,Triceps Dip,1,0,12,0,0,,Felt good,',
+  '2024-01-08 18:00:00,Legs,45m,Squat (Barbell),1,140,3,0,0,,,',
+].join('\n')
+
+const HEVY_CSV = [
+  '"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_lbs","reps","distance_km","duration_seconds","rpe"',
+  '"Upper","15 Jan 2024, 08:30","15 Jan 2024, 09:40","","Lateral Raise (Dumbbell)","0","","0","warmup","10","15","","",""',
+  '"Upper","15 Jan 2024, 08:30","15 Jan 2024, 09:40","","Lateral Raise (Dumbbell)","0","","1","normal","20","12","","","8.5"',
+  '"Upper","15 Jan 2024, 08:30","15 Jan 2024, 09:40","","Face Pull","0","","0","failure","50","15","","",""',
+  '"Upper","15 Jan 2024, 08:30","15 Jan 2024, 09:40","","Bench Press (Barbell)","","","0","dropset","135","8","","",""',
+].join('\r\n')
+
+describe('parseCsv', () => {
+  it('handles quoted delimiters, escaped quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","x\ny"\n\n1,2,3,4')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'x\ny'],
+      ['1', '2', '3', '4'],
+    ])
+  })
+
+  it('splits on another delimiter', () => {
+    expect(parseCsv('a;b\r\n1;2,5', ';')).toEqual([['a', 'b'], ['1', '2,5']])
+  })
+})
+
+describe('parseImportDate', () => {
+  it('reads both apps as local time', () => {
+    expect(parseImportDate('2024-01-15 08:30:00')).toBe(new Date(2024, 0, 15, 8, 30).toISOString())
+    expect(parseImportDate('15 Jan 2024, 08:30')).toBe(new Date(2024, 0, 15, 8, 30).toISOString())
+  })
+
+  it('rejects junk', () => {
+    expect(parseImportDate('yesterday')).toBeNull()
+  })
+})
+
+describe('parseDurationSeconds', () => {
+  it('reads Strong durations and plain seconds', () => {
+    expect(parseDurationSeconds('1h 5m')).toBe(3900)
+    expect(parseDurationSeconds('45m')).toBe(2700)
+    expect(parseDurationSeconds('3600')).toBe(3600)
+  })
+})
+
+describe('parseImportFile: Strong', () => {
+  const parsed = parseImportFile(STRONG_CSV, 'kg')
+
+  it('groups rows into workouts, oldest first', () => {
+    expect(parsed.source).toBe('strong')
+    expect(parsed.workouts.map(w => w.name)).toEqual(['Legs', 'Push, heavy'])
+    const push = parsed.workouts[1]
+    expect(push.notes).toBe('Felt good')
+    expect(new Date(push.completed_at).getTime() - new Date(push.started_at).getTime()).toBe(3900 * 1000)
+  })
+
+  it('keeps warm-ups, drops rest timers and cardio', () => {
+    const bench = parsed.workouts[1].exercises[0]
+    expect(bench.sets).toHaveLength(3)
+    expect(bench.sets[0]).toMatchObject({ set_number: 1, is_warmup: true, weight_kg: 40 })
+    expect(bench.sets[1]).toMatchObject({ set_number: 2, weight_kg: 100, reps: 5, rpe: 8 })
+    expect(bench.notes).toBe('Paused')
+    expect(parsed.workouts[1].exercises.map(e => e.source_name)).toEqual([
+      'Bench Press (Barbell)',
+      'Triceps Dip',
+    ])
+    expect(parsed.skipped_rows).toBe(1)
+  })
+
+  it('asks for the unit and applies it', () => {
+    expect(parsed.unit_in_file).toBe(false)
+    const inPounds = parseImportFile(STRONG_CSV, 'lbs')
+    expect(inPounds.workouts[0].exercises[0].sets[0].weight_kg).toBeCloseTo(63.5, 1)
+  })
+
+  it('lists exercises by set count', () => {
+    expect(parsed.exercise_names[0]).toBe('Bench Press (Barbell)')
+    expect(parsed.set_counts['Bench Press (Barbell)']).toBe(3)
+  })
+})
+
+describe('parseImportFile: Hevy', () => {
+  const parsed = parseImportFile(HEVY_CSV, 'kg')
+
+  it('reads set types, pounds and supersets', () => {
+    expect(parsed.source).toBe('hevy')
+    expect(parsed.unit_in_file).toBe(true)
+
+    const [raise, facePull, bench] = parsed.workouts[0].exercises
+    expect(raise.sets[0].is_warmup).toBe(true)
+    expect(raise.sets[1]).toMatchObject({ rpe: 8.5, weight_kg: 9.07 })
+    expect(facePull.sets[0].is_failure).toBe(true)
+    expect(bench.sets[0].is_dropset).toBe(true)
+
+    expect(raise.group_type).toBe('superset')
+    expect(facePull.group_key).toBe(raise.group_key)
+    expect(bench.group_key).toBeNull()
+  })
+})
+
+describe('parseImportFile: errors', () => {
+  it('rejects files from other apps', () => {
+    expect(() => parseImportFile('name,value\nfoo,1', 'kg')).toThrow('Strong or Hevy')
+  })
+})
+
+describe('resolveImportWorkouts', () => {
+  const parsed = parseImportFile(STRONG_CSV, 'kg')
+  const match = (source_name: string, exercise_id: string | null, status: ExerciseMatch['status']) =>
+    ({ source_name, exercise_id, exercise_name: null, score: 1, status, suggestion: null })
+
+  it('drops already-logged workouts and skipped exercises', () => {
+    const { workouts, preview } = resolveImportWorkouts(
+      parsed,
+      [
+        match('Bench Press (Barbell)', 'bench', 'auto'),
+        match('Triceps Dip', null, 'skipped'),
+        match('Squat (Barbell)', 'squat', 'manual'),
+      ],
+      [new Date(2024, 0, 8, 18, 0, 20).toISOString()]
+    )
+
+    expect(workouts).toHaveLength(1)
+    expect(workouts[0].exercises.map(e => e.exercise_id)).toEqual(['bench'])
+    expect(preview).toMatchObject({
+      workout_count: 1,
+      duplicate_count: 1,
+      exercise_count: 1,
+      set_count: 3,
+      skipped_set_count: 1,
+    })
+    expect(preview.duplicates[0].name).toBe('Legs')
+  })
+})
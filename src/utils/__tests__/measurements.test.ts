@@ -0,0 +1,85 @@
+import {
+  buildMeasurementTrend,
+  getLatestBodyweightKg,
+  getMeasurementUnitLabel,
+  toDisplayMeasurement,
+  toStorageMeasurement,
+} from '../measurements'
+import { BodyMeasurement } from '../../types/measurements'
+
+function entry(measured_at: string, values: Partial<BodyMeasurement>): BodyMeasurement {
+  return {
+    id: measured_at,
+    user_id: 'user-1',
+    measured_at,
+    bodyweight_kg: null,
+    body_fat_pct: null,
+    waist_cm: null,
+    chest_cm: null,
+    arm_cm: null,
+    thigh_cm: null,
+    notes: null,
+    created_at: measured_at,
+    ...values,
+  }
+}
+
+describe('buildMeasurementTrend', () => {
+  it('sorts oldest first and skips entries without the field', () => {
+    const trend = buildMeasurementTrend(
+      [
+        entry('2024-03-03T08:00:00Z', { bodyweight_kg: 81 }),
+        entry('2024-03-02T08:00:00Z', { waist_cm: 85 }),
+        entry('2024-03-01T08:00:00Z', { bodyweight_kg: 80 }),
+      ],
+      'bodyweight_kg'
+    )
+    expect(trend.map(p => p.value)).toEqual([80, 81])
+  })
+
+  it('averages only the entries inside the trailing window', () => {
+    const trend = buildMeasurementTrend(
+      [
+        entry('2024-03-01T08:00:00Z', { bodyweight_kg: 80 }),
+        entry('2024-03-04T08:00:00Z', { bodyweight_kg: 81 }),
+        entry('2024-03-07T08:00:00Z', { bodyweight_kg: 82 }),
+        entry('2024-03-10T08:00:00Z', { bodyweight_kg: 84 }),
+      ],
+      'bodyweight_kg'
+    )
+    expect(trend.map(p => p.average)).toEqual([80, 80.5, 81, 82.33])
+  })
+})
+
+describe('getLatestBodyweightKg', () => {
+  it('picks the most recent weigh-in regardless of order', () => {
+    expect(
+      getLatestBodyweightKg([
+        entry('2024-03-01T08:00:00Z', { bodyweight_kg: 80 }),
+        entry('2024-03-05T08:00:00Z', { bodyweight_kg: 79 }),
+        entry('2024-03-06T08:00:00Z', { waist_cm: 84 }),
+      ])
+    ).toBe(79)
+  })
+
+  it('returns null when no bodyweight was logged', () => {
+    expect(getLatestBodyweightKg([entry('2024-03-06T08:00:00Z', { waist_cm: 84 })])).toBeNull()
+  })
+})
+
+describe('measurement units', () => {
+  it('labels each kind in the preferred system', () => {
+    expect(getMeasurementUnitLabel('bodyweight_kg', 'lbs')).toBe('lbs')
+    expect(getMeasurementUnitLabel('waist_cm', 'lbs')).toBe('in')
+    expect(getMeasurementUnitLabel('waist_cm', 'kg')).toBe('cm')
+    expect(getMeasurementUnitLabel('body_fat_pct', 'lbs')).toBe('%')
+  })
+
+  it('converts to and from storage units', () => {
+    expect(toStorageMeasurement(176.4, 'bodyweight_kg', 'lbs')).toBe(80.01)
+    expect(toDisplayMeasurement(80, 'bodyweight_kg', 'lbs')).toBe(176.4)
+    expect(toStorageMeasurement(32, 'waist_cm', 'lbs')).toBe(81.28)
+    expect(toDisplayMeasurement(15.25, 'body_fat_pct', 'kg')).toBe(15.3)
+    expect(toStorageMeasurement(15.25, 'body_fat_pct', 'lbs')).toBe(15.25)
+  })
+})
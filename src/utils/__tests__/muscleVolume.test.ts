@@ -0,0 +1,92 @@
+import {
+  creditMuscleVolume,
+  formatSetCount,
+  summarizeMuscleExercises,
+  totalByMuscle,
+  NamedVolumeSetInput,
+  VolumeSetInput,
+} from '../muscleVolume'
+
+const bench = {
+  primary_muscle_group: 'chest',
+  secondary_muscle_groups: ['triceps', 'front_delt'],
+  is_compound: true,
+  equipment: 'barbell',
+}
+
+const makeSet = (overrides: Partial<VolumeSetInput> = {}): VolumeSetInput => ({
+  weight_kg: 100,
+  reps: 5,
+  exercise: bench,
+  ...overrides,
+})
+
+describe('creditMuscleVolume', () => {
+  it('gives the primary a full set and each secondary the fraction', () => {
+    expect(creditMuscleVolume([makeSet()], 0.5)).toEqual([
+      { muscle_group: 'chest', is_compound: true, total_sets: 1, total_volume_kg: 500 },
+      { muscle_group: 'triceps', is_compound: true, total_sets: 0.5, total_volume_kg: 250 },
+      { muscle_group: 'front_delt', is_compound: true, total_sets: 0.5, total_volume_kg: 250 },
+    ])
+  })
+
+  it('credits only the primary with a zero fraction', () => {
+    const credited = creditMuscleVolume([makeSet()], 0)
+    expect(credited.map(c => c.muscle_group)).toEqual(['chest'])
+  })
+
+  it('ignores duplicates and a secondary that repeats the primary', () => {
+    const exercise = { ...bench, secondary_muscle_groups: ['chest', 'triceps', 'triceps'] }
+    const credited = creditMuscleVolume([makeSet({ exercise })], 0.5)
+    expect(credited.map(c => c.muscle_group)).toEqual(['chest', 'triceps'])
+  })
+
+  it('uses bodyweight for unloaded bodyweight sets', () => {
+    const dip = { primary_muscle_group: 'triceps', secondary_muscle_groups: null, is_compound: true, equipment: 'bodyweight' }
+    const credited = creditMuscleVolume([makeSet({ weight_kg: null, reps: 10, exercise: dip })], 0.5, 80)
+    expect(credited).toEqual([{ muscle_group: 'triceps', is_compound: true, total_sets: 1, total_volume_kg: 800 }])
+  })
+})
+
+describe('formatSetCount', () => {
+  it('drops the decimal for whole counts', () => {
+    expect(formatSetCount(6)).toBe('6')
+    expect(formatSetCount(4.5)).toBe('4.5')
+    expect(formatSetCount(0.25 * 3)).toBe('0.8')
+  })
+})
+
+describe('totalByMuscle', () => {
+  it('sums every contribution to a muscle', () => {
+    const credited = creditMuscleVolume([makeSet(), makeSet({ reps: 10 })], 0.5)
+    expect(totalByMuscle(credited, 'total_sets')).toEqual({ chest: 2, triceps: 1, front_delt: 1 })
+    expect(totalByMuscle(credited, 'total_volume_kg').chest).toBe(1500)
+  })
+})
+
+describe('summarizeMuscleExercises', () => {
+  const named = (id: string, name: string, exercise: VolumeSetInput['exercise'], reps = 5): NamedVolumeSetInput => ({
+    weight_kg: 100,
+    reps,
+    exercise: { ...exercise, id, name },
+  })
+  const pushdown = { primary_muscle_group: 'triceps', secondary_muscle_groups: null, is_compound: false, equipment: 'cable' }
+
+  it('lists each exercise once with its role, biggest contributor first', () => {
+    const sets = [
+      named('ex-bench', 'Bench Press', bench),
+      named('ex-bench', 'Bench Press', bench),
+      named('ex-push', 'Pushdown', pushdown, 12),
+      named('ex-push', 'Pushdown', pushdown, 12),
+    ]
+    expect(summarizeMuscleExercises(sets, 'triceps', 0.5)).toEqual([
+      { exercise_id: 'ex-push', exercise_name: 'Pushdown', role: 'primary', sets: 2, volume_kg: 2400 },
+      { exercise_id: 'ex-bench', exercise_name: 'Bench Press', role: 'secondary', sets: 1, volume_kg: 500 },
+    ])
+  })
+
+  it('leaves out secondary work with a zero fraction', () => {
+    const sets = [named('ex-bench', 'Bench Press', bench)]
+    expect(summarizeMuscleExercises(sets, 'triceps', 0)).toEqual([])
+  })
+})
@@ -0,0 +1,69 @@
+import {
+  estimateOneRepMax,
+  estimateRepMax,
+  getE1RMFactor,
+  isLowConfidenceE1RM,
+  LOW_CONFIDENCE_REPS,
+} from '../oneRepMax'
+
+describe('estimateOneRepMax', () => {
+  it('returns the load for a single with every formula', () => {
+    expect(estimateOneRepMax(100, 1, 'epley')).toBe(100)
+    expect(estimateOneRepMax(100, 1, 'brzycki')).toBe(100)
+    expect(estimateOneRepMax(100, 1, 'lombardi')).toBe(100)
+    expect(estimateOneRepMax(100, 1, 'rpe', 10)).toBe(100)
+  })
+
+  it('defaults to Epley', () => {
+    expect(estimateOneRepMax(100, 5)).toBeCloseTo(116.65)
+  })
+
+  it('applies Brzycki and Lombardi', () => {
+    expect(estimateOneRepMax(100, 5, 'brzycki')).toBeCloseTo(112.5)
+    expect(estimateOneRepMax(100, 5, 'lombardi')).toBeCloseTo(117.46, 2)
+  })
+
+  it('holds Brzycki finite at very high reps', () => {
+    expect(Number.isFinite(estimateOneRepMax(20, 40, 'brzycki'))).toBe(true)
+  })
+
+  describe('RPE chart', () => {
+    it('reads sets to failure straight off the chart', () => {
+      expect(estimateOneRepMax(100, 5, 'rpe', 10)).toBeCloseTo(100 / 0.863)
+    })
+
+    it('adds reps in reserve for lower RPEs', () => {
+      // 5 @ RPE 8 reads the 7-rep column
+      expect(estimateOneRepMax(100, 5, 'rpe', 8)).toBeCloseTo(100 / 0.811)
+    })
+
+    it('interpolates half RPE steps', () => {
+      expect(estimateOneRepMax(100, 5, 'rpe', 8.5)).toBeCloseTo(100 / 0.824)
+    })
+
+    it('treats a set without RPE as RPE 10', () => {
+      expect(estimateOneRepMax(100, 3, 'rpe', null)).toBe(estimateOneRepMax(100, 3, 'rpe', 10))
+    })
+
+    it('follows Epley past the end of the chart', () => {
+      expect(getE1RMFactor(15, 'rpe', 10)).toBeCloseTo(getE1RMFactor(15, 'epley'))
+    })
+  })
+})
+
+describe('estimateRepMax', () => {
+  it('inverts each formula', () => {
+    const formulas = ['epley', 'brzycki', 'lombardi', 'rpe'] as const
+    formulas.forEach(formula => {
+      const oneRm = estimateOneRepMax(80, 8, formula)
+      expect(estimateRepMax(oneRm, 8, formula)).toBeCloseTo(80)
+    })
+  })
+})
+
+describe('isLowConfidenceE1RM', () => {
+  it('flags sets above the rep threshold', () => {
+    expect(isLowConfidenceE1RM(LOW_CONFIDENCE_REPS)).toBe(false)
+    expect(isLowConfidenceE1RM(LOW_CONFIDENCE_REPS + 1)).toBe(true)
+  })
+})
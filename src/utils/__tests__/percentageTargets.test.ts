@@ -0,0 +1,105 @@
+import {
+  resolveLoadBases,
+  expandSetPercentages,
+  roundToLoadable,
+  resolvePercentageTargets,
+  describePercentages,
+} from '../percentageTargets'
+import { DEFAULT_PLATE_SETTINGS } from '../plateCalculator'
+
+const KG_PLATES = DEFAULT_PLATE_SETTINGS.kg
+
+describe('resolveLoadBases', () => {
+  it('prefers stored values', () => {
+    expect(resolveLoadBases({ one_rep_max_kg: 150, training_max_kg: 130 }, 160)).toEqual({
+      one_rep_max_kg: 150,
+      training_max_kg: 130,
+    })
+  })
+
+  it('falls back to the estimate and 90% of it', () => {
+    expect(resolveLoadBases(null, 150)).toEqual({ one_rep_max_kg: 150, training_max_kg: 135 })
+    expect(resolveLoadBases({ one_rep_max_kg: null, training_max_kg: 120 }, 150)).toEqual({
+      one_rep_max_kg: 150,
+      training_max_kg: 120,
+    })
+  })
+
+  it('has nothing to resolve against without history', () => {
+    expect(resolveLoadBases(undefined, null)).toEqual({ one_rep_max_kg: null, training_max_kg: null })
+  })
+})
+
+describe('expandSetPercentages', () => {
+  it('repeats the last value to fill the sets', () => {
+    expect(expandSetPercentages([65, 75], 4)).toEqual([65, 75, 75, 75])
+  })
+
+  it('drops values past the set count', () => {
+    expect(expandSetPercentages([65, 75, 85], 2)).toEqual([65, 75])
+  })
+
+  it('is empty without percentages', () => {
+    expect(expandSetPercentages([], 3)).toEqual([])
+  })
+})
+
+describe('roundToLoadable', () => {
+  it('rounds barbell loads to the plate inventory', () => {
+    const setup = { exerciseId: 'ex-1', equipment: 'barbell' as const, unit: 'kg' as const, plateSettings: KG_PLATES }
+    expect(roundToLoadable(101.3, setup)).toBe(102.5)
+    expect(roundToLoadable(100.6, setup)).toBe(100)
+  })
+
+  it('adds the machine starting resistance before plates', () => {
+    const plateSettings = { ...KG_PLATES, machineStartWeights: { 'ex-2': 11 } }
+    const setup = { exerciseId: 'ex-2', equipment: 'machine' as const, unit: 'kg' as const, plateSettings }
+    expect(roundToLoadable(62, setup)).toBe(61)
+  })
+
+  it('rounds other equipment to the unit step', () => {
+    expect(
+      roundToLoadable(23.4, { exerciseId: 'ex-3', equipment: 'dumbbell', unit: 'kg', plateSettings: KG_PLATES })
+    ).toBe(22.5)
+    expect(
+      roundToLoadable(23.4, { exerciseId: 'ex-3', equipment: 'dumbbell', unit: 'lbs', plateSettings: KG_PLATES })
+    ).toBe(22.68)
+  })
+})
+
+describe('resolvePercentageTargets', () => {
+  const base = {
+    targetSets: 3,
+    bases: { one_rep_max_kg: 150, training_max_kg: 135 },
+    exerciseId: 'ex-1',
+    equipment: 'barbell' as const,
+    unit: 'kg' as const,
+    plateSettings: KG_PLATES,
+  }
+
+  it('resolves each working set against the chosen basis', () => {
+    const targets = resolvePercentageTargets({ ...base, loadBasis: 'training_max', setPercentages: [65, 80, 85] })
+    expect(targets).toEqual({
+      basis: 'training_max',
+      basisKg: 135,
+      percentages: [65, 80, 85],
+      // 87.75, 108, 114.75 → nearest loadable 2.5kg steps
+      weightsKg: [87.5, 107.5, 115],
+    })
+  })
+
+  it('returns null without a scheme or a basis value', () => {
+    expect(resolvePercentageTargets({ ...base, loadBasis: null, setPercentages: [75] })).toBeNull()
+    expect(resolvePercentageTargets({ ...base, loadBasis: 'one_rep_max', setPercentages: [] })).toBeNull()
+    expect(
+      resolvePercentageTargets({ ...base, bases: undefined, loadBasis: 'one_rep_max', setPercentages: [75] })
+    ).toBeNull()
+  })
+})
+
+describe('describePercentages', () => {
+  it('shows a single value or a range', () => {
+    expect(describePercentages([75, 75, 75], 'training_max')).toBe('75% TM')
+    expect(describePercentages([65, 80, 85], 'one_rep_max')).toBe('65–85% 1RM')
+  })
+})
@@ -0,0 +1,170 @@
+import {
+  buildExerciseBests,
+  detectSetPRs,
+  applySetToBests,
+  EMPTY_BESTS,
+  replayPersonalRecords,
+  countPersonalRecords,
+} from '../personalRecords'
+
+// Two past sessions: 3×5 @ 100 and 3×8 @ 80
+const history = [
+  { workout_id: 'w-1', weight_kg: 100, reps: 5 },
+  { workout_id: 'w-1', weight_kg: 100, reps: 5 },
+  { workout_id: 'w-1', weight_kg: 100, reps: 5 },
+  { workout_id: 'w-2', weight_kg: 80, reps: 8 },
+  { workout_id: 'w-2', weight_kg: 80, reps: 8 },
+  { workout_id: 'w-2', weight_kg: 80, reps: 8 },
+]
+
+describe('buildExerciseBests', () => {
+  it('takes the heaviest weight, best e1RM, reps per weight and best session', () => {
+    const bests = buildExerciseBests(history)
+    expect(bests.weightKg).toBe(100)
+    expect(bests.e1rm).toBe(116.7)
+    expect(bests.repsByWeight).toEqual({ '100': 5, '80': 8 })
+    expect(bests.sessionVolumeKg).toBe(1920)
+  })
+
+  it('ignores sets without weight or reps', () => {
+    const bests = buildExerciseBests([{ workout_id: 'w-1', weight_kg: null, reps: 10 }])
+    expect(bests).toEqual(EMPTY_BESTS)
+  })
+
+  it('counts manual records with no set history', () => {
+    const bests = buildExerciseBests([], [
+      { pr_type: 'weight', weight_kg: 120, reps: 1, volume: 120 },
+      { pr_type: 'volume', weight_kg: 0, reps: 0, volume: 3000 },
+    ])
+    expect(bests.weightKg).toBe(120)
+    expect(bests.e1rm).toBe(120)
+    expect(bests.sessionVolumeKg).toBe(3000)
+  })
+})
+
+describe('detectSetPRs', () => {
+  const bests = buildExerciseBests(history)
+
+  it('flags a heavier single as weight and e1RM', () => {
+    expect(detectSetPRs(bests, { weight_kg: 120, reps: 1 }, 120)).toEqual(['weight', 'e1rm'])
+  })
+
+  it('flags more reps at a weight lifted before', () => {
+    expect(detectSetPRs(bests, { weight_kg: 80, reps: 9 }, 720)).toEqual(['reps'])
+  })
+
+  it('does not count reps at a weight never lifted', () => {
+    expect(detectSetPRs(bests, { weight_kg: 90, reps: 3 }, 270)).toEqual([])
+  })
+
+  it('flags session volume once the running total passes the best', () => {
+    expect(detectSetPRs(bests, { weight_kg: 80, reps: 8 }, 1950)).toEqual(['volume'])
+  })
+
+  it('ignores empty sets', () => {
+    expect(detectSetPRs(EMPTY_BESTS, { weight_kg: 0, reps: 10 }, 0)).toEqual([])
+  })
+
+  it('judges e1RM with the chosen formula', () => {
+    const set = { weight_kg: 95, reps: 7 }
+    // Epley: 117.2 beats 116.7. Lombardi: 115.4 falls short of 117.5
+    expect(detectSetPRs(bests, set, 665)).toEqual(['e1rm'])
+    expect(detectSetPRs(buildExerciseBests(history, [], 'lombardi'), set, 665, 'lombardi')).toEqual([])
+  })
+})
+
+describe('applySetToBests', () => {
+  it('raises the bests so a repeat of the same set is not a second PR', () => {
+    const bests = buildExerciseBests(history)
+    const next = applySetToBests(bests, { weight_kg: 105, reps: 3 })
+    expect(next.weightKg).toBe(105)
+    expect(next.repsByWeight['105']).toBe(3)
+    expect(next.sessionVolumeKg).toBe(bests.sessionVolumeKg)
+    expect(detectSetPRs(next, { weight_kg: 105, reps: 3 }, 315)).toEqual([])
+  })
+})
+
+describe('replayPersonalRecords', () => {
+  const session = (id: string, date: string, sets: [number, number][]) => ({
+    workout_id: id,
+    started_at: `${date}T10:00:00.000Z`,
+    sets: sets.map(([weight_kg, reps], i) => ({
+      id: `${id}-s${i + 1}`,
+      weight_kg,
+      reps,
+      completed_at: `${date}T10:0${i}:00.000Z`,
+    })),
+  })
+
+  it('replays sessions in date order whatever order they arrive in', () => {
+    const records = replayPersonalRecords([
+      session('w-2', '2024-01-08', [[105, 5]]),
+      session('w-1', '2024-01-01', [[100, 5], [100, 6]]),
+    ])
+
+    expect(records.map(r => `${r.workout_id}:${r.pr_type}`)).toEqual([
+      'w-1:weight',
+      'w-1:e1rm',
+      'w-1:e1rm',
+      'w-1:reps',
+      'w-1:volume',
+      'w-2:weight',
+      'w-2:e1rm',
+    ])
+  })
+
+  it('writes one volume record per session with the final total', () => {
+    const records = replayPersonalRecords([
+      session('w-1', '2024-01-01', [[100, 5]]),
+      session('w-2', '2024-01-08', [[90, 5], [90, 5]]),
+    ])
+
+    const volume = records.filter(r => r.pr_type === 'volume')
+    expect(volume).toHaveLength(2)
+    expect(volume[1]).toMatchObject({
+      workout_id: 'w-2',
+      volume: 900,
+      workout_set_id: null,
+      achieved_at: '2024-01-08T10:01:00.000Z',
+    })
+  })
+
+  it('counts manual records from their date without re-emitting them', () => {
+    const manual = [
+      { pr_type: 'weight' as const, weight_kg: 120, reps: 1, volume: 120, achieved_at: '2023-12-01T00:00:00.000Z' },
+    ]
+    const records = replayPersonalRecords([session('w-1', '2024-01-01', [[110, 1]])], manual)
+
+    expect(records.map(r => r.pr_type)).toEqual(['volume'])
+  })
+
+  it('ignores sets without load or reps', () => {
+    expect(replayPersonalRecords([session('w-1', '2024-01-01', [[0, 10]])])).toEqual([])
+  })
+})
+
+describe('countPersonalRecords', () => {
+  it('counts a set that beat several categories once', () => {
+    expect(countPersonalRecords([
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: 's-2', workout_id: 'w-1', exercise_id: 'ex-1' },
+    ])).toBe(2)
+  })
+
+  it('counts a session-volume record only when no set in it was a record', () => {
+    expect(countPersonalRecords([
+      { workout_set_id: 's-1', workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: null, workout_id: 'w-1', exercise_id: 'ex-1' },
+      { workout_set_id: null, workout_id: 'w-2', exercise_id: 'ex-1' },
+    ])).toBe(2)
+  })
+
+  it('counts each manual record', () => {
+    expect(countPersonalRecords([
+      { workout_set_id: null, workout_id: null, exercise_id: 'ex-1' },
+      { workout_set_id: null, workout_id: null, exercise_id: 'ex-1' },
+    ])).toBe(2)
+  })
+})
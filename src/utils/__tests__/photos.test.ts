@@ -0,0 +1,52 @@
+import { getDefaultComparison, getPhotoStoragePaths, groupPhotosByDay } from '../photos'
+import { GalleryPhoto } from '../../types/photos'
+
+function photo(id: string, taken_on: string, pending = false): GalleryPhoto {
+  return {
+    id,
+    taken_on,
+    workout_id: null,
+    notes: null,
+    url: `file:///${id}.jpg`,
+    thumbnail_url: `file:///${id}_thumb.jpg`,
+    pending,
+    storage_path: pending ? null : `user-1/${id}.jpg`,
+    thumbnail_path: pending ? null : `user-1/${id}_thumb.jpg`,
+  }
+}
+
+describe('getPhotoStoragePaths', () => {
+  it('keys both files under the owner folder', () => {
+    expect(getPhotoStoragePaths('user-1', 'p-1')).toEqual({
+      storage_path: 'user-1/p-1.jpg',
+      thumbnail_path: 'user-1/p-1_thumb.jpg',
+    })
+  })
+})
+
+describe('groupPhotosByDay', () => {
+  it('groups newest day first with queued photos leading', () => {
+    const days = groupPhotosByDay([
+      photo('a', '2026-03-01'),
+      photo('b', '2026-04-01'),
+      photo('c', '2026-04-01', true),
+    ])
+    expect(days.map(d => d.taken_on)).toEqual(['2026-04-01', '2026-03-01'])
+    expect(days[0].photos.map(p => p.id)).toEqual(['c', 'b'])
+  })
+})
+
+describe('getDefaultComparison', () => {
+  it('pairs the oldest day with the newest', () => {
+    const days = groupPhotosByDay([
+      photo('a', '2026-03-01'),
+      photo('b', '2026-04-01'),
+      photo('c', '2026-02-01'),
+    ])
+    expect(getDefaultComparison(days)).toEqual(['2026-02-01', '2026-04-01'])
+  })
+
+  it('needs at least two days', () => {
+    expect(getDefaultComparison(groupPhotosByDay([photo('a', '2026-03-01')]))).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+import {
+  calculatePlates,
+  getLoadableSides,
+  getBaseWeight,
+  DEFAULT_PLATE_SETTINGS,
+} from '../plateCalculator'
+
+const kg = DEFAULT_PLATE_SETTINGS.kg
+const lbs = DEFAULT_PLATE_SETTINGS.lbs
+const kgBar = { unit: 'kg' as const, baseWeight: 20, plates: kg.plates }
+
+describe('getLoadableSides', () => {
+  it('lists every per-side total the inventory can make', () => {
+    const sides = getLoadableSides([
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+    ])
+    expect(sides.get(1000)).toEqual([10])
+    expect(sides.get(1500)).toEqual([10, 5])
+    expect(sides.get(3000)).toEqual([10, 10, 5, 5])
+    expect(sides.size).toBe(7)
+    expect(sides.has(3500)).toBe(false)
+  })
+})
+
+describe('calculatePlates', () => {
+  it('breaks an exact load down per side, heaviest first', () => {
+    const load = calculatePlates(102.5, kgBar)
+    expect(load.exact).toBe(true)
+    expect(load.perSide).toEqual([25, 15, 1.25])
+    expect(load.loadedKg).toBe(102.5)
+    expect(load.nearestBelowKg).toBeNull()
+  })
+
+  it('offers the nearest loadable weights when the target is not exact', () => {
+    const load = calculatePlates(101, kgBar)
+    expect(load.exact).toBe(false)
+    expect(load.nearestBelowKg).toBe(100)
+    expect(load.nearestAboveKg).toBe(102.5)
+    expect(load.loadedKg).toBe(100)
+  })
+
+  it('respects the plate inventory', () => {
+    const load = calculatePlates(60, { unit: 'kg', baseWeight: 20, plates: [{ weight: 25, pairs: 1 }] })
+    expect(load.exact).toBe(false)
+    expect(load.nearestBelowKg).toBe(20)
+    expect(load.nearestAboveKg).toBe(70)
+  })
+
+  it('loads lbs plates for a kg target', () => {
+    // 100 kg = 220.5 lbs: 220 or 225 on a 45 lb bar
+    const load = calculatePlates(100, { unit: 'lbs', baseWeight: 45, plates: lbs.plates })
+    expect(load.exact).toBe(false)
+    expect(load.nearestBelowKg).toBe(99.79)
+    expect(load.nearestAboveKg).toBe(102.06)
+
+    const exact = calculatePlates(102.06, { unit: 'lbs', baseWeight: 45, plates: lbs.plates })
+    expect(exact.perSide).toEqual([45, 45])
+    expect(exact.loadedWeight).toBe(225)
+  })
+
+  it('falls back to the empty bar below the bar weight', () => {
+    const load = calculatePlates(15, kgBar)
+    expect(load.exact).toBe(false)
+    expect(load.perSide).toEqual([])
+    expect(load.nearestBelowKg).toBeNull()
+    expect(load.nearestAboveKg).toBe(20)
+  })
+})
+
+describe('getBaseWeight', () => {
+  it('uses the bar for barbells and the starting resistance for machines', () => {
+    const settings = { ...kg, machineStartWeights: { 'ex-leg-press': 40 } }
+    expect(getBaseWeight(settings, 'ex-squat', 'barbell')).toBe(20)
+    expect(getBaseWeight(settings, 'ex-leg-press', 'machine')).toBe(40)
+    expect(getBaseWeight(settings, 'ex-hack', 'machine')).toBe(0)
+  })
+})
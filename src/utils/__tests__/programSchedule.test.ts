@@ -0,0 +1,89 @@
+import {
+  sortProgramDays,
+  calendarDaysBetween,
+  resolveCurrentDayIndex,
+  nextDayIndex,
+  isProgramFinished,
+} from '../programSchedule'
+
+// One PPL week: Push, Pull, Legs, Rest, Push, Pull, Legs
+const T = 'tpl'
+const week = [T, T, T, null, T, T, T].map(template_id => ({ template_id }))
+
+describe('sortProgramDays', () => {
+  it('orders by week then day', () => {
+    const sorted = sortProgramDays([
+      { week_number: 2, day_number: 1 },
+      { week_number: 1, day_number: 3 },
+      { week_number: 1, day_number: 1 },
+    ])
+    expect(sorted).toEqual([
+      { week_number: 1, day_number: 1 },
+      { week_number: 1, day_number: 3 },
+      { week_number: 2, day_number: 1 },
+    ])
+  })
+})
+
+describe('calendarDaysBetween', () => {
+  it('counts calendar days, not 24h periods', () => {
+    const lateNight = new Date(2026, 3, 13, 23, 30)
+    const nextMorning = new Date(2026, 3, 14, 7, 0)
+    expect(calendarDaysBetween(lateNight, nextMorning)).toBe(1)
+  })
+
+  it('is 0 for the same day and never negative', () => {
+    const a = new Date(2026, 3, 13, 8, 0)
+    expect(calendarDaysBetween(a, new Date(2026, 3, 13, 20, 0))).toBe(0)
+    expect(calendarDaysBetween(a, new Date(2026, 3, 10))).toBe(0)
+  })
+})
+
+describe('resolveCurrentDayIndex', () => {
+  const monday = new Date(2026, 3, 13, 18, 0).toISOString()
+
+  it('stays on a training day however long ago it was scheduled', () => {
+    expect(resolveCurrentDayIndex(week, 1, monday, new Date(2026, 3, 20))).toBe(1)
+  })
+
+  it('shows a rest day on the day it is reached', () => {
+    expect(resolveCurrentDayIndex(week, 3, monday, new Date(2026, 3, 13, 21, 0))).toBe(3)
+  })
+
+  it('moves past a rest day once a calendar day has passed', () => {
+    expect(resolveCurrentDayIndex(week, 3, monday, new Date(2026, 3, 14, 9, 0))).toBe(4)
+  })
+
+  it('uses one elapsed day per consecutive rest day', () => {
+    const deload = [T, null, null, T].map(template_id => ({ template_id }))
+    expect(resolveCurrentDayIndex(deload, 1, monday, new Date(2026, 3, 14))).toBe(2)
+    expect(resolveCurrentDayIndex(deload, 1, monday, new Date(2026, 3, 15))).toBe(3)
+  })
+
+  it('runs off the end when the program closes on rest days', () => {
+    const tail = [T, null].map(template_id => ({ template_id }))
+    expect(resolveCurrentDayIndex(tail, 1, monday, new Date(2026, 3, 15))).toBe(2)
+  })
+})
+
+describe('nextDayIndex', () => {
+  it('moves to the slot after the completed one', () => {
+    expect(nextDayIndex(2, 2)).toBe(3)
+  })
+
+  it('never moves backwards when an earlier session is repeated', () => {
+    expect(nextDayIndex(5, 1)).toBe(5)
+  })
+})
+
+describe('isProgramFinished', () => {
+  it('is false while a training day remains', () => {
+    expect(isProgramFinished(week, 4)).toBe(false)
+  })
+
+  it('is true when only rest days or nothing remain', () => {
+    const tail = [T, null, null].map(template_id => ({ template_id }))
+    expect(isProgramFinished(tail, 1)).toBe(true)
+    expect(isProgramFinished(week, week.length)).toBe(true)
+  })
+})
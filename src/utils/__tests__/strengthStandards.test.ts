@@ -0,0 +1,96 @@
+import {
+  calcWilks,
+  calcDots,
+  calcIpfGl,
+  getLiftThresholds,
+  classifyLift,
+  calcRelativeStrength,
+} from '../strengthStandards'
+
+describe('scoring formulas', () => {
+  it('scores a 700kg total at 100kg bodyweight (men)', () => {
+    expect(calcDots(700, 100, 'male')).toBeCloseTo(430.86, 1)
+    expect(calcWilks(700, 100, 'male')).toBeCloseTo(426.01, 1)
+    expect(calcIpfGl(700, 100, 'male')).toBeCloseTo(88.43, 1)
+  })
+
+  it('scores a 400kg total at 60kg bodyweight (women)', () => {
+    expect(calcDots(400, 60, 'female')).toBeCloseTo(443.42, 1)
+    expect(calcWilks(400, 60, 'female')).toBeCloseTo(445.95, 1)
+    expect(calcIpfGl(400, 60, 'female')).toBeCloseTo(90.42, 1)
+  })
+
+  it('clamps bodyweight to the formula range', () => {
+    expect(calcDots(700, 250, 'male')).toBe(calcDots(700, 210, 'male'))
+    expect(calcWilks(300, 20, 'female')).toBe(calcWilks(300, 26.51, 'female'))
+  })
+})
+
+describe('getLiftThresholds', () => {
+  it('returns the table row at a listed bodyweight', () => {
+    expect(getLiftThresholds('squat', 80, 'male')).toEqual([0, 95, 127, 164, 204])
+  })
+
+  it('interpolates between rows', () => {
+    expect(getLiftThresholds('bench', 85, 'male')).toEqual([0, 77.5, 103.5, 133.5, 165])
+  })
+
+  it('uses the nearest row outside the table', () => {
+    expect(getLiftThresholds('deadlift', 40, 'female')).toEqual([0, 50, 72, 99, 128])
+    expect(getLiftThresholds('deadlift', 160, 'male')).toEqual([0, 178, 225, 276, 329])
+  })
+})
+
+describe('classifyLift', () => {
+  it('places a lift in its tier with the distance to the next', () => {
+    const standing = classifyLift('squat', 140, 80, 'male')
+    expect(standing.level).toBe('intermediate')
+    expect(standing.bodyweight_multiple).toBe(1.75)
+    expect(standing.next).toEqual({
+      level: 'advanced',
+      target_kg: 164,
+      remaining_kg: 24,
+      progress: (140 - 127) / (164 - 127),
+    })
+  })
+
+  it('calls anything under novice beginner', () => {
+    const standing = classifyLift('bench', 40, 80, 'male')
+    expect(standing.level).toBe('beginner')
+    expect(standing.next?.level).toBe('novice')
+    expect(standing.next?.progress).toBeCloseTo(40 / 73)
+  })
+
+  it('has no next tier at elite', () => {
+    const standing = classifyLift('deadlift', 300, 80, 'male')
+    expect(standing.level).toBe('elite')
+    expect(standing.next).toBeNull()
+  })
+})
+
+describe('calcRelativeStrength', () => {
+  it('totals and scores all three lifts', () => {
+    const result = calcRelativeStrength(
+      {
+        squat: { one_rep_max_kg: 250, estimated: false },
+        bench: { one_rep_max_kg: 170, estimated: true },
+        deadlift: { one_rep_max_kg: 280, estimated: false },
+      },
+      100,
+      'male'
+    )
+    expect(result.total_kg).toBe(700)
+    expect(result.total_is_estimated).toBe(true)
+    expect(result.dots).toBeCloseTo(430.86, 1)
+    expect(result.lifts.map(l => l.lift)).toEqual(['squat', 'bench', 'deadlift'])
+  })
+
+  it('skips the total and scores when a lift is missing', () => {
+    const result = calcRelativeStrength({ squat: { one_rep_max_kg: 100, estimated: false } }, 70, 'female')
+    expect(result.total_kg).toBeNull()
+    expect(result.wilks).toBeNull()
+    expect(result.dots).toBeNull()
+    expect(result.ipf_gl).toBeNull()
+    expect(result.lifts).toHaveLength(1)
+  })
+})
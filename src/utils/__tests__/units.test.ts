@@ -0,0 +1,90 @@
+import {
+  KG_PER_LB,
+  toDisplayWeight,
+  toStorageWeight,
+  toDisplayVolume,
+  formatWeight,
+  formatVolume,
+  getWeightIncrement,
+  getLengthUnit,
+  toDisplayLength,
+  toStorageLength,
+} from '../units'
+
+describe('toDisplayWeight', () => {
+  it('returns kg unchanged (to 2dp)', () => {
+    expect(toDisplayWeight(100, 'kg')).toBe(100)
+    expect(toDisplayWeight(102.5, 'kg')).toBe(102.5)
+  })
+
+  it('converts kg to lbs rounded to 0.1', () => {
+    expect(toDisplayWeight(100, 'lbs')).toBe(220.5)
+    expect(toDisplayWeight(20, 'lbs')).toBe(44.1)
+  })
+})
+
+describe('toStorageWeight', () => {
+  it('passes kg through', () => {
+    expect(toStorageWeight(102.5, 'kg')).toBe(102.5)
+  })
+
+  it('converts lbs to kg rounded to 0.01', () => {
+    expect(toStorageWeight(225, 'lbs')).toBe(102.06)
+    expect(toStorageWeight(1, 'lbs')).toBe(Math.round(KG_PER_LB * 100) / 100)
+  })
+})
+
+describe('lbs round trip', () => {
+  it.each([45, 135, 225, 315, 405, 137.5, 2.5, 999.9])('%p lb survives storage', lbs => {
+    expect(toDisplayWeight(toStorageWeight(lbs, 'lbs'), 'lbs')).toBe(lbs)
+  })
+})
+
+describe('toDisplayVolume', () => {
+  it('rounds to whole units', () => {
+    expect(toDisplayVolume(1500.4, 'kg')).toBe(1500)
+    expect(toDisplayVolume(1000, 'lbs')).toBe(2205)
+  })
+})
+
+describe('formatWeight', () => {
+  it('appends the unit', () => {
+    expect(formatWeight(100, 'kg')).toBe('100kg')
+    expect(formatWeight(102.06, 'lbs')).toBe('225lbs')
+  })
+})
+
+describe('formatVolume', () => {
+  it('abbreviates thousands', () => {
+    expect(formatVolume(12345, 'kg')).toBe('12.3k')
+    expect(formatVolume(1000, 'lbs')).toBe('2.2k')
+  })
+
+  it('shows whole numbers below 1000', () => {
+    expect(formatVolume(850, 'kg')).toBe('850')
+  })
+})
+
+describe('getWeightIncrement', () => {
+  it('uses 2.5 kg and 5 lb steps', () => {
+    expect(getWeightIncrement('kg')).toBe(2.5)
+    expect(getWeightIncrement('lbs')).toBe(5)
+  })
+})
+
+describe('lengths', () => {
+  it('pairs inches with lbs and cm with kg', () => {
+    expect(getLengthUnit('lbs')).toBe('in')
+    expect(getLengthUnit('kg')).toBe('cm')
+  })
+
+  it('converts cm to inches rounded to 0.1', () => {
+    expect(toDisplayLength(81.28, 'in')).toBe(32)
+    expect(toDisplayLength(85.25, 'cm')).toBe(85.3)
+  })
+
+  it('stores inches as cm', () => {
+    expect(toStorageLength(32, 'in')).toBe(81.28)
+    expect(toStorageLength(85, 'cm')).toBe(85)
+  })
+})
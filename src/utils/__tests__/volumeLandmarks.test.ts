@@ -0,0 +1,73 @@
+import {
+  DEFAULT_VOLUME_LANDMARKS,
+  classifyVolume,
+  validateLandmarks,
+  buildVolumeReport,
+} from '../volumeLandmarks'
+import { MuscleVolumeData } from '../../types/analytics'
+import { MuscleGroup } from '../../types/workout'
+
+const LANDMARKS = { mev: 8, mav: 16, mrv: 22 }
+
+const makeVolume = (muscle_group: MuscleGroup, total_sets: number): MuscleVolumeData => ({
+  muscle_group,
+  compound_sets: total_sets,
+  isolation_sets: 0,
+  compound_volume_kg: 0,
+  isolation_volume_kg: 0,
+  total_sets,
+  total_volume_kg: 0,
+})
+
+describe('classifyVolume', () => {
+  it('bands sets against the landmarks, inclusive of MEV and MRV', () => {
+    expect(classifyVolume(7, LANDMARKS)).toBe('below_mev')
+    expect(classifyVolume(8, LANDMARKS)).toBe('productive')
+    expect(classifyVolume(16, LANDMARKS)).toBe('productive')
+    expect(classifyVolume(17, LANDMARKS)).toBe('high')
+    expect(classifyVolume(22, LANDMARKS)).toBe('high')
+    expect(classifyVolume(23, LANDMARKS)).toBe('over_mrv')
+  })
+})
+
+describe('validateLandmarks', () => {
+  it('accepts ordered whole numbers', () => {
+    expect(validateLandmarks(LANDMARKS)).toBeNull()
+    expect(validateLandmarks({ mev: 0, mav: 0, mrv: 0 })).toBeNull()
+  })
+
+  it('rejects out-of-order or non-integer values', () => {
+    expect(validateLandmarks({ mev: 10, mav: 8, mrv: 20 })).toMatch(/MEV ≤ MAV ≤ MRV/)
+    expect(validateLandmarks({ mev: 8, mav: 16, mrv: NaN })).toMatch(/whole numbers/)
+    expect(validateLandmarks({ mev: -1, mav: 16, mrv: 20 })).toMatch(/whole numbers/)
+  })
+})
+
+describe('buildVolumeReport', () => {
+  it('flags muscles below MEV, including untrained ones, and above MRV', () => {
+    const report = buildVolumeReport(
+      [makeVolume('chest', 4), makeVolume('biceps', 30), makeVolume('lats', 12)],
+      DEFAULT_VOLUME_LANDMARKS
+    )
+
+    const under = report.under.map(e => e.muscle_group)
+    expect(under).toContain('chest')
+    expect(under).toContain('quadriceps')   // no sets at all
+    expect(under).not.toContain('lats')
+    expect(under).not.toContain('core')     // MEV of zero is never under
+    expect(report.over).toEqual([{ muscle_group: 'biceps', sets: 30, landmarks: DEFAULT_VOLUME_LANDMARKS.biceps }])
+  })
+
+  it('orders the under-trained list by distance from MEV', () => {
+    const report = buildVolumeReport([makeVolume('chest', 7)], {
+      ...DEFAULT_VOLUME_LANDMARKS,
+      chest: { mev: 8, mav: 16, mrv: 22 },
+    })
+    expect(report.under[report.under.length - 1].muscle_group).toBe('chest')
+  })
+
+  it('can count sets another way', () => {
+    const report = buildVolumeReport([makeVolume('chest', 4)], DEFAULT_VOLUME_LANDMARKS, () => 10)
+    expect(report.under.map(e => e.muscle_group)).not.toContain('chest')
+  })
+})
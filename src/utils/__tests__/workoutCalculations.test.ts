@@ -1,9 +1,19 @@
 import {
   calcSetVolume,
   calcWorkoutStats,
+  needsBodyweight,
+  resolveLoadKg,
   calcEstimatedDuration,
   calcEpley1RM,
   calcPctChange,
+  pickProgressionScheme,
+  suggestProgression,
+  ProgressionInput,
+  canGenerateWarmups,
+  generateWarmupSets,
+  calcRepMaxFromE1RM,
+  calcBestE1RM,
+  buildRepMaxTable,
 } from '../workoutCalculations'
 import { TemplateExerciseFormData } from '../../types/workout'
 
@@ -71,6 +81,22 @@ describe('calcWorkoutStats', () => {
     expect(totalSets).toBe(1)
     expect(totalVolumeKg).toBe(0)
   })
+
+  it('counts bodyweight for unloaded bodyweight sets', () => {
+    const exercises = [
+      {
+        exercise: { equipment: 'bodyweight' },
+        sets: [
+          { is_warmup: false, weight_kg: null, reps: 10 },  // 80 × 10
+          { is_warmup: false, weight_kg: 20, reps: 5 },     // logged load wins
+        ],
+      },
+      { exercise: { equipment: 'cable' }, sets: [{ is_warmup: false, weight_kg: null, reps: 12 }] },
+    ]
+    expect(needsBodyweight(exercises)).toBe(true)
+    expect(calcWorkoutStats(exercises, 80).totalVolumeKg).toBe(900)
+    expect(calcWorkoutStats(exercises).totalVolumeKg).toBe(100)
+  })
 })
 
 describe('calcEstimatedDuration', () => {
@@ -85,6 +111,11 @@ describe('calcEstimatedDuration', () => {
         target_reps: 10,
         target_rpe: null,
         rest_seconds: 60, // 1 min rest
+        warmup_enabled: true,
+        load_basis: null,
+        set_percentages: null,
+        group_id: null,
+        group_type: null,
         notes: null,
       },
     ]
@@ -138,3 +169,236 @@ describe('calcPctChange', () => {
     expect(calcPctChange(105, 100)).toBe(5)
   })
 })
+
+describe('suggestProgression', () => {
+  const base: ProgressionInput = {
+    previousSets: [
+      { weight_kg: 100, reps: 8, rpe: null },
+      { weight_kg: 100, reps: 8, rpe: null },
+      { weight_kg: 100, reps: 8, rpe: null },
+    ],
+    targetReps: 8,
+    targetRpe: null,
+    equipment: 'barbell',
+    isCompound: true,
+    unit: 'kg',
+  }
+
+  it('returns null without a previous session', () => {
+    expect(suggestProgression({ ...base, previousSets: [] })).toBeNull()
+  })
+
+  it('picks RPE when a target RPE and logged RPE exist, else by compound/isolation', () => {
+    expect(pickProgressionScheme(base)).toBe('linear')
+    expect(pickProgressionScheme({ ...base, isCompound: false })).toBe('double')
+    expect(pickProgressionScheme({ ...base, targetRpe: 8 })).toBe('linear')
+    expect(pickProgressionScheme({
+      ...base,
+      targetRpe: 8,
+      previousSets: [{ weight_kg: 100, reps: 8, rpe: 7 }],
+    })).toBe('rpe')
+  })
+
+  describe('linear', () => {
+    it('adds the equipment increment after hitting every set', () => {
+      const s = suggestProgression(base)!
+      expect(s.weightKg).toBe(102.5)
+      expect(s.deltaKg).toBe(2.5)
+      expect(s.reps).toBe(8)
+      expect(s.reason).toBe('hit 3×8 last time')
+    })
+
+    it('holds the weight after a miss', () => {
+      const s = suggestProgression({
+        ...base,
+        previousSets: [
+          { weight_kg: 100, reps: 8 },
+          { weight_kg: 100, reps: 8 },
+          { weight_kg: 100, reps: 6 },
+        ],
+      })!
+      expect(s.weightKg).toBe(100)
+      expect(s.deltaKg).toBe(0)
+      expect(s.reason).toBe('8, 8, 6 last time, target 3×8')
+    })
+
+    it('uses the increment for the equipment and unit', () => {
+      expect(suggestProgression({ ...base, equipment: 'machine' })!.deltaKg).toBe(5)
+      // 100 kg ≈ 220.5 lbs → 225.5 lbs
+      const lbs = suggestProgression({ ...base, unit: 'lbs' })!
+      expect(lbs.weightKg).toBeCloseTo(102.29, 2)
+    })
+
+    it('adds reps instead of load for bodyweight work', () => {
+      const s = suggestProgression({ ...base, equipment: 'bodyweight' })!
+      expect(s.deltaKg).toBe(0)
+      expect(s.reps).toBe(9)
+    })
+  })
+
+  describe('double progression', () => {
+    const isolation = { ...base, isCompound: false, equipment: 'dumbbell' as const, targetReps: 12 }
+
+    it('adds a rep at the same weight until the target is reached', () => {
+      const s = suggestProgression({
+        ...isolation,
+        previousSets: [
+          { weight_kg: 20, reps: 10 },
+          { weight_kg: 20, reps: 9 },
+          { weight_kg: 20, reps: 9 },
+        ],
+      })!
+      expect(s.scheme).toBe('double')
+      expect(s.weightKg).toBe(20)
+      expect(s.reps).toBe(10)
+      expect(s.reason).toBe('10, 9, 9 last time, build to 3×12')
+    })
+
+    it('adds load and resets to the bottom of the range once every set hits the target', () => {
+      const s = suggestProgression({
+        ...isolation,
+        previousSets: [{ weight_kg: 20, reps: 12 }, { weight_kg: 20, reps: 12 }],
+      })!
+      expect(s.weightKg).toBe(22)
+      expect(s.reps).toBe(8)
+    })
+  })
+
+  describe('RPE autoregulation', () => {
+    const rpeInput = { ...base, targetRpe: 8 }
+
+    it('adds load when the last top set felt easier than the target', () => {
+      const s = suggestProgression({
+        ...rpeInput,
+        previousSets: [{ weight_kg: 100, reps: 8, rpe: 7 }],
+      })!
+      expect(s.scheme).toBe('rpe')
+      // 1 RPE point ≈ 4% → 4 kg → rounds to 5 kg (2 × 2.5)
+      expect(s.weightKg).toBe(105)
+      expect(s.reason).toBe('8 reps @ RPE 7 last time, target RPE 8')
+    })
+
+    it('backs off when reps fell short at a higher RPE', () => {
+      const s = suggestProgression({
+        ...rpeInput,
+        previousSets: [{ weight_kg: 100, reps: 6, rpe: 9 }],
+      })!
+      // (8 - 9) + (6 - 8) = -3 points → -12%, capped at -10%
+      expect(s.weightKg).toBe(90)
+      expect(s.deltaKg).toBe(-10)
+    })
+  })
+})
+
+describe('generateWarmupSets', () => {
+  it('ramps bar×10, 40%×5, 60%×3, 80%×1 to the working weight', () => {
+    expect(generateWarmupSets(100, 'kg', 20)).toEqual([
+      { weightKg: 20, reps: 10 },
+      { weightKg: 40, reps: 5 },
+      { weightKg: 60, reps: 3 },
+      { weightKg: 80, reps: 1 },
+    ])
+  })
+
+  it('rounds each step to the smallest plate increment', () => {
+    expect(generateWarmupSets(70, 'kg', 20).map(s => s.weightKg)).toEqual([20, 27.5, 42.5, 55])
+  })
+
+  it('rounds in lbs and stores kg', () => {
+    // 225 lbs: 45, 90, 135, 180
+    expect(generateWarmupSets(102.06, 'lbs', 20.41).map(s => s.weightKg)).toEqual([20.41, 40.82, 61.23, 81.65])
+  })
+
+  it('drops steps that round onto the bar or reach the working weight', () => {
+    expect(generateWarmupSets(40, 'kg', 20)).toEqual([
+      { weightKg: 20, reps: 10 },
+      { weightKg: 25, reps: 3 },
+      { weightKg: 32.5, reps: 1 },
+    ])
+    expect(generateWarmupSets(20, 'kg', 20)).toEqual([])
+  })
+
+  it('starts from the configured bar', () => {
+    expect(generateWarmupSets(40, 'kg', 15)).toEqual([
+      { weightKg: 15, reps: 10 },
+      { weightKg: 25, reps: 3 },
+      { weightKg: 32.5, reps: 1 },
+    ])
+  })
+})
+
+describe('canGenerateWarmups', () => {
+  it('is only offered for barbell compounds', () => {
+    expect(canGenerateWarmups({ equipment: 'barbell', is_compound: true })).toBe(true)
+    expect(canGenerateWarmups({ equipment: 'barbell', is_compound: false })).toBe(false)
+    expect(canGenerateWarmups({ equipment: 'dumbbell', is_compound: true })).toBe(false)
+  })
+})
+
+describe('calcRepMaxFromE1RM', () => {
+  it('returns the 1RM itself for a single', () => {
+    expect(calcRepMaxFromE1RM(120, 1)).toBe(120)
+  })
+
+  it('inverts calcEpley1RM', () => {
+    expect(calcRepMaxFromE1RM(calcEpley1RM(100, 5), 5)).toBeCloseTo(100)
+  })
+})
+
+describe('calcBestE1RM', () => {
+  it('picks the working set with the highest estimate', () => {
+    const best = calcBestE1RM([
+      { is_warmup: false, weight_kg: 100, reps: 5 },   // 116.7
+      { is_warmup: false, weight_kg: 110, reps: 2 },   // 117.3
+      { is_warmup: true, weight_kg: 140, reps: 3 },
+    ])
+    expect(best).toEqual({ e1rmKg: 117.3, weightKg: 110, reps: 2, lowConfidence: false })
+  })
+
+  it('uses the chosen formula and flags high-rep estimates', () => {
+    const best = calcBestE1RM(
+      [
+        { is_warmup: false, weight_kg: 100, reps: 5 },   // Brzycki 112.5
+        { is_warmup: false, weight_kg: 60, reps: 15 },   // Brzycki 98.2
+      ],
+      'brzycki'
+    )
+    expect(best).toEqual({ e1rmKg: 112.5, weightKg: 100, reps: 5, lowConfidence: false })
+
+    const highRep = calcBestE1RM([{ is_warmup: false, weight_kg: 60, reps: 15 }])
+    expect(highRep?.lowConfidence).toBe(true)
+  })
+
+  it('returns null without usable sets', () => {
+    expect(calcBestE1RM([{ is_warmup: false, weight_kg: null, reps: 5 }])).toBeNull()
+  })
+})
+
+describe('buildRepMaxTable', () => {
+  it('covers 1-12 reps with actual bests carried down to lower rep counts', () => {
+    const table = buildRepMaxTable([
+      { is_warmup: false, weight_kg: 100, reps: 5 },
+      { is_warmup: false, weight_kg: 80, reps: 10 },
+    ])
+
+    expect(table).toHaveLength(12)
+    expect(table[0]).toEqual({ reps: 1, actualKg: 100, estimatedKg: 116.7 })
+    expect(table[4].actualKg).toBe(100)
+    expect(table[5].actualKg).toBe(80)
+    expect(table[11].actualKg).toBeNull()
+    expect(table[11].estimatedKg).toBeLessThan(table[10].estimatedKg)
+  })
+
+  it('is empty without history', () => {
+    expect(buildRepMaxTable([])).toEqual([])
+  })
+})
+
+describe('resolveLoadKg', () => {
+  it('only substitutes bodyweight for unloaded bodyweight exercises', () => {
+    expect(resolveLoadKg(null, 'bodyweight', 75)).toBe(75)
+    expect(resolveLoadKg(10, 'bodyweight', 75)).toBe(10)
+    expect(resolveLoadKg(null, 'dumbbell', 75)).toBeNull()
+    expect(resolveLoadKg(null, 'bodyweight', null)).toBeNull()
+  })
+})
@@ -0,0 +1,157 @@
+import {
+  planWorkoutEdit,
+  validateWorkoutEdit,
+  isWorkoutEditEmpty,
+  EditableWorkout,
+  EditableSet,
+} from '../workoutEdits'
+
+const makeSet = (overrides: Partial<EditableSet> = {}): EditableSet => ({
+  id: 's-1',
+  set_number: 1,
+  weight_kg: 100,
+  reps: 5,
+  rpe: null,
+  is_warmup: false,
+  is_failure: false,
+  is_dropset: false,
+  completed_at: '2026-04-18T10:20:00.000Z',
+  ...overrides,
+})
+
+const makeWorkout = (): EditableWorkout => ({
+  id: 'w-1',
+  started_at: '2026-04-18T10:00:00.000Z',
+  completed_at: '2026-04-18T11:00:00.000Z',
+  notes: null,
+  exercises: [
+    {
+      id: 'we-1',
+      order_index: 0,
+      group_id: null,
+      group_type: null,
+      exercise: { id: 'ex-bench' },
+      sets: [makeSet(), makeSet({ id: 's-2', set_number: 2 })],
+    },
+    {
+      id: 'we-2',
+      order_index: 1,
+      group_id: null,
+      group_type: null,
+      exercise: { id: 'ex-row' },
+      sets: [makeSet({ id: 's-3', weight_kg: 80 })],
+    },
+  ],
+})
+
+const clone = (w: EditableWorkout): EditableWorkout => JSON.parse(JSON.stringify(w))
+
+describe('planWorkoutEdit', () => {
+  it('is empty when nothing changed', () => {
+    const original = makeWorkout()
+    expect(isWorkoutEditEmpty(planWorkoutEdit(original, clone(original)))).toBe(true)
+  })
+
+  it('updates changed set fields and replays PRs for that exercise only', () => {
+    const original = makeWorkout()
+    const edited = clone(original)
+    edited.exercises[0].sets[1].weight_kg = 105
+
+    const plan = planWorkoutEdit(original, edited)
+    expect(plan.updatedSets).toEqual([{ id: 's-2', changes: { weight_kg: 105 } }])
+    expect(plan.affectedExerciseIds).toEqual(['ex-bench'])
+    expect(plan.workout).toBeNull()
+  })
+
+  it('deletes every set of a removed exercise and reorders the rest', () => {
+    const original = makeWorkout()
+    const edited = clone(original)
+    edited.exercises = [{ ...edited.exercises[1], order_index: 0 }]
+
+    const plan = planWorkoutEdit(original, edited)
+    expect(plan.removedExerciseIds).toEqual(['we-1'])
+    expect(plan.deletedSetIds).toEqual(['s-1', 's-2'])
+    expect(plan.updatedExercises).toEqual([{ id: 'we-2', changes: { order_index: 0 } }])
+    expect(plan.affectedExerciseIds).toEqual(['ex-bench'])
+  })
+
+  it('inserts added exercises and stamps new sets with the end time', () => {
+    const original = makeWorkout()
+    const edited = clone(original)
+    edited.exercises.push({
+      id: 'we-3',
+      order_index: 2,
+      group_id: null,
+      group_type: null,
+      exercise: { id: 'ex-curl' },
+      sets: [makeSet({ id: 's-new', weight_kg: 20, completed_at: '' })],
+    })
+
+    const plan = planWorkoutEdit(original, edited)
+    expect(plan.addedExercises).toEqual([
+      expect.objectContaining({ id: 'we-3', workout_id: 'w-1', exercise_id: 'ex-curl', order_index: 2 }),
+    ])
+    expect(plan.insertedSets).toEqual([
+      expect.objectContaining({
+        id: 's-new',
+        workout_exercise_id: 'we-3',
+        completed_at: '2026-04-18T11:00:00.000Z',
+      }),
+    ])
+    expect(plan.affectedExerciseIds).toEqual(['ex-curl'])
+  })
+
+  it('moves set timestamps along with the start time', () => {
+    const original = makeWorkout()
+    const edited = clone(original)
+    edited.started_at = '2026-04-17T10:00:00.000Z'
+    edited.completed_at = '2026-04-17T11:00:00.000Z'
+
+    const plan = planWorkoutEdit(original, edited)
+    expect(plan.workout).toEqual({
+      started_at: '2026-04-17T10:00:00.000Z',
+      completed_at: '2026-04-17T11:00:00.000Z',
+    })
+    expect(plan.updatedSets).toContainEqual({
+      id: 's-3',
+      changes: { completed_at: '2026-04-17T10:20:00.000Z' },
+    })
+    expect(plan.affectedExerciseIds.sort()).toEqual(['ex-bench', 'ex-row'])
+  })
+
+  it('treats notes alone as a workout change without PR work', () => {
+    const original = makeWorkout()
+    const edited = clone(original)
+    edited.notes = 'Felt strong'
+
+    const plan = planWorkoutEdit(original, edited)
+    expect(plan.workout).toEqual({ notes: 'Felt strong' })
+    expect(plan.affectedExerciseIds).toEqual([])
+  })
+})
+
+describe('validateWorkoutEdit', () => {
+  const now = new Date('2026-04-20T00:00:00.000Z')
+
+  it('accepts a valid workout', () => {
+    expect(validateWorkoutEdit(makeWorkout(), now)).toBeNull()
+  })
+
+  it('rejects a start in the future', () => {
+    const edited = makeWorkout()
+    edited.started_at = '2026-04-21T10:00:00.000Z'
+    expect(validateWorkoutEdit(edited, now)).toMatch(/future/)
+  })
+
+  it('rejects an end before the start', () => {
+    const edited = makeWorkout()
+    edited.completed_at = '2026-04-18T09:00:00.000Z'
+    expect(validateWorkoutEdit(edited, now)).toMatch(/end time/)
+  })
+
+  it('rejects sets without reps', () => {
+    const edited = makeWorkout()
+    edited.exercises[0].sets[0].reps = null
+    expect(validateWorkoutEdit(edited, now)).toMatch(/rep/)
+  })
+})
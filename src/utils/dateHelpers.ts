@@ -28,3 +28,49 @@ export function getMonthBoundaries(month: Date): { start: string; end: string }
 export function toDateKey(isoString: string): string {
   return isoString.split('T')[0]
 }
+
+// YYYY-MM-DD for the device's local calendar day (toDateKey is UTC)
+export function toLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00`)
+  date.setDate(date.getDate() + days)
+  return toLocalDateKey(date)
+}
+
+export function getDayBoundaries(dateKey: string): { start: string; end: string } {
+  const start = new Date(`${dateKey}T00:00:00`)
+  const end = new Date(`${dateKey}T23:59:59.999`)
+  return { start: start.toISOString(), end: end.toISOString() }
+}
+
+// "HH:MM" on the device's clock, for editable time fields
+export function toLocalTimeKey(isoString: string): string {
+  const date = new Date(isoString)
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+// The same local day as isoString at "H:MM" / "HH:MM"; null when the time
+// doesn't parse
+export function setLocalTime(isoString: string, time: string): string | null {
+  const match = time.trim().match(/^(\d{1,2}):?(\d{2})$/)
+  if (!match) return null
+  const hours = parseInt(match[1], 10)
+  const minutes = parseInt(match[2], 10)
+  if (hours > 23 || minutes > 59) return null
+
+  const date = new Date(isoString)
+  date.setHours(hours, minutes, 0, 0)
+  return date.toISOString()
+}
+
+// Calendar days on the local clock, so DST changes keep the time of day
+export function shiftIsoDays(isoString: string, days: number): string {
+  const date = new Date(isoString)
+  date.setDate(date.getDate() + days)
+  return date.toISOString()
+}
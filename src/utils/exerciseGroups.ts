@@ -0,0 +1,173 @@
+// src/utils/exerciseGroups.ts
+// Supersets, giant sets and circuits. Exercises stay a flat ordered list; a
+// group is a run of adjacent exercises sharing a group_id.
+
+import { ExerciseGroupType, WorkoutSet } from '../types/workout'
+import { generateUUID } from './uuid'
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  giant_set: 'Giant set',
+  circuit: 'Circuit',
+}
+
+export interface Groupable {
+  group_id: string | null
+  group_type: ExerciseGroupType | null
+}
+
+export interface GroupPosition {
+  groupId: string
+  type: ExerciseGroupType
+  start: number      // index of the first member
+  end: number        // index of the last member
+  position: number   // 0-based within the group
+  size: number
+  label: string      // "A1", "A2", "B1", ...
+}
+
+// Superset is two exercises, giant set three or more; circuits keep their name
+function typeForSize(type: ExerciseGroupType | null, size: number): ExerciseGroupType {
+  if (type === 'circuit') return 'circuit'
+  return size > 2 ? 'giant_set' : 'superset'
+}
+
+// Position of every exercise within its group, or null when it stands alone.
+// A lone exercise that still carries a group_id (e.g. after a reorder) is ungrouped.
+export function getGroupPositions<T extends Groupable>(exercises: T[]): (GroupPosition | null)[] {
+  const positions: (GroupPosition | null)[] = exercises.map(() => null)
+  let letter = 0
+  let start = 0
+
+  while (start < exercises.length) {
+    const groupId = exercises[start].group_id
+    let end = start
+    while (groupId && exercises[end + 1]?.group_id === groupId) end++
+
+    if (groupId && end > start) {
+      const label = String.fromCharCode(65 + (letter % 26))
+      const type = typeForSize(exercises[start].group_type, end - start + 1)
+      for (let i = start; i <= end; i++) {
+        positions[i] = {
+          groupId,
+          type,
+          start,
+          end,
+          position: i - start,
+          size: end - start + 1,
+          label: `${label}${i - start + 1}`,
+        }
+      }
+      letter++
+    }
+    start = end + 1
+  }
+
+  return positions
+}
+
+// Re-derive groups after a reorder or removal: split runs get their own id,
+// single leftovers lose theirs, and the type follows the member count
+export function normalizeGroups<T extends Groupable>(exercises: T[]): T[] {
+  const seen = new Set<string>()
+  const positions = getGroupPositions(exercises)
+  const renamed: Record<number, string> = {}
+
+  return exercises.map((ex, i) => {
+    const pos = positions[i]
+    if (!pos) {
+      return ex.group_id || ex.group_type ? { ...ex, group_id: null, group_type: null } : ex
+    }
+    if (pos.position === 0) {
+      renamed[pos.start] = seen.has(pos.groupId) ? generateUUID() : pos.groupId
+      seen.add(pos.groupId)
+    }
+    return { ...ex, group_id: renamed[pos.start], group_type: pos.type }
+  })
+}
+
+// Join exercises[index] with the one after it, merging any groups either is in
+export function linkWithNext<T extends Groupable>(exercises: T[], index: number): T[] {
+  const current = exercises[index]
+  const next = exercises[index + 1]
+  if (!current || !next) return exercises
+
+  const groupId = current.group_id ?? next.group_id ?? generateUUID()
+  const type = current.group_type ?? next.group_type ?? 'superset'
+  const merging = new Set([current.group_id, next.group_id].filter(Boolean))
+
+  return normalizeGroups(
+    exercises.map((ex, i) =>
+      i === index || i === index + 1 || (ex.group_id && merging.has(ex.group_id))
+        ? { ...ex, group_id: groupId, group_type: type }
+        : ex
+    )
+  )
+}
+
+// Split the group between exercises[index] and the one after it
+export function unlinkFromNext<T extends Groupable>(exercises: T[], index: number): T[] {
+  const current = exercises[index]
+  if (!current?.group_id || exercises[index + 1]?.group_id !== current.group_id) return exercises
+
+  const splitId = generateUUID()
+  let inTail = true
+  return normalizeGroups(
+    exercises.map((ex, i) => {
+      if (i <= index) return ex
+      inTail = inTail && ex.group_id === current.group_id
+      return inTail ? { ...ex, group_id: splitId } : ex
+    })
+  )
+}
+
+export function setGroupType<T extends Groupable>(
+  exercises: T[],
+  groupId: string,
+  type: ExerciseGroupType
+): T[] {
+  return normalizeGroups(
+    exercises.map(ex => (ex.group_id === groupId ? { ...ex, group_type: type } : ex))
+  )
+}
+
+export interface GroupStep {
+  nextIndex: number
+  endsRound: boolean   // rest now; otherwise go straight to the next exercise
+}
+
+interface ActiveGroupable extends Groupable {
+  targetSets?: number
+  sets?: WorkoutSet[]
+}
+
+// Where to go after a set on exercises[index] when it belongs to a group: on to
+// the next member that still has sets left, or back to the first one once the
+// round is over. `setsRemaining` is the current exercise's count, which the
+// caller knows more reliably than the exercise list at that moment.
+// Returns null for exercises outside a group.
+export function getNextGroupStep<T extends ActiveGroupable>(
+  exercises: T[],
+  index: number,
+  setsRemaining: number
+): GroupStep | null {
+  const pos = getGroupPositions(exercises)[index]
+  if (!pos) return null
+
+  function hasSetsLeft(i: number): boolean {
+    if (i === index) return setsRemaining > 0
+    const ex = exercises[i]
+    const done = ex.sets?.filter(s => !s.is_warmup).length ?? 0
+    return done < (ex.targetSets ?? 3)
+  }
+
+  for (let i = index + 1; i <= pos.end; i++) {
+    if (hasSetsLeft(i)) return { nextIndex: i, endsRound: false }
+  }
+  for (let i = pos.start; i <= index; i++) {
+    if (hasSetsLeft(i)) return { nextIndex: i, endsRound: true }
+  }
+
+  // Every member is done: move past the group
+  return { nextIndex: Math.min(pos.end + 1, exercises.length - 1), endsRound: true }
+}
@@ -0,0 +1,109 @@
+// src/utils/exerciseMatching.ts
+// Fuzzy matching of other apps' exercise names onto our library.
+// "Bench Press (Barbell)" and "Barbell Bench Press" reduce to the same token
+// set, so word order and bracketed equipment don't matter.
+
+import { Exercise } from '../types/workout'
+import { ExerciseMatch } from '../types/import'
+
+// At or above this the match is taken without asking
+export const AUTO_MATCH_SCORE = 0.75
+// Below the auto threshold but worth offering as a suggestion
+export const SUGGEST_MATCH_SCORE = 0.4
+
+const TOKEN_ALIASES: Record<string, string> = {
+  db: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  bw: 'bodyweight',
+  ohp: 'overhead press',
+  rdl: 'romanian deadlift',
+}
+
+const STOP_WORDS = new Set(['a', 'the', 'with', 'on', 'of', 'and'])
+
+// "Curls" → "curl", but "press" and "cross" keep their s
+function singular(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss')
+    ? token.slice(0, -1)
+    : token
+}
+
+export function tokenizeExerciseName(name: string): string[] {
+  const tokens = name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .flatMap(t => (TOKEN_ALIASES[t] ?? t).split(' '))
+    .filter(t => t && !STOP_WORDS.has(t))
+    .map(singular)
+  return Array.from(new Set(tokens)).sort()
+}
+
+function bigrams(text: string): string[] {
+  const grams: string[] = []
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2))
+  return grams
+}
+
+function dice<T>(a: T[], b: T[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const remaining = [...b]
+  let shared = 0
+  a.forEach(item => {
+    const index = remaining.indexOf(item)
+    if (index >= 0) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  })
+  return (2 * shared) / (a.length + b.length)
+}
+
+// 0..1. Token overlap catches reordering; character bigrams catch
+// "Pullup" vs "Pull-Up" and small spelling differences.
+export function scoreExerciseName(source: string, candidate: string): number {
+  const a = tokenizeExerciseName(source)
+  const b = tokenizeExerciseName(candidate)
+  const tokenScore = dice(a, b)
+  const charScore = dice(bigrams(a.join('')), bigrams(b.join(''))) * 0.9
+  return Math.round(Math.max(tokenScore, charScore) * 100) / 100
+}
+
+// Best library match for each source name. A tie at the top (e.g. "Squat"
+// scoring the same against back and front squat) is never taken automatically.
+export function matchExerciseNames(
+  names: string[],
+  exercises: Pick<Exercise, 'id' | 'name'>[]
+): ExerciseMatch[] {
+  return names.map(sourceName => {
+    const ranked = exercises
+      .map(e => ({ exercise: e, score: scoreExerciseName(sourceName, e.name) }))
+      .sort((a, b) => b.score - a.score)
+
+    const [best, runnerUp] = ranked
+    const match: ExerciseMatch = {
+      source_name: sourceName,
+      exercise_id: null,
+      exercise_name: null,
+      score: best?.score ?? 0,
+      status: 'unmatched',
+      suggestion: null,
+    }
+    if (!best || best.score < SUGGEST_MATCH_SCORE) return match
+
+    const ambiguous = best.score < 1 && runnerUp?.score === best.score
+    if (best.score >= AUTO_MATCH_SCORE && !ambiguous) {
+      return {
+        ...match,
+        exercise_id: best.exercise.id,
+        exercise_name: best.exercise.name,
+        status: 'auto',
+      }
+    }
+
+    return {
+      ...match,
+      suggestion: { exercise_id: best.exercise.id, exercise_name: best.exercise.name, score: best.score },
+    }
+  })
+}
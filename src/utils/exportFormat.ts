@@ -0,0 +1,151 @@
+// src/utils/exportFormat.ts
+// Versioned CSV and JSON layouts for the training history export.
+// Bump EXPORT_FORMAT_VERSION on any breaking change to either layout and
+// update docs/data-export.md; importers check format + version first.
+import { ExportArchive, ExportRange, ExportTables } from '../types/export'
+import { WeightUnit } from '../types/workout'
+import { toDisplayWeight } from './units'
+import { calcEpley1RM, calcSetVolume } from './workoutCalculations'
+
+export const EXPORT_FORMAT = 'strengthflow-export'
+export const EXPORT_FORMAT_VERSION = 1
+
+export const EXPORT_RANGE_LABELS: Record<ExportRange, string> = {
+  ALL: 'All time',
+  '1M': 'Last month',
+  '3M': 'Last 3 months',
+  '1Y': 'Last year',
+}
+
+// Lower bound for the range; exports always run up to now
+export function getExportRangeStart(range: ExportRange, now = new Date()): string | null {
+  const start = new Date(now)
+  switch (range) {
+    case '1M':
+      start.setMonth(start.getMonth() - 1)
+      break
+    case '3M':
+      start.setMonth(start.getMonth() - 3)
+      break
+    case '1Y':
+      start.setFullYear(start.getFullYear() - 1)
+      break
+    case 'ALL':
+      return null
+  }
+  return start.toISOString()
+}
+
+// One row per logged set. Weight columns take the chosen unit as a suffix,
+// e.g. weight_kg or weight_lbs. Documented in docs/data-export.md.
+export const EXPORT_CSV_COLUMNS = [
+  'workout_id',
+  'workout_name',
+  'workout_started_at',
+  'workout_completed_at',
+  'workout_notes',
+  'exercise_order',
+  'exercise_id',
+  'exercise_name',
+  'primary_muscle_group',
+  'equipment',
+  'group_id',
+  'group_type',
+  'set_number',
+  'is_warmup',
+  'weight',
+  'reps',
+  'rpe',
+  'is_failure',
+  'is_dropset',
+  'volume',
+  'estimated_1rm',
+  'set_completed_at',
+] as const
+
+const WEIGHT_COLUMNS = new Set(['weight', 'volume', 'estimated_1rm'])
+
+export function csvHeader(unit: WeightUnit): string[] {
+  return EXPORT_CSV_COLUMNS.map(c => (WEIGHT_COLUMNS.has(c) ? `${c}_${unit}` : c))
+}
+
+// RFC 4180: quote when the value holds a delimiter, quote or line break
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function buildExportCsv(tables: ExportTables, unit: WeightUnit, exportedAt: string): string {
+  const workouts = new Map(tables.workouts.map(w => [w.id, w]))
+  const workoutExercises = new Map(tables.workout_exercises.map(we => [we.id, we]))
+  const exercises = new Map(tables.exercises.map(e => [e.id, e]))
+
+  const rows = tables.workout_sets
+    .map(set => {
+      const we = workoutExercises.get(set.workout_exercise_id)
+      const workout = we && workouts.get(we.workout_id)
+      return we && workout ? { set, we, workout } : null
+    })
+    .filter((r): r is NonNullable<typeof r> => r !== null)
+    .sort(
+      (a, b) =>
+        a.workout.started_at.localeCompare(b.workout.started_at) ||
+        a.we.order_index - b.we.order_index ||
+        a.set.set_number - b.set.set_number
+    )
+    .map(({ set, we, workout }) => {
+      const exercise = exercises.get(we.exercise_id)
+      const hasLoad = set.weight_kg !== null && set.reps !== null
+      return [
+        workout.id,
+        workout.name,
+        workout.started_at,
+        workout.completed_at,
+        workout.notes,
+        we.order_index + 1,
+        we.exercise_id,
+        exercise?.name,
+        exercise?.primary_muscle_group,
+        exercise?.equipment,
+        we.group_id,
+        we.group_type,
+        set.set_number,
+        set.is_warmup,
+        set.weight_kg !== null ? toDisplayWeight(set.weight_kg, unit) : null,
+        set.reps,
+        set.rpe,
+        set.is_failure,
+        set.is_dropset,
+        hasLoad ? toDisplayWeight(calcSetVolume(set.weight_kg, set.reps), unit) : null,
+        hasLoad ? toDisplayWeight(calcEpley1RM(set.weight_kg!, set.reps!), unit) : null,
+        set.completed_at,
+      ]
+        .map(escapeCsvValue)
+        .join(',')
+    })
+
+  // Comment line first so importers can check the version before the header
+  const preamble = `# ${EXPORT_FORMAT} v${EXPORT_FORMAT_VERSION}; unit=${unit}; exported_at=${exportedAt}`
+  return [preamble, csvHeader(unit).join(','), ...rows].join('\n') + '\n'
+}
+
+export function buildExportArchive(
+  tables: ExportTables,
+  options: { unit: WeightUnit; from: string | null; to: string | null },
+  exportedAt: string
+): ExportArchive {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: exportedAt,
+    range: { from: options.from, to: options.to },
+    unit: options.unit,
+    tables,
+  }
+}
+
+// "strengthflow-2026-10-19.csv"
+export function getExportFileName(fileType: 'csv' | 'json', exportedAt: string): string {
+  return `strengthflow-${exportedAt.slice(0, 10)}.${fileType}`
+}
@@ -10,6 +10,10 @@ export function formatMuscleGroup(muscle: string): string {
     .join(' ')
 }
 
+export function formatEquipment(equipment: string): string {
+  return formatMuscleGroup(equipment)
+}
+
 export function getMuscleColor(muscle: string): string {
   return (colors.muscles as Record<string, string>)[muscle] ?? colors.muscleDefault
 }
@@ -30,6 +34,15 @@ export function formatShortDate(isoString: string): string {
   })
 }
 
+// "15 Jan 2024", for spans that cross years
+export function formatMediumDate(isoString: string): string {
+  return new Date(isoString).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
 export function formatLongDate(isoString: string): string {
   return new Date(isoString).toLocaleDateString('en-GB', {
     weekday: 'long',
@@ -0,0 +1,366 @@
+// src/utils/historyImport.ts
+// Parsers for Strong and Hevy CSV exports, plus the pure half of the import:
+// mapping parsed workouts onto our exercises and spotting duplicates.
+//
+// Strong: Date, Workout Name, Duration, Exercise Name, Set Order, Weight, Reps,
+//   Distance, Seconds, Notes, Workout Notes, RPE. Newer exports put units in
+//   the header ("Weight (kg)", "Duration (sec)"); some locales use ';'.
+// Hevy: title, start_time, end_time, description, exercise_title, superset_id,
+//   exercise_notes, set_index, set_type, weight_kg | weight_lbs, reps, rpe, ...
+
+import {
+  ExerciseMatch,
+  ImportedExercise,
+  ImportedSet,
+  ImportedWorkout,
+  ImportPreview,
+  ImportSource,
+  ParsedImport,
+  ResolvedImportWorkout,
+} from '../types/import'
+import { WeightUnit } from '../types/workout'
+import { toStorageWeight } from './units'
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+}
+
+// RFC 4180: quoted fields may contain the delimiter, "" and line breaks
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ','
+}
+
+export function detectImportSource(header: string[]): ImportSource | null {
+  const columns = header.map(h => h.trim().toLowerCase())
+  if (columns.includes('exercise_title') && columns.includes('start_time')) return 'hevy'
+  if (columns.includes('exercise name') && columns.includes('set order')) return 'strong'
+  return null
+}
+
+// Accepts "62.5" and, from ';'-delimited files, "62,5"
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  const parsed = Number(trimmed.includes('.') ? trimmed : trimmed.replace(',', '.'))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// Both apps write local wall-clock time without an offset.
+// "2024-01-15 08:30:00" (Strong) or "15 Jan 2024, 08:30" (Hevy).
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim()
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/)
+  if (iso) {
+    const [, y, mo, d, h, mi, s] = iso
+    return new Date(+y, +mo - 1, +d, +h, +mi, s ? +s : 0).toISOString()
+  }
+
+  const named = trimmed.match(/^(\d{1,2}) ([A-Za-z]{3})[A-Za-z]* (\d{4}),? (\d{1,2}):(\d{2})$/)
+  if (named) {
+    const [, d, mon, y, h, mi] = named
+    const month = MONTHS.indexOf(mon.toLowerCase())
+    if (month >= 0) return new Date(+y, month, +d, +h, +mi).toISOString()
+  }
+
+  const parsed = Date.parse(trimmed)
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString()
+}
+
+// Strong's "1h 5m" / "45m" / "30s", or plain seconds from newer exports
+export function parseDurationSeconds(value: string): number {
+  const trimmed = value.trim()
+  const plain = parseNumber(trimmed)
+  if (plain !== null) return plain
+
+  let seconds = 0
+  const pattern = /(\d+)\s*([hms])/g
+  let part: RegExpExecArray | null
+  while ((part = pattern.exec(trimmed)) !== null) {
+    const amount = Number(part[1])
+    seconds += part[2] === 'h' ? amount * 3600 : part[2] === 'm' ? amount * 60 : amount
+  }
+  return seconds
+}
+
+function addSeconds(iso: string, seconds: number): string {
+  return new Date(new Date(iso).getTime() + seconds * 1000).toISOString()
+}
+
+function validRpe(value: number | null): number | null {
+  return value !== null && value >= 1 && value <= 10 ? value : null
+}
+
+// "Weight (lbs)" → 'lbs'; null when the header doesn't say
+function unitFromHeader(column: string): WeightUnit | null {
+  if (/\blbs?\b/i.test(column)) return 'lbs'
+  if (/\bkgs?\b/i.test(column)) return 'kg'
+  return null
+}
+
+interface RowSet {
+  workoutKey: string
+  workout: Omit<ImportedWorkout, 'exercises'>
+  exerciseName: string
+  groupKey: string | null
+  exerciseNotes: string | null
+  set: Omit<ImportedSet, 'set_number'>
+}
+
+type RowReader = (cell: (column: string) => string) => RowSet | 'skip' | null
+
+function makeStrongReader(header: string[], fallbackUnit: WeightUnit) {
+  const weightColumn = header.find(h => /^weight\b/i.test(h)) ?? 'Weight'
+  const durationColumn = header.find(h => /^duration\b/i.test(h)) ?? 'Duration'
+  const unit = unitFromHeader(weightColumn) ?? fallbackUnit
+
+  const reader: RowReader = cell => {
+    const startedAt = parseImportDate(cell('Date'))
+    if (!startedAt) return 'skip'
+
+    // Numbered sets, or W/D/F markers in newer exports; anything else is a rest timer row
+    const order = cell('Set Order').trim().toUpperCase()
+    if (!/^\d+$/.test(order) && !['W', 'D', 'F'].includes(order)) return null
+
+    const weight = parseNumber(cell(weightColumn))
+    const reps = parseNumber(cell('Reps'))
+    if (!reps && !weight) return 'skip'
+
+    const name = cell('Workout Name').trim() || 'Imported workout'
+    return {
+      workoutKey: `${cell('Date')}|${name}`,
+      workout: {
+        name,
+        started_at: startedAt,
+        completed_at: addSeconds(startedAt, parseDurationSeconds(cell(durationColumn))),
+        notes: cell('Workout Notes').trim() || null,
+      },
+      exerciseName: cell('Exercise Name').trim(),
+      groupKey: null,
+      exerciseNotes: cell('Notes').trim() || null,
+      set: {
+        weight_kg: weight !== null ? toStorageWeight(weight, unit) : null,
+        reps: reps !== null ? Math.round(reps) : null,
+        rpe: validRpe(parseNumber(cell('RPE'))),
+        is_warmup: order === 'W',
+        is_failure: order === 'F',
+        is_dropset: order === 'D',
+      },
+    }
+  }
+  return { reader, unitInFile: unitFromHeader(weightColumn) !== null }
+}
+
+function makeHevyReader(header: string[], fallbackUnit: WeightUnit) {
+  const weightColumn = header.find(h => /^weight_(kg|lbs)$/i.test(h.trim())) ?? 'weight_kg'
+  const unit = unitFromHeader(weightColumn.replace('_', ' ')) ?? fallbackUnit
+
+  const reader: RowReader = cell => {
+    const startedAt = parseImportDate(cell('start_time'))
+    if (!startedAt) return 'skip'
+
+    const weight = parseNumber(cell(weightColumn))
+    const reps = parseNumber(cell('reps'))
+    if (!reps && !weight) return 'skip'
+
+    const setType = cell('set_type').trim().toLowerCase()
+    const supersetId = cell('superset_id').trim()
+    const name = cell('title').trim() || 'Imported workout'
+    return {
+      workoutKey: `${cell('start_time')}|${name}`,
+      workout: {
+        name,
+        started_at: startedAt,
+        completed_at: parseImportDate(cell('end_time')) ?? startedAt,
+        notes: cell('description').trim() || null,
+      },
+      exerciseName: cell('exercise_title').trim(),
+      groupKey: supersetId || null,
+      exerciseNotes: cell('exercise_notes').trim() || null,
+      set: {
+        weight_kg: weight !== null ? toStorageWeight(weight, unit) : null,
+        reps: reps !== null ? Math.round(reps) : null,
+        rpe: validRpe(parseNumber(cell('rpe'))),
+        is_warmup: setType === 'warmup',
+        is_failure: setType === 'failure',
+        is_dropset: setType === 'dropset',
+      },
+    }
+  }
+  return { reader, unitInFile: header.some(h => /^weight_(kg|lbs)$/i.test(h.trim())) }
+}
+
+// Hevy superset ids only mean something when two or more exercises share one
+function finalizeGroups(exercises: ImportedExercise[]): ImportedExercise[] {
+  const sizes = new Map<string, number>()
+  exercises.forEach(e => {
+    if (e.group_key) sizes.set(e.group_key, (sizes.get(e.group_key) ?? 0) + 1)
+  })
+  return exercises.map(e => {
+    const size = e.group_key ? sizes.get(e.group_key) ?? 0 : 0
+    if (size < 2) return { ...e, group_key: null, group_type: null }
+    return { ...e, group_type: size > 2 ? 'giant_set' : 'superset' }
+  })
+}
+
+// `unit` is only used when the file doesn't name its weight unit
+export function parseImportFile(text: string, unit: WeightUnit): ParsedImport {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''), detectDelimiter(text))
+  if (rows.length < 2) throw new Error('The file has no workout rows')
+
+  const header = rows[0].map(h => h.trim())
+  const source = detectImportSource(header)
+  if (!source) throw new Error('This doesn’t look like a Strong or Hevy CSV export')
+
+  const { reader, unitInFile } =
+    source === 'strong' ? makeStrongReader(header, unit) : makeHevyReader(header, unit)
+  const columnIndex = new Map(header.map((h, i) => [h, i]))
+
+  const workouts = new Map<string, ImportedWorkout>()
+  const setCounts: Record<string, number> = {}
+  let skippedRows = 0
+
+  rows.slice(1).forEach(row => {
+    const parsed = reader(column => row[columnIndex.get(column) ?? -1] ?? '')
+    if (parsed === null) return
+    if (parsed === 'skip' || !parsed.exerciseName) {
+      skippedRows++
+      return
+    }
+
+    let workout = workouts.get(parsed.workoutKey)
+    if (!workout) {
+      workout = { ...parsed.workout, exercises: [] }
+      workouts.set(parsed.workoutKey, workout)
+    }
+
+    // Consecutive rows of the same exercise form one block; a repeat later
+    // in the session becomes its own entry, as it would have been logged
+    let exercise = workout.exercises[workout.exercises.length - 1]
+    if (!exercise || exercise.source_name !== parsed.exerciseName) {
+      exercise = {
+        source_name: parsed.exerciseName,
+        group_key: parsed.groupKey,
+        group_type: null,
+        notes: parsed.exerciseNotes,
+        sets: [],
+      }
+      workout.exercises.push(exercise)
+    }
+    exercise.notes = exercise.notes ?? parsed.exerciseNotes
+    exercise.sets.push({ ...parsed.set, set_number: exercise.sets.length + 1 })
+    setCounts[parsed.exerciseName] = (setCounts[parsed.exerciseName] ?? 0) + 1
+  })
+
+  if (workouts.size === 0) throw new Error('No strength sets found in this file')
+
+  return {
+    source,
+    workouts: Array.from(workouts.values())
+      .map(w => ({ ...w, exercises: finalizeGroups(w.exercises) }))
+      .sort((a, b) => a.started_at.localeCompare(b.started_at)),
+    exercise_names: Object.keys(setCounts).sort((a, b) => setCounts[b] - setCounts[a]),
+    set_counts: setCounts,
+    unit_in_file: unitInFile,
+    skipped_rows: skippedRows,
+  }
+}
+
+// Workouts compare by start minute; re-importing the same file changes nothing
+function startMinute(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 60000)
+}
+
+export function resolveImportWorkouts(
+  parsed: ParsedImport,
+  matches: ExerciseMatch[],
+  existingStarts: string[]
+): { workouts: ResolvedImportWorkout[]; preview: ImportPreview } {
+  const exerciseIds = new Map(
+    matches
+      .filter(m => m.exercise_id && m.status !== 'skipped')
+      .map(m => [m.source_name, m.exercise_id as string])
+  )
+  const existing = new Set(existingStarts.map(startMinute))
+
+  const workouts: ResolvedImportWorkout[] = []
+  const duplicates: ImportPreview['duplicates'] = []
+  let skippedSetCount = 0
+
+  parsed.workouts.forEach(workout => {
+    if (existing.has(startMinute(workout.started_at))) {
+      duplicates.push({ name: workout.name, started_at: workout.started_at })
+      return
+    }
+
+    const exercises: ResolvedImportWorkout['exercises'] = []
+    workout.exercises.forEach(e => {
+      const exerciseId = exerciseIds.get(e.source_name)
+      if (exerciseId) exercises.push({ ...e, exercise_id: exerciseId })
+      else skippedSetCount += e.sets.length
+    })
+    if (exercises.length > 0) workouts.push({ ...workout, exercises })
+  })
+
+  return {
+    workouts,
+    preview: {
+      workout_count: workouts.length,
+      duplicate_count: duplicates.length,
+      exercise_count: new Set(workouts.flatMap(w => w.exercises.map(e => e.exercise_id))).size,
+      set_count: workouts.reduce(
+        (sum, w) => sum + w.exercises.reduce((n, e) => n + e.sets.length, 0),
+        0
+      ),
+      skipped_set_count: skippedSetCount,
+      first_date: workouts[0]?.started_at ?? null,
+      last_date: workouts[workouts.length - 1]?.started_at ?? null,
+      duplicates,
+    },
+  }
+}
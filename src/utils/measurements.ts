@@ -0,0 +1,89 @@
+// src/utils/measurements.ts
+// Metric definitions, unit handling and the moving-average trend for body
+// measurements. Values are stored in kg / cm / %.
+
+import { BodyMeasurement, MeasurementField, MeasurementTrendPoint } from '../types/measurements'
+import { WeightUnit } from '../types/workout'
+import {
+  getLengthUnit,
+  toDisplayLength,
+  toDisplayWeight,
+  toStorageLength,
+  toStorageWeight,
+} from './units'
+
+type MeasurementKind = 'weight' | 'percent' | 'length'
+
+export const MEASUREMENT_FIELDS: { field: MeasurementField; label: string; kind: MeasurementKind }[] = [
+  { field: 'bodyweight_kg', label: 'Bodyweight', kind: 'weight' },
+  { field: 'body_fat_pct', label: 'Body fat', kind: 'percent' },
+  { field: 'waist_cm', label: 'Waist', kind: 'length' },
+  { field: 'chest_cm', label: 'Chest', kind: 'length' },
+  { field: 'arm_cm', label: 'Arms', kind: 'length' },
+  { field: 'thigh_cm', label: 'Thighs', kind: 'length' },
+]
+
+// Day-to-day bodyweight swings by a kilo or more; a week smooths it out
+export const MOVING_AVERAGE_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function kindOf(field: MeasurementField): MeasurementKind {
+  return MEASUREMENT_FIELDS.find(f => f.field === field)?.kind ?? 'length'
+}
+
+export function getMeasurementUnitLabel(field: MeasurementField, unit: WeightUnit): string {
+  const kind = kindOf(field)
+  if (kind === 'percent') return '%'
+  if (kind === 'weight') return unit
+  return getLengthUnit(unit)
+}
+
+export function toDisplayMeasurement(value: number, field: MeasurementField, unit: WeightUnit): number {
+  const kind = kindOf(field)
+  if (kind === 'weight') return toDisplayWeight(value, unit)
+  if (kind === 'length') return toDisplayLength(value, getLengthUnit(unit))
+  return Math.round(value * 10) / 10
+}
+
+export function toStorageMeasurement(value: number, field: MeasurementField, unit: WeightUnit): number {
+  const kind = kindOf(field)
+  if (kind === 'weight') return toStorageWeight(value, unit)
+  if (kind === 'length') return toStorageLength(value, getLengthUnit(unit))
+  return value
+}
+
+// Oldest first. Each point's average covers the entries logged in the
+// MOVING_AVERAGE_DAYS ending on that entry, so sparse logging still works.
+export function buildMeasurementTrend(
+  measurements: BodyMeasurement[],
+  field: MeasurementField,
+  windowDays = MOVING_AVERAGE_DAYS
+): MeasurementTrendPoint[] {
+  const entries = measurements
+    .filter(m => m[field] !== null)
+    .map(m => ({ measured_at: m.measured_at, time: new Date(m.measured_at).getTime(), value: m[field] as number }))
+    .sort((a, b) => a.time - b.time)
+
+  return entries.map((entry, index) => {
+    const windowStart = entry.time - windowDays * DAY_MS
+    const inWindow = entries.slice(0, index + 1).filter(e => e.time > windowStart)
+    const average = inWindow.reduce((sum, e) => sum + e.value, 0) / inWindow.length
+    return {
+      measured_at: entry.measured_at,
+      value: entry.value,
+      average: Math.round(average * 100) / 100,
+    }
+  })
+}
+
+// Most recent weigh-in, whatever order the rows arrive in
+export function getLatestBodyweightKg(measurements: BodyMeasurement[]): number | null {
+  const latest = measurements
+    .filter(m => m.bodyweight_kg !== null)
+    .reduce<BodyMeasurement | null>(
+      (best, m) => (!best || m.measured_at > best.measured_at ? m : best),
+      null
+    )
+  return latest?.bodyweight_kg ?? null
+}
@@ -0,0 +1,133 @@
+// src/utils/muscleVolume.ts
+// Crediting working sets to muscle groups. "Direct" counts the primary muscle
+// only (what the exercise_volume_by_muscle view does); "weighted" also gives
+// each secondary muscle a fraction of the set, so bench press counts toward
+// triceps.
+
+import { MuscleGroup } from '../types/workout'
+import { resolveLoadKg } from './workoutCalculations'
+
+export type VolumeAttribution = 'direct' | 'weighted'
+
+export const DEFAULT_SECONDARY_FRACTION = 0.5
+
+export const VOLUME_ATTRIBUTION_LABELS: Record<VolumeAttribution, string> = {
+  direct: 'Direct only',
+  weighted: 'Weighted',
+}
+
+export interface VolumeSetInput {
+  weight_kg: number | null
+  reps: number | null
+  exercise: {
+    primary_muscle_group: string
+    secondary_muscle_groups: string[] | null
+    is_compound: boolean
+    equipment: string
+  }
+}
+
+// With the exercise named, for drilling into what hit a muscle
+export interface NamedVolumeSetInput extends VolumeSetInput {
+  exercise: VolumeSetInput['exercise'] & { id: string; name: string }
+}
+
+export interface MuscleExerciseContribution {
+  exercise_id: string
+  exercise_name: string
+  role: 'primary' | 'secondary'
+  sets: number        // credited sets, fractional for a secondary muscle
+  volume_kg: number
+}
+
+// Same shape as a view row, so both feed one aggregation
+export interface VolumeContribution {
+  muscle_group: MuscleGroup
+  is_compound: boolean
+  total_sets: number
+  total_volume_kg: number
+}
+
+export function creditMuscleVolume(
+  sets: VolumeSetInput[],
+  secondaryFraction: number = DEFAULT_SECONDARY_FRACTION,
+  bodyweightKg: number | null = null
+): VolumeContribution[] {
+  const contributions: VolumeContribution[] = []
+
+  sets.forEach(set => {
+    const { exercise } = set
+    const load = resolveLoadKg(set.weight_kg, exercise.equipment, bodyweightKg) ?? 0
+    const volume = load * (set.reps ?? 0)
+    const credit = (muscle: string, share: number) =>
+      contributions.push({
+        muscle_group: muscle as MuscleGroup,
+        is_compound: exercise.is_compound,
+        total_sets: share,
+        total_volume_kg: volume * share,
+      })
+
+    credit(exercise.primary_muscle_group, 1)
+    if (secondaryFraction <= 0) return
+
+    // A muscle listed twice, or as both primary and secondary, is credited once
+    new Set(exercise.secondary_muscle_groups ?? []).forEach(muscle => {
+      if (muscle !== exercise.primary_muscle_group) credit(muscle, secondaryFraction)
+    })
+  })
+
+  return contributions
+}
+
+// Weighted counts can be fractional; whole numbers print without a decimal
+export function formatSetCount(sets: number): string {
+  const rounded = Math.round(sets * 10) / 10
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1)
+}
+
+export function totalByMuscle(
+  contributions: VolumeContribution[],
+  field: 'total_sets' | 'total_volume_kg'
+): Partial<Record<MuscleGroup, number>> {
+  const totals: Partial<Record<MuscleGroup, number>> = {}
+  contributions.forEach(c => {
+    totals[c.muscle_group] = (totals[c.muscle_group] ?? 0) + c[field]
+  })
+  return totals
+}
+
+// The exercises behind one muscle's count, biggest contributor first. A zero
+// fraction leaves out exercises that only hit it as a secondary.
+export function summarizeMuscleExercises(
+  sets: NamedVolumeSetInput[],
+  muscle: MuscleGroup,
+  secondaryFraction: number = DEFAULT_SECONDARY_FRACTION,
+  bodyweightKg: number | null = null
+): MuscleExerciseContribution[] {
+  const byExercise = new Map<string, MuscleExerciseContribution>()
+
+  sets.forEach(set => {
+    const { exercise } = set
+    const isPrimary = exercise.primary_muscle_group === muscle
+    const share = isPrimary
+      ? 1
+      : (exercise.secondary_muscle_groups ?? []).includes(muscle)
+        ? secondaryFraction
+        : 0
+    if (share <= 0) return
+
+    const load = resolveLoadKg(set.weight_kg, exercise.equipment, bodyweightKg) ?? 0
+    const entry = byExercise.get(exercise.id) ?? {
+      exercise_id: exercise.id,
+      exercise_name: exercise.name,
+      role: isPrimary ? 'primary' : 'secondary',
+      sets: 0,
+      volume_kg: 0,
+    }
+    entry.sets += share
+    entry.volume_kg += load * (set.reps ?? 0) * share
+    byExercise.set(exercise.id, entry)
+  })
+
+  return Array.from(byExercise.values()).sort((a, b) => b.sets - a.sets || b.volume_kg - a.volume_kg)
+}
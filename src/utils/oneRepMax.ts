@@ -0,0 +1,82 @@
+// src/utils/oneRepMax.ts
+// Estimated 1RM formulas. Every formula scales the load by a factor that
+// depends only on reps (and RPE), so the inverse is a plain division.
+import { E1RMFormula } from '../types/workout'
+
+export const DEFAULT_E1RM_FORMULA: E1RMFormula = 'epley'
+
+// Above this many reps every formula drifts; estimates are flagged
+export const LOW_CONFIDENCE_REPS = 10
+
+export const E1RM_FORMULA_LABELS: Record<E1RMFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  lombardi: 'Lombardi',
+  rpe: 'RPE chart',
+}
+
+export const E1RM_FORMULA_DESCRIPTIONS: Record<E1RMFormula, string> = {
+  epley: 'weight × (1 + reps / 30). The common default.',
+  brzycki: 'weight × 36 / (37 − reps). A little lower for higher reps.',
+  lombardi: 'weight × reps^0.1. Flattest curve of the three.',
+  rpe: 'Uses the set’s RPE with a reps-to-%1RM chart. Sets without RPE count as RPE 10.',
+}
+
+// %1RM for 1–12 reps taken to failure (RPE 10). Lower RPEs read the chart
+// at reps + reps in reserve, e.g. 5 @ RPE 8 uses the 7-rep column.
+const RPE_10_PERCENTAGES = [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68.0]
+
+function epleyFactor(reps: number): number {
+  return 1 + 0.0333 * reps
+}
+
+function rpeChartFactor(reps: number, rpe: number | null | undefined): number {
+  const effectiveReps = reps + (10 - Math.min(Math.max(rpe ?? 10, 6), 10))
+  // Past the chart, carry on along the Epley curve
+  if (effectiveReps > RPE_10_PERCENTAGES.length) return epleyFactor(effectiveReps)
+
+  const lower = Math.floor(effectiveReps)
+  const upper = Math.ceil(effectiveReps)
+  const pct =
+    RPE_10_PERCENTAGES[lower - 1] +
+    (RPE_10_PERCENTAGES[upper - 1] - RPE_10_PERCENTAGES[lower - 1]) * (effectiveReps - lower)
+  return 100 / pct
+}
+
+// Multiplier from the load lifted to the estimated 1RM
+export function getE1RMFactor(reps: number, formula: E1RMFormula, rpe?: number | null): number {
+  if (formula === 'rpe') return rpeChartFactor(Math.max(reps, 1), rpe)
+  if (reps <= 1) return 1
+
+  switch (formula) {
+    case 'brzycki':
+      // The formula breaks down at 37 reps; hold it just short
+      return 36 / (37 - Math.min(reps, 36))
+    case 'lombardi':
+      return reps ** 0.1
+    default:
+      return epleyFactor(reps)
+  }
+}
+
+export function estimateOneRepMax(
+  weightKg: number,
+  reps: number,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA,
+  rpe?: number | null
+): number {
+  return weightKg * getE1RMFactor(reps, formula, rpe)
+}
+
+// The load expected to move for `reps` (at RPE 10) given this 1RM
+export function estimateRepMax(
+  oneRepMaxKg: number,
+  reps: number,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): number {
+  return oneRepMaxKg / getE1RMFactor(reps, formula)
+}
+
+export function isLowConfidenceE1RM(reps: number): boolean {
+  return reps > LOW_CONFIDENCE_REPS
+}
@@ -0,0 +1,131 @@
+// src/utils/percentageTargets.ts
+// Percentage-based template loads ("5×5 @ 75% TM") resolved to weights the
+// lifter can actually load. Everything is in kg.
+
+import { EquipmentType, ExerciseMax, LoadBasis, WeightUnit } from '../types/workout'
+import { PlateSettings } from '../types/plates'
+import { calculatePlates, getBaseWeight } from './plateCalculator'
+import { getWeightIncrement, toDisplayWeight, toStorageWeight } from './units'
+
+// Training max as a share of the 1RM when none is stored (5/3/1 convention)
+export const DEFAULT_TRAINING_MAX_PCT = 90
+
+export const DEFAULT_SET_PERCENTAGE = 75
+
+export const LOAD_BASIS_LABELS: Record<LoadBasis, string> = {
+  one_rep_max: '1RM',
+  training_max: 'TM',
+}
+
+export const LOAD_BASIS_NAMES: Record<LoadBasis, string> = {
+  one_rep_max: 'One-rep max',
+  training_max: 'Training max',
+}
+
+// What an exercise's percentages resolve against, after fallbacks
+export interface LoadBases {
+  one_rep_max_kg: number | null
+  training_max_kg: number | null
+}
+
+// Resolved targets for one exercise in an active workout
+export interface PercentageTargets {
+  basis: LoadBasis
+  basisKg: number
+  percentages: number[]   // one per working set
+  weightsKg: number[]     // rounded to loadable weights
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Stored values win. Without a stored 1RM the best estimated 1RM stands in;
+// without a training max, a fixed share of the 1RM.
+export function resolveLoadBases(
+  stored: Pick<ExerciseMax, 'one_rep_max_kg' | 'training_max_kg'> | null | undefined,
+  bestE1rmKg: number | null
+): LoadBases {
+  const oneRepMax = stored?.one_rep_max_kg ?? bestE1rmKg
+  return {
+    one_rep_max_kg: oneRepMax,
+    training_max_kg:
+      stored?.training_max_kg ??
+      (oneRepMax !== null ? round2((oneRepMax * DEFAULT_TRAINING_MAX_PCT) / 100) : null),
+  }
+}
+
+export function getBasisKg(bases: LoadBases | undefined, basis: LoadBasis): number | null {
+  if (!bases) return null
+  return basis === 'training_max' ? bases.training_max_kg : bases.one_rep_max_kg
+}
+
+// One percentage per working set; a shorter list repeats its last value
+export function expandSetPercentages(percentages: number[], targetSets: number): number[] {
+  if (percentages.length === 0) return []
+  return Array.from(
+    { length: targetSets },
+    (_, i) => percentages[Math.min(i, percentages.length - 1)]
+  )
+}
+
+// Nearest weight the gym can make: the plate inventory for barbells and
+// plate-loaded machines, the +/- step for everything else
+export function roundToLoadable(
+  targetKg: number,
+  setup: {
+    exerciseId: string
+    equipment: EquipmentType
+    unit: WeightUnit
+    plateSettings: PlateSettings
+  }
+): number {
+  const { exerciseId, equipment, unit, plateSettings } = setup
+
+  if (equipment === 'barbell' || equipment === 'machine') {
+    return calculatePlates(targetKg, {
+      unit: plateSettings.unit,
+      baseWeight: getBaseWeight(plateSettings, exerciseId, equipment),
+      plates: plateSettings.plates,
+    }).loadedKg
+  }
+
+  const step = getWeightIncrement(unit)
+  return toStorageWeight(Math.round(toDisplayWeight(targetKg, unit) / step) * step, unit)
+}
+
+// Null when the template has no scheme or there is nothing to take a
+// percentage of yet; the card then falls back to progression suggestions
+export function resolvePercentageTargets(input: {
+  loadBasis: LoadBasis | null
+  setPercentages: number[] | null
+  targetSets: number
+  bases: LoadBases | undefined
+  exerciseId: string
+  equipment: EquipmentType
+  unit: WeightUnit
+  plateSettings: PlateSettings
+}): PercentageTargets | null {
+  const { loadBasis, setPercentages, targetSets, bases, ...setup } = input
+  if (!loadBasis || !setPercentages?.length) return null
+
+  const basisKg = getBasisKg(bases, loadBasis)
+  if (!basisKg) return null
+
+  const percentages = expandSetPercentages(setPercentages, targetSets)
+  return {
+    basis: loadBasis,
+    basisKg,
+    percentages,
+    weightsKg: percentages.map(pct => roundToLoadable((basisKg * pct) / 100, setup)),
+  }
+}
+
+// "75% TM", or "65–85% TM" across a ramp
+export function describePercentages(percentages: number[], basis: LoadBasis): string {
+  if (percentages.length === 0) return ''
+  const min = Math.min(...percentages)
+  const max = Math.max(...percentages)
+  const range = min === max ? `${min}%` : `${min}–${max}%`
+  return `${range} ${LOAD_BASIS_LABELS[basis]}`
+}
@@ -0,0 +1,238 @@
+// src/utils/personalRecords.ts
+// Client-side PR detection. Bests are built once per exercise from history,
+// then each logged set is checked against them and folded back in.
+
+import { E1RMFormula, PRType } from '../types/workout'
+import { calcSetVolume } from './workoutCalculations'
+import { DEFAULT_E1RM_FORMULA, estimateOneRepMax } from './oneRepMax'
+
+export const PR_TYPE_LABELS: Record<PRType, string> = {
+  weight: 'Heaviest weight',
+  e1rm: 'Best est. 1RM',
+  reps: 'Most reps at weight',
+  volume: 'Best session volume',
+}
+
+export interface ExerciseBests {
+  weightKg: number
+  e1rm: number
+  repsByWeight: Record<string, number>   // keyed by weight_kg
+  sessionVolumeKg: number                // best single-session total
+}
+
+export const EMPTY_BESTS: ExerciseBests = {
+  weightKg: 0,
+  e1rm: 0,
+  repsByWeight: {},
+  sessionVolumeKg: 0,
+}
+
+interface HistorySet {
+  workout_id: string
+  weight_kg: number | null
+  reps: number | null
+}
+
+interface HistoryRecord {
+  pr_type: PRType
+  weight_kg: number
+  reps: number
+  volume: number
+}
+
+// e1RM is compared at 0.1 kg so float noise never produces a "PR"
+function roundE1rm(weight: number, reps: number, formula: E1RMFormula): number {
+  return Math.round(estimateOneRepMax(weight, reps, formula) * 10) / 10
+}
+
+export function buildExerciseBests(
+  sets: HistorySet[],
+  records: HistoryRecord[] = [],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): ExerciseBests {
+  const bests: ExerciseBests = { ...EMPTY_BESTS, repsByWeight: {} }
+  const volumeByWorkout = new Map<string, number>()
+
+  sets.forEach(s => {
+    if (!s.weight_kg || !s.reps) return
+    bests.weightKg = Math.max(bests.weightKg, s.weight_kg)
+    bests.e1rm = Math.max(bests.e1rm, roundE1rm(s.weight_kg, s.reps, formula))
+    const key = String(s.weight_kg)
+    bests.repsByWeight[key] = Math.max(bests.repsByWeight[key] ?? 0, s.reps)
+    volumeByWorkout.set(
+      s.workout_id,
+      (volumeByWorkout.get(s.workout_id) ?? 0) + calcSetVolume(s.weight_kg, s.reps)
+    )
+  })
+
+  volumeByWorkout.forEach(volume => {
+    bests.sessionVolumeKg = Math.max(bests.sessionVolumeKg, volume)
+  })
+
+  // Manual entries (and anything recorded without set history) still count
+  return records.reduce((acc, r) => applyRecordToBests(acc, r, formula), bests)
+}
+
+function applyRecordToBests(
+  bests: ExerciseBests,
+  r: HistoryRecord,
+  formula: E1RMFormula
+): ExerciseBests {
+  if (r.pr_type === 'volume') {
+    return { ...bests, sessionVolumeKg: Math.max(bests.sessionVolumeKg, r.volume) }
+  }
+  return { ...applySetToBests(bests, r, formula), sessionVolumeKg: bests.sessionVolumeKg }
+}
+
+// Which categories this set beats. `sessionVolumeKg` is the exercise's running
+// total for the current workout including this set. Reps-at-weight only counts
+// when that weight has been lifted before; a first attempt isn't a record.
+export function detectSetPRs(
+  bests: ExerciseBests,
+  set: { weight_kg: number; reps: number },
+  sessionVolumeKg: number,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): PRType[] {
+  if (set.weight_kg <= 0 || set.reps <= 0) return []
+
+  const types: PRType[] = []
+  if (set.weight_kg > bests.weightKg) types.push('weight')
+  if (roundE1rm(set.weight_kg, set.reps, formula) > bests.e1rm) types.push('e1rm')
+
+  const previousReps = bests.repsByWeight[String(set.weight_kg)]
+  if (previousReps !== undefined && set.reps > previousReps) types.push('reps')
+
+  if (sessionVolumeKg > bests.sessionVolumeKg) types.push('volume')
+
+  return types
+}
+
+// Fold a logged set into the bests so later sets in the session compare
+// against it. Session volume stays the best of *previous* sessions.
+export function applySetToBests(
+  bests: ExerciseBests,
+  set: { weight_kg: number; reps: number },
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): ExerciseBests {
+  const key = String(set.weight_kg)
+  return {
+    ...bests,
+    weightKg: Math.max(bests.weightKg, set.weight_kg),
+    e1rm: Math.max(bests.e1rm, roundE1rm(set.weight_kg, set.reps, formula)),
+    repsByWeight: {
+      ...bests.repsByWeight,
+      [key]: Math.max(bests.repsByWeight[key] ?? 0, set.reps),
+    },
+  }
+}
+
+export interface ReplaySession {
+  workout_id: string
+  started_at: string
+  // Working sets in the order they were done
+  sets: { id: string; weight_kg: number | null; reps: number | null; completed_at: string }[]
+}
+
+export interface ReplayedRecord {
+  pr_type: PRType
+  weight_kg: number
+  reps: number
+  volume: number
+  estimated_1rm: number
+  workout_set_id: string | null
+  workout_id: string
+  achieved_at: string
+}
+
+// Rebuild an exercise's PR history from scratch, as if every session had been
+// logged live in date order. Manual records count from the day they were
+// entered but are never re-emitted. Used after bulk changes such as imports.
+export function replayPersonalRecords(
+  sessions: ReplaySession[],
+  manualRecords: (HistoryRecord & { achieved_at: string })[] = [],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): ReplayedRecord[] {
+  const ordered = [...sessions].sort((a, b) => a.started_at.localeCompare(b.started_at))
+  const manual = [...manualRecords].sort((a, b) => a.achieved_at.localeCompare(b.achieved_at))
+  const replayed: ReplayedRecord[] = []
+  let bests: ExerciseBests = { ...EMPTY_BESTS, repsByWeight: {} }
+  let nextManual = 0
+
+  ordered.forEach(session => {
+    while (nextManual < manual.length && manual[nextManual].achieved_at <= session.started_at) {
+      bests = applyRecordToBests(bests, manual[nextManual++], formula)
+    }
+
+    let sessionVolumeKg = 0
+    let volumeSet: { weight_kg: number; reps: number; id: string } | null = null
+    let lastCompletedAt = session.started_at
+
+    session.sets.forEach(s => {
+      if (!s.weight_kg || !s.reps || s.weight_kg <= 0 || s.reps <= 0) return
+      const set = { weight_kg: s.weight_kg, reps: s.reps }
+      sessionVolumeKg += calcSetVolume(set.weight_kg, set.reps)
+      lastCompletedAt = s.completed_at
+
+      const base = {
+        weight_kg: set.weight_kg,
+        reps: set.reps,
+        estimated_1rm: roundE1rm(set.weight_kg, set.reps, formula),
+        workout_set_id: s.id,
+        workout_id: session.workout_id,
+        achieved_at: s.completed_at,
+      }
+      detectSetPRs(bests, set, sessionVolumeKg, formula).forEach(type => {
+        if (type === 'volume') {
+          volumeSet = volumeSet ?? { ...set, id: s.id }
+          return
+        }
+        replayed.push({ ...base, pr_type: type, volume: calcSetVolume(set.weight_kg, set.reps) })
+      })
+      bests = applySetToBests(bests, set, formula)
+    })
+
+    // One volume record per session, carrying the final session total
+    if (volumeSet) {
+      const { weight_kg, reps } = volumeSet
+      replayed.push({
+        pr_type: 'volume',
+        weight_kg,
+        reps,
+        volume: sessionVolumeKg,
+        estimated_1rm: roundE1rm(weight_kg, reps, formula),
+        workout_set_id: null,
+        workout_id: session.workout_id,
+        achieved_at: lastCompletedAt,
+      })
+      bests = { ...bests, sessionVolumeKg }
+    }
+  })
+
+  return replayed
+}
+
+export interface RecordCountRow {
+  workout_set_id: string | null
+  workout_id: string | null
+  exercise_id: string
+}
+
+// PRs as the lifter sees them, not rows: a set that beat several categories
+// counts once, and a session-volume record only when none of that exercise's
+// sets in the session was a record itself. Manual entries count one each.
+export function countPersonalRecords(rows: RecordCountRow[]): number {
+  const setIds = new Set<string>()
+  const sessionsWithSetRecords = new Set<string>()
+  rows.forEach(row => {
+    if (!row.workout_set_id) return
+    setIds.add(row.workout_set_id)
+    if (row.workout_id) sessionsWithSetRecords.add(`${row.workout_id}:${row.exercise_id}`)
+  })
+
+  const standalone = rows.filter(
+    row =>
+      !row.workout_set_id &&
+      !(row.workout_id && sessionsWithSetRecords.has(`${row.workout_id}:${row.exercise_id}`))
+  )
+  return setIds.size + standalone.length
+}
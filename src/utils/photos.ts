@@ -0,0 +1,46 @@
+// src/utils/photos.ts
+// Storage layout and gallery grouping for progress photos
+
+import { GalleryPhoto } from '../types/photos'
+
+// Full photos are downscaled before upload; phone cameras shoot 4000px+
+export const PHOTO_MAX_WIDTH = 1440
+export const THUMBNAIL_WIDTH = 320
+export const PHOTO_JPEG_QUALITY = 0.8
+export const THUMBNAIL_JPEG_QUALITY = 0.6
+
+// The first folder must be the owner's id: the Storage RLS policies check it
+export function getPhotoStoragePaths(
+  userId: string,
+  photoId: string
+): { storage_path: string; thumbnail_path: string } {
+  return {
+    storage_path: `${userId}/${photoId}.jpg`,
+    thumbnail_path: `${userId}/${photoId}_thumb.jpg`,
+  }
+}
+
+export interface PhotoDay {
+  taken_on: string
+  photos: GalleryPhoto[]
+}
+
+// Newest day first; queued photos sort ahead of uploaded ones on the same day
+export function groupPhotosByDay(photos: GalleryPhoto[]): PhotoDay[] {
+  const days = new Map<string, GalleryPhoto[]>()
+  photos.forEach(photo => {
+    days.set(photo.taken_on, [...(days.get(photo.taken_on) ?? []), photo])
+  })
+  return Array.from(days.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([taken_on, dayPhotos]) => ({
+      taken_on,
+      photos: [...dayPhotos].sort((a, b) => Number(b.pending) - Number(a.pending)),
+    }))
+}
+
+// Default comparison: the oldest day against the newest
+export function getDefaultComparison(days: PhotoDay[]): [string, string] | null {
+  if (days.length < 2) return null
+  return [days[days.length - 1].taken_on, days[0].taken_on]
+}
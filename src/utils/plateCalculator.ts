@@ -0,0 +1,125 @@
+// src/utils/plateCalculator.ts
+// Per-side plate breakdown for barbells and plate-loaded machines
+
+import { EquipmentType, WeightUnit } from '../types/workout'
+import { PlateInventoryItem, PlateLoad, PlateSettings } from '../types/plates'
+import { toDisplayWeight, toStorageWeight } from './units'
+
+export const DEFAULT_PLATE_SETTINGS: Record<WeightUnit, PlateSettings> = {
+  kg: {
+    unit: 'kg',
+    barWeight: 20,
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 2 },
+      { weight: 15, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+      { weight: 1.25, pairs: 2 },
+    ],
+    machineStartWeights: {},
+  },
+  lbs: {
+    unit: 'lbs',
+    barWeight: 45,
+    plates: [
+      { weight: 45, pairs: 6 },
+      { weight: 35, pairs: 2 },
+      { weight: 25, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+    ],
+    machineStartWeights: {},
+  },
+}
+
+// Sums are keyed in hundredths so 1.25 + 2.5 never drifts
+const PRECISION = 100
+
+function toKey(weight: number): number {
+  return Math.round(weight * PRECISION)
+}
+
+// Every loadable per-side total (in hundredths) with one combination of plates
+// that makes it
+export function getLoadableSides(plates: PlateInventoryItem[]): Map<number, number[]> {
+  const sides = new Map<number, number[]>([[0, []]])
+
+  plates
+    .filter(plate => plate.weight > 0 && plate.pairs > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .forEach(plate => {
+      Array.from(sides.entries()).forEach(([key, combo]) => {
+        for (let n = 1; n <= plate.pairs; n++) {
+          const next = key + toKey(plate.weight) * n
+          if (!sides.has(next)) sides.set(next, [...combo, ...Array(n).fill(plate.weight)])
+        }
+      })
+    })
+
+  return sides
+}
+
+// Heaviest-first loading, the way plates go on in the gym. Null when greedy
+// picks paint it into a corner (unusual inventories).
+function loadGreedily(key: number, plates: PlateInventoryItem[]): number[] | null {
+  const perSide: number[] = []
+  let remaining = key
+
+  ;[...plates]
+    .sort((a, b) => b.weight - a.weight)
+    .forEach(plate => {
+      const plateKey = toKey(plate.weight)
+      if (plateKey <= 0) return
+      const count = Math.min(plate.pairs, Math.floor(remaining / plateKey))
+      for (let n = 0; n < count; n++) perSide.push(plate.weight)
+      remaining -= count * plateKey
+    })
+
+  return remaining === 0 ? perSide : null
+}
+
+export function calculatePlates(
+  targetKg: number,
+  setup: { unit: WeightUnit; baseWeight: number; plates: PlateInventoryItem[] }
+): PlateLoad {
+  const { unit, baseWeight } = setup
+  const sides = getLoadableSides(setup.plates)
+  const keys = Array.from(sides.keys()).sort((a, b) => a - b)
+  const perSideTarget = toKey((toDisplayWeight(targetKg, unit) - baseWeight) / 2)
+
+  const below = keys.filter(key => key <= perSideTarget).pop()
+  const above = keys.find(key => key >= perSideTarget)
+  const exact = below === perSideTarget
+
+  // Closest loadable total; ties go to the lighter load
+  const chosen =
+    below === undefined ? above!
+    : above === undefined ? below
+    : perSideTarget - below <= above - perSideTarget ? below : above
+
+  const totalKg = (key: number) => toStorageWeight(baseWeight + (2 * key) / PRECISION, unit)
+  const loadedWeight = Math.round((baseWeight + (2 * chosen) / PRECISION) * PRECISION) / PRECISION
+
+  return {
+    baseWeight,
+    perSide: loadGreedily(chosen, setup.plates) ?? sides.get(chosen) ?? [],
+    loadedWeight,
+    loadedKg: totalKg(chosen),
+    exact,
+    nearestBelowKg: !exact && below !== undefined ? totalKg(below) : null,
+    nearestAboveKg: !exact && above !== undefined ? totalKg(above) : null,
+  }
+}
+
+// Bar for barbells, the exercise's configured starting resistance for machines
+export function getBaseWeight(
+  settings: PlateSettings,
+  exerciseId: string,
+  equipment: EquipmentType
+): number {
+  if (equipment === 'machine') return settings.machineStartWeights[exerciseId] ?? 0
+  return settings.barWeight
+}
@@ -0,0 +1,52 @@
+// src/utils/programSchedule.ts
+// Schedule math for multi-week programs. Progress is tracked as an index into
+// the ordered day list; rest days are used up by calendar days passing, and
+// training days only by completing the scheduled workout.
+
+import { ProgramDay } from '../types/program'
+
+export function sortProgramDays<T extends Pick<ProgramDay, 'week_number' | 'day_number'>>(
+  days: T[]
+): T[] {
+  return [...days].sort((a, b) => a.week_number - b.week_number || a.day_number - b.day_number)
+}
+
+// Whole local calendar days from `from` to `to` (0 if same day)
+export function calendarDaysBetween(from: Date, to: Date): number {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate())
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 86400000))
+}
+
+// Where the user is today: skip one rest day per calendar day since the last
+// advance. Returns days.length when the program has run out.
+export function resolveCurrentDayIndex(
+  days: Pick<ProgramDay, 'template_id'>[],
+  currentIndex: number,
+  lastAdvancedAt: string,
+  now: Date = new Date()
+): number {
+  let index = currentIndex
+  let spareDays = calendarDaysBetween(new Date(lastAdvancedAt), now)
+
+  while (index < days.length && days[index].template_id === null && spareDays > 0) {
+    index++
+    spareDays--
+  }
+
+  return index
+}
+
+// Index after completing the session at `completedIndex`. Sessions done out of
+// order never move progress backwards.
+export function nextDayIndex(currentIndex: number, completedIndex: number): number {
+  return Math.max(currentIndex, completedIndex + 1)
+}
+
+// True once only rest days (or nothing) remain
+export function isProgramFinished(
+  days: Pick<ProgramDay, 'template_id'>[],
+  index: number
+): boolean {
+  return days.slice(index).every(day => day.template_id === null)
+}
@@ -0,0 +1,232 @@
+// src/utils/strengthStandards.ts
+// Powerlifting scores (Wilks, DOTS, IPF GL) and beginner-to-elite strength
+// levels for the big three. Everything is in kg.
+
+import {
+  BigThreeBests,
+  BigThreeLift,
+  LiftStanding,
+  RelativeStrength,
+  Sex,
+  StrengthLevel,
+} from '../types/strength'
+
+export const STRENGTH_LEVELS: StrengthLevel[] = ['beginner', 'novice', 'intermediate', 'advanced', 'elite']
+
+export const STRENGTH_LEVEL_LABELS: Record<StrengthLevel, string> = {
+  beginner: 'Beginner',
+  novice: 'Novice',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  elite: 'Elite',
+}
+
+export const BIG_THREE_LABELS: Record<BigThreeLift, string> = {
+  squat: 'Squat',
+  bench: 'Bench Press',
+  deadlift: 'Deadlift',
+}
+
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduce((sum, c, power) => sum + c * x ** power, 0)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Original Wilks (1990s) coefficients, as most meet results still quote it
+const WILKS: Record<Sex, { coefficients: number[]; min: number; max: number }> = {
+  male: {
+    coefficients: [-216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8],
+    min: 40,
+    max: 201.9,
+  },
+  female: {
+    coefficients: [594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913, 4.731582e-5, -9.054e-8],
+    min: 26.51,
+    max: 154.53,
+  },
+}
+
+const DOTS: Record<Sex, { coefficients: number[]; min: number; max: number }> = {
+  male: {
+    coefficients: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093],
+    min: 40,
+    max: 210,
+  },
+  female: {
+    coefficients: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706],
+    min: 40,
+    max: 150,
+  },
+}
+
+// IPF GL points, classic (raw) three-lift coefficients
+const IPF_GL: Record<Sex, { a: number; b: number; c: number }> = {
+  male: { a: 1199.72839, b: 1025.18162, c: 0.00921 },
+  female: { a: 610.32796, b: 1045.59282, c: 0.03048 },
+}
+
+export function calcWilks(totalKg: number, bodyweightKg: number, sex: Sex): number {
+  const { coefficients, min, max } = WILKS[sex]
+  return round2((totalKg * 500) / polynomial(coefficients, clamp(bodyweightKg, min, max)))
+}
+
+export function calcDots(totalKg: number, bodyweightKg: number, sex: Sex): number {
+  const { coefficients, min, max } = DOTS[sex]
+  return round2((totalKg * 500) / polynomial(coefficients, clamp(bodyweightKg, min, max)))
+}
+
+export function calcIpfGl(totalKg: number, bodyweightKg: number, sex: Sex): number {
+  const { a, b, c } = IPF_GL[sex]
+  return round2((totalKg * 100) / (a - b * Math.exp(-c * bodyweightKg)))
+}
+
+// 1RM (kg) needed for novice, intermediate, advanced and elite at a given
+// bodyweight; anything below novice is beginner. Approximate population
+// standards for adult lifters, interpolated between the listed bodyweights.
+type StandardsRow = [bodyweightKg: number, novice: number, intermediate: number, advanced: number, elite: number]
+
+const STANDARDS: Record<Sex, Record<BigThreeLift, StandardsRow[]>> = {
+  male: {
+    squat: [
+      [60, 68, 95, 126, 161],
+      [70, 82, 112, 146, 184],
+      [80, 95, 127, 164, 204],
+      [90, 107, 141, 180, 222],
+      [100, 118, 154, 195, 238],
+      [110, 128, 166, 208, 253],
+      [120, 138, 177, 220, 266],
+      [140, 155, 197, 242, 290],
+    ],
+    bench: [
+      [60, 53, 74, 98, 125],
+      [70, 63, 86, 113, 142],
+      [80, 73, 98, 127, 158],
+      [90, 82, 109, 140, 172],
+      [100, 90, 119, 151, 185],
+      [110, 98, 128, 162, 197],
+      [120, 105, 137, 172, 208],
+      [140, 118, 153, 190, 227],
+    ],
+    deadlift: [
+      [60, 84, 114, 149, 187],
+      [70, 99, 132, 170, 211],
+      [80, 113, 149, 189, 233],
+      [90, 126, 164, 207, 253],
+      [100, 138, 178, 223, 271],
+      [110, 149, 191, 238, 287],
+      [120, 159, 203, 251, 302],
+      [140, 178, 225, 276, 329],
+    ],
+  },
+  female: {
+    squat: [
+      [50, 39, 59, 84, 112],
+      [60, 47, 69, 96, 126],
+      [70, 54, 78, 106, 138],
+      [80, 60, 86, 115, 148],
+      [90, 66, 93, 123, 157],
+      [100, 71, 99, 131, 166],
+      [120, 81, 110, 143, 180],
+    ],
+    bench: [
+      [50, 25, 39, 56, 76],
+      [60, 30, 45, 64, 85],
+      [70, 34, 51, 71, 93],
+      [80, 38, 56, 77, 100],
+      [90, 42, 61, 82, 106],
+      [100, 45, 65, 87, 112],
+      [120, 51, 72, 96, 122],
+    ],
+    deadlift: [
+      [50, 50, 72, 99, 128],
+      [60, 58, 82, 111, 142],
+      [70, 65, 91, 121, 154],
+      [80, 72, 99, 130, 164],
+      [90, 78, 106, 138, 173],
+      [100, 83, 112, 145, 181],
+      [120, 93, 123, 158, 195],
+    ],
+  },
+}
+
+// Thresholds for every level at this bodyweight, beginner first (always 0).
+// Bodyweights outside the table use its lightest or heaviest row.
+export function getLiftThresholds(lift: BigThreeLift, bodyweightKg: number, sex: Sex): number[] {
+  const rows = STANDARDS[sex][lift]
+  const bw = clamp(bodyweightKg, rows[0][0], rows[rows.length - 1][0])
+  const upperIndex = Math.max(1, rows.findIndex(row => row[0] >= bw))
+  const lower = rows[upperIndex - 1]
+  const upper = rows[upperIndex]
+  const t = (bw - lower[0]) / (upper[0] - lower[0])
+
+  return [
+    0,
+    ...lower.slice(1).map((value, i) => Math.round((value + (upper[i + 1] - value) * t) * 10) / 10),
+  ]
+}
+
+export function classifyLift(
+  lift: BigThreeLift,
+  oneRepMaxKg: number,
+  bodyweightKg: number,
+  sex: Sex
+): LiftStanding {
+  const thresholds = getLiftThresholds(lift, bodyweightKg, sex)
+  let levelIndex = 0
+  thresholds.forEach((threshold, i) => {
+    if (oneRepMaxKg >= threshold) levelIndex = i
+  })
+
+  const nextIndex = levelIndex + 1
+  const next =
+    nextIndex < STRENGTH_LEVELS.length
+      ? {
+          level: STRENGTH_LEVELS[nextIndex],
+          target_kg: thresholds[nextIndex],
+          remaining_kg: Math.round((thresholds[nextIndex] - oneRepMaxKg) * 10) / 10,
+          // How far through the current tier, 0..1
+          progress:
+            (oneRepMaxKg - thresholds[levelIndex]) / (thresholds[nextIndex] - thresholds[levelIndex]),
+        }
+      : null
+
+  return {
+    lift,
+    one_rep_max_kg: oneRepMaxKg,
+    bodyweight_multiple: round2(oneRepMaxKg / bodyweightKg),
+    level: STRENGTH_LEVELS[levelIndex],
+    next,
+  }
+}
+
+// Lifts without a PR are left out; the total and scores need all three
+export function calcRelativeStrength(
+  bests: BigThreeBests,
+  bodyweightKg: number,
+  sex: Sex
+): RelativeStrength {
+  const lifts = (Object.keys(BIG_THREE_LABELS) as BigThreeLift[])
+    .filter(lift => bests[lift])
+    .map(lift => classifyLift(lift, bests[lift]!.one_rep_max_kg, bodyweightKg, sex))
+
+  const complete = lifts.length === 3
+  const total = complete ? round2(lifts.reduce((sum, l) => sum + l.one_rep_max_kg, 0)) : null
+
+  return {
+    bodyweight_kg: bodyweightKg,
+    sex,
+    total_kg: total,
+    total_is_estimated: Object.values(bests).some(b => b?.estimated),
+    wilks: total !== null ? calcWilks(total, bodyweightKg, sex) : null,
+    dots: total !== null ? calcDots(total, bodyweightKg, sex) : null,
+    ipf_gl: total !== null ? calcIpfGl(total, bodyweightKg, sex) : null,
+    lifts,
+  }
+}
@@ -0,0 +1,61 @@
+// src/utils/units.ts
+// Weight unit conversion. Everything is stored as weight_kg; these helpers
+// convert to the profile's display unit and back at the UI boundary.
+
+import { WeightUnit } from '../types/workout'
+import { LengthUnit } from '../types/measurements'
+
+export const KG_PER_LB = 0.45359237
+export const CM_PER_IN = 2.54
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+// kg → display unit. lbs are shown to 0.1 so a value entered in lbs and
+// stored as kg comes back exactly as typed.
+export function toDisplayWeight(kg: number, unit: WeightUnit): number {
+  if (unit === 'lbs') return roundTo(kg / KG_PER_LB, 1)
+  return roundTo(kg, 2)
+}
+
+// display unit → kg, for writes. 0.01 kg is well inside the 0.1 lb display step.
+export function toStorageWeight(value: number, unit: WeightUnit): number {
+  if (unit === 'lbs') return roundTo(value * KG_PER_LB, 2)
+  return value
+}
+
+// Whole-number totals (tonnage) in the display unit
+export function toDisplayVolume(kg: number, unit: WeightUnit): number {
+  return Math.round(unit === 'lbs' ? kg / KG_PER_LB : kg)
+}
+
+export function formatWeight(kg: number, unit: WeightUnit): string {
+  return `${toDisplayWeight(kg, unit)}${unit}`
+}
+
+// Compact tonnage: 12,345 kg → "12.3k"
+export function formatVolume(kg: number, unit: WeightUnit): string {
+  const value = toDisplayVolume(kg, unit)
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}k`
+  return value.toString()
+}
+
+// Step used by the +/- buttons: smallest common plate pair in each system
+export function getWeightIncrement(unit: WeightUnit): number {
+  return unit === 'lbs' ? 5 : 2.5
+}
+
+// Tape measurements follow the weight unit: metric users get cm, lbs users inches
+export function getLengthUnit(unit: WeightUnit): LengthUnit {
+  return unit === 'lbs' ? 'in' : 'cm'
+}
+
+export function toDisplayLength(cm: number, unit: LengthUnit): number {
+  return roundTo(unit === 'in' ? cm / CM_PER_IN : cm, 1)
+}
+
+export function toStorageLength(value: number, unit: LengthUnit): number {
+  return unit === 'in' ? roundTo(value * CM_PER_IN, 2) : value
+}
@@ -0,0 +1,11 @@
+// src/utils/uuid.ts
+// Client-side id generation so rows can be created while offline and
+// replayed later without the server assigning (and us losing track of) the id.
+
+export function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
@@ -0,0 +1,87 @@
+// src/utils/volumeLandmarks.ts
+// Default MEV/MAV/MRV per muscle group and the banding of a week's sets
+// against them. Defaults are weekly working sets for an intermediate lifter;
+// users override them per muscle.
+
+import { MuscleGroup } from '../types/workout'
+import {
+  MuscleVolumeData,
+  VolumeLandmarks,
+  VolumeReport,
+  VolumeZone,
+} from '../types/analytics'
+import { colors } from '../theme'
+
+export const DEFAULT_VOLUME_LANDMARKS: Record<MuscleGroup, VolumeLandmarks> = {
+  chest: { mev: 8, mav: 16, mrv: 22 },
+  back: { mev: 8, mav: 14, mrv: 20 },
+  lats: { mev: 8, mav: 14, mrv: 20 },
+  traps: { mev: 4, mav: 12, mrv: 20 },
+  front_delt: { mev: 0, mav: 6, mrv: 12 },   // pressing covers most of it
+  side_delt: { mev: 8, mav: 16, mrv: 26 },
+  rear_delt: { mev: 6, mav: 14, mrv: 22 },
+  biceps: { mev: 8, mav: 16, mrv: 26 },
+  triceps: { mev: 6, mav: 12, mrv: 18 },
+  forearms: { mev: 2, mav: 8, mrv: 16 },
+  quadriceps: { mev: 8, mav: 15, mrv: 20 },
+  hamstrings: { mev: 6, mav: 12, mrv: 20 },
+  glutes: { mev: 4, mav: 10, mrv: 16 },
+  calves: { mev: 8, mav: 14, mrv: 20 },
+  core: { mev: 0, mav: 12, mrv: 25 },
+}
+
+export const VOLUME_ZONE_LABELS: Record<VolumeZone, string> = {
+  below_mev: 'Below MEV',
+  productive: 'Productive',
+  high: 'Near MRV',
+  over_mrv: 'Over MRV',
+}
+
+export const VOLUME_ZONE_COLORS: Record<VolumeZone, string> = {
+  below_mev: colors.text.muted,
+  productive: colors.success,
+  high: colors.warning,
+  over_mrv: colors.error,
+}
+
+// Landmarks are inclusive on the productive side: hitting MEV counts, and
+// so does landing exactly on MRV
+export function classifyVolume(sets: number, landmarks: VolumeLandmarks): VolumeZone {
+  if (sets < landmarks.mev) return 'below_mev'
+  if (sets <= landmarks.mav) return 'productive'
+  if (sets <= landmarks.mrv) return 'high'
+  return 'over_mrv'
+}
+
+// Null when the three values can be saved
+export function validateLandmarks(landmarks: VolumeLandmarks): string | null {
+  const values = [landmarks.mev, landmarks.mav, landmarks.mrv]
+  if (values.some(v => !Number.isInteger(v) || v < 0)) return 'Use whole numbers of sets'
+  if (landmarks.mev > landmarks.mav || landmarks.mav > landmarks.mrv) {
+    return 'Keep MEV ≤ MAV ≤ MRV'
+  }
+  return null
+}
+
+// Muscles with no sets this week still count as under-trained when their MEV
+// is above zero
+export function buildVolumeReport(
+  muscleGroups: MuscleVolumeData[],
+  landmarks: Record<MuscleGroup, VolumeLandmarks>,
+  getSets: (data: MuscleVolumeData) => number = data => data.total_sets
+): VolumeReport {
+  const setsByMuscle = new Map(muscleGroups.map(mg => [mg.muscle_group, getSets(mg)]))
+  const report: VolumeReport = { under: [], over: [] }
+
+  for (const muscle of Object.keys(landmarks) as MuscleGroup[]) {
+    const sets = setsByMuscle.get(muscle) ?? 0
+    const zone = classifyVolume(sets, landmarks[muscle])
+    if (zone === 'below_mev') report.under.push({ muscle_group: muscle, sets, landmarks: landmarks[muscle] })
+    if (zone === 'over_mrv') report.over.push({ muscle_group: muscle, sets, landmarks: landmarks[muscle] })
+  }
+
+  // Furthest from the target first
+  report.under.sort((a, b) => a.sets - a.landmarks.mev - (b.sets - b.landmarks.mev))
+  report.over.sort((a, b) => b.sets - b.landmarks.mrv - (a.sets - a.landmarks.mrv))
+  return report
+}
@@ -1,22 +1,50 @@
 // src/utils/workoutCalculations.ts
 // Workout math utilities extracted from hooks and screens
-import { TemplateExerciseFormData } from '../types/workout'
+import { E1RMFormula, EquipmentType, Exercise, TemplateExerciseFormData, WeightUnit } from '../types/workout'
+import { toDisplayWeight, toStorageWeight, getWeightIncrement } from './units'
+import { DEFAULT_E1RM_FORMULA, estimateOneRepMax, estimateRepMax, isLowConfidenceE1RM } from './oneRepMax'
 
 export function calcSetVolume(weight_kg: number | null, reps: number | null): number {
   return (weight_kg ?? 0) * (reps ?? 0)
 }
 
+// Bodyweight movements are logged without a load; for volume they move the
+// lifter's latest bodyweight. A logged load (e.g. a weighted vest) wins.
+export function resolveLoadKg(
+  weight_kg: number | null,
+  equipment: EquipmentType | string | undefined,
+  bodyweightKg: number | null
+): number | null {
+  if (weight_kg !== null) return weight_kg
+  return equipment === 'bodyweight' ? bodyweightKg : null
+}
+
 interface SetLike {
   is_warmup: boolean
   weight_kg: number | null
   reps: number | null
+  rpe?: number | null
 }
 
 interface ExerciseLike {
+  exercise?: { equipment?: string } | null
   sets?: SetLike[]
 }
 
-export function calcWorkoutStats(exercises: ExerciseLike[]): {
+// Whether totalling these exercises needs the lifter's bodyweight, so callers
+// only look it up when a bodyweight set was logged without a load
+export function needsBodyweight(exercises: ExerciseLike[]): boolean {
+  return exercises.some(
+    ex =>
+      ex.exercise?.equipment === 'bodyweight' &&
+      (ex.sets ?? []).some(s => !s.is_warmup && s.weight_kg === null && !!s.reps)
+  )
+}
+
+export function calcWorkoutStats(
+  exercises: ExerciseLike[],
+  bodyweightKg: number | null = null
+): {
   totalSets: number
   totalVolumeKg: number
 } {
@@ -27,7 +55,10 @@ export function calcWorkoutStats(exercises: ExerciseLike[]): {
     const workingSets = (ex.sets ?? []).filter(s => !s.is_warmup)
     totalSets += workingSets.length
     workingSets.forEach(s => {
-      totalVolumeKg += calcSetVolume(s.weight_kg, s.reps)
+      totalVolumeKg += calcSetVolume(
+        resolveLoadKg(s.weight_kg, ex.exercise?.equipment, bodyweightKg),
+        s.reps
+      )
     })
   })
 
@@ -42,12 +73,258 @@ export function calcEstimatedDuration(exercises: TemplateExerciseFormData[]): nu
   return Math.round(total)
 }
 
+// Stored PR rows always use Epley; displays re-estimate with the user's formula
 export function calcEpley1RM(weight: number, reps: number): number {
-  if (reps <= 1) return weight
-  return weight * (1 + 0.0333 * reps)
+  return estimateOneRepMax(weight, reps, 'epley')
 }
 
 export function calcPctChange(current: number, previous: number): number | null {
   if (previous === 0) return null
   return Math.round(((current - previous) / previous) * 100)
 }
+
+// ── Progressive overload ─────────────────────────────────────────────────────
+
+export type ProgressionScheme = 'double' | 'linear' | 'rpe'
+
+// Smallest sensible jump per equipment type, in each unit system.
+// 0 = load can't be micro-loaded (bodyweight, bands): progress reps instead.
+export const PROGRESSION_INCREMENTS: Record<EquipmentType, Record<WeightUnit, number>> = {
+  barbell: { kg: 2.5, lbs: 5 },
+  dumbbell: { kg: 2, lbs: 5 },
+  cable: { kg: 2.5, lbs: 5 },
+  machine: { kg: 5, lbs: 10 },
+  kettlebell: { kg: 4, lbs: 10 },
+  bodyweight: { kg: 0, lbs: 0 },
+  resistance_band: { kg: 0, lbs: 0 },
+  other: { kg: 2.5, lbs: 5 },
+}
+
+// Double progression works up from (target - range) reps to target before adding load
+export const DOUBLE_PROGRESSION_RANGE = 4
+
+// ~1 RPE point (= 1 rep in reserve) is worth ~4% of load; cap single-session swings
+const RPE_LOAD_STEP = 0.04
+const MAX_RPE_ADJUSTMENT = 0.1
+
+interface ProgressionSet {
+  weight_kg: number
+  reps: number
+  rpe?: number | null
+}
+
+export interface ProgressionInput {
+  previousSets: ProgressionSet[]   // last session's working sets, in set order
+  targetReps: number | null
+  targetRpe: number | null
+  equipment: EquipmentType
+  isCompound: boolean
+  unit: WeightUnit
+  scheme?: ProgressionScheme       // override the automatic choice
+}
+
+export interface ProgressionSuggestion {
+  scheme: ProgressionScheme
+  weightKg: number
+  reps: number
+  deltaKg: number
+  reason: string
+}
+
+// RPE targets with logged RPE autoregulate; otherwise compounds progress
+// linearly and isolation work uses double progression.
+export function pickProgressionScheme(input: ProgressionInput): ProgressionScheme {
+  if (input.targetRpe != null && input.previousSets.some(s => s.rpe != null)) return 'rpe'
+  return input.isCompound ? 'linear' : 'double'
+}
+
+function formatSetsDone(sets: ProgressionSet[]): string {
+  const reps = sets.map(s => s.reps)
+  return reps.every(r => r === reps[0]) ? `${sets.length}×${reps[0]}` : reps.join(', ')
+}
+
+// Add `steps` increments in the display unit so suggestions land on loadable numbers
+function stepWeight(weightKg: number, steps: number, increment: number, unit: WeightUnit): number {
+  const next = Math.max(0, toDisplayWeight(weightKg, unit) + steps * increment)
+  return toStorageWeight(Math.round(next * 100) / 100, unit)
+}
+
+export function suggestProgression(input: ProgressionInput): ProgressionSuggestion | null {
+  const { previousSets, unit } = input
+  if (previousSets.length === 0) return null
+
+  const scheme = input.scheme ?? pickProgressionScheme(input)
+  const increment = PROGRESSION_INCREMENTS[input.equipment][unit]
+  const topSet = previousSets.reduce((best, s) => (s.weight_kg > best.weight_kg ? s : best))
+  const targetReps = input.targetReps ?? topSet.reps
+  const done = formatSetsDone(previousSets)
+  const minReps = Math.min(...previousSets.map(s => s.reps))
+
+  const suggest = (
+    weightKg: number,
+    reps: number,
+    reason: string,
+    fromKg = topSet.weight_kg
+  ): ProgressionSuggestion => ({
+    scheme,
+    weightKg,
+    reps,
+    deltaKg: Math.round((weightKg - fromKg) * 100) / 100,
+    reason,
+  })
+
+  if (scheme === 'rpe') {
+    const rated = previousSets.filter(s => s.rpe != null)
+    if (rated.length === 0 || input.targetRpe == null) return null
+    const reference = rated.reduce((best, s) => (s.weight_kg > best.weight_kg ? s : best))
+
+    // Each rep short of (or beyond) the target counts like one RPE point
+    const gap = input.targetRpe - (reference.rpe as number) + (reference.reps - targetReps)
+    const pct = Math.max(-MAX_RPE_ADJUSTMENT, Math.min(MAX_RPE_ADJUSTMENT, gap * RPE_LOAD_STEP))
+    const steps = increment > 0
+      ? Math.round((toDisplayWeight(reference.weight_kg, unit) * pct) / increment)
+      : 0
+    return suggest(
+      stepWeight(reference.weight_kg, steps, increment, unit),
+      targetReps,
+      `${reference.reps} reps @ RPE ${reference.rpe} last time, target RPE ${input.targetRpe}`,
+      reference.weight_kg
+    )
+  }
+
+  const hitTarget = previousSets.every(s => s.reps >= targetReps)
+
+  // No way to add load: chase reps instead
+  if (increment === 0) {
+    const maxReps = Math.max(...previousSets.map(s => s.reps))
+    return suggest(topSet.weight_kg, maxReps + 1, `${done} last time, go for ${maxReps + 1}`)
+  }
+
+  if (scheme === 'linear') {
+    return hitTarget
+      ? suggest(stepWeight(topSet.weight_kg, 1, increment, unit), targetReps, `hit ${done} last time`)
+      : suggest(topSet.weight_kg, targetReps, `${done} last time, target ${previousSets.length}×${targetReps}`)
+  }
+
+  // Double progression: reps first, then load once every set reaches the target
+  if (hitTarget) {
+    const resetReps = Math.max(1, targetReps - DOUBLE_PROGRESSION_RANGE)
+    return suggest(stepWeight(topSet.weight_kg, 1, increment, unit), resetReps, `hit ${done} last time`)
+  }
+  return suggest(
+    topSet.weight_kg,
+    Math.min(targetReps, minReps + 1),
+    `${done} last time, build to ${previousSets.length}×${targetReps}`
+  )
+}
+
+// ── Warm-ups ─────────────────────────────────────────────────────────────────
+
+// Empty bar, then a ramp of the first working weight with falling reps
+export const WARMUP_RAMP: { pct: number; reps: number }[] = [
+  { pct: 0, reps: 10 },
+  { pct: 0.4, reps: 5 },
+  { pct: 0.6, reps: 3 },
+  { pct: 0.8, reps: 1 },
+]
+
+export interface WarmupSet {
+  weightKg: number
+  reps: number
+}
+
+export function canGenerateWarmups(exercise: Pick<Exercise, 'equipment' | 'is_compound'>): boolean {
+  return exercise.is_compound && exercise.equipment === 'barbell'
+}
+
+// Steps are rounded to the smallest plate increment in the display unit and
+// never go below the bar; steps that round onto the previous one or reach the
+// working weight are dropped, so light working sets get a shorter ramp. The
+// bar is whatever the user set up in their plate settings.
+export function generateWarmupSets(
+  workingWeightKg: number,
+  unit: WeightUnit,
+  barWeightKg: number
+): WarmupSet[] {
+  const bar = toDisplayWeight(barWeightKg, unit)
+  const increment = getWeightIncrement(unit)
+  const working = toDisplayWeight(workingWeightKg, unit)
+  const sets: WarmupSet[] = []
+  let previous = 0
+
+  WARMUP_RAMP.forEach(step => {
+    const rounded = Math.round((working * step.pct) / increment) * increment
+    const weight = Math.max(bar, Math.round(rounded * 100) / 100)
+    if (weight <= previous || weight >= working) return
+    sets.push({ weightKg: toStorageWeight(weight, unit), reps: step.reps })
+    previous = weight
+  })
+
+  return sets
+}
+
+// ── Rep maxes ────────────────────────────────────────────────────────────────
+
+export const REP_MAX_RANGE = 12
+
+export interface BestE1RM {
+  e1rmKg: number
+  weightKg: number
+  reps: number
+  lowConfidence: boolean
+}
+
+export interface RepMaxRow {
+  reps: number
+  actualKg: number | null   // heaviest load lifted for at least this many reps
+  estimatedKg: number       // inverse of the e1RM formula from the best e1RM
+}
+
+// Inverse of the e1RM formula: the load expected to move for `reps` at this 1RM
+export function calcRepMaxFromE1RM(
+  oneRepMaxKg: number,
+  reps: number,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): number {
+  return estimateRepMax(oneRepMaxKg, reps, formula)
+}
+
+export function calcBestE1RM(
+  sets: SetLike[],
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): BestE1RM | null {
+  let best: BestE1RM | null = null
+
+  sets.forEach(s => {
+    if (s.is_warmup || !s.weight_kg || !s.reps) return
+    const e1rmKg = Math.round(estimateOneRepMax(s.weight_kg, s.reps, formula, s.rpe) * 10) / 10
+    if (!best || e1rmKg > best.e1rmKg) {
+      best = { e1rmKg, weightKg: s.weight_kg, reps: s.reps, lowConfidence: isLowConfidenceE1RM(s.reps) }
+    }
+  })
+
+  return best
+}
+
+export function buildRepMaxTable(
+  sets: SetLike[],
+  maxReps = REP_MAX_RANGE,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): RepMaxRow[] {
+  const best = calcBestE1RM(sets, formula)
+  if (!best) return []
+
+  const working = sets.filter(s => !s.is_warmup && s.weight_kg && s.reps)
+
+  return Array.from({ length: maxReps }, (_, i) => {
+    const reps = i + 1
+    const actual = working
+      .filter(s => (s.reps ?? 0) >= reps)
+      .reduce<number | null>((max, s) => Math.max(max ?? 0, s.weight_kg ?? 0), null)
+    return {
+      reps,
+      actualKg: actual,
+      estimatedKg: Math.round(calcRepMaxFromE1RM(best.e1rmKg, reps, formula) * 10) / 10,
+    }
+  })
+}
@@ -0,0 +1,188 @@
+// src/utils/workoutEdits.ts
+// Turns an edited copy of a completed workout into the writes that bring the
+// stored one in line, and lists the exercises whose PRs need replaying.
+
+import { ExerciseGroupType } from '../types/workout'
+
+export interface EditableSet {
+  id: string
+  set_number: number
+  weight_kg: number | null
+  reps: number | null
+  rpe: number | null
+  is_warmup: boolean
+  is_failure: boolean
+  is_dropset: boolean
+  completed_at: string
+}
+
+export interface EditableExercise {
+  id: string
+  order_index: number
+  group_id: string | null
+  group_type: ExerciseGroupType | null
+  exercise: { id: string }
+  sets: EditableSet[]
+}
+
+export interface EditableWorkout {
+  id: string
+  started_at: string
+  completed_at: string | null
+  notes: string | null
+  exercises: EditableExercise[]
+}
+
+type SetValues = Omit<EditableSet, 'id'>
+
+export interface WorkoutEditPlan {
+  workout: Partial<Pick<EditableWorkout, 'started_at' | 'completed_at' | 'notes'>> | null
+  deletedSetIds: string[]                 // includes every set of a removed exercise
+  removedExerciseIds: string[]            // workout_exercises rows
+  addedExercises: {
+    id: string
+    workout_id: string
+    exercise_id: string
+    order_index: number
+    group_id: string | null
+    group_type: ExerciseGroupType | null
+    is_substitution: boolean
+  }[]
+  updatedExercises: { id: string; changes: Partial<Pick<EditableExercise, 'order_index' | 'group_id' | 'group_type'>> }[]
+  insertedSets: (SetValues & { id: string; workout_exercise_id: string })[]
+  updatedSets: { id: string; changes: Partial<SetValues> }[]
+  affectedExerciseIds: string[]           // exercises (not rows) to replay PRs for
+}
+
+const SET_FIELDS: (keyof SetValues)[] = [
+  'set_number',
+  'weight_kg',
+  'reps',
+  'rpe',
+  'is_warmup',
+  'is_failure',
+  'is_dropset',
+  'completed_at',
+]
+
+function shiftIso(iso: string, ms: number): string {
+  return new Date(new Date(iso).getTime() + ms).toISOString()
+}
+
+export function isWorkoutEditEmpty(plan: WorkoutEditPlan): boolean {
+  return (
+    !plan.workout &&
+    plan.deletedSetIds.length === 0 &&
+    plan.removedExerciseIds.length === 0 &&
+    plan.addedExercises.length === 0 &&
+    plan.updatedExercises.length === 0 &&
+    plan.insertedSets.length === 0 &&
+    plan.updatedSets.length === 0
+  )
+}
+
+// Null when the edit can be saved
+export function validateWorkoutEdit(edited: EditableWorkout, now = new Date()): string | null {
+  const start = new Date(edited.started_at).getTime()
+  if (start > now.getTime()) return 'A workout cannot start in the future'
+  if (edited.completed_at && new Date(edited.completed_at).getTime() <= start) {
+    return 'The end time must be after the start time'
+  }
+  for (const ex of edited.exercises) {
+    for (const set of ex.sets) {
+      if (set.reps === null || set.reps <= 0) return 'Every set needs at least one rep'
+      if (set.weight_kg !== null && set.weight_kg < 0) return 'Weights cannot be negative'
+    }
+  }
+  return null
+}
+
+export function planWorkoutEdit(original: EditableWorkout, edited: EditableWorkout): WorkoutEditPlan {
+  const workoutChanges: WorkoutEditPlan['workout'] = {}
+  if (edited.started_at !== original.started_at) workoutChanges.started_at = edited.started_at
+  if (edited.completed_at !== original.completed_at) workoutChanges.completed_at = edited.completed_at
+  if ((edited.notes ?? null) !== (original.notes ?? null)) workoutChanges.notes = edited.notes
+
+  // Moving the workout moves its sets with it, so PR dates follow
+  const shiftMs = new Date(edited.started_at).getTime() - new Date(original.started_at).getTime()
+  const newSetTime = edited.completed_at ?? edited.started_at
+
+  const affected = new Set<string>()
+  const originalExercises = new Map(original.exercises.map(ex => [ex.id, ex]))
+  const editedIds = new Set(edited.exercises.map(ex => ex.id))
+
+  const plan: WorkoutEditPlan = {
+    workout: Object.keys(workoutChanges).length > 0 ? workoutChanges : null,
+    deletedSetIds: [],
+    removedExerciseIds: [],
+    addedExercises: [],
+    updatedExercises: [],
+    insertedSets: [],
+    updatedSets: [],
+    affectedExerciseIds: [],
+  }
+
+  original.exercises.forEach(ex => {
+    if (editedIds.has(ex.id)) return
+    plan.removedExerciseIds.push(ex.id)
+    plan.deletedSetIds.push(...ex.sets.map(s => s.id))
+    affected.add(ex.exercise.id)
+  })
+
+  edited.exercises.forEach(ex => {
+    const before = originalExercises.get(ex.id)
+
+    if (!before) {
+      plan.addedExercises.push({
+        id: ex.id,
+        workout_id: original.id,
+        exercise_id: ex.exercise.id,
+        order_index: ex.order_index,
+        group_id: ex.group_id,
+        group_type: ex.group_type,
+        is_substitution: false,
+      })
+    } else {
+      const changes: WorkoutEditPlan['updatedExercises'][number]['changes'] = {}
+      if (ex.order_index !== before.order_index) changes.order_index = ex.order_index
+      if (ex.group_id !== before.group_id) changes.group_id = ex.group_id
+      if (ex.group_type !== before.group_type) changes.group_type = ex.group_type
+      if (Object.keys(changes).length > 0) plan.updatedExercises.push({ id: ex.id, changes })
+    }
+
+    const beforeSets = new Map((before?.sets ?? []).map(s => [s.id, s]))
+    const keptSetIds = new Set(ex.sets.map(s => s.id))
+    let setsChanged = !before || shiftMs !== 0
+
+    beforeSets.forEach(set => {
+      if (keptSetIds.has(set.id)) return
+      plan.deletedSetIds.push(set.id)
+      setsChanged = true
+    })
+
+    ex.sets.forEach(set => {
+      const prior = beforeSets.get(set.id)
+      if (!prior) {
+        const { id, ...values } = set
+        plan.insertedSets.push({ ...values, id, workout_exercise_id: ex.id, completed_at: newSetTime })
+        setsChanged = true
+        return
+      }
+
+      const next = shiftMs !== 0 ? { ...set, completed_at: shiftIso(prior.completed_at, shiftMs) } : set
+      const changes: Partial<SetValues> = {}
+      SET_FIELDS.forEach(field => {
+        if (next[field] !== prior[field]) (changes as Record<string, unknown>)[field] = next[field]
+      })
+      if (Object.keys(changes).length > 0) {
+        plan.updatedSets.push({ id: set.id, changes })
+        setsChanged = true
+      }
+    })
+
+    if (setsChanged) affected.add(ex.exercise.id)
+  })
+
+  plan.affectedExerciseIds = Array.from(affected)
+  return plan
+}
@@ -0,0 +1,60 @@
+-- ============================================================
+-- StrengthFlow Body Measurements
+-- Bodyweight, body fat and tape measurements, one row per check-in.
+-- Bodyweight exercises logged without a load count the latest
+-- bodyweight towards volume.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── body_measurements ─────────────────────────────────────────────────────
+-- Every metric is optional so a check-in can be just a weigh-in.
+-- Stored in kg and cm; the app converts for lbs users.
+CREATE TABLE IF NOT EXISTS public.body_measurements (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  measured_at   timestamptz NOT NULL DEFAULT now(),
+  bodyweight_kg numeric CHECK (bodyweight_kg > 0),
+  body_fat_pct  numeric CHECK (body_fat_pct > 0 AND body_fat_pct < 100),
+  waist_cm      numeric CHECK (waist_cm > 0),
+  chest_cm      numeric CHECK (chest_cm > 0),
+  arm_cm        numeric CHECK (arm_cm > 0),
+  thigh_cm      numeric CHECK (thigh_cm > 0),
+  notes         text,
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS body_measurements_user_measured_idx
+  ON public.body_measurements (user_id, measured_at DESC);
+
+
+-- ── exercise_volume_by_muscle ─────────────────────────────────────────────
+-- Working-set volume per workout, primary muscle and compound flag.
+-- Sets of bodyweight exercises with no load logged use the user's most
+-- recent bodyweight, matching the app's client-side totals.
+DROP VIEW IF EXISTS public.exercise_volume_by_muscle;
+
+CREATE VIEW public.exercise_volume_by_muscle WITH (security_invoker = true) AS
+SELECT
+  w.user_id,
+  w.started_at AS workout_date,
+  e.primary_muscle_group AS muscle_group,
+  e.is_compound,
+  COUNT(ws.id)::int AS total_sets,
+  COALESCE(SUM(
+    COALESCE(ws.weight_kg, CASE WHEN e.equipment = 'bodyweight' THEN bw.bodyweight_kg END, 0)
+    * COALESCE(ws.reps, 0)
+  ), 0) AS total_volume_kg
+FROM public.workouts w
+JOIN public.workout_exercises we ON we.workout_id = w.id
+JOIN public.exercises e ON e.id = we.exercise_id
+JOIN public.workout_sets ws ON ws.workout_exercise_id = we.id AND NOT ws.is_warmup
+LEFT JOIN LATERAL (
+  SELECT bm.bodyweight_kg
+  FROM public.body_measurements bm
+  WHERE bm.user_id = w.user_id AND bm.bodyweight_kg IS NOT NULL
+  ORDER BY bm.measured_at DESC
+  LIMIT 1
+) bw ON true
+WHERE w.status = 'completed'
+GROUP BY w.user_id, w.id, w.started_at, e.primary_muscle_group, e.is_compound;
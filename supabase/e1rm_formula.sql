@@ -0,0 +1,13 @@
+-- ============================================================
+-- StrengthFlow e1RM Formula Preference
+-- Which formula turns a set into an estimated 1RM in the app.
+-- personal_records.estimated_1rm stays Epley; the app
+-- re-estimates from weight, reps and RPE for display.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── profiles ──────────────────────────────────────────────────────────────
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS e1rm_formula text NOT NULL DEFAULT 'epley'
+    CHECK (e1rm_formula IN ('epley', 'brzycki', 'lombardi', 'rpe'));
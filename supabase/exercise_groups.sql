@@ -0,0 +1,27 @@
+-- ============================================================
+-- StrengthFlow Exercise Groups
+-- Supersets, giant sets and circuits: adjacent exercises sharing
+-- a group_id are performed back to back, resting after each round.
+-- Workouts copy the grouping from their template when started.
+-- Run in the Supabase SQL editor. Idempotent: safe to re-run.
+-- ============================================================
+
+ALTER TABLE public.template_exercises
+  ADD COLUMN IF NOT EXISTS group_id uuid,
+  ADD COLUMN IF NOT EXISTS group_type text;
+
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS group_id uuid,
+  ADD COLUMN IF NOT EXISTS group_type text;
+
+ALTER TABLE public.template_exercises
+  DROP CONSTRAINT IF EXISTS template_exercises_group_type_check;
+ALTER TABLE public.template_exercises
+  ADD CONSTRAINT template_exercises_group_type_check
+  CHECK (group_type IS NULL OR group_type IN ('superset', 'giant_set', 'circuit'));
+
+ALTER TABLE public.workout_exercises
+  DROP CONSTRAINT IF EXISTS workout_exercises_group_type_check;
+ALTER TABLE public.workout_exercises
+  ADD CONSTRAINT workout_exercises_group_type_check
+  CHECK (group_type IS NULL OR group_type IN ('superset', 'giant_set', 'circuit'));
@@ -0,0 +1,32 @@
+-- ============================================================
+-- StrengthFlow Percentage-Based Targets
+-- Template loads written as a percentage of an exercise's 1RM or
+-- training max ("5×5 @ 75% TM"). The app resolves them to
+-- plate-rounded weights when a workout starts.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── exercise_maxes ────────────────────────────────────────────────────────
+-- One row per user and exercise. Either value may be empty: without a
+-- stored 1RM the app uses the best estimated 1RM from PRs, and without a
+-- training max it uses 90% of the 1RM.
+CREATE TABLE IF NOT EXISTS public.exercise_maxes (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exercise_id     uuid NOT NULL REFERENCES public.exercises(id) ON DELETE CASCADE,
+  one_rep_max_kg  numeric CHECK (one_rep_max_kg > 0),
+  training_max_kg numeric CHECK (training_max_kg > 0),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, exercise_id)
+);
+
+-- ── template_exercises ────────────────────────────────────────────────────
+-- set_percentages holds one value per working set; a shorter list repeats
+-- its last value. Both columns are null for templates without loads.
+ALTER TABLE public.template_exercises
+  ADD COLUMN IF NOT EXISTS load_basis text
+    CHECK (load_basis IN ('one_rep_max', 'training_max'));
+
+ALTER TABLE public.template_exercises
+  ADD COLUMN IF NOT EXISTS set_percentages numeric[];
@@ -0,0 +1,86 @@
+-- ============================================================
+-- StrengthFlow PR History
+-- personal_records becomes an append-only log of PR events, one row
+-- per category broken, instead of one row per exercise. PRs are
+-- detected by the app when a set is logged.
+-- Run in the Supabase SQL editor. Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── personal_records ──────────────────────────────────────────────────────
+-- Any server-side PR trigger on workout_sets must be dropped as well, or
+-- PRs will be recorded twice.
+
+-- Several rows per exercise from now on
+ALTER TABLE public.personal_records
+  DROP CONSTRAINT IF EXISTS personal_records_user_id_exercise_id_key;
+
+-- 'weight' = heaviest load, 'e1rm' = best Epley estimate,
+-- 'reps' = most reps at a given load, 'volume' = best session total
+ALTER TABLE public.personal_records
+  ADD COLUMN IF NOT EXISTS pr_type text NOT NULL DEFAULT 'weight';
+
+ALTER TABLE public.personal_records
+  DROP CONSTRAINT IF EXISTS personal_records_pr_type_check;
+ALTER TABLE public.personal_records
+  ADD CONSTRAINT personal_records_pr_type_check
+  CHECK (pr_type IN ('weight', 'e1rm', 'reps', 'volume'));
+
+ALTER TABLE public.personal_records
+  ADD COLUMN IF NOT EXISTS estimated_1rm numeric;
+
+-- Session the record was set in (NULL for manual entries)
+ALTER TABLE public.personal_records
+  ADD COLUMN IF NOT EXISTS workout_id uuid
+  REFERENCES public.workouts(id) ON DELETE CASCADE;
+
+-- Deleting a logged set takes the records it produced with it
+ALTER TABLE public.personal_records
+  DROP CONSTRAINT IF EXISTS personal_records_workout_set_id_fkey;
+ALTER TABLE public.personal_records
+  ADD CONSTRAINT personal_records_workout_set_id_fkey
+  FOREIGN KEY (workout_set_id) REFERENCES public.workout_sets(id) ON DELETE CASCADE;
+
+UPDATE public.personal_records
+  SET estimated_1rm = CASE WHEN reps <= 1 THEN weight_kg ELSE weight_kg * (1 + 0.0333 * reps) END
+  WHERE estimated_1rm IS NULL;
+
+CREATE INDEX IF NOT EXISTS personal_records_history_idx
+  ON public.personal_records (user_id, exercise_id, pr_type, achieved_at DESC);
+
+CREATE INDEX IF NOT EXISTS personal_records_workout_idx
+  ON public.personal_records (workout_id);
+
+
+-- ── pr_with_details ───────────────────────────────────────────────────────
+-- PRsTab lists the current heaviest-weight record per exercise
+DROP VIEW IF EXISTS public.pr_with_details;
+
+CREATE VIEW public.pr_with_details WITH (security_invoker = true) AS
+SELECT DISTINCT ON (pr.user_id, pr.exercise_id)
+  pr.id,
+  pr.user_id,
+  pr.exercise_id,
+  e.name AS exercise_name,
+  pr.weight_kg,
+  pr.reps,
+  pr.achieved_at,
+  pr.is_manual,
+  pr.notes,
+  e.primary_muscle_group,
+  e.equipment,
+  e.is_compound,
+  CASE
+    WHEN e.name ILIKE '%squat%' AND e.equipment = 'barbell' THEN 'big_three'
+    WHEN e.name ILIKE '%bench press%' AND e.equipment = 'barbell' THEN 'big_three'
+    WHEN e.name ILIKE '%deadlift%' AND e.equipment = 'barbell' THEN 'big_three'
+    WHEN e.is_compound THEN 'compound'
+    ELSE 'isolation'
+  END AS pr_tier,
+  COALESCE(
+    pr.estimated_1rm,
+    CASE WHEN pr.reps <= 1 THEN pr.weight_kg ELSE pr.weight_kg * (1 + 0.0333 * pr.reps) END
+  ) AS estimated_1rm
+FROM public.personal_records pr
+JOIN public.exercises e ON e.id = pr.exercise_id
+WHERE pr.pr_type = 'weight'
+ORDER BY pr.user_id, pr.exercise_id, pr.weight_kg DESC, pr.achieved_at DESC;
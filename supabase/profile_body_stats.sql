@@ -0,0 +1,16 @@
+-- ============================================================
+-- StrengthFlow Profile Body Stats
+-- Sex and bodyweight on the profile, used for Wilks, DOTS and
+-- IPF GL scores and the strength standards in the PRs tab.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── profiles ──────────────────────────────────────────────────────────────
+-- Both optional. bodyweight_kg is the lifter's stated weight; when it is
+-- empty the app falls back to the latest body_measurements weigh-in.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS sex text CHECK (sex IN ('male', 'female'));
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS bodyweight_kg numeric CHECK (bodyweight_kg > 0);
@@ -0,0 +1,57 @@
+-- ============================================================
+-- StrengthFlow Programs
+-- Multi-week training programs built from workout templates.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── programs ──────────────────────────────────────────────────────────────
+-- created_by IS NULL = system program, otherwise a user's own
+CREATE TABLE IF NOT EXISTS public.programs (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        text NOT NULL,
+  description text,
+  weeks       int  NOT NULL CHECK (weeks BETWEEN 1 AND 52),
+  created_by  uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+
+-- ── program_days ──────────────────────────────────────────────────────────
+-- One row per calendar slot. template_id IS NULL = rest day; deleting a
+-- template turns its slots into rest days rather than breaking the program.
+CREATE TABLE IF NOT EXISTS public.program_days (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id  uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  week_number int  NOT NULL CHECK (week_number >= 1),
+  day_number  int  NOT NULL CHECK (day_number BETWEEN 1 AND 7),
+  template_id uuid REFERENCES public.workout_templates(id) ON DELETE SET NULL,
+  UNIQUE (program_id, week_number, day_number)
+);
+
+
+-- ── program_enrollments ───────────────────────────────────────────────────
+-- current_day_index points into program_days ordered by (week, day)
+CREATE TABLE IF NOT EXISTS public.program_enrollments (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  program_id        uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  status            text NOT NULL DEFAULT 'active'
+                      CHECK (status IN ('active', 'completed', 'abandoned')),
+  current_day_index int  NOT NULL DEFAULT 0,
+  last_advanced_at  timestamptz NOT NULL DEFAULT now(),
+  started_at        timestamptz NOT NULL DEFAULT now(),
+  completed_at      timestamptz
+);
+
+-- At most one active program per user
+CREATE UNIQUE INDEX IF NOT EXISTS program_enrollments_one_active
+  ON public.program_enrollments (user_id) WHERE status = 'active';
+
+
+-- ── workouts ──────────────────────────────────────────────────────────────
+-- Links a session to the program slot it was started from
+ALTER TABLE public.workouts
+  ADD COLUMN IF NOT EXISTS program_day_id uuid
+  REFERENCES public.program_days(id) ON DELETE SET NULL;
@@ -0,0 +1,33 @@
+-- ============================================================
+-- StrengthFlow Progress Photos
+-- Photo metadata, optionally linked to a workout. The images
+-- themselves live in the private "progress-photos" Storage
+-- bucket under <user_id>/<photo_id>.jpg, with a _thumb.jpg
+-- alongside generated on the device.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── progress_photos ───────────────────────────────────────────────────────
+-- taken_on is a calendar date so comparisons line up by day, whatever the
+-- time zone. Deleting a workout keeps its photos, just unlinked.
+CREATE TABLE IF NOT EXISTS public.progress_photos (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  taken_on       date NOT NULL DEFAULT current_date,
+  workout_id     uuid REFERENCES public.workouts(id) ON DELETE SET NULL,
+  storage_path   text NOT NULL,
+  thumbnail_path text NOT NULL,
+  notes          text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS progress_photos_user_taken_idx
+  ON public.progress_photos (user_id, taken_on DESC);
+
+
+-- ── Storage bucket ────────────────────────────────────────────────────────
+-- Private: the app reads through short-lived signed URLs.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('progress-photos', 'progress-photos', false)
+ON CONFLICT (id) DO NOTHING;
@@ -250,3 +250,195 @@ CREATE POLICY "prs_update_own" ON public.personal_records
 
 CREATE POLICY "prs_delete_own" ON public.personal_records
   FOR DELETE USING (user_id = auth.uid());
+
+
+-- ── programs ──────────────────────────────────────────────────────────────
+ALTER TABLE public.programs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "programs_select_all"  ON public.programs;
+DROP POLICY IF EXISTS "programs_insert_own"  ON public.programs;
+DROP POLICY IF EXISTS "programs_update_own"  ON public.programs;
+DROP POLICY IF EXISTS "programs_delete_own"  ON public.programs;
+
+-- System programs (created_by IS NULL) plus the user's own
+CREATE POLICY "programs_select_all" ON public.programs
+  FOR SELECT USING (created_by IS NULL OR created_by = auth.uid());
+
+CREATE POLICY "programs_insert_own" ON public.programs
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "programs_update_own" ON public.programs
+  FOR UPDATE USING (created_by = auth.uid());
+
+CREATE POLICY "programs_delete_own" ON public.programs
+  FOR DELETE USING (created_by = auth.uid());
+
+
+-- ── program_days ──────────────────────────────────────────────────────────
+ALTER TABLE public.program_days ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "program_days_select"      ON public.program_days;
+DROP POLICY IF EXISTS "program_days_insert_own"  ON public.program_days;
+DROP POLICY IF EXISTS "program_days_update_own"  ON public.program_days;
+DROP POLICY IF EXISTS "program_days_delete_own"  ON public.program_days;
+
+-- Readable whenever the parent program is
+CREATE POLICY "program_days_select" ON public.program_days
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.programs p
+      WHERE p.id = program_id AND (p.created_by IS NULL OR p.created_by = auth.uid())
+    )
+  );
+
+CREATE POLICY "program_days_insert_own" ON public.program_days
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.programs p
+      WHERE p.id = program_id AND p.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "program_days_update_own" ON public.program_days
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.programs p
+      WHERE p.id = program_id AND p.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "program_days_delete_own" ON public.program_days
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.programs p
+      WHERE p.id = program_id AND p.created_by = auth.uid()
+    )
+  );
+
+
+-- ── program_enrollments ───────────────────────────────────────────────────
+ALTER TABLE public.program_enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "enrollments_select_own"  ON public.program_enrollments;
+DROP POLICY IF EXISTS "enrollments_insert_own"  ON public.program_enrollments;
+DROP POLICY IF EXISTS "enrollments_update_own"  ON public.program_enrollments;
+DROP POLICY IF EXISTS "enrollments_delete_own"  ON public.program_enrollments;
+
+CREATE POLICY "enrollments_select_own" ON public.program_enrollments
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "enrollments_insert_own" ON public.program_enrollments
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "enrollments_update_own" ON public.program_enrollments
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "enrollments_delete_own" ON public.program_enrollments
+  FOR DELETE USING (user_id = auth.uid());
+
+-- ── body_measurements ─────────────────────────────────────────────────────
+ALTER TABLE public.body_measurements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "measurements_select_own"  ON public.body_measurements;
+DROP POLICY IF EXISTS "measurements_insert_own"  ON public.body_measurements;
+DROP POLICY IF EXISTS "measurements_update_own"  ON public.body_measurements;
+DROP POLICY IF EXISTS "measurements_delete_own"  ON public.body_measurements;
+
+CREATE POLICY "measurements_select_own" ON public.body_measurements
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "measurements_insert_own" ON public.body_measurements
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "measurements_update_own" ON public.body_measurements
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "measurements_delete_own" ON public.body_measurements
+  FOR DELETE USING (user_id = auth.uid());
+
+-- ── progress_photos ───────────────────────────────────────────────────────
+ALTER TABLE public.progress_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "photos_select_own"  ON public.progress_photos;
+DROP POLICY IF EXISTS "photos_insert_own"  ON public.progress_photos;
+DROP POLICY IF EXISTS "photos_update_own"  ON public.progress_photos;
+DROP POLICY IF EXISTS "photos_delete_own"  ON public.progress_photos;
+
+CREATE POLICY "photos_select_own" ON public.progress_photos
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "photos_insert_own" ON public.progress_photos
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "photos_update_own" ON public.progress_photos
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "photos_delete_own" ON public.progress_photos
+  FOR DELETE USING (user_id = auth.uid());
+
+-- ── storage: progress-photos bucket ───────────────────────────────────────
+-- Objects are keyed <user_id>/<file>; the first folder must be the caller.
+DROP POLICY IF EXISTS "photo_objects_select_own"  ON storage.objects;
+DROP POLICY IF EXISTS "photo_objects_insert_own"  ON storage.objects;
+DROP POLICY IF EXISTS "photo_objects_update_own"  ON storage.objects;
+DROP POLICY IF EXISTS "photo_objects_delete_own"  ON storage.objects;
+
+CREATE POLICY "photo_objects_select_own" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'progress-photos' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "photo_objects_insert_own" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'progress-photos' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "photo_objects_update_own" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'progress-photos' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "photo_objects_delete_own" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'progress-photos' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- ── exercise_maxes ────────────────────────────────────────────────────────
+ALTER TABLE public.exercise_maxes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "maxes_select_own"  ON public.exercise_maxes;
+DROP POLICY IF EXISTS "maxes_insert_own"  ON public.exercise_maxes;
+DROP POLICY IF EXISTS "maxes_update_own"  ON public.exercise_maxes;
+DROP POLICY IF EXISTS "maxes_delete_own"  ON public.exercise_maxes;
+
+CREATE POLICY "maxes_select_own" ON public.exercise_maxes
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "maxes_insert_own" ON public.exercise_maxes
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "maxes_update_own" ON public.exercise_maxes
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "maxes_delete_own" ON public.exercise_maxes
+  FOR DELETE USING (user_id = auth.uid());
+
+-- ── volume_landmarks ──────────────────────────────────────────────────────
+ALTER TABLE public.volume_landmarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "landmarks_select_own"  ON public.volume_landmarks;
+DROP POLICY IF EXISTS "landmarks_insert_own"  ON public.volume_landmarks;
+DROP POLICY IF EXISTS "landmarks_update_own"  ON public.volume_landmarks;
+DROP POLICY IF EXISTS "landmarks_delete_own"  ON public.volume_landmarks;
+
+CREATE POLICY "landmarks_select_own" ON public.volume_landmarks
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "landmarks_insert_own" ON public.volume_landmarks
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "landmarks_update_own" ON public.volume_landmarks
+  FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "landmarks_delete_own" ON public.volume_landmarks
+  FOR DELETE USING (user_id = auth.uid());
@@ -41,6 +41,13 @@ DECLARE
   t_full     uuid := gen_random_uuid();
   t_deload   uuid := gen_random_uuid();
 
+  -- program ids
+  p_ppl      uuid := gen_random_uuid();
+  p_ul       uuid := gen_random_uuid();
+  week_days  uuid[];
+  wk         int;
+  d          int;
+
   -- workout ids (20 workouts over ~6 weeks, 3/week)
   w  uuid[];
 
@@ -52,6 +59,8 @@ BEGIN
 
   -- ── 0. Clean up previous demo data ────────────────────────────────────────
   DELETE FROM public.personal_records WHERE user_id = demo_id;
+  DELETE FROM public.program_enrollments WHERE user_id = demo_id;
+  DELETE FROM public.programs WHERE created_by = demo_id; -- cascades to program_days
   DELETE FROM public.workout_sets
     WHERE workout_exercise_id IN (
       SELECT we.id FROM public.workout_exercises we
@@ -576,5 +585,35 @@ BEGIN
       (we_id, 3, 157.5, 3,  8.5, false, (SELECT started_at FROM public.workouts WHERE id = w[20]) + interval '38 minutes');
   END IF;
 
+  -- ── 6. Programs ────────────────────────────────────────────────────────────
+  -- NULL slot = rest day. Week 6 of the PPL block is a deload.
+  INSERT INTO public.programs (id, name, description, weeks, created_by) VALUES
+    (p_ppl, 'PPL Block',   '6-week push/pull/legs block with a deload week', 6, demo_id),
+    (p_ul,  'Upper/Lower', '4-week upper/lower split, 4 days a week',        4, demo_id);
+
+  FOR wk IN 1..6 LOOP
+    IF wk < 6 THEN
+      week_days := ARRAY[t_push_a, t_pull_a, t_legs_a, NULL, t_push_b, t_pull_b, t_legs_b];
+    ELSE
+      week_days := ARRAY[t_deload, NULL, NULL, t_deload, NULL, NULL, NULL]::uuid[];
+    END IF;
+    FOR d IN 1..7 LOOP
+      INSERT INTO public.program_days (program_id, week_number, day_number, template_id)
+      VALUES (p_ppl, wk, d, week_days[d]);
+    END LOOP;
+  END LOOP;
+
+  FOR wk IN 1..4 LOOP
+    week_days := ARRAY[t_upper, t_lower, NULL, t_upper, t_lower, NULL, NULL]::uuid[];
+    FOR d IN 1..7 LOOP
+      INSERT INTO public.program_days (program_id, week_number, day_number, template_id)
+      VALUES (p_ul, wk, d, week_days[d]);
+    END LOOP;
+  END LOOP;
+
+  -- Demo user is partway through the PPL block (week 3, Pull B)
+  INSERT INTO public.program_enrollments (user_id, program_id, current_day_index, started_at, last_advanced_at)
+  VALUES (demo_id, p_ppl, 19, now() - interval '19 days', now());
+
   RAISE NOTICE 'Demo seed completed successfully for user %', demo_id;
 END $$;
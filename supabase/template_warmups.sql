@@ -0,0 +1,9 @@
+-- ============================================================
+-- StrengthFlow Template Warm-ups
+-- Per template exercise switch for the generated warm-up ramp
+-- (barbell compounds only; the app ignores it for other lifts).
+-- Run in the Supabase SQL editor. Idempotent: safe to re-run.
+-- ============================================================
+
+ALTER TABLE public.template_exercises
+  ADD COLUMN IF NOT EXISTS warmup_enabled boolean NOT NULL DEFAULT true;
@@ -0,0 +1,21 @@
+-- ============================================================
+-- StrengthFlow Volume Landmarks
+-- Weekly working-set targets per muscle group: minimum effective
+-- (MEV), maximum adaptive (MAV) and maximum recoverable (MRV)
+-- volume. Muscles without a row use the app's defaults.
+-- Run in the Supabase SQL editor before rls_policies.sql.
+-- Idempotent: safe to re-run.
+-- ============================================================
+
+-- ── volume_landmarks ──────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.volume_landmarks (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  muscle_group  text NOT NULL,
+  mev           integer NOT NULL CHECK (mev >= 0),
+  mav           integer NOT NULL,
+  mrv           integer NOT NULL,
+  updated_at    timestamptz NOT NULL DEFAULT now(),
+  CHECK (mev <= mav AND mav <= mrv),
+  UNIQUE (user_id, muscle_group)
+);